@@ -2,18 +2,20 @@
 /**
  * Expired Medicine Cleanup Cron Job
  * 
- * This script deletes expired medicine purchase history and stock transactions
- * that are 2+ years old. It should run annually on January 1st at 12:00 PM.
+ * This script archives and deletes expired medicine purchase history and stock
+ * transactions older than each pharmacy's retention period (set on the settings page).
+ * It should run annually on January 1st at 12:00 PM.
  * 
  * Usage:
- *   npm run dev              # Run in production mode
+ *   npm run dev              # Run in production mode (archives, then deletes)
  *   npm run dry-run          # Preview deletions without committing
  *   DRY_RUN=true npm run dev # Alternative dry-run method
+ *   NO_ARCHIVE=true npm run dev # Delete without keeping a copy in archived_records
  */
 
 import { createClient } from '@supabase/supabase-js'
 import * as dotenv from 'dotenv'
-import { cleanupExpiredMedicines, calculateCutoffDate, formatDate } from '../src/lib/cron/cleanup-logic'
+import { cleanupExpiredMedicines } from '../src/lib/cron/cleanup-logic'
 
 // Load environment variables
 dotenv.config()
@@ -22,6 +24,7 @@ dotenv.config()
 const SUPABASE_URL = process.env.SUPABASE_URL
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
 const DRY_RUN = process.env.DRY_RUN === 'true'
+const NO_ARCHIVE = process.env.NO_ARCHIVE === 'true'
 const VERBOSE = process.env.VERBOSE === 'true' || true
 
 // Validation
@@ -59,12 +62,7 @@ async function runCleanupJob(): Promise<void> {
     log('========================================')
     log('Expired Medicine Cleanup Job Started')
     log('========================================')
-    log(`Mode: ${DRY_RUN ? 'DRY RUN (Preview Only)' : 'PRODUCTION (Will Delete Data)'}`)
-    
-    // Calculate cutoff date
-    const cutoffDate = calculateCutoffDate()
-    log(`Cutoff Date: ${formatDate(cutoffDate)}`)
-    log(`Deleting medicines expired before: ${formatDate(cutoffDate)}`)
+    log(`Mode: ${DRY_RUN ? 'DRY RUN (Preview Only)' : NO_ARCHIVE ? 'PRODUCTION (Will Delete Data)' : 'PRODUCTION (Will Archive, Then Delete Data)'}`)
     
     try {
         if (DRY_RUN) {
@@ -73,7 +71,9 @@ async function runCleanupJob(): Promise<void> {
         }
         
         // Call the shared cleanup function
-        const result = await cleanupExpiredMedicines(supabase)
+        const result = await cleanupExpiredMedicines(supabase, undefined, {
+            mode: DRY_RUN ? 'dry_run' : NO_ARCHIVE ? 'delete' : 'archive'
+        })
         
         if (!result.success) {
             log('Cleanup job failed', 'error')
@@ -84,6 +84,15 @@ async function runCleanupJob(): Promise<void> {
         // Display results
         log(`\n${result.message}`)
         log(`Batches processed: ${result.batchesProcessed}`)
+        for (const pharmacy of result.pharmacies) {
+            log(`  Pharmacy ${pharmacy.pharmacy_id}: ${pharmacy.batchesProcessed} batches expired before ${pharmacy.cutoffDate} (${pharmacy.retention_years} year retention)`)
+        }
+        
+        if (VERBOSE && result.batches) {
+            for (const batch of result.batches) {
+                log(`  ${batch.medicine_name} ${batch.batch_number} (exp ${batch.expiry_date}), invoice ${batch.invoice_number}, value ${batch.purchase_value}`)
+            }
+        }
         
         // Summary
         log('\n========================================')
@@ -94,6 +103,7 @@ async function runCleanupJob(): Promise<void> {
         log(`  Stock Transactions: ${result.stats.stock_transactions}`)
         log(`  Purchase Items: ${result.stats.purchase_items}`)
         log(`  Orphaned Purchases: ${result.stats.purchases}`)
+        log(`  Records Archived: ${result.archived}`)
         
         const duration = ((Date.now() - startTime) / 1000).toFixed(2)
         log(`\nTotal execution time: ${duration} seconds`)
@@ -0,0 +1,265 @@
+-- ===============================================
+-- EXPIRED MEDICINE CLEANUP: PREVIEW, ARCHIVE AND RETENTION
+-- Run after supabase_schema_fixed.sql, rls_policies.sql, pharmacy_settings.sql,
+-- purchase_receipts.sql and multi_pharmacy.sql
+-- ===============================================
+
+-- Batches that expired before January 1st, <retention years> ago are
+-- removed one pharmacy at a time. preview_expired_cleanup() lists exactly
+-- what would go; cleanup_expired_batches() removes it in one transaction,
+-- first copying every row (including the payments and goods receipts that
+-- go with a removed purchase) into archived_records when asked to.
+
+-- ===============================================
+-- 1. RETENTION PER PHARMACY
+-- ===============================================
+
+ALTER TABLE public.pharmacy_settings
+    ADD COLUMN IF NOT EXISTS cleanup_retention_years INTEGER DEFAULT 4;
+
+ALTER TABLE public.pharmacy_settings
+    ADD CONSTRAINT pharmacy_settings_cleanup_retention_years_check CHECK (cleanup_retention_years BETWEEN 1 AND 50);
+
+ALTER TABLE public.pharmacies
+    ADD COLUMN IF NOT EXISTS last_cleanup_date TIMESTAMP WITH TIME ZONE;
+
+-- ===============================================
+-- 2. ARCHIVE
+-- ===============================================
+
+-- One row per archived record, kept as it was when removed. Rows archived
+-- by the same cleanup share an archive_id.
+CREATE TABLE IF NOT EXISTS public.archived_records (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    archive_id UUID NOT NULL,
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    source_table TEXT NOT NULL,
+    source_id UUID NOT NULL,
+    data JSONB NOT NULL,
+    archived_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    archived_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_archived_records_archive ON public.archived_records(pharmacy_id, archive_id);
+CREATE INDEX IF NOT EXISTS idx_archived_records_source ON public.archived_records(source_table, source_id);
+
+ALTER TABLE public.archived_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View pharmacy archived records" ON public.archived_records
+FOR SELECT USING (pharmacy_id = get_user_pharmacy_id());
+
+-- ===============================================
+-- 3. PREVIEW
+-- ===============================================
+
+-- One row per purchased batch that a cleanup with this cutoff would
+-- remove, with its value and how many rows go with it. removes_purchase
+-- is true when every line of the invoice is being removed, so the
+-- invoice itself (and its payments and receipts) goes too.
+CREATE OR REPLACE FUNCTION preview_expired_cleanup(
+    p_pharmacy_id UUID,
+    p_cutoff DATE
+) RETURNS TABLE (
+    purchase_item_id UUID,
+    purchase_id UUID,
+    invoice_number TEXT,
+    purchase_date DATE,
+    supplier_name TEXT,
+    medicine_id UUID,
+    medicine_name TEXT,
+    batch_number TEXT,
+    expiry_date DATE,
+    quantity INTEGER,
+    purchase_value DECIMAL,
+    current_stock INTEGER,
+    stock_value DECIMAL,
+    inventory_rows INTEGER,
+    stock_transaction_rows INTEGER,
+    removes_purchase BOOLEAN
+) AS $$
+    SELECT
+        pi.id,
+        p.id,
+        p.invoice_number,
+        p.purchase_date,
+        s.name,
+        pi.medicine_id,
+        m.name,
+        pi.batch_number,
+        pi.expiry_date,
+        pi.total_quantity,
+        COALESCE(pi.net_amount, 0),
+        COALESCE(inv.current_stock, 0)::INTEGER,
+        COALESCE(inv.stock_value, 0),
+        COALESCE(inv.row_count, 0)::INTEGER,
+        (
+            SELECT COUNT(*)::INTEGER
+            FROM public.stock_transactions st
+            WHERE st.pharmacy_id = p_pharmacy_id
+                AND st.medicine_id = pi.medicine_id
+                AND st.batch_number = pi.batch_number
+                AND st.expiry_date = pi.expiry_date
+        ),
+        -- Same test as cleanup_expired_batches(); lines without an expiry date stay
+        NOT EXISTS (
+            SELECT 1 FROM public.purchase_items other
+            WHERE other.purchase_id = p.id
+                AND (other.expiry_date IS NULL OR other.expiry_date >= p_cutoff)
+        )
+    FROM public.purchase_items pi
+    JOIN public.purchases p ON p.id = pi.purchase_id
+    LEFT JOIN public.suppliers s ON s.id = p.supplier_id
+    LEFT JOIN public.medicines m ON m.id = pi.medicine_id
+    LEFT JOIN LATERAL (
+        SELECT
+            SUM(ci.current_stock) AS current_stock,
+            ROUND(SUM(ci.current_stock * COALESCE(ci.last_purchase_rate, 0)), 2) AS stock_value,
+            COUNT(*) AS row_count
+        FROM public.current_inventory ci
+        WHERE ci.pharmacy_id = p_pharmacy_id
+            AND ci.medicine_id = pi.medicine_id
+            AND ci.batch_number = pi.batch_number
+            AND ci.expiry_date = pi.expiry_date
+    ) inv ON true
+    WHERE p.pharmacy_id = p_pharmacy_id
+        AND pi.expiry_date < p_cutoff
+    ORDER BY pi.expiry_date, m.name, pi.batch_number;
+$$ LANGUAGE sql STABLE;
+
+-- ===============================================
+-- 4. CLEANUP
+-- ===============================================
+
+-- Removes what preview_expired_cleanup() lists for the same cutoff. With
+-- p_archive every removed row is copied to archived_records first; nothing
+-- is deleted unless the copy succeeds, since both happen in this one
+-- transaction.
+CREATE OR REPLACE FUNCTION cleanup_expired_batches(
+    p_pharmacy_id UUID,
+    p_cutoff DATE,
+    p_archive BOOLEAN DEFAULT true,
+    p_user_id UUID DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_archive_id UUID := CASE WHEN p_archive THEN uuid_generate_v4() END;
+    v_archived INTEGER := 0;
+    v_rows INTEGER;
+    v_inventory INTEGER;
+    v_transactions INTEGER;
+    v_items INTEGER;
+    v_purchases INTEGER;
+BEGIN
+    DROP TABLE IF EXISTS cleanup_items, cleanup_purchases;
+
+    CREATE TEMP TABLE cleanup_items ON COMMIT DROP AS
+    SELECT pi.id, pi.purchase_id, pi.medicine_id, pi.batch_number, pi.expiry_date
+    FROM public.purchase_items pi
+    JOIN public.purchases p ON p.id = pi.purchase_id
+    WHERE p.pharmacy_id = p_pharmacy_id
+        AND pi.expiry_date < p_cutoff;
+
+    -- Invoices left with no lines once these are gone
+    CREATE TEMP TABLE cleanup_purchases ON COMMIT DROP AS
+    SELECT DISTINCT ci.purchase_id AS id
+    FROM cleanup_items ci
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.purchase_items other
+        WHERE other.purchase_id = ci.purchase_id
+            AND (other.expiry_date IS NULL OR other.expiry_date >= p_cutoff)
+    );
+
+    IF p_archive THEN
+        INSERT INTO public.archived_records (archive_id, pharmacy_id, source_table, source_id, data, archived_by)
+        SELECT v_archive_id, p_pharmacy_id, 'current_inventory', inv.id, to_jsonb(inv), p_user_id
+        FROM public.current_inventory inv
+        WHERE inv.pharmacy_id = p_pharmacy_id
+            AND (inv.medicine_id, inv.batch_number, inv.expiry_date) IN (
+                SELECT medicine_id, batch_number, expiry_date FROM cleanup_items
+            );
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_archived := v_archived + v_rows;
+
+        INSERT INTO public.archived_records (archive_id, pharmacy_id, source_table, source_id, data, archived_by)
+        SELECT v_archive_id, p_pharmacy_id, 'stock_transactions', st.id, to_jsonb(st), p_user_id
+        FROM public.stock_transactions st
+        WHERE st.pharmacy_id = p_pharmacy_id
+            AND (st.medicine_id, st.batch_number, st.expiry_date) IN (
+                SELECT medicine_id, batch_number, expiry_date FROM cleanup_items
+            );
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_archived := v_archived + v_rows;
+
+        INSERT INTO public.archived_records (archive_id, pharmacy_id, source_table, source_id, data, archived_by)
+        SELECT v_archive_id, p_pharmacy_id, 'purchase_receipt_items', ri.id, to_jsonb(ri), p_user_id
+        FROM public.purchase_receipt_items ri
+        WHERE ri.purchase_item_id IN (SELECT id FROM cleanup_items);
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_archived := v_archived + v_rows;
+
+        INSERT INTO public.archived_records (archive_id, pharmacy_id, source_table, source_id, data, archived_by)
+        SELECT v_archive_id, p_pharmacy_id, 'purchase_items', pi.id, to_jsonb(pi), p_user_id
+        FROM public.purchase_items pi
+        WHERE pi.id IN (SELECT id FROM cleanup_items);
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_archived := v_archived + v_rows;
+
+        -- Removing an invoice also removes its payments and goods receipts (ON DELETE CASCADE)
+        INSERT INTO public.archived_records (archive_id, pharmacy_id, source_table, source_id, data, archived_by)
+        SELECT v_archive_id, p_pharmacy_id, 'supplier_payments', sp.id, to_jsonb(sp), p_user_id
+        FROM public.supplier_payments sp
+        WHERE sp.purchase_id IN (SELECT id FROM cleanup_purchases);
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_archived := v_archived + v_rows;
+
+        INSERT INTO public.archived_records (archive_id, pharmacy_id, source_table, source_id, data, archived_by)
+        SELECT v_archive_id, p_pharmacy_id, 'purchase_receipts', pr.id, to_jsonb(pr), p_user_id
+        FROM public.purchase_receipts pr
+        WHERE pr.purchase_id IN (SELECT id FROM cleanup_purchases);
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_archived := v_archived + v_rows;
+
+        INSERT INTO public.archived_records (archive_id, pharmacy_id, source_table, source_id, data, archived_by)
+        SELECT v_archive_id, p_pharmacy_id, 'purchases', p.id, to_jsonb(p), p_user_id
+        FROM public.purchases p
+        WHERE p.id IN (SELECT id FROM cleanup_purchases);
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_archived := v_archived + v_rows;
+    END IF;
+
+    DELETE FROM public.current_inventory inv
+    WHERE inv.pharmacy_id = p_pharmacy_id
+        AND (inv.medicine_id, inv.batch_number, inv.expiry_date) IN (
+            SELECT medicine_id, batch_number, expiry_date FROM cleanup_items
+        );
+    GET DIAGNOSTICS v_inventory = ROW_COUNT;
+
+    DELETE FROM public.stock_transactions st
+    WHERE st.pharmacy_id = p_pharmacy_id
+        AND (st.medicine_id, st.batch_number, st.expiry_date) IN (
+            SELECT medicine_id, batch_number, expiry_date FROM cleanup_items
+        );
+    GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+    DELETE FROM public.purchase_items pi
+    WHERE pi.id IN (SELECT id FROM cleanup_items);
+    GET DIAGNOSTICS v_items = ROW_COUNT;
+
+    DELETE FROM public.purchases p
+    WHERE p.id IN (SELECT id FROM cleanup_purchases);
+    GET DIAGNOSTICS v_purchases = ROW_COUNT;
+
+    UPDATE public.pharmacies
+    SET last_cleanup_date = NOW()
+    WHERE id = p_pharmacy_id;
+
+    RETURN jsonb_build_object(
+        'batches', v_items,
+        'current_inventory', v_inventory,
+        'stock_transactions', v_transactions,
+        'purchase_items', v_items,
+        'purchases', v_purchases,
+        'archived', v_archived,
+        'archive_id', v_archive_id
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,159 @@
+-- ===============================================
+-- EXPIRY ALERT LIFECYCLE
+-- Run after supabase_schema.sql, rls_policies.sql and pharmacy_settings.sql
+-- ===============================================
+
+-- Alerts are kept as a to-do list: generated once per stocked batch,
+-- escalated in place (90 → 60 → 30 days → expired), acknowledged by staff
+-- and resolved with a note saying what was done with the stock.
+ALTER TABLE public.expiry_alerts
+    ADD COLUMN IF NOT EXISTS notes TEXT,
+    ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Keep only the newest alert per batch before enforcing one alert per batch
+DELETE FROM public.expiry_alerts a
+USING public.expiry_alerts b
+WHERE a.pharmacy_id = b.pharmacy_id
+    AND a.medicine_id = b.medicine_id
+    AND a.batch_number = b.batch_number
+    AND a.expiry_date = b.expiry_date
+    AND (a.created_at, a.id) < (b.created_at, b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expiry_alerts_batch
+    ON public.expiry_alerts(pharmacy_id, medicine_id, batch_number, expiry_date);
+CREATE INDEX IF NOT EXISTS idx_expiry_alerts_pharmacy_status
+    ON public.expiry_alerts(pharmacy_id, status, expiry_date);
+
+-- Alerts are now generated by generate_expiry_alerts(UUID, INTEGER) below,
+-- so retire the per-row trigger from the base schema
+DROP TRIGGER IF EXISTS trigger_generate_expiry_alerts ON public.current_inventory;
+DROP FUNCTION IF EXISTS generate_expiry_alerts();
+
+-- ===============================================
+-- GENERATE / REFRESH ALERTS
+-- ===============================================
+
+-- Alert band for a batch as of today. The band names are fixed; the
+-- critical and warning limits come from pharmacy_settings.
+DROP FUNCTION IF EXISTS expiry_alert_type(DATE);
+
+CREATE OR REPLACE FUNCTION expiry_alert_type(
+    p_expiry_date DATE,
+    p_critical_days INTEGER DEFAULT 30,
+    p_warning_days INTEGER DEFAULT 60
+) RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN p_expiry_date <= CURRENT_DATE THEN 'expired'
+        WHEN p_expiry_date <= CURRENT_DATE + p_critical_days THEN '30_days'
+        WHEN p_expiry_date <= CURRENT_DATE + p_warning_days THEN '60_days'
+        ELSE '90_days'
+    END
+$$ LANGUAGE sql STABLE;
+
+-- Creates an alert for every stocked batch expiring within the horizon and
+-- refreshes the ones that already exist. An acknowledged alert that moves
+-- into a more urgent band is re-opened. Alerts for batches that are no
+-- longer in stock (sold, returned or written off) are resolved automatically.
+-- Pass NULL to refresh every pharmacy (used by the scheduled job). Bands
+-- and the horizon follow each pharmacy's settings unless a horizon is given.
+CREATE OR REPLACE FUNCTION generate_expiry_alerts(
+    p_pharmacy_id UUID DEFAULT NULL,
+    p_horizon_days INTEGER DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_created INTEGER;
+    v_refreshed INTEGER;
+    v_reopened INTEGER;
+    v_auto_resolved INTEGER;
+BEGIN
+    -- Acknowledged alerts that have moved into a more urgent band need attention again
+    UPDATE public.expiry_alerts a SET
+        status = 'active',
+        updated_at = NOW()
+    FROM public.expiry_alerts x
+    LEFT JOIN public.pharmacy_settings ps ON ps.pharmacy_id = x.pharmacy_id
+    WHERE x.id = a.id
+        AND a.status = 'acknowledged'
+        AND a.alert_type <> expiry_alert_type(
+            a.expiry_date,
+            COALESCE(ps.expiry_critical_days, 30),
+            COALESCE(ps.expiry_warning_days, 60)
+        )
+        AND (p_pharmacy_id IS NULL OR a.pharmacy_id = p_pharmacy_id);
+    GET DIAGNOSTICS v_reopened = ROW_COUNT;
+
+    WITH upserted AS (
+        INSERT INTO public.expiry_alerts (
+            pharmacy_id, medicine_id, batch_number, expiry_date,
+            alert_date, alert_type, days_to_expiry, current_stock, estimated_loss, status
+        )
+        SELECT
+            ci.pharmacy_id,
+            ci.medicine_id,
+            ci.batch_number,
+            ci.expiry_date,
+            CURRENT_DATE,
+            expiry_alert_type(
+                ci.expiry_date,
+                COALESCE(ps.expiry_critical_days, 30),
+                COALESCE(ps.expiry_warning_days, 60)
+            ),
+            ci.expiry_date - CURRENT_DATE,
+            ci.current_stock,
+            ci.current_stock * COALESCE(ci.last_purchase_rate, 0),
+            'active'
+        FROM public.current_inventory ci
+        LEFT JOIN public.pharmacy_settings ps ON ps.pharmacy_id = ci.pharmacy_id
+        WHERE ci.current_stock > 0
+            AND ci.is_active = true
+            AND ci.expiry_date <= CURRENT_DATE + COALESCE(p_horizon_days, ps.expiry_alert_days, 90)
+            AND (p_pharmacy_id IS NULL OR ci.pharmacy_id = p_pharmacy_id)
+        ON CONFLICT (pharmacy_id, medicine_id, batch_number, expiry_date) DO UPDATE SET
+            alert_type = EXCLUDED.alert_type,
+            alert_date = CASE
+                WHEN expiry_alerts.alert_type <> EXCLUDED.alert_type THEN EXCLUDED.alert_date
+                ELSE expiry_alerts.alert_date
+            END,
+            days_to_expiry = EXCLUDED.days_to_expiry,
+            current_stock = EXCLUDED.current_stock,
+            estimated_loss = EXCLUDED.estimated_loss,
+            updated_at = NOW()
+        RETURNING (xmax = 0) AS inserted
+    )
+    SELECT
+        COUNT(*) FILTER (WHERE inserted),
+        COUNT(*) FILTER (WHERE NOT inserted)
+    INTO v_created, v_refreshed
+    FROM upserted;
+
+    -- Stock has gone, nothing left to do for these alerts
+    UPDATE public.expiry_alerts a SET
+        status = 'resolved',
+        current_stock = 0,
+        estimated_loss = 0,
+        resolved_at = NOW(),
+        notes = COALESCE(NULLIF(a.notes, '') || E'\n', '') || 'Auto-resolved: batch no longer in stock',
+        updated_at = NOW()
+    WHERE a.status <> 'resolved'
+        AND (p_pharmacy_id IS NULL OR a.pharmacy_id = p_pharmacy_id)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.current_inventory ci
+            WHERE ci.pharmacy_id = a.pharmacy_id
+                AND ci.medicine_id = a.medicine_id
+                AND ci.batch_number = a.batch_number
+                AND ci.expiry_date = a.expiry_date
+                AND ci.current_stock > 0
+                AND ci.is_active = true
+        );
+    GET DIAGNOSTICS v_auto_resolved = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'created', v_created,
+        'refreshed', v_refreshed,
+        'reopened', v_reopened,
+        'auto_resolved', v_auto_resolved
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,97 @@
+-- ===============================================
+-- EXPIRY TRACKING SEARCH
+-- Run after supabase_schema_fixed.sql, rls_policies.sql and purchase_receipts.sql
+-- ===============================================
+
+-- Stocked batches with the supplier they were last bought from, looked up
+-- once in the database instead of one purchase_items query per batch, and
+-- search_expiring_inventory() to filter and page them with exact totals
+-- for GET /api/expiry. Both run with the caller's rights, so RLS still
+-- limits rows to the user's pharmacy.
+
+-- ===============================================
+-- 1. BATCHES WITH THEIR SUPPLIER
+-- ===============================================
+
+DROP VIEW IF EXISTS view_inventory_expiry CASCADE;
+
+CREATE VIEW view_inventory_expiry WITH (security_invoker = true) AS
+SELECT
+    ci.id,
+    ci.pharmacy_id,
+    ci.medicine_id,
+    m.name AS medicine_name,
+    ci.batch_number,
+    ci.expiry_date,
+    ci.current_stock,
+    ci.current_mrp,
+    ci.last_purchase_rate,
+    ci.current_stock * COALESCE(ci.last_purchase_rate, 0) AS estimated_loss,
+    ci.expiry_date - CURRENT_DATE AS days_to_expiry,
+    src.supplier_id,
+    src.supplier_name
+FROM public.current_inventory ci
+JOIN public.medicines m ON m.id = ci.medicine_id
+LEFT JOIN LATERAL (
+    -- The most recent purchase of this exact batch
+    SELECT p.supplier_id, s.name AS supplier_name
+    FROM public.purchase_items pi
+    JOIN public.purchases p ON p.id = pi.purchase_id
+    JOIN public.suppliers s ON s.id = p.supplier_id
+    WHERE p.pharmacy_id = ci.pharmacy_id
+        AND pi.medicine_id = ci.medicine_id
+        AND pi.batch_number = ci.batch_number
+        AND pi.expiry_date = ci.expiry_date
+    ORDER BY pi.created_at DESC
+    LIMIT 1
+) src ON true
+WHERE ci.is_active = true AND ci.current_stock > 0;
+
+CREATE INDEX IF NOT EXISTS idx_purchase_items_batch_lookup
+    ON public.purchase_items(medicine_id, batch_number, expiry_date);
+CREATE INDEX IF NOT EXISTS idx_current_inventory_pharmacy_expiry
+    ON public.current_inventory(pharmacy_id, expiry_date)
+    WHERE is_active = true AND current_stock > 0;
+
+-- ===============================================
+-- 2. FILTERED, PAGED SEARCH
+-- ===============================================
+
+-- Text filters are partial, case-insensitive matches; the expiry range is
+-- inclusive and either end may be left open. Returns one page ordered by
+-- expiry date, with the total count and value at risk of every match.
+CREATE OR REPLACE FUNCTION search_expiring_inventory(
+    p_pharmacy_id UUID,
+    p_medicine_name TEXT DEFAULT NULL,
+    p_batch_number TEXT DEFAULT NULL,
+    p_supplier_name TEXT DEFAULT NULL,
+    p_expiry_from DATE DEFAULT NULL,
+    p_expiry_to DATE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+) RETURNS JSONB AS $$
+    WITH matches AS (
+        SELECT *
+        FROM view_inventory_expiry v
+        WHERE v.pharmacy_id = p_pharmacy_id
+            AND (p_medicine_name IS NULL OR v.medicine_name ILIKE '%' || p_medicine_name || '%')
+            AND (p_batch_number IS NULL OR v.batch_number ILIKE '%' || p_batch_number || '%')
+            AND (p_supplier_name IS NULL OR v.supplier_name ILIKE '%' || p_supplier_name || '%')
+            AND (p_expiry_from IS NULL OR v.expiry_date >= p_expiry_from)
+            AND (p_expiry_to IS NULL OR v.expiry_date <= p_expiry_to)
+    ),
+    page AS (
+        SELECT *
+        FROM matches
+        ORDER BY expiry_date, medicine_name, id
+        LIMIT p_limit OFFSET p_offset
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT COUNT(*) FROM matches),
+        'total_value_at_risk', (SELECT COALESCE(SUM(estimated_loss), 0) FROM matches),
+        'data', COALESCE(
+            (SELECT jsonb_agg(to_jsonb(page) ORDER BY page.expiry_date, page.medicine_name, page.id) FROM page),
+            '[]'::jsonb
+        )
+    );
+$$ LANGUAGE sql STABLE;
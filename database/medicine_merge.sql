@@ -0,0 +1,210 @@
+-- ===============================================
+-- MERGE DUPLICATE MEDICINES
+-- Run after sales_schema.sql, purchase_returns_schema.sql, purchase_orders_schema.sql,
+-- stock_transfers_schema.sql, scheduled_jobs.sql and stock_destructions.sql
+-- ===============================================
+
+-- Moves purchase lines, stock, stock movements and everything else that
+-- points at the source medicines over to the target medicine, within the
+-- caller's pharmacy (row level security still applies). Stock held in the
+-- same batch under both medicines, quantities ordered under both on one
+-- purchase order and both medicines' stock snapshots for a day are added
+-- together. Medicines are a shared catalog,
+-- so a source is only deleted once nothing references it; otherwise it is
+-- left as it is for the other pharmacies still using it.
+CREATE OR REPLACE FUNCTION merge_medicines(
+    p_pharmacy_id UUID,
+    p_target_medicine_id UUID,
+    p_source_medicine_ids UUID[]
+) RETURNS JSONB AS $$
+DECLARE
+    v_source UUID;
+    v_count INTEGER;
+    v_purchase_items INTEGER := 0;
+    v_inventory_moved INTEGER := 0;
+    v_inventory_combined INTEGER := 0;
+    v_transactions INTEGER;
+    v_deleted INTEGER;
+BEGIN
+    IF p_target_medicine_id = ANY(p_source_medicine_ids) THEN
+        RAISE EXCEPTION 'Target medicine cannot also be a source';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.medicines WHERE id = p_target_medicine_id) THEN
+        RAISE EXCEPTION 'Target medicine not found';
+    END IF;
+
+    -- Fill blank details on the target from the first source that has them.
+    -- Name, manufacturer and strength are left alone as they make up the
+    -- catalog's unique key.
+    UPDATE public.medicines t SET
+        generic_name = COALESCE(NULLIF(t.generic_name, ''), src.generic_name),
+        composition = COALESCE(NULLIF(t.composition, ''), src.composition),
+        dosage_form = COALESCE(NULLIF(t.dosage_form, ''), src.dosage_form),
+        pack_size = COALESCE(NULLIF(t.pack_size, ''), src.pack_size),
+        hsn_code = COALESCE(NULLIF(t.hsn_code, ''), src.hsn_code),
+        schedule = COALESCE(NULLIF(t.schedule, ''), src.schedule),
+        prescription_required = COALESCE(t.prescription_required, false) OR src.prescription_required,
+        updated_at = NOW()
+    FROM (
+        SELECT
+            (ARRAY_AGG(generic_name) FILTER (WHERE generic_name IS NOT NULL AND generic_name <> ''))[1] AS generic_name,
+            (ARRAY_AGG(composition) FILTER (WHERE composition IS NOT NULL AND composition <> ''))[1] AS composition,
+            (ARRAY_AGG(dosage_form) FILTER (WHERE dosage_form IS NOT NULL AND dosage_form <> ''))[1] AS dosage_form,
+            (ARRAY_AGG(pack_size) FILTER (WHERE pack_size IS NOT NULL AND pack_size <> ''))[1] AS pack_size,
+            (ARRAY_AGG(hsn_code) FILTER (WHERE hsn_code IS NOT NULL AND hsn_code <> ''))[1] AS hsn_code,
+            (ARRAY_AGG(schedule) FILTER (WHERE schedule IS NOT NULL AND schedule <> ''))[1] AS schedule,
+            COALESCE(BOOL_OR(prescription_required), false) AS prescription_required
+        FROM public.medicines
+        WHERE id = ANY(p_source_medicine_ids)
+    ) src
+    WHERE t.id = p_target_medicine_id;
+
+    FOREACH v_source IN ARRAY p_source_medicine_ids LOOP
+        -- Purchase lines (unique per medicine, batch and expiry)
+        UPDATE public.purchase_items pi SET medicine_id = p_target_medicine_id
+        FROM public.purchases p
+        WHERE pi.purchase_id = p.id
+            AND p.pharmacy_id = p_pharmacy_id
+            AND pi.medicine_id = v_source;
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        v_purchase_items := v_purchase_items + v_count;
+
+        -- Batches already stocked under the target: add the stock together
+        UPDATE public.current_inventory t SET
+            current_stock = t.current_stock + s.current_stock,
+            last_updated = NOW()
+        FROM public.current_inventory s
+        WHERE s.medicine_id = v_source
+            AND s.pharmacy_id = p_pharmacy_id
+            AND t.medicine_id = p_target_medicine_id
+            AND t.pharmacy_id = s.pharmacy_id
+            AND t.batch_number = s.batch_number
+            AND t.expiry_date = s.expiry_date;
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        v_inventory_combined := v_inventory_combined + v_count;
+
+        DELETE FROM public.current_inventory s
+        USING public.current_inventory t
+        WHERE s.medicine_id = v_source
+            AND s.pharmacy_id = p_pharmacy_id
+            AND t.medicine_id = p_target_medicine_id
+            AND t.pharmacy_id = s.pharmacy_id
+            AND t.batch_number = s.batch_number
+            AND t.expiry_date = s.expiry_date;
+
+        -- Remaining batches simply change medicine
+        UPDATE public.current_inventory SET medicine_id = p_target_medicine_id, last_updated = NOW()
+        WHERE medicine_id = v_source AND pharmacy_id = p_pharmacy_id;
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        v_inventory_moved := v_inventory_moved + v_count;
+
+        -- Orders that already have a line for the target: add the quantities together
+        UPDATE public.purchase_order_items t SET
+            quantity = t.quantity + s.quantity,
+            suggested_quantity = CASE WHEN t.suggested_quantity IS NULL AND s.suggested_quantity IS NULL THEN NULL
+                ELSE COALESCE(t.suggested_quantity, 0) + COALESCE(s.suggested_quantity, 0) END,
+            amount = t.amount + s.amount
+        FROM public.purchase_order_items s
+        JOIN public.purchase_orders po ON po.id = s.purchase_order_id
+        WHERE s.medicine_id = v_source
+            AND po.pharmacy_id = p_pharmacy_id
+            AND t.purchase_order_id = s.purchase_order_id
+            AND t.medicine_id = p_target_medicine_id;
+
+        DELETE FROM public.purchase_order_items s
+        USING public.purchase_order_items t, public.purchase_orders po
+        WHERE s.medicine_id = v_source
+            AND po.id = s.purchase_order_id
+            AND po.pharmacy_id = p_pharmacy_id
+            AND t.purchase_order_id = s.purchase_order_id
+            AND t.medicine_id = p_target_medicine_id;
+
+        -- Remaining order lines simply change medicine
+        UPDATE public.purchase_order_items poi SET medicine_id = p_target_medicine_id
+        FROM public.purchase_orders po
+        WHERE poi.purchase_order_id = po.id
+            AND po.pharmacy_id = p_pharmacy_id
+            AND poi.medicine_id = v_source;
+
+        -- Days snapshotted under both medicines: add the closing stock together
+        UPDATE public.stock_snapshots t SET
+            total_stock = t.total_stock + s.total_stock,
+            batch_count = t.batch_count + s.batch_count,
+            stock_value = t.stock_value + s.stock_value,
+            mrp_value = t.mrp_value + s.mrp_value
+        FROM public.stock_snapshots s
+        WHERE s.medicine_id = v_source
+            AND s.pharmacy_id = p_pharmacy_id
+            AND t.medicine_id = p_target_medicine_id
+            AND t.pharmacy_id = s.pharmacy_id
+            AND t.snapshot_date = s.snapshot_date;
+
+        DELETE FROM public.stock_snapshots s
+        USING public.stock_snapshots t
+        WHERE s.medicine_id = v_source
+            AND s.pharmacy_id = p_pharmacy_id
+            AND t.medicine_id = p_target_medicine_id
+            AND t.pharmacy_id = s.pharmacy_id
+            AND t.snapshot_date = s.snapshot_date;
+
+        UPDATE public.stock_snapshots SET medicine_id = p_target_medicine_id
+        WHERE medicine_id = v_source AND pharmacy_id = p_pharmacy_id;
+    END LOOP;
+
+    UPDATE public.stock_transactions SET medicine_id = p_target_medicine_id
+    WHERE medicine_id = ANY(p_source_medicine_ids) AND pharmacy_id = p_pharmacy_id;
+    GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+    UPDATE public.sale_items si SET medicine_id = p_target_medicine_id
+    FROM public.sales s
+    WHERE si.sale_id = s.id
+        AND s.pharmacy_id = p_pharmacy_id
+        AND si.medicine_id = ANY(p_source_medicine_ids);
+
+    UPDATE public.purchase_return_items ri SET medicine_id = p_target_medicine_id
+    FROM public.purchase_returns r
+    WHERE ri.return_id = r.id
+        AND r.pharmacy_id = p_pharmacy_id
+        AND ri.medicine_id = ANY(p_source_medicine_ids);
+
+    UPDATE public.expiry_alerts SET medicine_id = p_target_medicine_id
+    WHERE medicine_id = ANY(p_source_medicine_ids) AND pharmacy_id = p_pharmacy_id;
+
+    UPDATE public.stock_destruction_items di SET medicine_id = p_target_medicine_id
+    FROM public.stock_destructions d
+    WHERE di.destruction_id = d.id
+        AND d.pharmacy_id = p_pharmacy_id
+        AND di.medicine_id = ANY(p_source_medicine_ids);
+
+    -- Transfers sent or received by this pharmacy
+    UPDATE public.stock_transfer_items ti SET medicine_id = p_target_medicine_id
+    FROM public.stock_transfers t
+    WHERE ti.transfer_id = t.id
+        AND p_pharmacy_id IN (t.from_pharmacy_id, t.to_pharmacy_id)
+        AND ti.medicine_id = ANY(p_source_medicine_ids);
+
+    -- Drop the sources nobody uses any more
+    DELETE FROM public.medicines m
+    WHERE m.id = ANY(p_source_medicine_ids)
+        AND NOT EXISTS (SELECT 1 FROM public.purchase_items WHERE medicine_id = m.id)
+        AND NOT EXISTS (SELECT 1 FROM public.current_inventory WHERE medicine_id = m.id)
+        AND NOT EXISTS (SELECT 1 FROM public.stock_transactions WHERE medicine_id = m.id)
+        AND NOT EXISTS (SELECT 1 FROM public.sale_items WHERE medicine_id = m.id)
+        AND NOT EXISTS (SELECT 1 FROM public.purchase_return_items WHERE medicine_id = m.id)
+        AND NOT EXISTS (SELECT 1 FROM public.stock_transfer_items WHERE medicine_id = m.id)
+        AND NOT EXISTS (SELECT 1 FROM public.purchase_order_items WHERE medicine_id = m.id)
+        AND NOT EXISTS (SELECT 1 FROM public.stock_destruction_items WHERE medicine_id = m.id)
+        AND NOT EXISTS (SELECT 1 FROM public.stock_snapshots WHERE medicine_id = m.id);
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'purchase_items_moved', v_purchase_items,
+        'inventory_moved', v_inventory_moved,
+        'inventory_combined', v_inventory_combined,
+        'transactions_moved', v_transactions,
+        'medicines_removed', v_deleted,
+        'medicines_kept', COALESCE(array_length(p_source_medicine_ids, 1), 0) - v_deleted
+    );
+END;
+$$ LANGUAGE plpgsql;
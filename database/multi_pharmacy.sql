@@ -0,0 +1,88 @@
+-- ===============================================
+-- MULTI-PHARMACY ACCESS
+-- Run after rls_policies.sql and sales_schema.sql
+-- ===============================================
+
+-- A user can belong to several branches. The admin app sends the branch the
+-- user is working in as an "x-pharmacy-id" request header; PostgREST exposes
+-- request headers to SQL, so every policy built on get_user_pharmacy_id()
+-- follows the selected branch. Without the header (or for a branch the user
+-- no longer has access to) the user's oldest active membership is used.
+CREATE OR REPLACE FUNCTION get_user_pharmacy_id()
+RETURNS UUID AS $$
+DECLARE
+    v_requested TEXT;
+    v_pharmacy_id UUID;
+BEGIN
+    v_requested := current_setting('request.headers', true)::json->>'x-pharmacy-id';
+
+    IF v_requested ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+        SELECT up.pharmacy_id INTO v_pharmacy_id
+        FROM user_pharmacies up
+        WHERE up.user_id = auth.uid()
+            AND up.pharmacy_id = v_requested::UUID
+            AND up.is_active = true;
+
+        IF v_pharmacy_id IS NOT NULL THEN
+            RETURN v_pharmacy_id;
+        END IF;
+    END IF;
+
+    RETURN (
+        SELECT up.pharmacy_id
+        FROM user_pharmacies up
+        WHERE up.user_id = auth.uid()
+            AND up.is_active = true
+        ORDER BY up.created_at
+        LIMIT 1
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE INDEX IF NOT EXISTS idx_user_pharmacies_user
+    ON public.user_pharmacies(user_id, is_active);
+
+-- Headline money figures for one branch, added up in the database so a
+-- branch with more rows than the API returns at once is still counted in
+-- full. Runs with the caller's rights, so the branch must be the one
+-- selected in the request.
+CREATE OR REPLACE FUNCTION branch_summary_totals(
+    p_pharmacy_id UUID,
+    p_today DATE,
+    p_month_start DATE
+) RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'stock_value', (
+            SELECT COALESCE(SUM(current_stock * COALESCE(last_purchase_rate, 0)), 0)
+            FROM public.current_inventory
+            WHERE pharmacy_id = p_pharmacy_id
+                AND current_stock > 0
+        ),
+        'todays_purchases', (
+            SELECT COALESCE(SUM(total_amount), 0)
+            FROM public.purchases
+            WHERE pharmacy_id = p_pharmacy_id
+                AND status = 'verified'
+                AND purchase_date = p_today
+        ),
+        'month_purchases', (
+            SELECT COALESCE(SUM(total_amount), 0)
+            FROM public.purchases
+            WHERE pharmacy_id = p_pharmacy_id
+                AND status = 'verified'
+                AND purchase_date >= p_month_start
+        ),
+        'todays_sales', (
+            SELECT COALESCE(SUM(total_amount), 0)
+            FROM public.sales
+            WHERE pharmacy_id = p_pharmacy_id
+                AND sale_date = p_today
+        ),
+        'month_sales', (
+            SELECT COALESCE(SUM(total_amount), 0)
+            FROM public.sales
+            WHERE pharmacy_id = p_pharmacy_id
+                AND sale_date >= p_month_start
+        )
+    )
+$$ LANGUAGE sql STABLE;
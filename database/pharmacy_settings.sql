@@ -0,0 +1,28 @@
+-- ===============================================
+-- PHARMACY SETTINGS
+-- Run after supabase_schema_fixed.sql and rls_policies.sql
+-- ===============================================
+
+-- Expiry is reported in three bands: critical (expiring within
+-- expiry_critical_days), warning (within expiry_warning_days) and alert
+-- (within expiry_alert_days). The defaults match the 30/60/90 day bands
+-- used before these were configurable.
+ALTER TABLE public.pharmacy_settings
+    ADD COLUMN IF NOT EXISTS expiry_critical_days INTEGER DEFAULT 30,
+    ADD COLUMN IF NOT EXISTS expiry_warning_days INTEGER DEFAULT 60;
+
+ALTER TABLE public.pharmacy_settings
+    ADD CONSTRAINT pharmacy_settings_low_stock_threshold_check CHECK (low_stock_threshold >= 0),
+    ADD CONSTRAINT pharmacy_settings_expiry_days_check CHECK (
+        expiry_critical_days > 0
+        AND expiry_critical_days < expiry_warning_days
+        AND expiry_warning_days <= expiry_alert_days
+    ),
+    ADD CONSTRAINT pharmacy_settings_markup_percentage_check CHECK (default_markup_percentage >= 0),
+    ADD CONSTRAINT pharmacy_settings_tax_percentage_check CHECK (default_tax_percentage >= 0 AND default_tax_percentage <= 100),
+    ADD CONSTRAINT pharmacy_settings_currency_check CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Every pharmacy starts with the default settings
+INSERT INTO public.pharmacy_settings (pharmacy_id)
+SELECT p.id FROM public.pharmacies p
+ON CONFLICT (pharmacy_id) DO NOTHING;
@@ -0,0 +1,170 @@
+-- ===============================================
+-- GST ON PURCHASES
+-- Run after supabase_schema_fixed.sql and rls_policies.sql
+-- ===============================================
+
+-- ===============================================
+-- 1. CGST / SGST / IGST COLUMNS
+-- ===============================================
+
+-- A purchase from a supplier in the pharmacy's own state is taxed as
+-- CGST + SGST; one from another state is taxed as IGST. The split is fixed
+-- when the purchase is entered.
+ALTER TABLE public.purchases
+    ADD COLUMN IF NOT EXISTS is_interstate BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS cgst_amount DECIMAL(12,2) DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS sgst_amount DECIMAL(12,2) DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS igst_amount DECIMAL(12,2) DEFAULT 0;
+
+ALTER TABLE public.purchase_items
+    ADD COLUMN IF NOT EXISTS cgst_amount DECIMAL(12,2) DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS sgst_amount DECIMAL(12,2) DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS igst_amount DECIMAL(12,2) DEFAULT 0;
+
+ALTER TABLE public.purchase_items
+    DROP CONSTRAINT IF EXISTS purchase_items_discount_percentage_check,
+    DROP CONSTRAINT IF EXISTS purchase_items_tax_percentage_check,
+    ADD CONSTRAINT purchase_items_discount_percentage_check CHECK (discount_percentage >= 0 AND discount_percentage <= 100),
+    ADD CONSTRAINT purchase_items_tax_percentage_check CHECK (tax_percentage >= 0 AND tax_percentage <= 100);
+
+-- ===============================================
+-- 2. LINE AMOUNTS
+-- ===============================================
+
+-- Replaces the version in supabase_schema_fixed.sql. Amounts are rounded to
+-- paise at each step (the same way src/lib/purchases/gst.ts does) and the tax
+-- is split by the parent purchase's is_interstate flag.
+CREATE OR REPLACE FUNCTION calculate_purchase_item_amounts()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_interstate BOOLEAN;
+BEGIN
+    SELECT is_interstate INTO v_interstate
+    FROM public.purchases
+    WHERE id = NEW.purchase_id;
+
+    NEW.gross_amount = ROUND(NEW.quantity * NEW.purchase_rate, 2);
+    NEW.discount_amount = ROUND(NEW.gross_amount * COALESCE(NEW.discount_percentage, 0) / 100, 2);
+    NEW.taxable_amount = NEW.gross_amount - NEW.discount_amount;
+    NEW.tax_amount = ROUND(NEW.taxable_amount * COALESCE(NEW.tax_percentage, 0) / 100, 2);
+    NEW.net_amount = NEW.taxable_amount + NEW.tax_amount;
+
+    IF COALESCE(v_interstate, false) THEN
+        NEW.cgst_amount = 0;
+        NEW.sgst_amount = 0;
+        NEW.igst_amount = NEW.tax_amount;
+    ELSE
+        NEW.cgst_amount = ROUND(NEW.tax_amount / 2, 2);
+        NEW.sgst_amount = NEW.tax_amount - NEW.cgst_amount;
+        NEW.igst_amount = 0;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===============================================
+-- 3. INVOICE TOTALS
+-- ===============================================
+
+-- Recalculates a purchase's subtotal, discount, tax and total from its
+-- items plus transport and other charges. Called after items are added,
+-- edited or removed. The payment trigger then updates the balance.
+CREATE OR REPLACE FUNCTION refresh_purchase_totals(p_purchase_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.purchases p
+    SET subtotal = totals.subtotal,
+        discount_amount = totals.discount_amount,
+        tax_amount = totals.tax_amount,
+        cgst_amount = totals.cgst_amount,
+        sgst_amount = totals.sgst_amount,
+        igst_amount = totals.igst_amount,
+        total_amount = totals.net_amount + COALESCE(p.transport_charges, 0) + COALESCE(p.other_charges, 0)
+    FROM (
+        SELECT
+            COALESCE(SUM(gross_amount), 0) AS subtotal,
+            COALESCE(SUM(discount_amount), 0) AS discount_amount,
+            COALESCE(SUM(tax_amount), 0) AS tax_amount,
+            COALESCE(SUM(cgst_amount), 0) AS cgst_amount,
+            COALESCE(SUM(sgst_amount), 0) AS sgst_amount,
+            COALESCE(SUM(igst_amount), 0) AS igst_amount,
+            COALESCE(SUM(net_amount), 0) AS net_amount
+        FROM public.purchase_items
+        WHERE purchase_id = p_purchase_id
+    ) totals
+    WHERE p.id = p_purchase_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===============================================
+-- 4. DEFAULT GST RATE PER MEDICINE
+-- ===============================================
+
+-- Suggested GST rate for each medicine name, in order of preference:
+--   1. the rate last entered for the same medicine at this pharmacy
+--   2. the rate last entered for any medicine with the same HSN code
+--   3. pharmacy_settings.default_tax_percentage
+-- Only rates above zero are learned from, because purchases entered before
+-- GST was captured all carry 0%.
+CREATE OR REPLACE FUNCTION purchase_tax_defaults(
+    p_pharmacy_id UUID,
+    p_medicine_names TEXT[]
+) RETURNS TABLE (
+    medicine_name TEXT,
+    hsn_code TEXT,
+    tax_percentage DECIMAL(5,2),
+    source TEXT
+) AS $$
+#variable_conflict use_column
+DECLARE
+    v_default DECIMAL(5,2);
+BEGIN
+    SELECT COALESCE(ps.default_tax_percentage, 0) INTO v_default
+    FROM public.pharmacy_settings ps
+    WHERE ps.pharmacy_id = p_pharmacy_id;
+
+    RETURN QUERY
+    WITH names AS (
+        SELECT DISTINCT UNNEST(p_medicine_names) AS name
+    ),
+    named AS (
+        SELECT n.name, m.id AS medicine_id, NULLIF(TRIM(m.hsn_code), '') AS hsn_code
+        FROM names n
+        LEFT JOIN LATERAL (
+            SELECT id, medicines.hsn_code
+            FROM public.medicines
+            WHERE medicines.name = n.name
+            LIMIT 1
+        ) m ON true
+    ),
+    rated AS (
+        SELECT pi.medicine_id, NULLIF(TRIM(m.hsn_code), '') AS hsn_code, pi.tax_percentage, pi.created_at
+        FROM public.purchase_items pi
+        JOIN public.purchases p ON p.id = pi.purchase_id
+        JOIN public.medicines m ON m.id = pi.medicine_id
+        WHERE p.pharmacy_id = p_pharmacy_id
+        AND pi.tax_percentage > 0
+    )
+    SELECT
+        named.name,
+        named.hsn_code,
+        COALESCE(by_medicine.tax_percentage, by_hsn.tax_percentage, v_default, 0)::DECIMAL(5,2),
+        CASE
+            WHEN by_medicine.tax_percentage IS NOT NULL THEN 'medicine'
+            WHEN by_hsn.tax_percentage IS NOT NULL THEN 'hsn'
+            ELSE 'default'
+        END
+    FROM named
+    LEFT JOIN LATERAL (
+        SELECT r.tax_percentage FROM rated r
+        WHERE r.medicine_id = named.medicine_id
+        ORDER BY r.created_at DESC LIMIT 1
+    ) by_medicine ON true
+    LEFT JOIN LATERAL (
+        SELECT r.tax_percentage FROM rated r
+        WHERE named.hsn_code IS NOT NULL AND r.hsn_code = named.hsn_code
+        ORDER BY r.created_at DESC LIMIT 1
+    ) by_hsn ON true;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,33 @@
+-- ===============================================
+-- SUPPLIER INVOICE IMPORT MAPPINGS
+-- Run after supabase_schema_fixed.sql and rls_policies.sql
+-- ===============================================
+
+-- Each distributor's invoice file has its own column layout. The column
+-- mapping chosen on the purchase import screen is saved per supplier and
+-- offered again the next time a file from that supplier is uploaded.
+CREATE TABLE IF NOT EXISTS public.supplier_import_mappings (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    supplier_id UUID REFERENCES public.suppliers(id) ON DELETE CASCADE,
+
+    -- Row (0 based) holding the column headings; rows above it are skipped
+    header_row INTEGER NOT NULL DEFAULT 0 CHECK (header_row >= 0),
+    -- Import field -> column heading, e.g. {"medicine_name": "Item Name", "quantity": "Qty"}
+    column_mapping JSONB NOT NULL DEFAULT '{}',
+
+    updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(pharmacy_id, supplier_id)
+);
+
+CREATE TRIGGER update_supplier_import_mappings_updated_at BEFORE UPDATE ON public.supplier_import_mappings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.supplier_import_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and change their pharmacy's mappings
+CREATE POLICY "Pharmacy supplier import mappings" ON public.supplier_import_mappings
+FOR ALL USING (pharmacy_id = get_user_pharmacy_id());
@@ -0,0 +1,250 @@
+-- ===============================================
+-- PURCHASE ORDERS AND REORDER SUGGESTIONS
+-- Run after supabase_schema_fixed.sql, rls_policies.sql and multi_pharmacy.sql
+-- ===============================================
+
+-- A purchase order is what the pharmacy asks a supplier to send. It holds
+-- medicines and quantities only: batch numbers and expiry dates are not
+-- known until the goods arrive, so no stock moves until the order is
+-- received as a purchase invoice.
+
+-- ===============================================
+-- 1. PURCHASE ORDERS (ORDER HEADER)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+    po_number TEXT NOT NULL,
+
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'received', 'cancelled')),
+    order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    expected_date DATE,
+
+    -- Estimated value at the last purchase rate
+    total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+
+    -- The invoice the order was received as
+    purchase_id UUID REFERENCES public.purchases(id) ON DELETE SET NULL,
+
+    created_by UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(pharmacy_id, po_number)
+);
+
+-- ===============================================
+-- 2. PURCHASE ORDER ITEMS (ONE MEDICINE PER LINE)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+    medicine_id UUID REFERENCES public.medicines(id) ON DELETE RESTRICT,
+
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    suggested_quantity INTEGER, -- what the reorder screen proposed, kept for comparison
+    rate DECIMAL(10,2) NOT NULL DEFAULT 0,
+    amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(purchase_order_id, medicine_id)
+);
+
+-- ===============================================
+-- 3. INDEXES AND TRIGGERS
+-- ===============================================
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_pharmacy ON public.purchase_orders(pharmacy_id, status, order_date);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON public.purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_medicine ON public.purchase_order_items(medicine_id);
+
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON public.purchase_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ===============================================
+-- 4. CREATE ORDER
+-- ===============================================
+
+-- Creates the order and its lines in one transaction. Lines are validated
+-- by the API first.
+CREATE OR REPLACE FUNCTION create_purchase_order(
+    p_pharmacy_id UUID,
+    p_supplier_id UUID,
+    p_user_id UUID,
+    p_po_number TEXT,
+    p_expected_date DATE,
+    p_notes TEXT,
+    p_items JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    v_order_id UUID;
+    v_item JSONB;
+    v_total_amount DECIMAL(12,2) := 0;
+    v_amount DECIMAL(12,2);
+    v_lines INTEGER := 0;
+BEGIN
+    INSERT INTO public.purchase_orders (
+        pharmacy_id, supplier_id, po_number, expected_date, notes, created_by
+    ) VALUES (
+        p_pharmacy_id, p_supplier_id, p_po_number, p_expected_date, p_notes, p_user_id
+    )
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_amount := ROUND((v_item->>'quantity')::INTEGER * COALESCE((v_item->>'rate')::DECIMAL, 0), 2);
+
+        INSERT INTO public.purchase_order_items (
+            purchase_order_id, medicine_id, quantity, suggested_quantity, rate, amount
+        ) VALUES (
+            v_order_id,
+            (v_item->>'medicine_id')::UUID,
+            (v_item->>'quantity')::INTEGER,
+            NULLIF(v_item->>'suggested_quantity', '')::INTEGER,
+            COALESCE((v_item->>'rate')::DECIMAL, 0),
+            v_amount
+        );
+
+        v_total_amount := v_total_amount + v_amount;
+        v_lines := v_lines + 1;
+    END LOOP;
+
+    UPDATE public.purchase_orders SET total_amount = v_total_amount WHERE id = v_order_id;
+
+    RETURN jsonb_build_object('purchase_order_id', v_order_id, 'po_number', p_po_number, 'items', v_lines);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===============================================
+-- 5. REORDER CANDIDATES
+-- ===============================================
+
+-- One row per stocked medicine with what is needed to work out a reorder
+-- quantity: sellable stock across batches (expired batches excluded),
+-- units sold in the last p_days days, the reorder levels kept on
+-- current_inventory, quantity still to arrive on open purchase orders and
+-- on purchases not yet received in full, and the supplier and rate of the
+-- last purchase.
+CREATE OR REPLACE FUNCTION reorder_candidates(
+    p_pharmacy_id UUID,
+    p_days INTEGER DEFAULT 30
+) RETURNS TABLE (
+    medicine_id UUID,
+    medicine_name TEXT,
+    manufacturer TEXT,
+    strength TEXT,
+    pack_size TEXT,
+    current_stock INTEGER,
+    consumed INTEGER,
+    minimum_stock INTEGER,
+    reorder_level INTEGER,
+    maximum_stock INTEGER,
+    on_order INTEGER,
+    last_rate DECIMAL,
+    last_supplier_id UUID,
+    last_supplier_name TEXT
+) AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    WITH stock AS (
+        SELECT
+            ci.medicine_id,
+            COALESCE(SUM(ci.current_stock) FILTER (WHERE ci.expiry_date > CURRENT_DATE), 0)::INTEGER AS current_stock,
+            MAX(ci.minimum_stock)::INTEGER AS minimum_stock,
+            MAX(ci.reorder_level)::INTEGER AS reorder_level,
+            MAX(ci.maximum_stock)::INTEGER AS maximum_stock
+        FROM public.current_inventory ci
+        WHERE ci.pharmacy_id = p_pharmacy_id
+            AND ci.is_active = true
+        GROUP BY ci.medicine_id
+    ),
+    sold AS (
+        SELECT st.medicine_id, SUM(st.quantity_out)::INTEGER AS consumed
+        FROM public.stock_transactions st
+        WHERE st.pharmacy_id = p_pharmacy_id
+            AND st.transaction_type = 'sale'
+            AND st.transaction_date > CURRENT_DATE - p_days
+        GROUP BY st.medicine_id
+    ),
+    ordered AS (
+        SELECT o.medicine_id, SUM(o.quantity)::INTEGER AS on_order
+        FROM (
+            SELECT poi.medicine_id, poi.quantity
+            FROM public.purchase_order_items poi
+            JOIN public.purchase_orders po ON po.id = poi.purchase_order_id
+            WHERE po.pharmacy_id = p_pharmacy_id
+                AND po.status IN ('draft', 'sent')
+            UNION ALL
+            -- Still to arrive on purchases that are not yet received in full
+            SELECT pi.medicine_id,
+                GREATEST(pi.total_quantity - COALESCE(pi.received_quantity, 0) - COALESCE(pi.damaged_quantity, 0), 0)
+            FROM public.purchase_items pi
+            JOIN public.purchases p ON p.id = pi.purchase_id
+            WHERE p.pharmacy_id = p_pharmacy_id
+                AND p.status IN ('draft', 'sent', 'partially_received')
+        ) o
+        GROUP BY o.medicine_id
+    ),
+    last_purchase AS (
+        SELECT DISTINCT ON (pi.medicine_id)
+            pi.medicine_id,
+            pi.purchase_rate AS last_rate,
+            p.supplier_id
+        FROM public.purchase_items pi
+        JOIN public.purchases p ON p.id = pi.purchase_id
+        WHERE p.pharmacy_id = p_pharmacy_id
+            AND p.status <> 'cancelled'
+        ORDER BY pi.medicine_id, p.purchase_date DESC, p.created_at DESC
+    )
+    SELECT
+        s.medicine_id,
+        m.name,
+        m.manufacturer,
+        m.strength,
+        m.pack_size,
+        s.current_stock,
+        COALESCE(sold.consumed, 0),
+        s.minimum_stock,
+        s.reorder_level,
+        s.maximum_stock,
+        COALESCE(o.on_order, 0),
+        lp.last_rate,
+        lp.supplier_id,
+        sup.name
+    FROM stock s
+    JOIN public.medicines m ON m.id = s.medicine_id
+    LEFT JOIN sold ON sold.medicine_id = s.medicine_id
+    LEFT JOIN ordered o ON o.medicine_id = s.medicine_id
+    LEFT JOIN last_purchase lp ON lp.medicine_id = s.medicine_id
+    LEFT JOIN public.suppliers sup ON sup.id = lp.supplier_id
+    WHERE m.is_active = true
+    ORDER BY m.name;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ===============================================
+-- 6. ROW LEVEL SECURITY
+-- ===============================================
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View pharmacy purchase orders" ON public.purchase_orders
+FOR ALL USING (pharmacy_id = get_user_pharmacy_id());
+
+CREATE POLICY "View pharmacy purchase order items" ON public.purchase_order_items
+FOR ALL USING (
+  purchase_order_id IN (
+    SELECT id FROM purchase_orders WHERE pharmacy_id = get_user_pharmacy_id()
+  )
+);
@@ -0,0 +1,346 @@
+-- ===============================================
+-- PURCHASE LIFECYCLE AND GOODS RECEIPTS
+-- Run after supabase_schema_fixed.sql, rls_policies.sql, purchase_gst.sql and
+-- purchase_returns_schema.sql, then re-run purchase_transaction.sql
+-- ===============================================
+
+-- A purchase can now be entered before the goods arrive. It moves through
+--   draft -> sent -> partially_received -> received
+-- and stock is added only when goods are checked in against it on a goods
+-- receipt. Each receipt line records the units accepted into stock and the
+-- units that arrived damaged; both count towards what the supplier has
+-- delivered, only the accepted units are added to inventory.
+--
+-- Purchases entered as received (the usual invoice entry) get a receipt for
+-- every line in full when they are created, so all stock still flows
+-- through receipts.
+
+-- ===============================================
+-- 1. PURCHASE STATUSES
+-- ===============================================
+
+ALTER TABLE public.purchases DROP CONSTRAINT IF EXISTS purchases_status_check;
+ALTER TABLE public.purchases ADD CONSTRAINT purchases_status_check
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'verified', 'cancelled'));
+
+ALTER TABLE public.purchases
+    ADD COLUMN IF NOT EXISTS sent_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS received_at TIMESTAMP WITH TIME ZONE;
+
+-- Batch and expiry are often only known once the goods arrive, so a line on
+-- a draft may leave them empty until it is received
+ALTER TABLE public.purchase_items ALTER COLUMN batch_number DROP NOT NULL;
+ALTER TABLE public.purchase_items ALTER COLUMN expiry_date DROP NOT NULL;
+
+ALTER TABLE public.purchase_items
+    ADD CONSTRAINT purchase_items_received_check CHECK (
+        received_quantity >= 0 AND damaged_quantity >= 0
+        AND received_quantity + damaged_quantity <= total_quantity
+    );
+
+-- Everything entered before receipts existed went into stock on entry
+UPDATE public.purchase_items pi
+SET received_quantity = pi.total_quantity
+FROM public.purchases p
+WHERE p.id = pi.purchase_id
+    AND p.status IN ('received', 'verified')
+    AND COALESCE(pi.received_quantity, 0) = 0
+    AND COALESCE(pi.damaged_quantity, 0) = 0;
+
+UPDATE public.purchases
+SET received_at = created_at
+WHERE status IN ('received', 'verified') AND received_at IS NULL;
+
+-- ===============================================
+-- 2. GOODS RECEIPTS
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.purchase_receipts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    purchase_id UUID REFERENCES public.purchases(id) ON DELETE CASCADE,
+    receipt_number TEXT NOT NULL,
+    received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    notes TEXT,
+    received_by UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(pharmacy_id, receipt_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_receipt_items (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    receipt_id UUID REFERENCES public.purchase_receipts(id) ON DELETE CASCADE,
+    purchase_item_id UUID REFERENCES public.purchase_items(id) ON DELETE CASCADE,
+
+    received_quantity INTEGER NOT NULL DEFAULT 0 CHECK (received_quantity >= 0), -- accepted into stock
+    damaged_quantity INTEGER NOT NULL DEFAULT 0 CHECK (damaged_quantity >= 0), -- arrived unusable
+    notes TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (received_quantity + damaged_quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_receipts_purchase ON public.purchase_receipts(purchase_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_receipt_items_receipt ON public.purchase_receipt_items(receipt_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_receipt_items_item ON public.purchase_receipt_items(purchase_item_id);
+
+-- ===============================================
+-- 3. STOCK FROM RECEIPTS ONLY
+-- ===============================================
+
+-- Purchase lines no longer add stock when they are entered
+DROP TRIGGER IF EXISTS trigger_update_inventory_on_purchase ON public.purchase_items;
+
+-- Adds the accepted units of a receipt line to the batch's stock, logs the
+-- movement and keeps the running received/damaged totals on the purchase line
+CREATE OR REPLACE FUNCTION update_inventory_on_receipt()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_line RECORD;
+    v_stock_before INTEGER;
+BEGIN
+    SELECT pi.*, p.pharmacy_id, p.invoice_number, r.received_by
+    INTO v_line
+    FROM public.purchase_items pi
+    JOIN public.purchases p ON p.id = pi.purchase_id
+    JOIN public.purchase_receipts r ON r.id = NEW.receipt_id
+    WHERE pi.id = NEW.purchase_item_id;
+
+    IF v_line.batch_number IS NULL OR v_line.expiry_date IS NULL THEN
+        RAISE EXCEPTION 'Batch number and expiry date are needed before goods can be received';
+    END IF;
+
+    UPDATE public.purchase_items
+    SET received_quantity = COALESCE(received_quantity, 0) + NEW.received_quantity,
+        damaged_quantity = COALESCE(damaged_quantity, 0) + NEW.damaged_quantity
+    WHERE id = NEW.purchase_item_id;
+
+    IF NEW.received_quantity > 0 THEN
+        SELECT current_stock INTO v_stock_before
+        FROM public.current_inventory
+        WHERE pharmacy_id = v_line.pharmacy_id
+            AND medicine_id = v_line.medicine_id
+            AND batch_number = v_line.batch_number
+            AND expiry_date = v_line.expiry_date
+        FOR UPDATE;
+
+        INSERT INTO public.current_inventory (
+            pharmacy_id, medicine_id, batch_number, expiry_date,
+            current_stock, last_purchase_rate, current_mrp
+        ) VALUES (
+            v_line.pharmacy_id, v_line.medicine_id, v_line.batch_number, v_line.expiry_date,
+            NEW.received_quantity, v_line.purchase_rate, v_line.mrp
+        )
+        ON CONFLICT (pharmacy_id, medicine_id, batch_number, expiry_date)
+        DO UPDATE SET
+            current_stock = current_inventory.current_stock + NEW.received_quantity,
+            last_purchase_rate = v_line.purchase_rate,
+            current_mrp = v_line.mrp,
+            last_updated = NOW();
+
+        INSERT INTO public.stock_transactions (
+            pharmacy_id, medicine_id, batch_number, expiry_date,
+            transaction_type, reference_id, reference_type,
+            quantity_in, stock_before, rate, amount, notes, user_id
+        ) VALUES (
+            v_line.pharmacy_id, v_line.medicine_id, v_line.batch_number, v_line.expiry_date,
+            'purchase', v_line.purchase_id, 'purchase',
+            NEW.received_quantity, COALESCE(v_stock_before, 0), v_line.purchase_rate,
+            ROUND(NEW.received_quantity * v_line.purchase_rate, 2),
+            'Received against invoice ' || v_line.invoice_number, v_line.received_by
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_inventory_on_receipt ON public.purchase_receipt_items;
+CREATE TRIGGER trigger_update_inventory_on_receipt
+    AFTER INSERT ON public.purchase_receipt_items
+    FOR EACH ROW EXECUTE FUNCTION update_inventory_on_receipt();
+
+-- ===============================================
+-- 4. RECEIVE GOODS
+-- ===============================================
+
+-- Helper: moves a purchase to partially_received or received from what has
+-- been delivered on its lines so far
+CREATE OR REPLACE FUNCTION refresh_purchase_receipt_status(p_purchase_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_outstanding INTEGER;
+    v_status TEXT;
+BEGIN
+    SELECT COALESCE(SUM(total_quantity - COALESCE(received_quantity, 0) - COALESCE(damaged_quantity, 0)), 0)
+    INTO v_outstanding
+    FROM public.purchase_items
+    WHERE purchase_id = p_purchase_id;
+
+    v_status := CASE WHEN v_outstanding > 0 THEN 'partially_received' ELSE 'received' END;
+
+    UPDATE public.purchases
+    SET status = v_status,
+        received_at = CASE WHEN v_status = 'received' THEN NOW() ELSE received_at END
+    WHERE id = p_purchase_id;
+
+    RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Records one goods receipt against a draft, sent or partially received
+-- purchase. Each line gives the purchase line, the units accepted and the
+-- units damaged, and the batch number, expiry and MRP when the line was
+-- entered without them. Everything is rolled back if any line fails and
+-- the index of that line is returned.
+CREATE OR REPLACE FUNCTION receive_purchase_goods(
+    p_purchase_id UUID,
+    p_user_id UUID,
+    p_receipt_number TEXT,
+    p_received_date DATE,
+    p_notes TEXT,
+    p_items JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    v_purchase RECORD;
+    v_line RECORD;
+    v_receipt_id UUID;
+    v_item JSONB;
+    v_received INTEGER;
+    v_damaged INTEGER;
+    v_status TEXT;
+    v_index INTEGER := NULL;
+BEGIN
+    SELECT id, pharmacy_id, status INTO v_purchase
+    FROM public.purchases
+    WHERE id = p_purchase_id
+    FOR UPDATE;
+
+    IF v_purchase.id IS NULL THEN
+        RAISE EXCEPTION 'Purchase not found';
+    END IF;
+
+    IF v_purchase.status NOT IN ('draft', 'sent', 'partially_received') THEN
+        RAISE EXCEPTION 'Goods cannot be received against a % purchase', v_purchase.status;
+    END IF;
+
+    INSERT INTO public.purchase_receipts (
+        pharmacy_id, purchase_id, receipt_number, received_date, notes, received_by
+    ) VALUES (
+        v_purchase.pharmacy_id, p_purchase_id, p_receipt_number, COALESCE(p_received_date, CURRENT_DATE), p_notes, p_user_id
+    )
+    RETURNING id INTO v_receipt_id;
+
+    v_index := 0;
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_received := COALESCE((v_item->>'received_quantity')::INTEGER, 0);
+        v_damaged := COALESCE((v_item->>'damaged_quantity')::INTEGER, 0);
+
+        SELECT id, batch_number, expiry_date, total_quantity,
+            COALESCE(received_quantity, 0) + COALESCE(damaged_quantity, 0) AS delivered
+        INTO v_line
+        FROM public.purchase_items
+        WHERE id = (v_item->>'purchase_item_id')::UUID
+            AND purchase_id = p_purchase_id
+        FOR UPDATE;
+
+        IF v_line.id IS NULL THEN
+            RAISE EXCEPTION 'Item is not on this purchase';
+        END IF;
+
+        IF v_received + v_damaged > v_line.total_quantity - v_line.delivered THEN
+            RAISE EXCEPTION 'Only % units are still to be received on this line', v_line.total_quantity - v_line.delivered;
+        END IF;
+
+        -- Batch details can be filled in until the first units arrive
+        IF NULLIF(v_item->>'batch_number', '') IS NOT NULL OR NULLIF(v_item->>'expiry_date', '') IS NOT NULL OR NULLIF(v_item->>'mrp', '') IS NOT NULL THEN
+            IF v_line.delivered > 0 AND (
+                (NULLIF(v_item->>'batch_number', '') IS NOT NULL AND v_item->>'batch_number' IS DISTINCT FROM v_line.batch_number)
+                OR (NULLIF(v_item->>'expiry_date', '') IS NOT NULL AND (v_item->>'expiry_date')::DATE IS DISTINCT FROM v_line.expiry_date)
+            ) THEN
+                RAISE EXCEPTION 'Batch % has already been received on this line', v_line.batch_number;
+            END IF;
+
+            UPDATE public.purchase_items
+            SET batch_number = COALESCE(NULLIF(v_item->>'batch_number', ''), batch_number),
+                expiry_date = COALESCE(NULLIF(v_item->>'expiry_date', '')::DATE, expiry_date),
+                mrp = COALESCE(NULLIF(v_item->>'mrp', '')::DECIMAL, mrp)
+            WHERE id = v_line.id;
+        END IF;
+
+        -- Stock and the line's running totals are updated by trigger
+        INSERT INTO public.purchase_receipt_items (
+            receipt_id, purchase_item_id, received_quantity, damaged_quantity, notes
+        ) VALUES (
+            v_receipt_id, v_line.id, v_received, v_damaged, NULLIF(v_item->>'notes', '')
+        );
+
+        v_index := v_index + 1;
+    END LOOP;
+
+    v_index := NULL;
+    v_status := refresh_purchase_receipt_status(p_purchase_id);
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'receipt_id', v_receipt_id,
+        'receipt_number', p_receipt_number,
+        'status', v_status
+    );
+EXCEPTION WHEN OTHERS THEN
+    -- The exception block rolls back every change made above
+    RETURN jsonb_build_object(
+        'success', false,
+        'failed_index', v_index,
+        'error', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===============================================
+-- 5. SUPPLIER BALANCES
+-- ===============================================
+
+-- Replaces the version in purchase_returns_schema.sql. Nothing is owed on
+-- an order until goods start arriving against it.
+CREATE OR REPLACE VIEW view_supplier_balances AS
+SELECT
+    s.pharmacy_id,
+    s.id AS supplier_id,
+    s.name AS supplier_name,
+    COALESCE(p.total_purchases, 0) AS total_purchases,
+    COALESCE(p.total_paid, 0) AS total_paid,
+    COALESCE(r.total_returns, 0) AS total_returns,
+    COALESCE(p.total_purchases, 0) - COALESCE(p.total_paid, 0) - COALESCE(r.total_returns, 0) AS outstanding_balance
+FROM public.suppliers s
+LEFT JOIN (
+    SELECT supplier_id, SUM(total_amount) AS total_purchases, SUM(COALESCE(paid_amount, 0)) AS total_paid
+    FROM public.purchases
+    WHERE status NOT IN ('draft', 'sent', 'cancelled')
+    GROUP BY supplier_id
+) p ON p.supplier_id = s.id
+LEFT JOIN (
+    SELECT supplier_id, SUM(total_amount) AS total_returns
+    FROM public.purchase_returns
+    WHERE status <> 'cancelled'
+    GROUP BY supplier_id
+) r ON r.supplier_id = s.id;
+
+-- ===============================================
+-- 6. ROW LEVEL SECURITY
+-- ===============================================
+
+ALTER TABLE public.purchase_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_receipt_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View pharmacy purchase receipts" ON public.purchase_receipts
+FOR ALL USING (pharmacy_id = get_user_pharmacy_id());
+
+CREATE POLICY "View pharmacy purchase receipt items" ON public.purchase_receipt_items
+FOR ALL USING (
+  receipt_id IN (
+    SELECT id FROM purchase_receipts WHERE pharmacy_id = get_user_pharmacy_id()
+  )
+);
@@ -0,0 +1,122 @@
+-- ===============================================
+-- TRANSACTIONAL PURCHASE RETURN (DEBIT NOTE) CREATION
+-- Run after purchase_returns_schema.sql and purchase_receipts.sql
+-- ===============================================
+
+-- Creates the debit note, takes every returned line out of stock and logs
+-- a 'return' stock transaction per line in one transaction. Lines are
+-- validated by the API first; the purchase line and the batch are locked
+-- here and checked again, so a line that was returned or sold in the
+-- meantime aborts the whole return and nothing is saved.
+-- Runs with the caller's rights, so the pharmacy must be the one selected
+-- in the app.
+CREATE OR REPLACE FUNCTION create_purchase_return(
+    p_pharmacy_id UUID,
+    p_supplier_id UUID,
+    p_user_id UUID,
+    p_debit_note_number TEXT,
+    p_return_date DATE,
+    p_reason TEXT,
+    p_notes TEXT,
+    p_items JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    v_return_id UUID;
+    v_item JSONB;
+    v_purchase_item RECORD;
+    v_inventory RECORD;
+    v_quantity INTEGER;
+    v_returned INTEGER;
+    v_rate DECIMAL(10,2);
+    v_amount DECIMAL(12,2);
+    v_total_amount DECIMAL(12,2) := 0;
+    v_lines INTEGER := 0;
+BEGIN
+    INSERT INTO public.purchase_returns (
+        pharmacy_id, supplier_id, user_id, debit_note_number, return_date, reason, notes
+    ) VALUES (
+        p_pharmacy_id, p_supplier_id, p_user_id, p_debit_note_number, p_return_date, p_reason, p_notes
+    )
+    RETURNING id INTO v_return_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_quantity := (v_item->>'quantity')::INTEGER;
+
+        SELECT pi.id, pi.purchase_id, pi.medicine_id, pi.batch_number, pi.expiry_date,
+            pi.received_quantity, pi.quantity AS billed_quantity,
+            COALESCE(pi.net_amount, pi.quantity * pi.purchase_rate) AS net_amount
+        INTO v_purchase_item
+        FROM public.purchase_items pi
+        JOIN public.purchases p ON p.id = pi.purchase_id
+        WHERE pi.id = (v_item->>'purchase_item_id')::UUID
+            AND p.pharmacy_id = p_pharmacy_id
+        FOR UPDATE OF pi;
+
+        IF v_purchase_item.id IS NULL THEN
+            RAISE EXCEPTION 'Purchase item not found';
+        END IF;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+        FROM public.purchase_return_items
+        WHERE purchase_item_id = v_purchase_item.id;
+
+        IF v_quantity > COALESCE(v_purchase_item.received_quantity, 0) - v_returned THEN
+            RAISE EXCEPTION 'Only % units of batch % can be returned against this purchase',
+                GREATEST(COALESCE(v_purchase_item.received_quantity, 0) - v_returned, 0), v_purchase_item.batch_number;
+        END IF;
+
+        SELECT id, current_stock
+        INTO v_inventory
+        FROM public.current_inventory
+        WHERE pharmacy_id = p_pharmacy_id
+            AND medicine_id = v_purchase_item.medicine_id
+            AND batch_number = v_purchase_item.batch_number
+            AND expiry_date = v_purchase_item.expiry_date
+        FOR UPDATE;
+
+        IF v_inventory.id IS NULL OR v_inventory.current_stock < v_quantity THEN
+            RAISE EXCEPTION 'Only % units of batch % are in stock', COALESCE(v_inventory.current_stock, 0), v_purchase_item.batch_number;
+        END IF;
+
+        -- Returned at what was actually paid per unit, after discount and GST
+        v_rate := ROUND(v_purchase_item.net_amount / v_purchase_item.billed_quantity, 2);
+        v_amount := ROUND(v_quantity * v_purchase_item.net_amount / v_purchase_item.billed_quantity, 2);
+
+        INSERT INTO public.purchase_return_items (
+            return_id, purchase_item_id, purchase_id, medicine_id, batch_number, expiry_date,
+            quantity, rate, amount, reason
+        ) VALUES (
+            v_return_id, v_purchase_item.id, v_purchase_item.purchase_id, v_purchase_item.medicine_id,
+            v_purchase_item.batch_number, v_purchase_item.expiry_date,
+            v_quantity, v_rate, v_amount, v_item->>'reason'
+        );
+
+        UPDATE public.current_inventory
+        SET current_stock = current_stock - v_quantity, last_updated = NOW()
+        WHERE id = v_inventory.id;
+
+        INSERT INTO public.stock_transactions (
+            pharmacy_id, medicine_id, batch_number, expiry_date,
+            transaction_type, transaction_date, reference_id, reference_type,
+            quantity_out, stock_before, rate, amount, notes, user_id
+        ) VALUES (
+            p_pharmacy_id, v_purchase_item.medicine_id, v_purchase_item.batch_number, v_purchase_item.expiry_date,
+            'return', p_return_date, v_return_id, 'purchase_return',
+            v_quantity, v_inventory.current_stock, v_rate, v_amount,
+            'Debit note ' || p_debit_note_number || COALESCE(': ' || (v_item->>'reason'), ''), p_user_id
+        );
+
+        v_total_amount := v_total_amount + v_amount;
+        v_lines := v_lines + 1;
+    END LOOP;
+
+    UPDATE public.purchase_returns SET total_amount = v_total_amount WHERE id = v_return_id;
+
+    RETURN jsonb_build_object(
+        'return_id', v_return_id,
+        'debit_note_number', p_debit_note_number,
+        'items', v_lines,
+        'total_amount', v_total_amount
+    );
+END;
+$$ LANGUAGE plpgsql;
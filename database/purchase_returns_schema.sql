@@ -0,0 +1,112 @@
+-- ===============================================
+-- PURCHASE RETURNS (DEBIT NOTES) TO SUPPLIERS
+-- Run after supabase_schema_fixed.sql and rls_policies.sql
+-- ===============================================
+
+-- ===============================================
+-- 1. PURCHASE RETURNS (DEBIT NOTE HEADER)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.purchase_returns (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+    user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT, -- who raised the return
+
+    -- Debit Note Details
+    debit_note_number TEXT NOT NULL,
+    return_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    reason TEXT,
+
+    -- Value credited back by the supplier (at the net rate paid, after discount and GST)
+    total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    status TEXT DEFAULT 'issued' CHECK (status IN ('issued', 'adjusted', 'cancelled')),
+    notes TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(pharmacy_id, debit_note_number)
+);
+
+-- ===============================================
+-- 2. PURCHASE RETURN ITEMS (LINKED TO ORIGINAL PURCHASE LINE)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.purchase_return_items (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    return_id UUID REFERENCES public.purchase_returns(id) ON DELETE CASCADE,
+    purchase_item_id UUID REFERENCES public.purchase_items(id) ON DELETE SET NULL,
+    purchase_id UUID REFERENCES public.purchases(id) ON DELETE SET NULL,
+    medicine_id UUID REFERENCES public.medicines(id) ON DELETE RESTRICT,
+
+    batch_number TEXT NOT NULL,
+    expiry_date DATE NOT NULL,
+
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    rate DECIMAL(10,2) NOT NULL DEFAULT 0,
+    amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    reason TEXT, -- near expiry, damaged, wrong item, etc.
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ===============================================
+-- 3. INDEXES AND TRIGGERS
+-- ===============================================
+
+CREATE INDEX IF NOT EXISTS idx_purchase_returns_pharmacy ON public.purchase_returns(pharmacy_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_returns_supplier ON public.purchase_returns(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_return_items_return ON public.purchase_return_items(return_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_return_items_purchase_item ON public.purchase_return_items(purchase_item_id);
+
+CREATE TRIGGER update_purchase_returns_updated_at BEFORE UPDATE ON public.purchase_returns
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ===============================================
+-- 4. SUPPLIER BALANCE VIEW
+-- ===============================================
+
+-- Outstanding balance per supplier after payments and debit notes
+CREATE OR REPLACE VIEW view_supplier_balances AS
+SELECT
+    s.pharmacy_id,
+    s.id AS supplier_id,
+    s.name AS supplier_name,
+    COALESCE(p.total_purchases, 0) AS total_purchases,
+    COALESCE(p.total_paid, 0) AS total_paid,
+    COALESCE(r.total_returns, 0) AS total_returns,
+    COALESCE(p.total_purchases, 0) - COALESCE(p.total_paid, 0) - COALESCE(r.total_returns, 0) AS outstanding_balance
+FROM public.suppliers s
+LEFT JOIN (
+    SELECT supplier_id, SUM(total_amount) AS total_purchases, SUM(COALESCE(paid_amount, 0)) AS total_paid
+    FROM public.purchases
+    WHERE status <> 'cancelled'
+    GROUP BY supplier_id
+) p ON p.supplier_id = s.id
+LEFT JOIN (
+    SELECT supplier_id, SUM(total_amount) AS total_returns
+    FROM public.purchase_returns
+    WHERE status <> 'cancelled'
+    GROUP BY supplier_id
+) r ON r.supplier_id = s.id;
+
+-- ===============================================
+-- 5. ROW LEVEL SECURITY
+-- ===============================================
+
+ALTER TABLE public.purchase_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_return_items ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see returns for their pharmacy
+CREATE POLICY "View pharmacy purchase returns" ON public.purchase_returns
+FOR ALL USING (pharmacy_id = get_user_pharmacy_id());
+
+-- Users can view return items for their pharmacy's returns
+CREATE POLICY "View pharmacy purchase return items" ON public.purchase_return_items
+FOR ALL USING (
+  return_id IN (
+    SELECT id FROM purchase_returns WHERE pharmacy_id = get_user_pharmacy_id()
+  )
+);
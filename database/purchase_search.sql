@@ -0,0 +1,61 @@
+-- ===============================================
+-- PURCHASE ITEM SEARCH
+-- Run after supabase_schema_fixed.sql, rls_policies.sql and purchase_verification.sql
+-- ===============================================
+
+-- One row per purchase line with the invoice, supplier and medicine it
+-- belongs to, so GET /api/purchases can filter, sort and page in the
+-- database and return an accurate total. Runs with the caller's rights, so
+-- the RLS policies on the underlying tables still limit rows to the
+-- user's pharmacy.
+
+-- ===============================================
+-- 1. SEARCH VIEW
+-- ===============================================
+
+DROP VIEW IF EXISTS view_purchase_item_search;
+
+CREATE VIEW view_purchase_item_search WITH (security_invoker = true) AS
+SELECT
+    pi.id AS purchase_item_id,
+    p.id AS purchase_id,
+    p.pharmacy_id,
+    p.invoice_number,
+    p.purchase_date,
+    p.status,
+    p.total_amount,
+    p.created_at,
+    s.name AS supplier_name,
+    pi.medicine_id,
+    m.name AS medicine_name,
+    m.generic_name,
+    m.manufacturer,
+    m.strength,
+    m.unit_type,
+    pi.batch_number,
+    pi.expiry_date,
+    pi.quantity,
+    pi.free_quantity,
+    pi.received_quantity,
+    pi.mrp,
+    pi.purchase_rate,
+    pi.net_amount
+FROM public.purchase_items pi
+JOIN public.purchases p ON p.id = pi.purchase_id
+LEFT JOIN public.suppliers s ON s.id = p.supplier_id
+LEFT JOIN public.medicines m ON m.id = pi.medicine_id;
+
+-- ===============================================
+-- 2. INDEXES FOR PARTIAL-TEXT SEARCH
+-- ===============================================
+
+-- Medicine, supplier and batch are searched with ILIKE '%term%'
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_medicines_name_trgm ON public.medicines USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_medicines_generic_name_trgm ON public.medicines USING gin (generic_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_suppliers_name_trgm ON public.suppliers USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_purchase_items_batch_trgm ON public.purchase_items USING gin (batch_number gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_purchases_pharmacy_date ON public.purchases(pharmacy_id, purchase_date);
+CREATE INDEX IF NOT EXISTS idx_purchase_items_expiry ON public.purchase_items(expiry_date);
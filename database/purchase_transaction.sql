@@ -0,0 +1,191 @@
+-- ===============================================
+-- TRANSACTIONAL PURCHASE CREATION
+-- Run after supabase_schema_fixed.sql, rls_policies.sql, purchase_gst.sql, purchase_receipts.sql,
+-- purchase_verification.sql and purchase_orders_schema.sql
+-- ===============================================
+
+-- Earlier version without GST and charges
+DROP FUNCTION IF EXISTS create_purchase_with_items(UUID, UUID, TEXT, TEXT, DATE, JSONB);
+-- Earlier version that always created a received purchase
+DROP FUNCTION IF EXISTS create_purchase_with_items(UUID, UUID, TEXT, TEXT, DATE, JSONB, BOOLEAN, DECIMAL, DECIMAL);
+-- Earlier version that left closing a purchase order to the API
+DROP FUNCTION IF EXISTS create_purchase_with_items(UUID, UUID, TEXT, TEXT, DATE, JSONB, BOOLEAN, DECIMAL, DECIMAL, TEXT);
+
+-- Creates a purchase with all of its items in a single transaction.
+-- Items are validated and normalised by the API before this is called,
+-- so any failure here is a database error. Everything written so far is
+-- rolled back and the index of the line that failed is returned.
+-- Line amounts, the CGST/SGST or IGST split and the invoice totals are
+-- worked out by the database from each line's rate, discount and GST %.
+-- A 'received' purchase gets a goods receipt for every line in full, which
+-- is what adds the stock; a 'draft' adds no stock until goods are received
+-- with receive_purchase_goods().
+-- An invoice number already entered for the supplier is refused with
+-- duplicate_of set to the existing purchase; the API checks this first,
+-- so this only catches two entries of the same invoice saved at once.
+-- A purchase received against a purchase order closes the order in the
+-- same transaction. The order is locked first, so it can only be received
+-- once; an order that is no longer open is refused with order_status set.
+CREATE OR REPLACE FUNCTION create_purchase_with_items(
+    p_pharmacy_id UUID,
+    p_user_id UUID,
+    p_supplier_name TEXT,
+    p_invoice_number TEXT,
+    p_purchase_date DATE,
+    p_items JSONB,
+    p_is_interstate BOOLEAN DEFAULT false,
+    p_transport_charges DECIMAL DEFAULT 0,
+    p_other_charges DECIMAL DEFAULT 0,
+    p_status TEXT DEFAULT 'received',
+    p_purchase_order_id UUID DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_supplier_id UUID;
+    v_purchase_id UUID;
+    v_medicine_id UUID;
+    v_invoice_number TEXT;
+    v_total_amount DECIMAL(12,2);
+    v_receipt_id UUID;
+    v_duplicate_id UUID;
+    v_order RECORD;
+    v_item JSONB;
+    v_index INTEGER := NULL;
+BEGIN
+    IF p_purchase_order_id IS NOT NULL THEN
+        SELECT id, po_number, status INTO v_order
+        FROM public.purchase_orders
+        WHERE id = p_purchase_order_id
+            AND pharmacy_id = p_pharmacy_id
+        FOR UPDATE;
+
+        IF v_order.id IS NULL OR v_order.status NOT IN ('draft', 'sent') THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'failed_index', NULL,
+                'order_status', COALESCE(v_order.status, 'missing'),
+                'error', CASE WHEN v_order.id IS NULL THEN 'Purchase order not found'
+                    ELSE 'Order ' || v_order.po_number || ' is already ' || v_order.status END
+            );
+        END IF;
+    END IF;
+
+    -- Find or create supplier
+    SELECT id INTO v_supplier_id
+    FROM public.suppliers
+    WHERE pharmacy_id = p_pharmacy_id AND name = p_supplier_name
+    LIMIT 1;
+
+    IF v_supplier_id IS NULL THEN
+        INSERT INTO public.suppliers (pharmacy_id, name, contact_person, is_active)
+        VALUES (p_pharmacy_id, p_supplier_name, 'Auto-created', true)
+        RETURNING id INTO v_supplier_id;
+    END IF;
+
+    -- Invoice numbers are unique per supplier; a repeat is the same invoice entered twice
+    v_invoice_number := COALESCE(NULLIF(p_invoice_number, ''), 'INV-' || FLOOR(EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::TEXT);
+
+    SELECT id INTO v_duplicate_id
+    FROM public.purchases
+    WHERE pharmacy_id = p_pharmacy_id
+    AND supplier_id = v_supplier_id
+    AND invoice_number = v_invoice_number
+    AND status <> 'cancelled'
+    LIMIT 1;
+
+    IF v_duplicate_id IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'failed_index', NULL,
+            'duplicate_of', v_duplicate_id,
+            'error', 'Invoice ' || v_invoice_number || ' from ' || p_supplier_name || ' is already entered'
+        );
+    END IF;
+
+    SELECT COALESCE(SUM((item->>'amount')::DECIMAL), 0) + COALESCE(p_transport_charges, 0) + COALESCE(p_other_charges, 0)
+    INTO v_total_amount
+    FROM jsonb_array_elements(p_items) AS item;
+
+    -- Create purchase record (totals are recalculated from the items below)
+    INSERT INTO public.purchases (
+        pharmacy_id, supplier_id, user_id, invoice_number,
+        invoice_date, purchase_date, total_amount, status,
+        is_interstate, transport_charges, other_charges
+    ) VALUES (
+        p_pharmacy_id, v_supplier_id, p_user_id, v_invoice_number,
+        p_purchase_date, p_purchase_date, v_total_amount, COALESCE(p_status, 'received'),
+        COALESCE(p_is_interstate, false), COALESCE(p_transport_charges, 0), COALESCE(p_other_charges, 0)
+    )
+    RETURNING id INTO v_purchase_id;
+
+    -- Create purchase items (stock is only added by a goods receipt)
+    v_index := 0;
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_medicine_id := NULL;
+
+        SELECT id INTO v_medicine_id
+        FROM public.medicines
+        WHERE name = v_item->>'medicine_name'
+        LIMIT 1;
+
+        IF v_medicine_id IS NULL THEN
+            INSERT INTO public.medicines (name, generic_name, manufacturer, unit_type, is_active)
+            VALUES (v_item->>'medicine_name', v_item->>'medicine_name', 'Unknown', 'strips', true)
+            RETURNING id INTO v_medicine_id;
+        END IF;
+
+        INSERT INTO public.purchase_items (
+            purchase_id, medicine_id, batch_number, expiry_date,
+            quantity, free_quantity, mrp, purchase_rate,
+            discount_percentage, tax_percentage
+        ) VALUES (
+            v_purchase_id, v_medicine_id, NULLIF(v_item->>'batch_number', ''), NULLIF(v_item->>'expiry_date', '')::DATE,
+            (v_item->>'quantity')::INTEGER, COALESCE((v_item->>'free_quantity')::INTEGER, 0),
+            COALESCE((v_item->>'mrp')::DECIMAL, 0), (v_item->>'purchase_rate')::DECIMAL,
+            COALESCE((v_item->>'discount_percentage')::DECIMAL, 0), COALESCE((v_item->>'tax_percentage')::DECIMAL, 0)
+        );
+
+        v_index := v_index + 1;
+    END LOOP;
+
+    -- Subtotal, discount, CGST/SGST/IGST and total from the saved items
+    v_index := NULL;
+    PERFORM refresh_purchase_totals(v_purchase_id);
+
+    -- Receive every line in full (inventory and stock transactions are updated by trigger)
+    IF COALESCE(p_status, 'received') = 'received' THEN
+        INSERT INTO public.purchase_receipts (
+            pharmacy_id, purchase_id, receipt_number, received_date, notes, received_by
+        ) VALUES (
+            p_pharmacy_id, v_purchase_id, 'GRN-' || v_invoice_number || '-' || FLOOR(EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::TEXT,
+            p_purchase_date, 'Received in full on entry', p_user_id
+        )
+        RETURNING id INTO v_receipt_id;
+
+        INSERT INTO public.purchase_receipt_items (receipt_id, purchase_item_id, received_quantity)
+        SELECT v_receipt_id, id, total_quantity
+        FROM public.purchase_items
+        WHERE purchase_id = v_purchase_id;
+
+        UPDATE public.purchases SET received_at = NOW() WHERE id = v_purchase_id;
+    END IF;
+
+    IF p_purchase_order_id IS NOT NULL THEN
+        UPDATE public.purchase_orders
+        SET status = 'received', received_at = NOW(), purchase_id = v_purchase_id
+        WHERE id = p_purchase_order_id;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'purchase_id', v_purchase_id,
+        'invoice_number', v_invoice_number
+    );
+EXCEPTION WHEN OTHERS THEN
+    -- The exception block rolls back every insert made above
+    RETURN jsonb_build_object(
+        'success', false,
+        'failed_index', v_index,
+        'error', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql;
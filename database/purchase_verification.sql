@@ -0,0 +1,34 @@
+-- ===============================================
+-- PURCHASE VERIFICATION AND DUPLICATE INVOICES
+-- Run after purchase_receipts.sql, then re-run purchase_transaction.sql
+-- ===============================================
+
+-- A received purchase is checked against the supplier's invoice and then
+-- marked verified by a manager; only verified purchases count in the
+-- purchase stats. Repeated invoice numbers are no longer saved with a
+-- timestamp appended: create_purchase_with_items() refuses them and the
+-- index below stops two copies of the same supplier invoice being entered.
+
+-- ===============================================
+-- 1. VERIFICATION COLUMNS
+-- ===============================================
+
+ALTER TABLE public.purchases
+    ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_purchases_status ON public.purchases(pharmacy_id, status);
+
+-- ===============================================
+-- 2. ONE PURCHASE PER SUPPLIER INVOICE
+-- ===============================================
+
+-- Copies saved earlier carry a "-<epoch ms>" suffix, so they do not clash
+-- here; they are flagged as likely duplicates when verifying instead.
+-- A cancelled purchase frees its invoice number to be entered again, so
+-- the base schema's table-wide constraint gives way to the partial index.
+ALTER TABLE public.purchases DROP CONSTRAINT IF EXISTS purchases_pharmacy_id_supplier_id_invoice_number_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_purchases_supplier_invoice
+    ON public.purchases(pharmacy_id, supplier_id, invoice_number)
+    WHERE status <> 'cancelled';
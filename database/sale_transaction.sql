@@ -0,0 +1,118 @@
+-- ===============================================
+-- TRANSACTIONAL SALE CREATION
+-- Run after supabase_schema_fixed.sql, rls_policies.sql and sales_schema.sql
+-- ===============================================
+
+-- Creates a bill, picks batches first-expiry-first-out, deducts the stock
+-- and logs a 'sale' stock transaction per batch in one transaction. The
+-- batches are locked while they are picked, so two bills for the same
+-- medicine at once cannot both sell the same units. A medicine without
+-- enough sellable stock aborts the sale and nothing is saved.
+-- Runs with the caller's rights, so the pharmacy must be the one selected
+-- in the app.
+CREATE OR REPLACE FUNCTION create_sale_with_items(
+    p_pharmacy_id UUID,
+    p_user_id UUID,
+    p_bill_number TEXT,
+    p_sale_date DATE,
+    p_customer_name TEXT,
+    p_customer_phone TEXT,
+    p_doctor_name TEXT,
+    p_discount_percentage DECIMAL,
+    p_payment_mode TEXT,
+    p_notes TEXT,
+    p_items JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    v_sale_id UUID;
+    v_item JSONB;
+    v_batch RECORD;
+    v_remaining INTEGER;
+    v_take INTEGER;
+    v_amount DECIMAL(12,2);
+    v_subtotal DECIMAL(12,2) := 0;
+    v_discount_amount DECIMAL(12,2);
+    v_lines INTEGER := 0;
+BEGIN
+    INSERT INTO public.sales (
+        pharmacy_id, user_id, bill_number, sale_date,
+        customer_name, customer_phone, doctor_name,
+        discount_percentage, payment_mode, notes
+    ) VALUES (
+        p_pharmacy_id, p_user_id, p_bill_number, p_sale_date,
+        p_customer_name, p_customer_phone, p_doctor_name,
+        p_discount_percentage, p_payment_mode, p_notes
+    )
+    RETURNING id INTO v_sale_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_remaining := (v_item->>'quantity')::INTEGER;
+
+        -- Never sell expired stock
+        FOR v_batch IN
+            SELECT id, medicine_id, batch_number, expiry_date, current_stock,
+                current_stock - COALESCE(reserved_stock, 0) AS available,
+                COALESCE(current_mrp, 0) AS mrp
+            FROM public.current_inventory
+            WHERE pharmacy_id = p_pharmacy_id
+                AND medicine_id = (v_item->>'medicine_id')::UUID
+                AND is_active = true
+                AND current_stock > 0
+                AND expiry_date >= CURRENT_DATE
+            ORDER BY expiry_date, created_at
+            FOR UPDATE
+        LOOP
+            EXIT WHEN v_remaining <= 0;
+            CONTINUE WHEN v_batch.available <= 0;
+
+            v_take := LEAST(v_batch.available, v_remaining);
+            v_amount := ROUND(v_take * v_batch.mrp, 2);
+
+            INSERT INTO public.sale_items (
+                sale_id, medicine_id, batch_number, expiry_date, quantity, mrp, amount
+            ) VALUES (
+                v_sale_id, v_batch.medicine_id, v_batch.batch_number, v_batch.expiry_date, v_take, v_batch.mrp, v_amount
+            );
+
+            UPDATE public.current_inventory
+            SET current_stock = current_stock - v_take, last_updated = NOW()
+            WHERE id = v_batch.id;
+
+            INSERT INTO public.stock_transactions (
+                pharmacy_id, medicine_id, batch_number, expiry_date,
+                transaction_type, transaction_date, reference_id, reference_type,
+                quantity_out, stock_before, rate, amount, notes, user_id
+            ) VALUES (
+                p_pharmacy_id, v_batch.medicine_id, v_batch.batch_number, v_batch.expiry_date,
+                'sale', p_sale_date, v_sale_id, 'sale',
+                v_take, v_batch.current_stock, v_batch.mrp, v_amount,
+                'Bill ' || p_bill_number, p_user_id
+            );
+
+            v_subtotal := v_subtotal + v_amount;
+            v_remaining := v_remaining - v_take;
+            v_lines := v_lines + 1;
+        END LOOP;
+
+        IF v_remaining > 0 THEN
+            RAISE EXCEPTION 'Only % units of % are in stock',
+                (v_item->>'quantity')::INTEGER - v_remaining, v_item->>'medicine_name';
+        END IF;
+    END LOOP;
+
+    v_discount_amount := ROUND(v_subtotal * p_discount_percentage / 100, 2);
+
+    UPDATE public.sales SET
+        subtotal = v_subtotal,
+        discount_amount = v_discount_amount,
+        total_amount = v_subtotal - v_discount_amount
+    WHERE id = v_sale_id;
+
+    RETURN jsonb_build_object(
+        'sale_id', v_sale_id,
+        'bill_number', p_bill_number,
+        'items', v_lines,
+        'total_amount', v_subtotal - v_discount_amount
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,88 @@
+-- ===============================================
+-- POINT OF SALE (BILLING) TABLES
+-- Run after supabase_schema_fixed.sql and rls_policies.sql
+-- ===============================================
+
+-- ===============================================
+-- 1. SALES (CUSTOMER BILLS)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.sales (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT, -- who made the sale
+
+    -- Bill Details
+    bill_number TEXT NOT NULL,
+    sale_date DATE NOT NULL DEFAULT CURRENT_DATE,
+
+    -- Customer Details
+    customer_name TEXT,
+    customer_phone TEXT,
+    doctor_name TEXT,
+
+    -- Financial Details (all amounts at MRP)
+    subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+    discount_percentage DECIMAL(5,2) DEFAULT 0,
+    discount_amount DECIMAL(12,2) DEFAULT 0,
+    total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    payment_mode TEXT DEFAULT 'cash' CHECK (payment_mode IN ('cash', 'card', 'upi', 'credit')),
+
+    notes TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(pharmacy_id, bill_number)
+);
+
+-- ===============================================
+-- 2. SALE ITEMS (ONE ROW PER BATCH SOLD)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.sale_items (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    sale_id UUID REFERENCES public.sales(id) ON DELETE CASCADE,
+    medicine_id UUID REFERENCES public.medicines(id) ON DELETE RESTRICT,
+
+    -- Batch picked by FEFO allocation
+    batch_number TEXT NOT NULL,
+    expiry_date DATE NOT NULL,
+
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    mrp DECIMAL(10,2) NOT NULL DEFAULT 0,
+    amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ===============================================
+-- 3. INDEXES AND TRIGGERS
+-- ===============================================
+
+CREATE INDEX IF NOT EXISTS idx_sales_pharmacy ON public.sales(pharmacy_id);
+CREATE INDEX IF NOT EXISTS idx_sales_date ON public.sales(sale_date);
+CREATE INDEX IF NOT EXISTS idx_sale_items_sale ON public.sale_items(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_items_medicine ON public.sale_items(medicine_id);
+
+CREATE TRIGGER update_sales_updated_at BEFORE UPDATE ON public.sales
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ===============================================
+-- 4. ROW LEVEL SECURITY
+-- ===============================================
+
+ALTER TABLE public.sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sale_items ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see sales for their pharmacy
+CREATE POLICY "View pharmacy sales" ON public.sales
+FOR ALL USING (pharmacy_id = get_user_pharmacy_id());
+
+-- Users can view sale items for their pharmacy's sales
+CREATE POLICY "View pharmacy sale items" ON public.sale_items
+FOR ALL USING (
+  sale_id IN (
+    SELECT id FROM sales WHERE pharmacy_id = get_user_pharmacy_id()
+  )
+);
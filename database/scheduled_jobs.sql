@@ -0,0 +1,132 @@
+-- ===============================================
+-- SCHEDULED JOBS
+-- Run after supabase_schema_fixed.sql, rls_policies.sql and multi_pharmacy.sql
+-- ===============================================
+
+-- Every run of a recurring job (src/lib/cron/jobs.ts) is recorded in
+-- cron_job_runs, whether it was started by the scheduler or by a user from
+-- the settings page. Runs are written with the service role key only;
+-- members can read their own pharmacy's runs and the ones that covered
+-- every pharmacy.
+
+-- ===============================================
+-- 1. JOB HISTORY
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.cron_job_runs (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    job_name TEXT NOT NULL,
+    trigger TEXT NOT NULL DEFAULT 'schedule' CHECK (trigger IN ('schedule', 'manual')),
+
+    -- NULL when the run covered every pharmacy
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    triggered_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed')),
+    message TEXT,
+    output JSONB,
+    error TEXT,
+
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    duration_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_cron_job_runs_job ON public.cron_job_runs(job_name, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cron_job_runs_pharmacy ON public.cron_job_runs(pharmacy_id, started_at DESC);
+
+-- ===============================================
+-- 2. DAILY STOCK SNAPSHOTS
+-- ===============================================
+
+-- Closing stock per medicine for each day, so stock on a past date can be
+-- reported after the batches have been sold or written off.
+CREATE TABLE IF NOT EXISTS public.stock_snapshots (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    medicine_id UUID REFERENCES public.medicines(id) ON DELETE CASCADE,
+    snapshot_date DATE NOT NULL DEFAULT CURRENT_DATE,
+
+    total_stock INTEGER NOT NULL DEFAULT 0,
+    batch_count INTEGER NOT NULL DEFAULT 0,
+    stock_value DECIMAL(12,2) NOT NULL DEFAULT 0, -- at the last purchase rate
+    mrp_value DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(pharmacy_id, snapshot_date, medicine_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_snapshots_pharmacy_date ON public.stock_snapshots(pharmacy_id, snapshot_date);
+
+-- Records today's closing stock. Running it again on the same day replaces
+-- that day's figures. Pass NULL to snapshot every pharmacy.
+CREATE OR REPLACE FUNCTION capture_stock_snapshots(
+    p_pharmacy_id UUID DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_rows INTEGER;
+    v_pharmacies INTEGER;
+BEGIN
+    INSERT INTO public.stock_snapshots (
+        pharmacy_id, medicine_id, snapshot_date, total_stock, batch_count, stock_value, mrp_value
+    )
+    SELECT
+        ci.pharmacy_id,
+        ci.medicine_id,
+        CURRENT_DATE,
+        SUM(ci.current_stock),
+        COUNT(*),
+        ROUND(SUM(ci.current_stock * COALESCE(ci.last_purchase_rate, 0)), 2),
+        ROUND(SUM(ci.current_stock * COALESCE(ci.current_mrp, 0)), 2)
+    FROM public.current_inventory ci
+    WHERE ci.is_active = true
+        AND ci.current_stock > 0
+        AND (p_pharmacy_id IS NULL OR ci.pharmacy_id = p_pharmacy_id)
+    GROUP BY ci.pharmacy_id, ci.medicine_id
+    ON CONFLICT (pharmacy_id, snapshot_date, medicine_id) DO UPDATE SET
+        total_stock = EXCLUDED.total_stock,
+        batch_count = EXCLUDED.batch_count,
+        stock_value = EXCLUDED.stock_value,
+        mrp_value = EXCLUDED.mrp_value,
+        created_at = NOW();
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+    -- Medicines that ran out since an earlier snapshot today drop to zero
+    DELETE FROM public.stock_snapshots s
+    WHERE s.snapshot_date = CURRENT_DATE
+        AND (p_pharmacy_id IS NULL OR s.pharmacy_id = p_pharmacy_id)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.current_inventory ci
+            WHERE ci.pharmacy_id = s.pharmacy_id
+                AND ci.medicine_id = s.medicine_id
+                AND ci.is_active = true
+                AND ci.current_stock > 0
+        );
+
+    SELECT COUNT(DISTINCT pharmacy_id) INTO v_pharmacies
+    FROM public.stock_snapshots
+    WHERE snapshot_date = CURRENT_DATE
+        AND (p_pharmacy_id IS NULL OR pharmacy_id = p_pharmacy_id);
+
+    RETURN jsonb_build_object(
+        'snapshot_date', CURRENT_DATE,
+        'pharmacies', v_pharmacies,
+        'medicines', v_rows
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===============================================
+-- 3. ROW LEVEL SECURITY
+-- ===============================================
+
+ALTER TABLE public.cron_job_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View pharmacy job runs" ON public.cron_job_runs
+FOR SELECT USING (pharmacy_id IS NULL OR pharmacy_id = get_user_pharmacy_id());
+
+CREATE POLICY "View pharmacy stock snapshots" ON public.stock_snapshots
+FOR SELECT USING (pharmacy_id = get_user_pharmacy_id());
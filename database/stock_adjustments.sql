@@ -0,0 +1,75 @@
+-- ===============================================
+-- MANUAL STOCK ADJUSTMENTS
+-- Run after supabase_schema_fixed.sql and rls_policies.sql
+-- ===============================================
+
+-- Adds to or takes from one batch and logs the 'adjustment' or 'damaged'
+-- stock transaction in the same transaction. The batch is locked while it
+-- changes, so an adjustment made while a bill is being saved applies on
+-- top of the sale instead of overwriting it. Taking more than is in stock
+-- is refused. Runs with the caller's rights, so the pharmacy must be the
+-- one selected in the app.
+CREATE OR REPLACE FUNCTION adjust_batch_stock(
+    p_inventory_id UUID,
+    p_pharmacy_id UUID,
+    p_user_id UUID,
+    p_operation TEXT,
+    p_quantity INTEGER,
+    p_transaction_type TEXT,
+    p_notes TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    v_inventory RECORD;
+    v_stock_after INTEGER;
+    v_transaction_id UUID;
+BEGIN
+    IF p_operation NOT IN ('add', 'subtract') THEN
+        RAISE EXCEPTION 'operation must be add or subtract';
+    END IF;
+
+    SELECT id, medicine_id, batch_number, expiry_date, current_stock, last_purchase_rate
+    INTO v_inventory
+    FROM public.current_inventory
+    WHERE id = p_inventory_id
+        AND pharmacy_id = p_pharmacy_id
+    FOR UPDATE;
+
+    IF v_inventory.id IS NULL THEN
+        RAISE EXCEPTION 'Batch not found in this pharmacy''s stock';
+    END IF;
+
+    v_stock_after := CASE WHEN p_operation = 'add'
+        THEN v_inventory.current_stock + p_quantity
+        ELSE v_inventory.current_stock - p_quantity
+    END;
+
+    IF v_stock_after < 0 THEN
+        RAISE EXCEPTION 'Cannot subtract % units, only % in stock', p_quantity, v_inventory.current_stock;
+    END IF;
+
+    UPDATE public.current_inventory
+    SET current_stock = v_stock_after, last_updated = NOW()
+    WHERE id = v_inventory.id;
+
+    INSERT INTO public.stock_transactions (
+        pharmacy_id, medicine_id, batch_number, expiry_date,
+        transaction_type, reference_id, reference_type,
+        quantity_in, quantity_out, stock_before, rate, amount, notes, user_id
+    ) VALUES (
+        p_pharmacy_id, v_inventory.medicine_id, v_inventory.batch_number, v_inventory.expiry_date,
+        p_transaction_type, v_inventory.id, 'adjustment',
+        CASE WHEN p_operation = 'add' THEN p_quantity ELSE 0 END,
+        CASE WHEN p_operation = 'subtract' THEN p_quantity ELSE 0 END,
+        v_inventory.current_stock, COALESCE(v_inventory.last_purchase_rate, 0),
+        ROUND(p_quantity * COALESCE(v_inventory.last_purchase_rate, 0), 2),
+        p_notes, p_user_id
+    )
+    RETURNING id INTO v_transaction_id;
+
+    RETURN jsonb_build_object(
+        'transaction_id', v_transaction_id,
+        'stock_before', v_inventory.current_stock,
+        'stock_after', v_stock_after
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,206 @@
+-- ===============================================
+-- EXPIRED STOCK WRITE-OFF AND DESTRUCTION REGISTER
+-- Run after supabase_schema_fixed.sql, rls_policies.sql and expiry_alerts_lifecycle.sql
+-- ===============================================
+
+-- Expired batches are taken out of stock in destruction batches: one
+-- header per destruction (date, witness, method) and one line per batch
+-- written off, valued at purchase rate. Each line is logged as an
+-- 'expired' stock transaction and closes the batch's expiry alert.
+
+-- ===============================================
+-- 1. STOCK DESTRUCTIONS (DESTRUCTION BATCH HEADER)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.stock_destructions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    destruction_number TEXT NOT NULL,
+    destruction_date DATE NOT NULL DEFAULT CURRENT_DATE,
+
+    -- Who saw the stock destroyed and how it was disposed of
+    witness_name TEXT NOT NULL,
+    witness_designation TEXT,
+    method TEXT,
+    notes TEXT,
+
+    -- Loss booked at purchase rate
+    total_quantity INTEGER NOT NULL DEFAULT 0,
+    total_loss DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    created_by UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(pharmacy_id, destruction_number)
+);
+
+-- ===============================================
+-- 2. STOCK DESTRUCTION ITEMS (ONE BATCH PER LINE)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.stock_destruction_items (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    destruction_id UUID REFERENCES public.stock_destructions(id) ON DELETE CASCADE,
+    inventory_id UUID REFERENCES public.current_inventory(id) ON DELETE SET NULL,
+    medicine_id UUID REFERENCES public.medicines(id) ON DELETE RESTRICT,
+
+    batch_number TEXT NOT NULL,
+    expiry_date DATE NOT NULL,
+
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    rate DECIMAL(10,2) NOT NULL DEFAULT 0, -- purchase rate
+    mrp DECIMAL(10,2),
+    amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ===============================================
+-- 3. INDEXES AND TRIGGERS
+-- ===============================================
+
+CREATE INDEX IF NOT EXISTS idx_stock_destructions_pharmacy ON public.stock_destructions(pharmacy_id, destruction_date);
+CREATE INDEX IF NOT EXISTS idx_stock_destruction_items_destruction ON public.stock_destruction_items(destruction_id);
+
+CREATE TRIGGER update_stock_destructions_updated_at BEFORE UPDATE ON public.stock_destructions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ===============================================
+-- 4. WRITE-OFF
+-- ===============================================
+
+-- Creates the destruction batch and writes off the whole remaining stock
+-- of every listed batch in one transaction. A batch that has not expired,
+-- has no stock left or belongs to another pharmacy aborts the write-off.
+-- Runs with the caller's rights, so the pharmacy must be the one selected
+-- in the app.
+CREATE OR REPLACE FUNCTION write_off_expired_stock(
+    p_pharmacy_id UUID,
+    p_user_id UUID,
+    p_destruction_number TEXT,
+    p_destruction_date DATE,
+    p_witness_name TEXT,
+    p_witness_designation TEXT,
+    p_method TEXT,
+    p_notes TEXT,
+    p_inventory_ids JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    v_destruction_id UUID;
+    v_inventory_id UUID;
+    v_inventory RECORD;
+    v_amount DECIMAL(12,2);
+    v_total_quantity INTEGER := 0;
+    v_total_loss DECIMAL(12,2) := 0;
+    v_lines INTEGER := 0;
+BEGIN
+    INSERT INTO public.stock_destructions (
+        pharmacy_id, destruction_number, destruction_date,
+        witness_name, witness_designation, method, notes, created_by
+    ) VALUES (
+        p_pharmacy_id, p_destruction_number, p_destruction_date,
+        p_witness_name, p_witness_designation, p_method, p_notes, p_user_id
+    )
+    RETURNING id INTO v_destruction_id;
+
+    FOR v_inventory_id IN SELECT (jsonb_array_elements_text(p_inventory_ids))::UUID LOOP
+        SELECT id, medicine_id, batch_number, expiry_date, current_stock, last_purchase_rate, current_mrp
+        INTO v_inventory
+        FROM public.current_inventory
+        WHERE id = v_inventory_id
+            AND pharmacy_id = p_pharmacy_id
+        FOR UPDATE;
+
+        IF v_inventory.id IS NULL THEN
+            RAISE EXCEPTION 'Batch not found in this pharmacy''s stock';
+        END IF;
+
+        IF v_inventory.expiry_date > CURRENT_DATE THEN
+            RAISE EXCEPTION 'Batch % has not expired yet', v_inventory.batch_number;
+        END IF;
+
+        IF v_inventory.current_stock <= 0 THEN
+            RAISE EXCEPTION 'Batch % has no stock left to write off', v_inventory.batch_number;
+        END IF;
+
+        v_amount := ROUND(v_inventory.current_stock * COALESCE(v_inventory.last_purchase_rate, 0), 2);
+
+        INSERT INTO public.stock_destruction_items (
+            destruction_id, inventory_id, medicine_id, batch_number, expiry_date,
+            quantity, rate, mrp, amount
+        ) VALUES (
+            v_destruction_id, v_inventory.id, v_inventory.medicine_id, v_inventory.batch_number, v_inventory.expiry_date,
+            v_inventory.current_stock, COALESCE(v_inventory.last_purchase_rate, 0), v_inventory.current_mrp, v_amount
+        );
+
+        UPDATE public.current_inventory
+        SET current_stock = 0, last_updated = NOW()
+        WHERE id = v_inventory.id;
+
+        INSERT INTO public.stock_transactions (
+            pharmacy_id, medicine_id, batch_number, expiry_date,
+            transaction_type, transaction_date, reference_id, reference_type,
+            quantity_out, stock_before, rate, amount, notes, user_id
+        ) VALUES (
+            p_pharmacy_id, v_inventory.medicine_id, v_inventory.batch_number, v_inventory.expiry_date,
+            'expired', p_destruction_date, v_destruction_id, 'stock_destruction',
+            v_inventory.current_stock, v_inventory.current_stock, v_inventory.last_purchase_rate, v_amount,
+            'Written off on destruction ' || p_destruction_number, p_user_id
+        );
+
+        -- The batch is dealt with, so its alert comes off the to-do list
+        UPDATE public.expiry_alerts SET
+            status = 'resolved',
+            current_stock = 0,
+            resolved_by = p_user_id,
+            resolved_at = NOW(),
+            notes = COALESCE(NULLIF(notes, '') || E'\n', '') || 'Written off on destruction ' || p_destruction_number,
+            updated_at = NOW()
+        WHERE pharmacy_id = p_pharmacy_id
+            AND medicine_id = v_inventory.medicine_id
+            AND batch_number = v_inventory.batch_number
+            AND expiry_date = v_inventory.expiry_date
+            AND status <> 'resolved';
+
+        v_total_quantity := v_total_quantity + v_inventory.current_stock;
+        v_total_loss := v_total_loss + v_amount;
+        v_lines := v_lines + 1;
+    END LOOP;
+
+    IF v_lines = 0 THEN
+        RAISE EXCEPTION 'Select at least one expired batch to write off';
+    END IF;
+
+    UPDATE public.stock_destructions
+    SET total_quantity = v_total_quantity, total_loss = v_total_loss
+    WHERE id = v_destruction_id;
+
+    RETURN jsonb_build_object(
+        'destruction_id', v_destruction_id,
+        'destruction_number', p_destruction_number,
+        'items', v_lines,
+        'total_quantity', v_total_quantity,
+        'total_loss', v_total_loss
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===============================================
+-- 5. ROW LEVEL SECURITY
+-- ===============================================
+
+ALTER TABLE public.stock_destructions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_destruction_items ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see destructions for their pharmacy
+CREATE POLICY "View pharmacy stock destructions" ON public.stock_destructions
+FOR ALL USING (pharmacy_id = get_user_pharmacy_id());
+
+-- Users can view destruction items for their pharmacy's destructions
+CREATE POLICY "View pharmacy stock destruction items" ON public.stock_destruction_items
+FOR ALL USING (
+  destruction_id IN (
+    SELECT id FROM stock_destructions WHERE pharmacy_id = get_user_pharmacy_id()
+  )
+);
@@ -0,0 +1,306 @@
+-- ===============================================
+-- INTER-BRANCH STOCK TRANSFERS
+-- Run after multi_pharmacy.sql
+-- ===============================================
+
+-- A transfer moves batches from one branch to another in two steps.
+-- Dispatching takes the stock out of the sending branch straight away;
+-- receiving adds it to the receiving branch. In between the transfer is
+-- 'in_transit' and its quantity is counted in neither branch's inventory.
+
+-- ===============================================
+-- 1. STOCK TRANSFERS (TRANSFER DOCUMENT HEADER)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.stock_transfers (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    transfer_number TEXT NOT NULL UNIQUE,
+    from_pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    to_pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+
+    status TEXT NOT NULL DEFAULT 'in_transit' CHECK (status IN ('in_transit', 'received', 'cancelled')),
+
+    -- Value of the stock moved (at purchase rate)
+    total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+
+    dispatched_by UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+    dispatched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    received_by UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+    received_at TIMESTAMP WITH TIME ZONE,
+    cancelled_by UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (from_pharmacy_id <> to_pharmacy_id)
+);
+
+-- ===============================================
+-- 2. STOCK TRANSFER ITEMS (ONE BATCH PER LINE)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.stock_transfer_items (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    transfer_id UUID REFERENCES public.stock_transfers(id) ON DELETE CASCADE,
+    medicine_id UUID REFERENCES public.medicines(id) ON DELETE RESTRICT,
+
+    batch_number TEXT NOT NULL,
+    expiry_date DATE NOT NULL,
+
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    rate DECIMAL(10,2) NOT NULL DEFAULT 0, -- purchase rate carried over to the receiving branch
+    mrp DECIMAL(10,2),
+    selling_rate DECIMAL(10,2),
+    amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ===============================================
+-- 3. INDEXES, TRIGGERS AND STOCK MOVEMENT TYPES
+-- ===============================================
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_from ON public.stock_transfers(from_pharmacy_id, status);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_to ON public.stock_transfers(to_pharmacy_id, status);
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_transfer ON public.stock_transfer_items(transfer_id);
+
+CREATE TRIGGER update_stock_transfers_updated_at BEFORE UPDATE ON public.stock_transfers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Both sides of a transfer are logged in stock_transactions with the
+-- transfer id as reference_id
+ALTER TABLE public.stock_transactions DROP CONSTRAINT IF EXISTS stock_transactions_transaction_type_check;
+ALTER TABLE public.stock_transactions ADD CONSTRAINT stock_transactions_transaction_type_check
+    CHECK (transaction_type IN ('purchase', 'sale', 'return', 'adjustment', 'expired', 'damaged', 'transfer_out', 'transfer_in'));
+
+-- ===============================================
+-- 4. DISPATCH, RECEIVE AND CANCEL
+-- ===============================================
+
+-- Creates the transfer and takes every line out of the sending branch's
+-- stock in one transaction. Lines are validated by the API first; a line
+-- that is short of stock here (sold in the meantime) aborts the transfer.
+-- Runs with the caller's rights, so the sending branch must be the branch
+-- selected in the app.
+CREATE OR REPLACE FUNCTION dispatch_stock_transfer(
+    p_from_pharmacy_id UUID,
+    p_to_pharmacy_id UUID,
+    p_user_id UUID,
+    p_transfer_number TEXT,
+    p_notes TEXT,
+    p_items JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    v_transfer_id UUID;
+    v_item JSONB;
+    v_inventory RECORD;
+    v_quantity INTEGER;
+    v_total_amount DECIMAL(12,2) := 0;
+    v_lines INTEGER := 0;
+BEGIN
+    INSERT INTO public.stock_transfers (
+        transfer_number, from_pharmacy_id, to_pharmacy_id, notes, dispatched_by
+    ) VALUES (
+        p_transfer_number, p_from_pharmacy_id, p_to_pharmacy_id, p_notes, p_user_id
+    )
+    RETURNING id INTO v_transfer_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        v_quantity := (v_item->>'quantity')::INTEGER;
+
+        SELECT id, current_stock, last_purchase_rate, current_mrp, current_selling_rate
+        INTO v_inventory
+        FROM public.current_inventory
+        WHERE pharmacy_id = p_from_pharmacy_id
+            AND medicine_id = (v_item->>'medicine_id')::UUID
+            AND batch_number = v_item->>'batch_number'
+            AND expiry_date = (v_item->>'expiry_date')::DATE
+        FOR UPDATE;
+
+        IF v_inventory.id IS NULL OR v_inventory.current_stock < v_quantity THEN
+            RAISE EXCEPTION 'Only % units of batch % are in stock', COALESCE(v_inventory.current_stock, 0), v_item->>'batch_number';
+        END IF;
+
+        INSERT INTO public.stock_transfer_items (
+            transfer_id, medicine_id, batch_number, expiry_date,
+            quantity, rate, mrp, selling_rate, amount
+        ) VALUES (
+            v_transfer_id, (v_item->>'medicine_id')::UUID, v_item->>'batch_number', (v_item->>'expiry_date')::DATE,
+            v_quantity, COALESCE(v_inventory.last_purchase_rate, 0), v_inventory.current_mrp, v_inventory.current_selling_rate,
+            ROUND(v_quantity * COALESCE(v_inventory.last_purchase_rate, 0), 2)
+        );
+
+        UPDATE public.current_inventory
+        SET current_stock = current_stock - v_quantity, last_updated = NOW()
+        WHERE id = v_inventory.id;
+
+        INSERT INTO public.stock_transactions (
+            pharmacy_id, medicine_id, batch_number, expiry_date,
+            transaction_type, reference_id, reference_type,
+            quantity_out, stock_before, rate, amount, notes, user_id
+        ) VALUES (
+            p_from_pharmacy_id, (v_item->>'medicine_id')::UUID, v_item->>'batch_number', (v_item->>'expiry_date')::DATE,
+            'transfer_out', v_transfer_id, 'stock_transfer',
+            v_quantity, v_inventory.current_stock, v_inventory.last_purchase_rate,
+            ROUND(v_quantity * COALESCE(v_inventory.last_purchase_rate, 0), 2),
+            'Transfer ' || p_transfer_number || ' dispatched', p_user_id
+        );
+
+        v_total_amount := v_total_amount + ROUND(v_quantity * COALESCE(v_inventory.last_purchase_rate, 0), 2);
+        v_lines := v_lines + 1;
+    END LOOP;
+
+    UPDATE public.stock_transfers SET total_amount = v_total_amount WHERE id = v_transfer_id;
+
+    RETURN jsonb_build_object(
+        'transfer_id', v_transfer_id,
+        'transfer_number', p_transfer_number,
+        'items', v_lines,
+        'total_amount', v_total_amount
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Helper: adds a transfer's lines to a branch's stock, keeping batch,
+-- expiry and rates, and logs a 'transfer_in' movement for each line
+CREATE OR REPLACE FUNCTION add_stock_transfer_items(
+    p_transfer_id UUID,
+    p_pharmacy_id UUID,
+    p_user_id UUID,
+    p_note TEXT
+) RETURNS INTEGER AS $$
+DECLARE
+    v_line RECORD;
+    v_stock_before INTEGER;
+    v_lines INTEGER := 0;
+BEGIN
+    FOR v_line IN SELECT * FROM public.stock_transfer_items WHERE transfer_id = p_transfer_id LOOP
+        SELECT current_stock INTO v_stock_before
+        FROM public.current_inventory
+        WHERE pharmacy_id = p_pharmacy_id
+            AND medicine_id = v_line.medicine_id
+            AND batch_number = v_line.batch_number
+            AND expiry_date = v_line.expiry_date
+        FOR UPDATE;
+
+        INSERT INTO public.current_inventory (
+            pharmacy_id, medicine_id, batch_number, expiry_date, current_stock,
+            last_purchase_rate, current_mrp, current_selling_rate
+        ) VALUES (
+            p_pharmacy_id, v_line.medicine_id, v_line.batch_number, v_line.expiry_date, v_line.quantity,
+            v_line.rate, v_line.mrp, v_line.selling_rate
+        )
+        ON CONFLICT (pharmacy_id, medicine_id, batch_number, expiry_date)
+        DO UPDATE SET
+            current_stock = current_inventory.current_stock + EXCLUDED.current_stock,
+            last_purchase_rate = COALESCE(current_inventory.last_purchase_rate, EXCLUDED.last_purchase_rate),
+            current_mrp = COALESCE(current_inventory.current_mrp, EXCLUDED.current_mrp),
+            current_selling_rate = COALESCE(current_inventory.current_selling_rate, EXCLUDED.current_selling_rate),
+            is_active = true,
+            last_updated = NOW();
+
+        INSERT INTO public.stock_transactions (
+            pharmacy_id, medicine_id, batch_number, expiry_date,
+            transaction_type, reference_id, reference_type,
+            quantity_in, stock_before, rate, amount, notes, user_id
+        ) VALUES (
+            p_pharmacy_id, v_line.medicine_id, v_line.batch_number, v_line.expiry_date,
+            'transfer_in', p_transfer_id, 'stock_transfer',
+            v_line.quantity, COALESCE(v_stock_before, 0), v_line.rate, v_line.amount, p_note, p_user_id
+        );
+
+        v_lines := v_lines + 1;
+    END LOOP;
+
+    RETURN v_lines;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Receiving branch books the stock in. Runs with the caller's rights, so
+-- the receiving branch must be the branch selected in the app.
+CREATE OR REPLACE FUNCTION receive_stock_transfer(
+    p_transfer_id UUID,
+    p_user_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+    v_transfer RECORD;
+    v_lines INTEGER;
+BEGIN
+    SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+    IF v_transfer.id IS NULL THEN
+        RAISE EXCEPTION 'Transfer not found';
+    END IF;
+
+    IF v_transfer.status <> 'in_transit' THEN
+        RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+    END IF;
+
+    v_lines := add_stock_transfer_items(
+        p_transfer_id, v_transfer.to_pharmacy_id, p_user_id,
+        'Transfer ' || v_transfer.transfer_number || ' received'
+    );
+
+    UPDATE public.stock_transfers
+    SET status = 'received', received_by = p_user_id, received_at = NOW()
+    WHERE id = p_transfer_id;
+
+    RETURN jsonb_build_object('transfer_id', p_transfer_id, 'status', 'received', 'items', v_lines);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Sending branch calls a transfer back before it is received; the stock
+-- goes back into the sending branch.
+CREATE OR REPLACE FUNCTION cancel_stock_transfer(
+    p_transfer_id UUID,
+    p_user_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+    v_transfer RECORD;
+    v_lines INTEGER;
+BEGIN
+    SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+    IF v_transfer.id IS NULL THEN
+        RAISE EXCEPTION 'Transfer not found';
+    END IF;
+
+    IF v_transfer.status <> 'in_transit' THEN
+        RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+    END IF;
+
+    v_lines := add_stock_transfer_items(
+        p_transfer_id, v_transfer.from_pharmacy_id, p_user_id,
+        'Transfer ' || v_transfer.transfer_number || ' cancelled, stock returned'
+    );
+
+    UPDATE public.stock_transfers
+    SET status = 'cancelled', cancelled_by = p_user_id, cancelled_at = NOW()
+    WHERE id = p_transfer_id;
+
+    RETURN jsonb_build_object('transfer_id', p_transfer_id, 'status', 'cancelled', 'items', v_lines);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===============================================
+-- 5. ROW LEVEL SECURITY
+-- ===============================================
+
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfer_items ENABLE ROW LEVEL SECURITY;
+
+-- Both the sending and the receiving branch see a transfer
+CREATE POLICY "View branch stock transfers" ON public.stock_transfers
+FOR ALL USING (
+  from_pharmacy_id = get_user_pharmacy_id() OR to_pharmacy_id = get_user_pharmacy_id()
+);
+
+CREATE POLICY "View branch stock transfer items" ON public.stock_transfer_items
+FOR ALL USING (
+  transfer_id IN (
+    SELECT id FROM stock_transfers
+    WHERE from_pharmacy_id = get_user_pharmacy_id() OR to_pharmacy_id = get_user_pharmacy_id()
+  )
+);
@@ -0,0 +1,106 @@
+-- ===============================================
+-- MERGE DUPLICATE SUPPLIERS
+-- Run after supplier_payments_schema.sql, purchase_import_mappings.sql and purchase_orders_schema.sql
+-- ===============================================
+
+-- Moves every purchase, purchase order, debit note and payment from the
+-- source suppliers to the target supplier, fills in blank target details from the sources
+-- and deletes the sources. Runs as one transaction, so a failure
+-- (for example a clashing invoice number) leaves nothing half-merged.
+CREATE OR REPLACE FUNCTION merge_suppliers(
+    p_pharmacy_id UUID,
+    p_target_supplier_id UUID,
+    p_source_supplier_ids UUID[]
+) RETURNS JSONB AS $$
+DECLARE
+    v_purchases INTEGER;
+    v_orders INTEGER;
+    v_returns INTEGER;
+    v_payments INTEGER;
+    v_deleted INTEGER;
+BEGIN
+    IF p_target_supplier_id = ANY(p_source_supplier_ids) THEN
+        RAISE EXCEPTION 'Target supplier cannot also be a source';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.suppliers
+        WHERE id = p_target_supplier_id AND pharmacy_id = p_pharmacy_id
+    ) THEN
+        RAISE EXCEPTION 'Target supplier not found';
+    END IF;
+
+    -- Fill blank details on the target from the first source that has them
+    UPDATE public.suppliers t SET
+        contact_person = COALESCE(NULLIF(NULLIF(t.contact_person, ''), 'Auto-created'), src.contact_person, t.contact_person),
+        phone = COALESCE(NULLIF(t.phone, ''), src.phone),
+        email = COALESCE(NULLIF(t.email, ''), src.email),
+        address = COALESCE(NULLIF(t.address, ''), src.address),
+        city = COALESCE(NULLIF(t.city, ''), src.city),
+        state = COALESCE(NULLIF(t.state, ''), src.state),
+        pincode = COALESCE(NULLIF(t.pincode, ''), src.pincode),
+        gst_number = COALESCE(NULLIF(t.gst_number, ''), src.gst_number),
+        drug_license_number = COALESCE(NULLIF(t.drug_license_number, ''), src.drug_license_number),
+        credit_days = GREATEST(t.credit_days, src.credit_days),
+        credit_limit = GREATEST(t.credit_limit, src.credit_limit)
+    FROM (
+        SELECT
+            (ARRAY_AGG(contact_person) FILTER (WHERE contact_person IS NOT NULL AND contact_person NOT IN ('', 'Auto-created')))[1] AS contact_person,
+            (ARRAY_AGG(phone) FILTER (WHERE phone IS NOT NULL AND phone <> ''))[1] AS phone,
+            (ARRAY_AGG(email) FILTER (WHERE email IS NOT NULL AND email <> ''))[1] AS email,
+            (ARRAY_AGG(address) FILTER (WHERE address IS NOT NULL AND address <> ''))[1] AS address,
+            (ARRAY_AGG(city) FILTER (WHERE city IS NOT NULL AND city <> ''))[1] AS city,
+            (ARRAY_AGG(state) FILTER (WHERE state IS NOT NULL AND state <> ''))[1] AS state,
+            (ARRAY_AGG(pincode) FILTER (WHERE pincode IS NOT NULL AND pincode <> ''))[1] AS pincode,
+            (ARRAY_AGG(gst_number) FILTER (WHERE gst_number IS NOT NULL AND gst_number <> ''))[1] AS gst_number,
+            (ARRAY_AGG(drug_license_number) FILTER (WHERE drug_license_number IS NOT NULL AND drug_license_number <> ''))[1] AS drug_license_number,
+            COALESCE(MAX(credit_days), 0) AS credit_days,
+            COALESCE(MAX(credit_limit), 0) AS credit_limit
+        FROM public.suppliers
+        WHERE id = ANY(p_source_supplier_ids) AND pharmacy_id = p_pharmacy_id
+    ) src
+    WHERE t.id = p_target_supplier_id;
+
+    -- Re-point everything that references the sources
+    UPDATE public.purchases SET supplier_id = p_target_supplier_id
+    WHERE supplier_id = ANY(p_source_supplier_ids) AND pharmacy_id = p_pharmacy_id;
+    GET DIAGNOSTICS v_purchases = ROW_COUNT;
+
+    UPDATE public.purchase_orders SET supplier_id = p_target_supplier_id
+    WHERE supplier_id = ANY(p_source_supplier_ids) AND pharmacy_id = p_pharmacy_id;
+    GET DIAGNOSTICS v_orders = ROW_COUNT;
+
+    UPDATE public.purchase_returns SET supplier_id = p_target_supplier_id
+    WHERE supplier_id = ANY(p_source_supplier_ids) AND pharmacy_id = p_pharmacy_id;
+    GET DIAGNOSTICS v_returns = ROW_COUNT;
+
+    UPDATE public.supplier_payments SET supplier_id = p_target_supplier_id
+    WHERE supplier_id = ANY(p_source_supplier_ids) AND pharmacy_id = p_pharmacy_id;
+    GET DIAGNOSTICS v_payments = ROW_COUNT;
+
+    -- Keep the target's saved import column mapping, or take over the most recently updated source's
+    UPDATE public.supplier_import_mappings SET supplier_id = p_target_supplier_id
+    WHERE id = (
+        SELECT id FROM public.supplier_import_mappings
+        WHERE supplier_id = ANY(p_source_supplier_ids) AND pharmacy_id = p_pharmacy_id
+        ORDER BY updated_at DESC
+        LIMIT 1
+    )
+        AND NOT EXISTS (
+            SELECT 1 FROM public.supplier_import_mappings
+            WHERE supplier_id = p_target_supplier_id AND pharmacy_id = p_pharmacy_id
+        );
+
+    DELETE FROM public.suppliers
+    WHERE id = ANY(p_source_supplier_ids) AND pharmacy_id = p_pharmacy_id;
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'purchases_moved', v_purchases,
+        'orders_moved', v_orders,
+        'returns_moved', v_returns,
+        'payments_moved', v_payments,
+        'suppliers_removed', v_deleted
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,153 @@
+-- ===============================================
+-- SUPPLIER PAYMENTS AND OUTSTANDING TRACKING
+-- Run after supabase_schema_fixed.sql, rls_policies.sql and purchase_returns_schema.sql
+-- ===============================================
+
+-- ===============================================
+-- 1. SUPPLIER PAYMENTS
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS public.supplier_payments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    pharmacy_id UUID REFERENCES public.pharmacies(id) ON DELETE CASCADE,
+    supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+    purchase_id UUID REFERENCES public.purchases(id) ON DELETE RESTRICT, -- a paid invoice cannot be deleted
+    user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT, -- who recorded the payment
+
+    payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    payment_mode TEXT NOT NULL DEFAULT 'cash' CHECK (payment_mode IN ('cash', 'cheque', 'bank_transfer', 'upi', 'card')),
+    reference_number TEXT, -- cheque number, UTR, transaction id
+    notes TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_pharmacy ON public.supplier_payments(pharmacy_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_supplier ON public.supplier_payments(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_purchase ON public.supplier_payments(purchase_id);
+
+-- ===============================================
+-- 2. KEEP PURCHASE BALANCE AND STATUS IN SYNC
+-- ===============================================
+
+-- Value of the goods returned against a purchase on debit notes that are
+-- still in force. It comes off what is owed on the invoice.
+CREATE OR REPLACE FUNCTION purchase_returned_amount(p_purchase_id UUID)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE(SUM(ri.amount), 0)
+    FROM public.purchase_return_items ri
+    JOIN public.purchase_returns r ON r.id = ri.return_id
+    WHERE ri.purchase_id = p_purchase_id
+        AND r.status <> 'cancelled'
+$$ LANGUAGE sql STABLE;
+
+-- Function to derive due date, balance and payment status on purchases
+CREATE OR REPLACE FUNCTION sync_purchase_payment_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Due date follows the supplier's credit period unless set explicitly
+    IF NEW.due_date IS NULL THEN
+        SELECT NEW.invoice_date + COALESCE(s.credit_days, 0)
+        INTO NEW.due_date
+        FROM public.suppliers s
+        WHERE s.id = NEW.supplier_id;
+    END IF;
+
+    NEW.paid_amount = COALESCE(NEW.paid_amount, 0);
+    NEW.balance_amount = NEW.total_amount - purchase_returned_amount(NEW.id) - NEW.paid_amount;
+
+    NEW.payment_status = CASE
+        WHEN NEW.balance_amount <= 0 THEN 'paid'
+        WHEN NEW.due_date < CURRENT_DATE THEN 'overdue'
+        WHEN NEW.paid_amount > 0 THEN 'partial'
+        ELSE 'pending'
+    END;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_purchase_payment_fields_trigger
+    BEFORE INSERT OR UPDATE ON public.purchases
+    FOR EACH ROW EXECUTE FUNCTION sync_purchase_payment_fields();
+
+-- Debit notes change what is owed, so refresh the invoices they return against
+CREATE OR REPLACE FUNCTION refresh_returned_purchase_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'purchase_returns' THEN
+        UPDATE public.purchases SET paid_amount = paid_amount
+        WHERE id IN (SELECT purchase_id FROM public.purchase_return_items WHERE return_id = NEW.id);
+    ELSE
+        UPDATE public.purchases SET paid_amount = paid_amount
+        WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.purchase_id ELSE NEW.purchase_id END;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_returned_purchase_balance_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON public.purchase_return_items
+    FOR EACH ROW EXECUTE FUNCTION refresh_returned_purchase_balance();
+
+CREATE TRIGGER refresh_cancelled_return_balance_trigger
+    AFTER UPDATE OF status ON public.purchase_returns
+    FOR EACH ROW EXECUTE FUNCTION refresh_returned_purchase_balance();
+
+-- Backfill existing purchases (the trigger fills in due date, balance and status)
+UPDATE public.purchases SET paid_amount = COALESCE(paid_amount, 0);
+
+-- ===============================================
+-- 3. KEEP PAID AMOUNT IN SYNC WITH PAYMENTS
+-- ===============================================
+
+-- Function to recompute a purchase's paid amount from its payments. The
+-- purchase is locked first, so two payments recorded at once both count
+-- and together cannot pay more than the invoice less its returns.
+CREATE OR REPLACE FUNCTION sync_purchase_paid_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_purchase_id UUID;
+    v_payable_amount DECIMAL(12,2);
+    v_paid_amount DECIMAL(12,2);
+BEGIN
+    v_purchase_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.purchase_id ELSE NEW.purchase_id END;
+
+    SELECT total_amount INTO v_payable_amount
+    FROM public.purchases
+    WHERE id = v_purchase_id
+    FOR UPDATE;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid_amount
+    FROM public.supplier_payments
+    WHERE purchase_id = v_purchase_id;
+
+    -- Goods returned on a debit note are not paid for
+    v_payable_amount := v_payable_amount - purchase_returned_amount(v_purchase_id);
+
+    IF TG_OP <> 'DELETE' AND v_paid_amount > v_payable_amount THEN
+        RAISE EXCEPTION 'Payments of % exceed the % payable on the invoice', v_paid_amount, v_payable_amount;
+    END IF;
+
+    -- Balance and payment status follow via sync_purchase_payment_fields
+    UPDATE public.purchases SET paid_amount = v_paid_amount WHERE id = v_purchase_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_purchase_paid_amount_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON public.supplier_payments
+    FOR EACH ROW EXECUTE FUNCTION sync_purchase_paid_amount();
+
+-- ===============================================
+-- 4. ROW LEVEL SECURITY
+-- ===============================================
+
+ALTER TABLE public.supplier_payments ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see payments for their pharmacy
+CREATE POLICY "View pharmacy supplier payments" ON public.supplier_payments
+FOR ALL USING (pharmacy_id = get_user_pharmacy_id());
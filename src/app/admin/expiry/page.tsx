@@ -1,13 +1,52 @@
 'use client'
 
-import { useGetExpiryStatsQuery, useGetExpiryAlertsQuery } from '@/lib/store/api/pharmacyApi'
+import {
+    useGetExpiryStatsQuery,
+    useGetExpiryAlertsQuery,
+    useGetExpiryAlertWorklistQuery,
+    useRefreshExpiryAlertsMutation,
+    useUpdateExpiryAlertsMutation,
+    useGetPharmacySettingsQuery,
+    useGetStockDestructionsQuery,
+    useCreateStockDestructionMutation,
+    type ExpiryAlertRecord,
+    type ExpiryAlertStatus
+} from '@/lib/store/api/pharmacyApi'
 import { useState, useMemo } from 'react'
 import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
 import AutocompleteDropdown from '@/components/ui/AutocompleteDropdown'
 import { supabase } from '@/lib/supabase'
+import { withActivePharmacy } from '@/lib/auth/active-pharmacy'
+import { useAuth } from '@/lib/auth/AuthContext'
+import { downloadDestructionCertificatePDF } from '@/lib/pdf/destruction-certificate'
+import { DEFAULT_PHARMACY_SETTINGS, formatCurrency } from '@/lib/settings/pharmacy-settings'
+
+const WORKLIST_TABS: { value: ExpiryAlertStatus | 'open'; label: string }[] = [
+    { value: 'open', label: 'Open' },
+    { value: 'active', label: 'New' },
+    { value: 'acknowledged', label: 'Acknowledged' },
+    { value: 'resolved', label: 'Resolved' }
+]
+
+const ALERT_TYPE_STYLES: Record<ExpiryAlertRecord['alert_type'], string> = {
+    expired: 'bg-red-100 text-red-800',
+    '30_days': 'bg-orange-100 text-orange-800',
+    '60_days': 'bg-yellow-100 text-yellow-800',
+    '90_days': 'bg-blue-100 text-blue-800'
+}
+
+const EMPTY_WRITE_OFF_FORM = {
+    destruction_date: '',
+    witness_name: '',
+    witness_designation: '',
+    method: '',
+    notes: ''
+}
 
 export default function ExpiryTracking() {
+    const { can } = useAuth()
+
     // Filter state
     const [filters, setFilters] = useState({
         medicine_name: '',
@@ -23,8 +62,7 @@ export default function ExpiryTracking() {
         batch_number: '',
         supplier_name: '',
         start_date: '',
-        end_date: '',
-        days: 90 // Default to 90 days on initial load
+        end_date: ''
     })
 
     // Pagination state
@@ -34,8 +72,39 @@ export default function ExpiryTracking() {
     // PDF download state
     const [isDownloading, setIsDownloading] = useState(false)
 
+    // Alert worklist state
+    const [worklistStatus, setWorklistStatus] = useState<ExpiryAlertStatus | 'open'>('open')
+    const [worklistPage, setWorklistPage] = useState(1)
+    const [pendingAction, setPendingAction] = useState<{ alert: ExpiryAlertRecord; action: 'acknowledge' | 'resolve' } | null>(null)
+    const [actionNotes, setActionNotes] = useState('')
+
+    // Expired stock write-off state
+    const [showWriteOff, setShowWriteOff] = useState(false)
+    const [selectedBatchIds, setSelectedBatchIds] = useState<Set<string>>(new Set())
+    const [writeOffForm, setWriteOffForm] = useState(EMPTY_WRITE_OFF_FORM)
+    const [registerPage, setRegisterPage] = useState(1)
+
     // RTK Query hooks to fetch expiry data
     const { data: expiryStats, isLoading, error } = useGetExpiryStatsQuery()
+    const { data: pharmacySettings } = useGetPharmacySettingsQuery()
+
+    // Expiry bands and currency configured for the pharmacy
+    const settings = pharmacySettings || DEFAULT_PHARMACY_SETTINGS
+    const alertDays = settings.expiry_alert_days
+
+    // Band label for an alert, e.g. "≤ 30 days" for the critical band
+    const getAlertTypeLabel = (alertType: ExpiryAlertRecord['alert_type']) => {
+        switch (alertType) {
+            case 'expired':
+                return 'Expired'
+            case '30_days':
+                return `≤ ${settings.expiry_critical_days} days`
+            case '60_days':
+                return `≤ ${settings.expiry_warning_days} days`
+            default:
+                return `≤ ${settings.expiry_alert_days} days`
+        }
+    }
 
     // Build filter parameters for expiry alerts query
     // Check if any specific filters are applied
@@ -56,7 +125,7 @@ export default function ExpiryTracking() {
 
         // Only include days restriction if no other filters are applied (for initial load)
         if (!hasSpecificFilters) {
-            params.days = appliedFilters.days
+            params.days = alertDays
         }
 
         // Add other filters if they exist
@@ -71,7 +140,7 @@ export default function ExpiryTracking() {
         currentPage,
         itemsPerPage,
         hasSpecificFilters,
-        appliedFilters.days,
+        alertDays,
         appliedFilters.medicine_name,
         appliedFilters.batch_number,
         appliedFilters.supplier_name,
@@ -81,6 +150,29 @@ export default function ExpiryTracking() {
 
     const { data: expiryResponse, isLoading: alertsLoading } = useGetExpiryAlertsQuery(alertsParams)
 
+    const { data: worklist, isLoading: worklistLoading } = useGetExpiryAlertWorklistQuery({
+        status: worklistStatus,
+        page: worklistPage,
+        limit: 10
+    })
+    const [refreshExpiryAlerts, { isLoading: isRefreshing }] = useRefreshExpiryAlertsMutation()
+    const [updateExpiryAlerts, { isLoading: isUpdatingAlert }] = useUpdateExpiryAlertsMutation()
+
+    // Expired batches still in stock, only loaded while the write-off form is open
+    const { data: expiredResponse, isLoading: expiredLoading } = useGetExpiryAlertsQuery(
+        { status: 'expired', page: 1, limit: 500 },
+        { skip: !showWriteOff }
+    )
+    const { data: destructionRegister, isLoading: registerLoading } = useGetStockDestructionsQuery({
+        page: registerPage,
+        limit: 10
+    })
+    const [createStockDestruction, { isLoading: isWritingOff }] = useCreateStockDestructionMutation()
+
+    const expiredBatches = expiredResponse?.data || []
+    const selectedBatches = expiredBatches.filter(batch => selectedBatchIds.has(batch.id))
+    const selectedLoss = selectedBatches.reduce((sum, batch) => sum + (batch.estimated_loss || 0), 0)
+
     // Extract data and metadata from response
     const expiryAlerts = expiryResponse?.data || []
     const totalResults = expiryResponse?.total || 0
@@ -110,8 +202,7 @@ export default function ExpiryTracking() {
             batch_number: filters.batch_number,
             supplier_name: filters.supplier_name,
             start_date: filters.start_date,
-            end_date: filters.end_date,
-            days: 90 // Keep days for internal logic, but won't be used if other filters are applied
+            end_date: filters.end_date
         })
         setCurrentPage(1) // Reset to first page when applying new filters
     }
@@ -129,8 +220,7 @@ export default function ExpiryTracking() {
             batch_number: '',
             supplier_name: '',
             start_date: '',
-            end_date: '',
-            days: 90 // Reset to 90 days for initial load
+            end_date: ''
         }
         setFilters(defaultFormFilters)
         setAppliedFilters(defaultAppliedFilters)
@@ -156,6 +246,113 @@ export default function ExpiryTracking() {
     const hasNextPage = currentPage < totalPages
     const hasPreviousPage = currentPage > 1
 
+    // Alert worklist handlers
+    const handleRefreshAlerts = async () => {
+        try {
+            const result = await refreshExpiryAlerts().unwrap()
+            alert(`Alerts refreshed: ${result.message}`)
+        } catch (error) {
+            console.error('Failed to refresh expiry alerts:', error)
+            alert('Failed to refresh expiry alerts. Please try again.')
+        }
+    }
+
+    const openAlertAction = (alertRecord: ExpiryAlertRecord, action: 'acknowledge' | 'resolve') => {
+        setPendingAction({ alert: alertRecord, action })
+        setActionNotes(alertRecord.notes || '')
+    }
+
+    const handleConfirmAlertAction = async () => {
+        if (!pendingAction) return
+
+        if (pendingAction.action === 'resolve' && !actionNotes.trim()) {
+            alert('Please add a note describing how the stock was handled')
+            return
+        }
+
+        try {
+            await updateExpiryAlerts({
+                alert_ids: [pendingAction.alert.id],
+                action: pendingAction.action,
+                notes: actionNotes.trim() || undefined
+            }).unwrap()
+            setPendingAction(null)
+            setActionNotes('')
+        } catch (error) {
+            const message = (error as { data?: { error?: string } })?.data?.error
+            console.error('Failed to update expiry alert:', error)
+            alert(message || 'Failed to update expiry alert. Please try again.')
+        }
+    }
+
+    const handleReopenAlert = async (alertRecord: ExpiryAlertRecord) => {
+        try {
+            await updateExpiryAlerts({ alert_ids: [alertRecord.id], action: 'reopen' }).unwrap()
+        } catch (error) {
+            console.error('Failed to re-open expiry alert:', error)
+            alert('Failed to re-open expiry alert. Please try again.')
+        }
+    }
+
+    // Expired stock write-off handlers
+    const openWriteOff = () => {
+        setWriteOffForm({ ...EMPTY_WRITE_OFF_FORM, destruction_date: new Date().toISOString().split('T')[0] })
+        setSelectedBatchIds(new Set())
+        setShowWriteOff(true)
+    }
+
+    const toggleBatch = (id: string) => {
+        setSelectedBatchIds(prev => {
+            const next = new Set(prev)
+            if (next.has(id)) {
+                next.delete(id)
+            } else {
+                next.add(id)
+            }
+            return next
+        })
+    }
+
+    const toggleAllBatches = () => {
+        setSelectedBatchIds(selectedBatches.length === expiredBatches.length
+            ? new Set()
+            : new Set(expiredBatches.map(batch => batch.id)))
+    }
+
+    const handleWriteOff = async () => {
+        if (selectedBatches.length === 0) {
+            alert('Select at least one expired batch to write off')
+            return
+        }
+
+        if (!writeOffForm.witness_name.trim()) {
+            alert('Please enter the name of the witness to the destruction')
+            return
+        }
+
+        try {
+            const result = await createStockDestruction({
+                inventory_ids: selectedBatches.map(batch => batch.id),
+                destruction_date: writeOffForm.destruction_date,
+                witness_name: writeOffForm.witness_name.trim(),
+                witness_designation: writeOffForm.witness_designation.trim() || undefined,
+                method: writeOffForm.method.trim() || undefined,
+                notes: writeOffForm.notes.trim() || undefined
+            }).unwrap()
+            setShowWriteOff(false)
+            setSelectedBatchIds(new Set())
+            setRegisterPage(1)
+            if (result.destruction) {
+                downloadDestructionCertificatePDF(result.destruction, settings.currency)
+            }
+            alert(result.message)
+        } catch (error) {
+            const data = (error as { data?: { error?: string; details?: string } })?.data
+            console.error('Failed to write off expired stock:', error)
+            alert(data?.details || data?.error || 'Failed to write off expired stock. Please try again.')
+        }
+    }
+
     // PDF Download Function
     const downloadExpiryDataAsPDF = async () => {
         if (isDownloading) return
@@ -179,7 +376,7 @@ export default function ExpiryTracking() {
             
             // Only include days restriction if no other filters are applied
             if (!hasSpecificFilters) {
-                params.append('days', appliedFilters.days.toString())
+                params.append('days', alertDays.toString())
             }
             
             // Get the current session and add auth header
@@ -192,10 +389,10 @@ export default function ExpiryTracking() {
             
             const response = await fetch(`/api/expiry?${params.toString()}`, {
                 credentials: 'include',
-                headers: {
+                headers: withActivePharmacy({
                     'Content-Type': 'application/json',
                     'Authorization': `Bearer ${session.access_token}`
-                }
+                })
             })
             
             if (!response.ok) {
@@ -239,11 +436,7 @@ export default function ExpiryTracking() {
             doc.text(`Total Records: ${allData.total}`, 20, 46)
             
             // Format currency properly
-            const formattedValueAtRisk = new Intl.NumberFormat('en-IN', {
-                style: 'currency',
-                currency: 'INR',
-                maximumFractionDigits: 0
-            }).format(allData.totalValueAtRisk || 0)
+            const formattedValueAtRisk = formatCurrency(allData.totalValueAtRisk || 0, settings.currency, 0)
             doc.text(`Total Value at Risk: ${formattedValueAtRisk}`, 20, 52)
             
             // Add filters info with better formatting
@@ -283,7 +476,7 @@ export default function ExpiryTracking() {
                     yPosition += 5
                 }
             } else {
-                doc.text(`• Showing medicines expiring in next ${appliedFilters.days} days`, 25, yPosition)
+                doc.text(`• Showing medicines expiring in next ${alertDays} days`, 25, yPosition)
                 yPosition += 5
             }
             
@@ -301,17 +494,9 @@ export default function ExpiryTracking() {
                 
                 // Format currency values properly
                 const sellingRate = item.quantity > 0 ? (item.estimated_loss / item.quantity) : 0
-                const formattedSellingRate = new Intl.NumberFormat('en-IN', {
-                    style: 'currency',
-                    currency: 'INR',
-                    minimumFractionDigits: 2
-                }).format(sellingRate)
+                const formattedSellingRate = formatCurrency(sellingRate, settings.currency)
                 
-                const formattedMRP = new Intl.NumberFormat('en-IN', {
-                    style: 'currency',
-                    currency: 'INR',
-                    minimumFractionDigits: 2
-                }).format(item.mrp || 0)
+                const formattedMRP = formatCurrency(item.mrp || 0, settings.currency)
                 
                 // Format expiry date
                 const formattedExpiryDate = new Date(item.expiry_date).toLocaleDateString('en-IN')
@@ -413,27 +598,27 @@ export default function ExpiryTracking() {
                         {isLoading ? (
                             <div className="animate-pulse bg-gray-200 h-6 sm:h-8 w-6 sm:w-8 rounded"></div>
                         ) : (
-                            expiryStats?.expiringIn30Days || 0
+                            expiryStats?.expiringCritical || 0
                         )}
                     </div>
-                    <div className="text-xs sm:text-sm text-gray-600 mt-1">Expiring in 30 Days</div>
+                    <div className="text-xs sm:text-sm text-gray-600 mt-1">Expiring in {settings.expiry_critical_days} Days</div>
                 </div>
                 <div className="bg-white p-3 sm:p-4 rounded-lg border border-gray-200">
                     <div className="text-xl sm:text-2xl font-bold text-yellow-600">
                         {isLoading ? (
                             <div className="animate-pulse bg-gray-200 h-6 sm:h-8 w-6 sm:w-8 rounded"></div>
                         ) : (
-                            expiryStats?.expiringIn90Days || 0
+                            expiryStats?.expiringInAlertWindow || 0
                         )}
                     </div>
-                    <div className="text-xs sm:text-sm text-gray-600 mt-1">Expiring in 90 Days</div>
+                    <div className="text-xs sm:text-sm text-gray-600 mt-1">Expiring in {alertDays} Days</div>
                 </div>
                 <div className="bg-white p-3 sm:p-4 rounded-lg border border-gray-200">
                     <div className="text-xl sm:text-2xl font-bold text-blue-600">
                         {alertsLoading ? (
                             <div className="animate-pulse bg-gray-200 h-6 sm:h-8 w-12 sm:w-16 rounded"></div>
                         ) : (
-                            `₹${totalValueAtRisk.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`
+                            formatCurrency(totalValueAtRisk, settings.currency, 0)
                         )}
                     </div>
                     <div className="text-xs sm:text-sm text-gray-600 mt-1">
@@ -447,6 +632,270 @@ export default function ExpiryTracking() {
                 </div>
             </div>
 
+            {/* Expiry Alert Worklist */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3 sm:mb-4">
+                    <div>
+                        <h3 className="text-base sm:text-lg font-semibold text-gray-900">Expiry To-Do</h3>
+                        <p className="text-xs sm:text-sm text-gray-600">Acknowledge alerts you are handling and resolve them once the stock is returned, sold or written off</p>
+                    </div>
+                    <button
+                        onClick={handleRefreshAlerts}
+                        disabled={isRefreshing}
+                        className="w-full sm:w-auto px-4 py-2 text-xs sm:text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+                    >
+                        {isRefreshing ? 'Refreshing...' : 'Refresh Alerts'}
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-3 sm:mb-4">
+                    {WORKLIST_TABS.map(tab => {
+                        const count = tab.value === 'open'
+                            ? (worklist?.counts.active || 0) + (worklist?.counts.acknowledged || 0)
+                            : worklist?.counts[tab.value] || 0
+                        return (
+                            <button
+                                key={tab.value}
+                                onClick={() => {
+                                    setWorklistStatus(tab.value)
+                                    setWorklistPage(1)
+                                }}
+                                className={`px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium transition-colors ${worklistStatus === tab.value
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                    }`}
+                            >
+                                {tab.label} ({count})
+                            </button>
+                        )
+                    })}
+                </div>
+
+                <div className="overflow-x-auto -mx-3 sm:-mx-4 md:-mx-6">
+                    <div className="inline-block min-w-full align-middle px-3 sm:px-4 md:px-6">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Medicine</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Batch</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Expiry</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Stock</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Status</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Notes</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {worklistLoading ? (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={7} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        Loading alerts...
+                                    </td>
+                                </tr>
+                            ) : worklist && worklist.data.length > 0 ? (
+                                worklist.data.map(alertRecord => (
+                                    <tr key={alertRecord.id} className="border-t border-gray-200 hover:bg-gray-50">
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm font-medium text-gray-900">
+                                            <div className="min-w-[140px] break-words">{alertRecord.medicine_name}</div>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{alertRecord.batch_number}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">
+                                            {new Date(alertRecord.expiry_date).toLocaleDateString('en-IN')}
+                                            <div>
+                                                <span className={`inline-flex px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium ${ALERT_TYPE_STYLES[alertRecord.alert_type]}`}>
+                                                    {getAlertTypeLabel(alertRecord.alert_type)}
+                                                </span>
+                                            </div>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">
+                                            {alertRecord.current_stock}
+                                            <div className="text-xs text-gray-500">{formatCurrency(alertRecord.estimated_loss || 0, settings.currency, 0)}</div>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm whitespace-nowrap">
+                                            <span className={`inline-flex px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium ${alertRecord.status === 'active'
+                                                ? 'bg-red-50 text-red-700'
+                                                : alertRecord.status === 'acknowledged' ? 'bg-amber-50 text-amber-700' : 'bg-green-100 text-green-800'
+                                                }`}>
+                                                {alertRecord.status === 'active' ? 'New' : alertRecord.status === 'acknowledged' ? 'Acknowledged' : 'Resolved'}
+                                            </span>
+                                            {(alertRecord.resolved_at || alertRecord.acknowledged_at) && (
+                                                <div className="text-xs text-gray-500 mt-0.5">
+                                                    {new Date((alertRecord.status === 'resolved' ? alertRecord.resolved_at : alertRecord.acknowledged_at) || alertRecord.updated_at).toLocaleDateString('en-IN')}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-700">
+                                            <div className="min-w-[140px] max-w-xs whitespace-pre-line break-words">{alertRecord.notes || '-'}</div>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            <div className="flex gap-2 sm:gap-3">
+                                                {alertRecord.status === 'active' && (
+                                                    <button
+                                                        onClick={() => openAlertAction(alertRecord, 'acknowledge')}
+                                                        className="text-amber-600 hover:text-amber-800 font-medium"
+                                                    >
+                                                        Acknowledge
+                                                    </button>
+                                                )}
+                                                {alertRecord.status !== 'resolved' ? (
+                                                    <button
+                                                        onClick={() => openAlertAction(alertRecord, 'resolve')}
+                                                        className="text-green-600 hover:text-green-800 font-medium"
+                                                    >
+                                                        Resolve
+                                                    </button>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => handleReopenAlert(alertRecord)}
+                                                        disabled={isUpdatingAlert}
+                                                        className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                                                    >
+                                                        Re-open
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))
+                            ) : (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={7} className="px-3 sm:px-4 py-6 sm:py-8 text-center text-xs sm:text-sm text-gray-500">
+                                        {worklistStatus === 'resolved' ? 'No resolved alerts yet.' : 'Nothing to do. Use Refresh Alerts to pick up newly expiring stock.'}
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                    </div>
+                </div>
+
+                {worklist && worklist.totalPages > 1 && (
+                    <div className="mt-3 sm:mt-4 flex items-center justify-between gap-3 border-t border-gray-200 pt-3 sm:pt-4 text-xs sm:text-sm text-gray-700">
+                        <span>Page {worklistPage} of {worklist.totalPages} ({worklist.total} alerts)</span>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setWorklistPage(page => Math.max(page - 1, 1))}
+                                disabled={worklistPage === 1}
+                                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Previous
+                            </button>
+                            <button
+                                onClick={() => setWorklistPage(page => page + 1)}
+                                disabled={worklistPage >= worklist.totalPages}
+                                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Next
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Destruction Register */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-3 sm:mb-4">
+                    <div>
+                        <h3 className="text-base sm:text-lg font-semibold text-gray-900">Destruction Register</h3>
+                        <p className="text-xs sm:text-sm text-gray-600">
+                            Expired stock written off and destroyed
+                            {destructionRegister && destructionRegister.total > 0 && (
+                                <> • {destructionRegister.totals.quantity} units, {formatCurrency(destructionRegister.totals.loss, settings.currency, 0)} lost at purchase rate</>
+                            )}
+                        </p>
+                    </div>
+                    {can('stock_destructions.create') && (
+                        <button
+                            onClick={openWriteOff}
+                            className="w-full sm:w-auto px-4 py-2 text-xs sm:text-sm bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors whitespace-nowrap"
+                        >
+                            Write Off Expired Stock
+                        </button>
+                    )}
+                </div>
+
+                <div className="overflow-x-auto -mx-3 sm:-mx-4 md:-mx-6">
+                    <div className="inline-block min-w-full align-middle px-3 sm:px-4 md:px-6">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Destruction No.</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Date</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Witness</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Method</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Batches</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Quantity</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Loss</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Certificate</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {registerLoading ? (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={8} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        Loading destruction register...
+                                    </td>
+                                </tr>
+                            ) : destructionRegister && destructionRegister.data.length > 0 ? (
+                                destructionRegister.data.map(destruction => (
+                                    <tr key={destruction.id} className="border-t border-gray-200 hover:bg-gray-50">
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap font-medium">{destruction.destruction_number}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{new Date(destruction.destruction_date).toLocaleDateString('en-IN')}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                            <div className="min-w-[120px] break-words">{destruction.witness_name}</div>
+                                            {destruction.witness_designation && (
+                                                <div className="text-xs text-gray-500">{destruction.witness_designation}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-700">{destruction.method || '-'}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{destruction.stock_destruction_items.length}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{destruction.total_quantity}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatCurrency(destruction.total_loss, settings.currency)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            <button
+                                                onClick={() => downloadDestructionCertificatePDF(destruction, settings.currency)}
+                                                className="text-blue-600 hover:text-blue-800 font-medium whitespace-nowrap"
+                                            >
+                                                Download PDF
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))
+                            ) : (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={8} className="px-3 sm:px-4 py-6 sm:py-8 text-center text-xs sm:text-sm text-gray-500">
+                                        No expired stock has been written off yet.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                    </div>
+                </div>
+
+                {destructionRegister && destructionRegister.totalPages > 1 && (
+                    <div className="mt-3 sm:mt-4 flex items-center justify-between gap-3 border-t border-gray-200 pt-3 sm:pt-4 text-xs sm:text-sm text-gray-700">
+                        <span>Page {registerPage} of {destructionRegister.totalPages} ({destructionRegister.total} destructions)</span>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setRegisterPage(page => Math.max(page - 1, 1))}
+                                disabled={registerPage === 1}
+                                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Previous
+                            </button>
+                            <button
+                                onClick={() => setRegisterPage(page => page + 1)}
+                                disabled={registerPage >= destructionRegister.totalPages}
+                                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Next
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
             {/* Filter Section */}
             <div className="bg-white rounded-lg border border-gray-200 p-4 sm:p-5 md:p-6">
                 <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">Filter Expiry Alerts</h3>
@@ -502,7 +951,7 @@ export default function ExpiryTracking() {
                         {alertsLoading ? 'Searching...' : `Found ${expiryAlerts.length} results`}
                         {!hasSpecificFilters && (
                             <span className="block sm:inline sm:ml-2 text-blue-600 text-xs sm:text-sm">
-                                • Showing next 90 days
+                                • Showing next {alertDays} days
                             </span>
                         )}
                         {hasSpecificFilters && (
@@ -686,10 +1135,10 @@ export default function ExpiryTracking() {
                                                 </div>
                                             </td>
                                             <td className="px-2 sm:px-4 md:px-6 py-3 sm:py-4 whitespace-nowrap text-xs sm:text-sm text-gray-500">
-                                                <div className="min-w-[60px]">₹{item.quantity > 0 ? (item.estimated_loss / item.quantity).toFixed(2) : '0.00'}</div>
+                                                <div className="min-w-[60px]">{formatCurrency(item.quantity > 0 ? item.estimated_loss / item.quantity : 0, settings.currency)}</div>
                                             </td>
                                             <td className="px-2 sm:px-4 md:px-6 py-3 sm:py-4 whitespace-nowrap text-xs sm:text-sm text-gray-500">
-                                                <div className="min-w-[60px]">₹{item.mrp?.toFixed(2) || '0.00'}</div>
+                                                <div className="min-w-[60px]">{formatCurrency(item.mrp || 0, settings.currency)}</div>
                                             </td>
                                         </tr>
                                     )
@@ -758,6 +1207,201 @@ export default function ExpiryTracking() {
                     </div>
                 )}
             </div>
+
+            {/* Alert Action Modal */}
+            {pendingAction && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+                        <div className="p-4 sm:p-6">
+                            <h3 className="text-base sm:text-lg font-medium text-gray-900">
+                                {pendingAction.action === 'acknowledge' ? 'Acknowledge Alert' : 'Resolve Alert'}
+                            </h3>
+                            <p className="text-xs sm:text-sm text-gray-600 mb-4">
+                                {pendingAction.alert.medicine_name} • Batch {pendingAction.alert.batch_number} • {pendingAction.alert.current_stock} in stock
+                            </p>
+                            <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                                Notes {pendingAction.action === 'resolve' ? '*' : '(optional)'}
+                            </label>
+                            <textarea
+                                value={actionNotes}
+                                onChange={(e) => setActionNotes(e.target.value)}
+                                rows={3}
+                                placeholder={pendingAction.action === 'resolve'
+                                    ? 'e.g. Returned to supplier on debit note DN-0012'
+                                    : 'e.g. Moved to front shelf, will call supplier for return'}
+                                className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-4 sm:mb-6"
+                            />
+                            <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3">
+                                <button
+                                    onClick={() => setPendingAction(null)}
+                                    disabled={isUpdatingAlert}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 order-2 sm:order-1"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleConfirmAlertAction}
+                                    disabled={isUpdatingAlert}
+                                    className={`w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-white rounded-md transition-colors disabled:opacity-50 order-1 sm:order-2 ${pendingAction.action === 'acknowledge' ? 'bg-amber-600 hover:bg-amber-700' : 'bg-green-600 hover:bg-green-700'}`}
+                                >
+                                    {isUpdatingAlert ? 'Saving...' : pendingAction.action === 'acknowledge' ? 'Acknowledge' : 'Mark Resolved'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Write-off Modal */}
+            {showWriteOff && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+                        <div className="p-4 sm:p-6">
+                            <h3 className="text-base sm:text-lg font-medium text-gray-900">Write Off Expired Stock</h3>
+                            <p className="text-xs sm:text-sm text-gray-600 mb-4">
+                                The whole remaining stock of each selected batch is taken out of inventory and recorded as destroyed. The loss is booked at purchase rate.
+                            </p>
+
+                            <div className="border border-gray-200 rounded-md overflow-x-auto mb-4">
+                                <table className="min-w-full table-auto">
+                                    <thead>
+                                        <tr className="bg-gray-50">
+                                            <th className="px-2 sm:px-3 py-2 text-left">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={expiredBatches.length > 0 && selectedBatches.length === expiredBatches.length}
+                                                    onChange={toggleAllBatches}
+                                                    disabled={expiredBatches.length === 0}
+                                                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                                />
+                                            </th>
+                                            <th className="px-2 sm:px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Medicine</th>
+                                            <th className="px-2 sm:px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Batch</th>
+                                            <th className="px-2 sm:px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Expiry</th>
+                                            <th className="px-2 sm:px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Stock</th>
+                                            <th className="px-2 sm:px-3 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Loss</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {expiredLoading ? (
+                                            <tr className="border-t border-gray-200">
+                                                <td colSpan={6} className="px-3 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                                    Loading expired batches...
+                                                </td>
+                                            </tr>
+                                        ) : expiredBatches.length > 0 ? (
+                                            expiredBatches.map(batch => (
+                                                <tr
+                                                    key={batch.id}
+                                                    onClick={() => toggleBatch(batch.id)}
+                                                    className={`border-t border-gray-200 cursor-pointer ${selectedBatchIds.has(batch.id) ? 'bg-red-50' : 'hover:bg-gray-50'}`}
+                                                >
+                                                    <td className="px-2 sm:px-3 py-2">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={selectedBatchIds.has(batch.id)}
+                                                            onChange={() => toggleBatch(batch.id)}
+                                                            onClick={(e) => e.stopPropagation()}
+                                                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                                        />
+                                                    </td>
+                                                    <td className="px-2 sm:px-3 py-2 text-xs sm:text-sm text-gray-900">
+                                                        <div className="min-w-[120px] break-words">{batch.medicine_name}</div>
+                                                        {batch.supplier_name && <div className="text-xs text-gray-500">{batch.supplier_name}</div>}
+                                                    </td>
+                                                    <td className="px-2 sm:px-3 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{batch.batch_number}</td>
+                                                    <td className="px-2 sm:px-3 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{new Date(batch.expiry_date).toLocaleDateString('en-IN')}</td>
+                                                    <td className="px-2 sm:px-3 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{batch.current_stock}</td>
+                                                    <td className="px-2 sm:px-3 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap text-right">{formatCurrency(batch.estimated_loss || 0, settings.currency)}</td>
+                                                </tr>
+                                            ))
+                                        ) : (
+                                            <tr className="border-t border-gray-200">
+                                                <td colSpan={6} className="px-3 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                                    No expired batches are left in stock.
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <div className="flex items-center justify-between text-xs sm:text-sm text-gray-700 mb-4">
+                                <span>{selectedBatches.length} of {expiredBatches.length} batches selected</span>
+                                <span className="font-medium text-red-700">Loss: {formatCurrency(selectedLoss, settings.currency)}</span>
+                            </div>
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-4 sm:mb-6">
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Destruction Date *</label>
+                                    <input
+                                        type="date"
+                                        value={writeOffForm.destruction_date}
+                                        max={new Date().toISOString().split('T')[0]}
+                                        onChange={(e) => setWriteOffForm({ ...writeOffForm, destruction_date: e.target.value })}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Method</label>
+                                    <input
+                                        type="text"
+                                        value={writeOffForm.method}
+                                        onChange={(e) => setWriteOffForm({ ...writeOffForm, method: e.target.value })}
+                                        placeholder="e.g. Incineration through biomedical waste agency"
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Witness Name *</label>
+                                    <input
+                                        type="text"
+                                        value={writeOffForm.witness_name}
+                                        onChange={(e) => setWriteOffForm({ ...writeOffForm, witness_name: e.target.value })}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Witness Designation</label>
+                                    <input
+                                        type="text"
+                                        value={writeOffForm.witness_designation}
+                                        onChange={(e) => setWriteOffForm({ ...writeOffForm, witness_designation: e.target.value })}
+                                        placeholder="e.g. Registered Pharmacist"
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                                <div className="sm:col-span-2">
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+                                    <textarea
+                                        value={writeOffForm.notes}
+                                        onChange={(e) => setWriteOffForm({ ...writeOffForm, notes: e.target.value })}
+                                        rows={2}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3">
+                                <button
+                                    onClick={() => setShowWriteOff(false)}
+                                    disabled={isWritingOff}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 order-2 sm:order-1"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleWriteOff}
+                                    disabled={isWritingOff || selectedBatches.length === 0}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                                >
+                                    {isWritingOff ? 'Writing off...' : `Write Off ${selectedBatches.length} Batch${selectedBatches.length === 1 ? '' : 'es'}`}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     )
-} 
\ No newline at end of file
+}
@@ -1,17 +1,45 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useSearchPurchasesQuery, useUpdatePurchaseItemMutation, useDeletePurchaseItemMutation, useGetPurchasesStatsQuery, useGetSuppliersQuery, useUpdateSupplierMutation, type PurchaseSearchResult } from '@/lib/store/api/pharmacyApi'
+import { useSearchPurchasesQuery, useUpdatePurchaseItemMutation, useDeletePurchaseItemMutation, useGetPurchasesStatsQuery, useGetSuppliersQuery, useUpdateSupplierMutation, useUpdateStockMutation, useCreatePurchaseReturnMutation, useGetPharmacySettingsQuery, type PurchaseSearchResult, type PurchaseSearchSort } from '@/lib/store/api/pharmacyApi'
+import { downloadDebitNotePDF } from '@/lib/pdf/debit-note'
 import AutocompleteDropdown from '@/components/ui/AutocompleteDropdown'
 import { supabase } from '@/lib/supabase'
+import { withActivePharmacy } from '@/lib/auth/active-pharmacy'
+import { useAuth } from '@/lib/auth/AuthContext'
+
+// Every search filter as typed; amounts are the invoice total
+const EMPTY_FILTERS = {
+    medicine_name: '',
+    supplier_name: '',
+    batch_number: '',
+    date: '',
+    date_from: '',
+    date_to: '',
+    min_amount: '',
+    max_amount: '',
+    expiry_from: '',
+    expiry_to: ''
+}
+
+// Sort choices offered for the search results
+const SORT_OPTIONS: { value: PurchaseSearchSort; label: string }[] = [
+    { value: 'created_at', label: 'Entry time' },
+    { value: 'purchase_date', label: 'Purchase date' },
+    { value: 'expiry_date', label: 'Expiry date' },
+    { value: 'medicine_name', label: 'Medicine name' },
+    { value: 'supplier_name', label: 'Supplier name' },
+    { value: 'total_amount', label: 'Invoice total' }
+]
 
 export default function InventoryManagement() {
-    const [filters, setFilters] = useState({
-        medicine_name: '',
-        supplier_name: '',
-        batch_number: '',
-        date: ''
+    const { can } = useAuth()
+    const [filters, setFilters] = useState(EMPTY_FILTERS)
+    const [sort, setSort] = useState<{ sort_by: PurchaseSearchSort; sort_order: 'asc' | 'desc' }>({
+        sort_by: 'created_at',
+        sort_order: 'desc'
     })
+    const [showMoreFilters, setShowMoreFilters] = useState(false)
 
     // Debounced filters state
     const [debouncedFilters, setDebouncedFilters] = useState(filters)
@@ -55,13 +83,50 @@ export default function InventoryManagement() {
         items: []
     })
 
+    // Stock adjustment state
+    const [stockAdjustment, setStockAdjustment] = useState<{
+        isOpen: boolean
+        item: PurchaseSearchResult | null
+        operation: 'add' | 'subtract'
+        adjustment_type: 'adjustment' | 'damaged'
+        quantity: string
+        reason: string
+        notes: string
+    }>({
+        isOpen: false,
+        item: null,
+        operation: 'subtract',
+        adjustment_type: 'adjustment',
+        quantity: '',
+        reason: 'Count correction',
+        notes: ''
+    })
+
+    // Purchase return (debit note) state
+    const [purchaseReturn, setPurchaseReturn] = useState<{
+        isOpen: boolean
+        item: PurchaseSearchResult | null
+        quantity: string
+        reason: string
+        notes: string
+    }>({
+        isOpen: false,
+        item: null,
+        quantity: '',
+        reason: 'Near expiry',
+        notes: ''
+    })
+
     // RTK Query mutations and queries
     const [updatePurchaseItem, { isLoading: isUpdating }] = useUpdatePurchaseItemMutation()
     const [deletePurchaseItem, { isLoading: isDeleting }] = useDeletePurchaseItemMutation()
     const [updateSupplier, { isLoading: isUpdatingSupplier }] = useUpdateSupplierMutation()
+    const [updateStock, { isLoading: isAdjustingStock }] = useUpdateStockMutation()
+    const [createPurchaseReturn, { isLoading: isReturning }] = useCreatePurchaseReturnMutation()
 
     // Add purchases stats query to trigger refetch after operations
     const { refetch: refetchStats } = useGetPurchasesStatsQuery()
+    const { data: pharmacySettings } = useGetPharmacySettingsQuery()
     const { data: suppliers = [] } = useGetSuppliersQuery(
         debouncedSupplierSearch ? { search: debouncedSupplierSearch } : undefined
     )
@@ -94,19 +159,29 @@ export default function InventoryManagement() {
         ...(debouncedFilters.supplier_name && { supplier_name: debouncedFilters.supplier_name }),
         ...(debouncedFilters.batch_number && { batch_number: debouncedFilters.batch_number }),
         ...(debouncedFilters.date && { date: debouncedFilters.date }),
+        ...(debouncedFilters.date_from && { date_from: debouncedFilters.date_from }),
+        ...(debouncedFilters.date_to && { date_to: debouncedFilters.date_to }),
+        ...(debouncedFilters.min_amount && { min_amount: parseFloat(debouncedFilters.min_amount) }),
+        ...(debouncedFilters.max_amount && { max_amount: parseFloat(debouncedFilters.max_amount) }),
+        ...(debouncedFilters.expiry_from && { expiry_from: debouncedFilters.expiry_from }),
+        ...(debouncedFilters.expiry_to && { expiry_to: debouncedFilters.expiry_to }),
+        ...sort,
         page: currentPage,
         limit: pageSize
     } : undefined
 
     // RTK Query hook - only runs when searchParams is defined
-    const { data: searchResults = [], isLoading, error, refetch } = useSearchPurchasesQuery(searchParams || {}, {
+    const { data: searchResponse, isLoading, error, refetch } = useSearchPurchasesQuery(searchParams || {}, {
         skip: !hasFilters
     })
+    const searchResults = searchResponse?.data ?? []
+    const totalResults = searchResponse?.total ?? 0
+    const totalPages = searchResponse?.totalPages ?? 1
 
     // Clear selection when filters change or page changes
     useEffect(() => {
         handleClearSelection()
-    }, [debouncedFilters, currentPage])
+    }, [debouncedFilters, currentPage, sort])
 
     const handleFilterChange = (field: string, value: string) => {
         setFilters({
@@ -116,18 +191,13 @@ export default function InventoryManagement() {
     }
 
     const clearFilters = () => {
-        setFilters({
-            medicine_name: '',
-            supplier_name: '',
-            batch_number: '',
-            date: ''
-        })
-        setDebouncedFilters({
-            medicine_name: '',
-            supplier_name: '',
-            batch_number: '',
-            date: ''
-        })
+        setFilters(EMPTY_FILTERS)
+        setDebouncedFilters(EMPTY_FILTERS)
+        setCurrentPage(1)
+    }
+
+    const handleSortChange = (changes: Partial<typeof sort>) => {
+        setSort({ ...sort, ...changes })
         setCurrentPage(1)
     }
 
@@ -142,7 +212,7 @@ export default function InventoryManagement() {
     }
 
     const handleNextPage = () => {
-        if (searchResults.length === pageSize) { // If we got full page, there might be more
+        if (currentPage < totalPages) {
             setCurrentPage(currentPage + 1)
         }
     }
@@ -262,6 +332,100 @@ export default function InventoryManagement() {
         setDeleteConfirmation({ isOpen: false, itemId: '', medicineName: '' })
     }
 
+    // Stock adjustment handlers
+    const handleAdjustClick = (item: PurchaseSearchResult) => {
+        setStockAdjustment({
+            isOpen: true,
+            item,
+            operation: 'subtract',
+            adjustment_type: 'adjustment',
+            quantity: '',
+            reason: 'Count correction',
+            notes: ''
+        })
+    }
+
+    const handleAdjustCancel = () => {
+        setStockAdjustment(prev => ({ ...prev, isOpen: false, item: null }))
+    }
+
+    const handleAdjustConfirm = async () => {
+        const item = stockAdjustment.item
+        const quantity = parseInt(stockAdjustment.quantity)
+        if (!item || !quantity || quantity <= 0) {
+            alert('Please enter a valid quantity')
+            return
+        }
+
+        try {
+            const result = await updateStock({
+                medicine_name: item.medicine_name,
+                batch_number: item.batch_number,
+                expiry_date: item.expiry_date ? item.expiry_date.split('T')[0] : undefined,
+                quantity,
+                operation: stockAdjustment.adjustment_type === 'damaged' ? 'subtract' : stockAdjustment.operation,
+                adjustment_type: stockAdjustment.adjustment_type,
+                reason: stockAdjustment.reason,
+                notes: stockAdjustment.notes || undefined
+            }).unwrap()
+
+            handleAdjustCancel()
+            alert(`✅ ${result.message}`)
+        } catch (error) {
+            console.error('Stock adjustment failed:', error)
+            const message = (error as { data?: { error?: string } })?.data?.error
+            alert(message ? `❌ ${message}` : 'Failed to adjust stock. Please try again.')
+        }
+    }
+
+    // Purchase return handlers
+    const handleReturnClick = (item: PurchaseSearchResult) => {
+        setPurchaseReturn({
+            isOpen: true,
+            item,
+            quantity: '',
+            reason: 'Near expiry',
+            notes: ''
+        })
+    }
+
+    const handleReturnCancel = () => {
+        setPurchaseReturn(prev => ({ ...prev, isOpen: false, item: null }))
+    }
+
+    const handleReturnConfirm = async () => {
+        const item = purchaseReturn.item
+        const quantity = parseInt(purchaseReturn.quantity)
+        if (!item?.purchase_item_id) {
+            alert('Cannot return: Purchase item ID not found')
+            return
+        }
+        if (!quantity || quantity <= 0) {
+            alert('Please enter a valid quantity')
+            return
+        }
+
+        try {
+            const debitNote = await createPurchaseReturn({
+                reason: purchaseReturn.reason,
+                notes: purchaseReturn.notes || undefined,
+                items: [{ purchase_item_id: item.purchase_item_id, quantity, reason: purchaseReturn.reason }]
+            }).unwrap()
+
+            handleReturnCancel()
+            if (hasFilters) {
+                refetch()
+            }
+            downloadDebitNotePDF(debitNote, debitNote.supplier_balance?.outstanding_balance, pharmacySettings?.currency)
+            alert(`✅ Debit note ${debitNote.debit_note_number} created for ₹${debitNote.total_amount.toLocaleString('en-IN')}`)
+        } catch (error) {
+            console.error('Purchase return failed:', error)
+            const data = (error as { data?: { error?: string; details?: { error: string }[] } })?.data
+            const details = data?.details?.map(d => d.error).join('\n')
+            alert(data?.error ? `❌ ${data.error}${details ? `\n\n${details}` : ''}` : 'Failed to create purchase return. Please try again.')
+        }
+    }
+
     // Multi-select handlers
     const handleSelectAll = () => {
         if (isSelectAllChecked) {
@@ -314,9 +478,9 @@ export default function InventoryManagement() {
         try {
             // Get auth token for the request
             const { data: { session } } = await supabase.auth.getSession()
-            const headers: HeadersInit = {
+            const headers: HeadersInit = withActivePharmacy({
                 'Content-Type': 'application/json',
-            }
+            })
             
             if (session?.access_token) {
                 headers['Authorization'] = `Bearer ${session.access_token}`
@@ -438,103 +602,105 @@ export default function InventoryManagement() {
             </div>
 
             {/* Supplier Editing Section */}
-            <div className="bg-blue-50 rounded-lg border border-blue-200 p-3 sm:p-4">
-                <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center space-x-2">
-                        <div className="w-7 h-7 sm:w-8 sm:h-8 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
-                            <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-4m-5 0H3m2 0h3M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
-                            </svg>
-                        </div>
-                        <div className="min-w-0 flex-1">
-                            <h3 className="text-xs sm:text-sm font-medium text-blue-900">Quick Supplier Edit</h3>
-                            <p className="text-xs text-blue-700 hidden sm:block">Update supplier names across all purchase records</p>
+            {can('suppliers.manage') && (
+                <div className="bg-blue-50 rounded-lg border border-blue-200 p-3 sm:p-4">
+                    <div className="flex items-center justify-between mb-3">
+                        <div className="flex items-center space-x-2">
+                            <div className="w-7 h-7 sm:w-8 sm:h-8 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
+                                <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-4m-5 0H3m2 0h3M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+                                </svg>
+                            </div>
+                            <div className="min-w-0 flex-1">
+                                <h3 className="text-xs sm:text-sm font-medium text-blue-900">Quick Supplier Edit</h3>
+                                <p className="text-xs text-blue-700 hidden sm:block">Update supplier names across all purchase records</p>
+                            </div>
                         </div>
                     </div>
-                </div>
 
-                {!supplierEditMode ? (
-                    <div className="relative">
-                        <div className="flex items-center space-x-2 sm:space-x-3">
-                            <div className="flex-1 relative">
-                                <input
-                                    type="text"
-                                    value={supplierSearchTerm}
-                                    onChange={(e) => handleSupplierSearchChange(e.target.value)}
-                                    onFocus={() => setShowSupplierDropdown(supplierSearchTerm.length > 0)}
-                                    onBlur={handleSupplierSearchBlur}
-                                    placeholder="Search suppliers to edit..."
-                                    className="w-full px-2 sm:px-3 py-2 text-xs sm:text-sm text-gray-900 placeholder-gray-500 border border-blue-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
-                                />
+                    {!supplierEditMode ? (
+                        <div className="relative">
+                            <div className="flex items-center space-x-2 sm:space-x-3">
+                                <div className="flex-1 relative">
+                                    <input
+                                        type="text"
+                                        value={supplierSearchTerm}
+                                        onChange={(e) => handleSupplierSearchChange(e.target.value)}
+                                        onFocus={() => setShowSupplierDropdown(supplierSearchTerm.length > 0)}
+                                        onBlur={handleSupplierSearchBlur}
+                                        placeholder="Search suppliers to edit..."
+                                        className="w-full px-2 sm:px-3 py-2 text-xs sm:text-sm text-gray-900 placeholder-gray-500 border border-blue-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                                    />
 
-                                {/* Search Results Dropdown */}
-                                {showSupplierDropdown && (
-                                    <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-blue-300 rounded-md shadow-lg z-10 max-h-48 sm:max-h-60 overflow-y-auto">
-                                        {suppliers.length > 0 ? (
-                                            suppliers.map((supplier) => (
-                                                <button
-                                                    key={supplier.id}
-                                                    onClick={() => handleSupplierSelect(supplier)}
-                                                    className="w-full px-2 sm:px-3 py-2 text-left text-xs sm:text-sm hover:bg-blue-50 focus:bg-blue-50 focus:outline-none border-b border-gray-100 last:border-b-0"
-                                                >
-                                                    <div className="font-medium text-gray-900 truncate">{supplier.name}</div>
-                                                </button>
-                                            ))
-                                        ) : supplierSearchTerm.length > 0 ? (
-                                            <div className="px-2 sm:px-3 py-3 sm:py-4 text-xs sm:text-sm text-gray-500 text-center">
-                                                No suppliers found matching "{supplierSearchTerm}"
-                                            </div>
-                                        ) : (
-                                            <div className="px-2 sm:px-3 py-3 sm:py-4 text-xs sm:text-sm text-gray-500 text-center">
-                                                Start typing to search suppliers...
-                                            </div>
-                                        )}
-                                    </div>
-                                )}
+                                    {/* Search Results Dropdown */}
+                                    {showSupplierDropdown && (
+                                        <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-blue-300 rounded-md shadow-lg z-10 max-h-48 sm:max-h-60 overflow-y-auto">
+                                            {suppliers.length > 0 ? (
+                                                suppliers.map((supplier) => (
+                                                    <button
+                                                        key={supplier.id}
+                                                        onClick={() => handleSupplierSelect(supplier)}
+                                                        className="w-full px-2 sm:px-3 py-2 text-left text-xs sm:text-sm hover:bg-blue-50 focus:bg-blue-50 focus:outline-none border-b border-gray-100 last:border-b-0"
+                                                    >
+                                                        <div className="font-medium text-gray-900 truncate">{supplier.name}</div>
+                                                    </button>
+                                                ))
+                                            ) : supplierSearchTerm.length > 0 ? (
+                                                <div className="px-2 sm:px-3 py-3 sm:py-4 text-xs sm:text-sm text-gray-500 text-center">
+                                                    No suppliers found matching "{supplierSearchTerm}"
+                                                </div>
+                                            ) : (
+                                                <div className="px-2 sm:px-3 py-3 sm:py-4 text-xs sm:text-sm text-gray-500 text-center">
+                                                    Start typing to search suppliers...
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
-                        </div>
 
-                        {supplierSearchTerm.length > 0 && suppliers.length > 0 && !showSupplierDropdown && (
-                            <div className="mt-2 text-xs text-blue-600">
-                                Found {suppliers.length} supplier{suppliers.length !== 1 ? 's' : ''} • Click to show results
-                            </div>
-                        )}
-                    </div>
-                ) : (
-                    <div className="space-y-2 sm:space-y-3">
-                        <div className="text-xs sm:text-sm text-blue-800">
-                            Editing: <span className="font-medium truncate inline-block max-w-[200px] sm:max-w-none align-bottom">{selectedSupplier?.name}</span>
+                            {supplierSearchTerm.length > 0 && suppliers.length > 0 && !showSupplierDropdown && (
+                                <div className="mt-2 text-xs text-blue-600">
+                                    Found {suppliers.length} supplier{suppliers.length !== 1 ? 's' : ''} • Click to show results
+                                </div>
+                            )}
                         </div>
-                        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3">
-                            <input
-                                type="text"
-                                value={newSupplierName}
-                                onChange={(e) => setNewSupplierName(e.target.value)}
-                                placeholder="Enter new supplier name"
-                                className="flex-1 px-2 sm:px-3 py-2 text-xs sm:text-sm text-gray-900 placeholder-gray-500 border border-blue-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
-                            <div className="flex gap-2 sm:gap-3">
-                                <button
-                                    onClick={handleSupplierUpdate}
-                                    disabled={isUpdatingSupplier}
-                                    className="flex-1 sm:flex-none px-3 sm:px-4 py-2 bg-blue-600 text-white text-xs sm:text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
-                                >
-                                    {isUpdatingSupplier ? 'Updating...' : 'Update'}
-                                </button>
-                                <button
-                                    onClick={handleSupplierEditCancel}
-                                    className="flex-1 sm:flex-none px-3 sm:px-4 py-2 bg-gray-100 text-gray-700 text-xs sm:text-sm font-medium rounded-md hover:bg-gray-200 transition-colors"
-                                >
-                                    Cancel
-                                </button>
+                    ) : (
+                        <div className="space-y-2 sm:space-y-3">
+                            <div className="text-xs sm:text-sm text-blue-800">
+                                Editing: <span className="font-medium truncate inline-block max-w-[200px] sm:max-w-none align-bottom">{selectedSupplier?.name}</span>
+                            </div>
+                            <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3">
+                                <input
+                                    type="text"
+                                    value={newSupplierName}
+                                    onChange={(e) => setNewSupplierName(e.target.value)}
+                                    placeholder="Enter new supplier name"
+                                    className="flex-1 px-2 sm:px-3 py-2 text-xs sm:text-sm text-gray-900 placeholder-gray-500 border border-blue-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                <div className="flex gap-2 sm:gap-3">
+                                    <button
+                                        onClick={handleSupplierUpdate}
+                                        disabled={isUpdatingSupplier}
+                                        className="flex-1 sm:flex-none px-3 sm:px-4 py-2 bg-blue-600 text-white text-xs sm:text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                                    >
+                                        {isUpdatingSupplier ? 'Updating...' : 'Update'}
+                                    </button>
+                                    <button
+                                        onClick={handleSupplierEditCancel}
+                                        className="flex-1 sm:flex-none px-3 sm:px-4 py-2 bg-gray-100 text-gray-700 text-xs sm:text-sm font-medium rounded-md hover:bg-gray-200 transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="text-xs text-blue-600">
+                                💡 This will update the supplier name in all related purchase records
                             </div>
                         </div>
-                        <div className="text-xs text-blue-600">
-                            💡 This will update the supplier name in all related purchase records
-                        </div>
-                    </div>
-                )}
-            </div>
+                    )}
+                </div>
+            )}
 
             {/* Search Filters */}
             <div className="bg-white rounded-lg border border-gray-200 p-4 sm:p-5 md:p-6">
@@ -577,18 +743,106 @@ export default function InventoryManagement() {
                         />
                     </div>
                 </div>
+                <button
+                    type="button"
+                    onClick={() => setShowMoreFilters(!showMoreFilters)}
+                    className="mt-3 text-xs sm:text-sm text-blue-600 hover:text-blue-800"
+                >
+                    {showMoreFilters ? '− Fewer filters' : '+ Date, amount and expiry ranges'}
+                </button>
+                {showMoreFilters && (
+                    <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+                        <div>
+                            <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Purchased Between</label>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="date"
+                                    value={filters.date_from}
+                                    onChange={(e) => handleFilterChange('date_from', e.target.value)}
+                                    className="w-full px-2 py-2 text-xs sm:text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                />
+                                <span className="text-xs text-gray-500">to</span>
+                                <input
+                                    type="date"
+                                    value={filters.date_to}
+                                    onChange={(e) => handleFilterChange('date_to', e.target.value)}
+                                    className="w-full px-2 py-2 text-xs sm:text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Invoice Total</label>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={filters.min_amount}
+                                    onChange={(e) => handleFilterChange('min_amount', e.target.value)}
+                                    placeholder="Min"
+                                    className="w-full px-2 py-2 text-xs sm:text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                />
+                                <span className="text-xs text-gray-500">to</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={filters.max_amount}
+                                    onChange={(e) => handleFilterChange('max_amount', e.target.value)}
+                                    placeholder="Max"
+                                    className="w-full px-2 py-2 text-xs sm:text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Expiring Between</label>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="date"
+                                    value={filters.expiry_from}
+                                    onChange={(e) => handleFilterChange('expiry_from', e.target.value)}
+                                    className="w-full px-2 py-2 text-xs sm:text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                />
+                                <span className="text-xs text-gray-500">to</span>
+                                <input
+                                    type="date"
+                                    value={filters.expiry_to}
+                                    onChange={(e) => handleFilterChange('expiry_to', e.target.value)}
+                                    className="w-full px-2 py-2 text-xs sm:text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                />
+                            </div>
+                        </div>
+                    </div>
+                )}
                 <div className="mt-3 sm:mt-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 sm:gap-4">
-                    <div className="text-xs sm:text-sm text-gray-600 order-2 sm:order-1">
+                    <div className="text-xs sm:text-sm text-gray-600 order-2 sm:order-1 flex flex-wrap items-center gap-2">
                         {hasFilters && (
                             <span>
                                 {isLoading ? 'Searching...' : (
                                     <>
-                                        Page {currentPage} • {searchResults.length} results
-                                        {searchResults.length === pageSize && ' (showing 10 per page)'}
+                                        Page {currentPage} of {totalPages} • {totalResults} results
                                     </>
                                 )}
                             </span>
                         )}
+                        <label className="flex items-center gap-1">
+                            Sort by
+                            <select
+                                value={sort.sort_by}
+                                onChange={(e) => handleSortChange({ sort_by: e.target.value as PurchaseSearchSort })}
+                                className="px-2 py-1 text-xs sm:text-sm border border-gray-300 rounded-md text-gray-900"
+                            >
+                                {SORT_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={sort.sort_order}
+                                onChange={(e) => handleSortChange({ sort_order: e.target.value as 'asc' | 'desc' })}
+                                className="px-2 py-1 text-xs sm:text-sm border border-gray-300 rounded-md text-gray-900"
+                            >
+                                <option value="desc">Newest / highest first</option>
+                                <option value="asc">Oldest / lowest first</option>
+                            </select>
+                        </label>
                     </div>
                     <button
                         onClick={clearFilters}
@@ -605,7 +859,7 @@ export default function InventoryManagement() {
                     <h3 className="text-base sm:text-lg font-semibold text-gray-900">Purchase Entries</h3>
                     
                     {/* Bulk Action Bar */}
-                    {selectedItems.size > 0 && (
+                    {can('purchases.delete') && selectedItems.size > 0 && (
                         <div className="w-full sm:w-auto flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3 px-3 sm:px-4 py-2 bg-blue-50 border border-blue-200 rounded-lg">
                             <span className="text-xs sm:text-sm font-medium text-blue-900 text-center sm:text-left">
                                 {selectedItems.size} item{selectedItems.size > 1 ? 's' : ''} selected
@@ -638,7 +892,7 @@ export default function InventoryManagement() {
                                         type="checkbox"
                                         checked={isSelectAllChecked}
                                         onChange={handleSelectAll}
-                                        disabled={!hasFilters || searchResults.length === 0}
+                                        disabled={!can('purchases.delete') || !hasFilters || searchResults.length === 0}
                                         className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
                                     />
                                 </th>
@@ -687,7 +941,7 @@ export default function InventoryManagement() {
                                                     type="checkbox"
                                                     checked={isSelected}
                                                     onChange={() => item.purchase_item_id && handleSelectItem(item.purchase_item_id)}
-                                                    disabled={isEditing || !item.purchase_item_id}
+                                                    disabled={!can('purchases.delete') || isEditing || !item.purchase_item_id}
                                                     className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
                                                 />
                                             </td>
@@ -832,19 +1086,39 @@ export default function InventoryManagement() {
                                                     </div>
                                                 ) : (
                                                     <div className="flex flex-col sm:flex-row gap-1 sm:gap-2 min-w-[80px]">
-                                                        <button
-                                                            onClick={() => handleEdit(item)}
-                                                            className="text-blue-600 hover:text-blue-800 text-xs sm:text-sm font-medium whitespace-nowrap"
-                                                        >
-                                                            Edit
-                                                        </button>
-                                                        <button
-                                                            onClick={() => handleDeleteClick(item)}
-                                                            disabled={isDeleting}
-                                                            className="text-red-600 hover:text-red-800 text-xs sm:text-sm font-medium disabled:opacity-50 whitespace-nowrap"
-                                                        >
-                                                            Delete
-                                                        </button>
+                                                        {can('purchases.edit') && (
+                                                            <button
+                                                                onClick={() => handleEdit(item)}
+                                                                className="text-blue-600 hover:text-blue-800 text-xs sm:text-sm font-medium whitespace-nowrap"
+                                                            >
+                                                                Edit
+                                                            </button>
+                                                        )}
+                                                        {can('inventory.adjust') && (
+                                                            <button
+                                                                onClick={() => handleAdjustClick(item)}
+                                                                className="text-amber-600 hover:text-amber-800 text-xs sm:text-sm font-medium whitespace-nowrap"
+                                                            >
+                                                                Adjust
+                                                            </button>
+                                                        )}
+                                                        {can('purchase_returns.create') && (
+                                                            <button
+                                                                onClick={() => handleReturnClick(item)}
+                                                                className="text-purple-600 hover:text-purple-800 text-xs sm:text-sm font-medium whitespace-nowrap"
+                                                            >
+                                                                Return
+                                                            </button>
+                                                        )}
+                                                        {can('purchases.delete') && (
+                                                            <button
+                                                                onClick={() => handleDeleteClick(item)}
+                                                                disabled={isDeleting}
+                                                                className="text-red-600 hover:text-red-800 text-xs sm:text-sm font-medium disabled:opacity-50 whitespace-nowrap"
+                                                            >
+                                                                Delete
+                                                            </button>
+                                                        )}
                                                     </div>
                                                 )}
                                             </td>
@@ -892,12 +1166,12 @@ export default function InventoryManagement() {
                             </button>
 
                             <span className="px-2 sm:px-3 py-1.5 sm:py-2 text-xs sm:text-sm text-gray-700 whitespace-nowrap">
-                                Page {currentPage}
+                                Page {currentPage} of {totalPages}
                             </span>
 
                             <button
                                 onClick={handleNextPage}
-                                disabled={searchResults.length < pageSize || isLoading}
+                                disabled={currentPage >= totalPages || isLoading}
                                 className="px-2 sm:px-3 py-1.5 sm:py-2 text-xs sm:text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 Next →
@@ -905,12 +1179,197 @@ export default function InventoryManagement() {
                         </div>
 
                         <div className="text-xs sm:text-sm text-gray-600 order-1 sm:order-2">
-                            Showing {searchResults.length} entries per page
+                            Showing {(currentPage - 1) * pageSize + 1}–{(currentPage - 1) * pageSize + searchResults.length} of {totalResults} entries
                         </div>
                     </div>
                 )}
             </div>
 
+            {/* Stock Adjustment Modal */}
+            {stockAdjustment.isOpen && stockAdjustment.item && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+                        <div className="p-4 sm:p-6">
+                            <div className="mb-4">
+                                <h3 className="text-base sm:text-lg font-medium text-gray-900">Adjust Stock</h3>
+                                <p className="text-xs sm:text-sm text-gray-600 break-words">
+                                    {stockAdjustment.item.medicine_name} • Batch {stockAdjustment.item.batch_number}
+                                    {stockAdjustment.item.expiry_date && ` • Exp ${new Date(stockAdjustment.item.expiry_date).toLocaleDateString('en-IN')}`}
+                                </p>
+                            </div>
+
+                            <div className="space-y-3 mb-4 sm:mb-6">
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Type</label>
+                                        <select
+                                            value={stockAdjustment.adjustment_type}
+                                            onChange={(e) => {
+                                                const adjustmentType = e.target.value as 'adjustment' | 'damaged'
+                                                setStockAdjustment(prev => ({
+                                                    ...prev,
+                                                    adjustment_type: adjustmentType,
+                                                    operation: adjustmentType === 'damaged' ? 'subtract' : prev.operation,
+                                                    reason: adjustmentType === 'damaged' ? 'Damage / breakage' : 'Count correction'
+                                                }))
+                                            }}
+                                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            <option value="adjustment">Adjustment</option>
+                                            <option value="damaged">Damaged</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Operation</label>
+                                        <select
+                                            value={stockAdjustment.operation}
+                                            onChange={(e) => setStockAdjustment(prev => ({ ...prev, operation: e.target.value as 'add' | 'subtract' }))}
+                                            disabled={stockAdjustment.adjustment_type === 'damaged'}
+                                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                        >
+                                            <option value="subtract">Subtract</option>
+                                            <option value="add">Add</option>
+                                        </select>
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={stockAdjustment.quantity}
+                                        onChange={(e) => setStockAdjustment(prev => ({ ...prev, quantity: e.target.value }))}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Reason</label>
+                                    <select
+                                        value={stockAdjustment.reason}
+                                        onChange={(e) => setStockAdjustment(prev => ({ ...prev, reason: e.target.value }))}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        {stockAdjustment.adjustment_type === 'damaged' ? (
+                                            <>
+                                                <option value="Damage / breakage">Damage / breakage</option>
+                                                <option value="Spoiled / contaminated">Spoiled / contaminated</option>
+                                            </>
+                                        ) : (
+                                            <>
+                                                <option value="Count correction">Count correction</option>
+                                                <option value="Write-off">Write-off</option>
+                                                <option value="Lost / missing">Lost / missing</option>
+                                                <option value="Other">Other</option>
+                                            </>
+                                        )}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Notes</label>
+                                    <textarea
+                                        value={stockAdjustment.notes}
+                                        onChange={(e) => setStockAdjustment(prev => ({ ...prev, notes: e.target.value }))}
+                                        rows={2}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        placeholder="Optional details"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3">
+                                <button
+                                    onClick={handleAdjustCancel}
+                                    disabled={isAdjustingStock}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 order-2 sm:order-1"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleAdjustConfirm}
+                                    disabled={isAdjustingStock}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                                >
+                                    {isAdjustingStock ? 'Saving...' : 'Save Adjustment'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Purchase Return Modal */}
+            {purchaseReturn.isOpen && purchaseReturn.item && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+                        <div className="p-4 sm:p-6">
+                            <div className="mb-4">
+                                <h3 className="text-base sm:text-lg font-medium text-gray-900">Return to Supplier</h3>
+                                <p className="text-xs sm:text-sm text-gray-600 break-words">
+                                    {purchaseReturn.item.medicine_name} • Batch {purchaseReturn.item.batch_number} • {purchaseReturn.item.supplier_name}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    Invoice {purchaseReturn.item.invoice_number} • Purchased {purchaseReturn.item.quantity + (purchaseReturn.item.Free || 0)} @ ₹{purchaseReturn.item.purchase_rate}
+                                </p>
+                            </div>
+
+                            <div className="space-y-3 mb-4 sm:mb-6">
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Quantity to return</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={purchaseReturn.quantity}
+                                        onChange={(e) => setPurchaseReturn(prev => ({ ...prev, quantity: e.target.value }))}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Reason</label>
+                                    <select
+                                        value={purchaseReturn.reason}
+                                        onChange={(e) => setPurchaseReturn(prev => ({ ...prev, reason: e.target.value }))}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        <option value="Near expiry">Near expiry</option>
+                                        <option value="Expired">Expired</option>
+                                        <option value="Damaged">Damaged</option>
+                                        <option value="Wrong item supplied">Wrong item supplied</option>
+                                        <option value="Other">Other</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Notes</label>
+                                    <textarea
+                                        value={purchaseReturn.notes}
+                                        onChange={(e) => setPurchaseReturn(prev => ({ ...prev, notes: e.target.value }))}
+                                        rows={2}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        placeholder="Optional details for the debit note"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3">
+                                <button
+                                    onClick={handleReturnCancel}
+                                    disabled={isReturning}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 order-2 sm:order-1"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleReturnConfirm}
+                                    disabled={isReturning}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                                >
+                                    {isReturning ? 'Saving...' : 'Create Debit Note'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Delete Confirmation Modal */}
             {deleteConfirmation.isOpen && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
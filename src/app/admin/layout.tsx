@@ -4,8 +4,19 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth/AuthContext'
+import { Permission } from '@/lib/auth/permissions'
+import { useAppDispatch } from '@/lib/store'
+import { pharmacyApi } from '@/lib/store/api/pharmacyApi'
 
-const adminNavItems = [
+interface AdminNavItem {
+    name: string
+    href: string
+    icon: string
+    description: string
+    permission?: Permission // Hidden from roles without this permission
+}
+
+const adminNavItems: AdminNavItem[] = [
     {
         name: 'Dashboard',
         href: '/admin',
@@ -18,12 +29,57 @@ const adminNavItems = [
         icon: '🛒',
         description: 'Daily Medicine Purchases'
     },
+    {
+        name: 'Reorder',
+        href: '/admin/reorder',
+        icon: '📝',
+        description: 'Suggestions & Purchase Orders'
+    },
+    {
+        name: 'Medicines',
+        href: '/admin/medicines',
+        icon: '💊',
+        description: 'Medicine Master'
+    },
+    {
+        name: 'Suppliers',
+        href: '/admin/suppliers',
+        icon: '🏭',
+        description: 'Supplier Master'
+    },
+    {
+        name: 'Supplier Payments',
+        href: '/admin/supplier-payments',
+        icon: '💳',
+        description: 'Ledger & Outstanding',
+        permission: 'supplier_payments.manage'
+    },
+    {
+        name: 'GST Reports',
+        href: '/admin/reports',
+        icon: '📑',
+        description: 'Input Tax Credit',
+        permission: 'reports.gst'
+    },
+    {
+        name: 'Billing',
+        href: '/admin/sales',
+        icon: '🧾',
+        description: 'Customer Sales'
+    },
     {
         name: 'Inventory',
         href: '/admin/inventory',
         icon: '📦',
         description: 'Stock Management'
     },
+    {
+        name: 'Stock Transfers',
+        href: '/admin/transfers',
+        icon: '🚚',
+        description: 'Between Branches',
+        permission: 'stock_transfers.receive'
+    },
     {
         name: 'Expiry Tracking',
         href: '/admin/expiry',
@@ -47,7 +103,8 @@ export default function AdminLayout({
     const [userMenuOpen, setUserMenuOpen] = useState(false)
     const pathname = usePathname()
     const router = useRouter()
-    const { user, loading, signOut } = useAuth()
+    const { user, loading, pharmacies, activePharmacyId, switchPharmacy, role, can, signOut } = useAuth()
+    const dispatch = useAppDispatch()
 
     // Redirect to login if not authenticated
     useEffect(() => {
@@ -56,6 +113,12 @@ export default function AdminLayout({
         }
     }, [user, loading, router])
 
+    const handlePharmacyChange = (pharmacyId: string) => {
+        switchPharmacy(pharmacyId)
+        // Cached data belongs to the previous branch
+        dispatch(pharmacyApi.util.resetApiState())
+    }
+
     const handleSignOut = async () => {
         await signOut()
         router.push('/login')
@@ -108,9 +171,35 @@ export default function AdminLayout({
                         </button>
                     </div>
 
+                    {/* Active Pharmacy */}
+                    {pharmacies.length > 0 && (
+                        <div className="px-4 pt-4">
+                            {pharmacies.length > 1 ? (
+                                <>
+                                    <label className="block text-xs font-medium text-gray-500 mb-1">Branch</label>
+                                    <select
+                                        value={activePharmacyId || ''}
+                                        onChange={(e) => handlePharmacyChange(e.target.value)}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        {pharmacies.map((pharmacy) => (
+                                            <option key={pharmacy.pharmacy_id} value={pharmacy.pharmacy_id}>
+                                                {pharmacy.name}{pharmacy.city ? ` (${pharmacy.city})` : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </>
+                            ) : (
+                                <div className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-50 rounded-md truncate">
+                                    {pharmacies[0].name}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Navigation */}
                     <nav className="flex-1 px-4 py-6 space-y-2">
-                        {adminNavItems.map((item) => {
+                        {adminNavItems.filter((item) => !item.permission || can(item.permission)).map((item) => {
                             const isActive = pathname === item.href
                             return (
                                 <Link
@@ -151,6 +240,11 @@ export default function AdminLayout({
                                     <div className="text-xs text-gray-500 truncate">
                                         {user.email}
                                     </div>
+                                    {role && (
+                                        <div className="text-xs text-blue-600 capitalize">
+                                            {role}
+                                        </div>
+                                    )}
                                 </div>
                                 <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -193,7 +287,8 @@ export default function AdminLayout({
                 </div>
 
                 {/* Page content */}
-                <main className="flex-1 p-6">
+                {/* Remount the page when the branch changes so it reloads its data */}
+                <main key={activePharmacyId || 'none'} className="flex-1 p-6">
                     {children}
                 </main>
             </div>
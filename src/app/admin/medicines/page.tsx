@@ -0,0 +1,490 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAppDispatch } from '@/lib/store'
+import { useAuth } from '@/lib/auth/AuthContext'
+import {
+    useGetMedicinesQuery,
+    useGetDuplicateMedicinesQuery,
+    useUpdateMedicineMutation,
+    useMergeMedicinesMutation,
+    type MedicineFormData
+} from '@/lib/store/api/pharmacyApi'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+import type { Medicine } from '@/lib/supabase'
+
+const PAGE_SIZE = 50
+
+const FORM_FIELDS: { key: Exclude<keyof MedicineFormData, 'prescription_required'>; label: string; placeholder?: string }[] = [
+    { key: 'name', label: 'Medicine Name *' },
+    { key: 'manufacturer', label: 'Manufacturer *' },
+    { key: 'generic_name', label: 'Generic Name' },
+    { key: 'brand_name', label: 'Brand Name' },
+    { key: 'composition', label: 'Composition', placeholder: 'Paracetamol 650mg' },
+    { key: 'strength', label: 'Strength', placeholder: '650mg' },
+    { key: 'dosage_form', label: 'Dosage Form', placeholder: 'Tablet, Syrup, Injection...' },
+    { key: 'pack_size', label: 'Pack Size', placeholder: '1x15, 100ml' },
+    { key: 'unit_type', label: 'Unit Type', placeholder: 'strips' },
+    { key: 'hsn_code', label: 'HSN Code', placeholder: '3004' },
+    { key: 'storage_conditions', label: 'Storage Conditions' }
+]
+
+const SCHEDULE_OPTIONS = ['', 'G', 'H', 'H1', 'X', 'OTC']
+
+// Either a row from the medicine list or a duplicate suggestion with usage counts
+type MergeCandidate = Pick<Medicine, 'id' | 'name' | 'manufacturer' | 'strength'> & {
+    purchase_lines?: number
+    current_stock?: number
+}
+
+export default function MedicinesPage() {
+    const dispatch = useAppDispatch()
+    const { can } = useAuth()
+    const canEdit = can('medicines.edit')
+    const canMerge = can('medicines.merge')
+    const [search, setSearch] = useState('')
+    const [debouncedSearch, setDebouncedSearch] = useState('')
+    const [currentPage, setCurrentPage] = useState(1)
+    const [showInactive, setShowInactive] = useState(false)
+    const [selected, setSelected] = useState<MergeCandidate[]>([])
+
+    // Edit modal state
+    const [editingMedicine, setEditingMedicine] = useState<Medicine | null>(null)
+    const [formData, setFormData] = useState<MedicineFormData | null>(null)
+
+    // Merge modal state
+    const [mergeCandidates, setMergeCandidates] = useState<MergeCandidate[]>([])
+    const [mergeTargetId, setMergeTargetId] = useState('')
+
+    // Debounce search with 300ms delay
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setDebouncedSearch(search.trim())
+            setCurrentPage(1)
+        }, 300)
+
+        return () => clearTimeout(timer)
+    }, [search])
+
+    // RTK Query hooks
+    const { data: medicines, isLoading, isFetching } = useGetMedicinesQuery({
+        search: debouncedSearch || undefined,
+        page: currentPage,
+        limit: PAGE_SIZE,
+        include_inactive: showInactive
+    })
+    const { data: duplicates } = useGetDuplicateMedicinesQuery()
+    const [updateMedicine, { isLoading: isUpdating }] = useUpdateMedicineMutation()
+    const [mergeMedicines, { isLoading: isMerging }] = useMergeMedicinesMutation()
+
+    const duplicateGroups = duplicates?.groups || []
+
+    const showError = (title: string, error: unknown, fallback: string) => {
+        const data = (error as { data?: { error?: string; details?: string[] | string } })?.data
+        const details = Array.isArray(data?.details) ? ` (${data.details.join(', ')})` : ''
+        dispatch(addNotification({
+            type: 'error',
+            title,
+            message: data?.error ? `${data.error}${details}` : fallback
+        }))
+    }
+
+    const openEditForm = (medicine: Medicine) => {
+        setEditingMedicine(medicine)
+        setFormData({
+            name: medicine.name,
+            manufacturer: medicine.manufacturer,
+            generic_name: medicine.generic_name || '',
+            brand_name: medicine.brand_name || '',
+            composition: medicine.composition || '',
+            strength: medicine.strength || '',
+            dosage_form: medicine.dosage_form || '',
+            pack_size: medicine.pack_size || '',
+            unit_type: medicine.unit_type || 'strips',
+            hsn_code: medicine.hsn_code || '',
+            schedule: medicine.schedule || '',
+            prescription_required: medicine.prescription_required || false,
+            storage_conditions: medicine.storage_conditions || ''
+        })
+    }
+
+    const closeForm = () => {
+        setEditingMedicine(null)
+        setFormData(null)
+    }
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!editingMedicine || !formData) return
+
+        if (!formData.name.trim() || !formData.manufacturer.trim()) {
+            alert('Medicine name and manufacturer are required')
+            return
+        }
+
+        try {
+            const result = await updateMedicine({ medicine_id: editingMedicine.id, ...formData }).unwrap()
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Medicine Updated',
+                message: result.message
+            }))
+            closeForm()
+        } catch (error) {
+            console.error('Medicine save failed:', error)
+            showError('Save Failed', error, 'Failed to save medicine. Please try again.')
+        }
+    }
+
+    const handleToggleActive = async (medicine: Medicine) => {
+        if (medicine.is_active && !confirm(`Deactivate ${medicine.name}? It will no longer appear when entering purchases, but existing stock and history are kept.`)) return
+
+        try {
+            await updateMedicine({ medicine_id: medicine.id, is_active: !medicine.is_active }).unwrap()
+            dispatch(addNotification({
+                type: 'success',
+                title: medicine.is_active ? 'Medicine Deactivated' : 'Medicine Reactivated',
+                message: `${medicine.name} is now ${medicine.is_active ? 'inactive' : 'active'}`
+            }))
+        } catch (error) {
+            console.error('Medicine status change failed:', error)
+            showError('Update Failed', error, 'Failed to update medicine status. Please try again.')
+        }
+    }
+
+    const toggleSelected = (medicine: Medicine) => {
+        setSelected(prev => prev.some(item => item.id === medicine.id)
+            ? prev.filter(item => item.id !== medicine.id)
+            : [...prev, medicine])
+    }
+
+    const openMerge = (candidates: MergeCandidate[]) => {
+        // Default to keeping the medicine this pharmacy has used the most
+        const mostUsed = [...candidates].sort((a, b) => (b.purchase_lines || 0) - (a.purchase_lines || 0))[0]
+        setMergeCandidates(candidates)
+        setMergeTargetId(mostUsed.id)
+    }
+
+    const handleMerge = async () => {
+        const sourceIds = mergeCandidates.map(candidate => candidate.id).filter(id => id !== mergeTargetId)
+        if (!mergeTargetId || sourceIds.length === 0) return
+
+        try {
+            const result = await mergeMedicines({
+                target_medicine_id: mergeTargetId,
+                source_medicine_ids: sourceIds
+            }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Medicines Merged',
+                message: `${result.message}. ${result.purchase_items_moved} purchase lines and ${result.inventory_moved + result.inventory_combined} stock batches moved.`
+            }))
+            setMergeCandidates([])
+            setSelected([])
+        } catch (error) {
+            console.error('Medicine merge failed:', error)
+            showError('Merge Failed', error, 'Failed to merge medicines. Please try again.')
+        }
+    }
+
+    const describe = (medicine: MergeCandidate) => [medicine.name, medicine.strength].filter(Boolean).join(' ')
+
+    return (
+        <div className="space-y-4 md:space-y-6">
+            {/* Page Header */}
+            <div>
+                <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Medicines</h1>
+                <p className="text-sm sm:text-base text-gray-600">Correct medicine details and combine duplicate entries</p>
+            </div>
+
+            {/* Possible Duplicates */}
+            {canMerge && duplicateGroups.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 sm:p-4">
+                    <h3 className="text-sm sm:text-base font-semibold text-amber-900 mb-2">
+                        Possible duplicate medicines ({duplicateGroups.length})
+                    </h3>
+                    <ul className="space-y-2 max-h-64 overflow-y-auto">
+                        {duplicateGroups.map(group => (
+                            <li key={group.medicines[0].id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-xs sm:text-sm text-amber-900">
+                                <span className="break-words">
+                                    {group.medicines.map(medicine => `${describe(medicine)} (${medicine.manufacturer})`).join('  •  ')}
+                                </span>
+                                <button
+                                    onClick={() => openMerge(group.medicines)}
+                                    className="self-start sm:self-auto px-3 py-1 text-xs font-medium bg-amber-600 text-white rounded hover:bg-amber-700 whitespace-nowrap"
+                                >
+                                    Review &amp; Merge
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Medicine List */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-2 sm:gap-3 mb-3 sm:mb-4">
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search by name, generic name or manufacturer"
+                        className="w-full sm:w-80 px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={showInactive}
+                                onChange={(e) => {
+                                    setShowInactive(e.target.checked)
+                                    setCurrentPage(1)
+                                }}
+                                className="rounded border-gray-300"
+                            />
+                            Show inactive
+                        </label>
+                        {canMerge && (
+                            <button
+                                onClick={() => openMerge(selected)}
+                                disabled={selected.length < 2}
+                                className="px-3 py-2 text-xs sm:text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                            >
+                                Merge Selected ({selected.length})
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                <div className="overflow-x-auto -mx-3 sm:-mx-4 md:-mx-6">
+                    <div className="inline-block min-w-full align-middle px-3 sm:px-4 md:px-6">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-2 sm:px-3 py-2 w-8"></th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Medicine</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Manufacturer</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Composition</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Strength</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Form / Pack</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">HSN</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Schedule</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {isLoading ? (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={9} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        Loading medicines...
+                                    </td>
+                                </tr>
+                            ) : medicines && medicines.length > 0 ? (
+                                medicines.map((medicine) => (
+                                    <tr key={medicine.id} className={`border-t border-gray-200 hover:bg-gray-50 ${medicine.is_active ? '' : 'opacity-60'}`}>
+                                        <td className="px-2 sm:px-3 py-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.some(item => item.id === medicine.id)}
+                                                onChange={() => toggleSelected(medicine)}
+                                                disabled={!canMerge}
+                                                className="rounded border-gray-300"
+                                            />
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                            <div className="min-w-[140px]">
+                                                <div className="font-medium break-words">
+                                                    {medicine.name}
+                                                    {medicine.prescription_required && <span className="ml-1 text-[10px] sm:text-xs text-red-600 font-semibold">Rx</span>}
+                                                    {!medicine.is_active && <span className="ml-1 text-[10px] sm:text-xs text-gray-500">(inactive)</span>}
+                                                </div>
+                                                {medicine.generic_name && medicine.generic_name !== medicine.name && (
+                                                    <div className="text-xs text-gray-500 truncate">{medicine.generic_name}</div>
+                                                )}
+                                            </div>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{medicine.manufacturer}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                            <div className="min-w-[120px] break-words">{medicine.composition || '-'}</div>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{medicine.strength || '-'}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">
+                                            {medicine.dosage_form || '-'}
+                                            {medicine.pack_size && <div className="text-xs text-gray-500">{medicine.pack_size}</div>}
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{medicine.hsn_code || '-'}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{medicine.schedule || '-'}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            {canEdit && (
+                                                <div className="flex gap-2 sm:gap-3">
+                                                    <button
+                                                        onClick={() => openEditForm(medicine)}
+                                                        className="text-blue-600 hover:text-blue-800 font-medium"
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleToggleActive(medicine)}
+                                                        className={`${medicine.is_active ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'} font-medium whitespace-nowrap`}
+                                                    >
+                                                        {medicine.is_active ? 'Deactivate' : 'Activate'}
+                                                    </button>
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))
+                            ) : (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={9} className="px-3 sm:px-4 py-6 sm:py-8 text-center text-xs sm:text-sm text-gray-500">
+                                        No medicines found
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                    </div>
+                </div>
+
+                {/* Pagination */}
+                <div className="flex items-center justify-between mt-3 sm:mt-4 text-xs sm:text-sm text-gray-600">
+                    <span>Page {currentPage}{isFetching && !isLoading ? ' • Updating...' : ''}</span>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => setCurrentPage(page => Math.max(1, page - 1))}
+                            disabled={currentPage === 1}
+                            className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Previous
+                        </button>
+                        <button
+                            onClick={() => setCurrentPage(page => page + 1)}
+                            disabled={(medicines?.length || 0) < PAGE_SIZE}
+                            className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Next
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* Medicine Form Modal */}
+            {editingMedicine && formData && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+                        <form onSubmit={handleSave} className="p-4 sm:p-6">
+                            <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-4">Edit {editingMedicine.name}</h3>
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4 sm:mb-6">
+                                {FORM_FIELDS.map(field => (
+                                    <div key={field.key} className={field.key === 'composition' || field.key === 'storage_conditions' ? 'sm:col-span-2' : ''}>
+                                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                                        <input
+                                            type="text"
+                                            value={formData[field.key] ?? ''}
+                                            onChange={(e) => setFormData(prev => prev && ({ ...prev, [field.key]: e.target.value }))}
+                                            placeholder={field.placeholder}
+                                            required={field.key === 'name' || field.key === 'manufacturer'}
+                                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </div>
+                                ))}
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Schedule</label>
+                                    <select
+                                        value={formData.schedule || ''}
+                                        onChange={(e) => setFormData(prev => prev && ({ ...prev, schedule: e.target.value }))}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        {SCHEDULE_OPTIONS.map(option => (
+                                            <option key={option} value={option}>{option || 'Not scheduled'}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700 sm:mt-6">
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.prescription_required}
+                                        onChange={(e) => setFormData(prev => prev && ({ ...prev, prescription_required: e.target.checked }))}
+                                        className="rounded border-gray-300"
+                                    />
+                                    Prescription required
+                                </label>
+                            </div>
+
+                            <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3">
+                                <button
+                                    type="button"
+                                    onClick={closeForm}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors order-2 sm:order-1"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isUpdating}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                                >
+                                    {isUpdating ? 'Saving...' : 'Save Medicine'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Merge Medicines Modal */}
+            {mergeCandidates.length > 1 && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+                        <div className="p-4 sm:p-6">
+                            <h3 className="text-base sm:text-lg font-medium text-gray-900">Merge Medicines</h3>
+                            <p className="text-xs sm:text-sm text-gray-600 mb-4">
+                                Choose the medicine to keep. Purchase lines, stock batches and stock movements of the others move to it, and the others are removed from the catalog.
+                            </p>
+
+                            <div className="space-y-2 mb-4 sm:mb-6">
+                                {mergeCandidates.map(candidate => (
+                                    <label key={candidate.id} className="flex items-start gap-2 p-2 border border-gray-200 rounded-md cursor-pointer hover:bg-gray-50">
+                                        <input
+                                            type="radio"
+                                            name="merge-target"
+                                            checked={mergeTargetId === candidate.id}
+                                            onChange={() => setMergeTargetId(candidate.id)}
+                                            className="mt-1"
+                                        />
+                                        <div className="text-xs sm:text-sm">
+                                            <div className="font-medium text-gray-900 break-words">{describe(candidate)}</div>
+                                            <div className="text-gray-500">
+                                                {candidate.manufacturer}
+                                                {candidate.purchase_lines !== undefined && ` • ${candidate.purchase_lines} purchase lines • ${candidate.current_stock} in stock`}
+                                            </div>
+                                        </div>
+                                    </label>
+                                ))}
+                            </div>
+
+                            <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3">
+                                <button
+                                    onClick={() => setMergeCandidates([])}
+                                    disabled={isMerging}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 order-2 sm:order-1"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleMerge}
+                                    disabled={isMerging || !mergeTargetId}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                                >
+                                    {isMerging ? 'Merging...' : `Merge ${mergeCandidates.length} Medicines`}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,9 +1,13 @@
 'use client'
 
-import { useGetDashboardStatsQuery } from '@/lib/store/api/pharmacyApi'
+import { useGetBranchSummaryQuery, useGetDashboardStatsQuery } from '@/lib/store/api/pharmacyApi'
+import { useAuth } from '@/lib/auth/AuthContext'
+import { formatCurrency } from '@/lib/settings/pharmacy-settings'
 import { useEffect } from 'react'
 
 export default function AdminDashboard() {
+    const { pharmacies, activePharmacyId } = useAuth()
+
     // Fetch dashboard data using RTK Query with auto-refresh
     const { 
         data: dashboardData, 
@@ -18,9 +22,17 @@ export default function AdminDashboard() {
         refetchOnReconnect: true
     })
 
+    // Consolidated view for owners running more than one branch
+    const { data: branchSummary, refetch: refetchBranches } = useGetBranchSummaryQuery(undefined, {
+        skip: pharmacies.length < 2
+    })
+
     // Manual refresh function
     const handleRefresh = () => {
         refetch()
+        if (pharmacies.length > 1) {
+            refetchBranches()
+        }
     }
 
     // Auto-refresh when component mounts
@@ -64,6 +76,8 @@ export default function AdminDashboard() {
         { id: 1, action: 'No recent activity', time: 'N/A', type: 'system' },
     ]
 
+    const currency = dashboardData?.currency
+
     // Helper function to format change percentage
     const formatChange = (change: number, trend: string) => {
         if (change === 0) return '0%'
@@ -98,7 +112,7 @@ export default function AdminDashboard() {
         },
         {
             title: `Today's Purchases`,
-            value: `₹${dashboardData.todays_purchases.toLocaleString()}`,
+            value: formatCurrency(dashboardData.todays_purchases, currency, 0),
             change: formatChange(dashboardData.todays_purchases_change, dashboardData.todays_purchases_trend),
             trend: dashboardData.todays_purchases_trend as 'up' | 'down' | 'neutral',
             icon: '🛒'
@@ -112,7 +126,8 @@ export default function AdminDashboard() {
         },
         {
             title: 'Stock Value',
-            value: `₹${(dashboardData.stock_value / 100000).toFixed(1)}L`,
+            // Compact amount, e.g. ₹1.2L for INR
+            value: new Intl.NumberFormat('en-IN', { style: 'currency', currency: currency || 'INR', notation: 'compact', maximumFractionDigits: 1 }).format(dashboardData.stock_value),
             change: formatChange(dashboardData.stock_value_change, dashboardData.stock_value_trend),
             trend: dashboardData.stock_value_trend as 'up' | 'down' | 'neutral',
             icon: '💰'
@@ -187,7 +202,12 @@ export default function AdminDashboard() {
                     <div key={index} className="bg-white rounded-xl p-4 sm:p-5 md:p-6 shadow-sm border border-gray-100 hover:shadow-md transition-shadow">
                         <div className="flex items-center justify-between">
                             <div className="flex-1 min-w-0">
-                                <p className="text-xs sm:text-sm font-medium text-gray-600 truncate">{stat.title}</p>
+                                <p className="text-xs sm:text-sm font-medium text-gray-600 truncate">
+                                    {stat.title}
+                                    {stat.title === 'Expiring Soon' && dashboardData && (
+                                        <span className="ml-1 text-xs text-gray-500">({dashboardData.expiring_soon_days}d)</span>
+                                    )}
+                                </p>
                                 <p className="text-xl sm:text-2xl font-bold text-gray-900 mt-1">{stat.value}</p>
                             </div>
                             <div className="text-xl sm:text-2xl ml-2">{stat.icon}</div>
@@ -213,6 +233,56 @@ export default function AdminDashboard() {
                 ))}
             </div>
 
+            {/* All Branches */}
+            {branchSummary && branchSummary.branches.length > 1 && (
+                <div className="bg-white rounded-xl p-4 sm:p-5 md:p-6 shadow-sm border border-gray-100">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">All Branches</h3>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full table-auto">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Branch</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Stock Value</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Batches in Stock</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Expiring Soon</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Purchases Today</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Purchases (Month)</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Sales Today</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Sales (Month)</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {branchSummary.branches.map((branch) => (
+                                    <tr key={branch.pharmacy_id} className={`border-t border-gray-200 ${branch.pharmacy_id === activePharmacyId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm font-medium text-gray-900 whitespace-nowrap">
+                                            {branch.name}
+                                            {branch.city && <span className="ml-1 text-xs text-gray-500">{branch.city}</span>}
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branch.stock_value, branch.currency, 0)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{branch.stocked_batches}</td>
+                                        <td className={`px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right whitespace-nowrap ${branch.expiring_soon > 0 ? 'text-red-600 font-medium' : 'text-gray-900'}`} title={`Expiring within ${branch.expiring_soon_days} days`}>{branch.expiring_soon}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branch.todays_purchases, branch.currency, 0)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branch.month_purchases, branch.currency, 0)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branch.todays_sales, branch.currency, 0)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branch.month_sales, branch.currency, 0)}</td>
+                                    </tr>
+                                ))}
+                                <tr className="border-t-2 border-gray-300 font-semibold">
+                                    <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">All Branches</td>
+                                    <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branchSummary.totals.stock_value, currency, 0)}</td>
+                                    <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{branchSummary.totals.stocked_batches}</td>
+                                    <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{branchSummary.totals.expiring_soon}</td>
+                                    <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branchSummary.totals.todays_purchases, currency, 0)}</td>
+                                    <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branchSummary.totals.month_purchases, currency, 0)}</td>
+                                    <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branchSummary.totals.todays_sales, currency, 0)}</td>
+                                    <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{formatCurrency(branchSummary.totals.month_sales, currency, 0)}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
             {/* Content Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
                 {/* Recent Activity */}
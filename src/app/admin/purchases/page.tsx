@@ -1,27 +1,62 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import AutocompleteDropdown from '@/components/ui/AutocompleteDropdown'
 import { useAppDispatch, useAppSelector } from '@/lib/store'
-import { useCreatePurchaseMutation, useGetPurchasesQuery, useGetPurchasesStatsQuery } from '@/lib/store/api/pharmacyApi'
+import { useCreatePurchaseMutation, useGetPurchasesQuery, useGetPurchasesStatsQuery, useGetPurchaseReturnsQuery, useGetPurchaseByIdQuery, useLazyGetPurchaseTaxDefaultsQuery, useGetPharmacySettingsQuery, useGetPendingPurchasesQuery, useUpdatePurchaseStatusMutation, useGetUnverifiedPurchasesQuery, useVerifyPurchaseMutation, PendingPurchase, UnverifiedPurchase, DuplicatePurchaseError } from '@/lib/store/api/pharmacyApi'
+import { useAuth } from '@/lib/auth/AuthContext'
+import { calculateLineAmounts, calculatePurchaseTotals } from '@/lib/purchases/gst'
+import { downloadDebitNotePDF } from '@/lib/pdf/debit-note'
+import { formatCurrency as formatAmount } from '@/lib/settings/pharmacy-settings'
 import { addNotification, openModal, closeModal } from '@/lib/store/slices/uiSlice'
-import { supabase } from '@/lib/supabase'
+import PurchaseImportModal from '@/components/purchases/PurchaseImportModal'
+import GoodsReceiptModal from '@/components/purchases/GoodsReceiptModal'
+
+// Badge colours for purchases still waiting on goods
+const PENDING_STATUS_STYLES: Record<PendingPurchase['status'], string> = {
+    draft: 'bg-gray-100 text-gray-800',
+    sent: 'bg-blue-100 text-blue-800',
+    partially_received: 'bg-yellow-100 text-yellow-800'
+}
 
 export default function PurchaseEntry() {
     const dispatch = useAppDispatch()
     const isModalOpen = useAppSelector((state) => state.ui.modals.purchaseEntry)
-    const [selectedPurchaseDetails, setSelectedPurchaseDetails] = useState<any>(null)
-    const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false)
+    const isImportOpen = useAppSelector((state) => state.ui.modals.purchaseImport)
+    const [selectedPurchaseId, setSelectedPurchaseId] = useState<string | null>(null)
+    const [receivingPurchase, setReceivingPurchase] = useState<PendingPurchase | null>(null)
+    const [pendingPage, setPendingPage] = useState(1)
+    const [verificationPage, setVerificationPage] = useState(1)
+    // A draft records what was ordered; stock is only added when goods are received against it
+    const [saveAsDraft, setSaveAsDraft] = useState(false)
+    const { can } = useAuth()
 
     // RTK Query hooks
     const { data: purchases } = useGetPurchasesQuery({ page: 1, limit: 10 })
     const { data: purchasesStats, isLoading: statsLoading } = useGetPurchasesStatsQuery()
+    const { data: pharmacySettings } = useGetPharmacySettingsQuery()
     const [createPurchase, { isLoading: isCreating }] = useCreatePurchaseMutation()
+    const { data: pendingPurchases } = useGetPendingPurchasesQuery({ page: pendingPage, limit: 10 })
+    const [updatePurchaseStatus] = useUpdatePurchaseStatusMutation()
+    const { data: unverifiedPurchases } = useGetUnverifiedPurchasesQuery({ page: verificationPage, limit: 10 })
+    const [verifyPurchase, { isLoading: isVerifying }] = useVerifyPurchaseMutation()
+    const [getTaxDefaults, { data: taxDefaults }] = useLazyGetPurchaseTaxDefaultsQuery()
+    const { data: purchaseReturns, isLoading: returnsLoading } = useGetPurchaseReturnsQuery({ page: 1, limit: 10 })
+    const {
+        data: selectedPurchase,
+        isFetching: purchaseDetailsLoading,
+        isError: purchaseDetailsError
+    } = useGetPurchaseByIdQuery(selectedPurchaseId ?? '', { skip: !selectedPurchaseId })
+
+    // Validation errors returned by the API, keyed by item row index
+    const [lineErrors, setLineErrors] = useState<Record<number, string>>({})
 
     const [formData, setFormData] = useState({
         supplier_name: '',
         invoice_number: '',
         date: new Date().toISOString().split('T')[0],
+        transport_charges: '',
+        other_charges: '',
         items: [{
             item_name: '',
             pack: '',
@@ -31,7 +66,8 @@ export default function PurchaseEntry() {
             batch: '',
             mrp: '',
             rate: '',
-            amount: ''
+            disc: '',
+            gst: ''
         }]
     })
 
@@ -47,7 +83,8 @@ export default function PurchaseEntry() {
                 batch: '',
                 mrp: '',
                 rate: '',
-                amount: ''
+                disc: '',
+                gst: ''
             }]
         })
     }
@@ -55,10 +92,17 @@ export default function PurchaseEntry() {
     const handleRemoveItem = (index: number) => {
         const newItems = formData.items.filter((_, i) => i !== index)
         setFormData({ ...formData, items: newItems })
+        setLineErrors({})
     }
 
     const handleItemChange = (index: number, field: string, value: string) => {
         const newItems = [...formData.items]
+
+        if (lineErrors[index]) {
+            const remainingErrors = { ...lineErrors }
+            delete remainingErrors[index]
+            setLineErrors(remainingErrors)
+        }
         
         // Format expiry date as MM/YY
         if (field === 'expiry') {
@@ -75,18 +119,47 @@ export default function PurchaseEntry() {
             newItems[index] = { ...newItems[index], [field]: value }
         }
 
-        // Auto-calculate amount if qty and rate are provided
-        if (field === 'qty' || field === 'rate') {
-            const qty = parseFloat(newItems[index].qty) || 0
-            const rate = parseFloat(newItems[index].rate) || 0
-            newItems[index].amount = (qty * rate).toFixed(2)
-        }
-
         setFormData({ ...formData, items: newItems })
     }
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault()
+    // Look up the GST treatment for the supplier and default rates for the items as they are typed
+    const medicineNamesKey = formData.items.map(item => item.item_name.trim().toUpperCase()).filter(Boolean).join('|')
+    useEffect(() => {
+        if (!isModalOpen) return
+
+        const timer = setTimeout(() => {
+            getTaxDefaults({
+                supplier_name: formData.supplier_name.trim().toUpperCase() || undefined,
+                medicine_names: medicineNamesKey ? medicineNamesKey.split('|') : []
+            }, true)
+        }, 400)
+
+        return () => clearTimeout(timer)
+    }, [isModalOpen, formData.supplier_name, medicineNamesKey, getTaxDefaults])
+
+    // GST rate used when the GST % cell is left blank
+    const getDefaultTaxRate = (itemName: string) => {
+        const name = itemName.trim().toUpperCase()
+        return taxDefaults?.rates.find(rate => rate.medicine_name === name)?.tax_percentage
+            ?? taxDefaults?.default_tax_percentage
+            ?? 0
+    }
+
+    const isInterstate = taxDefaults?.interstate ?? false
+    const lineAmounts = formData.items.map(item => calculateLineAmounts({
+        quantity: parseFloat(item.qty) || 0,
+        rate: parseFloat(item.rate) || 0,
+        discount_percentage: parseFloat(item.disc) || 0,
+        tax_percentage: item.gst !== '' ? parseFloat(item.gst) || 0 : getDefaultTaxRate(item.item_name)
+    }, isInterstate))
+    const purchaseTotals = calculatePurchaseTotals(lineAmounts, {
+        transport_charges: parseFloat(formData.transport_charges) || 0,
+        other_charges: parseFloat(formData.other_charges) || 0
+    })
+
+    // Saving again with allowLikelyDuplicate once the user confirms a possible duplicate invoice
+    const handleSubmit = async (e: React.FormEvent | null, allowLikelyDuplicate = false) => {
+        e?.preventDefault()
 
         try {
             // Transform form data to API format
@@ -94,7 +167,11 @@ export default function PurchaseEntry() {
                 supplier_name: formData.supplier_name.toUpperCase(),
                 invoice_number: formData.invoice_number,
                 date: formData.date,
-                items: formData.items.map(item => {
+                transport_charges: parseFloat(formData.transport_charges) || 0,
+                other_charges: parseFloat(formData.other_charges) || 0,
+                status: saveAsDraft ? 'draft' as const : 'received' as const,
+                allow_likely_duplicate: allowLikelyDuplicate || undefined,
+                items: formData.items.map((item, index) => {
                     // Convert MM/YY to YYYY-MM format for expiry_date
                     let expiryDate = item.expiry
                     if (item.expiry && item.expiry.includes('/')) {
@@ -112,7 +189,10 @@ export default function PurchaseEntry() {
                         batch_number: item.batch || undefined,
                         mrp: item.mrp ? parseFloat(item.mrp) : undefined,
                         rate: parseFloat(item.rate),
-                        amount: parseFloat(item.amount)
+                        discount_percentage: parseFloat(item.disc) || 0,
+                        // Blank GST % takes the medicine's default rate on the server
+                        tax_percentage: item.gst !== '' ? parseFloat(item.gst) : undefined,
+                        amount: lineAmounts[index].net_amount
                     }
                 })
             }
@@ -124,16 +204,22 @@ export default function PurchaseEntry() {
             // Show success notification
             dispatch(addNotification({
                 type: 'success',
-                title: 'Purchase Saved',
-                message: `Purchase from ${formData.supplier_name} saved successfully!`
+                title: saveAsDraft ? 'Draft Saved' : 'Purchase Saved',
+                message: saveAsDraft
+                    ? `Draft order for ${formData.supplier_name} saved. Receive the goods against it when they arrive.`
+                    : `Purchase from ${formData.supplier_name} saved successfully!`
             }))
 
             // Close modal and reset form
+            setLineErrors({})
+            setSaveAsDraft(false)
             dispatch(closeModal('purchaseEntry'))
             setFormData({
                 supplier_name: '',
                 invoice_number: '',
                 date: new Date().toISOString().split('T')[0],
+                transport_charges: '',
+                other_charges: '',
                 items: [{
                     item_name: '',
                     pack: '',
@@ -143,10 +229,49 @@ export default function PurchaseEntry() {
                     batch: '',
                     mrp: '',
                     rate: '',
-                    amount: ''
+                    disc: '',
+                    gst: ''
                 }]
             })
         } catch (error) {
+            const data = (error as { data?: { error?: string; details?: { index: number; error: string }[] | string } & Partial<DuplicatePurchaseError> })?.data
+
+            // The invoice looks like one already entered: save anyway only if the user confirms
+            if (data?.requires_confirmation && data.duplicates) {
+                const reasons = data.duplicates.map(match => `• ${match.reason}`).join('\n')
+                if (confirm(`${data.error}:\n${reasons}\n\nSave this purchase anyway?`)) {
+                    return handleSubmit(null, true)
+                }
+                return
+            }
+
+            if (data?.duplicates && data.duplicates.length > 0) {
+                dispatch(addNotification({
+                    type: 'error',
+                    title: 'Duplicate Invoice',
+                    message: data.error || 'This invoice is already entered.'
+                }))
+                return
+            }
+
+            // Highlight the rows the API rejected so they can be fixed in place
+            if (Array.isArray(data?.details) && data.details.length > 0) {
+                const errorsByRow: Record<number, string> = {}
+                data.details.forEach(detail => {
+                    errorsByRow[detail.index] = errorsByRow[detail.index]
+                        ? `${errorsByRow[detail.index]}; ${detail.error}`
+                        : detail.error
+                })
+                setLineErrors(errorsByRow)
+
+                dispatch(addNotification({
+                    type: 'error',
+                    title: data.error || 'Purchase not saved',
+                    message: `Please fix the highlighted item${data.details.length > 1 ? 's' : ''} and try again.`
+                }))
+                return
+            }
+
             dispatch(addNotification({
                 type: 'error',
                 title: 'Error',
@@ -155,40 +280,66 @@ export default function PurchaseEntry() {
         }
     }
 
-    const getTotalAmount = () => {
-        return formData.items.reduce((total, item) => total + (parseFloat(item.amount) || 0), 0).toFixed(2)
-    }
+    // Mark a draft as sent to the supplier, or cancel an order nothing has arrived against
+    const handlePendingAction = async (purchase: PendingPurchase, action: 'send' | 'cancel') => {
+        if (action === 'cancel' && !confirm(`Cancel ${purchase.invoice_number}? This cannot be undone.`)) return
 
-    // Handle viewing purchase details
-    const handleViewPurchaseDetails = async (purchaseId: string) => {
         try {
-            // Get auth token for the request
-            const { data: { session } } = await supabase.auth.getSession()
-            const headers: HeadersInit = {
-                'Content-Type': 'application/json',
-            }
-            
-            if (session?.access_token) {
-                headers['Authorization'] = `Bearer ${session.access_token}`
-            }
-            
-            // Fetch complete purchase details from the API
-            const response = await fetch(`/api/purchases?purchase_id=${purchaseId}`, { headers })
-            if (!response.ok) throw new Error('Failed to fetch purchase details')
-            
-            const data = await response.json()
-            setSelectedPurchaseDetails(data)
-            setIsDetailsModalOpen(true)
+            await updatePurchaseStatus({ id: purchase.id, action }).unwrap()
+            dispatch(addNotification({
+                type: 'success',
+                title: action === 'send' ? 'Order Sent' : 'Order Cancelled',
+                message: action === 'send'
+                    ? `${purchase.invoice_number} marked as sent to ${purchase.suppliers?.name || 'the supplier'}`
+                    : `${purchase.invoice_number} cancelled`
+            }))
         } catch (error) {
-            console.error('Error fetching purchase details:', error)
+            const message = (error as { data?: { error?: string } })?.data?.error
             dispatch(addNotification({
                 type: 'error',
                 title: 'Error',
-                message: 'Failed to load purchase details'
+                message: message || `Failed to ${action} the order. Please try again.`
             }))
         }
     }
 
+    // Mark a received purchase as checked against the supplier's invoice
+    const handleVerify = async (purchase: UnverifiedPurchase, allowLikelyDuplicate = false) => {
+        try {
+            await verifyPurchase({ id: purchase.id, allow_likely_duplicate: allowLikelyDuplicate || undefined }).unwrap()
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Purchase Verified',
+                message: `${purchase.invoice_number} from ${purchase.suppliers?.name || 'the supplier'} verified`
+            }))
+        } catch (error) {
+            const data = (error as { data?: Partial<DuplicatePurchaseError> })?.data
+
+            if (data?.requires_confirmation && data.duplicates) {
+                const reasons = data.duplicates.map(match => `• ${match.reason}`).join('\n')
+                if (confirm(`${data.error}:\n${reasons}\n\nVerify ${purchase.invoice_number} anyway?`)) {
+                    return handleVerify(purchase, true)
+                }
+                return
+            }
+
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Not Verified',
+                message: data?.error || 'Failed to verify the purchase. Please try again.'
+            }))
+        }
+    }
+
+    // Handle viewing purchase details
+    const handleViewPurchaseDetails = (purchaseId: string) => {
+        setSelectedPurchaseId(purchaseId)
+    }
+
+    const handleCloseDetails = () => {
+        setSelectedPurchaseId(null)
+    }
+
     // Helper function to get all focusable elements in the form
     const getFocusableElements = (currentElement: HTMLElement) => {
         const form = currentElement.closest('form')
@@ -261,10 +412,10 @@ export default function PurchaseEntry() {
         if (e.key === 'Enter') {
             e.preventDefault()
             
-            // Check if we're in the rate field (S.Rate) by checking the data-field attribute
-            const isRateField = input.getAttribute('data-field') === 'rate'
+            // Check if we're in the last field of the row (GST %) by checking the data-field attribute
+            const isLastRowField = input.getAttribute('data-field') === 'gst'
             
-            if (isRateField) {
+            if (isLastRowField) {
                 // Find which row index this input belongs to by looking at the table structure
                 const tableRow = input.closest('tr')
                 if (tableRow) {
@@ -325,12 +476,20 @@ export default function PurchaseEntry() {
                     <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Purchase Entry</h1>
                     <p className="text-sm sm:text-base text-gray-600">Record daily medicine purchases from wholesalers</p>
                 </div>
-                <button
-                    onClick={() => dispatch(openModal('purchaseEntry'))}
-                    className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm sm:text-base"
-                >
-                    + Add Purchase
-                </button>
+                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                    <button
+                        onClick={() => dispatch(openModal('purchaseImport'))}
+                        className="w-full sm:w-auto px-4 py-2 bg-white text-blue-700 border border-blue-600 rounded-lg hover:bg-blue-50 transition-colors text-sm sm:text-base"
+                    >
+                        Import Invoice
+                    </button>
+                    <button
+                        onClick={() => dispatch(openModal('purchaseEntry'))}
+                        className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm sm:text-base"
+                    >
+                        + Add Purchase
+                    </button>
+                </div>
             </div>
 
             {/* Stats Cards */}
@@ -363,7 +522,7 @@ export default function PurchaseEntry() {
                             purchasesStats?.totalEntries || 0
                         )}
                     </div>
-                    <div className="text-xs sm:text-sm text-gray-600 mt-1">Total Entries</div>
+                    <div className="text-xs sm:text-sm text-gray-600 mt-1">Verified Entries</div>
                 </div>
                 <div className="bg-white p-3 sm:p-4 rounded-lg border border-gray-200">
                     <div className="text-xl sm:text-2xl font-bold text-yellow-600">
@@ -377,6 +536,182 @@ export default function PurchaseEntry() {
                 </div>
             </div>
 
+            {/* Pending Deliveries */}
+            {pendingPurchases && pendingPurchases.total > 0 && (
+                <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-1">Pending Deliveries</h3>
+                    <p className="text-xs sm:text-sm text-gray-600 mb-3 sm:mb-4">Drafts and orders whose goods have not all arrived. Nothing here is in stock until it is received.</p>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full table-auto">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Invoice / Ref</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Supplier</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Date</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Received</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Status</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {pendingPurchases.data.map(purchase => {
+                                    const ordered = purchase.purchase_items.reduce((sum, item) => sum + item.total_quantity, 0)
+                                    const arrived = purchase.purchase_items.reduce((sum, item) => sum + (item.received_quantity || 0) + (item.damaged_quantity || 0), 0)
+                                    return (
+                                        <tr key={purchase.id} className="border-t border-gray-200 hover:bg-gray-50">
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{purchase.invoice_number}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">{purchase.suppliers?.name || '-'}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{new Date(purchase.purchase_date).toLocaleDateString('en-IN')}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{arrived} / {ordered}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${PENDING_STATUS_STYLES[purchase.status]}`}>
+                                                    {purchase.status.replace('_', ' ')}
+                                                </span>
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm whitespace-nowrap space-x-3">
+                                                {can('purchases.receive') && (
+                                                    <button
+                                                        onClick={() => setReceivingPurchase(purchase)}
+                                                        className="text-green-600 hover:text-green-800"
+                                                    >
+                                                        Receive
+                                                    </button>
+                                                )}
+                                                {can('purchase_orders.manage') && purchase.status === 'draft' && (
+                                                    <button
+                                                        onClick={() => handlePendingAction(purchase, 'send')}
+                                                        className="text-blue-600 hover:text-blue-800"
+                                                    >
+                                                        Mark Sent
+                                                    </button>
+                                                )}
+                                                {can('purchase_orders.manage') && purchase.status !== 'partially_received' && (
+                                                    <button
+                                                        onClick={() => handlePendingAction(purchase, 'cancel')}
+                                                        className="text-red-600 hover:text-red-800"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    )
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    {pendingPurchases.totalPages > 1 && (
+                        <div className="flex items-center justify-between mt-3">
+                            <span className="text-xs sm:text-sm text-gray-600">Page {pendingPurchases.page} of {pendingPurchases.totalPages}</span>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setPendingPage(page => page - 1)}
+                                    disabled={pendingPage <= 1}
+                                    className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                                >
+                                    Previous
+                                </button>
+                                <button
+                                    onClick={() => setPendingPage(page => page + 1)}
+                                    disabled={pendingPage >= pendingPurchases.totalPages}
+                                    className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                                >
+                                    Next
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Awaiting Verification */}
+            {unverifiedPurchases && unverifiedPurchases.total > 0 && (
+                <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-1">Awaiting Verification ({unverifiedPurchases.total})</h3>
+                    <p className="text-xs sm:text-sm text-gray-600 mb-3 sm:mb-4">Check each purchase against the supplier&apos;s invoice. Purchase totals only include verified purchases.</p>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full table-auto">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Invoice</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Supplier</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Date</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Total</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Duplicate Check</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {unverifiedPurchases.data.map(purchase => {
+                                    const hasExactDuplicate = purchase.duplicates.some(match => match.exact)
+                                    return (
+                                        <tr key={purchase.id} className={`border-t border-gray-200 ${hasExactDuplicate ? 'bg-red-50' : purchase.duplicates.length > 0 ? 'bg-yellow-50' : 'hover:bg-gray-50'}`}>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">
+                                                <button
+                                                    onClick={() => handleViewPurchaseDetails(purchase.id)}
+                                                    className="text-blue-600 hover:text-blue-800 underline"
+                                                >
+                                                    {purchase.invoice_number}
+                                                </button>
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">{purchase.suppliers?.name || '-'}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{new Date(purchase.purchase_date).toLocaleDateString('en-IN')}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatAmount(purchase.total_amount, pharmacySettings?.currency)}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                                {purchase.duplicates.length === 0 ? (
+                                                    <span className="text-green-700">No duplicates found</span>
+                                                ) : (
+                                                    <ul className={`space-y-0.5 ${hasExactDuplicate ? 'text-red-700' : 'text-yellow-800'}`}>
+                                                        {purchase.duplicates.map(match => (
+                                                            <li key={match.purchase_id}>
+                                                                ⚠️ {match.reason}
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                )}
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm whitespace-nowrap">
+                                                {can('purchases.verify') && (
+                                                    <button
+                                                        onClick={() => handleVerify(purchase)}
+                                                        disabled={isVerifying || hasExactDuplicate}
+                                                        title={hasExactDuplicate ? 'Delete the duplicate entry before verifying' : undefined}
+                                                        className="text-green-600 hover:text-green-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                                    >
+                                                        Verify
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    )
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    {unverifiedPurchases.totalPages > 1 && (
+                        <div className="flex items-center justify-between mt-3">
+                            <span className="text-xs sm:text-sm text-gray-600">Page {unverifiedPurchases.page} of {unverifiedPurchases.totalPages}</span>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setVerificationPage(page => page - 1)}
+                                    disabled={verificationPage <= 1}
+                                    className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                                >
+                                    Previous
+                                </button>
+                                <button
+                                    onClick={() => setVerificationPage(page => page + 1)}
+                                    disabled={verificationPage >= unverifiedPurchases.totalPages}
+                                    className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                                >
+                                    Next
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Recent Purchases */}
             <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
                 <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">Recent Purchases (Last 10)</h3>
@@ -463,6 +798,88 @@ export default function PurchaseEntry() {
                 </div>
             </div>
 
+            {/* Debit Notes */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-1">Debit Notes (Purchase Returns)</h3>
+                <p className="text-xs sm:text-sm text-gray-500 mb-3 sm:mb-4">Returns are raised from the Inventory page using the Return action on a purchase line</p>
+                <div className="overflow-x-auto -mx-3 sm:-mx-4 md:-mx-6">
+                    <div className="inline-block min-w-full align-middle px-3 sm:px-4 md:px-6">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Debit Note No.</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Date</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Supplier</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Items</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Amount</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Supplier Outstanding</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">PDF</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {returnsLoading ? (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={7} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        Loading debit notes...
+                                    </td>
+                                </tr>
+                            ) : purchaseReturns?.data && purchaseReturns.data.length > 0 ? (
+                                purchaseReturns.data.map((debitNote) => {
+                                    const balance = purchaseReturns.supplier_balances.find(b => b.supplier_id === debitNote.supplier_id)
+                                    return (
+                                        <tr key={debitNote.id} className="border-t border-gray-200 hover:bg-gray-50">
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                                <div className="min-w-[120px] font-medium">{debitNote.debit_note_number}</div>
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                                <div className="min-w-[80px] whitespace-nowrap">{new Date(debitNote.return_date).toLocaleDateString('en-IN')}</div>
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                                <div className="min-w-[100px] truncate">{debitNote.suppliers?.name || '-'}</div>
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                                <div className="min-w-[50px]">{debitNote.purchase_return_items.length}</div>
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                                <div className="min-w-[70px] whitespace-nowrap">₹{debitNote.total_amount.toLocaleString('en-IN')}</div>
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                                <div className="min-w-[70px] whitespace-nowrap">{balance ? `₹${balance.outstanding_balance.toLocaleString('en-IN')}` : '-'}</div>
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                                <button
+                                                    onClick={() => downloadDebitNotePDF(debitNote, balance?.outstanding_balance, pharmacySettings?.currency)}
+                                                    className="text-blue-600 hover:text-blue-800 text-xs sm:text-sm font-medium whitespace-nowrap"
+                                                >
+                                                    Download
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    )
+                                })
+                            ) : (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={7} className="px-3 sm:px-4 py-6 sm:py-8 text-center text-xs sm:text-sm text-gray-500">
+                                        No debit notes raised yet
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Goods Receipt Modal */}
+            {receivingPurchase && (
+                <GoodsReceiptModal purchase={receivingPurchase} onClose={() => setReceivingPurchase(null)} />
+            )}
+
+            {/* Invoice File Import Modal */}
+            {isImportOpen && (
+                <PurchaseImportModal onClose={() => dispatch(closeModal('purchaseImport'))} />
+            )}
+
             {/* Purchase Entry Modal */}
             {isModalOpen && (
                 <div className="fixed inset-0 bg-white/30 backdrop-blur-sm flex items-center justify-center z-50 p-2 sm:p-4">
@@ -481,7 +898,7 @@ export default function PurchaseEntry() {
                         </div>
 
                         {/* Modal Content */}
-                        <form onSubmit={handleSubmit} className="p-4 sm:p-6">
+                        <form onSubmit={(e) => handleSubmit(e)} className="p-4 sm:p-6">
                             {/* Supplier & Invoice Details */}
                             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 mb-4 sm:mb-6 p-3 sm:p-4 bg-gray-50 rounded-lg">
                                 <div>
@@ -544,14 +961,21 @@ export default function PurchaseEntry() {
                                                 <th className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Batch</th>
                                                 <th className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">MRP</th>
                                                 <th className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">S.Rate</th>
+                                                <th className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Disc %</th>
+                                                <th className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">GST %</th>
                                                 <th className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Amount</th>
                                                 <th className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Action</th>
                                             </tr>
                                         </thead>
                                         <tbody className="bg-white divide-y divide-gray-400">
                                             {formData.items.map((item, index) => (
-                                                <tr key={index} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-100'} hover:bg-blue-50`}>
-                                                    <td className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 text-center text-xs sm:text-sm font-medium text-gray-700 border-r border-gray-400">{index + 1}</td>
+                                                <tr key={index} className={`${lineErrors[index] ? 'bg-red-50 ring-1 ring-inset ring-red-400' : index % 2 === 0 ? 'bg-white' : 'bg-gray-100'} hover:bg-blue-50`}>
+                                                    <td className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 text-center text-xs sm:text-sm font-medium text-gray-700 border-r border-gray-400">
+                                                        {index + 1}
+                                                        {lineErrors[index] && (
+                                                            <span className="block text-red-600 cursor-help" title={lineErrors[index]}>⚠️</span>
+                                                        )}
+                                                    </td>
                                                     <td className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 border-r border-gray-400">
                                                         <AutocompleteDropdown
                                                             fieldType="medicine_name"
@@ -600,7 +1024,7 @@ export default function PurchaseEntry() {
                                                     <td className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 border-r border-gray-400">
                                                         <input
                                                             type="text"
-                                                            required
+                                                            required={!saveAsDraft}
                                                             value={item.expiry}
                                                             onChange={(e) => handleItemChange(index, 'expiry', e.target.value)}
                                                             onKeyDown={handleKeyDown}
@@ -639,7 +1063,6 @@ export default function PurchaseEntry() {
                                                             value={item.rate}
                                                             onChange={(e) => handleItemChange(index, 'rate', e.target.value)}
                                                             onKeyDown={handleKeyDown}
-                                                            data-field="rate"
                                                             className="w-full min-w-[60px] font-semibold text-black px-1.5 sm:px-2 py-1 border border-gray-300 rounded text-xs sm:text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
                                                             placeholder="0.00"
                                                         />
@@ -648,7 +1071,35 @@ export default function PurchaseEntry() {
                                                         <input
                                                             type="number"
                                                             step="0.01"
-                                                            value={item.amount}
+                                                            min="0"
+                                                            max="100"
+                                                            value={item.disc}
+                                                            onChange={(e) => handleItemChange(index, 'disc', e.target.value)}
+                                                            onKeyDown={handleKeyDown}
+                                                            className="w-full min-w-[50px] font-semibold text-black px-1.5 sm:px-2 py-1 border border-gray-300 rounded text-xs sm:text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                                            placeholder="0"
+                                                        />
+                                                    </td>
+                                                    <td className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 border-r border-gray-400">
+                                                        <input
+                                                            type="number"
+                                                            step="0.01"
+                                                            min="0"
+                                                            max="100"
+                                                            value={item.gst}
+                                                            onChange={(e) => handleItemChange(index, 'gst', e.target.value)}
+                                                            onKeyDown={handleKeyDown}
+                                                            data-field="gst"
+                                                            className="w-full min-w-[50px] font-semibold text-black px-1.5 sm:px-2 py-1 border border-gray-300 rounded text-xs sm:text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                                            placeholder={String(getDefaultTaxRate(item.item_name))}
+                                                            title="Leave blank to use the default GST rate for this medicine"
+                                                        />
+                                                    </td>
+                                                    <td className="px-1.5 sm:px-2 md:px-3 py-2 sm:py-3 border-r border-gray-400">
+                                                        <input
+                                                            type="number"
+                                                            step="0.01"
+                                                            value={lineAmounts[index].net_amount.toFixed(2)}
                                                             readOnly
                                                             className="w-full min-w-[60px] font-semibold text-black px-1.5 sm:px-2 py-1 border border-gray-300 rounded text-xs sm:text-sm bg-gray-50"
                                                             placeholder="0.00"
@@ -674,18 +1125,85 @@ export default function PurchaseEntry() {
                                     </div>
                                 </div>
 
-                                {/* Total Amount */}
-                                <div className="mt-3 sm:mt-4 flex justify-end">
-                                    <div className="bg-blue-50 px-3 sm:px-4 py-2 rounded-lg">
-                                        <span className="text-xs sm:text-sm font-medium text-blue-800">
-                                            Total Amount: ₹{getTotalAmount()}
-                                        </span>
+                                {Object.keys(lineErrors).length > 0 && (
+                                    <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+                                        <ul className="text-xs sm:text-sm text-red-700 space-y-1">
+                                            {Object.entries(lineErrors).map(([index, message]) => (
+                                                <li key={index}>Row {Number(index) + 1}: {message}</li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+
+                                {/* Charges and Totals */}
+                                <div className="mt-3 sm:mt-4 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                                    <div className="grid grid-cols-2 gap-3 sm:w-80">
+                                        <div>
+                                            <label className="block text-xs sm:text-sm font-bold text-black mb-1">Transport</label>
+                                            <input
+                                                type="number"
+                                                step="0.01"
+                                                min="0"
+                                                value={formData.transport_charges}
+                                                onChange={(e) => setFormData({ ...formData, transport_charges: e.target.value })}
+                                                className="w-full text-black px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                placeholder="0.00"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs sm:text-sm font-bold text-black mb-1">Other Charges</label>
+                                            <input
+                                                type="number"
+                                                step="0.01"
+                                                min="0"
+                                                value={formData.other_charges}
+                                                onChange={(e) => setFormData({ ...formData, other_charges: e.target.value })}
+                                                className="w-full text-black px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                placeholder="0.00"
+                                            />
+                                        </div>
+                                        <p className="col-span-2 text-[10px] sm:text-xs text-gray-500">
+                                            {isInterstate
+                                                ? `Inter-state purchase (${taxDefaults?.supplier_state} → ${taxDefaults?.pharmacy_state}): IGST`
+                                                : 'Local purchase: CGST + SGST'}
+                                        </p>
+                                    </div>
+                                    <div className="bg-blue-50 px-3 sm:px-4 py-2 rounded-lg text-xs sm:text-sm text-blue-800 sm:min-w-[240px] space-y-0.5">
+                                        <div className="flex justify-between gap-4"><span>Subtotal</span><span>₹{purchaseTotals.subtotal.toFixed(2)}</span></div>
+                                        {purchaseTotals.discount_amount > 0 && (
+                                            <div className="flex justify-between gap-4"><span>Discount</span><span>-₹{purchaseTotals.discount_amount.toFixed(2)}</span></div>
+                                        )}
+                                        {isInterstate ? (
+                                            <div className="flex justify-between gap-4"><span>IGST</span><span>₹{purchaseTotals.igst_amount.toFixed(2)}</span></div>
+                                        ) : (
+                                            <>
+                                                <div className="flex justify-between gap-4"><span>CGST</span><span>₹{purchaseTotals.cgst_amount.toFixed(2)}</span></div>
+                                                <div className="flex justify-between gap-4"><span>SGST</span><span>₹{purchaseTotals.sgst_amount.toFixed(2)}</span></div>
+                                            </>
+                                        )}
+                                        {purchaseTotals.transport_charges + purchaseTotals.other_charges > 0 && (
+                                            <div className="flex justify-between gap-4"><span>Charges</span><span>₹{(purchaseTotals.transport_charges + purchaseTotals.other_charges).toFixed(2)}</span></div>
+                                        )}
+                                        <div className="flex justify-between gap-4 pt-1 border-t border-blue-200 font-semibold">
+                                            <span>Total Amount</span><span>₹{purchaseTotals.total_amount.toFixed(2)}</span>
+                                        </div>
                                     </div>
                                 </div>
                             </div>
 
                             {/* Modal Footer */}
                             <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-end gap-2 sm:gap-3 pt-4 border-t border-gray-200 sticky bottom-0 bg-white">
+                                {can('purchase_orders.manage') && (
+                                    <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700 sm:mr-auto order-3 sm:order-none">
+                                        <input
+                                            type="checkbox"
+                                            checked={saveAsDraft}
+                                            onChange={(e) => setSaveAsDraft(e.target.checked)}
+                                            className="rounded border-gray-300"
+                                        />
+                                        Save as draft (goods not received yet)
+                                    </label>
+                                )}
                                 <button
                                     type="button"
                                     onClick={() => dispatch(closeModal('purchaseEntry'))}
@@ -698,7 +1216,7 @@ export default function PurchaseEntry() {
                                     disabled={isCreating}
                                     className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
                                 >
-                                    {isCreating ? 'Saving...' : 'Save Purchase'}
+                                    {isCreating ? 'Saving...' : saveAsDraft ? 'Save Draft' : 'Save Purchase'}
                                 </button>
                             </div>
                         </form>
@@ -707,7 +1225,7 @@ export default function PurchaseEntry() {
             )}
 
             {/* Purchase Details Modal */}
-            {isDetailsModalOpen && selectedPurchaseDetails && (
+            {selectedPurchaseId && (
                 <div className="fixed inset-0 bg-white/30 backdrop-blur-sm flex items-center justify-center z-50 p-2 sm:p-4">
                     <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[95vh] sm:max-h-[90vh] overflow-y-auto">
                         {/* Modal Header */}
@@ -715,15 +1233,12 @@ export default function PurchaseEntry() {
                             <div className="flex-1 min-w-0 mr-2">
                                 <h2 className="text-lg sm:text-xl font-semibold text-gray-900">Purchase Details</h2>
                                 <p className="text-xs sm:text-sm text-gray-600 mt-1 break-words">
-                                    Invoice: {selectedPurchaseDetails[0]?.invoice_number || 'N/A'} | 
-                                    Date: {selectedPurchaseDetails[0]?.purchase_date ? new Date(selectedPurchaseDetails[0].purchase_date).toLocaleDateString('en-IN') : 'N/A'}
+                                    Invoice: {selectedPurchase?.invoice_number || 'N/A'} | 
+                                    Date: {selectedPurchase?.purchase_date ? new Date(selectedPurchase.purchase_date).toLocaleDateString('en-IN') : 'N/A'}
                                 </p>
                             </div>
                             <button
-                                onClick={() => {
-                                    setIsDetailsModalOpen(false)
-                                    setSelectedPurchaseDetails(null)
-                                }}
+                                onClick={handleCloseDetails}
                                 className="text-gray-400 hover:text-gray-600 transition-colors flex-shrink-0"
                             >
                                 <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -734,6 +1249,12 @@ export default function PurchaseEntry() {
 
                         {/* Modal Content */}
                         <div className="p-4 sm:p-6">
+                            {purchaseDetailsLoading ? (
+                                <div className="py-8 text-center text-xs sm:text-sm text-gray-500">Loading purchase details...</div>
+                            ) : purchaseDetailsError || !selectedPurchase ? (
+                                <div className="py-8 text-center text-xs sm:text-sm text-red-600">Failed to load purchase details</div>
+                            ) : (
+                            <>
                             <div className="overflow-x-auto -mx-4 sm:-mx-6">
                                 <div className="inline-block min-w-full align-middle px-4 sm:px-6">
                                 <table className="min-w-full border border-gray-200 rounded-lg">
@@ -746,11 +1267,12 @@ export default function PurchaseEntry() {
                                             <th className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-600 uppercase border-b border-gray-200 whitespace-nowrap">Free</th>
                                             <th className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-600 uppercase border-b border-gray-200 whitespace-nowrap">MRP</th>
                                             <th className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-600 uppercase border-b border-gray-200 whitespace-nowrap">Rate</th>
+                                            <th className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-600 uppercase border-b border-gray-200 whitespace-nowrap">GST</th>
                                             <th className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-left text-[10px] sm:text-xs font-semibold text-gray-600 uppercase border-b border-gray-200 whitespace-nowrap">Amount</th>
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {selectedPurchaseDetails.map((item: any, index: number) => (
+                                        {(selectedPurchase.items || []).map((item, index) => (
                                             <tr key={item.id} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-blue-50`}>
                                                 <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-700 border-b border-gray-200">{index + 1}</td>
                                                 <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900 border-b border-gray-200">
@@ -766,27 +1288,51 @@ export default function PurchaseEntry() {
                                                     <div className="min-w-[40px]">{item.quantity}</div>
                                                 </td>
                                                 <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900 border-b border-gray-200">
-                                                    <div className="min-w-[50px]">{item.Free || '-'}</div>
+                                                    <div className="min-w-[50px]">{item.free_quantity || '-'}</div>
                                                 </td>
                                                 <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900 border-b border-gray-200">
                                                     <div className="min-w-[60px] whitespace-nowrap">₹{item.mrp?.toFixed(2) || '0.00'}</div>
                                                 </td>
                                                 <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900 border-b border-gray-200">
-                                                    <div className="min-w-[60px] whitespace-nowrap">₹{item.purchase_rate?.toFixed(2) || '0.00'}</div>
+                                                    <div className="min-w-[60px] whitespace-nowrap">₹{item.rate?.toFixed(2) || '0.00'}</div>
+                                                </td>
+                                                <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900 border-b border-gray-200">
+                                                    <div className="min-w-[50px] whitespace-nowrap">
+                                                        {item.tax_percentage ? `${item.tax_percentage}%` : '-'}
+                                                        {item.discount_percentage ? <span className="block text-[10px] text-gray-500">Disc {item.discount_percentage}%</span> : null}
+                                                    </div>
                                                 </td>
                                                 <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-xs sm:text-sm font-medium text-gray-900 border-b border-gray-200">
-                                                    <div className="min-w-[70px] whitespace-nowrap">₹{((item.quantity || 0) * (item.purchase_rate || 0)).toFixed(2)}</div>
+                                                    <div className="min-w-[70px] whitespace-nowrap">₹{(item.amount || 0).toFixed(2)}</div>
                                                 </td>
                                             </tr>
                                         ))}
                                     </tbody>
                                     <tfoot className="bg-gray-50">
+                                        {[
+                                            { label: 'Subtotal', value: selectedPurchase.subtotal },
+                                            { label: 'Discount', value: selectedPurchase.discount_amount ? -selectedPurchase.discount_amount : 0 },
+                                            { label: 'CGST', value: selectedPurchase.cgst_amount },
+                                            { label: 'SGST', value: selectedPurchase.sgst_amount },
+                                            { label: 'IGST', value: selectedPurchase.igst_amount },
+                                            { label: 'Transport', value: selectedPurchase.transport_charges },
+                                            { label: 'Other Charges', value: selectedPurchase.other_charges }
+                                        ].filter(row => row.value).map(row => (
+                                            <tr key={row.label}>
+                                                <td colSpan={8} className="px-2 sm:px-3 md:px-4 py-1 text-right text-xs sm:text-sm text-gray-600">
+                                                    {row.label}:
+                                                </td>
+                                                <td className="px-2 sm:px-3 md:px-4 py-1 text-xs sm:text-sm text-gray-900 whitespace-nowrap">
+                                                    ₹{Number(row.value).toLocaleString('en-IN', { minimumFractionDigits: 2 })}
+                                                </td>
+                                            </tr>
+                                        ))}
                                         <tr>
-                                            <td colSpan={7} className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-right text-xs sm:text-sm font-semibold text-gray-900 border-t-2 border-gray-300">
+                                            <td colSpan={8} className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-right text-xs sm:text-sm font-semibold text-gray-900 border-t-2 border-gray-300">
                                                 Total:
                                             </td>
                                             <td className="px-2 sm:px-3 md:px-4 py-2 sm:py-3 text-xs sm:text-sm font-bold text-gray-900 border-t-2 border-gray-300 whitespace-nowrap">
-                                                ₹{selectedPurchaseDetails[0]?.total_amount?.toLocaleString('en-IN') || '0.00'}
+                                                ₹{selectedPurchase.total_amount?.toLocaleString('en-IN') || '0.00'}
                                             </td>
                                         </tr>
                                     </tfoot>
@@ -798,22 +1344,27 @@ export default function PurchaseEntry() {
                             <div className="mt-4 sm:mt-6 grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 p-3 sm:p-4 bg-gray-50 rounded-lg">
                                 <div>
                                     <span className="text-xs sm:text-sm font-medium text-gray-600">Supplier:</span>
-                                    <span className="ml-2 text-xs sm:text-sm text-gray-900 break-words">{selectedPurchaseDetails[0]?.supplier_name || 'N/A'}</span>
+                                    <span className="ml-2 text-xs sm:text-sm text-gray-900 break-words">{selectedPurchase.supplier?.name || 'N/A'}</span>
                                 </div>
                                 <div>
                                     <span className="text-xs sm:text-sm font-medium text-gray-600">Total Items:</span>
-                                    <span className="ml-2 text-xs sm:text-sm text-gray-900">{selectedPurchaseDetails.length}</span>
+                                    <span className="ml-2 text-xs sm:text-sm text-gray-900">{selectedPurchase.items?.length || 0}</span>
                                 </div>
+                                {selectedPurchase.notes && (
+                                    <div className="sm:col-span-2">
+                                        <span className="text-xs sm:text-sm font-medium text-gray-600">Notes:</span>
+                                        <span className="ml-2 text-xs sm:text-sm text-gray-900 break-words">{selectedPurchase.notes}</span>
+                                    </div>
+                                )}
                             </div>
+                            </>
+                            )}
                         </div>
 
                         {/* Modal Footer */}
                         <div className="flex items-center justify-end p-4 sm:p-6 border-t border-gray-200 bg-gray-50">
                             <button
-                                onClick={() => {
-                                    setIsDetailsModalOpen(false)
-                                    setSelectedPurchaseDetails(null)
-                                }}
+                                onClick={handleCloseDetails}
                                 className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
                             >
                                 Close
@@ -0,0 +1,746 @@
+'use client'
+
+import { useState } from 'react'
+import { useAppDispatch } from '@/lib/store'
+import { useAuth } from '@/lib/auth/AuthContext'
+import {
+    useCreatePurchaseMutation,
+    useCreatePurchaseOrderMutation,
+    useGetPharmacySettingsQuery,
+    useGetPurchaseOrdersQuery,
+    useGetReorderSuggestionsQuery,
+    useGetSuppliersQuery,
+    useLazyGetPurchaseOrderByIdQuery,
+    useUpdatePurchaseOrderMutation,
+    PurchaseOrder
+} from '@/lib/store/api/pharmacyApi'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+import { DEFAULT_REORDER_OPTIONS, ReorderOptions, ReorderSupplierGroup } from '@/lib/purchases/reorder'
+import { formatCurrency as formatAmount } from '@/lib/settings/pharmacy-settings'
+import { downloadPurchaseOrderPDF, purchaseOrderShareText } from '@/lib/pdf/purchase-order'
+
+interface ReceiveLine {
+    medicine_name: string
+    quantity: string
+    rate: string
+    batch_number: string
+    expiry_date: string
+    mrp: string
+}
+
+const STATUS_STYLES: Record<PurchaseOrder['status'], string> = {
+    draft: 'bg-gray-100 text-gray-700',
+    sent: 'bg-blue-100 text-blue-800',
+    received: 'bg-green-100 text-green-800',
+    cancelled: 'bg-red-100 text-red-700'
+}
+
+const STATUS_LABELS: Record<PurchaseOrder['status'], string> = {
+    draft: 'Draft',
+    sent: 'Sent',
+    received: 'Received',
+    cancelled: 'Cancelled'
+}
+
+export default function Reorder() {
+    const dispatch = useAppDispatch()
+    const { can } = useAuth()
+    const canManage = can('purchase_orders.manage')
+
+    // Reorder options, applied when the user clicks Recalculate
+    const [optionInputs, setOptionInputs] = useState({
+        days: DEFAULT_REORDER_OPTIONS.days.toString(),
+        lead_time_days: DEFAULT_REORDER_OPTIONS.lead_time_days.toString(),
+        cover_days: DEFAULT_REORDER_OPTIONS.cover_days.toString()
+    })
+    const [options, setOptions] = useState<ReorderOptions>(DEFAULT_REORDER_OPTIONS)
+
+    // Quantities edited on the suggestions, keyed by medicine
+    const [quantities, setQuantities] = useState<Record<string, string>>({})
+    const [unassignedSupplierId, setUnassignedSupplierId] = useState('')
+    const [expectedDate, setExpectedDate] = useState('')
+
+    // Purchase order list
+    const [statusFilter, setStatusFilter] = useState<'open' | PurchaseOrder['status'] | ''>('open')
+    const [currentPage, setCurrentPage] = useState(1)
+    const [expandedId, setExpandedId] = useState<string | null>(null)
+    const itemsPerPage = 10
+
+    // Receive modal
+    const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null)
+    const [invoiceNumber, setInvoiceNumber] = useState('')
+    const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().split('T')[0])
+    const [receiveLines, setReceiveLines] = useState<ReceiveLine[]>([])
+
+    // RTK Query hooks
+    const { data: pharmacySettings } = useGetPharmacySettingsQuery()
+    const { data: suggestions, isFetching: suggestionsLoading } = useGetReorderSuggestionsQuery(options)
+    const { data: suppliers = [] } = useGetSuppliersQuery()
+    const { data: ordersResponse, isLoading: ordersLoading } = useGetPurchaseOrdersQuery({
+        status: statusFilter || undefined,
+        page: currentPage,
+        limit: itemsPerPage
+    })
+    const [fetchPurchaseOrder] = useLazyGetPurchaseOrderByIdQuery()
+    const [createPurchaseOrder, { isLoading: isCreatingOrder }] = useCreatePurchaseOrderMutation()
+    const [updatePurchaseOrder, { isLoading: isUpdating }] = useUpdatePurchaseOrderMutation()
+    const [createPurchase, { isLoading: isReceiving }] = useCreatePurchaseMutation()
+
+    const groups = suggestions?.groups || []
+    const orders = ordersResponse?.data || []
+    const totalPages = ordersResponse?.totalPages || 1
+
+    const formatCurrency = (value: number) => formatAmount(value, pharmacySettings?.currency)
+    const formatDate = (value?: string | null) => value ? new Date(value).toLocaleDateString('en-IN') : '-'
+
+    const quantityFor = (medicineId: string, suggested: number) => quantities[medicineId] ?? suggested.toString()
+
+    const handleRecalculate = () => {
+        const days = parseInt(optionInputs.days)
+        const leadTime = parseInt(optionInputs.lead_time_days)
+        const cover = parseInt(optionInputs.cover_days)
+
+        if (!(days >= 1) || !(leadTime >= 0) || !(cover >= 0)) {
+            alert('Enter whole numbers of days: at least 1 day of sales history, and 0 or more for lead time and cover')
+            return
+        }
+
+        setOptions({ days, lead_time_days: leadTime, cover_days: cover })
+        setQuantities({})
+    }
+
+    const handleCreateOrder = async (group: ReorderSupplierGroup) => {
+        const supplierId = group.supplier_id || unassignedSupplierId
+        if (!supplierId) {
+            alert('Choose a supplier for medicines that have not been purchased before')
+            return
+        }
+
+        const items = group.items
+            .map(item => ({
+                medicine_id: item.medicine_id,
+                quantity: parseInt(quantityFor(item.medicine_id, item.suggested_quantity)) || 0,
+                rate: item.last_rate || 0,
+                suggested_quantity: item.suggested_quantity
+            }))
+            .filter(item => item.quantity > 0)
+
+        if (items.length === 0) {
+            alert('Enter a quantity for at least one medicine')
+            return
+        }
+
+        try {
+            const result = await createPurchaseOrder({
+                supplier_id: supplierId,
+                expected_date: expectedDate || undefined,
+                items
+            }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Purchase Order Created',
+                message: result.message
+            }))
+
+            setQuantities(current => {
+                const next = { ...current }
+                group.items.forEach(item => delete next[item.medicine_id])
+                return next
+            })
+        } catch (error) {
+            console.error('Purchase order creation error:', error)
+            const details = (error as { data?: { error?: string; details?: string | { index: number; error: string }[] } })?.data
+            const lineMessage = Array.isArray(details?.details)
+                ? details.details.map(d => d.error).join(', ')
+                : details?.details
+
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Purchase Order Failed',
+                message: lineMessage ? `${details?.error} (${lineMessage})` : (details?.error || 'Failed to create purchase order. Please try again.')
+            }))
+        }
+    }
+
+    const handleUpdate = async (order: PurchaseOrder, action: 'send' | 'cancel') => {
+        if (action === 'cancel' && !confirm(`Cancel purchase order ${order.po_number}?`)) {
+            return
+        }
+
+        try {
+            const result = await updatePurchaseOrder({ id: order.id, action }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: action === 'send' ? 'Order Sent' : 'Order Cancelled',
+                message: result.message
+            }))
+        } catch (error) {
+            console.error('Purchase order update error:', error)
+            const details = (error as { data?: { error?: string } })?.data
+
+            dispatch(addNotification({
+                type: 'error',
+                title: action === 'send' ? 'Send Failed' : 'Cancel Failed',
+                message: details?.error || 'Please try again.'
+            }))
+        }
+    }
+
+    // Helper function to load an order with pharmacy and supplier details for printing or sharing
+    const loadOrderDetails = async (order: PurchaseOrder) => {
+        try {
+            return await fetchPurchaseOrder(order.id).unwrap()
+        } catch (error) {
+            console.error('Purchase order fetch error:', error)
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Order Unavailable',
+                message: `Could not load ${order.po_number}. Please try again.`
+            }))
+            return null
+        }
+    }
+
+    const handleDownload = async (order: PurchaseOrder) => {
+        const details = await loadOrderDetails(order)
+        if (details) downloadPurchaseOrderPDF(details, pharmacySettings?.currency)
+    }
+
+    const handleShare = async (order: PurchaseOrder, channel: 'whatsapp' | 'email') => {
+        const details = await loadOrderDetails(order)
+        if (!details) return
+
+        const text = purchaseOrderShareText(details)
+        if (channel === 'whatsapp') {
+            const phone = (details.suppliers?.phone || '').replace(/\D/g, '')
+            window.open(`https://wa.me/${phone}?text=${encodeURIComponent(text)}`, '_blank')
+        } else {
+            const subject = `Purchase Order ${details.po_number}`
+            window.location.href = `mailto:${details.suppliers?.email || ''}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(text)}`
+        }
+    }
+
+    const openReceive = (order: PurchaseOrder) => {
+        setReceivingOrder(order)
+        setInvoiceNumber('')
+        setInvoiceDate(new Date().toISOString().split('T')[0])
+        setReceiveLines(order.purchase_order_items.map(item => ({
+            medicine_name: item.medicines?.name || '',
+            quantity: item.quantity.toString(),
+            rate: item.rate > 0 ? item.rate.toString() : '',
+            batch_number: '',
+            expiry_date: '',
+            mrp: ''
+        })))
+    }
+
+    const updateReceiveLine = (index: number, field: keyof ReceiveLine, value: string) => {
+        setReceiveLines(receiveLines.map((line, i) => i === index ? { ...line, [field]: value } : line))
+    }
+
+    const handleReceive = async () => {
+        if (!receivingOrder) return
+
+        const lines = receiveLines.filter(line => parseInt(line.quantity) > 0)
+        if (!invoiceNumber || lines.length === 0) {
+            alert('Enter the supplier invoice number and at least one received quantity')
+            return
+        }
+
+        if (lines.some(line => !line.batch_number || !line.expiry_date || !line.rate)) {
+            alert('Enter the batch number, expiry date and rate for every received line')
+            return
+        }
+
+        try {
+            await createPurchase({
+                supplier_name: receivingOrder.suppliers?.name || '',
+                invoice_number: invoiceNumber,
+                date: invoiceDate,
+                purchase_order_id: receivingOrder.id,
+                items: lines.map(line => {
+                    const quantity = parseInt(line.quantity)
+                    const rate = parseFloat(line.rate)
+                    return {
+                        medicine_name: line.medicine_name,
+                        quantity,
+                        batch_number: line.batch_number,
+                        expiry_date: line.expiry_date,
+                        mrp: parseFloat(line.mrp) || undefined,
+                        rate,
+                        amount: Math.round(quantity * rate * 100) / 100
+                    }
+                })
+            }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Order Received',
+                message: `${receivingOrder.po_number} received as invoice ${invoiceNumber}`
+            }))
+
+            setReceivingOrder(null)
+        } catch (error) {
+            console.error('Purchase order receive error:', error)
+            const details = (error as { data?: { error?: string; details?: string | { index: number; error: string }[] } })?.data
+            const lineMessage = Array.isArray(details?.details)
+                ? details.details.map(d => d.error).join(', ')
+                : details?.details
+
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Receive Failed',
+                message: lineMessage ? `${details?.error} (${lineMessage})` : (details?.error || 'Failed to save the purchase. Please try again.')
+            }))
+        }
+    }
+
+    return (
+        <div className="space-y-4 md:space-y-6">
+            {/* Page Header */}
+            <div>
+                <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Reorder</h1>
+                <p className="text-sm sm:text-base text-gray-600">Suggested order quantities from recent sales and current stock, grouped by the supplier each medicine was last bought from.</p>
+            </div>
+
+            {/* Options */}
+            <div className="bg-white rounded-lg border border-gray-200 p-4 sm:p-5 md:p-6">
+                <div className="grid grid-cols-1 sm:grid-cols-5 gap-3 sm:gap-4 items-end">
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Sales History (days)</label>
+                        <input
+                            type="number"
+                            min="1"
+                            value={optionInputs.days}
+                            onChange={(e) => setOptionInputs({ ...optionInputs, days: e.target.value })}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Lead Time (days)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={optionInputs.lead_time_days}
+                            onChange={(e) => setOptionInputs({ ...optionInputs, lead_time_days: e.target.value })}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Cover (days)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={optionInputs.cover_days}
+                            onChange={(e) => setOptionInputs({ ...optionInputs, cover_days: e.target.value })}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Deliver By</label>
+                        <input
+                            type="date"
+                            value={expectedDate}
+                            onChange={(e) => setExpectedDate(e.target.value)}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <button
+                        onClick={handleRecalculate}
+                        disabled={suggestionsLoading}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:bg-gray-400"
+                    >
+                        {suggestionsLoading ? 'Calculating...' : 'Recalculate'}
+                    </button>
+                </div>
+                {suggestions && (
+                    <p className="mt-3 text-xs sm:text-sm text-gray-600">
+                        {suggestions.summary.medicines_to_reorder} of {suggestions.summary.medicines_checked} stocked medicines need reordering
+                        from {suggestions.summary.suppliers} suppliers, about {formatCurrency(suggestions.summary.estimated_amount)} at last purchase rates.
+                    </p>
+                )}
+            </div>
+
+            {/* Suggestions by Supplier */}
+            {suggestionsLoading && !suggestions ? (
+                <div className="bg-white rounded-lg border border-gray-200 p-6">
+                    <div className="animate-pulse bg-gray-200 h-4 w-full rounded"></div>
+                </div>
+            ) : groups.length === 0 ? (
+                <div className="bg-white rounded-lg border border-gray-200 p-6 text-center text-sm text-gray-500">
+                    Nothing needs reordering right now.
+                </div>
+            ) : groups.map((group) => (
+                <div key={group.supplier_id || 'none'} className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3 sm:mb-4">
+                        <div>
+                            <h3 className="text-base sm:text-lg font-semibold text-gray-900">{group.supplier_name}</h3>
+                            <p className="text-xs sm:text-sm text-gray-500">{group.items.length} medicines, about {formatCurrency(group.estimated_amount)}</p>
+                        </div>
+                        {canManage && (
+                            <div className="flex gap-2">
+                                {!group.supplier_id && (
+                                    <select
+                                        value={unassignedSupplierId}
+                                        onChange={(e) => setUnassignedSupplierId(e.target.value)}
+                                        className="px-3 py-1.5 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                    >
+                                        <option value="">Order from...</option>
+                                        {suppliers.map((supplier) => (
+                                            <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <button
+                                    onClick={() => handleCreateOrder(group)}
+                                    disabled={isCreatingOrder || (!group.supplier_id && !unassignedSupplierId)}
+                                    className="px-4 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                                >
+                                    {isCreatingOrder ? 'Creating...' : 'Create Draft PO'}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full table-auto">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Medicine</th>
+                                    <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">In Stock</th>
+                                    <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">On Order</th>
+                                    <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Sold / Day</th>
+                                    <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Days Left</th>
+                                    <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Last Rate</th>
+                                    <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Order Qty</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {group.items.map((item) => (
+                                    <tr key={item.medicine_id} className="border-t border-gray-200">
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">
+                                            {item.medicine_name}
+                                            {item.strength && <span className="text-gray-500"> {item.strength}</span>}
+                                            {item.manufacturer && <div className="text-xs text-gray-500">{item.manufacturer}</div>}
+                                        </td>
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{item.current_stock}</td>
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-500">{item.on_order || '-'}</td>
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-500">{item.daily_consumption}</td>
+                                        <td className={`px-3 py-2 text-xs sm:text-sm ${item.days_of_stock !== null && item.days_of_stock <= options.lead_time_days ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                                            {item.days_of_stock ?? '-'}
+                                        </td>
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-500">{item.last_rate !== null ? formatCurrency(item.last_rate) : '-'}</td>
+                                        <td className="px-3 py-2">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={quantityFor(item.medicine_id, item.suggested_quantity)}
+                                                onChange={(e) => setQuantities({ ...quantities, [item.medicine_id]: e.target.value })}
+                                                disabled={!canManage}
+                                                className="w-20 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md disabled:bg-gray-100"
+                                            />
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            ))}
+
+            {/* Purchase Orders */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3 sm:mb-4">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900">Purchase Orders</h3>
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => { setStatusFilter(e.target.value as typeof statusFilter); setCurrentPage(1) }}
+                        className="px-3 py-1.5 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                    >
+                        <option value="open">Open (Draft & Sent)</option>
+                        <option value="">All Statuses</option>
+                        <option value="draft">Draft</option>
+                        <option value="sent">Sent</option>
+                        <option value="received">Received</option>
+                        <option value="cancelled">Cancelled</option>
+                    </select>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">PO No.</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Date</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Supplier</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Items</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Est. Value</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Status</th>
+                                <th className="px-3 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ordersLoading ? (
+                                Array.from({ length: 3 }).map((_, index) => (
+                                    <tr key={index} className="border-t border-gray-200">
+                                        <td colSpan={7} className="px-3 py-2"><div className="animate-pulse bg-gray-200 h-4 w-full rounded"></div></td>
+                                    </tr>
+                                ))
+                            ) : orders.length > 0 ? (
+                                orders.map((order) => {
+                                    const isOpen = order.status === 'draft' || order.status === 'sent'
+
+                                    return [
+                                        <tr key={order.id} className="border-t border-gray-200 hover:bg-gray-50">
+                                            <td className="px-3 py-2 text-xs sm:text-sm whitespace-nowrap">
+                                                <button
+                                                    onClick={() => setExpandedId(expandedId === order.id ? null : order.id)}
+                                                    className="text-blue-600 hover:text-blue-800"
+                                                >
+                                                    {order.po_number}
+                                                </button>
+                                            </td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm text-gray-500 whitespace-nowrap">{formatDate(order.order_date)}</td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{order.suppliers?.name || '-'}</td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm text-gray-500">{order.purchase_order_items?.length || 0}</td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm font-medium text-gray-900 whitespace-nowrap">{formatCurrency(order.total_amount)}</td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm whitespace-nowrap">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[order.status]}`}>
+                                                    {STATUS_LABELS[order.status]}
+                                                </span>
+                                                {order.status === 'received' && (
+                                                    <span className="ml-2 text-xs text-gray-500">{formatDate(order.received_at)}</span>
+                                                )}
+                                            </td>
+                                            <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                                                <button
+                                                    onClick={() => handleDownload(order)}
+                                                    className="text-blue-600 hover:text-blue-800 text-xs sm:text-sm"
+                                                >
+                                                    PDF
+                                                </button>
+                                                <button
+                                                    onClick={() => handleShare(order, 'whatsapp')}
+                                                    className="text-green-600 hover:text-green-800 text-xs sm:text-sm"
+                                                >
+                                                    WhatsApp
+                                                </button>
+                                                <button
+                                                    onClick={() => handleShare(order, 'email')}
+                                                    className="text-blue-600 hover:text-blue-800 text-xs sm:text-sm"
+                                                >
+                                                    Email
+                                                </button>
+                                                {order.status === 'draft' && canManage && (
+                                                    <button
+                                                        onClick={() => handleUpdate(order, 'send')}
+                                                        disabled={isUpdating}
+                                                        className="text-blue-600 hover:text-blue-800 text-xs sm:text-sm disabled:text-gray-400"
+                                                    >
+                                                        Mark Sent
+                                                    </button>
+                                                )}
+                                                {isOpen && (
+                                                    <button
+                                                        onClick={() => openReceive(order)}
+                                                        className="text-green-600 hover:text-green-800 text-xs sm:text-sm"
+                                                    >
+                                                        Receive
+                                                    </button>
+                                                )}
+                                                {isOpen && canManage && (
+                                                    <button
+                                                        onClick={() => handleUpdate(order, 'cancel')}
+                                                        disabled={isUpdating}
+                                                        className="text-red-600 hover:text-red-800 text-xs sm:text-sm disabled:text-gray-400"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>,
+                                        expandedId === order.id && (
+                                            <tr key={`${order.id}-items`} className="bg-gray-50">
+                                                <td colSpan={7} className="px-3 py-2">
+                                                    <table className="min-w-full">
+                                                        <thead>
+                                                            <tr>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Medicine</th>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Qty</th>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Suggested</th>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Rate</th>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Amount</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {order.purchase_order_items.map((item) => (
+                                                                <tr key={item.id}>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{item.medicines?.name || '-'}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{item.quantity}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-500">{item.suggested_quantity ?? '-'}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{formatCurrency(item.rate)}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{formatCurrency(item.amount)}</td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                    {order.expected_date && <p className="mt-2 text-xs text-gray-600">Deliver by: {formatDate(order.expected_date)}</p>}
+                                                    {order.notes && <p className="mt-2 text-xs text-gray-600">Notes: {order.notes}</p>}
+                                                </td>
+                                            </tr>
+                                        )
+                                    ]
+                                })
+                            ) : (
+                                <tr>
+                                    <td colSpan={7} className="px-3 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        No purchase orders yet.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                {/* Pagination Controls */}
+                {totalPages > 1 && (
+                    <div className="mt-3 sm:mt-4 flex items-center justify-between border-t border-gray-200 pt-3 sm:pt-4">
+                        <span className="text-xs sm:text-sm text-gray-700">Showing page {currentPage} of {totalPages}</span>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                                disabled={currentPage === 1}
+                                className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                            >
+                                Previous
+                            </button>
+                            <button
+                                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                                disabled={currentPage >= totalPages}
+                                className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                            >
+                                Next
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Receive Order Modal */}
+            {receivingOrder && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-lg w-full max-w-4xl max-h-[90vh] overflow-y-auto p-4 sm:p-6">
+                        <h3 className="text-base sm:text-lg font-semibold text-gray-900">Receive {receivingOrder.po_number}</h3>
+                        <p className="text-xs sm:text-sm text-gray-600 mb-4">
+                            Saved as a purchase invoice from {receivingOrder.suppliers?.name}. Set a quantity to 0 for anything that did not arrive.
+                        </p>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-4">
+                            <div>
+                                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Invoice Number</label>
+                                <input
+                                    type="text"
+                                    value={invoiceNumber}
+                                    onChange={(e) => setInvoiceNumber(e.target.value)}
+                                    className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Invoice Date</label>
+                                <input
+                                    type="date"
+                                    value={invoiceDate}
+                                    onChange={(e) => setInvoiceDate(e.target.value)}
+                                    className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full table-auto">
+                                <thead>
+                                    <tr className="bg-gray-50">
+                                        <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Medicine</th>
+                                        <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Qty</th>
+                                        <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Batch</th>
+                                        <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Expiry</th>
+                                        <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Rate</th>
+                                        <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">MRP</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {receiveLines.map((line, index) => (
+                                        <tr key={index} className="border-t border-gray-200">
+                                            <td className="px-2 py-2 text-xs sm:text-sm text-gray-900">{line.medicine_name}</td>
+                                            <td className="px-2 py-2">
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    value={line.quantity}
+                                                    onChange={(e) => updateReceiveLine(index, 'quantity', e.target.value)}
+                                                    className="w-20 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                                />
+                                            </td>
+                                            <td className="px-2 py-2">
+                                                <input
+                                                    type="text"
+                                                    value={line.batch_number}
+                                                    onChange={(e) => updateReceiveLine(index, 'batch_number', e.target.value)}
+                                                    className="w-28 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                                />
+                                            </td>
+                                            <td className="px-2 py-2">
+                                                <input
+                                                    type="date"
+                                                    value={line.expiry_date}
+                                                    onChange={(e) => updateReceiveLine(index, 'expiry_date', e.target.value)}
+                                                    className="px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                                />
+                                            </td>
+                                            <td className="px-2 py-2">
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.01"
+                                                    value={line.rate}
+                                                    onChange={(e) => updateReceiveLine(index, 'rate', e.target.value)}
+                                                    className="w-24 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                                />
+                                            </td>
+                                            <td className="px-2 py-2">
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.01"
+                                                    value={line.mrp}
+                                                    onChange={(e) => updateReceiveLine(index, 'mrp', e.target.value)}
+                                                    className="w-24 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                                />
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="mt-4 flex justify-end gap-2 sm:gap-3 border-t border-gray-200 pt-4">
+                            <button
+                                onClick={() => setReceivingOrder(null)}
+                                className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                            >
+                                Close
+                            </button>
+                            <button
+                                onClick={handleReceive}
+                                disabled={isReceiving}
+                                className="px-4 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            >
+                                {isReceiving ? 'Saving...' : 'Save Purchase'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
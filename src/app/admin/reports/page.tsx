@@ -0,0 +1,225 @@
+'use client'
+
+import { useState } from 'react'
+import { useAppDispatch } from '@/lib/store'
+import { useAuth } from '@/lib/auth/AuthContext'
+import { useGetGstPurchaseReportQuery, useLazyGetGstPurchaseReportCsvQuery } from '@/lib/store/api/pharmacyApi'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+
+const formatAmount = (value: number) => `₹${(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+// Helper function to save text as a file in the browser
+function downloadFile(content: string, filename: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+// Previous month by default - returns are filed after the month closes
+function previousMonth() {
+    const date = new Date()
+    date.setDate(1)
+    date.setMonth(date.getMonth() - 1)
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+export default function ReportsPage() {
+    const dispatch = useAppDispatch()
+    const { can } = useAuth()
+    const canViewGst = can('reports.gst')
+    const [month, setMonth] = useState(previousMonth())
+
+    // RTK Query hooks
+    const { data: report, isFetching, error } = useGetGstPurchaseReportQuery(month, { skip: !canViewGst || !month })
+    const [getCsv, { isFetching: csvLoading }] = useLazyGetGstPurchaseReportCsvQuery()
+
+    const handleDownloadCsv = async () => {
+        try {
+            const csv = await getCsv(month).unwrap()
+            downloadFile(csv, `gst-purchases-${month}.csv`, 'text/csv;charset=utf-8')
+        } catch (error) {
+            console.error('GST report download error:', error)
+            const data = (error as { data?: { error?: string } })?.data
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Download Failed',
+                message: data?.error || 'Could not download the GST report'
+            }))
+        }
+    }
+
+    const handleDownloadJson = () => {
+        if (!report) return
+        downloadFile(JSON.stringify(report, null, 2), `gst-purchases-${month}.json`, 'application/json')
+    }
+
+    if (!canViewGst) {
+        return (
+            <div className="bg-white rounded-lg border border-gray-200 p-6 text-center text-sm text-gray-600">
+                Only a manager or above can view GST reports.
+            </div>
+        )
+    }
+
+    const errorMessage = (error as { data?: { error?: string } })?.data?.error
+
+    return (
+        <div className="space-y-4 md:space-y-6">
+            {/* Page Header */}
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-xl sm:text-2xl font-bold text-gray-900">GST Purchases Report</h1>
+                    <p className="text-sm sm:text-base text-gray-600">Inward supplies and input tax credit by supplier GSTIN, for matching with GSTR-2B</p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                    <input
+                        type="month"
+                        value={month}
+                        onChange={(e) => setMonth(e.target.value)}
+                        className="px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                        onClick={handleDownloadCsv}
+                        disabled={csvLoading || !report}
+                        className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm sm:text-base disabled:opacity-50"
+                    >
+                        {csvLoading ? 'Preparing...' : 'Download CSV'}
+                    </button>
+                    <button
+                        onClick={handleDownloadJson}
+                        disabled={!report}
+                        className="w-full sm:w-auto px-4 py-2 bg-white text-blue-700 border border-blue-600 rounded-lg hover:bg-blue-50 transition-colors text-sm sm:text-base disabled:opacity-50"
+                    >
+                        Download JSON
+                    </button>
+                </div>
+            </div>
+
+            {/* Stats Cards */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+                {[
+                    { label: 'Invoices', value: report ? String(report.summary.invoices) : '', color: 'text-gray-900' },
+                    { label: 'Taxable Value', value: report ? formatAmount(report.summary.taxable_value) : '', color: 'text-gray-900' },
+                    { label: 'Claimable ITC', value: report ? formatAmount(report.summary.eligible_tax) : '', color: 'text-green-600' },
+                    { label: 'Invoices Without GSTIN', value: report ? String(report.summary.invoices_missing_gstin) : '', color: report?.summary.invoices_missing_gstin ? 'text-red-600' : 'text-gray-900' }
+                ].map((card) => (
+                    <div key={card.label} className="bg-white p-3 sm:p-4 rounded-lg border border-gray-200">
+                        <div className={`text-xl sm:text-2xl font-bold ${card.color}`}>
+                            {isFetching || !report ? (
+                                <div className="animate-pulse bg-gray-200 h-6 sm:h-8 w-16 sm:w-20 rounded"></div>
+                            ) : (
+                                card.value
+                            )}
+                        </div>
+                        <div className="text-xs sm:text-sm text-gray-600 mt-1">{card.label}</div>
+                    </div>
+                ))}
+            </div>
+
+            {report && (
+                <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 text-xs sm:text-sm text-gray-700 flex flex-wrap gap-x-6 gap-y-1">
+                    <span>Recipient: <strong>{report.recipient.name}</strong> {report.recipient.gstin ? `(${report.recipient.gstin})` : '(no GSTIN set)'}</span>
+                    <span>IGST {formatAmount(report.summary.igst)}</span>
+                    <span>CGST {formatAmount(report.summary.cgst)}</span>
+                    <span>SGST {formatAmount(report.summary.sgst)}</span>
+                    <span>Invoice value {formatAmount(report.summary.invoice_value)}</span>
+                </div>
+            )}
+
+            {/* Issues */}
+            {report && report.issues.length > 0 && (
+                <div className="p-3 sm:p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <h3 className="text-sm sm:text-base font-semibold text-yellow-900 mb-2">⚠️ {report.issues.length} invoice{report.issues.length > 1 ? 's' : ''} need attention</h3>
+                    <ul className="text-xs sm:text-sm text-yellow-800 space-y-1 max-h-48 overflow-y-auto">
+                        {report.issues.map((issue, index) => (
+                            <li key={`${issue.purchase_id}-${index}`}>
+                                <strong>{issue.supplier_name}</strong> – {issue.invoice_number}: {issue.issue}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Invoices by Supplier */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">Invoices by Supplier</h3>
+                <div className="overflow-x-auto -mx-3 sm:-mx-4 md:-mx-6">
+                    <div className="inline-block min-w-full align-middle px-3 sm:px-4 md:px-6">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Invoice</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Date</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">HSN / Rate</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Taxable</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">IGST</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">CGST</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">SGST</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Invoice Value</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {isFetching ? (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={8} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        Loading GST report...
+                                    </td>
+                                </tr>
+                            ) : error ? (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={8} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-red-600">
+                                        {errorMessage || 'Failed to load the GST report'}
+                                    </td>
+                                </tr>
+                            ) : report && report.suppliers.length > 0 ? (
+                                report.suppliers.flatMap((supplier) => [
+                                    <tr key={`supplier-${supplier.gstin || supplier.supplier_name}`} className={`border-t border-gray-300 ${supplier.gstin_missing ? 'bg-red-50' : 'bg-gray-50'}`}>
+                                        <td colSpan={3} className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm font-semibold text-gray-900">
+                                            {supplier.supplier_name}
+                                            <span className={`ml-2 font-mono text-xs ${supplier.gstin_missing ? 'text-red-600' : 'text-gray-600'}`}>
+                                                {supplier.gstin || 'GSTIN missing'}
+                                            </span>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-semibold text-gray-900 whitespace-nowrap">{formatAmount(supplier.taxable_value)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-semibold text-gray-900 whitespace-nowrap">{formatAmount(supplier.igst)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-semibold text-gray-900 whitespace-nowrap">{formatAmount(supplier.cgst)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-semibold text-gray-900 whitespace-nowrap">{formatAmount(supplier.sgst)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2"></td>
+                                    </tr>,
+                                    ...supplier.invoices.map((invoice) => (
+                                        <tr key={invoice.purchase_id} className="border-t border-gray-200 hover:bg-gray-50 align-top">
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 pl-4 sm:pl-6 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{invoice.invoice_number}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{new Date(invoice.invoice_date).toLocaleDateString('en-IN')}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-xs text-gray-600">
+                                                {invoice.lines.map((line) => (
+                                                    <div key={`${line.hsn_code}-${line.rate}`} className="whitespace-nowrap">
+                                                        {line.hsn_code || <span className="text-red-600">No HSN</span>} @ {line.rate}%
+                                                    </div>
+                                                ))}
+                                            </td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatAmount(invoice.taxable_value)}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatAmount(invoice.igst)}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatAmount(invoice.cgst)}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatAmount(invoice.sgst)}</td>
+                                            <td className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatAmount(invoice.invoice_value)}</td>
+                                        </tr>
+                                    ))
+                                ])
+                            ) : (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={8} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        No purchases in this month
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
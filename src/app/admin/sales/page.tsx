@@ -0,0 +1,531 @@
+'use client'
+
+import { useState } from 'react'
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import AutocompleteDropdown from '@/components/ui/AutocompleteDropdown'
+import { useAppDispatch } from '@/lib/store'
+import { useCreateSaleMutation, useGetSalesQuery, useGetSaleBatchesQuery, useGetPharmacySettingsQuery, Sale } from '@/lib/store/api/pharmacyApi'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+import { supabase } from '@/lib/supabase'
+import { withActivePharmacy } from '@/lib/auth/active-pharmacy'
+import { formatCurrency as formatAmount } from '@/lib/settings/pharmacy-settings'
+
+interface BillLine {
+    medicine_name: string
+    quantity: number
+    mrp: number
+}
+
+export default function SalesBilling() {
+    const dispatch = useAppDispatch()
+
+    // Bill state
+    const [customer, setCustomer] = useState({
+        customer_name: '',
+        customer_phone: '',
+        doctor_name: '',
+        payment_mode: 'cash' as 'cash' | 'card' | 'upi' | 'credit',
+        discount_percentage: ''
+    })
+    const [lines, setLines] = useState<BillLine[]>([])
+
+    // Current line being added
+    const [medicineName, setMedicineName] = useState('')
+    const [quantity, setQuantity] = useState('')
+
+    // Pagination state for recent bills
+    const [currentPage, setCurrentPage] = useState(1)
+    const itemsPerPage = 10
+
+    // Receipt download state
+    const [printingSaleId, setPrintingSaleId] = useState<string | null>(null)
+
+    // RTK Query hooks
+    const { data: batchInfo, isFetching: batchesLoading } = useGetSaleBatchesQuery(medicineName, { skip: !medicineName })
+    const { data: salesResponse, isLoading: salesLoading } = useGetSalesQuery({ page: currentPage, limit: itemsPerPage })
+    const { data: pharmacySettings } = useGetPharmacySettingsQuery()
+    const [createSale, { isLoading: isCreating }] = useCreateSaleMutation()
+
+    const recentSales = salesResponse?.data || []
+    const totalPages = salesResponse?.totalPages || 1
+
+    // Quantity already on the bill for the selected medicine
+    const quantityOnBill = lines
+        .filter(line => line.medicine_name === medicineName)
+        .reduce((sum, line) => sum + line.quantity, 0)
+    const availableForLine = (batchInfo?.total_available || 0) - quantityOnBill
+
+    const handleAddLine = () => {
+        const qty = parseInt(quantity)
+        if (!medicineName || !qty || qty <= 0) {
+            alert('Select a medicine and enter a valid quantity')
+            return
+        }
+
+        if (qty > availableForLine) {
+            alert(`Only ${Math.max(availableForLine, 0)} units of ${medicineName} are available`)
+            return
+        }
+
+        // Estimate at the MRP of the first batch that will be picked (FEFO)
+        const mrp = batchInfo?.batches[0]?.mrp || 0
+
+        setLines([...lines, { medicine_name: medicineName, quantity: qty, mrp }])
+        setMedicineName('')
+        setQuantity('')
+    }
+
+    const handleRemoveLine = (index: number) => {
+        setLines(lines.filter((_, i) => i !== index))
+    }
+
+    const getSubtotal = () => lines.reduce((sum, line) => sum + line.quantity * line.mrp, 0)
+    const getDiscount = () => getSubtotal() * (parseFloat(customer.discount_percentage) || 0) / 100
+
+    const resetBill = () => {
+        setLines([])
+        setCustomer({
+            customer_name: '',
+            customer_phone: '',
+            doctor_name: '',
+            payment_mode: 'cash',
+            discount_percentage: ''
+        })
+    }
+
+    const handleCompleteSale = async () => {
+        if (lines.length === 0) {
+            alert('Add at least one medicine to the bill')
+            return
+        }
+
+        try {
+            const sale = await createSale({
+                customer_name: customer.customer_name || undefined,
+                customer_phone: customer.customer_phone || undefined,
+                doctor_name: customer.doctor_name || undefined,
+                payment_mode: customer.payment_mode,
+                discount_percentage: parseFloat(customer.discount_percentage) || 0,
+                items: lines.map(line => ({ medicine_name: line.medicine_name, quantity: line.quantity }))
+            }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Sale Completed',
+                message: `Bill ${sale.bill_number} saved for ₹${sale.total_amount.toLocaleString('en-IN')}`
+            }))
+
+            resetBill()
+            await downloadReceiptAsPDF(sale)
+        } catch (error) {
+            console.error('Sale error:', error)
+            const details = (error as { data?: { error?: string; details?: { medicine_name: string; requested: number; available: number }[] } })?.data
+            const stockMessage = details?.details?.map(d => `${d.medicine_name}: ${d.available} of ${d.requested} available`).join(', ')
+
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Sale Failed',
+                message: stockMessage ? `${details?.error} (${stockMessage})` : (details?.error || 'Failed to save sale. Please try again.')
+            }))
+        }
+    }
+
+    // Customer receipt PDF (all amounts at MRP)
+    const downloadReceiptAsPDF = async (sale: Sale) => {
+        setPrintingSaleId(sale.id)
+
+        try {
+            // Get pharmacy details for the receipt header
+            let pharmacy: { name?: string; address?: string; city?: string; phone?: string; gst_number?: string; license_number?: string } = {}
+            const { data: { session } } = await supabase.auth.getSession()
+            if (session?.access_token) {
+                const response = await fetch('/api/user-info', {
+                    headers: withActivePharmacy({
+                        'Content-Type': 'application/json',
+                        'Authorization': `Bearer ${session.access_token}`
+                    })
+                })
+                if (response.ok) {
+                    const userInfo = await response.json()
+                    pharmacy = userInfo.pharmacy || {}
+                }
+            }
+
+            const doc = new jsPDF('portrait', 'mm', 'a5')
+            const pageWidth = doc.internal.pageSize.getWidth()
+
+            // Pharmacy header
+            doc.setFontSize(16)
+            doc.setFont('helvetica', 'bold')
+            doc.text(pharmacy.name || 'Pharmacy', pageWidth / 2, 15, { align: 'center' })
+
+            doc.setFontSize(9)
+            doc.setFont('helvetica', 'normal')
+            let yPosition = 21
+            if (pharmacy.address) {
+                doc.text(`${pharmacy.address}${pharmacy.city ? `, ${pharmacy.city}` : ''}`, pageWidth / 2, yPosition, { align: 'center' })
+                yPosition += 5
+            }
+            const licenceLine = [
+                pharmacy.phone ? `Ph: ${pharmacy.phone}` : '',
+                pharmacy.license_number ? `DL: ${pharmacy.license_number}` : '',
+                pharmacy.gst_number ? `GSTIN: ${pharmacy.gst_number}` : ''
+            ].filter(Boolean).join('  |  ')
+            if (licenceLine) {
+                doc.text(licenceLine, pageWidth / 2, yPosition, { align: 'center' })
+                yPosition += 5
+            }
+
+            doc.setLineWidth(0.4)
+            doc.line(10, yPosition, pageWidth - 10, yPosition)
+            yPosition += 6
+
+            // Bill details
+            doc.setFontSize(10)
+            doc.text(`Bill No: ${sale.bill_number}`, 10, yPosition)
+            doc.text(`Date: ${new Date(sale.created_at || sale.sale_date).toLocaleString('en-IN')}`, pageWidth - 10, yPosition, { align: 'right' })
+            yPosition += 5
+            if (sale.customer_name) {
+                doc.text(`Customer: ${sale.customer_name}${sale.customer_phone ? ` (${sale.customer_phone})` : ''}`, 10, yPosition)
+                yPosition += 5
+            }
+            if (sale.doctor_name) {
+                doc.text(`Prescribed by: ${sale.doctor_name}`, 10, yPosition)
+                yPosition += 5
+            }
+
+            const formatCurrency = (value: number) => formatAmount(value, pharmacySettings?.currency)
+
+            // Items table
+            autoTable(doc, {
+                head: [['#', 'Medicine', 'Batch', 'Exp.', 'Qty', 'MRP', 'Amount']],
+                body: sale.sale_items.map((item, index) => [
+                    (index + 1).toString(),
+                    item.medicines?.name || '-',
+                    item.batch_number,
+                    new Date(item.expiry_date).toLocaleDateString('en-IN', { month: '2-digit', year: '2-digit' }),
+                    item.quantity.toString(),
+                    formatCurrency(item.mrp),
+                    formatCurrency(item.amount)
+                ]),
+                startY: yPosition + 2,
+                theme: 'striped',
+                styles: {
+                    fontSize: 8,
+                    cellPadding: 2,
+                    overflow: 'linebreak'
+                },
+                headStyles: {
+                    fillColor: [41, 128, 185],
+                    textColor: 255,
+                    fontStyle: 'bold'
+                },
+                columnStyles: {
+                    0: { cellWidth: 8, halign: 'center' },
+                    3: { halign: 'center' },
+                    4: { halign: 'center' },
+                    5: { halign: 'right' },
+                    6: { halign: 'right' }
+                },
+                margin: { left: 10, right: 10 }
+            })
+
+            // Totals
+            let totalsY = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8
+            doc.setFontSize(10)
+            doc.text('Subtotal:', pageWidth - 50, totalsY)
+            doc.text(formatCurrency(sale.subtotal), pageWidth - 10, totalsY, { align: 'right' })
+            if (sale.discount_amount > 0) {
+                totalsY += 5
+                doc.text(`Discount (${sale.discount_percentage}%):`, pageWidth - 50, totalsY)
+                doc.text(`- ${formatCurrency(sale.discount_amount)}`, pageWidth - 10, totalsY, { align: 'right' })
+            }
+            totalsY += 6
+            doc.setFont('helvetica', 'bold')
+            doc.text('Total:', pageWidth - 50, totalsY)
+            doc.text(formatCurrency(sale.total_amount), pageWidth - 10, totalsY, { align: 'right' })
+
+            doc.setFont('helvetica', 'normal')
+            doc.setFontSize(8)
+            doc.text(`Paid by ${sale.payment_mode.toUpperCase()}`, 10, totalsY)
+            doc.text('Thank you! Get well soon.', pageWidth / 2, totalsY + 12, { align: 'center' })
+
+            doc.save(`receipt-${sale.bill_number}.pdf`)
+        } catch (error) {
+            console.error('Error generating receipt:', error)
+            alert('Failed to generate receipt. Please try again.')
+        } finally {
+            setPrintingSaleId(null)
+        }
+    }
+
+    return (
+        <div className="space-y-4 md:space-y-6">
+            {/* Page Header */}
+            <div>
+                <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Billing</h1>
+                <p className="text-sm sm:text-base text-gray-600">Sell medicines at MRP with first-expiry-first-out batch picking</p>
+            </div>
+
+            {/* New Bill */}
+            <div className="bg-white rounded-lg border border-gray-200 p-4 sm:p-5 md:p-6">
+                <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">New Bill</h3>
+
+                {/* Customer Details */}
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4 mb-4">
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Customer Name</label>
+                        <input
+                            type="text"
+                            value={customer.customer_name}
+                            onChange={(e) => setCustomer({ ...customer, customer_name: e.target.value })}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="Walk-in customer"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Phone</label>
+                        <input
+                            type="tel"
+                            value={customer.customer_phone}
+                            onChange={(e) => setCustomer({ ...customer, customer_phone: e.target.value })}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Doctor</label>
+                        <input
+                            type="text"
+                            value={customer.doctor_name}
+                            onChange={(e) => setCustomer({ ...customer, doctor_name: e.target.value })}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Payment Mode</label>
+                        <select
+                            value={customer.payment_mode}
+                            onChange={(e) => setCustomer({ ...customer, payment_mode: e.target.value as typeof customer.payment_mode })}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            <option value="cash">Cash</option>
+                            <option value="card">Card</option>
+                            <option value="upi">UPI</option>
+                            <option value="credit">Credit</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Discount %</label>
+                        <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={customer.discount_percentage}
+                            onChange={(e) => setCustomer({ ...customer, discount_percentage: e.target.value })}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                </div>
+
+                {/* Add Medicine */}
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 sm:gap-4 items-end">
+                    <div className="sm:col-span-2">
+                        <AutocompleteDropdown
+                            fieldType="medicine_name"
+                            value={medicineName}
+                            onChange={(value) => setMedicineName(value)}
+                            placeholder="Search medicine..."
+                            label="Medicine"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Quantity</label>
+                        <input
+                            type="number"
+                            min="1"
+                            value={quantity}
+                            onChange={(e) => setQuantity(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    e.preventDefault()
+                                    handleAddLine()
+                                }
+                            }}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <button
+                        onClick={handleAddLine}
+                        disabled={!medicineName || batchesLoading}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        + Add to Bill
+                    </button>
+                </div>
+
+                {/* Batch availability for the selected medicine */}
+                {medicineName && (
+                    <div className="mt-3 text-xs sm:text-sm text-gray-600">
+                        {batchesLoading ? 'Checking stock...' : batchInfo && batchInfo.batches.length > 0 ? (
+                            <div>
+                                <span className="font-medium text-gray-900">{Math.max(availableForLine, 0)} units available</span>
+                                <span className="ml-2">
+                                    • Picks from: {batchInfo.batches.slice(0, 3).map(batch =>
+                                        `${batch.batch_number} (exp ${new Date(batch.expiry_date).toLocaleDateString('en-IN', { month: '2-digit', year: '2-digit' })}, ${batch.available_stock} @ ₹${batch.mrp.toFixed(2)})`
+                                    ).join(', ')}
+                                    {batchInfo.batches.length > 3 && ` +${batchInfo.batches.length - 3} more`}
+                                </span>
+                            </div>
+                        ) : (
+                            <span className="text-red-600">No sellable stock for this medicine</span>
+                        )}
+                    </div>
+                )}
+
+                {/* Bill Lines */}
+                <div className="overflow-x-auto mt-4">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Medicine</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Qty</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">MRP</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Amount</th>
+                                <th className="px-3 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {lines.length > 0 ? lines.map((line, index) => (
+                                <tr key={index} className="border-t border-gray-200">
+                                    <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{line.medicine_name}</td>
+                                    <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{line.quantity}</td>
+                                    <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">₹{line.mrp.toFixed(2)}</td>
+                                    <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">₹{(line.quantity * line.mrp).toFixed(2)}</td>
+                                    <td className="px-3 py-2 text-right">
+                                        <button
+                                            onClick={() => handleRemoveLine(index)}
+                                            className="text-red-600 hover:text-red-800 text-xs sm:text-sm"
+                                        >
+                                            Remove
+                                        </button>
+                                    </td>
+                                </tr>
+                            )) : (
+                                <tr>
+                                    <td colSpan={5} className="px-3 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        No medicines added yet.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                {/* Totals and Actions */}
+                <div className="mt-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 border-t border-gray-200 pt-4">
+                    <div className="text-sm text-gray-700 space-y-1">
+                        <div>Subtotal: ₹{getSubtotal().toFixed(2)}</div>
+                        {getDiscount() > 0 && <div>Discount: - ₹{getDiscount().toFixed(2)}</div>}
+                        <div className="text-lg font-bold text-gray-900">Total: ₹{(getSubtotal() - getDiscount()).toFixed(2)}</div>
+                        <div className="text-xs text-gray-500">Final amounts are calculated per batch at the time of sale</div>
+                    </div>
+                    <div className="flex gap-2 sm:gap-3 w-full sm:w-auto">
+                        <button
+                            onClick={resetBill}
+                            className="flex-1 sm:flex-none px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                            Clear
+                        </button>
+                        <button
+                            onClick={handleCompleteSale}
+                            disabled={isCreating || lines.length === 0}
+                            className="flex-1 sm:flex-none px-4 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                        >
+                            {isCreating ? 'Saving...' : 'Complete Sale & Print'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* Recent Bills */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">Recent Bills</h3>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Bill No.</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Date</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Customer</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Items</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Payment</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Total</th>
+                                <th className="px-3 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {salesLoading ? (
+                                Array.from({ length: 3 }).map((_, index) => (
+                                    <tr key={index} className="border-t border-gray-200">
+                                        <td colSpan={7} className="px-3 py-2"><div className="animate-pulse bg-gray-200 h-4 w-full rounded"></div></td>
+                                    </tr>
+                                ))
+                            ) : recentSales.length > 0 ? (
+                                recentSales.map((sale) => (
+                                    <tr key={sale.id} className="border-t border-gray-200 hover:bg-gray-50">
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{sale.bill_number}</td>
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-500 whitespace-nowrap">{new Date(sale.sale_date).toLocaleDateString('en-IN')}</td>
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-500">{sale.customer_name || 'Walk-in'}</td>
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-500">{sale.sale_items?.length || 0}</td>
+                                        <td className="px-3 py-2 text-xs sm:text-sm text-gray-500 uppercase">{sale.payment_mode}</td>
+                                        <td className="px-3 py-2 text-xs sm:text-sm font-medium text-gray-900 whitespace-nowrap">₹{sale.total_amount.toLocaleString('en-IN')}</td>
+                                        <td className="px-3 py-2 text-right">
+                                            <button
+                                                onClick={() => downloadReceiptAsPDF(sale)}
+                                                disabled={printingSaleId === sale.id}
+                                                className="text-blue-600 hover:text-blue-800 text-xs sm:text-sm disabled:text-gray-400"
+                                            >
+                                                {printingSaleId === sale.id ? 'Printing...' : 'Receipt'}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))
+                            ) : (
+                                <tr>
+                                    <td colSpan={7} className="px-3 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        No bills yet.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                {/* Pagination Controls */}
+                {totalPages > 1 && (
+                    <div className="mt-3 sm:mt-4 flex items-center justify-between border-t border-gray-200 pt-3 sm:pt-4">
+                        <span className="text-xs sm:text-sm text-gray-700">Showing page {currentPage} of {totalPages}</span>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                                disabled={currentPage === 1}
+                                className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                            >
+                                Previous
+                            </button>
+                            <button
+                                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                                disabled={currentPage >= totalPages}
+                                className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                            >
+                                Next
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
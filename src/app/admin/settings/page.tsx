@@ -2,6 +2,23 @@
 
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
+import { withActivePharmacy } from '@/lib/auth/active-pharmacy'
+import { useAuth } from '@/lib/auth/AuthContext'
+import { PHARMACY_ROLES, type PharmacyRole } from '@/lib/auth/permissions'
+import { useAppDispatch } from '@/lib/store'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+import {
+    useGetStaffQuery,
+    useInviteStaffMutation,
+    useUpdateStaffMemberMutation,
+    useGetPharmacySettingsQuery,
+    useUpdatePharmacySettingsMutation,
+    useGetScheduledJobsQuery,
+    type StaffMember,
+    type CronJobRun
+} from '@/lib/store/api/pharmacyApi'
+import { SUPPORTED_CURRENCIES, formatCurrency as formatAmount, type PharmacySettings } from '@/lib/settings/pharmacy-settings'
+import type { CleanupMode, CleanupResult } from '@/lib/cron/cleanup-logic'
 
 interface UserInfo {
     id: string
@@ -42,18 +59,54 @@ interface UserPharmacyData {
     pharmacy: PharmacyInfo
 }
 
+const JOB_STATUS_STYLES: Record<CronJobRun['status'], string> = {
+    running: 'bg-blue-100 text-blue-800',
+    success: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800'
+}
+
 export default function AdminSettings() {
+    const { can } = useAuth()
+    const dispatch = useAppDispatch()
+    const canManageStaff = can('staff.manage')
+    const canManageSettings = can('settings.manage')
     const [userPharmacyData, setUserPharmacyData] = useState<UserPharmacyData | null>(null)
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [showCleanupModal, setShowCleanupModal] = useState(false)
     const [isCleanupRunning, setIsCleanupRunning] = useState(false)
     const [cleanupResult, setCleanupResult] = useState<any>(null)
+    const [cleanupPreview, setCleanupPreview] = useState<CleanupResult | null>(null)
+    const [isPreviewLoading, setIsPreviewLoading] = useState(false)
+    const [archiveBeforeDelete, setArchiveBeforeDelete] = useState(true)
+    const [showInviteModal, setShowInviteModal] = useState(false)
+    const [inviteForm, setInviteForm] = useState<{ email: string; full_name: string; role: PharmacyRole }>({
+        email: '',
+        full_name: '',
+        role: 'staff'
+    })
+    const [passwordForm, setPasswordForm] = useState({ password: '', confirm: '' })
+    const [isSavingPassword, setIsSavingPassword] = useState(false)
+    const [settingsForm, setSettingsForm] = useState<PharmacySettings | null>(null)
+
+    const { data: staff, isLoading: isStaffLoading } = useGetStaffQuery(undefined, { skip: !canManageStaff })
+    const [inviteStaff, { isLoading: isInviting }] = useInviteStaffMutation()
+    const [updateStaffMember] = useUpdateStaffMemberMutation()
+    const { data: pharmacySettings } = useGetPharmacySettingsQuery()
+    const [updatePharmacySettings, { isLoading: isSavingSettings }] = useUpdatePharmacySettingsMutation()
+    const { data: scheduledJobs, isLoading: isJobsLoading, refetch: refetchJobs } = useGetScheduledJobsQuery()
 
     useEffect(() => {
         fetchUserInfo()
     }, [])
 
+    // Reset the form whenever the saved settings change (first load, save, branch switch)
+    useEffect(() => {
+        if (pharmacySettings) {
+            setSettingsForm(pharmacySettings)
+        }
+    }, [pharmacySettings])
+
     const fetchUserInfo = async () => {
         try {
             setLoading(true)
@@ -66,9 +119,9 @@ export default function AdminSettings() {
             }
             
             const response = await fetch('/api/user-info', {
-                headers: {
+                headers: withActivePharmacy({
                     'Authorization': `Bearer ${session.access_token}`
-                }
+                })
             })
             
             if (!response.ok) {
@@ -111,7 +164,7 @@ export default function AdminSettings() {
 
     const getDataRetentionInfo = () => {
         const currentYear = new Date().getFullYear()
-        const retentionYears = parseInt(process.env.NEXT_PUBLIC_CLEANUP_RETENTION_YEARS || '4', 10)
+        const retentionYears = pharmacySettings?.cleanup_retention_years ?? 4
         const cutoffYear = currentYear - retentionYears
         
         const lastCleanup = userPharmacyData?.pharmacy.last_cleanup_date
@@ -124,33 +177,60 @@ export default function AdminSettings() {
         }
     }
 
+    // Helper function to call the cleanup API for the active pharmacy
+    const requestCleanup = async (mode: CleanupMode): Promise<CleanupResult> => {
+        // Get the current session and add auth header
+        const { data: { session } } = await supabase.auth.getSession()
+        
+        if (!session?.access_token) {
+            throw new Error('Authentication required. Please log in again.')
+        }
+        
+        const response = await fetch('/api/cleanup-expired', {
+            method: 'POST',
+            headers: withActivePharmacy({
+                'Authorization': `Bearer ${session.access_token}`,
+                'Content-Type': 'application/json'
+            }),
+            body: JSON.stringify({ mode })
+        })
+        
+        if (!response.ok) {
+            const errorData = await response.json()
+            throw new Error(errorData.error || 'Failed to run cleanup')
+        }
+        
+        return response.json()
+    }
+
+    // Opens the confirmation with a dry run of exactly what would be removed
+    const openCleanupModal = async () => {
+        setShowCleanupModal(true)
+        setCleanupResult(null)
+        setCleanupPreview(null)
+        setArchiveBeforeDelete(true)
+
+        try {
+            setIsPreviewLoading(true)
+            setCleanupPreview(await requestCleanup('dry_run'))
+        } catch (err) {
+            setCleanupResult({
+                success: false,
+                error: err instanceof Error ? err.message : 'Could not preview the cleanup'
+            })
+        } finally {
+            setIsPreviewLoading(false)
+        }
+    }
+
     const handleCleanupExpiredMedicines = async () => {
         try {
             setIsCleanupRunning(true)
             setCleanupResult(null)
             
-            // Get the current session and add auth header
-            const { data: { session } } = await supabase.auth.getSession()
-            
-            if (!session?.access_token) {
-                throw new Error('Authentication required. Please log in again.')
-            }
-            
-            const response = await fetch('/api/cleanup-expired', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${session.access_token}`,
-                    'Content-Type': 'application/json'
-                }
-            })
-            
-            if (!response.ok) {
-                const errorData = await response.json()
-                throw new Error(errorData.error || 'Failed to run cleanup')
-            }
-            
-            const result = await response.json()
+            const result = await requestCleanup(archiveBeforeDelete ? 'archive' : 'delete')
             setCleanupResult(result)
+            refetchJobs()
             
         } catch (err) {
             setCleanupResult({
@@ -162,6 +242,111 @@ export default function AdminSettings() {
         }
     }
 
+    // Saves the dry run as a CSV so the removed batches can be kept outside the app
+    const downloadCleanupPreview = () => {
+        if (!cleanupPreview?.batches) return
+
+        const header = ['Medicine', 'Batch', 'Expiry', 'Invoice', 'Purchase Date', 'Supplier', 'Quantity', 'Purchase Value', 'Current Stock', 'Stock Value', 'Removes Invoice']
+        const rows = cleanupPreview.batches.map(batch => [
+            batch.medicine_name || '',
+            batch.batch_number,
+            batch.expiry_date,
+            batch.invoice_number || '',
+            batch.purchase_date || '',
+            batch.supplier_name || '',
+            batch.quantity,
+            batch.purchase_value.toFixed(2),
+            batch.current_stock,
+            batch.stock_value.toFixed(2),
+            batch.removes_purchase ? 'Yes' : 'No'
+        ])
+        const csv = [header, ...rows]
+            .map(row => row.map(value => `"${String(value).replace(/"/g, '""')}"`).join(','))
+            .join('\n')
+
+        const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = `expired-cleanup-preview-${cleanupPreview.cutoffDate || new Date().toISOString().split('T')[0]}.csv`
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault()
+        try {
+            const result = await inviteStaff({
+                email: inviteForm.email.trim(),
+                full_name: inviteForm.full_name.trim() || undefined,
+                role: inviteForm.role
+            }).unwrap()
+            dispatch(addNotification({ type: 'success', title: result.invited ? 'Invitation Sent' : 'Member Added', message: result.message }))
+            setShowInviteModal(false)
+            setInviteForm({ email: '', full_name: '', role: 'staff' })
+        } catch (err) {
+            const data = (err as { data?: { error?: string } })?.data
+            dispatch(addNotification({ type: 'error', title: 'Invite Failed', message: data?.error || 'Failed to invite user' }))
+        }
+    }
+
+    const handleMemberUpdate = async (member: StaffMember, changes: { role?: PharmacyRole; is_active?: boolean }) => {
+        if (changes.is_active === false && !confirm(`Remove ${member.full_name || member.email}'s access to this pharmacy?`)) return
+
+        try {
+            const result = await updateStaffMember({ member_id: member.id, ...changes }).unwrap()
+            dispatch(addNotification({ type: 'success', title: 'Member Updated', message: `${member.full_name || member.email}: ${result.message}` }))
+        } catch (err) {
+            const data = (err as { data?: { error?: string } })?.data
+            dispatch(addNotification({ type: 'error', title: 'Update Failed', message: data?.error || 'Failed to update member' }))
+        }
+    }
+
+    const handlePasswordChange = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (passwordForm.password.length < 8) {
+            dispatch(addNotification({ type: 'error', title: 'Password Too Short', message: 'Use at least 8 characters' }))
+            return
+        }
+        if (passwordForm.password !== passwordForm.confirm) {
+            dispatch(addNotification({ type: 'error', title: 'Passwords Do Not Match', message: 'Enter the same password twice' }))
+            return
+        }
+
+        try {
+            setIsSavingPassword(true)
+            const { error: passwordError } = await supabase.auth.updateUser({ password: passwordForm.password })
+            if (passwordError) throw passwordError
+            dispatch(addNotification({ type: 'success', title: 'Password Updated', message: 'Use your new password next time you sign in' }))
+            setPasswordForm({ password: '', confirm: '' })
+        } catch (err) {
+            dispatch(addNotification({ type: 'error', title: 'Password Update Failed', message: err instanceof Error ? err.message : 'Failed to update password' }))
+        } finally {
+            setIsSavingPassword(false)
+        }
+    }
+
+    const handleSettingsChange = <K extends keyof PharmacySettings>(field: K, value: PharmacySettings[K]) => {
+        setSettingsForm(prev => prev ? { ...prev, [field]: value } : prev)
+    }
+
+    const handleSettingsSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!settingsForm) return
+
+        if (settingsForm.expiry_critical_days >= settingsForm.expiry_warning_days || settingsForm.expiry_warning_days > settingsForm.expiry_alert_days) {
+            dispatch(addNotification({ type: 'error', title: 'Invalid Expiry Windows', message: 'Critical days must be less than warning days, and warning days no more than alert days' }))
+            return
+        }
+
+        try {
+            await updatePharmacySettings(settingsForm).unwrap()
+            dispatch(addNotification({ type: 'success', title: 'Settings Saved', message: 'Stock and expiry reports now use the new values' }))
+        } catch (err) {
+            const data = (err as { data?: { error?: string } })?.data
+            dispatch(addNotification({ type: 'error', title: 'Save Failed', message: data?.error || 'Failed to save settings' }))
+        }
+    }
+
     if (loading) {
         return (
             <div className="space-y-6">
@@ -429,6 +614,169 @@ export default function AdminSettings() {
                 </div>
             )}
 
+            {/* Pharmacy Preferences */}
+            {settingsForm && (
+                <form onSubmit={handleSettingsSave} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                    <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-4">
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-900">Preferences</h3>
+                            <p className="text-sm text-gray-600">
+                                {canManageSettings
+                                    ? 'Thresholds and defaults used by inventory, expiry tracking, purchases and reports'
+                                    : 'Only a manager or owner can change these settings'}
+                            </p>
+                        </div>
+                        {canManageSettings && (
+                            <button
+                                type="submit"
+                                disabled={isSavingSettings}
+                                className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            >
+                                {isSavingSettings ? 'Saving...' : 'Save Settings'}
+                            </button>
+                        )}
+                    </div>
+
+                    <fieldset disabled={!canManageSettings} className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        {/* Inventory */}
+                        <div className="space-y-3">
+                            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Inventory</h4>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Low Stock Threshold (units)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={settingsForm.low_stock_threshold}
+                                    onChange={(e) => handleSettingsChange('low_stock_threshold', parseInt(e.target.value) || 0)}
+                                    className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={settingsForm.auto_reorder}
+                                    onChange={(e) => handleSettingsChange('auto_reorder', e.target.checked)}
+                                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                />
+                                Suggest reorders automatically
+                            </label>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Data Retention (years)</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="50"
+                                    value={settingsForm.cleanup_retention_years}
+                                    onChange={(e) => handleSettingsChange('cleanup_retention_years', parseInt(e.target.value) || 0)}
+                                    className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                />
+                                <p className="text-xs text-gray-500 mt-1">Expired batch records older than this are removed by the cleanup.</p>
+                            </div>
+                        </div>
+
+                        {/* Expiry */}
+                        <div className="space-y-3">
+                            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Expiry Windows (days)</h4>
+                            <div className="grid grid-cols-3 gap-2">
+                                <div>
+                                    <label className="block text-xs font-medium text-orange-700 mb-1">Critical</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={settingsForm.expiry_critical_days}
+                                        onChange={(e) => handleSettingsChange('expiry_critical_days', parseInt(e.target.value) || 0)}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-medium text-yellow-700 mb-1">Warning</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={settingsForm.expiry_warning_days}
+                                        onChange={(e) => handleSettingsChange('expiry_warning_days', parseInt(e.target.value) || 0)}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-medium text-blue-700 mb-1">Alert</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={settingsForm.expiry_alert_days}
+                                        onChange={(e) => handleSettingsChange('expiry_alert_days', parseInt(e.target.value) || 0)}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500">
+                                Batches expiring within the alert window are tracked and raise alerts; the critical and warning windows set how urgent they are.
+                            </p>
+                        </div>
+
+                        {/* Financial & Notifications */}
+                        <div className="space-y-3">
+                            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Financial</h4>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-700 mb-1">Default Markup %</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={settingsForm.default_markup_percentage}
+                                        onChange={(e) => handleSettingsChange('default_markup_percentage', parseFloat(e.target.value) || 0)}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-700 mb-1">Default GST %</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="100"
+                                        step="0.01"
+                                        value={settingsForm.default_tax_percentage}
+                                        onChange={(e) => handleSettingsChange('default_tax_percentage', parseFloat(e.target.value) || 0)}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                    />
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-700 mb-1">Currency</label>
+                                <select
+                                    value={settingsForm.currency}
+                                    onChange={(e) => handleSettingsChange('currency', e.target.value)}
+                                    className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                >
+                                    {SUPPORTED_CURRENCIES.map(currency => (
+                                        <option key={currency} value={currency}>{currency}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={settingsForm.email_notifications}
+                                    onChange={(e) => handleSettingsChange('email_notifications', e.target.checked)}
+                                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                />
+                                Email notifications
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={settingsForm.sms_notifications}
+                                    onChange={(e) => handleSettingsChange('sms_notifications', e.target.checked)}
+                                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                />
+                                SMS notifications
+                            </label>
+                        </div>
+                    </fieldset>
+                </form>
+            )}
+
             {/* Settings Categories */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Data Management */}
@@ -450,7 +798,7 @@ export default function AdminSettings() {
                                 </svg>
                                 <div className="ml-3">
                                     <p className="text-sm text-amber-800">
-                                        This will permanently delete expired medicine records that are <strong>2+ years old</strong>. This action cannot be undone.
+                                        This removes records of medicines that expired before {getDataRetentionInfo().dataFrom} (<strong>{getDataRetentionInfo().retentionYears} year retention</strong>). You will see exactly what would be removed before anything is deleted.
                                     </p>
                                 </div>
                             </div>
@@ -466,36 +814,237 @@ export default function AdminSettings() {
                             </ul>
                         </div> */}
                        
-                        <button 
-                            onClick={() => setShowCleanupModal(true)}
-                            disabled={isCleanupRunning}
-                            className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors duration-200 font-medium disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center"
-                        > 
-                            {isCleanupRunning ? (
-                                <>
-                                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                    </svg>
-                                    Running Cleanup...
-                                </>
-                            ) : (
-                                <>
-                                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                                    </svg>
-                                    Run Cleanup Now
-                                </>
-                            )}
-                        </button>
+                        {can('data.cleanup') ? (
+                            <button 
+                                onClick={openCleanupModal}
+                                disabled={isCleanupRunning}
+                                className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors duration-200 font-medium disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center"
+                            > 
+                                {isCleanupRunning ? (
+                                    <>
+                                        <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                        </svg>
+                                        Running Cleanup...
+                                    </>
+                                ) : (
+                                    <>
+                                        <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                        </svg>
+                                        Run Cleanup Now
+                                    </>
+                                )}
+                            </button>
+                        ) : (
+                            <p className="text-sm text-gray-500">
+                                Only a manager or owner can run the cleanup.
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                {/* Password */}
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                    <div className="flex items-center mb-4">
+                        <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                            <svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                            </svg>
+                        </div>
+                        <h3 className="ml-3 text-lg font-semibold text-gray-900">Password</h3>
                     </div>
+
+                    <form onSubmit={handlePasswordChange} className="space-y-3">
+                        <p className="text-sm text-gray-600">
+                            Set or change the password you sign in with. If you joined through an invitation, set one here first.
+                        </p>
+                        <input
+                            type="password"
+                            value={passwordForm.password}
+                            onChange={(e) => setPasswordForm(prev => ({ ...prev, password: e.target.value }))}
+                            placeholder="New password"
+                            autoComplete="new-password"
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                            type="password"
+                            value={passwordForm.confirm}
+                            onChange={(e) => setPasswordForm(prev => ({ ...prev, confirm: e.target.value }))}
+                            placeholder="Confirm new password"
+                            autoComplete="new-password"
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                            type="submit"
+                            disabled={isSavingPassword || !passwordForm.password}
+                            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+                        >
+                            {isSavingPassword ? 'Saving...' : 'Update Password'}
+                        </button>
+                    </form>
                 </div>
             </div>
 
+            {/* Scheduled Jobs */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">Scheduled Jobs</h3>
+                    <p className="text-sm text-gray-600">Background tasks that run automatically, with the result of their last run</p>
+                </div>
+
+                {isJobsLoading ? (
+                    <p className="text-sm text-gray-500">Loading jobs...</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full table-auto">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Job</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Schedule</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Last Run</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Status</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Output</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {scheduledJobs?.data.map(job => (
+                                    <tr key={job.name} className="border-t border-gray-200 align-top">
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                            <div className="font-medium">{job.label}</div>
+                                            <div className="text-xs text-gray-500">{job.description}</div>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{job.schedule_label}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">
+                                            {job.last_run ? (
+                                                <>
+                                                    <div>{new Date(job.last_run.started_at).toLocaleString()}</div>
+                                                    <div className="text-xs text-gray-500">
+                                                        {job.last_run.trigger === 'manual' ? 'Run manually' : 'Scheduled'}
+                                                        {job.last_run.duration_ms !== null && ` · ${(job.last_run.duration_ms / 1000).toFixed(1)}s`}
+                                                    </div>
+                                                </>
+                                            ) : (
+                                                <span className="text-gray-500">Never run</span>
+                                            )}
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            {job.last_run && (
+                                                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${JOB_STATUS_STYLES[job.last_run.status]}`}>
+                                                    {job.last_run.status}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 max-w-md">
+                                            {job.last_run?.message}
+                                            {job.last_run?.error && (
+                                                <div className="text-xs text-red-600 mt-1">{job.last_run.error}</div>
+                                            )}
+                                            {job.last_run?.output && Object.keys(job.last_run.output).length > 0 && (
+                                                <details className="mt-1">
+                                                    <summary className="text-xs text-blue-600 cursor-pointer">Details</summary>
+                                                    <pre className="mt-1 text-xs text-gray-700 bg-gray-50 rounded p-2 overflow-x-auto">
+                                                        {JSON.stringify(job.last_run.output, null, 2)}
+                                                    </pre>
+                                                </details>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Staff & Access */}
+            {canManageStaff && (
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                    <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-4">
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-900">Staff &amp; Access</h3>
+                            <p className="text-sm text-gray-600">Invite people to this pharmacy and control what their role allows</p>
+                        </div>
+                        <button
+                            onClick={() => setShowInviteModal(true)}
+                            className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                        >
+                            + Invite Staff
+                        </button>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full table-auto">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Name</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Email</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Role</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Status</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Member Since</th>
+                                    <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {isStaffLoading ? (
+                                    <tr className="border-t border-gray-200">
+                                        <td colSpan={6} className="px-3 sm:px-4 py-6 text-center text-sm text-gray-500">
+                                            Loading staff...
+                                        </td>
+                                    </tr>
+                                ) : (staff?.data || []).map((member) => (
+                                    <tr key={member.id} className={`border-t border-gray-200 hover:bg-gray-50 ${member.is_active ? '' : 'opacity-60'}`}>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm font-medium text-gray-900 whitespace-nowrap">
+                                            {member.full_name || '-'}
+                                            {member.is_current_user && <span className="ml-1 text-xs text-gray-500">(you)</span>}
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{member.email}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            {member.is_current_user ? (
+                                                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRoleBadgeColor(member.role)}`}>
+                                                    {member.role}
+                                                </span>
+                                            ) : (
+                                                <select
+                                                    value={member.role}
+                                                    onChange={(e) => handleMemberUpdate(member, { role: e.target.value as PharmacyRole })}
+                                                    className="px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md capitalize focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                >
+                                                    {PHARMACY_ROLES.map(role => (
+                                                        <option key={role} value={role}>{role}</option>
+                                                    ))}
+                                                </select>
+                                            )}
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${member.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+                                                {member.is_active ? 'Active' : 'No access'}
+                                            </span>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatDate(member.created_at)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            {!member.is_current_user && (
+                                                <button
+                                                    onClick={() => handleMemberUpdate(member, { is_active: !member.is_active })}
+                                                    className={`${member.is_active ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'} font-medium whitespace-nowrap`}
+                                                >
+                                                    {member.is_active ? 'Remove Access' : 'Restore Access'}
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
             {/* Cleanup Confirmation Modal */}
             {showCleanupModal && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+                    <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
                         <div className="p-6">
                             <div className="flex items-center mb-4">
                                 <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center">
@@ -509,17 +1058,100 @@ export default function AdminSettings() {
                             {!cleanupResult ? (
                                 <>
                                     <div className="mb-6">
-                                        <p className="text-gray-700 mb-4">
-                                            Are you sure you want to run the expired medicine cleanup?
-                                        </p>
-                                        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                                            <p className="text-sm text-red-800 font-medium mb-2">⚠️ Warning:</p>
-                                            <ul className="text-sm text-red-700 space-y-1 list-disc list-inside">
-                                                <li>This will permanently delete expired medicines from 2+ years ago (before {new Date().getFullYear() - 2})</li>
-                                                <li>Deleted data cannot be recovered</li>
-                                                <li>This may take several minutes to complete</li>
-                                            </ul>
-                                        </div>
+                                        {isPreviewLoading || !cleanupPreview ? (
+                                            <p className="text-sm text-gray-600">Checking which records would be removed...</p>
+                                        ) : cleanupPreview.batchesProcessed === 0 ? (
+                                            <p className="text-gray-700">
+                                                No batches expired before {cleanupPreview.cutoffDate}. Nothing will be removed.
+                                            </p>
+                                        ) : (
+                                            <>
+                                                <p className="text-gray-700 mb-4">
+                                                    {cleanupPreview.batchesProcessed} batches expired before {cleanupPreview.cutoffDate} will be removed,
+                                                    worth {formatAmount(cleanupPreview.purchase_value, pharmacySettings?.currency)} at purchase.
+                                                </p>
+
+                                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4 text-sm">
+                                                    <div className="bg-gray-50 rounded-lg p-2">
+                                                        <div className="text-xs text-gray-500">Purchase Items</div>
+                                                        <div className="font-medium text-gray-900">{cleanupPreview.stats.purchase_items}</div>
+                                                    </div>
+                                                    <div className="bg-gray-50 rounded-lg p-2">
+                                                        <div className="text-xs text-gray-500">Whole Invoices</div>
+                                                        <div className="font-medium text-gray-900">{cleanupPreview.stats.purchases}</div>
+                                                    </div>
+                                                    <div className="bg-gray-50 rounded-lg p-2">
+                                                        <div className="text-xs text-gray-500">Inventory Rows</div>
+                                                        <div className="font-medium text-gray-900">{cleanupPreview.stats.current_inventory}</div>
+                                                    </div>
+                                                    <div className="bg-gray-50 rounded-lg p-2">
+                                                        <div className="text-xs text-gray-500">Stock Transactions</div>
+                                                        <div className="font-medium text-gray-900">{cleanupPreview.stats.stock_transactions}</div>
+                                                    </div>
+                                                </div>
+
+                                                <div className="overflow-x-auto max-h-64 overflow-y-auto border border-gray-200 rounded-lg mb-2">
+                                                    <table className="min-w-full table-auto">
+                                                        <thead className="sticky top-0">
+                                                            <tr className="bg-gray-50">
+                                                                <th className="px-2 py-2 text-left text-xs font-medium text-gray-700">Medicine</th>
+                                                                <th className="px-2 py-2 text-left text-xs font-medium text-gray-700">Batch</th>
+                                                                <th className="px-2 py-2 text-left text-xs font-medium text-gray-700">Expiry</th>
+                                                                <th className="px-2 py-2 text-left text-xs font-medium text-gray-700">Invoice</th>
+                                                                <th className="px-2 py-2 text-right text-xs font-medium text-gray-700">Qty</th>
+                                                                <th className="px-2 py-2 text-right text-xs font-medium text-gray-700">Value</th>
+                                                                <th className="px-2 py-2 text-right text-xs font-medium text-gray-700">In Stock</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {cleanupPreview.batches?.map(batch => (
+                                                                <tr key={batch.purchase_item_id} className="border-t border-gray-200">
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{batch.medicine_name || '-'}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{batch.batch_number}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900 whitespace-nowrap">{batch.expiry_date}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">
+                                                                        {batch.invoice_number || '-'}
+                                                                        {batch.removes_purchase && <span className="ml-1 text-red-600">(whole invoice)</span>}
+                                                                    </td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900 text-right">{batch.quantity}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900 text-right whitespace-nowrap">{formatAmount(batch.purchase_value, pharmacySettings?.currency)}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900 text-right">{batch.current_stock}</td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                </div>
+                                                <button
+                                                    onClick={downloadCleanupPreview}
+                                                    className="text-sm text-blue-600 hover:text-blue-800 font-medium mb-4"
+                                                >
+                                                    Download list (CSV)
+                                                </button>
+
+                                                <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={archiveBeforeDelete}
+                                                        onChange={(e) => setArchiveBeforeDelete(e.target.checked)}
+                                                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                                    />
+                                                    Keep a copy of every removed record in the archive
+                                                </label>
+
+                                                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                                                    <p className="text-sm text-red-800 font-medium mb-2">⚠️ Warning:</p>
+                                                    <ul className="text-sm text-red-700 space-y-1 list-disc list-inside">
+                                                        <li>Removing a whole invoice also removes its supplier payments and goods receipts</li>
+                                                        <li>
+                                                            {archiveBeforeDelete
+                                                                ? 'Removed records are copied to the archive first and no longer appear in reports'
+                                                                : 'Deleted data cannot be recovered'}
+                                                        </li>
+                                                        <li>This may take several minutes to complete</li>
+                                                    </ul>
+                                                </div>
+                                            </>
+                                        )}
                                     </div>
                                     
                                     <div className="flex space-x-3">
@@ -532,7 +1164,7 @@ export default function AdminSettings() {
                                         </button>
                                         <button
                                             onClick={handleCleanupExpiredMedicines}
-                                            disabled={isCleanupRunning}
+                                            disabled={isCleanupRunning || isPreviewLoading || !cleanupPreview}
                                             className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors duration-200 font-medium disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center"
                                         >
                                             {isCleanupRunning ? (
@@ -585,6 +1217,12 @@ export default function AdminSettings() {
                                                                 <span>Orphaned Purchases:</span>
                                                                 <span className="font-medium">{cleanupResult.stats.purchases}</span>
                                                             </div>
+                                                            {cleanupResult.mode === 'archive' && (
+                                                                <div className="flex justify-between">
+                                                                    <span>Records Archived:</span>
+                                                                    <span className="font-medium">{cleanupResult.archived}</span>
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 )}
@@ -619,6 +1257,72 @@ export default function AdminSettings() {
                     </div>
                 </div>
             )}
+
+            {/* Invite Staff Modal */}
+            {showInviteModal && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+                        <form onSubmit={handleInvite} className="p-6 space-y-4">
+                            <div>
+                                <h3 className="text-lg font-semibold text-gray-900">Invite Staff</h3>
+                                <p className="text-sm text-gray-600">New users get an email invitation to set up their account. Existing users are added straight away.</p>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Email *</label>
+                                <input
+                                    type="email"
+                                    required
+                                    value={inviteForm.email}
+                                    onChange={(e) => setInviteForm(prev => ({ ...prev, email: e.target.value }))}
+                                    className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
+                                <input
+                                    type="text"
+                                    value={inviteForm.full_name}
+                                    onChange={(e) => setInviteForm(prev => ({ ...prev, full_name: e.target.value }))}
+                                    placeholder="Required for new users"
+                                    className="w-full px-3 py-2 text-sm text-gray-900 placeholder-gray-500 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Role *</label>
+                                <select
+                                    value={inviteForm.role}
+                                    onChange={(e) => setInviteForm(prev => ({ ...prev, role: e.target.value as PharmacyRole }))}
+                                    className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md capitalize focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {PHARMACY_ROLES.map(role => (
+                                        <option key={role} value={role}>{role}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="flex gap-3">
+                                <button
+                                    type="button"
+                                    onClick={() => setShowInviteModal(false)}
+                                    className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors duration-200 font-medium"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isInviting}
+                                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 font-medium disabled:opacity-50"
+                                >
+                                    {isInviting ? 'Sending...' : 'Send Invite'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
         </div>
     )
-} 
\ No newline at end of file
+}
@@ -0,0 +1,474 @@
+'use client'
+
+import { useState } from 'react'
+import { useAppDispatch } from '@/lib/store'
+import { useAuth } from '@/lib/auth/AuthContext'
+import {
+    useGetOutstandingPaymentsQuery,
+    useGetSupplierLedgerQuery,
+    useGetSuppliersQuery,
+    useCreateSupplierPaymentMutation,
+    useDeleteSupplierPaymentMutation,
+    type PurchasePaymentInfo,
+    type SupplierPayment
+} from '@/lib/store/api/pharmacyApi'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+
+const PAYMENT_MODE_LABELS: Record<SupplierPayment['payment_mode'], string> = {
+    cash: 'Cash',
+    cheque: 'Cheque',
+    bank_transfer: 'Bank Transfer',
+    upi: 'UPI',
+    card: 'Card'
+}
+
+const STATUS_STYLES: Record<PurchasePaymentInfo['payment_status'], string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    partial: 'bg-blue-100 text-blue-800',
+    paid: 'bg-green-100 text-green-800',
+    overdue: 'bg-red-100 text-red-800'
+}
+
+const formatAmount = (value: number) => `₹${(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export default function SupplierPaymentsPage() {
+    const dispatch = useAppDispatch()
+    const { can } = useAuth()
+    const canManage = can('supplier_payments.manage')
+    const [selectedSupplierId, setSelectedSupplierId] = useState('')
+    const [showOverdueOnly, setShowOverdueOnly] = useState(false)
+
+    // Payment modal state
+    const [paymentForm, setPaymentForm] = useState<{
+        invoice: PurchasePaymentInfo | null
+        amount: string
+        payment_mode: SupplierPayment['payment_mode']
+        payment_date: string
+        reference_number: string
+        notes: string
+    }>({
+        invoice: null,
+        amount: '',
+        payment_mode: 'cash',
+        payment_date: new Date().toISOString().split('T')[0],
+        reference_number: '',
+        notes: ''
+    })
+
+    // RTK Query hooks
+    const { data: outstanding, isLoading: outstandingLoading } = useGetOutstandingPaymentsQuery(showOverdueOnly ? { status: 'overdue' } : undefined)
+    const { data: suppliers } = useGetSuppliersQuery()
+    const { data: ledger, isFetching: ledgerLoading } = useGetSupplierLedgerQuery(selectedSupplierId, { skip: !selectedSupplierId })
+    const [createPayment, { isLoading: isSaving }] = useCreateSupplierPaymentMutation()
+    const [deletePayment] = useDeleteSupplierPaymentMutation()
+
+    const suppliersWithBalance = (outstanding?.supplier_balances || []).filter(balance => balance.outstanding_balance > 0)
+
+    const openPaymentModal = (invoice: PurchasePaymentInfo) => {
+        setPaymentForm({
+            invoice,
+            amount: invoice.balance_amount.toFixed(2),
+            payment_mode: 'cash',
+            payment_date: new Date().toISOString().split('T')[0],
+            reference_number: '',
+            notes: ''
+        })
+    }
+
+    const closePaymentModal = () => {
+        setPaymentForm(prev => ({ ...prev, invoice: null }))
+    }
+
+    const handleRecordPayment = async () => {
+        const invoice = paymentForm.invoice
+        const amount = parseFloat(paymentForm.amount)
+        if (!invoice) return
+
+        if (!amount || amount <= 0) {
+            alert('Please enter a valid amount')
+            return
+        }
+
+        if (amount > invoice.balance_amount) {
+            alert(`Amount cannot be more than the outstanding balance of ${formatAmount(invoice.balance_amount)}`)
+            return
+        }
+
+        try {
+            const result = await createPayment({
+                purchase_id: invoice.id,
+                amount,
+                payment_mode: paymentForm.payment_mode,
+                payment_date: paymentForm.payment_date,
+                reference_number: paymentForm.reference_number || undefined,
+                notes: paymentForm.notes || undefined
+            }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Payment Recorded',
+                message: `${formatAmount(amount)} paid against ${invoice.invoice_number}. Balance ${formatAmount(result.purchase.balance_amount)}`
+            }))
+            closePaymentModal()
+        } catch (error) {
+            console.error('Payment failed:', error)
+            const data = (error as { data?: { error?: string } })?.data
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Payment Failed',
+                message: data?.error || 'Failed to record payment. Please try again.'
+            }))
+        }
+    }
+
+    const handleDeletePayment = async (paymentId: string, reference: string) => {
+        if (!confirm(`Delete payment ${reference}? The invoice balance will be restored.`)) return
+
+        try {
+            await deletePayment(paymentId).unwrap()
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Payment Deleted',
+                message: 'The payment was removed and the invoice balance restored'
+            }))
+        } catch (error) {
+            console.error('Payment delete failed:', error)
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Error',
+                message: 'Failed to delete payment. Please try again.'
+            }))
+        }
+    }
+
+    const renderStatusBadge = (status: PurchasePaymentInfo['payment_status']) => (
+        <span className={`inline-flex px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium capitalize ${STATUS_STYLES[status] || 'bg-gray-100 text-gray-800'}`}>
+            {status}
+        </span>
+    )
+
+    return (
+        <div className="space-y-4 md:space-y-6">
+            {/* Page Header */}
+            <div>
+                <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Supplier Payments</h1>
+                <p className="text-sm sm:text-base text-gray-600">Record payments against invoices and track what is owed to each supplier</p>
+            </div>
+
+            {/* Stats Cards */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+                <div className="bg-white p-3 sm:p-4 rounded-lg border border-gray-200">
+                    <div className="text-xl sm:text-2xl font-bold text-gray-900">
+                        {outstandingLoading ? (
+                            <div className="animate-pulse bg-gray-200 h-6 sm:h-8 w-16 sm:w-20 rounded"></div>
+                        ) : (
+                            formatAmount(outstanding?.total_outstanding || 0)
+                        )}
+                    </div>
+                    <div className="text-xs sm:text-sm text-gray-600 mt-1">Total Outstanding</div>
+                </div>
+                <div className="bg-white p-3 sm:p-4 rounded-lg border border-gray-200">
+                    <div className="text-xl sm:text-2xl font-bold text-red-600">
+                        {outstandingLoading ? (
+                            <div className="animate-pulse bg-gray-200 h-6 sm:h-8 w-16 sm:w-20 rounded"></div>
+                        ) : (
+                            formatAmount(outstanding?.total_overdue || 0)
+                        )}
+                    </div>
+                    <div className="text-xs sm:text-sm text-gray-600 mt-1">Overdue</div>
+                </div>
+                <div className="bg-white p-3 sm:p-4 rounded-lg border border-gray-200">
+                    <div className="text-xl sm:text-2xl font-bold text-blue-600">
+                        {outstandingLoading ? (
+                            <div className="animate-pulse bg-gray-200 h-6 sm:h-8 w-12 sm:w-16 rounded"></div>
+                        ) : (
+                            suppliersWithBalance.length
+                        )}
+                    </div>
+                    <div className="text-xs sm:text-sm text-gray-600 mt-1">Suppliers With Balance</div>
+                </div>
+            </div>
+
+            {/* Outstanding Invoices */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 mb-3 sm:mb-4">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900">Outstanding Invoices</h3>
+                    <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={showOverdueOnly}
+                            onChange={(e) => setShowOverdueOnly(e.target.checked)}
+                            className="rounded border-gray-300"
+                        />
+                        Overdue only
+                    </label>
+                </div>
+                <div className="overflow-x-auto -mx-3 sm:-mx-4 md:-mx-6">
+                    <div className="inline-block min-w-full align-middle px-3 sm:px-4 md:px-6">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Supplier</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Invoice</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Invoice Date</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Due Date</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Total</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Paid</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Balance</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Status</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {outstandingLoading ? (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={9} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        Loading outstanding invoices...
+                                    </td>
+                                </tr>
+                            ) : outstanding?.invoices && outstanding.invoices.length > 0 ? (
+                                outstanding.invoices.map((invoice) => (
+                                    <tr key={invoice.id} className="border-t border-gray-200 hover:bg-gray-50">
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                            <button
+                                                onClick={() => setSelectedSupplierId(invoice.supplier_id)}
+                                                className="min-w-[100px] text-left text-blue-600 hover:text-blue-800 hover:underline truncate"
+                                            >
+                                                {invoice.suppliers?.name || '-'}
+                                            </button>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{invoice.invoice_number}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{new Date(invoice.invoice_date).toLocaleDateString('en-IN')}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{invoice.due_date ? new Date(invoice.due_date).toLocaleDateString('en-IN') : '-'}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatAmount(invoice.total_amount)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{formatAmount(invoice.paid_amount)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm font-medium text-gray-900 whitespace-nowrap">{formatAmount(invoice.balance_amount)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">{renderStatusBadge(invoice.payment_status)}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            {canManage && (
+                                                <button
+                                                    onClick={() => openPaymentModal(invoice)}
+                                                    className="text-green-600 hover:text-green-800 text-xs sm:text-sm font-medium whitespace-nowrap"
+                                                >
+                                                    Record Payment
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))
+                            ) : (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={9} className="px-3 sm:px-4 py-6 sm:py-8 text-center text-xs sm:text-sm text-gray-500">
+                                        {showOverdueOnly ? 'No overdue invoices' : 'No outstanding invoices'}
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Supplier Ledger */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 mb-3 sm:mb-4">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900">Supplier Ledger</h3>
+                    <select
+                        value={selectedSupplierId}
+                        onChange={(e) => setSelectedSupplierId(e.target.value)}
+                        className="w-full sm:w-72 px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="">Select a supplier</option>
+                        {(suppliers || []).map(supplier => (
+                            <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {!selectedSupplierId ? (
+                    <p className="py-6 text-center text-xs sm:text-sm text-gray-500">Select a supplier to see their ledger</p>
+                ) : ledgerLoading ? (
+                    <p className="py-6 text-center text-xs sm:text-sm text-gray-500">Loading ledger...</p>
+                ) : ledger ? (
+                    <>
+                        {/* Ledger Summary */}
+                        <div className="grid grid-cols-2 lg:grid-cols-5 gap-2 sm:gap-3 mb-4">
+                            <div className="p-2 sm:p-3 bg-gray-50 rounded-lg">
+                                <div className="text-sm sm:text-base font-semibold text-gray-900">{formatAmount(ledger.summary.total_purchases)}</div>
+                                <div className="text-[10px] sm:text-xs text-gray-600">Purchases</div>
+                            </div>
+                            <div className="p-2 sm:p-3 bg-gray-50 rounded-lg">
+                                <div className="text-sm sm:text-base font-semibold text-green-700">{formatAmount(ledger.summary.total_paid)}</div>
+                                <div className="text-[10px] sm:text-xs text-gray-600">Paid</div>
+                            </div>
+                            <div className="p-2 sm:p-3 bg-gray-50 rounded-lg">
+                                <div className="text-sm sm:text-base font-semibold text-purple-700">{formatAmount(ledger.summary.total_returns)}</div>
+                                <div className="text-[10px] sm:text-xs text-gray-600">Debit Notes</div>
+                            </div>
+                            <div className="p-2 sm:p-3 bg-gray-50 rounded-lg">
+                                <div className="text-sm sm:text-base font-semibold text-gray-900">{formatAmount(ledger.summary.outstanding_balance)}</div>
+                                <div className="text-[10px] sm:text-xs text-gray-600">Outstanding</div>
+                            </div>
+                            <div className="p-2 sm:p-3 bg-gray-50 rounded-lg">
+                                <div className="text-sm sm:text-base font-semibold text-red-600">{formatAmount(ledger.summary.overdue_amount)}</div>
+                                <div className="text-[10px] sm:text-xs text-gray-600">Overdue ({ledger.supplier.credit_days || 0} day credit)</div>
+                            </div>
+                        </div>
+
+                        <div className="overflow-x-auto -mx-3 sm:-mx-4 md:-mx-6">
+                            <div className="inline-block min-w-full align-middle px-3 sm:px-4 md:px-6">
+                            <table className="min-w-full table-auto">
+                                <thead>
+                                    <tr className="bg-gray-50">
+                                        <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Date</th>
+                                        <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Reference</th>
+                                        <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Description</th>
+                                        <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Debit</th>
+                                        <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Credit</th>
+                                        <th className="px-2 sm:px-3 md:px-4 py-2 text-right text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Balance</th>
+                                        <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {ledger.entries.length > 0 ? (
+                                        ledger.entries.map((entry) => (
+                                            <tr key={`${entry.type}-${entry.id}`} className="border-t border-gray-200 hover:bg-gray-50">
+                                                <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{new Date(entry.date).toLocaleDateString('en-IN')}</td>
+                                                <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{entry.reference}</td>
+                                                <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-600">
+                                                    <div className="min-w-[160px] break-words">{entry.description}</div>
+                                                </td>
+                                                <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-gray-900 whitespace-nowrap">{entry.debit ? formatAmount(entry.debit) : '-'}</td>
+                                                <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right text-green-700 whitespace-nowrap">{entry.credit ? formatAmount(entry.credit) : '-'}</td>
+                                                <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-right font-medium text-gray-900 whitespace-nowrap">{formatAmount(entry.balance)}</td>
+                                                <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                                    {canManage && entry.type === 'payment' && (
+                                                        <button
+                                                            onClick={() => handleDeletePayment(entry.id, entry.reference)}
+                                                            className="text-red-600 hover:text-red-800 text-xs font-medium"
+                                                        >
+                                                            Delete
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))
+                                    ) : (
+                                        <tr className="border-t border-gray-200">
+                                            <td colSpan={7} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                                No transactions with this supplier yet
+                                            </td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                            </div>
+                        </div>
+                    </>
+                ) : (
+                    <p className="py-6 text-center text-xs sm:text-sm text-red-600">Failed to load ledger</p>
+                )}
+            </div>
+
+            {/* Record Payment Modal */}
+            {paymentForm.invoice && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+                        <div className="p-4 sm:p-6">
+                            <div className="mb-4">
+                                <h3 className="text-base sm:text-lg font-medium text-gray-900">Record Payment</h3>
+                                <p className="text-xs sm:text-sm text-gray-600 break-words">
+                                    {paymentForm.invoice.suppliers?.name} • Invoice {paymentForm.invoice.invoice_number}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    Outstanding {formatAmount(paymentForm.invoice.balance_amount)} of {formatAmount(paymentForm.invoice.total_amount)}
+                                </p>
+                            </div>
+
+                            <div className="space-y-3 mb-4 sm:mb-6">
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Amount</label>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="number"
+                                            step="0.01"
+                                            min="0.01"
+                                            value={paymentForm.amount}
+                                            onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))}
+                                            className="flex-1 px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setPaymentForm(prev => ({ ...prev, amount: prev.invoice ? prev.invoice.balance_amount.toFixed(2) : prev.amount }))}
+                                            className="px-3 py-2 text-xs sm:text-sm text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100"
+                                        >
+                                            Full
+                                        </button>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Mode</label>
+                                        <select
+                                            value={paymentForm.payment_mode}
+                                            onChange={(e) => setPaymentForm(prev => ({ ...prev, payment_mode: e.target.value as SupplierPayment['payment_mode'] }))}
+                                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            {Object.entries(PAYMENT_MODE_LABELS).map(([value, label]) => (
+                                                <option key={value} value={value}>{label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Date</label>
+                                        <input
+                                            type="date"
+                                            value={paymentForm.payment_date}
+                                            onChange={(e) => setPaymentForm(prev => ({ ...prev, payment_date: e.target.value }))}
+                                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Reference (cheque no. / UTR)</label>
+                                    <input
+                                        type="text"
+                                        value={paymentForm.reference_number}
+                                        onChange={(e) => setPaymentForm(prev => ({ ...prev, reference_number: e.target.value }))}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Notes</label>
+                                    <input
+                                        type="text"
+                                        value={paymentForm.notes}
+                                        onChange={(e) => setPaymentForm(prev => ({ ...prev, notes: e.target.value }))}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3">
+                                <button
+                                    onClick={closePaymentModal}
+                                    disabled={isSaving}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 order-2 sm:order-1"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleRecordPayment}
+                                    disabled={isSaving}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                                >
+                                    {isSaving ? 'Saving...' : 'Record Payment'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
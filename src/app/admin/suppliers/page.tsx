@@ -0,0 +1,484 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useAppDispatch } from '@/lib/store'
+import { useAuth } from '@/lib/auth/AuthContext'
+import {
+    useGetSuppliersQuery,
+    useCreateSupplierMutation,
+    useUpdateSupplierMutation,
+    useDeactivateSupplierMutation,
+    useMergeSuppliersMutation,
+    type SupplierFormData
+} from '@/lib/store/api/pharmacyApi'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+import type { Supplier } from '@/lib/supabase'
+
+const EMPTY_FORM: SupplierFormData = {
+    name: '',
+    contact_person: '',
+    phone: '',
+    email: '',
+    address: '',
+    city: '',
+    state: '',
+    pincode: '',
+    gst_number: '',
+    drug_license_number: '',
+    credit_days: 0,
+    credit_limit: 0
+}
+
+const FORM_FIELDS: { key: keyof SupplierFormData; label: string; placeholder?: string; type?: string }[] = [
+    { key: 'name', label: 'Supplier Name *' },
+    { key: 'contact_person', label: 'Contact Person' },
+    { key: 'phone', label: 'Phone', type: 'tel' },
+    { key: 'email', label: 'Email', type: 'email' },
+    { key: 'address', label: 'Address' },
+    { key: 'city', label: 'City' },
+    { key: 'state', label: 'State' },
+    { key: 'pincode', label: 'Pincode' },
+    { key: 'gst_number', label: 'GSTIN', placeholder: '22AAAAA0000A1Z5' },
+    { key: 'drug_license_number', label: 'Drug License No.' },
+    { key: 'credit_days', label: 'Credit Days', type: 'number' },
+    { key: 'credit_limit', label: 'Credit Limit (₹)', type: 'number' }
+]
+
+// Helper function to normalise a supplier name so near-identical auto-created names group together
+const normalizeSupplierName = (name: string) => name
+    .toLowerCase()
+    .replace(/\b(m\/s|pvt|private|ltd|limited|llp|co|company|and|the)\b/g, '')
+    .replace(/[^a-z0-9]/g, '')
+
+export default function SuppliersPage() {
+    const dispatch = useAppDispatch()
+    const { can } = useAuth()
+    const canManage = can('suppliers.manage')
+    const canMerge = can('suppliers.merge')
+    const [search, setSearch] = useState('')
+    const [showInactive, setShowInactive] = useState(false)
+    const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+    // Edit / create modal state
+    const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null)
+    const [isFormOpen, setIsFormOpen] = useState(false)
+    const [formData, setFormData] = useState<SupplierFormData>(EMPTY_FORM)
+
+    // Merge modal state
+    const [isMergeOpen, setIsMergeOpen] = useState(false)
+    const [mergeTargetId, setMergeTargetId] = useState('')
+
+    // RTK Query hooks
+    const { data: suppliers, isLoading } = useGetSuppliersQuery({ limit: 1000, include_inactive: showInactive })
+    const [createSupplier, { isLoading: isCreating }] = useCreateSupplierMutation()
+    const [updateSupplier, { isLoading: isUpdating }] = useUpdateSupplierMutation()
+    const [deactivateSupplier] = useDeactivateSupplierMutation()
+    const [mergeSuppliers, { isLoading: isMerging }] = useMergeSuppliersMutation()
+
+    const filteredSuppliers = useMemo(() => {
+        const term = search.trim().toLowerCase()
+        if (!term) return suppliers || []
+        return (suppliers || []).filter(supplier =>
+            supplier.name.toLowerCase().includes(term) ||
+            supplier.contact_person?.toLowerCase().includes(term) ||
+            supplier.city?.toLowerCase().includes(term) ||
+            supplier.gst_number?.toLowerCase().includes(term)
+        )
+    }, [suppliers, search])
+
+    // Suppliers whose names only differ by case, punctuation or company suffixes
+    const duplicateGroups = useMemo(() => {
+        const groups = new Map<string, Supplier[]>()
+        for (const supplier of suppliers || []) {
+            if (!supplier.is_active) continue
+            const key = normalizeSupplierName(supplier.name)
+            if (!key) continue
+            groups.set(key, [...(groups.get(key) || []), supplier])
+        }
+        return Array.from(groups.values()).filter(group => group.length > 1)
+    }, [suppliers])
+
+    const selectedSuppliers = (suppliers || []).filter(supplier => selectedIds.includes(supplier.id))
+
+    const showError = (title: string, error: unknown, fallback: string) => {
+        const data = (error as { data?: { error?: string; details?: string[] | string } })?.data
+        const details = Array.isArray(data?.details) ? ` (${data.details.join(', ')})` : ''
+        dispatch(addNotification({
+            type: 'error',
+            title,
+            message: data?.error ? `${data.error}${details}` : fallback
+        }))
+    }
+
+    const openCreateForm = () => {
+        setEditingSupplier(null)
+        setFormData(EMPTY_FORM)
+        setIsFormOpen(true)
+    }
+
+    const openEditForm = (supplier: Supplier) => {
+        setEditingSupplier(supplier)
+        setFormData({
+            name: supplier.name,
+            contact_person: supplier.contact_person || '',
+            phone: supplier.phone || '',
+            email: supplier.email || '',
+            address: supplier.address || '',
+            city: supplier.city || '',
+            state: supplier.state || '',
+            pincode: supplier.pincode || '',
+            gst_number: supplier.gst_number || '',
+            drug_license_number: supplier.drug_license_number || '',
+            credit_days: supplier.credit_days || 0,
+            credit_limit: supplier.credit_limit || 0
+        })
+        setIsFormOpen(true)
+    }
+
+    const closeForm = () => {
+        setIsFormOpen(false)
+        setEditingSupplier(null)
+    }
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        if (!formData.name.trim()) {
+            alert('Supplier name is required')
+            return
+        }
+
+        try {
+            if (editingSupplier) {
+                const result = await updateSupplier({ supplier_id: editingSupplier.id, ...formData }).unwrap()
+                dispatch(addNotification({
+                    type: 'success',
+                    title: 'Supplier Updated',
+                    message: result.message
+                }))
+            } else {
+                const supplier = await createSupplier(formData).unwrap()
+                dispatch(addNotification({
+                    type: 'success',
+                    title: 'Supplier Added',
+                    message: `${supplier.name} added successfully`
+                }))
+            }
+            closeForm()
+        } catch (error) {
+            console.error('Supplier save failed:', error)
+            showError('Save Failed', error, 'Failed to save supplier. Please try again.')
+        }
+    }
+
+    const handleToggleActive = async (supplier: Supplier) => {
+        try {
+            if (supplier.is_active) {
+                if (!confirm(`Deactivate ${supplier.name}? It will no longer appear in supplier lists, but its purchase history is kept.`)) return
+                const result = await deactivateSupplier(supplier.id).unwrap()
+                dispatch(addNotification({ type: 'success', title: 'Supplier Deactivated', message: result.message }))
+            } else {
+                await updateSupplier({ supplier_id: supplier.id, is_active: true }).unwrap()
+                dispatch(addNotification({ type: 'success', title: 'Supplier Reactivated', message: `${supplier.name} is active again` }))
+            }
+        } catch (error) {
+            console.error('Supplier status change failed:', error)
+            showError('Update Failed', error, 'Failed to update supplier status. Please try again.')
+        }
+    }
+
+    const toggleSelected = (supplierId: string) => {
+        setSelectedIds(prev => prev.includes(supplierId) ? prev.filter(id => id !== supplierId) : [...prev, supplierId])
+    }
+
+    const openMerge = (ids: string[]) => {
+        setSelectedIds(ids)
+        setMergeTargetId(ids[0])
+        setIsMergeOpen(true)
+    }
+
+    const handleMerge = async () => {
+        const sourceIds = selectedIds.filter(id => id !== mergeTargetId)
+        if (!mergeTargetId || sourceIds.length === 0) return
+
+        try {
+            const result = await mergeSuppliers({
+                target_supplier_id: mergeTargetId,
+                source_supplier_ids: sourceIds
+            }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Suppliers Merged',
+                message: `${result.message}. ${result.purchases_moved} purchases moved.`
+            }))
+            setIsMergeOpen(false)
+            setSelectedIds([])
+        } catch (error) {
+            console.error('Supplier merge failed:', error)
+            showError('Merge Failed', error, 'Failed to merge suppliers. Please try again.')
+        }
+    }
+
+    return (
+        <div className="space-y-4 md:space-y-6">
+            {/* Page Header */}
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Suppliers</h1>
+                    <p className="text-sm sm:text-base text-gray-600">Manage wholesaler details, credit terms and duplicate entries</p>
+                </div>
+                {canManage && (
+                    <button
+                        onClick={openCreateForm}
+                        className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm sm:text-base"
+                    >
+                        + Add Supplier
+                    </button>
+                )}
+            </div>
+
+            {/* Possible Duplicates */}
+            {canMerge && duplicateGroups.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 sm:p-4">
+                    <h3 className="text-sm sm:text-base font-semibold text-amber-900 mb-2">Possible duplicate suppliers</h3>
+                    <ul className="space-y-2">
+                        {duplicateGroups.map(group => (
+                            <li key={group[0].id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-xs sm:text-sm text-amber-900">
+                                <span className="break-words">{group.map(supplier => supplier.name).join('  •  ')}</span>
+                                <button
+                                    onClick={() => openMerge(group.map(supplier => supplier.id))}
+                                    className="self-start sm:self-auto px-3 py-1 text-xs font-medium bg-amber-600 text-white rounded hover:bg-amber-700"
+                                >
+                                    Review &amp; Merge
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Supplier List */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-2 sm:gap-3 mb-3 sm:mb-4">
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search by name, contact, city or GSTIN"
+                        className="w-full sm:w-80 px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={showInactive}
+                                onChange={(e) => setShowInactive(e.target.checked)}
+                                className="rounded border-gray-300"
+                            />
+                            Show inactive
+                        </label>
+                        {canMerge && (
+                            <button
+                                onClick={() => openMerge(selectedIds)}
+                                disabled={selectedIds.length < 2}
+                                className="px-3 py-2 text-xs sm:text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                            >
+                                Merge Selected ({selectedIds.length})
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                <div className="overflow-x-auto -mx-3 sm:-mx-4 md:-mx-6">
+                    <div className="inline-block min-w-full align-middle px-3 sm:px-4 md:px-6">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-2 sm:px-3 py-2 w-8"></th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Name</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Contact</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">City</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">GSTIN</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Drug License</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Credit</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Status</th>
+                                <th className="px-2 sm:px-3 md:px-4 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {isLoading ? (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={9} className="px-3 sm:px-4 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        Loading suppliers...
+                                    </td>
+                                </tr>
+                            ) : filteredSuppliers.length > 0 ? (
+                                filteredSuppliers.map((supplier) => (
+                                    <tr key={supplier.id} className={`border-t border-gray-200 hover:bg-gray-50 ${supplier.is_active ? '' : 'opacity-60'}`}>
+                                        <td className="px-2 sm:px-3 py-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedIds.includes(supplier.id)}
+                                                onChange={() => toggleSelected(supplier.id)}
+                                                disabled={!canMerge}
+                                                className="rounded border-gray-300"
+                                            />
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm font-medium text-gray-900">
+                                            <div className="min-w-[140px] break-words">{supplier.name}</div>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900">
+                                            <div className="min-w-[120px]">
+                                                <div className="truncate">{supplier.contact_person || '-'}</div>
+                                                {supplier.phone && <div className="text-xs text-gray-500">{supplier.phone}</div>}
+                                            </div>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{supplier.city || '-'}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{supplier.gst_number || '-'}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">{supplier.drug_license_number || '-'}</td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm text-gray-900 whitespace-nowrap">
+                                            {supplier.credit_days || 0} days
+                                            {supplier.credit_limit ? <div className="text-xs text-gray-500">₹{supplier.credit_limit.toLocaleString('en-IN')}</div> : null}
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            <span className={`inline-flex px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium ${supplier.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+                                                {supplier.is_active ? 'Active' : 'Inactive'}
+                                            </span>
+                                        </td>
+                                        <td className="px-2 sm:px-3 md:px-4 py-2 text-xs sm:text-sm">
+                                            {canManage && (
+                                                <div className="flex gap-2 sm:gap-3">
+                                                    <button
+                                                        onClick={() => openEditForm(supplier)}
+                                                        className="text-blue-600 hover:text-blue-800 font-medium"
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleToggleActive(supplier)}
+                                                        className={`${supplier.is_active ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'} font-medium whitespace-nowrap`}
+                                                    >
+                                                        {supplier.is_active ? 'Deactivate' : 'Activate'}
+                                                    </button>
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))
+                            ) : (
+                                <tr className="border-t border-gray-200">
+                                    <td colSpan={9} className="px-3 sm:px-4 py-6 sm:py-8 text-center text-xs sm:text-sm text-gray-500">
+                                        No suppliers found
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Supplier Form Modal */}
+            {isFormOpen && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+                        <form onSubmit={handleSave} className="p-4 sm:p-6">
+                            <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-4">
+                                {editingSupplier ? `Edit ${editingSupplier.name}` : 'Add Supplier'}
+                            </h3>
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4 sm:mb-6">
+                                {FORM_FIELDS.map(field => (
+                                    <div key={field.key} className={field.key === 'address' ? 'sm:col-span-2' : ''}>
+                                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                                        <input
+                                            type={field.type || 'text'}
+                                            min={field.type === 'number' ? 0 : undefined}
+                                            value={String(formData[field.key] ?? '')}
+                                            onChange={(e) => setFormData(prev => ({
+                                                ...prev,
+                                                [field.key]: field.type === 'number' ? Number(e.target.value) : e.target.value
+                                            }))}
+                                            placeholder={field.placeholder}
+                                            required={field.key === 'name'}
+                                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3">
+                                <button
+                                    type="button"
+                                    onClick={closeForm}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors order-2 sm:order-1"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isCreating || isUpdating}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                                >
+                                    {isCreating || isUpdating ? 'Saving...' : 'Save Supplier'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Merge Suppliers Modal */}
+            {isMergeOpen && selectedSuppliers.length > 1 && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+                        <div className="p-4 sm:p-6">
+                            <h3 className="text-base sm:text-lg font-medium text-gray-900">Merge Suppliers</h3>
+                            <p className="text-xs sm:text-sm text-gray-600 mb-4">
+                                Choose the supplier to keep. Purchases, debit notes and payments of the others move to it, and the others are removed.
+                            </p>
+
+                            <div className="space-y-2 mb-4 sm:mb-6">
+                                {selectedSuppliers.map(supplier => (
+                                    <label key={supplier.id} className="flex items-start gap-2 p-2 border border-gray-200 rounded-md cursor-pointer hover:bg-gray-50">
+                                        <input
+                                            type="radio"
+                                            name="merge-target"
+                                            checked={mergeTargetId === supplier.id}
+                                            onChange={() => setMergeTargetId(supplier.id)}
+                                            className="mt-1"
+                                        />
+                                        <div className="text-xs sm:text-sm">
+                                            <div className="font-medium text-gray-900 break-words">{supplier.name}</div>
+                                            <div className="text-gray-500">
+                                                {[supplier.city, supplier.gst_number, supplier.phone].filter(Boolean).join(' • ') || 'No details'}
+                                            </div>
+                                        </div>
+                                    </label>
+                                ))}
+                            </div>
+
+                            <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3">
+                                <button
+                                    onClick={() => setIsMergeOpen(false)}
+                                    disabled={isMerging}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 order-2 sm:order-1"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleMerge}
+                                    disabled={isMerging || !mergeTargetId}
+                                    className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                                >
+                                    {isMerging ? 'Merging...' : `Merge ${selectedSuppliers.length} Suppliers`}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,536 @@
+'use client'
+
+import { useState } from 'react'
+import AutocompleteDropdown from '@/components/ui/AutocompleteDropdown'
+import { useAppDispatch } from '@/lib/store'
+import { useAuth } from '@/lib/auth/AuthContext'
+import {
+    useCreateStockTransferMutation,
+    useGetSaleBatchesQuery,
+    useGetStockTransfersQuery,
+    useUpdateStockTransferMutation,
+    StockTransfer
+} from '@/lib/store/api/pharmacyApi'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+
+interface TransferLine {
+    medicine_name: string
+    batch_number: string
+    expiry_date: string
+    quantity: number
+    mrp: number
+}
+
+const STATUS_STYLES: Record<StockTransfer['status'], string> = {
+    in_transit: 'bg-yellow-100 text-yellow-800',
+    received: 'bg-green-100 text-green-800',
+    cancelled: 'bg-gray-100 text-gray-600'
+}
+
+const STATUS_LABELS: Record<StockTransfer['status'], string> = {
+    in_transit: 'In Transit',
+    received: 'Received',
+    cancelled: 'Cancelled'
+}
+
+export default function StockTransfers() {
+    const dispatch = useAppDispatch()
+    const { pharmacies, activePharmacyId, can } = useAuth()
+    const canDispatch = can('stock_transfers.dispatch')
+    const canReceive = can('stock_transfers.receive')
+    const otherBranches = pharmacies.filter(pharmacy => pharmacy.pharmacy_id !== activePharmacyId)
+
+    // New transfer state
+    const [toPharmacyId, setToPharmacyId] = useState('')
+    const [notes, setNotes] = useState('')
+    const [lines, setLines] = useState<TransferLine[]>([])
+
+    // Current line being added
+    const [medicineName, setMedicineName] = useState('')
+    const [batchKey, setBatchKey] = useState('')
+    const [quantity, setQuantity] = useState('')
+
+    // List filters
+    const [direction, setDirection] = useState<'all' | 'incoming' | 'outgoing'>('all')
+    const [statusFilter, setStatusFilter] = useState<'' | StockTransfer['status']>('')
+    const [currentPage, setCurrentPage] = useState(1)
+    const [expandedId, setExpandedId] = useState<string | null>(null)
+    const itemsPerPage = 10
+
+    // RTK Query hooks
+    const { data: batchInfo, isFetching: batchesLoading } = useGetSaleBatchesQuery(medicineName, { skip: !medicineName })
+    const { data: transfersResponse, isLoading: transfersLoading } = useGetStockTransfersQuery({
+        direction: direction === 'all' ? undefined : direction,
+        status: statusFilter || undefined,
+        page: currentPage,
+        limit: itemsPerPage
+    })
+    const [createStockTransfer, { isLoading: isDispatching }] = useCreateStockTransferMutation()
+    const [updateStockTransfer, { isLoading: isUpdating }] = useUpdateStockTransferMutation()
+
+    const transfers = transfersResponse?.data || []
+    const inTransit = transfersResponse?.in_transit
+    const totalPages = transfersResponse?.totalPages || 1
+
+    const selectedBatch = batchInfo?.batches.find(batch => `${batch.batch_number}|${batch.expiry_date}` === batchKey)
+    const quantityOnTransfer = selectedBatch
+        ? lines
+            .filter(line => line.medicine_name === medicineName && line.batch_number === selectedBatch.batch_number && line.expiry_date === selectedBatch.expiry_date)
+            .reduce((sum, line) => sum + line.quantity, 0)
+        : 0
+    const availableForLine = (selectedBatch?.available_stock || 0) - quantityOnTransfer
+
+    const handleMedicineChange = (value: string) => {
+        setMedicineName(value)
+        setBatchKey('')
+    }
+
+    const handleAddLine = () => {
+        const qty = parseInt(quantity)
+        if (!medicineName || !selectedBatch || !qty || qty <= 0) {
+            alert('Select a medicine and batch, and enter a valid quantity')
+            return
+        }
+
+        if (qty > availableForLine) {
+            alert(`Only ${Math.max(availableForLine, 0)} units of batch ${selectedBatch.batch_number} are available`)
+            return
+        }
+
+        const existing = lines.findIndex(line =>
+            line.medicine_name === medicineName &&
+            line.batch_number === selectedBatch.batch_number &&
+            line.expiry_date === selectedBatch.expiry_date
+        )
+
+        if (existing >= 0) {
+            setLines(lines.map((line, index) => index === existing ? { ...line, quantity: line.quantity + qty } : line))
+        } else {
+            setLines([...lines, {
+                medicine_name: medicineName,
+                batch_number: selectedBatch.batch_number,
+                expiry_date: selectedBatch.expiry_date,
+                quantity: qty,
+                mrp: selectedBatch.mrp
+            }])
+        }
+
+        setMedicineName('')
+        setBatchKey('')
+        setQuantity('')
+    }
+
+    const handleRemoveLine = (index: number) => {
+        setLines(lines.filter((_, i) => i !== index))
+    }
+
+    const resetTransfer = () => {
+        setLines([])
+        setNotes('')
+        setToPharmacyId('')
+    }
+
+    const handleDispatch = async () => {
+        if (!toPharmacyId || lines.length === 0) {
+            alert('Choose the receiving branch and add at least one batch')
+            return
+        }
+
+        try {
+            const result = await createStockTransfer({
+                to_pharmacy_id: toPharmacyId,
+                notes: notes || undefined,
+                items: lines.map(({ medicine_name, batch_number, expiry_date, quantity }) => ({ medicine_name, batch_number, expiry_date, quantity }))
+            }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Transfer Dispatched',
+                message: result.message
+            }))
+
+            resetTransfer()
+        } catch (error) {
+            console.error('Transfer dispatch error:', error)
+            const details = (error as { data?: { error?: string; details?: string | { index: number; error: string }[] } })?.data
+            const lineMessage = Array.isArray(details?.details)
+                ? details.details.map(d => d.error).join(', ')
+                : details?.details
+
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Transfer Failed',
+                message: lineMessage ? `${details?.error} (${lineMessage})` : (details?.error || 'Failed to dispatch transfer. Please try again.')
+            }))
+        }
+    }
+
+    const handleUpdate = async (transfer: StockTransfer, action: 'receive' | 'cancel') => {
+        if (action === 'cancel' && !confirm(`Cancel transfer ${transfer.transfer_number}? The stock will go back into this branch.`)) {
+            return
+        }
+
+        try {
+            const result = await updateStockTransfer({ id: transfer.id, action }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: action === 'receive' ? 'Transfer Received' : 'Transfer Cancelled',
+                message: result.message
+            }))
+        } catch (error) {
+            console.error('Transfer update error:', error)
+            const details = (error as { data?: { error?: string; details?: string } })?.data
+
+            dispatch(addNotification({
+                type: 'error',
+                title: action === 'receive' ? 'Receive Failed' : 'Cancel Failed',
+                message: details?.details ? `${details.error} (${details.details})` : (details?.error || 'Please try again.')
+            }))
+        }
+    }
+
+    const formatDate = (value?: string | null) => value ? new Date(value).toLocaleDateString('en-IN') : '-'
+
+    return (
+        <div className="space-y-4 md:space-y-6">
+            {/* Page Header */}
+            <div>
+                <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Stock Transfers</h1>
+                <p className="text-sm sm:text-base text-gray-600">Move batches between branches. Stock in transit is counted in neither branch until it is received.</p>
+            </div>
+
+            {/* In Transit Summary */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <div className="text-xs sm:text-sm text-gray-600">Incoming (in transit)</div>
+                    <div className="text-lg sm:text-xl font-bold text-gray-900">{inTransit?.incoming_count || 0} transfers</div>
+                    <div className="text-xs sm:text-sm text-gray-500">₹{(inTransit?.incoming_value || 0).toLocaleString('en-IN')} at purchase rate</div>
+                </div>
+                <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <div className="text-xs sm:text-sm text-gray-600">Outgoing (in transit)</div>
+                    <div className="text-lg sm:text-xl font-bold text-gray-900">{inTransit?.outgoing_count || 0} transfers</div>
+                    <div className="text-xs sm:text-sm text-gray-500">₹{(inTransit?.outgoing_value || 0).toLocaleString('en-IN')} at purchase rate</div>
+                </div>
+            </div>
+
+            {/* New Transfer */}
+            {canDispatch && (
+                <div className="bg-white rounded-lg border border-gray-200 p-4 sm:p-5 md:p-6">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">New Transfer</h3>
+
+                    {otherBranches.length === 0 ? (
+                        <p className="text-sm text-gray-500">You only have access to one branch. Stock can be transferred once you belong to another branch.</p>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-4">
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Send To</label>
+                                    <select
+                                        value={toPharmacyId}
+                                        onChange={(e) => setToPharmacyId(e.target.value)}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        <option value="">Select branch...</option>
+                                        {otherBranches.map((pharmacy) => (
+                                            <option key={pharmacy.pharmacy_id} value={pharmacy.pharmacy_id}>
+                                                {pharmacy.name}{pharmacy.city ? ` (${pharmacy.city})` : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Notes</label>
+                                    <input
+                                        type="text"
+                                        value={notes}
+                                        onChange={(e) => setNotes(e.target.value)}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        placeholder="Optional"
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Add Batch */}
+                            <div className="grid grid-cols-1 sm:grid-cols-5 gap-3 sm:gap-4 items-end">
+                                <div className="sm:col-span-2">
+                                    <AutocompleteDropdown
+                                        fieldType="medicine_name"
+                                        value={medicineName}
+                                        onChange={handleMedicineChange}
+                                        placeholder="Search medicine..."
+                                        label="Medicine"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Batch</label>
+                                    <select
+                                        value={batchKey}
+                                        onChange={(e) => setBatchKey(e.target.value)}
+                                        disabled={!medicineName || batchesLoading}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                                    >
+                                        <option value="">{batchesLoading ? 'Checking stock...' : 'Select batch...'}</option>
+                                        {batchInfo?.batches.map((batch) => (
+                                            <option key={`${batch.batch_number}|${batch.expiry_date}`} value={`${batch.batch_number}|${batch.expiry_date}`}>
+                                                {batch.batch_number} (exp {new Date(batch.expiry_date).toLocaleDateString('en-IN', { month: '2-digit', year: '2-digit' })}, {batch.available_stock} in stock)
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Quantity</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={quantity}
+                                        onChange={(e) => setQuantity(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') {
+                                                e.preventDefault()
+                                                handleAddLine()
+                                            }
+                                        }}
+                                        className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </div>
+                                <button
+                                    onClick={handleAddLine}
+                                    disabled={!selectedBatch}
+                                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+                                >
+                                    + Add Batch
+                                </button>
+                            </div>
+
+                            {medicineName && !batchesLoading && batchInfo && batchInfo.batches.length === 0 && (
+                                <div className="mt-3 text-xs sm:text-sm text-red-600">No stock of this medicine in the current branch</div>
+                            )}
+
+                            {/* Transfer Lines */}
+                            <div className="overflow-x-auto mt-4">
+                                <table className="min-w-full table-auto">
+                                    <thead>
+                                        <tr className="bg-gray-50">
+                                            <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Medicine</th>
+                                            <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Batch</th>
+                                            <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Expiry</th>
+                                            <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Qty</th>
+                                            <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">MRP</th>
+                                            <th className="px-3 py-2"></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {lines.length > 0 ? lines.map((line, index) => (
+                                            <tr key={index} className="border-t border-gray-200">
+                                                <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{line.medicine_name}</td>
+                                                <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{line.batch_number}</td>
+                                                <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{formatDate(line.expiry_date)}</td>
+                                                <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{line.quantity}</td>
+                                                <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">₹{line.mrp.toFixed(2)}</td>
+                                                <td className="px-3 py-2 text-right">
+                                                    <button
+                                                        onClick={() => handleRemoveLine(index)}
+                                                        className="text-red-600 hover:text-red-800 text-xs sm:text-sm"
+                                                    >
+                                                        Remove
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        )) : (
+                                            <tr>
+                                                <td colSpan={6} className="px-3 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                                    No batches added yet.
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <div className="mt-4 flex justify-end gap-2 sm:gap-3 border-t border-gray-200 pt-4">
+                                <button
+                                    onClick={resetTransfer}
+                                    className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                                >
+                                    Clear
+                                </button>
+                                <button
+                                    onClick={handleDispatch}
+                                    disabled={isDispatching || lines.length === 0 || !toPharmacyId}
+                                    className="px-4 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                                >
+                                    {isDispatching ? 'Dispatching...' : 'Dispatch Transfer'}
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {/* Transfers */}
+            <div className="bg-white rounded-lg border border-gray-200 p-3 sm:p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3 sm:mb-4">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900">Transfers</h3>
+                    <div className="flex gap-2">
+                        <select
+                            value={direction}
+                            onChange={(e) => { setDirection(e.target.value as typeof direction); setCurrentPage(1) }}
+                            className="px-3 py-1.5 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                        >
+                            <option value="all">Incoming & Outgoing</option>
+                            <option value="incoming">Incoming</option>
+                            <option value="outgoing">Outgoing</option>
+                        </select>
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => { setStatusFilter(e.target.value as typeof statusFilter); setCurrentPage(1) }}
+                            className="px-3 py-1.5 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                        >
+                            <option value="">All Statuses</option>
+                            <option value="in_transit">In Transit</option>
+                            <option value="received">Received</option>
+                            <option value="cancelled">Cancelled</option>
+                        </select>
+                    </div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Transfer No.</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Dispatched</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">From</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">To</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Items</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Value</th>
+                                <th className="px-3 py-2 text-left text-xs sm:text-sm font-medium text-gray-700 whitespace-nowrap">Status</th>
+                                <th className="px-3 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {transfersLoading ? (
+                                Array.from({ length: 3 }).map((_, index) => (
+                                    <tr key={index} className="border-t border-gray-200">
+                                        <td colSpan={8} className="px-3 py-2"><div className="animate-pulse bg-gray-200 h-4 w-full rounded"></div></td>
+                                    </tr>
+                                ))
+                            ) : transfers.length > 0 ? (
+                                transfers.map((transfer) => {
+                                    const isIncoming = transfer.to_pharmacy_id === activePharmacyId
+                                    const inTransitNow = transfer.status === 'in_transit'
+
+                                    return [
+                                        <tr key={transfer.id} className="border-t border-gray-200 hover:bg-gray-50">
+                                            <td className="px-3 py-2 text-xs sm:text-sm whitespace-nowrap">
+                                                <button
+                                                    onClick={() => setExpandedId(expandedId === transfer.id ? null : transfer.id)}
+                                                    className="text-blue-600 hover:text-blue-800"
+                                                >
+                                                    {transfer.transfer_number}
+                                                </button>
+                                            </td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm text-gray-500 whitespace-nowrap">{formatDate(transfer.dispatched_at)}</td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{transfer.from_pharmacy?.name || '-'}</td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm text-gray-900">{transfer.to_pharmacy?.name || '-'}</td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm text-gray-500">{transfer.stock_transfer_items?.length || 0}</td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm font-medium text-gray-900 whitespace-nowrap">₹{transfer.total_amount.toLocaleString('en-IN')}</td>
+                                            <td className="px-3 py-2 text-xs sm:text-sm whitespace-nowrap">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[transfer.status]}`}>
+                                                    {STATUS_LABELS[transfer.status]}
+                                                </span>
+                                                {transfer.status === 'received' && (
+                                                    <span className="ml-2 text-xs text-gray-500">{formatDate(transfer.received_at)}</span>
+                                                )}
+                                            </td>
+                                            <td className="px-3 py-2 text-right whitespace-nowrap">
+                                                {inTransitNow && isIncoming && canReceive && (
+                                                    <button
+                                                        onClick={() => handleUpdate(transfer, 'receive')}
+                                                        disabled={isUpdating}
+                                                        className="text-green-600 hover:text-green-800 text-xs sm:text-sm disabled:text-gray-400"
+                                                    >
+                                                        Receive
+                                                    </button>
+                                                )}
+                                                {inTransitNow && !isIncoming && canDispatch && (
+                                                    <button
+                                                        onClick={() => handleUpdate(transfer, 'cancel')}
+                                                        disabled={isUpdating}
+                                                        className="text-red-600 hover:text-red-800 text-xs sm:text-sm disabled:text-gray-400"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>,
+                                        expandedId === transfer.id && (
+                                            <tr key={`${transfer.id}-items`} className="bg-gray-50">
+                                                <td colSpan={8} className="px-3 py-2">
+                                                    <table className="min-w-full">
+                                                        <thead>
+                                                            <tr>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Medicine</th>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Batch</th>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Expiry</th>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Qty</th>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Rate</th>
+                                                                <th className="px-2 py-1 text-left text-xs font-medium text-gray-600">Amount</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {transfer.stock_transfer_items.map((item) => (
+                                                                <tr key={item.id}>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{item.medicines?.name || '-'}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{item.batch_number}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{formatDate(item.expiry_date)}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">{item.quantity}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">₹{item.rate.toFixed(2)}</td>
+                                                                    <td className="px-2 py-1 text-xs text-gray-900">₹{item.amount.toFixed(2)}</td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                    {transfer.notes && <p className="mt-2 text-xs text-gray-600">Notes: {transfer.notes}</p>}
+                                                </td>
+                                            </tr>
+                                        )
+                                    ]
+                                })
+                            ) : (
+                                <tr>
+                                    <td colSpan={8} className="px-3 py-6 text-center text-xs sm:text-sm text-gray-500">
+                                        No transfers yet.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                {/* Pagination Controls */}
+                {totalPages > 1 && (
+                    <div className="mt-3 sm:mt-4 flex items-center justify-between border-t border-gray-200 pt-3 sm:pt-4">
+                        <span className="text-xs sm:text-sm text-gray-700">Showing page {currentPage} of {totalPages}</span>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                                disabled={currentPage === 1}
+                                className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                            >
+                                Previous
+                            </button>
+                            <button
+                                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                                disabled={currentPage >= totalPages}
+                                className="px-3 py-1.5 text-xs sm:text-sm border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                            >
+                                Next
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
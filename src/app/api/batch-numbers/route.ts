@@ -1,20 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
 
 export async function GET(request: NextRequest) {
     try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
         const { searchParams } = new URL(request.url)
         const search = searchParams.get('search')
         const limit = parseInt(searchParams.get('limit') || '20')
 
-        // Get the first pharmacy
-        const { data: pharmacy } = await supabase
-            .from('pharmacies')
-            .select('id')
-            .limit(1)
-            .single()
+        // Get user's active pharmacy
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
 
-        if (!pharmacy) {
+        if (!userPharmacy) {
             return NextResponse.json([])
         }
 
@@ -32,7 +31,7 @@ export async function GET(request: NextRequest) {
                     pharmacy_id
                 )
             `)
-            .eq('purchases.pharmacy_id', pharmacy.id)
+            .eq('purchases.pharmacy_id', userPharmacy.pharmacy_id)
 
         // Add search filter if provided (case insensitive)
         if (search && search.trim()) {
@@ -77,6 +76,15 @@ export async function GET(request: NextRequest) {
         return NextResponse.json(result)
     } catch (error) {
         console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
         return NextResponse.json(
             { error: 'Failed to fetch batch numbers' },
             { status: 500 }
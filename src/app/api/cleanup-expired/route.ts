@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
-import { cleanupExpiredMedicines } from '@/lib/cron/cleanup-logic'
+import { getCronJob, runCronJob } from '@/lib/cron/jobs'
+import { cleanupExpiredMedicines, CLEANUP_MODES, CleanupMode } from '@/lib/cron/cleanup-logic'
+import { getUserPharmacy } from '@/lib/auth/supabase-server'
+import { hasPermission, describeMissingPermission } from '@/lib/auth/permissions'
 
 // Use service role key for admin operations (bypasses RLS)
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
@@ -17,64 +20,76 @@ const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
     }
 })
 
+// Manual cleanup from the settings page, limited to the user's pharmacy.
+// Body: { mode: 'dry_run' | 'archive' | 'delete' } (archive by default). A dry run
+// only lists what would be removed and is not recorded in the job history.
+// The yearly run for every pharmacy goes through GET /api/cron/cleanup-expired.
 export async function POST(request: NextRequest) {
     try {
-        // Verify authentication - either from user or Vercel Cron
         const authorization = request.headers.get('authorization')
-        const isVercelCron = request.headers.get('user-agent')?.includes('vercel-cron')
-        
-        // Allow if either authenticated user OR Vercel Cron
-        if (!authorization && !isVercelCron) {
+
+        if (!authorization) {
             return NextResponse.json(
                 { error: 'Authentication required' },
                 { status: 401 }
             )
         }
 
-        let pharmacyId: string | undefined = undefined
-
-        // If it's a user request (not cron), get their pharmacy ID
-        if (authorization && !isVercelCron) {
-            // Extract the JWT token from the Authorization header
-            const token = authorization.replace('Bearer ', '')
-            
-            // Get user from token
-            const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token)
-            
-            if (authError || !user) {
-                return NextResponse.json(
-                    { error: 'Invalid authentication token' },
-                    { status: 401 }
-                )
-            }
-
-            // Get user's pharmacy from user_pharmacies table
-            const { data: userPharmacy, error: pharmacyError } = await supabaseAdmin
-                .from('user_pharmacies')
-                .select('pharmacy_id')
-                .eq('user_id', user.id)
-                .single()
-
-            if (pharmacyError || !userPharmacy) {
-                return NextResponse.json(
-                    { error: 'User pharmacy not found' },
-                    { status: 404 }
-                )
-            }
-
-            pharmacyId = userPharmacy.pharmacy_id
+        // Extract the JWT token from the Authorization header
+        const token = authorization.replace('Bearer ', '')
+
+        // Get user from token
+        const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token)
+
+        if (authError || !user) {
+            return NextResponse.json(
+                { error: 'Invalid authentication token' },
+                { status: 401 }
+            )
         }
 
-        // Call the shared cleanup function
-        // If pharmacyId is provided (user request), it will only clean that pharmacy
-        // If pharmacyId is undefined (cron request), it will clean all pharmacies
-        const result = await cleanupExpiredMedicines(supabaseAdmin, pharmacyId)
-        
-        if (!result.success) {
-            return NextResponse.json(result, { status: 500 })
+        // Get user's active pharmacy from user_pharmacies table
+        const userPharmacy = await getUserPharmacy(request, supabaseAdmin, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'User pharmacy not found' },
+                { status: 404 }
+            )
         }
-        
-        return NextResponse.json(result)
+
+        // Deleting data is limited to managers and owners
+        if (!hasPermission(userPharmacy.role, 'data.cleanup')) {
+            return NextResponse.json(
+                { error: describeMissingPermission(userPharmacy.role, 'data.cleanup') },
+                { status: 403 }
+            )
+        }
+
+        const body = await request.json().catch(() => ({}))
+        const mode: CleanupMode = body?.mode ?? 'archive'
+
+        if (!CLEANUP_MODES.includes(mode)) {
+            return NextResponse.json(
+                { error: `mode must be one of ${CLEANUP_MODES.join(', ')}` },
+                { status: 400 }
+            )
+        }
+
+        if (mode === 'dry_run') {
+            const preview = await cleanupExpiredMedicines(supabaseAdmin, userPharmacy.pharmacy_id, { mode })
+            return NextResponse.json(preview, { status: preview.success ? 200 : 500 })
+        }
+
+        // Run the shared cleanup for this pharmacy only and record it in the job history
+        const { output, ...result } = await runCronJob(supabaseAdmin, getCronJob('cleanup-expired')!, {
+            trigger: 'manual',
+            pharmacyId: userPharmacy.pharmacy_id,
+            triggeredBy: user.id,
+            run: () => cleanupExpiredMedicines(supabaseAdmin, userPharmacy.pharmacy_id, { mode, userId: user.id })
+        })
+
+        return NextResponse.json({ ...output, ...result }, { status: result.success ? 200 : 500 })
         
     } catch (error) {
         console.error('Cleanup error:', error)
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { isAuthorizedCronRequest } from '@/lib/cron/auth'
+import { getCronJob, runCronJob } from '@/lib/cron/jobs'
+
+// Use service role key so scheduled jobs cover every pharmacy (bypasses RLS)
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase environment variables')
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+        autoRefreshToken: false,
+        persistSession: false
+    }
+})
+
+interface RouteContext {
+    params: Promise<{ job: string }>
+}
+
+// Scheduled job entry point (see vercel.json). Only requests carrying CRON_SECRET are accepted.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        if (!isAuthorizedCronRequest(request)) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        const { job: jobName } = await params
+        const job = getCronJob(jobName)
+
+        if (!job) {
+            return NextResponse.json(
+                { error: `Unknown job: ${jobName}` },
+                { status: 404 }
+            )
+        }
+
+        const result = await runCronJob(supabaseAdmin, job, { trigger: 'schedule' })
+
+        return NextResponse.json(result, { status: result.success ? 200 : 500 })
+    } catch (error) {
+        console.error('Scheduled job error:', error)
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'An error occurred while running the job'
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createAuthenticatedSupabaseClient, getAuthenticatedUser, getUserPharmacies } from '@/lib/auth/supabase-server'
+import { loadPharmacySettings } from '@/lib/settings/pharmacy-settings'
+
+interface BranchSummary {
+    pharmacy_id: string
+    name: string
+    city: string | null
+    role: string
+    expiring_soon_days: number
+    currency: string
+    stock_value: number
+    stocked_batches: number
+    expiring_soon: number
+    todays_purchases: number
+    month_purchases: number
+    todays_sales: number
+    month_sales: number
+}
+
+// Helper function to add up a numeric column
+function sumOf<T>(rows: T[] | null, value: (row: T) => number) {
+    return (rows || []).reduce((sum, row) => sum + (value(row) || 0), 0)
+}
+
+// Helper function to build one branch's headline figures
+async function summarizeBranch(supabase: SupabaseClient, pharmacyId: string) {
+    const today = new Date().toISOString().split('T')[0]
+    const monthStart = `${today.slice(0, 7)}-01`
+    const settings = await loadPharmacySettings(supabase, pharmacyId)
+    const expiryLimit = new Date()
+    expiryLimit.setDate(expiryLimit.getDate() + settings.expiry_critical_days)
+    const expiryLimitStr = expiryLimit.toISOString().split('T')[0]
+
+    const [
+        { data: totals, error: totalsError },
+        { count: stockedCount },
+        { count: expiringCount }
+    ] = await Promise.all([
+        supabase.rpc('branch_summary_totals', {
+            p_pharmacy_id: pharmacyId,
+            p_today: today,
+            p_month_start: monthStart
+        }),
+        supabase
+            .from('current_inventory')
+            .select('id', { count: 'exact', head: true })
+            .eq('pharmacy_id', pharmacyId)
+            .gt('current_stock', 0),
+        supabase
+            .from('current_inventory')
+            .select('id', { count: 'exact', head: true })
+            .eq('pharmacy_id', pharmacyId)
+            .gt('current_stock', 0)
+            .lte('expiry_date', expiryLimitStr)
+    ])
+
+    if (totalsError) {
+        console.error('Branch totals error:', totalsError)
+    }
+
+    return {
+        expiring_soon_days: settings.expiry_critical_days,
+        currency: settings.currency,
+        stock_value: Math.round(Number(totals?.stock_value || 0)),
+        stocked_batches: stockedCount || 0,
+        expiring_soon: expiringCount || 0,
+        todays_purchases: Math.round(Number(totals?.todays_purchases || 0)),
+        month_purchases: Math.round(Number(totals?.month_purchases || 0)),
+        todays_sales: Math.round(Number(totals?.todays_sales || 0)),
+        month_sales: Math.round(Number(totals?.month_sales || 0))
+    }
+}
+
+// Headline figures for every branch the user belongs to, side by side
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const memberships = await getUserPharmacies(supabase, user.id)
+
+        if (memberships.length === 0) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const { data: pharmacies } = await supabase
+            .from('pharmacies')
+            .select('id, name, city')
+            .in('id', memberships.map(membership => membership.pharmacy_id))
+
+        // RLS follows the selected branch, so each branch is read with its own client
+        const branches: BranchSummary[] = await Promise.all(memberships.map(async (membership) => {
+            const pharmacy = pharmacies?.find(p => p.id === membership.pharmacy_id)
+            const branchClient = createAuthenticatedSupabaseClient(request, membership.pharmacy_id)
+            const summary = await summarizeBranch(branchClient, membership.pharmacy_id)
+
+            return {
+                pharmacy_id: membership.pharmacy_id,
+                name: pharmacy?.name || 'Pharmacy',
+                city: pharmacy?.city || null,
+                role: membership.role,
+                ...summary
+            }
+        }))
+
+        const totals = {
+            stock_value: sumOf(branches, branch => branch.stock_value),
+            stocked_batches: sumOf(branches, branch => branch.stocked_batches),
+            expiring_soon: sumOf(branches, branch => branch.expiring_soon),
+            todays_purchases: sumOf(branches, branch => branch.todays_purchases),
+            month_purchases: sumOf(branches, branch => branch.month_purchases),
+            todays_sales: sumOf(branches, branch => branch.todays_sales),
+            month_sales: sumOf(branches, branch => branch.month_sales)
+        }
+
+        return NextResponse.json({ branches, totals })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch branch summary' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAuthenticatedUser } from '@/lib/auth/supabase-server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { DEFAULT_PHARMACY_SETTINGS, loadPharmacySettings } from '@/lib/settings/pharmacy-settings'
 
 export async function GET(request: NextRequest) {
     try {
@@ -8,17 +9,19 @@ export async function GET(request: NextRequest) {
         // Get authenticated user and supabase client
         const { user, supabase } = await getAuthenticatedUser(request)
         
-        // Get user's pharmacy ID
-        const { data: userPharmacy, error: pharmacyError } = await supabase
-            .from('user_pharmacies')
-            .select('pharmacy_id, pharmacies(id, name)')
-            .eq('user_id', user.id)
-            .eq('is_active', true)
-            .single()
-
-        console.log('User pharmacy query result:', { userPharmacy, pharmacyError })
-
-        if (pharmacyError || !userPharmacy) {
+        // Get user's active pharmacy
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+        const { data: pharmacy, error: pharmacyError } = userPharmacy
+            ? await supabase
+                .from('pharmacies')
+                .select('id, name')
+                .eq('id', userPharmacy.pharmacy_id)
+                .single()
+            : { data: null, error: null }
+
+        console.log('User pharmacy query result:', { userPharmacy, pharmacy, pharmacyError })
+
+        if (pharmacyError || !userPharmacy || !pharmacy) {
             console.warn('No pharmacy found or error:', pharmacyError)
             
             // Return zero stats but with debug info
@@ -32,6 +35,8 @@ export async function GET(request: NextRequest) {
                 expiring_soon: 0,
                 expiring_soon_change: 0,
                 expiring_soon_trend: 'neutral',
+                expiring_soon_days: DEFAULT_PHARMACY_SETTINGS.expiry_critical_days,
+                currency: DEFAULT_PHARMACY_SETTINGS.currency,
                 stock_value: 0,
                 stock_value_change: 0,
                 stock_value_trend: 'neutral',
@@ -43,7 +48,9 @@ export async function GET(request: NextRequest) {
             })
         }
 
-        console.log('Found pharmacy:', userPharmacy.pharmacies.name, 'ID:', userPharmacy.pharmacy_id)
+        console.log('Found pharmacy:', pharmacy.name, 'ID:', userPharmacy.pharmacy_id)
+
+        const settings = await loadPharmacySettings(supabase, userPharmacy.pharmacy_id)
 
         // Get current date and calculate comparison dates
         const today = new Date()
@@ -88,18 +95,20 @@ export async function GET(request: NextRequest) {
             error: medicinesError 
         })
 
-        // 2. TODAY'S PURCHASES - Today vs Yesterday
+        // 2. TODAY'S PURCHASES - Today vs Yesterday (verified purchases only)
         const { data: todaysPurchases, error: purchasesError } = await supabase
             .from('purchases')
             .select('total_amount')
             .eq('pharmacy_id', userPharmacy.pharmacy_id)
             .eq('purchase_date', todayStr)
+            .eq('status', 'verified')
 
         const { data: yesterdaysPurchases, error: yesterdaysPurchasesError } = await supabase
             .from('purchases')
             .select('total_amount')
             .eq('pharmacy_id', userPharmacy.pharmacy_id)
             .eq('purchase_date', yesterdayStr)
+            .eq('status', 'verified')
 
         const todaysPurchasesTotal = todaysPurchases?.reduce((sum: number, p: any) => sum + (p.total_amount || 0), 0) || 0
         const yesterdaysPurchasesTotal = yesterdaysPurchases?.reduce((sum: number, p: any) => sum + (p.total_amount || 0), 0) || 0
@@ -116,10 +125,10 @@ export async function GET(request: NextRequest) {
             error: purchasesError 
         })
 
-        // 3. EXPIRING SOON - Current vs 30 days ago
-        const thirtyDaysFromNow = new Date()
-        thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30)
-        const expiryDate = thirtyDaysFromNow.toISOString().split('T')[0]
+        // 3. EXPIRING SOON (within the critical expiry window) - Current vs 30 days ago
+        const expiryLimit = new Date()
+        expiryLimit.setDate(expiryLimit.getDate() + settings.expiry_critical_days)
+        const expiryDate = expiryLimit.toISOString().split('T')[0]
 
         const { count: currentExpiringCount, error: expiryError } = await supabase
             .from('current_inventory')
@@ -262,12 +271,14 @@ export async function GET(request: NextRequest) {
             expiring_soon: currentExpiringCountSafe,
             expiring_soon_change: Math.round(expiryChange * 100) / 100,
             expiring_soon_trend: expiryTrend,
+            expiring_soon_days: settings.expiry_critical_days,
+            currency: settings.currency,
             stock_value: Math.round(currentTotalStockValue),
             stock_value_change: Math.round(stockValueChange * 100) / 100,
             stock_value_trend: stockValueTrend,
             recent_activity: recentActivity.slice(0, 5),
             debug: {
-                pharmacy: userPharmacy.pharmacies.name,
+                pharmacy: pharmacy.name,
                 comparison_dates: {
                     today: todayStr,
                     yesterday: yesterdayStr,
@@ -0,0 +1,259 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { generateExpiryAlerts } from '@/lib/cron/expiry-alerts'
+
+const ALERT_STATUSES = ['active', 'acknowledged', 'resolved']
+const ALERT_TYPES = ['expired', '30_days', '60_days', '90_days']
+
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const status = searchParams.get('status') || 'open' // 'open' = active + acknowledged
+        const alertType = searchParams.get('alert_type')
+        const page = Math.max(parseInt(searchParams.get('page') || '1'), 1)
+        const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
+        const offset = (page - 1) * limit
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Page of alerts, most urgent first
+        let query = supabase
+            .from('expiry_alerts')
+            .select(`
+                id, medicine_id, batch_number, expiry_date, alert_date, alert_type,
+                days_to_expiry, current_stock, estimated_loss, status, notes,
+                acknowledged_by, acknowledged_at, resolved_by, resolved_at, updated_at,
+                medicines(name, strength)
+            `, { count: 'exact' })
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+
+        if (status === 'open') {
+            query = query.in('status', ['active', 'acknowledged'])
+        } else if (ALERT_STATUSES.includes(status)) {
+            query = query.eq('status', status)
+        }
+
+        if (alertType && ALERT_TYPES.includes(alertType)) {
+            query = query.eq('alert_type', alertType)
+        }
+
+        const { data: alerts, error: alertsError, count } = await query
+            .order(status === 'resolved' ? 'resolved_at' : 'expiry_date', { ascending: status !== 'resolved' })
+            .range(offset, offset + limit - 1)
+
+        if (alertsError) {
+            console.error('Expiry alerts fetch error:', alertsError)
+            return NextResponse.json(
+                { error: 'Failed to fetch expiry alerts' },
+                { status: 500 }
+            )
+        }
+
+        // STEP 2: Counts per status for the worklist tabs (counted in the database, not capped by the row limit)
+        const statusCounts = await Promise.all(ALERT_STATUSES.map(alertStatus =>
+            supabase
+                .from('expiry_alerts')
+                .select('id', { count: 'exact', head: true })
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .eq('status', alertStatus)
+        ))
+
+        const counts = { active: 0, acknowledged: 0, resolved: 0 }
+        ALERT_STATUSES.forEach((alertStatus, index) => {
+            counts[alertStatus as keyof typeof counts] = statusCounts[index].count || 0
+        })
+
+        const data = (alerts || []).map(({ medicines, ...alert }) => {
+            const medicine = medicines as unknown as { name: string; strength: string | null } | null
+            return {
+                ...alert,
+                medicine_name: medicine ? [medicine.name, medicine.strength].filter(Boolean).join(' ') : 'Unknown'
+            }
+        })
+
+        return NextResponse.json({
+            data,
+            total: count || 0,
+            page,
+            limit,
+            totalPages: Math.max(Math.ceil((count || 0) / limit), 1),
+            counts
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch expiry alerts' },
+            { status: 500 }
+        )
+    }
+}
+
+// Refresh alerts for the user's pharmacy without waiting for the nightly job
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const result = await generateExpiryAlerts(supabase, userPharmacy.pharmacy_id)
+
+        if (!result.success) {
+            console.error('❌ Expiry alert generation failed:', result.error)
+            return NextResponse.json(result, { status: 500 })
+        }
+
+        console.log('✅ Expiry alerts refreshed:', result.stats)
+
+        return NextResponse.json(result)
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to refresh expiry alerts' },
+            { status: 500 }
+        )
+    }
+}
+
+// Acknowledge, resolve or re-open one or more alerts
+export async function PUT(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const body = await request.json()
+        const action: string | undefined = body.action
+        const notes = typeof body.notes === 'string' ? body.notes.trim() : ''
+        const alertIds: string[] = Array.isArray(body.alert_ids)
+            ? body.alert_ids.filter((id: unknown) => typeof id === 'string')
+            : typeof body.alert_id === 'string' ? [body.alert_id] : []
+
+        if (alertIds.length === 0 || !action || !['acknowledge', 'resolve', 'reopen'].includes(action)) {
+            return NextResponse.json(
+                { error: 'alert_ids and an action of acknowledge, resolve or reopen are required' },
+                { status: 400 }
+            )
+        }
+
+        // A resolved alert should say what happened to the stock
+        if (action === 'resolve' && !notes) {
+            return NextResponse.json(
+                { error: 'Notes are required when resolving an alert (e.g. returned to supplier, sold, written off)' },
+                { status: 400 }
+            )
+        }
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const now = new Date().toISOString()
+        const updateFields: Record<string, string | null> = { updated_at: now }
+
+        if (action === 'acknowledge') {
+            updateFields.status = 'acknowledged'
+            updateFields.acknowledged_by = user.id
+            updateFields.acknowledged_at = now
+        } else if (action === 'resolve') {
+            updateFields.status = 'resolved'
+            updateFields.resolved_by = user.id
+            updateFields.resolved_at = now
+        } else {
+            updateFields.status = 'active'
+            updateFields.resolved_by = null
+            updateFields.resolved_at = null
+        }
+
+        if (notes) {
+            updateFields.notes = notes
+        }
+
+        const { data: updatedAlerts, error: updateError } = await supabase
+            .from('expiry_alerts')
+            .update(updateFields)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .in('id', alertIds)
+            .select('id, status')
+
+        if (updateError) {
+            console.error('Expiry alert update error:', updateError)
+            return NextResponse.json(
+                { error: 'Failed to update expiry alerts' },
+                { status: 500 }
+            )
+        }
+
+        if (!updatedAlerts || updatedAlerts.length === 0) {
+            return NextResponse.json(
+                { error: 'Expiry alert not found' },
+                { status: 404 }
+            )
+        }
+
+        const verb = action === 'acknowledge' ? 'acknowledged' : action === 'resolve' ? 'resolved' : 're-opened'
+        console.log(`✅ ${updatedAlerts.length} expiry alert(s) ${verb}`)
+
+        return NextResponse.json({
+            updated: updatedAlerts.length,
+            message: `${updatedAlerts.length} alert${updatedAlerts.length === 1 ? '' : 's'} ${verb}`
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to update expiry alerts' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,5 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAuthenticatedUser } from '@/lib/auth/supabase-server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { loadPharmacySettings } from '@/lib/settings/pharmacy-settings'
+
+// Largest page the list returns; the PDF export asks for every matching batch at once
+const MAX_EXPIRY_PAGE_SIZE = 10000
+
+// One batch as returned by search_expiring_inventory() (see database/expiry_search.sql)
+interface ExpiringBatchRow {
+    id: string
+    medicine_id: string
+    medicine_name: string | null
+    batch_number: string
+    expiry_date: string
+    current_stock: number | null
+    current_mrp: number | null
+    last_purchase_rate: number | null
+    estimated_loss: number | null
+    days_to_expiry: number
+    supplier_id: string | null
+    supplier_name: string | null
+}
+
+interface ExpirySearchResult {
+    data: ExpiringBatchRow[]
+    total: number
+    total_value_at_risk: number
+}
+
+// Helper function to pass a partial-match filter to the database; LIKE wildcards typed by the user are dropped
+function toSearchTerm(value: string | null) {
+    const term = value?.trim().replace(/[%_\\]/g, '')
+    return term || null
+}
 
 export async function GET(request: NextRequest) {
     try {
@@ -8,41 +40,43 @@ export async function GET(request: NextRequest) {
         
         const { searchParams } = new URL(request.url)
         const type = searchParams.get('type') // 'stats' for statistics endpoint
-        const days = parseInt(searchParams.get('days') || '90')
         const status = searchParams.get('status') // 'expired', 'critical', 'warning', 'alert'
         const medicineName = searchParams.get('medicine_name')
         const batchNumber = searchParams.get('batch_number')
         const supplierName = searchParams.get('supplier_name')
         const startDate = searchParams.get('start_date') // Date range start
         const endDate = searchParams.get('end_date') // Date range end
-        const page = parseInt(searchParams.get('page') || '1')
-        const limit = parseInt(searchParams.get('limit') || '50')
-        const offset = (page - 1) * limit
+        const page = parseInt(searchParams.get('page') || '1') || 1
+        const limit = parseInt(searchParams.get('limit') || '50') || 50
 
         // Get user's pharmacy ID
-        const { data: userPharmacy } = await supabase
-            .from('user_pharmacies')
-            .select('pharmacy_id')
-            .eq('user_id', user.id)
-            .eq('is_active', true)
-            .single()
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
 
         if (!userPharmacy) {
             return NextResponse.json(type === 'stats' ? {
                 expiredThisWeek: 0,
-                expiringIn30Days: 0,
-                expiringIn90Days: 0,
+                expiringCritical: 0,
+                expiringInAlertWindow: 0,
                 valueAtRisk: 0,
                 recentExpiries: []
             } : [])
         }
 
+        // Expiry bands and the default window come from the pharmacy's settings
+        const settings = await loadPharmacySettings(supabase, userPharmacy.pharmacy_id)
+        const thresholds = {
+            critical_days: settings.expiry_critical_days,
+            warning_days: settings.expiry_warning_days,
+            alert_days: settings.expiry_alert_days
+        }
+        const days = parseInt(searchParams.get('days') || String(thresholds.alert_days))
+
         // If requesting stats, calculate expiry statistics
         if (type === 'stats') {
             const today = new Date()
             const oneWeekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000)
-            const in30Days = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000)
-            const in90Days = new Date(today.getTime() + 90 * 24 * 60 * 60 * 1000)
+            const criticalLimit = new Date(today.getTime() + thresholds.critical_days * 24 * 60 * 60 * 1000)
+            const alertLimit = new Date(today.getTime() + thresholds.alert_days * 24 * 60 * 60 * 1000)
 
             // Get expired items in the last week
             const { data: expiredThisWeek } = await supabase
@@ -54,141 +88,106 @@ export async function GET(request: NextRequest) {
                 .gte('expiry_date', oneWeekAgo.toISOString().split('T')[0])
                 .lt('expiry_date', today.toISOString().split('T')[0])
 
-            // Get items expiring in next 30 days
-            const { data: expiringIn30 } = await supabase
+            // Get items expiring within the critical window
+            const { data: expiringCritical } = await supabase
                 .from('current_inventory')
                 .select('*')
                 .eq('pharmacy_id', userPharmacy.pharmacy_id)
                 .eq('is_active', true)
                 .gt('current_stock', 0)
                 .gte('expiry_date', today.toISOString().split('T')[0])
-                .lte('expiry_date', in30Days.toISOString().split('T')[0])
+                .lte('expiry_date', criticalLimit.toISOString().split('T')[0])
 
-            // Get items expiring in next 90 days
-            const { data: expiringIn90 } = await supabase
+            // Get items expiring within the alert window
+            const { data: expiringInAlertWindow } = await supabase
                 .from('current_inventory')
                 .select('*')
                 .eq('pharmacy_id', userPharmacy.pharmacy_id)
                 .eq('is_active', true)
                 .gt('current_stock', 0)
                 .gte('expiry_date', today.toISOString().split('T')[0])
-                .lte('expiry_date', in90Days.toISOString().split('T')[0])
+                .lte('expiry_date', alertLimit.toISOString().split('T')[0])
 
-            // Calculate value at risk (total value of items expiring in next 90 days)
-            const valueAtRisk = expiringIn90?.reduce((total, item) => {
+            // Calculate value at risk (total value of items expiring within the alert window)
+            const valueAtRisk = expiringInAlertWindow?.reduce((total, item) => {
                 const itemValue = (item.current_stock || 0) * (item.last_purchase_rate || 0)
                 return total + itemValue
             }, 0) || 0
 
-            // Get recent expiring items for the "Expiring Soon" section
+            // Get recent expiring items for the "Expiring Soon" section, with the supplier each batch came from
             const { data: recentExpiriesData } = await supabase
-                .from('current_inventory')
-                .select(`
-                    *,
-                    medicines!inner(name)
-                `)
+                .from('view_inventory_expiry')
+                .select('id, medicine_name, batch_number, expiry_date, current_stock, current_mrp, days_to_expiry, supplier_name')
                 .eq('pharmacy_id', userPharmacy.pharmacy_id)
-                .eq('is_active', true)
-                .gt('current_stock', 0)
                 .gte('expiry_date', today.toISOString().split('T')[0])
                 .order('expiry_date', { ascending: true })
                 .limit(10)
 
-            // Transform recent expiries data (without supplier info for stats)
-            const recentExpiries = recentExpiriesData?.map(item => {
-                const today = new Date()
-                const expiryDate = new Date(item.expiry_date)
-                const timeDiff = expiryDate.getTime() - today.getTime()
-                const daysToExpiry = Math.ceil(timeDiff / (1000 * 3600 * 24))
-
-                return {
-                    id: item.id,
-                    medicine_name: item.medicines?.name || 'Unknown',
-                    batch_number: item.batch_number,
-                    expiry_date: item.expiry_date,
-                    current_stock: item.current_stock || 0,
-                    days_to_expiry: daysToExpiry,
-                    supplier_name: 'Unknown', // Simplified for stats
-                    mrp: item.current_mrp || 0
-                }
-            }) || []
+            const recentExpiries = recentExpiriesData?.map(item => ({
+                id: item.id,
+                medicine_name: item.medicine_name || 'Unknown',
+                batch_number: item.batch_number,
+                expiry_date: item.expiry_date,
+                current_stock: item.current_stock || 0,
+                days_to_expiry: item.days_to_expiry,
+                supplier_name: item.supplier_name || 'Unknown',
+                mrp: item.current_mrp || 0
+            })) || []
 
             console.log('📊 Expiry stats:', {
                 expiredThisWeek: expiredThisWeek?.length || 0,
-                expiringIn30Days: expiringIn30?.length || 0,
-                expiringIn90Days: expiringIn90?.length || 0,
+                expiringCritical: expiringCritical?.length || 0,
+                expiringInAlertWindow: expiringInAlertWindow?.length || 0,
                 valueAtRisk: valueAtRisk,
                 recentExpiriesCount: recentExpiries?.length || 0
             })
 
             return NextResponse.json({
                 expiredThisWeek: expiredThisWeek?.length || 0,
-                expiringIn30Days: expiringIn30?.length || 0,
-                expiringIn90Days: expiringIn90?.length || 0,
+                expiringCritical: expiringCritical?.length || 0,
+                expiringInAlertWindow: expiringInAlertWindow?.length || 0,
                 valueAtRisk: valueAtRisk,
-                recentExpiries: recentExpiries || []
+                recentExpiries: recentExpiries || [],
+                thresholds,
+                currency: settings.currency
             })
         }
 
-        // Original functionality for getting expiry alerts
-        // Default to next 90 days if no date filters are provided
-        const defaultLimit = 10
-        const actualLimit = Math.min(limit, 50) // Cap at 50 for performance
-
-        let query = supabase
-            .from('current_inventory')
-            .select(`
-                *,
-                medicines!inner(name)
-            `)
-            .eq('pharmacy_id', userPharmacy.pharmacy_id)
-            .eq('is_active', true)
-            .gt('current_stock', 0)
-
-        // Add status filter based on expiry dates
-        if (status) {
-            const today = new Date()
-            const todayStr = today.toISOString().split('T')[0]
+        // Expiry alerts list: work out the expiry range, then filter and page in the database
+        const today = new Date()
+        const todayStr = today.toISOString().split('T')[0]
+        const addDays = (count: number) => new Date(today.getTime() + count * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+
+        let expiryFrom: string | null = null
+        let expiryTo: string | null = null
 
+        // Add status filter based on expiry dates (bounds are inclusive, so a band starts the day after the previous one ends)
+        if (status) {
             switch (status.toUpperCase()) {
                 case 'EXPIRED':
-                    query = query.lte('expiry_date', todayStr)
+                    expiryTo = todayStr
                     break
                 case 'CRITICAL':
-                    const critical = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000)
-                    query = query.gt('expiry_date', todayStr).lte('expiry_date', critical.toISOString().split('T')[0])
+                    expiryFrom = addDays(1)
+                    expiryTo = addDays(thresholds.critical_days)
                     break
                 case 'WARNING':
-                    const warning30 = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000)
-                    const warning60 = new Date(today.getTime() + 60 * 24 * 60 * 60 * 1000)
-                    query = query.gt('expiry_date', warning30.toISOString().split('T')[0]).lte('expiry_date', warning60.toISOString().split('T')[0])
+                    expiryFrom = addDays(thresholds.critical_days + 1)
+                    expiryTo = addDays(thresholds.warning_days)
                     break
                 case 'ALERT':
-                    const alert60 = new Date(today.getTime() + 60 * 24 * 60 * 60 * 1000)
-                    const alert90 = new Date(today.getTime() + 90 * 24 * 60 * 60 * 1000)
-                    query = query.gt('expiry_date', alert60.toISOString().split('T')[0]).lte('expiry_date', alert90.toISOString().split('T')[0])
+                    expiryFrom = addDays(thresholds.warning_days + 1)
+                    expiryTo = addDays(thresholds.alert_days)
                     break
             }
         }
 
-        // Add medicine name filter (partial match)
-        if (medicineName) {
-            query = query.ilike('medicines.name', `%${medicineName}%`)
+        // Add specific expiry date filter (narrows the status band when both are given)
+        if (startDate && (!expiryFrom || startDate > expiryFrom)) {
+            expiryFrom = startDate
         }
-
-        // Add batch number filter (partial match)
-        if (batchNumber) {
-            query = query.ilike('batch_number', `%${batchNumber}%`)
-        }
-
-        // Add specific expiry date filter (overrides default 90 days)
-        if (startDate && endDate) {
-            query = query.gte('expiry_date', startDate)
-            query = query.lte('expiry_date', endDate)
-        } else if (startDate) {
-            query = query.gte('expiry_date', startDate)
-        } else if (endDate) {
-            query = query.lte('expiry_date', endDate)
+        if (endDate && (!expiryTo || endDate < expiryTo)) {
+            expiryTo = endDate
         }
 
         // Add days filter - only if no specific filters are provided and days param is explicitly sent
@@ -196,24 +195,26 @@ export async function GET(request: NextRequest) {
         const daysParam = searchParams.get('days') // Check if days was explicitly provided
 
         if (!hasSpecificFilters && daysParam) {
-            const today = new Date()
-            const futureDate = new Date()
-            futureDate.setDate(futureDate.getDate() + days)
-
-            // Apply date range based on days parameter (only for initial load)
-            query = query.gte('expiry_date', today.toISOString().split('T')[0])
-            query = query.lte('expiry_date', futureDate.toISOString().split('T')[0])
+            expiryFrom = todayStr
+            expiryTo = addDays(days)
         }
 
-        // Always use provided pagination parameters
-        const finalLimit = Math.min(limit, 50) // Cap at 50 for performance
-        const finalOffset = offset
-
-        // Get all data without pagination first
-        const { data: inventoryData, error } = await query
-            .order('expiry_date', { ascending: true })
+        // Large enough for the PDF export of every matching batch
+        const finalLimit = Math.min(Math.max(limit, 1), MAX_EXPIRY_PAGE_SIZE)
+        const finalOffset = (Math.max(page, 1) - 1) * finalLimit
+
+        const { data: result, error } = await supabase.rpc('search_expiring_inventory', {
+            p_pharmacy_id: userPharmacy.pharmacy_id,
+            p_medicine_name: toSearchTerm(medicineName),
+            p_batch_number: toSearchTerm(batchNumber),
+            p_supplier_name: toSearchTerm(supplierName),
+            p_expiry_from: expiryFrom,
+            p_expiry_to: expiryTo,
+            p_limit: finalLimit,
+            p_offset: finalOffset
+        })
 
-        if (error) {
+        if (error || !result) {
             console.error('Expiry alerts fetch error:', error)
             return NextResponse.json(
                 { error: 'Failed to fetch expiry alerts' },
@@ -221,119 +222,40 @@ export async function GET(request: NextRequest) {
             )
         }
 
-        // Get supplier information for all inventory items
-        const supplierMap = new Map()
+        const { data: rows, total: totalCount, total_value_at_risk: totalValueAtRisk } = result as ExpirySearchResult
 
-        if (inventoryData && inventoryData.length > 0) {
-            // Create exact matching conditions for each inventory item
-            const conditions = inventoryData.map(item => ({
-                medicine_id: item.medicine_id,
-                batch_number: item.batch_number,
-                expiry_date: item.expiry_date
-            }))
-
-            // Fetch purchase items that exactly match our inventory conditions
-            for (const condition of conditions) {
-                const { data: matchingPurchaseItems, error: purchaseError } = await supabase
-                    .from('purchase_items')
-                    .select(`
-                        medicine_id,
-                        batch_number,
-                        expiry_date,
-                        purchases!inner(
-                            supplier_id,
-                            suppliers!inner(name)
-                        )
-                    `)
-                    .eq('medicine_id', condition.medicine_id)
-                    .eq('batch_number', condition.batch_number)
-                    .eq('expiry_date', condition.expiry_date)
-                    .order('created_at', { ascending: false })
-                    .limit(1)
-
-                if (purchaseError) {
-                    continue
-                }
-
-                const key = `${condition.medicine_id}-${condition.batch_number}-${condition.expiry_date}`
-
-                if (matchingPurchaseItems && matchingPurchaseItems.length > 0) {
-                    const purchaseItem = matchingPurchaseItems[0]
-                    // Handle array structure correctly
-                    const purchase = Array.isArray(purchaseItem.purchases) ? purchaseItem.purchases[0] : purchaseItem.purchases
-                    const supplier = Array.isArray(purchase?.suppliers) ? purchase.suppliers[0] : purchase?.suppliers
-
-                    if (supplier?.name) {
-                        supplierMap.set(key, supplier.name)
-                    }
-                }
-            }
+        // Transform the data to match the expected format
+        const paginatedData = rows.map(item => {
+            const daysToExpiry = item.days_to_expiry
 
+            // Calculate status
+            let status = 'NORMAL'
+            if (daysToExpiry <= 0) status = 'EXPIRED'
+            else if (daysToExpiry <= thresholds.critical_days) status = 'CRITICAL'
+            else if (daysToExpiry <= thresholds.warning_days) status = 'WARNING'
+            else if (daysToExpiry <= thresholds.alert_days) status = 'ALERT'
 
-        }
-
-        // Transform the data to match the expected format and apply supplier filter
-        const transformedData = inventoryData
-            ?.map(item => {
-                // Calculate days to expiry
-                const today = new Date()
-                const expiryDate = new Date(item.expiry_date)
-                const timeDiff = expiryDate.getTime() - today.getTime()
-                const daysToExpiry = Math.ceil(timeDiff / (1000 * 3600 * 24))
-
-                // Calculate status
-                let status = 'NORMAL'
-                if (daysToExpiry <= 0) status = 'EXPIRED'
-                else if (daysToExpiry <= 30) status = 'CRITICAL'
-                else if (daysToExpiry <= 60) status = 'WARNING'
-                else if (daysToExpiry <= 90) status = 'ALERT'
-
-                // Get supplier name from our supplier map
-                const key = `${item.medicine_id}-${item.batch_number}-${item.expiry_date}`
-                const supplierName = supplierMap.get(key) || 'Unknown'
-
-                return {
-                    id: item.id,
-                    medicine_name: item.medicines?.name || 'Unknown',
-                    batch_number: item.batch_number,
-                    expiry_date: item.expiry_date,
-                    current_stock: item.current_stock || 0,
-                    days_to_expiry: daysToExpiry,
-                    estimated_loss: (item.current_stock || 0) * (item.last_purchase_rate || 0),
-                    expiry_status: status,
-                    supplier_name: supplierName,
-                    mrp: item.current_mrp || 0,
-                    quantity: item.current_stock || 0
-                }
-            }) || []
-
-        // Get total count before applying supplier filter
-        const totalBeforeSupplierFilter = transformedData.length
-
-        // Apply supplier name filter (if any)
-        const finalData = transformedData?.filter(item => {
-            if (supplierName) {
-                return item.supplier_name.toLowerCase().includes(supplierName.toLowerCase())
+            return {
+                id: item.id,
+                medicine_name: item.medicine_name || 'Unknown',
+                batch_number: item.batch_number,
+                expiry_date: item.expiry_date,
+                current_stock: item.current_stock || 0,
+                days_to_expiry: daysToExpiry,
+                estimated_loss: item.estimated_loss || 0,
+                expiry_status: status,
+                supplier_name: item.supplier_name || 'Unknown',
+                mrp: item.current_mrp || 0,
+                quantity: item.current_stock || 0
             }
-            return true
-        }) || []
-
-        // Since supplier filter is applied after database query, we need to recalculate pagination
-        const paginatedData = finalData.slice(finalOffset, finalOffset + finalLimit)
-        const totalCount = finalData.length
-
-        // Calculate Value at Risk for ALL filtered results (not just current page)
-        const totalValueAtRisk = finalData.reduce((total, item) => {
-            return total + (item.estimated_loss || 0)
-        }, 0)
+        })
 
         console.log('📋 Expiry alerts:', {
             totalFound: totalCount,
             currentPage: page,
             itemsPerPage: finalLimit,
             totalValueAtRisk: totalValueAtRisk,
-            filters: { medicineName, batchNumber, supplierName, startDate, endDate, days },
-            sampleSuppliers: paginatedData.slice(0, 3).map(item => item.supplier_name)
+            filters: { medicineName, batchNumber, supplierName, expiryFrom, expiryTo }
         })
 
         return NextResponse.json({
@@ -342,7 +264,8 @@ export async function GET(request: NextRequest) {
             page: page,
             limit: finalLimit,
             totalPages: Math.ceil(totalCount / finalLimit),
-            totalValueAtRisk: totalValueAtRisk
+            totalValueAtRisk: totalValueAtRisk,
+            thresholds
         })
     } catch (error) {
         console.error('API error:', error)
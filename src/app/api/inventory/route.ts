@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAuthenticatedUser } from '@/lib/auth/supabase-server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { DEFAULT_PHARMACY_SETTINGS, loadPharmacySettings } from '@/lib/settings/pharmacy-settings'
 
 export async function GET(request: NextRequest) {
     try {
@@ -23,9 +24,13 @@ export async function GET(request: NextRequest) {
             query = query.or(`medicine_name.ilike.%${search}%,generic_name.ilike.%${search}%,manufacturer.ilike.%${search}%`)
         }
 
-        // Add low stock filter
+        // Add low stock filter using the pharmacy's configured threshold
         if (lowStock) {
-            query = query.lte('total_stock', 20) // Assuming 20 as low stock threshold
+            const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+            const { low_stock_threshold } = userPharmacy
+                ? await loadPharmacySettings(supabase, userPharmacy.pharmacy_id)
+                : DEFAULT_PHARMACY_SETTINGS
+            query = query.lte('total_stock', low_stock_threshold)
         }
 
         const { data: inventory, error } = await query
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+const ADJUSTMENT_TYPES = ['adjustment', 'damaged']
+
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { user, supabase, userPharmacy } = await requirePermission(request, 'inventory.adjust')
+
+        const body = await request.json()
+        const quantity = parseInt(body.quantity)
+        const operation = body.operation
+        const adjustmentType = body.adjustment_type || 'adjustment'
+        const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+
+        // Validate the request body
+        if (!body.medicine_name || !body.batch_number || !quantity || quantity <= 0) {
+            return NextResponse.json(
+                { error: 'Missing required fields: medicine_name, batch_number and a positive quantity are required' },
+                { status: 400 }
+            )
+        }
+
+        if (operation !== 'add' && operation !== 'subtract') {
+            return NextResponse.json(
+                { error: "operation must be 'add' or 'subtract'" },
+                { status: 400 }
+            )
+        }
+
+        if (!ADJUSTMENT_TYPES.includes(adjustmentType)) {
+            return NextResponse.json(
+                { error: "adjustment_type must be 'adjustment' or 'damaged'" },
+                { status: 400 }
+            )
+        }
+
+        if (adjustmentType === 'damaged' && operation !== 'subtract') {
+            return NextResponse.json(
+                { error: 'Damaged stock can only be subtracted' },
+                { status: 400 }
+            )
+        }
+
+        if (!reason) {
+            return NextResponse.json(
+                { error: 'A reason is required for stock adjustments' },
+                { status: 400 }
+            )
+        }
+
+        // Find the medicine
+        const { data: medicine } = await supabase
+            .from('medicines')
+            .select('id, name')
+            .eq('name', body.medicine_name)
+            .single()
+
+        if (!medicine) {
+            return NextResponse.json(
+                { error: `Medicine not found: ${body.medicine_name}` },
+                { status: 404 }
+            )
+        }
+
+        // Find the inventory batch
+        let inventoryQuery = supabase
+            .from('current_inventory')
+            .select('id, batch_number, expiry_date')
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .eq('medicine_id', medicine.id)
+            .eq('batch_number', body.batch_number)
+
+        if (body.expiry_date) {
+            inventoryQuery = inventoryQuery.eq('expiry_date', body.expiry_date.split('T')[0])
+        }
+
+        const { data: batches, error: inventoryError } = await inventoryQuery
+
+        if (inventoryError) {
+            console.error('Inventory fetch error:', inventoryError)
+            return NextResponse.json(
+                { error: 'Failed to fetch inventory batch' },
+                { status: 500 }
+            )
+        }
+
+        if (!batches || batches.length === 0) {
+            return NextResponse.json(
+                { error: `No inventory found for ${medicine.name} batch ${body.batch_number}` },
+                { status: 404 }
+            )
+        }
+
+        if (batches.length > 1) {
+            return NextResponse.json(
+                { error: 'Multiple batches match, please provide expiry_date' },
+                { status: 400 }
+            )
+        }
+
+        const batch = batches[0]
+
+        // Change the stock and log the adjustment in one transaction, with the batch locked
+        const { data: result, error: adjustError } = await supabase.rpc('adjust_batch_stock', {
+            p_inventory_id: batch.id,
+            p_pharmacy_id: userPharmacy.pharmacy_id,
+            p_user_id: user.id,
+            p_operation: operation,
+            p_quantity: quantity,
+            p_transaction_type: adjustmentType,
+            p_notes: body.notes ? `${reason}: ${body.notes}` : reason
+        })
+
+        if (adjustError) {
+            console.error('Stock update error:', adjustError)
+
+            // Not enough stock left to subtract (checked against the locked batch)
+            if (adjustError.code === 'P0001') {
+                return NextResponse.json(
+                    { error: adjustError.message },
+                    { status: 400 }
+                )
+            }
+
+            return NextResponse.json(
+                { error: 'Failed to update stock' },
+                { status: 500 }
+            )
+        }
+
+        const { transaction_id: transactionId, stock_before: stockBefore, stock_after: stockAfter } = result as {
+            transaction_id: string
+            stock_before: number
+            stock_after: number
+        }
+
+        console.log(`✅ Stock ${operation === 'add' ? 'added' : 'subtracted'}: ${medicine.name} ${batch.batch_number} ${stockBefore} → ${stockAfter}`)
+
+        return NextResponse.json({
+            message: `Stock for ${medicine.name} (${batch.batch_number}) updated from ${stockBefore} to ${stockAfter}`,
+            medicine_name: medicine.name,
+            batch_number: batch.batch_number,
+            expiry_date: batch.expiry_date,
+            stock_before: stockBefore,
+            stock_after: stockAfter,
+            transaction_id: transactionId
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to update stock' },
+            { status: 500 }
+        )
+    }
+}
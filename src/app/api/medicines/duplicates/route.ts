@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { medicineKey, withinEditDistance } from '@/lib/medicines/matching'
+
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Load the active catalog
+        const { data: medicines, error: medicinesError } = await supabase
+            .from('medicines')
+            .select('id, name, generic_name, manufacturer, strength, dosage_form, pack_size, hsn_code, schedule')
+            .eq('is_active', true)
+            .order('name', { ascending: true })
+
+        if (medicinesError) {
+            console.error('Medicines fetch error:', medicinesError)
+            return NextResponse.json(
+                { error: 'Failed to fetch medicines' },
+                { status: 500 }
+            )
+        }
+
+        // STEP 2: Group medicines whose keys match exactly or differ by a typo.
+        // Only keys sharing the first three characters are compared, and a
+        // typo never bridges two different strengths (dolo500 vs dolo650).
+        const keyed = (medicines || [])
+            .map(medicine => ({ medicine, key: medicineKey(medicine) }))
+            .filter(entry => entry.key.length >= 3)
+            .sort((a, b) => a.key.localeCompare(b.key))
+
+        const grouped = new Set<string>()
+        const groups: (typeof keyed)[] = []
+
+        for (let i = 0; i < keyed.length; i++) {
+            if (grouped.has(keyed[i].medicine.id)) continue
+
+            const group = [keyed[i]]
+            grouped.add(keyed[i].medicine.id)
+
+            for (let j = i + 1; j < keyed.length && keyed[j].key.startsWith(keyed[i].key.slice(0, 3)); j++) {
+                if (grouped.has(keyed[j].medicine.id)) continue
+
+                const limit = keyed[i].key.length >= 6 ? 1 : 0
+                const sameStrength = (entry: typeof keyed[number]) =>
+                    entry.key.replace(/[^0-9]/g, '') === keyed[j].key.replace(/[^0-9]/g, '')
+                if (group.some(entry => sameStrength(entry) && withinEditDistance(entry.key, keyed[j].key, limit))) {
+                    group.push(keyed[j])
+                    grouped.add(keyed[j].medicine.id)
+                }
+            }
+
+            groups.push(group)
+        }
+
+        const duplicateGroups = groups.filter(group => group.length > 1)
+        const medicineIds = duplicateGroups.flatMap(group => group.map(entry => entry.medicine.id))
+
+        if (medicineIds.length === 0) {
+            return NextResponse.json({ groups: [] })
+        }
+
+        // STEP 3: How much this pharmacy uses each candidate, to help pick the one to keep
+        const [{ data: purchaseLines }, { data: stock }] = await Promise.all([
+            supabase
+                .from('purchase_items')
+                .select('medicine_id, purchases!inner(pharmacy_id)')
+                .eq('purchases.pharmacy_id', userPharmacy.pharmacy_id)
+                .in('medicine_id', medicineIds),
+            supabase
+                .from('current_inventory')
+                .select('medicine_id, current_stock')
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .in('medicine_id', medicineIds)
+        ])
+
+        const purchaseCounts = new Map<string, number>()
+        for (const line of purchaseLines || []) {
+            purchaseCounts.set(line.medicine_id, (purchaseCounts.get(line.medicine_id) || 0) + 1)
+        }
+
+        const stockTotals = new Map<string, number>()
+        for (const row of stock || []) {
+            stockTotals.set(row.medicine_id, (stockTotals.get(row.medicine_id) || 0) + (row.current_stock || 0))
+        }
+
+        return NextResponse.json({
+            groups: duplicateGroups.map(group => ({
+                key: group[0].key,
+                medicines: group.map(({ medicine }) => ({
+                    ...medicine,
+                    purchase_lines: purchaseCounts.get(medicine.id) || 0,
+                    current_stock: stockTotals.get(medicine.id) || 0
+                }))
+            }))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to find duplicate medicines' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser } from '@/lib/auth/supabase-server'
+import { suggestMedicines } from '@/lib/medicines/matching'
+
+const MAX_NAMES = 500
+
+// Match item names from a supplier invoice to the medicine catalog
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { supabase } = await getAuthenticatedUser(request)
+
+        const body = await request.json()
+        const names: string[] = Array.isArray(body.names)
+            ? Array.from(new Set<string>(body.names.filter((name: unknown) => typeof name === 'string' && name.trim()).map((name: string) => name.trim())))
+            : []
+
+        // Validate the request body
+        if (names.length === 0) {
+            return NextResponse.json(
+                { error: 'Missing required fields: names must list at least one item name' },
+                { status: 400 }
+            )
+        }
+
+        if (names.length > MAX_NAMES) {
+            return NextResponse.json(
+                { error: `At most ${MAX_NAMES} item names can be matched at once` },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Load the active catalog
+        const { data: medicines, error: medicinesError } = await supabase
+            .from('medicines')
+            .select('id, name, manufacturer, strength, pack_size')
+            .eq('is_active', true)
+            .order('name', { ascending: true })
+
+        if (medicinesError) {
+            console.error('Medicines fetch error:', medicinesError)
+            return NextResponse.json(
+                { error: 'Failed to fetch medicines' },
+                { status: 500 }
+            )
+        }
+
+        // STEP 2: Exact name first, otherwise the closest lookalikes
+        const catalog = medicines || []
+        const matches = names.map(name => {
+            const exact = catalog.find(medicine => medicine.name.toLowerCase() === name.toLowerCase()) || null
+            const suggestions = exact
+                ? []
+                : suggestMedicines(name, catalog).map(({ medicine, score }) => ({ ...medicine, score: Math.round(score * 100) / 100 }))
+
+            return { name, exact, suggestions }
+        })
+
+        return NextResponse.json({ matches })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to match medicines' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'medicines.merge')
+
+        const body = await request.json()
+        const targetId: string | undefined = body.target_medicine_id
+        const sourceIds: string[] = Array.isArray(body.source_medicine_ids)
+            ? body.source_medicine_ids.filter((id: unknown) => typeof id === 'string' && id !== targetId)
+            : []
+
+        // Validate the request body
+        if (!targetId || sourceIds.length === 0) {
+            return NextResponse.json(
+                { error: 'Missing required fields: target_medicine_id and at least one other source_medicine_ids entry are required' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Make sure every medicine exists
+        const { data: medicines, error: medicinesError } = await supabase
+            .from('medicines')
+            .select('id, name, strength')
+            .in('id', [targetId, ...sourceIds])
+
+        if (medicinesError) {
+            console.error('Medicines fetch error:', medicinesError)
+            return NextResponse.json(
+                { error: 'Failed to fetch medicines' },
+                { status: 500 }
+            )
+        }
+
+        if (!medicines || medicines.length !== sourceIds.length + 1) {
+            return NextResponse.json(
+                { error: 'One or more medicines were not found' },
+                { status: 404 }
+            )
+        }
+
+        // STEP 2: A batch can only be purchased once per medicine, so the same
+        // batch bought under two of these names has to be corrected first
+        const { data: purchaseLines } = await supabase
+            .from('purchase_items')
+            .select('medicine_id, batch_number, expiry_date')
+            .in('medicine_id', [targetId, ...sourceIds])
+
+        const batchOwners = new Map<string, string>()
+        const clashingBatches = new Set<string>()
+        for (const line of purchaseLines || []) {
+            const batchKey = `${line.batch_number} (exp ${line.expiry_date})`
+            const owner = batchOwners.get(batchKey)
+            if (owner && owner !== line.medicine_id) {
+                clashingBatches.add(batchKey)
+            }
+            batchOwners.set(batchKey, line.medicine_id)
+        }
+
+        if (clashingBatches.size > 0) {
+            return NextResponse.json(
+                {
+                    error: 'The same batch was purchased under more than one of these medicines. Correct the duplicate purchase lines before merging.',
+                    details: Array.from(clashingBatches)
+                },
+                { status: 409 }
+            )
+        }
+
+        // STEP 3: Merge in a single transaction
+        const { data: result, error: mergeError } = await supabase.rpc('merge_medicines', {
+            p_pharmacy_id: userPharmacy.pharmacy_id,
+            p_target_medicine_id: targetId,
+            p_source_medicine_ids: sourceIds
+        })
+
+        if (mergeError) {
+            console.error('❌ Medicine merge error:', mergeError)
+
+            // Unique violation: a batch clash only visible inside the database
+            if (mergeError.code === '23505') {
+                return NextResponse.json(
+                    { error: 'A batch of one of these medicines is already recorded under the medicine being kept', details: mergeError.message },
+                    { status: 409 }
+                )
+            }
+
+            return NextResponse.json(
+                { error: 'Failed to merge medicines', details: mergeError.message },
+                { status: 500 }
+            )
+        }
+
+        const label = (medicine: { name: string; strength?: string | null }) =>
+            [medicine.name, medicine.strength].filter(Boolean).join(' ')
+        const target = medicines.find(medicine => medicine.id === targetId)
+        const mergedNames = medicines.filter(medicine => medicine.id !== targetId).map(label)
+
+        console.log(`✅ Merged ${mergedNames.join(', ')} into ${target && label(target)}:`, result)
+
+        return NextResponse.json({
+            ...result,
+            target_medicine_id: targetId,
+            message: `Merged ${mergedNames.join(', ')} into "${target && label(target)}"`
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to merge medicines' },
+            { status: 500 }
+        )
+    }
+}
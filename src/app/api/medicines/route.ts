@@ -1,11 +1,74 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
-import { getAuthenticatedUser } from '@/lib/auth/supabase-server'
+import { getAuthenticatedUser, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+const EDITABLE_TEXT_FIELDS = [
+    'name',
+    'generic_name',
+    'brand_name',
+    'manufacturer',
+    'composition',
+    'strength',
+    'dosage_form',
+    'pack_size',
+    'unit_type',
+    'hsn_code',
+    'schedule',
+    'storage_conditions'
+]
+
+// HSN codes for medicines are 4, 6 or 8 digits (e.g. 3004, 300490)
+const HSN_PATTERN = /^([0-9]{4}|[0-9]{6}|[0-9]{8})$/
+
+// Drug schedules under the Drugs and Cosmetics Rules
+const SCHEDULES = ['G', 'H', 'H1', 'X', 'OTC']
+
+// Helper function to validate and collect the medicine fields present in a request body
+function buildMedicineUpdate(body: Record<string, unknown>) {
+    const updateFields: Record<string, string | boolean | null> = {}
+
+    for (const field of EDITABLE_TEXT_FIELDS) {
+        if (body[field] !== undefined) {
+            const value = body[field] === null ? '' : String(body[field]).trim()
+            updateFields[field] = value || null
+        }
+    }
+
+    if (updateFields.name === null || updateFields.manufacturer === null) {
+        return { error: 'Name and manufacturer cannot be empty' }
+    }
+
+    if (updateFields.unit_type === null) {
+        updateFields.unit_type = 'strips'
+    }
+
+    if (typeof updateFields.hsn_code === 'string' && !HSN_PATTERN.test(updateFields.hsn_code)) {
+        return { error: 'HSN code must be 4, 6 or 8 digits' }
+    }
+
+    if (typeof updateFields.schedule === 'string') {
+        updateFields.schedule = updateFields.schedule.toUpperCase()
+        if (!SCHEDULES.includes(updateFields.schedule)) {
+            return { error: `Schedule must be one of ${SCHEDULES.join(', ')}` }
+        }
+    }
+
+    if (body.prescription_required !== undefined) {
+        updateFields.prescription_required = Boolean(body.prescription_required)
+    }
+
+    if (body.is_active !== undefined) {
+        updateFields.is_active = Boolean(body.is_active)
+    }
+
+    return { updateFields }
+}
 
 export async function GET(request: NextRequest) {
     try {
         const { searchParams } = new URL(request.url)
         const search = searchParams.get('search')
+        const includeInactive = searchParams.get('include_inactive') === 'true'
         // Category filtering removed - medicine_categories table no longer exists
         const page = parseInt(searchParams.get('page') || '1')
         const limit = parseInt(searchParams.get('limit') || '50')
@@ -14,7 +77,10 @@ export async function GET(request: NextRequest) {
         let query = supabase
             .from('medicines')
             .select('*')
-            .eq('is_active', true)
+
+        if (!includeInactive) {
+            query = query.eq('is_active', true)
+        }
 
         // Add search filter (case insensitive)
         if (search) {
@@ -76,6 +142,7 @@ export async function POST(request: NextRequest) {
                 pack_size: body.pack_size,
                 unit_type: body.unit_type || 'strips',
                 hsn_code: body.hsn_code,
+                schedule: body.schedule,
                 prescription_required: body.prescription_required || false,
                 storage_conditions: body.storage_conditions,
                 is_active: true
@@ -108,4 +175,118 @@ export async function POST(request: NextRequest) {
             { status: 500 }
         )
     }
-} 
\ No newline at end of file
+}
+
+export async function PUT(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { supabase } = await requirePermission(request, 'medicines.edit')
+
+        const body = await request.json()
+        const { medicine_id } = body
+
+        if (!medicine_id) {
+            return NextResponse.json(
+                { error: 'Medicine ID is required' },
+                { status: 400 }
+            )
+        }
+
+        const { updateFields, error: validationError } = buildMedicineUpdate(body)
+
+        if (validationError || !updateFields) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        if (Object.keys(updateFields).length === 0) {
+            return NextResponse.json(
+                { error: 'No medicine fields provided to update' },
+                { status: 400 }
+            )
+        }
+
+        const { data: existingMedicine, error: medicineError } = await supabase
+            .from('medicines')
+            .select('id, name, manufacturer, strength')
+            .eq('id', medicine_id)
+            .single()
+
+        if (medicineError || !existingMedicine) {
+            return NextResponse.json(
+                { error: 'Medicine not found' },
+                { status: 404 }
+            )
+        }
+
+        // Name, manufacturer and strength are unique together across the catalog
+        const name = updateFields.name ?? existingMedicine.name
+        const manufacturer = updateFields.manufacturer ?? existingMedicine.manufacturer
+        const strength = updateFields.strength !== undefined ? updateFields.strength : existingMedicine.strength
+
+        let duplicateQuery = supabase
+            .from('medicines')
+            .select('id')
+            .eq('name', name)
+            .eq('manufacturer', manufacturer)
+            .neq('id', medicine_id)
+
+        duplicateQuery = strength ? duplicateQuery.eq('strength', strength) : duplicateQuery.is('strength', null)
+
+        const { data: duplicateMedicine } = await duplicateQuery.maybeSingle()
+
+        if (duplicateMedicine) {
+            return NextResponse.json(
+                { error: `${[name, strength].filter(Boolean).join(' ')} by ${manufacturer} already exists. Merge the two medicines instead.` },
+                { status: 409 }
+            )
+        }
+
+        const { data: updatedMedicine, error: updateError } = await supabase
+            .from('medicines')
+            .update({ ...updateFields, updated_at: new Date().toISOString() })
+            .eq('id', medicine_id)
+            .select('*')
+            .single()
+
+        if (updateError) {
+            console.error('Medicine update error:', updateError)
+            return NextResponse.json(
+                { error: 'Failed to update medicine' },
+                { status: 500 }
+            )
+        }
+
+        console.log(`✅ Medicine updated: "${updatedMedicine.name}"`)
+
+        return NextResponse.json({
+            medicine: updatedMedicine,
+            message: `Medicine "${updatedMedicine.name}" updated`
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to update medicine' },
+            { status: 500 }
+        )
+    }
+}
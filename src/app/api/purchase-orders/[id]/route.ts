@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+interface RouteContext {
+    params: Promise<{ id: string }>
+}
+
+// One order with everything needed to print or share it
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const { data: order, error } = await supabase
+            .from('purchase_orders')
+            .select(`
+                *,
+                pharmacies(name, address, city, state, phone, email, gst_number, license_number),
+                suppliers(id, name, contact_person, phone, email, address, city, gst_number, drug_license_number),
+                purchase_order_items(
+                    id,
+                    medicine_id,
+                    quantity,
+                    suggested_quantity,
+                    rate,
+                    amount,
+                    medicines(name, manufacturer, strength, pack_size)
+                )
+            `)
+            .eq('id', id)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (error || !order) {
+            return NextResponse.json(
+                { error: 'Purchase order not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(order)
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch purchase order' },
+            { status: 500 }
+        )
+    }
+}
+
+// Mark an order as sent to the supplier, or cancel it
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params
+        const body = await request.json()
+        const action = body.action
+
+        if (action !== 'send' && action !== 'cancel') {
+            return NextResponse.json(
+                { error: 'action must be send or cancel' },
+                { status: 400 }
+            )
+        }
+
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'purchase_orders.manage')
+
+        const { data: order } = await supabase
+            .from('purchase_orders')
+            .select('id, po_number, status')
+            .eq('id', id)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (!order) {
+            return NextResponse.json(
+                { error: 'Purchase order not found' },
+                { status: 404 }
+            )
+        }
+
+        // Only a draft can be sent; a draft or sent order can be cancelled
+        const allowed = action === 'send' ? ['draft'] : ['draft', 'sent']
+        if (!allowed.includes(order.status)) {
+            return NextResponse.json(
+                { error: `Order ${order.po_number} is already ${order.status}` },
+                { status: 409 }
+            )
+        }
+
+        const now = new Date().toISOString()
+        const { error: updateError } = await supabase
+            .from('purchase_orders')
+            .update(action === 'send'
+                ? { status: 'sent', sent_at: now }
+                : { status: 'cancelled', cancelled_at: now })
+            .eq('id', order.id)
+
+        if (updateError) {
+            console.error(`❌ Purchase order ${action} error:`, updateError)
+            return NextResponse.json(
+                { error: `Failed to ${action} purchase order` },
+                { status: 500 }
+            )
+        }
+
+        console.log(`✅ Purchase order ${order.po_number} ${action === 'send' ? 'sent' : 'cancelled'}`)
+
+        return NextResponse.json({
+            id: order.id,
+            status: action === 'send' ? 'sent' : 'cancelled',
+            message: action === 'send'
+                ? `Order ${order.po_number} marked as sent`
+                : `Order ${order.po_number} cancelled`
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to update purchase order' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+interface OrderLineRequest {
+    medicine_id: string
+    quantity: number
+    rate?: number
+    suggested_quantity?: number | null
+}
+
+// Helper function to generate a purchase order number
+function generateOrderNumber(): string {
+    const datePart = new Date().toISOString().split('T')[0].replace(/-/g, '')
+    const randomSuffix = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
+    return `PO-${datePart}-${Date.now().toString().slice(-5)}${randomSuffix}`
+}
+
+const ORDER_SELECT = `
+        *,
+        suppliers(id, name, contact_person, phone, email),
+        purchase_order_items(
+          id,
+          medicine_id,
+          quantity,
+          suggested_quantity,
+          rate,
+          amount,
+          medicines(
+            name,
+            manufacturer,
+            strength,
+            pack_size
+          )
+        )
+      `
+
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const status = searchParams.get('status')
+        const page = parseInt(searchParams.get('page') || '1')
+        const limit = parseInt(searchParams.get('limit') || '10')
+        const offset = (page - 1) * limit
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        let query = supabase
+            .from('purchase_orders')
+            .select(ORDER_SELECT, { count: 'exact' })
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+
+        if (status === 'open') {
+            query = query.in('status', ['draft', 'sent'])
+        } else if (status) {
+            query = query.eq('status', status)
+        }
+
+        const { data: orders, error, count } = await query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (error) {
+            console.error('Purchase orders fetch error:', error)
+            return NextResponse.json(
+                { error: 'Failed to fetch purchase orders' },
+                { status: 500 }
+            )
+        }
+
+        return NextResponse.json({
+            data: orders || [],
+            total: count || 0,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil((count || 0) / limit))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch purchase orders' },
+            { status: 500 }
+        )
+    }
+}
+
+// Raise a draft purchase order for one supplier
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { user, supabase, userPharmacy } = await requirePermission(request, 'purchase_orders.manage')
+
+        const body = await request.json()
+        const supplierId: string | undefined = body.supplier_id
+        const requestedItems: OrderLineRequest[] = Array.isArray(body.items) ? body.items : []
+
+        // Validate the request body
+        if (!supplierId || requestedItems.length === 0) {
+            return NextResponse.json(
+                { error: 'Missing required fields: supplier_id and at least one item are required' },
+                { status: 400 }
+            )
+        }
+
+        if (body.expected_date && !/^\d{4}-\d{2}-\d{2}$/.test(body.expected_date)) {
+            return NextResponse.json(
+                { error: 'expected_date must be a date (YYYY-MM-DD)' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: The supplier must belong to this pharmacy
+        const { data: supplier } = await supabase
+            .from('suppliers')
+            .select('id, name')
+            .eq('id', supplierId)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (!supplier) {
+            return NextResponse.json(
+                { error: 'Supplier not found' },
+                { status: 404 }
+            )
+        }
+
+        // STEP 2: Validate every line
+        const { data: medicines } = await supabase
+            .from('medicines')
+            .select('id')
+            .in('id', requestedItems.map(item => item.medicine_id).filter(Boolean))
+
+        const knownMedicines = new Set((medicines || []).map(medicine => medicine.id))
+        const lineErrors: { index: number; error: string }[] = []
+        const orderLines: Required<OrderLineRequest>[] = []
+
+        for (const [index, item] of requestedItems.entries()) {
+            const quantity = Number(item.quantity)
+            const rate = Number(item.rate || 0)
+
+            if (!item.medicine_id || !knownMedicines.has(item.medicine_id)) {
+                lineErrors.push({ index, error: 'Medicine not found' })
+                continue
+            }
+
+            if (!Number.isInteger(quantity) || quantity <= 0) {
+                lineErrors.push({ index, error: 'Quantity must be a whole number greater than zero' })
+                continue
+            }
+
+            if (isNaN(rate) || rate < 0) {
+                lineErrors.push({ index, error: 'Rate must be a number of 0 or more' })
+                continue
+            }
+
+            if (orderLines.some(line => line.medicine_id === item.medicine_id)) {
+                lineErrors.push({ index, error: 'Medicine is listed twice' })
+                continue
+            }
+
+            orderLines.push({
+                medicine_id: item.medicine_id,
+                quantity,
+                rate,
+                suggested_quantity: item.suggested_quantity ?? null
+            })
+        }
+
+        if (lineErrors.length > 0) {
+            return NextResponse.json(
+                { error: 'Some items are invalid', details: lineErrors },
+                { status: 400 }
+            )
+        }
+
+        // STEP 3: Create the order and its lines in one transaction
+        const { data: result, error: createError } = await supabase.rpc('create_purchase_order', {
+            p_pharmacy_id: userPharmacy.pharmacy_id,
+            p_supplier_id: supplier.id,
+            p_user_id: user.id,
+            p_po_number: generateOrderNumber(),
+            p_expected_date: body.expected_date || null,
+            p_notes: body.notes || null,
+            p_items: orderLines
+        })
+
+        if (createError) {
+            console.error('❌ Purchase order creation error:', createError)
+            return NextResponse.json(
+                { error: 'Failed to create purchase order', details: createError.message },
+                { status: 500 }
+            )
+        }
+
+        console.log('✅ Purchase order created:', result.po_number, 'with', result.items, 'items')
+
+        // Fetch the complete order with all relations
+        const { data: order } = await supabase
+            .from('purchase_orders')
+            .select(ORDER_SELECT)
+            .eq('id', result.purchase_order_id)
+            .single()
+
+        return NextResponse.json({
+            order,
+            message: `Draft order ${result.po_number} created for ${supplier.name}`
+        }, { status: 201 })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to create purchase order' },
+            { status: 500 }
+        )
+    }
+}
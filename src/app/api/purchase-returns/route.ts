@@ -0,0 +1,355 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+interface ReturnablePurchaseItem {
+    id: string
+    purchase_id: string
+    medicine_id: string
+    batch_number: string
+    expiry_date: string
+    received_quantity: number | null
+    purchase_rate: number
+    medicines: { name: string } | null
+    purchases: { id: string; pharmacy_id: string; supplier_id: string; invoice_number: string } | null
+}
+
+// Helper function to generate a debit note number unique per pharmacy
+function generateDebitNoteNumber(): string {
+    const datePart = new Date().toISOString().split('T')[0].replace(/-/g, '')
+    const randomSuffix = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
+    return `DN-${datePart}-${Date.now().toString().slice(-5)}${randomSuffix}`
+}
+
+const RETURN_SELECT = `
+        *,
+        suppliers(
+          id,
+          name,
+          address,
+          city,
+          state,
+          gst_number,
+          drug_license_number
+        ),
+        pharmacies(
+          name,
+          address,
+          city,
+          state,
+          phone,
+          gst_number,
+          license_number
+        ),
+        purchase_return_items(
+          id,
+          purchase_item_id,
+          purchase_id,
+          batch_number,
+          expiry_date,
+          quantity,
+          rate,
+          amount,
+          reason,
+          medicines(
+            name,
+            manufacturer
+          ),
+          purchases(
+            invoice_number,
+            invoice_date
+          )
+        )
+      `
+
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const supplierId = searchParams.get('supplier_id')
+        const returnId = searchParams.get('return_id')
+        const page = parseInt(searchParams.get('page') || '1')
+        const limit = parseInt(searchParams.get('limit') || '10')
+        const offset = (page - 1) * limit
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        let query = supabase
+            .from('purchase_returns')
+            .select(RETURN_SELECT, { count: 'exact' })
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+
+        if (supplierId) {
+            query = query.eq('supplier_id', supplierId)
+        }
+        if (returnId) {
+            query = query.eq('id', returnId)
+        }
+
+        const { data: returns, error, count } = await query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (error) {
+            console.error('Purchase returns fetch error:', error)
+            return NextResponse.json(
+                { error: 'Failed to fetch purchase returns' },
+                { status: 500 }
+            )
+        }
+
+        // Supplier balances after debit notes for the suppliers on this page
+        const supplierIds = Array.from(new Set((returns || []).map(r => r.supplier_id).filter(Boolean)))
+        let supplierBalances: Record<string, unknown>[] = []
+
+        if (supplierIds.length > 0) {
+            const { data: balances, error: balanceError } = await supabase
+                .from('view_supplier_balances')
+                .select('*')
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .in('supplier_id', supplierIds)
+
+            if (balanceError) {
+                console.error('Supplier balance fetch error:', balanceError)
+            } else {
+                supplierBalances = balances || []
+            }
+        }
+
+        return NextResponse.json({
+            data: returns || [],
+            supplier_balances: supplierBalances,
+            total: count || 0,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil((count || 0) / limit))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch purchase returns' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { user, supabase, userPharmacy } = await requirePermission(request, 'purchase_returns.create')
+
+        const body = await request.json()
+
+        // Validate the request body
+        if (!body.items?.length) {
+            return NextResponse.json(
+                { error: 'Missing required fields: at least one item is required' },
+                { status: 400 }
+            )
+        }
+
+        const pharmacyId = userPharmacy.pharmacy_id
+        const requestedItems = body.items as { purchase_item_id: string; quantity: number; reason?: string }[]
+        const purchaseItemIds = requestedItems.map(item => item.purchase_item_id)
+
+        // STEP 1: Load the original purchase lines
+        const { data: purchaseItemsData, error: purchaseItemsError } = await supabase
+            .from('purchase_items')
+            .select(`
+                id,
+                purchase_id,
+                medicine_id,
+                batch_number,
+                expiry_date,
+                received_quantity,
+                purchase_rate,
+                medicines(name),
+                purchases!inner(id, pharmacy_id, supplier_id, invoice_number)
+            `)
+            .in('id', purchaseItemIds)
+            .eq('purchases.pharmacy_id', pharmacyId)
+
+        if (purchaseItemsError) {
+            console.error('Purchase items fetch error:', purchaseItemsError)
+            return NextResponse.json(
+                { error: 'Failed to fetch purchase items' },
+                { status: 500 }
+            )
+        }
+
+        const purchaseItems = (purchaseItemsData || []) as unknown as ReturnablePurchaseItem[]
+        const purchaseItemMap = new Map(purchaseItems.map(item => [item.id, item]))
+
+        // All lines on one debit note must belong to the same supplier
+        const supplierIds = new Set(purchaseItems.map(item => item.purchases?.supplier_id))
+        if (supplierIds.size > 1) {
+            return NextResponse.json(
+                { error: 'All returned items must belong to the same supplier' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 2: Quantities already returned against these purchase lines
+        const { data: previousReturns } = await supabase
+            .from('purchase_return_items')
+            .select('purchase_item_id, quantity')
+            .in('purchase_item_id', purchaseItemIds)
+
+        const returnedSoFar = new Map<string, number>()
+        previousReturns?.forEach(row => {
+            returnedSoFar.set(row.purchase_item_id, (returnedSoFar.get(row.purchase_item_id) || 0) + row.quantity)
+        })
+
+        // STEP 3: Validate every line against the purchase and current stock
+        const lineErrors: { purchase_item_id: string; error: string }[] = []
+        const returnLines: {
+            purchaseItem: ReturnablePurchaseItem
+            quantity: number
+            reason: string | null
+        }[] = []
+
+        for (const item of requestedItems) {
+            const purchaseItem = purchaseItemMap.get(item.purchase_item_id)
+            const quantity = parseInt(String(item.quantity)) || 0
+
+            if (!purchaseItem) {
+                lineErrors.push({ purchase_item_id: item.purchase_item_id, error: 'Purchase item not found' })
+                continue
+            }
+
+            if (quantity <= 0) {
+                lineErrors.push({ purchase_item_id: item.purchase_item_id, error: 'Quantity must be greater than zero' })
+                continue
+            }
+
+            // Only units received into stock can go back; damaged or undelivered units never did
+            const returnable = (purchaseItem.received_quantity || 0) - (returnedSoFar.get(purchaseItem.id) || 0)
+            if (quantity > returnable) {
+                lineErrors.push({
+                    purchase_item_id: item.purchase_item_id,
+                    error: `Only ${Math.max(returnable, 0)} units of ${purchaseItem.medicines?.name || 'this item'} can be returned against this purchase`
+                })
+                continue
+            }
+
+            const { data: inventory } = await supabase
+                .from('current_inventory')
+                .select('id, current_stock')
+                .eq('pharmacy_id', pharmacyId)
+                .eq('medicine_id', purchaseItem.medicine_id)
+                .eq('batch_number', purchaseItem.batch_number)
+                .eq('expiry_date', purchaseItem.expiry_date)
+                .single()
+
+            if (!inventory || inventory.current_stock < quantity) {
+                lineErrors.push({
+                    purchase_item_id: item.purchase_item_id,
+                    error: `Only ${inventory?.current_stock || 0} units of batch ${purchaseItem.batch_number} are in stock`
+                })
+                continue
+            }
+
+            returnLines.push({ purchaseItem, quantity, reason: item.reason || body.reason || null })
+        }
+
+        if (lineErrors.length > 0) {
+            return NextResponse.json(
+                { error: 'Some items cannot be returned', details: lineErrors },
+                { status: 400 }
+            )
+        }
+
+        // STEP 4: Create the debit note and take the stock out in one transaction
+        const supplierId = returnLines[0].purchaseItem.purchases?.supplier_id
+        const { data: result, error: returnError } = await supabase.rpc('create_purchase_return', {
+            p_pharmacy_id: pharmacyId,
+            p_supplier_id: supplierId,
+            p_user_id: user.id,
+            p_debit_note_number: generateDebitNoteNumber(),
+            p_return_date: body.return_date || new Date().toISOString().split('T')[0],
+            p_reason: body.reason || null,
+            p_notes: body.notes || null,
+            p_items: returnLines.map(line => ({
+                purchase_item_id: line.purchaseItem.id,
+                quantity: line.quantity,
+                reason: line.reason
+            }))
+        })
+
+        if (returnError) {
+            console.error('Purchase return creation error:', returnError)
+
+            // Returned or sold by someone else since the checks above
+            if (returnError.code === 'P0001') {
+                return NextResponse.json(
+                    { error: 'Some items cannot be returned', details: [{ error: returnError.message }] },
+                    { status: 409 }
+                )
+            }
+
+            return NextResponse.json(
+                { error: 'Failed to create purchase return' },
+                { status: 500 }
+            )
+        }
+
+        console.log('✅ Purchase return created:', result.debit_note_number, 'for', result.items, 'items')
+
+        // Fetch the complete debit note with all relations
+        const { data: completeReturn } = await supabase
+            .from('purchase_returns')
+            .select(RETURN_SELECT)
+            .eq('id', result.return_id)
+            .single()
+
+        // Supplier balance after this debit note
+        const { data: supplierBalance } = await supabase
+            .from('view_supplier_balances')
+            .select('*')
+            .eq('supplier_id', supplierId)
+            .single()
+
+        return NextResponse.json({ ...completeReturn, supplier_balance: supplierBalance || null }, { status: 201 })
+    } catch (error) {
+        console.error('❌ Purchase return creation error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to create purchase return' },
+            { status: 500 }
+        )
+    }
+}
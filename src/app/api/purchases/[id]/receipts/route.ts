@@ -0,0 +1,292 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+interface RouteContext {
+    params: Promise<{ id: string }>
+}
+
+interface ReceiptLineRequest {
+    purchase_item_id: string
+    received_quantity?: number | string
+    damaged_quantity?: number | string
+    batch_number?: string
+    expiry_date?: string
+    mrp?: number | string
+    notes?: string
+}
+
+interface ReceiptRpcResult {
+    success: boolean
+    receipt_id?: string
+    receipt_number?: string
+    status?: string
+    failed_index?: number | null
+    error?: string
+}
+
+// Helper function to generate a goods receipt number
+function generateReceiptNumber(): string {
+    const datePart = new Date().toISOString().split('T')[0].replace(/-/g, '')
+    const randomSuffix = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
+    return `GRN-${datePart}-${Date.now().toString().slice(-5)}${randomSuffix}`
+}
+
+// Helper function to turn YYYY-MM into the last day of that month; null when the date is not valid
+function normalizeExpiry(value: string): string | null {
+    let expiry = value
+    if (/^\d{4}-\d{2}$/.test(expiry)) {
+        const [year, month] = expiry.split('-')
+        const lastDay = new Date(parseInt(year), parseInt(month), 0).getDate()
+        expiry = `${year}-${month}-${lastDay.toString().padStart(2, '0')}`
+    }
+    const match = expiry.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    if (!match || parseInt(match[2]) < 1 || parseInt(match[2]) > 12 || isNaN(new Date(expiry).getTime())) {
+        return null
+    }
+    return expiry
+}
+
+// Goods receipts recorded against a purchase, oldest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const { data: receipts, error } = await supabase
+            .from('purchase_receipts')
+            .select(`
+                id,
+                receipt_number,
+                received_date,
+                notes,
+                created_at,
+                users(full_name),
+                purchase_receipt_items(
+                    id,
+                    purchase_item_id,
+                    received_quantity,
+                    damaged_quantity,
+                    notes,
+                    purchase_items(batch_number, expiry_date, medicines(name))
+                )
+            `)
+            .eq('purchase_id', id)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .order('created_at', { ascending: true })
+
+        if (error) {
+            console.error('Purchase receipts fetch error:', error)
+            return NextResponse.json(
+                { error: 'Failed to fetch goods receipts' },
+                { status: 500 }
+            )
+        }
+
+        return NextResponse.json(receipts || [])
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch goods receipts' },
+            { status: 500 }
+        )
+    }
+}
+
+// Record goods received against a draft, sent or partially received purchase.
+// Only this adds the purchase's stock to inventory.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params
+
+        // Get authenticated user and check their pharmacy role
+        const { user, supabase, userPharmacy } = await requirePermission(request, 'purchases.receive')
+
+        const body = await request.json()
+        const requestedItems: ReceiptLineRequest[] = Array.isArray(body.items) ? body.items : []
+
+        if (requestedItems.length === 0) {
+            return NextResponse.json(
+                { error: 'Missing required fields: at least one received item is required' },
+                { status: 400 }
+            )
+        }
+
+        if (body.received_date && !/^\d{4}-\d{2}-\d{2}$/.test(body.received_date)) {
+            return NextResponse.json(
+                { error: 'received_date must be a date (YYYY-MM-DD)' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: The purchase must belong to this pharmacy and still be awaiting goods
+        const { data: purchase } = await supabase
+            .from('purchases')
+            .select('id, invoice_number, status')
+            .eq('id', id)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (!purchase) {
+            return NextResponse.json(
+                { error: 'Purchase not found' },
+                { status: 404 }
+            )
+        }
+
+        if (!['draft', 'sent', 'partially_received'].includes(purchase.status)) {
+            return NextResponse.json(
+                { error: `Purchase ${purchase.invoice_number} is already ${purchase.status}` },
+                { status: 409 }
+            )
+        }
+
+        // STEP 2: Validate every line (quantities against what is outstanding are checked by the database)
+        const lineErrors: { index: number; error: string }[] = []
+        const receiptLines = requestedItems.flatMap((item, index) => {
+            const received = item.received_quantity === undefined || item.received_quantity === '' ? 0 : Number(item.received_quantity)
+            const damaged = item.damaged_quantity === undefined || item.damaged_quantity === '' ? 0 : Number(item.damaged_quantity)
+            const mrp = item.mrp === undefined || item.mrp === '' ? null : Number(item.mrp)
+            const expiry = item.expiry_date ? normalizeExpiry(item.expiry_date) : null
+
+            if (!item.purchase_item_id) {
+                lineErrors.push({ index, error: 'Purchase item is required' })
+                return []
+            }
+            if (!Number.isInteger(received) || received < 0 || !Number.isInteger(damaged) || damaged < 0) {
+                lineErrors.push({ index, error: 'Received and damaged quantities must be whole numbers of 0 or more' })
+                return []
+            }
+            if (item.expiry_date && !expiry) {
+                lineErrors.push({ index, error: 'Expiry must be a valid MM/YY date' })
+                return []
+            }
+            if (mrp !== null && (isNaN(mrp) || mrp < 0)) {
+                lineErrors.push({ index, error: 'MRP must be a number of 0 or more' })
+                return []
+            }
+
+            // Lines with nothing delivered are left for a later receipt
+            if (received + damaged === 0) return []
+
+            return [{
+                purchase_item_id: item.purchase_item_id,
+                received_quantity: received,
+                damaged_quantity: damaged,
+                batch_number: item.batch_number?.trim() || null,
+                expiry_date: expiry,
+                mrp,
+                notes: item.notes || null
+            }]
+        })
+
+        if (lineErrors.length > 0) {
+            return NextResponse.json(
+                { error: 'Some items are invalid', details: lineErrors },
+                { status: 400 }
+            )
+        }
+
+        if (receiptLines.length === 0) {
+            return NextResponse.json(
+                { error: 'Enter a received or damaged quantity for at least one item' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 3: Record the receipt, add the stock and move the purchase on in one transaction
+        const { data: result, error: rpcError } = await supabase.rpc('receive_purchase_goods', {
+            p_purchase_id: purchase.id,
+            p_user_id: user.id,
+            p_receipt_number: generateReceiptNumber(),
+            p_received_date: body.received_date || null,
+            p_notes: body.notes || null,
+            p_items: receiptLines
+        })
+
+        if (rpcError || !result) {
+            console.error('❌ Goods receipt error:', rpcError)
+            return NextResponse.json(
+                { error: 'Failed to record goods receipt' },
+                { status: 500 }
+            )
+        }
+
+        const rpcResult = result as ReceiptRpcResult
+
+        if (!rpcResult.success) {
+            console.error('❌ Goods receipt rolled back:', rpcResult)
+
+            // A failed line is reported against its row, anything else failed on the receipt itself
+            if (rpcResult.failed_index !== null && rpcResult.failed_index !== undefined) {
+                const requestIndex = requestedItems.findIndex(item => item.purchase_item_id === receiptLines[rpcResult.failed_index as number]?.purchase_item_id)
+                return NextResponse.json(
+                    {
+                        error: 'Goods receipt was not saved',
+                        details: [{ index: requestIndex, error: rpcResult.error }]
+                    },
+                    { status: 400 }
+                )
+            }
+
+            return NextResponse.json(
+                { error: 'Failed to record goods receipt', details: rpcResult.error },
+                { status: 400 }
+            )
+        }
+
+        console.log('✅ Goods received:', rpcResult.receipt_number, 'against', purchase.invoice_number, '->', rpcResult.status)
+
+        return NextResponse.json({
+            receipt_id: rpcResult.receipt_id,
+            receipt_number: rpcResult.receipt_number,
+            status: rpcResult.status,
+            message: rpcResult.status === 'received'
+                ? `All goods on ${purchase.invoice_number} received`
+                : `Goods received against ${purchase.invoice_number}; some items are still to come`
+        }, { status: 201 })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to record goods receipt' },
+            { status: 500 }
+        )
+    }
+}
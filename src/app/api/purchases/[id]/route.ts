@@ -0,0 +1,531 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getAuthenticatedUser, getUserPharmacy, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+import { cascadeDeleteFromRelatedTables, countPurchasePayments } from '@/lib/purchases/cascade'
+import { loadDuplicateMatches } from '@/lib/purchases/duplicates'
+
+interface RouteContext {
+    params: Promise<{ id: string }>
+}
+
+interface PurchaseItemRow {
+    id: string
+    purchase_id: string
+    medicine_id: string
+    batch_number: string | null
+    expiry_date: string | null
+    quantity: number
+    free_quantity: number | null
+    total_quantity: number | null
+    received_quantity: number | null
+    damaged_quantity: number | null
+    mrp: number | null
+    purchase_rate: number
+    discount_percentage: number | null
+    tax_percentage: number | null
+    gross_amount: number | null
+    taxable_amount: number | null
+    tax_amount: number | null
+    net_amount: number | null
+    medicines: {
+        id: string
+        name: string
+        generic_name: string | null
+        manufacturer: string | null
+        strength: string | null
+        unit_type: string | null
+    } | null
+}
+
+const PURCHASE_SELECT = `
+    *,
+    suppliers(
+        id,
+        name,
+        contact_person,
+        phone,
+        email,
+        address,
+        city,
+        gst_number
+    ),
+    purchase_items(
+        id,
+        purchase_id,
+        medicine_id,
+        batch_number,
+        expiry_date,
+        quantity,
+        free_quantity,
+        total_quantity,
+        received_quantity,
+        damaged_quantity,
+        mrp,
+        purchase_rate,
+        discount_percentage,
+        tax_percentage,
+        gross_amount,
+        taxable_amount,
+        tax_amount,
+        net_amount,
+        medicines(
+            id,
+            name,
+            generic_name,
+            manufacturer,
+            strength,
+            unit_type
+        )
+    )
+`
+
+// Helper function to load a purchase with its supplier and items in the shape the client expects
+async function fetchPurchaseWithItems(supabaseClient: SupabaseClient, purchaseId: string, pharmacyId: string) {
+    const { data: purchase, error } = await supabaseClient
+        .from('purchases')
+        .select(PURCHASE_SELECT)
+        .eq('id', purchaseId)
+        .eq('pharmacy_id', pharmacyId)
+        .single()
+
+    if (error || !purchase) {
+        return { purchase: null, error }
+    }
+
+    const { suppliers, purchase_items, ...header } = purchase
+    const items = ((purchase_items || []) as unknown as PurchaseItemRow[]).map(item => ({
+        id: item.id,
+        purchase_id: item.purchase_id,
+        medicine_id: item.medicine_id,
+        medicine_name: item.medicines?.name || 'Unknown Medicine',
+        generic_name: item.medicines?.generic_name || '',
+        batch_number: item.batch_number,
+        expiry_date: item.expiry_date,
+        quantity: item.quantity || 0,
+        free_quantity: item.free_quantity || 0,
+        received_quantity: item.received_quantity || 0,
+        damaged_quantity: item.damaged_quantity || 0,
+        outstanding_quantity: Math.max((item.total_quantity || 0) - (item.received_quantity || 0) - (item.damaged_quantity || 0), 0),
+        mrp: item.mrp || 0,
+        rate: item.purchase_rate || 0,
+        discount_percentage: item.discount_percentage || 0,
+        tax_percentage: item.tax_percentage || 0,
+        taxable_amount: item.taxable_amount ?? item.gross_amount ?? 0,
+        tax_amount: item.tax_amount || 0,
+        amount: item.net_amount || item.gross_amount || (item.quantity || 0) * (item.purchase_rate || 0)
+    }))
+
+    return {
+        purchase: {
+            ...header,
+            supplier: suppliers,
+            items
+        },
+        error: null
+    }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+        const { id } = await params
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const { purchase, error } = await fetchPurchaseWithItems(supabase, id, userPharmacy.pharmacy_id)
+
+        if (!purchase) {
+            console.error('Purchase fetch error:', error)
+            return NextResponse.json(
+                { error: 'Purchase not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(purchase)
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch purchase' },
+            { status: 500 }
+        )
+    }
+}
+
+// Helper function to mark a draft as sent to the supplier, or cancel an order nothing has been received against
+async function updatePurchaseStatus(request: NextRequest, id: string, action: unknown) {
+    if (action !== 'send' && action !== 'cancel') {
+        return NextResponse.json(
+            { error: 'action must be send, cancel or verify' },
+            { status: 400 }
+        )
+    }
+
+    // Get authenticated user and check their pharmacy role
+    const { supabase, userPharmacy } = await requirePermission(request, 'purchase_orders.manage')
+
+    const { data: purchase } = await supabase
+        .from('purchases')
+        .select('id, invoice_number, status')
+        .eq('id', id)
+        .eq('pharmacy_id', userPharmacy.pharmacy_id)
+        .single()
+
+    if (!purchase) {
+        return NextResponse.json(
+            { error: 'Purchase not found' },
+            { status: 404 }
+        )
+    }
+
+    // Once goods have arrived the purchase can only be completed or returned
+    const allowed = action === 'send' ? ['draft'] : ['draft', 'sent']
+    if (!allowed.includes(purchase.status)) {
+        return NextResponse.json(
+            { error: `Purchase ${purchase.invoice_number} is ${purchase.status.replace('_', ' ')} and cannot be ${action === 'send' ? 'sent' : 'cancelled'}` },
+            { status: 409 }
+        )
+    }
+
+    const now = new Date().toISOString()
+    const { error: updateError } = await supabase
+        .from('purchases')
+        .update(action === 'send' ? { status: 'sent', sent_at: now } : { status: 'cancelled' })
+        .eq('id', purchase.id)
+
+    if (updateError) {
+        console.error(`❌ Purchase ${action} error:`, updateError)
+        return NextResponse.json(
+            { error: `Failed to ${action} purchase` },
+            { status: 500 }
+        )
+    }
+
+    console.log(`✅ Purchase ${purchase.invoice_number} ${action === 'send' ? 'sent' : 'cancelled'}`)
+
+    const { purchase: updatedPurchase } = await fetchPurchaseWithItems(supabase, id, userPharmacy.pharmacy_id)
+
+    return NextResponse.json(updatedPurchase)
+}
+
+// Helper function to mark a received purchase as checked against the supplier's invoice.
+// An exact duplicate must be removed first; a likely one needs confirming.
+async function verifyPurchase(request: NextRequest, id: string, confirmLikelyDuplicate: boolean) {
+    // Get authenticated user and check their pharmacy role
+    const { user, supabase, userPharmacy } = await requirePermission(request, 'purchases.verify')
+
+    const { data: purchase } = await supabase
+        .from('purchases')
+        .select('id, supplier_id, invoice_number, purchase_date, total_amount, status')
+        .eq('id', id)
+        .eq('pharmacy_id', userPharmacy.pharmacy_id)
+        .single()
+
+    if (!purchase) {
+        return NextResponse.json(
+            { error: 'Purchase not found' },
+            { status: 404 }
+        )
+    }
+
+    if (purchase.status !== 'received') {
+        return NextResponse.json(
+            { error: `Purchase ${purchase.invoice_number} is ${purchase.status.replace('_', ' ')}; only a fully received purchase can be verified` },
+            { status: 409 }
+        )
+    }
+
+    const duplicates = await loadDuplicateMatches(supabase, userPharmacy.pharmacy_id, purchase.supplier_id, purchase)
+
+    if (duplicates.some(match => match.exact)) {
+        return NextResponse.json(
+            { error: `${duplicates[0].reason}. Delete the copy before verifying.`, duplicates },
+            { status: 409 }
+        )
+    }
+
+    if (duplicates.length > 0 && !confirmLikelyDuplicate) {
+        return NextResponse.json(
+            { error: 'This may be an invoice that is already entered', duplicates, requires_confirmation: true },
+            { status: 409 }
+        )
+    }
+
+    const { error: updateError } = await supabase
+        .from('purchases')
+        .update({ status: 'verified', verified_by: user.id, verified_at: new Date().toISOString() })
+        .eq('id', purchase.id)
+        .eq('status', 'received')
+
+    if (updateError) {
+        console.error('❌ Purchase verify error:', updateError)
+        return NextResponse.json(
+            { error: 'Failed to verify purchase' },
+            { status: 500 }
+        )
+    }
+
+    console.log(`✅ Purchase ${purchase.invoice_number} verified`)
+
+    const { purchase: updatedPurchase } = await fetchPurchaseWithItems(supabase, id, userPharmacy.pharmacy_id)
+
+    return NextResponse.json(updatedPurchase)
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params
+        const body = await request.json()
+
+        if (body.action === 'verify') {
+            return await verifyPurchase(request, id, body.allow_likely_duplicate === true)
+        }
+
+        // Lifecycle actions on a draft or sent purchase
+        if (body.action !== undefined) {
+            return await updatePurchaseStatus(request, id, body.action)
+        }
+
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'purchases.edit')
+
+        const { data: existingPurchase } = await supabase
+            .from('purchases')
+            .select('id, supplier_id, invoice_number')
+            .eq('id', id)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (!existingPurchase) {
+            return NextResponse.json(
+                { error: 'Purchase not found' },
+                { status: 404 }
+            )
+        }
+
+        // Only header fields can be edited here, items are edited through the purchases route
+        const updateFields: Record<string, string | null> = {}
+
+        if (body.invoice_number !== undefined) {
+            const invoiceNumber = String(body.invoice_number).trim()
+            if (!invoiceNumber) {
+                return NextResponse.json(
+                    { error: 'Invoice number cannot be empty' },
+                    { status: 400 }
+                )
+            }
+
+            if (invoiceNumber !== existingPurchase.invoice_number) {
+                // Check if invoice number already exists for this pharmacy and supplier
+                const { data: duplicatePurchase } = await supabase
+                    .from('purchases')
+                    .select('id')
+                    .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                    .eq('supplier_id', existingPurchase.supplier_id)
+                    .eq('invoice_number', invoiceNumber)
+                    .neq('id', id)
+                    .maybeSingle()
+
+                if (duplicatePurchase) {
+                    return NextResponse.json(
+                        { error: `Invoice ${invoiceNumber} already exists for this supplier` },
+                        { status: 409 }
+                    )
+                }
+            }
+
+            updateFields.invoice_number = invoiceNumber
+        }
+
+        if (body.date !== undefined) {
+            const purchaseDate = String(body.date).split('T')[0]
+            if (isNaN(new Date(purchaseDate).getTime())) {
+                return NextResponse.json(
+                    { error: 'Invalid purchase date' },
+                    { status: 400 }
+                )
+            }
+            updateFields.invoice_date = purchaseDate
+            updateFields.purchase_date = purchaseDate
+        }
+
+        if (body.notes !== undefined) {
+            updateFields.notes = body.notes ? String(body.notes) : null
+        }
+
+        if (Object.keys(updateFields).length === 0) {
+            return NextResponse.json(
+                { error: 'No editable fields provided. Allowed fields: invoice_number, date, notes' },
+                { status: 400 }
+            )
+        }
+
+        const { error: updateError } = await supabase
+            .from('purchases')
+            .update(updateFields)
+            .eq('id', id)
+
+        if (updateError) {
+            console.error('Purchase update error:', updateError)
+            return NextResponse.json(
+                { error: 'Failed to update purchase' },
+                { status: 500 }
+            )
+        }
+
+        console.log('✅ Purchase header updated:', id, updateFields)
+
+        const { purchase } = await fetchPurchaseWithItems(supabase, id, userPharmacy.pharmacy_id)
+
+        return NextResponse.json(purchase)
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to update purchase' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'purchases.delete')
+        const { id } = await params
+
+        // STEP 1: Get the purchase and its items before deleting (for cascading deletes)
+        const { data: purchase } = await supabase
+            .from('purchases')
+            .select('id, invoice_number')
+            .eq('id', id)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (!purchase) {
+            return NextResponse.json(
+                { error: 'Purchase not found' },
+                { status: 404 }
+            )
+        }
+
+        // Payments made against the invoice stay in the supplier ledger
+        const paymentCount = await countPurchasePayments(supabase, id)
+        if (paymentCount > 0) {
+            return NextResponse.json(
+                { error: `Purchase ${purchase.invoice_number} has ${paymentCount} supplier payment(s) recorded against it. Delete the payments first.` },
+                { status: 409 }
+            )
+        }
+
+        const { data: itemsToDelete, error: itemsError } = await supabase
+            .from('purchase_items')
+            .select('id, medicine_id, batch_number, expiry_date, received_quantity')
+            .eq('purchase_id', id)
+
+        if (itemsError) {
+            console.error('Purchase items fetch error:', itemsError)
+            return NextResponse.json(
+                { error: 'Failed to fetch purchase items' },
+                { status: 500 }
+            )
+        }
+
+        // STEP 2: Delete from purchase_items table FIRST
+        const { error: deleteItemsError } = await supabase
+            .from('purchase_items')
+            .delete()
+            .eq('purchase_id', id)
+
+        if (deleteItemsError) {
+            console.error('Delete error:', deleteItemsError)
+            return NextResponse.json(
+                { error: 'Failed to delete purchase items' },
+                { status: 500 }
+            )
+        }
+
+        // STEP 3: CASCADE DELETE from all related tables AFTER purchase_items deletion
+        for (const item of itemsToDelete || []) {
+            await cascadeDeleteFromRelatedTables(supabase, item)
+        }
+
+        // STEP 4: Delete the purchase itself
+        const { error: deletePurchaseError } = await supabase
+            .from('purchases')
+            .delete()
+            .eq('id', id)
+
+        if (deletePurchaseError) {
+            console.error('Error deleting purchase:', deletePurchaseError)
+            return NextResponse.json(
+                { error: 'Failed to delete purchase' },
+                { status: 500 }
+            )
+        }
+
+        console.log(`✅ Purchase ${purchase.invoice_number} deleted with ${itemsToDelete?.length || 0} items`)
+
+        return NextResponse.json({
+            success: true,
+            deleted_items: itemsToDelete?.length || 0
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to delete purchase' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+
+// Helper function to find a supplier of this pharmacy by name, ignoring case
+async function findSupplier(supabase: SupabaseClient, pharmacyId: string, supplierName: string) {
+    const { data } = await supabase
+        .from('suppliers')
+        .select('id, name')
+        .eq('pharmacy_id', pharmacyId)
+        .ilike('name', supplierName.replace(/[%_\\]/g, '\\$&'))
+        .limit(1)
+        .maybeSingle()
+
+    return data
+}
+
+// Saved invoice column mapping for a supplier
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const supplierName = searchParams.get('supplier_name')?.trim()
+
+        if (!supplierName) {
+            return NextResponse.json(
+                { error: 'supplier_name is required' },
+                { status: 400 }
+            )
+        }
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const supplier = await findSupplier(supabase, userPharmacy.pharmacy_id, supplierName)
+
+        if (!supplier) {
+            return NextResponse.json({ mapping: null })
+        }
+
+        const { data: mapping, error } = await supabase
+            .from('supplier_import_mappings')
+            .select('supplier_id, header_row, column_mapping, updated_at')
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .eq('supplier_id', supplier.id)
+            .maybeSingle()
+
+        if (error) {
+            console.error('Import mapping fetch error:', error)
+            return NextResponse.json(
+                { error: 'Failed to fetch import mapping' },
+                { status: 500 }
+            )
+        }
+
+        return NextResponse.json({ mapping: mapping || null })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch import mapping' },
+            { status: 500 }
+        )
+    }
+}
+
+// Save the column mapping used for a supplier's invoice file
+export async function PUT(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const body = await request.json()
+        const supplierName = typeof body.supplier_name === 'string' ? body.supplier_name.trim() : ''
+        const headerRow = Number(body.header_row ?? 0)
+        const columnMapping = body.column_mapping
+
+        // Validate the request body
+        if (!supplierName || !columnMapping || typeof columnMapping !== 'object' || Array.isArray(columnMapping)) {
+            return NextResponse.json(
+                { error: 'Missing required fields: supplier_name and column_mapping are required' },
+                { status: 400 }
+            )
+        }
+
+        if (!Number.isInteger(headerRow) || headerRow < 0) {
+            return NextResponse.json(
+                { error: 'header_row must be a whole number of 0 or more' },
+                { status: 400 }
+            )
+        }
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const supplier = await findSupplier(supabase, userPharmacy.pharmacy_id, supplierName)
+
+        if (!supplier) {
+            return NextResponse.json(
+                { error: `Supplier "${supplierName}" not found` },
+                { status: 404 }
+            )
+        }
+
+        const { data: mapping, error } = await supabase
+            .from('supplier_import_mappings')
+            .upsert({
+                pharmacy_id: userPharmacy.pharmacy_id,
+                supplier_id: supplier.id,
+                header_row: headerRow,
+                column_mapping: columnMapping,
+                updated_by: user.id
+            }, { onConflict: 'pharmacy_id,supplier_id' })
+            .select('supplier_id, header_row, column_mapping, updated_at')
+            .single()
+
+        if (error) {
+            console.error('Import mapping save error:', error)
+            return NextResponse.json(
+                { error: 'Failed to save import mapping', details: error.message },
+                { status: 500 }
+            )
+        }
+
+        console.log(`✅ Saved invoice import mapping for ${supplier.name}`)
+
+        return NextResponse.json({ mapping })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to save import mapping' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+
+// Purchases still waiting for goods: drafts, orders sent to the supplier and part deliveries
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const page = parseInt(searchParams.get('page') || '1')
+        const limit = parseInt(searchParams.get('limit') || '10')
+        const offset = (page - 1) * limit
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const { data: purchases, error, count } = await supabase
+            .from('purchases')
+            .select(`
+                id,
+                invoice_number,
+                purchase_date,
+                status,
+                total_amount,
+                sent_at,
+                notes,
+                suppliers(id, name),
+                purchase_items(
+                    id,
+                    medicine_id,
+                    batch_number,
+                    expiry_date,
+                    quantity,
+                    free_quantity,
+                    total_quantity,
+                    received_quantity,
+                    damaged_quantity,
+                    mrp,
+                    purchase_rate,
+                    medicines(name)
+                )
+            `, { count: 'exact' })
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .in('status', ['draft', 'sent', 'partially_received'])
+            .order('purchase_date', { ascending: true })
+            .range(offset, offset + limit - 1)
+
+        if (error) {
+            console.error('Pending purchases fetch error:', error)
+            return NextResponse.json(
+                { error: 'Failed to fetch pending purchases' },
+                { status: 500 }
+            )
+        }
+
+        return NextResponse.json({
+            data: purchases || [],
+            total: count || 0,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil((count || 0) / limit))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch pending purchases' },
+            { status: 500 }
+        )
+    }
+}
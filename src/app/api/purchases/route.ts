@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
-import { getAuthenticatedUser } from '@/lib/auth/supabase-server'
+import { getAuthenticatedUser, getUserPharmacy, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+import { describeMissingPermission, hasPermission } from '@/lib/auth/permissions'
+import { cascadeDeleteFromRelatedTables, isLastItemOfPaidPurchase } from '@/lib/purchases/cascade'
+import { calculateLineAmounts, calculatePurchaseTotals } from '@/lib/purchases/gst'
+import { loadMedicineTaxDefaults, loadPurchaseTaxContext } from '@/lib/purchases/tax-defaults'
+import { loadDuplicateMatches } from '@/lib/purchases/duplicates'
 
 // Helper function to convert Free field text to integer
 function convertFreeToInteger(freeValue: any): number {
@@ -20,122 +25,113 @@ function convertFreeToInteger(freeValue: any): number {
     return 0
 }
 
-// Helper function to check if a medicine is still referenced in any table
-async function checkMedicineReferences(supabaseClient: any, medicine_id: string): Promise<boolean> {
-    try {
-        // Check purchase_items table
-        const { data: purchaseItems, error: purchaseError } = await supabaseClient
-            .from('purchase_items')
-            .select('id')
-            .eq('medicine_id', medicine_id)
-            .limit(1)
-
-        if (purchaseError) {
-            console.error('Error checking purchase_items references:', purchaseError)
-            return true // Assume referenced if error
-        }
+interface PurchaseLineInput {
+    medicine_name?: string
+    quantity?: number | string
+    Free?: number | string
+    expiry_date?: string
+    batch_number?: string
+    mrp?: number | string
+    rate?: number | string
+    discount_percentage?: number | string
+    tax_percentage?: number | string
+    amount?: number | string
+}
 
-        if (purchaseItems && purchaseItems.length > 0) {
-            return true // Still referenced in purchase_items
-        }
+interface PurchaseLineError {
+    index: number
+    medicine_name?: string
+    field: string | null
+    error: string
+}
 
-        // Check current_inventory table
-        const { data: inventoryItems, error: inventoryError } = await supabaseClient
-            .from('current_inventory')
-            .select('id')
-            .eq('medicine_id', medicine_id)
-            .limit(1)
+interface PurchaseRpcResult {
+    success: boolean
+    purchase_id?: string
+    invoice_number?: string
+    failed_index?: number | null
+    duplicate_of?: string
+    order_status?: string
+    error?: string
+}
 
-        if (inventoryError) {
-            console.error('Error checking current_inventory references:', inventoryError)
-            return true // Assume referenced if error
+// Helper function to validate purchase lines and convert them to the shape the RPC expects.
+// Lines on a draft may leave batch and expiry empty until the goods are received.
+function normalizePurchaseLines(lines: PurchaseLineInput[], isDraft = false) {
+    const items: {
+        medicine_name: string
+        batch_number: string | null
+        expiry_date: string | null
+        quantity: number
+        free_quantity: number
+        mrp: number
+        purchase_rate: number
+        discount_percentage: number
+        tax_percentage: number | null // null takes the medicine's default GST rate
+        amount: number
+    }[] = []
+    const lineErrors: PurchaseLineError[] = []
+
+    lines.forEach((line, index) => {
+        const medicineName = typeof line.medicine_name === 'string' ? line.medicine_name.trim() : ''
+        const quantity = Number(line.quantity)
+        const rate = Number(line.rate)
+        const mrp = line.mrp === undefined || line.mrp === '' ? 0 : Number(line.mrp)
+        const discountPercentage = line.discount_percentage === undefined || line.discount_percentage === '' ? 0 : Number(line.discount_percentage)
+        const taxPercentage = line.tax_percentage === undefined || line.tax_percentage === '' || line.tax_percentage === null ? null : Number(line.tax_percentage)
+        const addError = (field: string, error: string) => {
+            lineErrors.push({ index, medicine_name: medicineName || undefined, field, error })
         }
 
-        if (inventoryItems && inventoryItems.length > 0) {
-            return true // Still referenced in current_inventory
+        if (!medicineName) {
+            addError('medicine_name', 'Medicine name is required')
         }
-
-        // Check stock_transactions table
-        const { data: transactionItems, error: transactionError } = await supabaseClient
-            .from('stock_transactions')
-            .select('id')
-            .eq('medicine_id', medicine_id)
-            .limit(1)
-
-        if (transactionError) {
-            console.error('Error checking stock_transactions references:', transactionError)
-            return true // Assume referenced if error
+        if (!Number.isInteger(quantity) || quantity <= 0) {
+            addError('quantity', 'Quantity must be a whole number greater than 0')
         }
-
-        if (transactionItems && transactionItems.length > 0) {
-            return true // Still referenced in stock_transactions
+        if (isNaN(rate) || rate < 0) {
+            addError('rate', 'Rate must be a number of 0 or more')
         }
-
-        // expiry_alerts table removed - no longer needed for reference checking
-
-        // No references found - safe to delete
-        return false
-
-    } catch (error) {
-        console.error('Error checking medicine references:', error)
-        return true // Assume referenced if any error occurs
-    }
-}
-
-// Helper function to cascade deletes to related tables
-async function cascadeDeleteFromRelatedTables(
-    supabaseClient: any,
-    itemToDelete: any
-) {
-    const { medicine_id, batch_number, expiry_date } = itemToDelete
-
-    try {
-        // Delete from current_inventory table
-        const { error: inventoryDeleteError } = await supabaseClient
-            .from('current_inventory')
-            .delete()
-            .eq('medicine_id', medicine_id)
-            .eq('batch_number', batch_number)
-            .eq('expiry_date', expiry_date)
-
-        if (inventoryDeleteError) {
-            console.error('Current inventory cascade delete error:', inventoryDeleteError)
+        if (isNaN(mrp) || mrp < 0) {
+            addError('mrp', 'MRP must be a number of 0 or more')
         }
-
-        // Delete from stock_transactions table
-        const { error: transactionDeleteError } = await supabaseClient
-            .from('stock_transactions')
-            .delete()
-            .eq('medicine_id', medicine_id)
-            .eq('batch_number', batch_number)
-            .eq('expiry_date', expiry_date)
-
-        if (transactionDeleteError) {
-            console.error('Stock transactions cascade delete error:', transactionDeleteError)
+        if (isNaN(discountPercentage) || discountPercentage < 0 || discountPercentage > 100) {
+            addError('discount_percentage', 'Discount must be between 0 and 100%')
+        }
+        if (taxPercentage !== null && (isNaN(taxPercentage) || taxPercentage < 0 || taxPercentage > 100)) {
+            addError('tax_percentage', 'GST must be between 0 and 100%')
         }
 
-        // expiry_alerts table removed - cascade delete no longer needed
-
-        // Check if this medicine is still referenced anywhere else
-        const isStillReferenced = await checkMedicineReferences(supabaseClient, medicine_id)
-
-
-        if (!isStillReferenced) {
-            // Safe to delete the medicine record as no other records reference it
-            const { error: medicineDeleteError } = await supabaseClient
-                .from('medicines')
-                .delete()
-                .eq('id', medicine_id)
-
-            if (medicineDeleteError) {
-                console.error('Medicine delete error:', medicineDeleteError)
-            }
+        // Format expiry date - handle both YYYY-MM and YYYY-MM-DD formats
+        let formattedExpiryDate = line.expiry_date || ''
+        if (formattedExpiryDate.match(/^\d{4}-\d{2}$/)) {
+            // If format is YYYY-MM, convert to last day of that month
+            const [year, month] = formattedExpiryDate.split('-')
+            const lastDay = new Date(parseInt(year), parseInt(month), 0).getDate()
+            formattedExpiryDate = `${year}-${month}-${lastDay.toString().padStart(2, '0')}`
+        }
+        const expiryMatch = formattedExpiryDate.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+        if (isDraft && !formattedExpiryDate) {
+            // Filled in on the goods receipt
+        } else if (!expiryMatch || parseInt(expiryMatch[2]) < 1 || parseInt(expiryMatch[2]) > 12 || isNaN(new Date(formattedExpiryDate).getTime())) {
+            addError('expiry_date', 'Expiry must be a valid MM/YY date')
         }
 
-    } catch (error) {
-        console.error('❌ Error during cascade deletion:', error)
-        throw error
-    }
+        items.push({
+            medicine_name: medicineName,
+            batch_number: line.batch_number || (isDraft ? null : 'AUTO-' + Date.now() + '-' + (index + 1)),
+            expiry_date: formattedExpiryDate || null,
+            quantity,
+            free_quantity: convertFreeToInteger(line.Free),
+            mrp,
+            purchase_rate: rate,
+            discount_percentage: discountPercentage,
+            tax_percentage: taxPercentage,
+            amount: parseFloat(String(line.amount)) || Math.round(quantity * rate * 100) / 100
+        })
+    })
+
+    return { items, lineErrors }
 }
 
 // Helper function to cascade updates to related tables
@@ -148,6 +144,8 @@ async function cascadeUpdatesToRelatedTables(
     const { medicine_id, batch_number: oldBatchNumber, expiry_date: oldExpiryDate } = currentItem
     const newBatchNumber = updateFields.batch_number ?? oldBatchNumber
     const newExpiryDate = updateFields.expiry_date ?? oldExpiryDate
+    // Stock only exists for a line once goods have been received against it
+    const hasStock = (currentItem.received_quantity || 0) > 0
 
     try {
         // 1. Update current_inventory table (all fields)
@@ -175,7 +173,7 @@ async function cascadeUpdatesToRelatedTables(
             shouldUpdateInventory = true
         }
 
-        if (shouldUpdateInventory) {
+        if (shouldUpdateInventory && hasStock) {
             const { error: inventoryError } = await supabaseClient
                 .from('current_inventory')
                 .update(inventoryUpdateFields)
@@ -215,7 +213,7 @@ async function cascadeUpdatesToRelatedTables(
             shouldUpdateTransactions = true
         }
 
-        if (shouldUpdateTransactions) {
+        if (shouldUpdateTransactions && hasStock) {
             const { error: transactionError } = await supabaseClient
                 .from('stock_transactions')
                 .update(transactionUpdateFields)
@@ -230,32 +228,15 @@ async function cascadeUpdatesToRelatedTables(
 
         // 3. expiry_alerts table removed - updates no longer needed
 
-        // 4. Recalculate and update parent purchase total_amount if financial fields changed
-        if (updateFields.quantity || updateFields.purchase_rate || updateFields.mrp) {
-            const purchaseId = updatedPurchaseItem.purchase_id
+        // 4. Recalculate the parent purchase totals if financial fields changed
+        if (updateFields.quantity || updateFields.purchase_rate || updateFields.mrp ||
+            updateFields.discount_percentage !== undefined || updateFields.tax_percentage !== undefined) {
+            const { error: updateTotalError } = await supabaseClient.rpc('refresh_purchase_totals', {
+                p_purchase_id: updatedPurchaseItem.purchase_id
+            })
 
-            // Get all purchase items for this purchase to recalculate total
-            const { data: allItems, error: itemsError } = await supabaseClient
-                .from('purchase_items')
-                .select('quantity, purchase_rate, gross_amount, net_amount')
-                .eq('purchase_id', purchaseId)
-
-            if (!itemsError && allItems) {
-                // Recalculate total amount
-                const newTotalAmount = allItems.reduce((total: number, item: any) => {
-                    const itemAmount = item.net_amount || (item.quantity * item.purchase_rate)
-                    return total + itemAmount
-                }, 0)
-
-                // Update the parent purchase total_amount
-                const { error: updateTotalError } = await supabaseClient
-                    .from('purchases')
-                    .update({ total_amount: newTotalAmount })
-                    .eq('id', purchaseId)
-
-                if (updateTotalError) {
-                    console.error('Purchase total update error:', updateTotalError)
-                }
+            if (updateTotalError) {
+                console.error('Purchase total update error:', updateTotalError)
             }
         }
 
@@ -265,76 +246,142 @@ async function cascadeUpdatesToRelatedTables(
     }
 }
 
+// Columns the purchase search can be sorted by
+const SEARCH_SORT_COLUMNS = ['created_at', 'purchase_date', 'expiry_date', 'medicine_name', 'supplier_name', 'batch_number', 'total_amount', 'net_amount'] as const
+
+type SearchSortColumn = typeof SEARCH_SORT_COLUMNS[number]
+
+// Helper function to turn free text into an ILIKE pattern; characters that would break the filter are dropped
+function toSearchPattern(value: string) {
+    return `%${value.trim().replace(/[%_,()\\]/g, '')}%`
+}
+
+// Helper function to read an optional YYYY-MM-DD query parameter; false when it is present but not a date
+function readDateParam(searchParams: URLSearchParams, name: string): string | null | false {
+    const value = searchParams.get(name)
+    if (!value) return null
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime()) ? value : false
+}
+
+// Helper function to read an optional non-negative number query parameter; false when it is not one
+function readAmountParam(searchParams: URLSearchParams, name: string): number | null | false {
+    const value = searchParams.get(name)
+    if (value === null || value === '') return null
+    const amount = Number(value)
+    return isNaN(amount) || amount < 0 ? false : amount
+}
+
+// Purchase line search, filtered, sorted and paged in the database
 export async function GET(request: NextRequest) {
     try {
         // Get authenticated user and supabase client
         const { user, supabase } = await getAuthenticatedUser(request)
         
         const { searchParams } = new URL(request.url)
-        const page = parseInt(searchParams.get('page') || '1')
-        const limit = parseInt(searchParams.get('limit') || '10')
+        const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), 200)
         const offset = (page - 1) * limit
 
         // Get filter parameters
-        const medicineName = searchParams.get('medicine_name')
-        const supplierName = searchParams.get('supplier_name')
-        const batchNumber = searchParams.get('batch_number')
-        const purchaseDate = searchParams.get('date')
+        const medicineName = searchParams.get('medicine_name')?.trim()
+        const supplierName = searchParams.get('supplier_name')?.trim()
+        const batchNumber = searchParams.get('batch_number')?.trim()
         const purchaseId = searchParams.get('purchase_id')
+        const status = searchParams.get('status')
+
+        // A single date is kept for existing callers and means a one-day range
+        const purchaseDate = readDateParam(searchParams, 'date')
+        const dateFrom = readDateParam(searchParams, 'date_from')
+        const dateTo = readDateParam(searchParams, 'date_to')
+        const expiryFrom = readDateParam(searchParams, 'expiry_from')
+        const expiryTo = readDateParam(searchParams, 'expiry_to')
+        const minAmount = readAmountParam(searchParams, 'min_amount')
+        const maxAmount = readAmountParam(searchParams, 'max_amount')
+
+        if ([purchaseDate, dateFrom, dateTo, expiryFrom, expiryTo].includes(false)) {
+            return NextResponse.json(
+                { error: 'date, date_from, date_to, expiry_from and expiry_to must be dates (YYYY-MM-DD)' },
+                { status: 400 }
+            )
+        }
 
-        // Build the base query - RLS will automatically filter to user's pharmacy
+        if (minAmount === false || maxAmount === false) {
+            return NextResponse.json(
+                { error: 'min_amount and max_amount must be numbers of 0 or more' },
+                { status: 400 }
+            )
+        }
+
+        const sortBy = (searchParams.get('sort_by') || 'created_at') as SearchSortColumn
+        const sortOrder = searchParams.get('sort_order') || 'desc'
+
+        if (!SEARCH_SORT_COLUMNS.includes(sortBy) || (sortOrder !== 'asc' && sortOrder !== 'desc')) {
+            return NextResponse.json(
+                { error: `sort_by must be one of ${SEARCH_SORT_COLUMNS.join(', ')} and sort_order asc or desc` },
+                { status: 400 }
+            )
+        }
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Build the search over purchase lines (see database/purchase_search.sql)
         let query = supabase
-            .from('purchases')
-            .select(`
-        *,
-        suppliers(
-          id,
-          name,
-          contact_person,
-          phone,
-          email
-        ),
-        users(
-          id,
-          email,
-          full_name
-        ),
-        purchase_items(
-          id,
-          medicine_id,
-          batch_number,
-          expiry_date,
-          quantity,
-          free_quantity,
-          total_quantity,
-          mrp,
-          purchase_rate,
-          gross_amount,
-          discount_amount,
-          tax_amount,
-          net_amount,
-          medicines(
-            id,
-            name,
-            generic_name,
-            manufacturer,
-            strength,
-            unit_type
-          )
-        )
-      `)
+            .from('view_purchase_item_search')
+            .select('*', { count: 'exact' })
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
 
-        // Apply filters
         if (purchaseId) {
-            query = query.eq('id', purchaseId)
+            query = query.eq('purchase_id', purchaseId)
+        }
+        if (status) {
+            query = query.eq('status', status)
+        }
+        if (medicineName) {
+            const pattern = toSearchPattern(medicineName)
+            query = query.or(`medicine_name.ilike.${pattern},generic_name.ilike.${pattern}`)
+        }
+        if (supplierName) {
+            query = query.ilike('supplier_name', toSearchPattern(supplierName))
+        }
+        if (batchNumber) {
+            query = query.ilike('batch_number', toSearchPattern(batchNumber))
         }
         if (purchaseDate) {
             query = query.eq('purchase_date', purchaseDate)
         }
+        if (dateFrom) {
+            query = query.gte('purchase_date', dateFrom)
+        }
+        if (dateTo) {
+            query = query.lte('purchase_date', dateTo)
+        }
+        if (expiryFrom) {
+            query = query.gte('expiry_date', expiryFrom)
+        }
+        if (expiryTo) {
+            query = query.lte('expiry_date', expiryTo)
+        }
+        // Amount ranges are on the invoice total
+        if (minAmount !== null) {
+            query = query.gte('total_amount', minAmount)
+        }
+        if (maxAmount !== null) {
+            query = query.lte('total_amount', maxAmount)
+        }
 
-        // Fetch purchases with filters
-        const { data: purchases, error } = await query
-            .order('created_at', { ascending: false })
+        // STEP 2: Sort (lines of one invoice stay together on ties) and fetch one page
+        const { data: rows, error, count } = await query
+            .order(sortBy, { ascending: sortOrder === 'asc', nullsFirst: false })
+            .order('purchase_id', { ascending: false })
+            .order('purchase_item_id', { ascending: true })
             .range(offset, offset + limit - 1)
 
         if (error) {
@@ -345,65 +392,41 @@ export async function GET(request: NextRequest) {
             )
         }
 
-        // If we have medicine name, batch number, or supplier name filters, we need to filter the results
-        // since these are in the related tables
-        let filteredPurchases = purchases || []
-
-        if (medicineName || batchNumber || supplierName) {
-            filteredPurchases = filteredPurchases.filter(purchase => {
-                const medicineMatch = !medicineName ||
-                    purchase.purchase_items?.some((item: any) =>
-                        item.medicines?.name?.toLowerCase().includes(medicineName.toLowerCase()) ||
-                        item.medicines?.generic_name?.toLowerCase().includes(medicineName.toLowerCase())
-                    )
-
-                const batchMatch = !batchNumber ||
-                    purchase.purchase_items?.some((item: any) =>
-                        item.batch_number?.toLowerCase().includes(batchNumber.toLowerCase())
-                    )
-
-                const supplierMatch = !supplierName ||
-                    purchase.suppliers?.name?.toLowerCase().includes(supplierName.toLowerCase())
-
-                return medicineMatch && batchMatch && supplierMatch
-            })
-        }
-
-        // Transform the data to flatten purchase items for easier display
-        const transformedPurchases = filteredPurchases.flatMap(purchase => {
-            // Skip purchases that have no items - don't show empty rows
-            if (!purchase.purchase_items || purchase.purchase_items.length === 0) {
-                return []
-            }
-
-            return purchase.purchase_items.map((item: any) => ({
-                id: `${purchase.id}-${item.id}`,
-                purchase_id: purchase.id,
-                purchase_item_id: item.id,
-                medicine_name: item.medicines?.name || 'Unknown Medicine',
-                generic_name: item.medicines?.generic_name || '',
-                supplier_name: purchase.suppliers?.name || 'Unknown',
-                batch_number: item.batch_number || '',
-                quantity: item.quantity || 0,
-                Free: item.free_quantity || 0,
-                purchase_rate: item.purchase_rate || 0,
-                mrp: item.mrp || 0,
-                expiry_date: item.expiry_date,
-                purchase_date: purchase.purchase_date,
-                invoice_number: purchase.invoice_number,
-                total_amount: purchase.total_amount,
-                manufacturer: item.medicines?.manufacturer || '',
-                strength: item.medicines?.strength || '',
-                unit_type: item.medicines?.unit_type || ''
-            }))
-        })
+        // Shape each line for display
+        const data = (rows || []).map(row => ({
+            id: `${row.purchase_id}-${row.purchase_item_id}`,
+            purchase_id: row.purchase_id,
+            purchase_item_id: row.purchase_item_id,
+            medicine_name: row.medicine_name || 'Unknown Medicine',
+            generic_name: row.generic_name || '',
+            supplier_name: row.supplier_name || 'Unknown',
+            batch_number: row.batch_number || '',
+            quantity: row.quantity || 0,
+            Free: row.free_quantity || 0,
+            purchase_rate: row.purchase_rate || 0,
+            mrp: row.mrp || 0,
+            expiry_date: row.expiry_date,
+            purchase_date: row.purchase_date,
+            invoice_number: row.invoice_number,
+            status: row.status,
+            total_amount: row.total_amount,
+            manufacturer: row.manufacturer || '',
+            strength: row.strength || '',
+            unit_type: row.unit_type || ''
+        }))
 
         console.log('🔍 Purchase search results:', {
-            filters: { medicineName, supplierName, batchNumber, purchaseDate },
-            resultCount: transformedPurchases.length
+            filters: { medicineName, supplierName, batchNumber, purchaseDate, dateFrom, dateTo, expiryFrom, expiryTo, minAmount, maxAmount },
+            total: count
         })
 
-        return NextResponse.json(transformedPurchases)
+        return NextResponse.json({
+            data,
+            total: count || 0,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil((count || 0) / limit))
+        })
     } catch (error) {
         console.error('API error:', error)
         
@@ -437,13 +460,17 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        // A draft is an order whose goods have not arrived yet; it adds no stock until received
+        const status = body.status || 'received'
+        if (status !== 'draft' && status !== 'received') {
+            return NextResponse.json(
+                { error: 'status must be draft or received' },
+                { status: 400 }
+            )
+        }
+
         // Get user's pharmacy ID
-        const { data: userPharmacy } = await supabase
-            .from('user_pharmacies')
-            .select('pharmacy_id')
-            .eq('user_id', user.id)
-            .eq('is_active', true)
-            .single()
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
 
         if (!userPharmacy) {
             return NextResponse.json(
@@ -452,199 +479,209 @@ export async function POST(request: NextRequest) {
             )
         }
 
-        // Find or create supplier
-        let supplierId;
-        const { data: existingSupplier } = await supabase
-            .from('suppliers')
-            .select('id')
-            .eq('name', body.supplier_name)
-            .eq('pharmacy_id', userPharmacy.pharmacy_id)
-            .single()
+        // Raising a draft order is part of managing purchase orders
+        if (status === 'draft' && !hasPermission(userPharmacy.role, 'purchase_orders.manage')) {
+            return NextResponse.json(
+                { error: describeMissingPermission(userPharmacy.role, 'purchase_orders.manage') },
+                { status: 403 }
+            )
+        }
 
-        if (existingSupplier) {
-            supplierId = existingSupplier.id
-        } else {
-            // Create new supplier
-            const { data: newSupplier, error: supplierError } = await supabase
-                .from('suppliers')
-                .insert({
-                    pharmacy_id: userPharmacy.pharmacy_id,
-                    name: body.supplier_name,
-                    contact_person: 'Auto-created',
-                    is_active: true
-                })
-                .select('id')
+        // A purchase received against a purchase order closes that order
+        let purchaseOrder: { id: string; po_number: string } | null = null
+
+        if (body.purchase_order_id) {
+            if (status === 'draft') {
+                return NextResponse.json(
+                    { error: 'A purchase order can only be received as a received purchase' },
+                    { status: 400 }
+                )
+            }
+
+            const { data: order } = await supabase
+                .from('purchase_orders')
+                .select('id, po_number, status')
+                .eq('id', body.purchase_order_id)
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
                 .single()
 
-            if (supplierError) {
-                console.error('Supplier creation error:', supplierError)
+            if (!order) {
                 return NextResponse.json(
-                    { error: 'Failed to create supplier' },
-                    { status: 500 }
+                    { error: 'Purchase order not found' },
+                    { status: 404 }
+                )
+            }
+
+            if (order.status !== 'draft' && order.status !== 'sent') {
+                return NextResponse.json(
+                    { error: `Order ${order.po_number} is already ${order.status}` },
+                    { status: 409 }
                 )
             }
-            supplierId = newSupplier.id
+
+            purchaseOrder = order
         }
 
-        // Calculate total amount
-        const totalAmount = body.items.reduce((sum: number, item: any) => {
-            return sum + (parseFloat(item.amount) || 0)
-        }, 0)
+        // STEP 1: Validate and normalise every line before writing anything
+        const { items, lineErrors } = normalizePurchaseLines(body.items, status === 'draft')
+
+        if (lineErrors.length > 0) {
+            console.log('❌ Purchase validation failed:', lineErrors)
+            return NextResponse.json(
+                { error: 'Some items are invalid', details: lineErrors },
+                { status: 400 }
+            )
+        }
+
+        const transportCharges = Number(body.transport_charges || 0)
+        const otherCharges = Number(body.other_charges || 0)
+
+        if (isNaN(transportCharges) || transportCharges < 0 || isNaN(otherCharges) || otherCharges < 0) {
+            return NextResponse.json(
+                { error: 'Transport and other charges must be numbers of 0 or more' },
+                { status: 400 }
+            )
+        }
 
         // Ensure date is properly formatted
         const purchaseDate = body.date || new Date().toISOString().split('T')[0]
 
-        console.log('Purchase data being inserted:', {
-            pharmacy_id: userPharmacy.pharmacy_id,
-            supplier_id: supplierId,
-            user_id: user.id,
-            invoice_number: body.invoice_number,
-            invoice_date: purchaseDate,
-            purchase_date: purchaseDate,
-            total_amount: totalAmount,
-            status: 'received'
+        // STEP 2: Work out GST - IGST for an out-of-state supplier, CGST + SGST otherwise,
+        // and the default rate for any line entered without one
+        const taxContext = await loadPurchaseTaxContext(supabase, userPharmacy.pharmacy_id, body.supplier_name)
+        const untaxedNames = items.filter(item => item.tax_percentage === null).map(item => item.medicine_name)
+        const taxDefaults = await loadMedicineTaxDefaults(supabase, userPharmacy.pharmacy_id, [...new Set(untaxedNames)])
+
+        const lineAmounts = items.map(item => {
+            const taxPercentage = item.tax_percentage
+                ?? taxDefaults.get(item.medicine_name)?.tax_percentage
+                ?? taxContext.default_tax_percentage
+            return {
+                tax_percentage: taxPercentage,
+                amounts: calculateLineAmounts(
+                    { quantity: item.quantity, rate: item.purchase_rate, discount_percentage: item.discount_percentage, tax_percentage: taxPercentage },
+                    taxContext.interstate
+                )
+            }
         })
+        const taxedItems = items.map((item, index) => ({
+            ...item,
+            tax_percentage: lineAmounts[index].tax_percentage,
+            amount: lineAmounts[index].amounts.net_amount
+        }))
 
-        // Generate unique invoice number if needed
-        let invoiceNumber = body.invoice_number || `INV-${Date.now()}`
-        
-        // Check if invoice number already exists for this pharmacy and supplier
-        const { data: existingPurchase } = await supabase
-            .from('purchases')
+        // STEP 3: Refuse an invoice that is already entered, and ask before saving a likely duplicate
+        const { data: existingSupplier } = await supabase
+            .from('suppliers')
             .select('id')
             .eq('pharmacy_id', userPharmacy.pharmacy_id)
-            .eq('supplier_id', supplierId)
-            .eq('invoice_number', invoiceNumber)
-            .single()
-        
-        // If invoice number exists, generate a unique one
-        if (existingPurchase) {
-            const timestamp = Date.now()
-            const randomSuffix = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
-            invoiceNumber = body.invoice_number ? 
-                `${body.invoice_number}-${timestamp}` : 
-                `INV-${timestamp}-${randomSuffix}`
-        }
+            .eq('name', body.supplier_name)
+            .limit(1)
+            .maybeSingle()
 
-        // Create purchase record
-        const { data: purchase, error: purchaseError } = await supabase
-            .from('purchases')
-            .insert({
-                pharmacy_id: userPharmacy.pharmacy_id,
-                supplier_id: supplierId,
-                user_id: user.id,
-                invoice_number: invoiceNumber,
-                invoice_date: purchaseDate,
+        if (existingSupplier) {
+            const totals = calculatePurchaseTotals(lineAmounts.map(line => line.amounts), {
+                transport_charges: transportCharges,
+                other_charges: otherCharges
+            })
+            const duplicates = await loadDuplicateMatches(supabase, userPharmacy.pharmacy_id, existingSupplier.id, {
+                invoice_number: body.invoice_number || null,
                 purchase_date: purchaseDate,
-                total_amount: totalAmount,
-                status: 'received'
+                total_amount: totals.total_amount
             })
-            .select()
-            .single()
 
-        if (purchaseError) {
-            console.error('Purchase creation error:', purchaseError)
+            if (duplicates.some(match => match.exact)) {
+                console.log('❌ Duplicate invoice refused:', body.invoice_number, duplicates)
+                return NextResponse.json(
+                    { error: duplicates[0].reason, duplicates },
+                    { status: 409 }
+                )
+            }
+
+            if (duplicates.length > 0 && !body.allow_likely_duplicate) {
+                return NextResponse.json(
+                    {
+                        error: 'This may be an invoice that is already entered',
+                        duplicates,
+                        requires_confirmation: true
+                    },
+                    { status: 409 }
+                )
+            }
+        }
+
+        // STEP 4: Create the purchase and all items in one transaction
+        const { data: result, error: rpcError } = await supabase.rpc('create_purchase_with_items', {
+            p_pharmacy_id: userPharmacy.pharmacy_id,
+            p_user_id: user.id,
+            p_supplier_name: body.supplier_name,
+            p_invoice_number: body.invoice_number || null,
+            p_purchase_date: purchaseDate,
+            p_items: taxedItems,
+            p_is_interstate: taxContext.interstate,
+            p_transport_charges: transportCharges,
+            p_other_charges: otherCharges,
+            p_status: status,
+            p_purchase_order_id: purchaseOrder?.id || null
+        })
+
+        if (rpcError || !result) {
+            console.error('Purchase creation error:', rpcError)
             return NextResponse.json(
                 { error: 'Failed to create purchase' },
                 { status: 500 }
             )
         }
 
-        // Create purchase items
-        const purchaseItems: object[] = []
-        console.log('🔄 Processing', body.items.length, 'items...')
-
-        for (let i = 0; i < body.items.length; i++) {
-            const item = body.items[i]
-            console.log(`\n📦 Processing item ${i + 1}:`, item)
-
-            // Find or create medicine
-            let medicineId;
-            console.log('🔍 Looking for medicine:', item.medicine_name)
-
-            const { data: existingMedicine, error: medicineSearchError } = await supabase
-                .from('medicines')
-                .select('id')
-                .eq('name', item.medicine_name)
-                .single()
-
-            if (medicineSearchError) {
-                console.log('⚠️ Medicine search error:', medicineSearchError.message)
-            }
-
-            if (existingMedicine) {
-                console.log('✅ Found existing medicine:', existingMedicine.id)
-                medicineId = existingMedicine.id
-            } else {
-                console.log('🆕 Creating new medicine:', item.medicine_name)
+        const rpcResult = result as PurchaseRpcResult
 
-                // Create new medicine
-                const { data: newMedicine, error: medicineError } = await supabase
-                    .from('medicines')
-                    .insert({
-                        name: item.medicine_name,
-                        generic_name: item.medicine_name,
-                        manufacturer: 'Unknown',
-                        unit_type: 'strips',
-                        is_active: true
-                    })
-                    .select('id')
-                    .single()
+        if (!rpcResult.success) {
+            console.error('❌ Purchase rolled back:', rpcResult)
 
-                if (medicineError) {
-                    console.error('❌ Medicine creation error:', medicineError)
-                    console.log('⏭️ Skipping item due to medicine creation failure')
-                    continue // Skip this item if medicine creation fails
-                } else {
-                    console.log('✅ Created new medicine:', newMedicine.id)
-                    medicineId = newMedicine.id
-                }
+            // The same invoice was saved by someone else since the check above
+            if (rpcResult.duplicate_of) {
+                return NextResponse.json(
+                    { error: rpcResult.error, duplicates: [{ purchase_id: rpcResult.duplicate_of, exact: true, reason: rpcResult.error }] },
+                    { status: 409 }
+                )
             }
 
-            // Format expiry date - handle both YYYY-MM and YYYY-MM-DD formats
-            let formattedExpiryDate = item.expiry_date
-            if (item.expiry_date && item.expiry_date.match(/^\d{4}-\d{2}$/)) {
-                // If format is YYYY-MM, convert to last day of that month
-                const [year, month] = item.expiry_date.split('-')
-                const lastDay = new Date(parseInt(year), parseInt(month), 0).getDate()
-                formattedExpiryDate = `${year}-${month}-${lastDay.toString().padStart(2, '0')}`
-                console.log(`📅 Converted expiry date from ${item.expiry_date} to ${formattedExpiryDate}`)
+            // The order was received or cancelled by someone else since the check above
+            if (rpcResult.order_status) {
+                return NextResponse.json(
+                    { error: rpcResult.error },
+                    { status: 409 }
+                )
             }
 
-            // Prepare purchase item data
-            const purchaseItemData = {
-                purchase_id: purchase.id,
-                medicine_id: medicineId,
-                batch_number: item.batch_number || 'AUTO-' + Date.now(),
-                expiry_date: formattedExpiryDate,
-                quantity: parseInt(item.quantity) || 0,
-                free_quantity: convertFreeToInteger(item.Free),
-                mrp: parseFloat(item.mrp) || 0,
-                purchase_rate: parseFloat(item.rate) || 0,
-                discount_percentage: 0,
-                tax_percentage: 0
+            // A failed line is reported against its row, anything else failed on the header
+            if (rpcResult.failed_index !== null && rpcResult.failed_index !== undefined) {
+                return NextResponse.json(
+                    {
+                        error: 'Purchase was not saved',
+                        details: [{
+                            index: rpcResult.failed_index,
+                            medicine_name: items[rpcResult.failed_index]?.medicine_name,
+                            field: null,
+                            error: rpcResult.error
+                        }]
+                    },
+                    { status: 400 }
+                )
             }
 
-            console.log('💾 Inserting purchase item:', purchaseItemData)
+            return NextResponse.json(
+                { error: 'Failed to create purchase', details: rpcResult.error },
+                { status: 500 }
+            )
+        }
 
-            // Create purchase item
-            const { data: purchaseItem, error: itemError } = await supabase
-                .from('purchase_items')
-                .insert(purchaseItemData)
-                .select()
-                .single()
+        console.log('✅ Purchase created:', rpcResult.invoice_number, 'with', items.length, 'items')
 
-            if (itemError) {
-                console.error('❌ Purchase item creation error:', itemError)
-                console.log('📋 Failed item data:', purchaseItemData)
-            } else {
-                console.log('✅ Purchase item created successfully:', purchaseItem.id)
-                purchaseItems.push(purchaseItem)
-            }
+        if (purchaseOrder) {
+            console.log('✅ Purchase order received:', purchaseOrder.po_number)
         }
 
-        console.log('📊 Summary: Created', purchaseItems.length, 'out of', body.items.length, 'items')
-
         // Fetch the complete purchase with all relations
         const { data: completePurchase } = await supabase
             .from('purchases')
@@ -656,7 +693,7 @@ export async function POST(request: NextRequest) {
           medicines(name, generic_name, manufacturer)
         )
       `)
-            .eq('id', purchase.id)
+            .eq('id', rpcResult.purchase_id)
             .single()
 
         return NextResponse.json(completePurchase, { status: 201 })
@@ -690,8 +727,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
     try {
-        // Get authenticated user and supabase client
-        const { user, supabase } = await getAuthenticatedUser(request)
+        // Get authenticated user and check their pharmacy role
+        const { supabase } = await requirePermission(request, 'purchases.edit')
         
         const body = await request.json()
         const { purchase_item_id, ...updateData } = body
@@ -713,7 +750,8 @@ export async function PUT(request: NextRequest) {
                 quantity,
                 total_quantity,
                 purchase_rate,
-                mrp
+                mrp,
+                received_quantity
             `)
             .eq('id', purchase_item_id)
             .single()
@@ -725,14 +763,14 @@ export async function PUT(request: NextRequest) {
             )
         }
 
-
-
         // STEP 2: Prepare purchase_items update fields with financial calculations
         const updateFields: any = {}
         if (updateData.quantity) updateFields.quantity = parseInt(updateData.quantity)
         if (updateData.Free !== undefined) updateFields.free_quantity = convertFreeToInteger(updateData.Free)
         if (updateData.purchase_rate) updateFields.purchase_rate = parseFloat(updateData.purchase_rate)
         if (updateData.mrp) updateFields.mrp = parseFloat(updateData.mrp)
+        if (updateData.discount_percentage !== undefined) updateFields.discount_percentage = parseFloat(updateData.discount_percentage) || 0
+        if (updateData.tax_percentage !== undefined) updateFields.tax_percentage = parseFloat(updateData.tax_percentage) || 0
         if (updateData.batch_number !== undefined) updateFields.batch_number = updateData.batch_number
         if (updateData.expiry_date) updateFields.expiry_date = updateData.expiry_date
 
@@ -885,38 +923,15 @@ export async function PUT(request: NextRequest) {
         const purchaseId = (updatedItem.purchases as any)?.id
 
         if (purchaseId) {
-            // Get all purchase items for this purchase to recalculate total
-            const { data: allItems, error: itemsError } = await supabase
-                .from('purchase_items')
-                .select(`
-                    quantity,
-                    purchase_rate,
-                    gross_amount,
-                    net_amount
-                `)
-                .eq('purchase_id', purchaseId)
+            // Recalculate subtotal, GST and total (including charges) from all items
+            const { error: updateTotalError } = await supabase.rpc('refresh_purchase_totals', {
+                p_purchase_id: purchaseId
+            })
 
-            if (itemsError) {
-                console.error('Error fetching items for total calculation:', itemsError)
+            if (updateTotalError) {
+                console.error('Error updating purchase total:', updateTotalError)
             } else {
-                // Recalculate total amount
-                const newTotalAmount = allItems?.reduce((total, item) => {
-                    // Use net_amount if available, otherwise calculate from quantity * rate
-                    const itemAmount = item.net_amount || (item.quantity * item.purchase_rate)
-                    return total + itemAmount
-                }, 0) || 0
-
-                // Update the purchase total_amount
-                const { error: updateTotalError } = await supabase
-                    .from('purchases')
-                    .update({ total_amount: newTotalAmount })
-                    .eq('id', purchaseId)
-
-                if (updateTotalError) {
-                    console.error('Error updating purchase total:', updateTotalError)
-                } else {
-                    console.log('✅ Purchase item updated and total recalculated:', purchase_item_id, 'New total:', newTotalAmount)
-                }
+                console.log('✅ Purchase item updated and total recalculated:', purchase_item_id)
             }
         }
 
@@ -932,6 +947,14 @@ export async function PUT(request: NextRequest) {
                 { status: 401 }
             )
         }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
         
         return NextResponse.json(
             { error: 'Failed to update purchase item' },
@@ -942,8 +965,8 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
     try {
-        // Get authenticated user and supabase client
-        const { user, supabase } = await getAuthenticatedUser(request)
+        // Get authenticated user and check their pharmacy role
+        const { supabase } = await requirePermission(request, 'purchases.delete')
         
         const { searchParams } = new URL(request.url)
         const purchase_item_id = searchParams.get('purchase_item_id')
@@ -976,7 +999,8 @@ export async function DELETE(request: NextRequest) {
                             batch_number,
                             expiry_date,
                             quantity,
-                            purchase_rate
+                            purchase_rate,
+                            received_quantity
                         `)
                         .eq('id', itemId.trim())
                         .single()
@@ -988,6 +1012,11 @@ export async function DELETE(request: NextRequest) {
 
                     const purchaseId = itemToDelete.purchase_id
 
+                    if (await isLastItemOfPaidPurchase(supabase, purchaseId, itemToDelete.id)) {
+                        failedItems.push({ id: itemId, error: 'Last item of a purchase with supplier payments recorded against it' })
+                        continue
+                    }
+
                     // STEP 2: Delete from purchase_items table
                     const { error: deleteError } = await supabase
                         .from('purchase_items')
@@ -1012,12 +1041,8 @@ export async function DELETE(request: NextRequest) {
                         // No items left, delete the entire purchase
                         await supabase.from('purchases').delete().eq('id', purchaseId)
                     } else {
-                        // Update purchase total
-                        const newTotal = remainingItems.reduce((sum, item) => sum + (item.net_amount || item.gross_amount || 0), 0)
-                        await supabase
-                            .from('purchases')
-                            .update({ total_amount: newTotal })
-                            .eq('id', purchaseId)
+                        // Update purchase totals
+                        await supabase.rpc('refresh_purchase_totals', { p_purchase_id: purchaseId })
                     }
 
                     deletedItems.push(itemId)
@@ -1057,7 +1082,8 @@ export async function DELETE(request: NextRequest) {
                 batch_number,
                 expiry_date,
                 quantity,
-                purchase_rate
+                purchase_rate,
+                received_quantity
             `)
             .eq('id', purchase_item_id)
             .single()
@@ -1072,6 +1098,14 @@ export async function DELETE(request: NextRequest) {
 
         const purchaseId = itemToDelete.purchase_id
 
+        // The last item takes the purchase with it, and payments made against it stay in the supplier ledger
+        if (await isLastItemOfPaidPurchase(supabase, purchaseId, itemToDelete.id)) {
+            return NextResponse.json(
+                { error: 'This is the last item of a purchase with supplier payments recorded against it. Delete the payments first.' },
+                { status: 409 }
+            )
+        }
+
         // STEP 2: Delete from purchase_items table FIRST
         const { error: deleteError } = await supabase
             .from('purchase_items')
@@ -1125,18 +1159,10 @@ export async function DELETE(request: NextRequest) {
 
             console.log('Purchase item deleted and empty purchase removed:', purchase_item_id)
         } else {
-            // Recalculate total amount from remaining items
-            const newTotalAmount = remainingItems.reduce((total, item) => {
-                // Use net_amount if available, otherwise calculate from quantity * rate
-                const itemAmount = item.net_amount || (item.quantity * item.purchase_rate)
-                return total + itemAmount
-            }, 0)
-
-            // Update the purchase total_amount
-            const { error: updateError } = await supabase
-                .from('purchases')
-                .update({ total_amount: newTotalAmount })
-                .eq('id', purchaseId)
+            // Recalculate subtotal, GST and total (including charges) from the remaining items
+            const { error: updateError } = await supabase.rpc('refresh_purchase_totals', {
+                p_purchase_id: purchaseId
+            })
 
             if (updateError) {
                 console.error('Error updating purchase total:', updateError)
@@ -1146,7 +1172,7 @@ export async function DELETE(request: NextRequest) {
                 )
             }
 
-            console.log('Purchase item deleted and total updated:', purchase_item_id, 'New total:', newTotalAmount)
+            console.log('Purchase item deleted and total updated:', purchase_item_id)
         }
 
         return NextResponse.json({ success: true })
@@ -1161,6 +1187,14 @@ export async function DELETE(request: NextRequest) {
                 { status: 401 }
             )
         }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
         
         return NextResponse.json(
             { error: 'Failed to delete purchase item' },
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAuthenticatedUser } from '@/lib/auth/supabase-server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
 
 export async function GET(request: NextRequest) {
     try {
@@ -7,12 +7,7 @@ export async function GET(request: NextRequest) {
         const { user, supabase } = await getAuthenticatedUser(request)
         
         // Get user's pharmacy ID
-        const { data: userPharmacy } = await supabase
-            .from('user_pharmacies')
-            .select('pharmacy_id')
-            .eq('user_id', user.id)
-            .eq('is_active', true)
-            .single()
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
 
         if (!userPharmacy) {
             return NextResponse.json({
@@ -43,7 +38,7 @@ export async function GET(request: NextRequest) {
             })
         }
 
-        // Get today's purchases total - only include purchases with items
+        // Get today's purchases total - only include verified purchases with items
         const today = new Date().toISOString().split('T')[0]
         const { data: todaysPurchases } = await supabase
             .from('purchases')
@@ -53,13 +48,14 @@ export async function GET(request: NextRequest) {
             `)
             .eq('pharmacy_id', pharmacyId)
             .eq('purchase_date', today)
+            .eq('status', 'verified')
 
         // Only count purchases that have items
         const todaysPurchasesTotal = todaysPurchases
             ?.filter(p => p.purchase_items && p.purchase_items.length > 0)
             ?.reduce((sum, p) => sum + (p.total_amount || 0), 0) || 0
 
-        // Get this month's purchases total - only include purchases with items
+        // Get this month's purchases total - only include verified purchases with items
         const startOfMonth = new Date()
         startOfMonth.setDate(1)
         const startOfMonthString = startOfMonth.toISOString().split('T')[0]
@@ -72,13 +68,14 @@ export async function GET(request: NextRequest) {
             `)
             .eq('pharmacy_id', pharmacyId)
             .gte('purchase_date', startOfMonthString)
+            .eq('status', 'verified')
 
         // Only count purchases that have items
         const thisMonthTotal = thisMonthPurchases
             ?.filter(p => p.purchase_items && p.purchase_items.length > 0)
             ?.reduce((sum, p) => sum + (p.total_amount || 0), 0) || 0
 
-        // Get total purchase entries count - only count purchases with items
+        // Get total purchase entries count - only count verified purchases with items
         const { data: allPurchases } = await supabase
             .from('purchases')
             .select(`
@@ -86,12 +83,13 @@ export async function GET(request: NextRequest) {
                 purchase_items(id)
             `)
             .eq('pharmacy_id', pharmacyId)
+            .eq('status', 'verified')
 
         const totalEntries = allPurchases
             ?.filter(p => p.purchase_items && p.purchase_items.length > 0)
             ?.length || 0
 
-        // Get unique suppliers count - only count suppliers from purchases with items
+        // Get unique suppliers count - only count suppliers from verified purchases with items
         const { data: suppliersData } = await supabase
             .from('purchases')
             .select(`
@@ -99,6 +97,7 @@ export async function GET(request: NextRequest) {
                 purchase_items(id)
             `)
             .eq('pharmacy_id', pharmacyId)
+            .eq('status', 'verified')
 
         const uniqueSuppliers = new Set(
             suppliersData
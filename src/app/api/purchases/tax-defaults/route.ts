@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { loadMedicineTaxDefaults, loadPurchaseTaxContext } from '@/lib/purchases/tax-defaults'
+
+// GST treatment for a supplier and default GST rates for the medicines on a purchase
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const supplierName = searchParams.get('supplier_name')?.trim() || null
+        const medicineNames = [...new Set(
+            searchParams.getAll('medicine_name').map(name => name.trim()).filter(Boolean)
+        )].slice(0, 200)
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const [context, defaults] = await Promise.all([
+            loadPurchaseTaxContext(supabase, userPharmacy.pharmacy_id, supplierName),
+            loadMedicineTaxDefaults(supabase, userPharmacy.pharmacy_id, medicineNames)
+        ])
+
+        return NextResponse.json({
+            ...context,
+            rates: [...defaults.values()]
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch GST defaults' },
+            { status: 500 }
+        )
+    }
+}
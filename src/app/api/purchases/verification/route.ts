@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { loadDuplicateMatches } from '@/lib/purchases/duplicates'
+
+// Received purchases waiting to be checked against the supplier's invoice, each with any likely duplicates
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const page = parseInt(searchParams.get('page') || '1')
+        const limit = parseInt(searchParams.get('limit') || '10')
+        const offset = (page - 1) * limit
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const { data: purchases, error, count } = await supabase
+            .from('purchases')
+            .select(`
+                id,
+                supplier_id,
+                invoice_number,
+                purchase_date,
+                total_amount,
+                status,
+                received_at,
+                suppliers(name),
+                purchase_items(id)
+            `, { count: 'exact' })
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .eq('status', 'received')
+            .order('purchase_date', { ascending: true })
+            .range(offset, offset + limit - 1)
+
+        if (error) {
+            console.error('Unverified purchases fetch error:', error)
+            return NextResponse.json(
+                { error: 'Failed to fetch purchases to verify' },
+                { status: 500 }
+            )
+        }
+
+        const data = await Promise.all((purchases || []).map(async ({ purchase_items, ...purchase }) => ({
+            ...purchase,
+            items_count: purchase_items?.length || 0,
+            duplicates: await loadDuplicateMatches(supabase, userPharmacy.pharmacy_id, purchase.supplier_id, purchase)
+        })))
+
+        return NextResponse.json({
+            data,
+            total: count || 0,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil((count || 0) / limit))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch purchases to verify' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { buildReorderSuggestions, DEFAULT_REORDER_OPTIONS, ReorderCandidate, ReorderOptions } from '@/lib/purchases/reorder'
+
+// Helper function to read a whole number of days from the query string
+function parseDays(value: string | null, fallback: number) {
+    const days = parseInt(value || '')
+    return Number.isInteger(days) && days >= 0 && days <= 365 ? days : fallback
+}
+
+// Medicines to reorder, grouped by the supplier they were last bought from
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const options: ReorderOptions = {
+            days: Math.max(parseDays(searchParams.get('days'), DEFAULT_REORDER_OPTIONS.days), 1),
+            lead_time_days: parseDays(searchParams.get('lead_time_days'), DEFAULT_REORDER_OPTIONS.lead_time_days),
+            cover_days: parseDays(searchParams.get('cover_days'), DEFAULT_REORDER_OPTIONS.cover_days)
+        }
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const { data, error } = await supabase.rpc('reorder_candidates', {
+            p_pharmacy_id: userPharmacy.pharmacy_id,
+            p_days: options.days
+        })
+
+        if (error) {
+            console.error('Reorder candidates error:', error)
+            return NextResponse.json(
+                { error: 'Failed to work out reorder suggestions' },
+                { status: 500 }
+            )
+        }
+
+        const candidates = ((data || []) as ReorderCandidate[]).map(candidate => ({
+            ...candidate,
+            last_rate: candidate.last_rate === null ? null : Number(candidate.last_rate)
+        }))
+        const groups = buildReorderSuggestions(candidates, options)
+
+        return NextResponse.json({
+            options,
+            groups,
+            summary: {
+                medicines_checked: candidates.length,
+                medicines_to_reorder: groups.reduce((sum, group) => sum + group.items.length, 0),
+                suppliers: groups.length,
+                estimated_amount: groups.reduce((sum, group) => sum + group.estimated_amount, 0)
+            }
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch reorder suggestions' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+import { buildGstPurchaseReport, gstPurchaseReportToCsv, monthRange, GstReportPurchase } from '@/lib/purchases/gst-report'
+
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000
+
+// Inward supplies for a month (?month=YYYY-MM), as JSON or as a GSTR-2B style CSV (&format=csv)
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'reports.gst')
+
+        const { searchParams } = new URL(request.url)
+        const month = searchParams.get('month') || new Date().toISOString().slice(0, 7)
+        const format = searchParams.get('format') || 'json'
+        const range = monthRange(month)
+
+        if (!range) {
+            return NextResponse.json(
+                { error: 'month must be in YYYY-MM format' },
+                { status: 400 }
+            )
+        }
+
+        if (format !== 'json' && format !== 'csv') {
+            return NextResponse.json(
+                { error: 'format must be json or csv' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Load the pharmacy (the recipient on every invoice)
+        const { data: pharmacy } = await supabase
+            .from('pharmacies')
+            .select('name, gst_number, state')
+            .eq('id', userPharmacy.pharmacy_id)
+            .single()
+
+        // STEP 2: Load the month's invoices with their taxed items, page by page
+        const purchases: GstReportPurchase[] = []
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await supabase
+                .from('purchases')
+                .select(`
+                    id,
+                    invoice_number,
+                    invoice_date,
+                    total_amount,
+                    is_interstate,
+                    suppliers(id, name, gst_number, state),
+                    purchase_items(
+                        tax_percentage,
+                        taxable_amount,
+                        cgst_amount,
+                        sgst_amount,
+                        igst_amount,
+                        medicines(hsn_code)
+                    )
+                `)
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .gte('invoice_date', range.from)
+                .lte('invoice_date', range.to)
+                .not('status', 'in', '(draft,sent,cancelled)')
+                .order('invoice_date', { ascending: true })
+                .order('id', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1)
+
+            if (error) {
+                console.error('GST purchases report error:', error)
+                return NextResponse.json(
+                    { error: 'Failed to load purchases for the GST report' },
+                    { status: 500 }
+                )
+            }
+
+            purchases.push(...(data as unknown as GstReportPurchase[]))
+            if (!data || data.length < PAGE_SIZE) break
+        }
+
+        // STEP 3: Group by supplier GSTIN, invoice and HSN
+        const report = buildGstPurchaseReport(purchases, month, {
+            name: pharmacy?.name || '',
+            gst_number: pharmacy?.gst_number || null,
+            state: pharmacy?.state || null
+        })
+
+        console.log(`✅ GST purchases report ${month}:`, report.summary.invoices, 'invoices,', report.issues.length, 'issues')
+
+        if (format === 'csv') {
+            return new NextResponse(gstPurchaseReportToCsv(report), {
+                headers: {
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="gst-purchases-${month}.csv"`
+                }
+            })
+        }
+
+        return NextResponse.json(report)
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to build GST purchases report' },
+            { status: 500 }
+        )
+    }
+}
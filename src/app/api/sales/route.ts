@@ -0,0 +1,310 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+
+interface InventoryBatch {
+    id: string
+    batch_number: string
+    expiry_date: string
+    current_stock: number
+    reserved_stock: number | null
+    current_mrp: number | null
+}
+
+interface SaleLine {
+    medicine_id: string
+    medicine_name: string
+    quantity: number
+}
+
+// Helper function to fetch sellable batches for a medicine, earliest expiry first
+async function fetchSellableBatches(supabaseClient: SupabaseClient, pharmacyId: string, medicineId: string): Promise<InventoryBatch[]> {
+    const today = new Date().toISOString().split('T')[0]
+
+    const { data, error } = await supabaseClient
+        .from('current_inventory')
+        .select('id, batch_number, expiry_date, current_stock, reserved_stock, current_mrp')
+        .eq('pharmacy_id', pharmacyId)
+        .eq('medicine_id', medicineId)
+        .eq('is_active', true)
+        .gt('current_stock', 0)
+        .gte('expiry_date', today) // Never sell expired stock
+        .order('expiry_date', { ascending: true })
+        .order('created_at', { ascending: true })
+
+    if (error) {
+        throw new Error(`Failed to fetch batches: ${error.message}`)
+    }
+
+    return data || []
+}
+
+// Helper function to generate a bill number unique per pharmacy
+function generateBillNumber(): string {
+    const datePart = new Date().toISOString().split('T')[0].replace(/-/g, '')
+    const randomSuffix = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
+    return `BILL-${datePart}-${Date.now().toString().slice(-5)}${randomSuffix}`
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const type = searchParams.get('type')
+        const page = parseInt(searchParams.get('page') || '1')
+        const limit = parseInt(searchParams.get('limit') || '10')
+        const offset = (page - 1) * limit
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        // Batch availability lookup for the billing screen
+        if (type === 'batches') {
+            const medicineName = searchParams.get('medicine_name')
+            if (!medicineName) {
+                return NextResponse.json(
+                    { error: 'medicine_name is required' },
+                    { status: 400 }
+                )
+            }
+
+            const { data: medicine } = await supabase
+                .from('medicines')
+                .select('id, name')
+                .eq('name', medicineName)
+                .single()
+
+            if (!medicine) {
+                return NextResponse.json({ medicine_name: medicineName, total_available: 0, batches: [] })
+            }
+
+            const batches = await fetchSellableBatches(supabase, userPharmacy.pharmacy_id, medicine.id)
+            const sellable = batches.map(batch => ({
+                batch_number: batch.batch_number,
+                expiry_date: batch.expiry_date,
+                available_stock: batch.current_stock - (batch.reserved_stock || 0),
+                mrp: batch.current_mrp || 0
+            })).filter(batch => batch.available_stock > 0)
+
+            return NextResponse.json({
+                medicine_name: medicine.name,
+                total_available: sellable.reduce((sum, batch) => sum + batch.available_stock, 0),
+                batches: sellable
+            })
+        }
+
+        // Sales list (optionally a single sale)
+        let query = supabase
+            .from('sales')
+            .select(`
+        *,
+        sale_items(
+          id,
+          medicine_id,
+          batch_number,
+          expiry_date,
+          quantity,
+          mrp,
+          amount,
+          medicines(
+            name,
+            manufacturer
+          )
+        )
+      `, { count: 'exact' })
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+
+        const saleId = searchParams.get('sale_id')
+        if (saleId) {
+            query = query.eq('id', saleId)
+        }
+
+        const { data: sales, error, count } = await query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (error) {
+            console.error('Sales fetch error:', error)
+            return NextResponse.json(
+                { error: 'Failed to fetch sales' },
+                { status: 500 }
+            )
+        }
+
+        return NextResponse.json({
+            data: sales || [],
+            total: count || 0,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil((count || 0) / limit))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch sales' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const body = await request.json()
+
+        // Validate the request body
+        if (!body.items?.length) {
+            return NextResponse.json(
+                { error: 'Missing required fields: at least one item is required' },
+                { status: 400 }
+            )
+        }
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user. Please contact administrator.' },
+                { status: 400 }
+            )
+        }
+
+        const pharmacyId = userPharmacy.pharmacy_id
+
+        // STEP 1: Merge repeated medicines so each batch is deducted once
+        const requestedQuantities = new Map<string, number>()
+        for (const item of body.items as { medicine_name: string; quantity: number }[]) {
+            const quantity = parseInt(String(item.quantity)) || 0
+            if (!item.medicine_name || quantity <= 0) {
+                return NextResponse.json(
+                    { error: `Invalid quantity for ${item.medicine_name || 'item'}` },
+                    { status: 400 }
+                )
+            }
+            requestedQuantities.set(item.medicine_name, (requestedQuantities.get(item.medicine_name) || 0) + quantity)
+        }
+
+        // STEP 2: Check every line against sellable stock before writing anything
+        const saleLines: SaleLine[] = []
+        const stockErrors: { medicine_name: string; requested: number; available: number }[] = []
+
+        for (const [medicineName, quantity] of requestedQuantities) {
+            const { data: medicine } = await supabase
+                .from('medicines')
+                .select('id, name')
+                .eq('name', medicineName)
+                .single()
+
+            if (!medicine) {
+                stockErrors.push({ medicine_name: medicineName, requested: quantity, available: 0 })
+                continue
+            }
+
+            const batches = await fetchSellableBatches(supabase, pharmacyId, medicine.id)
+            const available = batches.reduce((sum, batch) => sum + Math.max(batch.current_stock - (batch.reserved_stock || 0), 0), 0)
+
+            if (available < quantity) {
+                stockErrors.push({ medicine_name: medicine.name, requested: quantity, available })
+                continue
+            }
+
+            saleLines.push({ medicine_id: medicine.id, medicine_name: medicine.name, quantity })
+        }
+
+        if (stockErrors.length > 0) {
+            console.log('❌ Insufficient stock for sale:', stockErrors)
+            return NextResponse.json(
+                { error: 'Insufficient stock for one or more items', details: stockErrors },
+                { status: 400 }
+            )
+        }
+
+        // STEP 3: Create the bill, pick batches first-expiry-first-out and deduct stock in one transaction
+        const discountPercentage = Math.min(Math.max(parseFloat(body.discount_percentage) || 0, 0), 100)
+        const saleDate = body.date || new Date().toISOString().split('T')[0]
+
+        const { data: result, error: saleError } = await supabase.rpc('create_sale_with_items', {
+            p_pharmacy_id: pharmacyId,
+            p_user_id: user.id,
+            p_bill_number: generateBillNumber(),
+            p_sale_date: saleDate,
+            p_customer_name: body.customer_name || null,
+            p_customer_phone: body.customer_phone || null,
+            p_doctor_name: body.doctor_name || null,
+            p_discount_percentage: discountPercentage,
+            p_payment_mode: body.payment_mode || 'cash',
+            p_notes: body.notes || null,
+            p_items: saleLines
+        })
+
+        if (saleError) {
+            console.error('❌ Sale creation error:', saleError)
+
+            // Stock sold by another bill since the check above
+            if (saleError.code === 'P0001') {
+                return NextResponse.json(
+                    { error: `Insufficient stock: ${saleError.message}` },
+                    { status: 409 }
+                )
+            }
+
+            return NextResponse.json(
+                { error: 'Failed to create sale' },
+                { status: 500 }
+            )
+        }
+
+        console.log('✅ Sale created:', result.bill_number, 'with', result.items, 'batch lines')
+
+        // Fetch the complete sale with all relations
+        const { data: completeSale } = await supabase
+            .from('sales')
+            .select(`
+        *,
+        sale_items(
+          *,
+          medicines(name, manufacturer)
+        )
+      `)
+            .eq('id', result.sale_id)
+            .single()
+
+        return NextResponse.json(completeSale, { status: 201 })
+    } catch (error) {
+        console.error('❌ Sale creation error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to create sale' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { CRON_JOBS } from '@/lib/cron/jobs'
+
+const RUN_FIELDS = 'id, job_name, trigger, pharmacy_id, status, message, output, error, started_at, finished_at, duration_ms'
+
+// Scheduled jobs with the latest run that covered the active pharmacy
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        // Runs for every pharmacy (scheduled) or for this one (manual)
+        const lastRuns = await Promise.all(CRON_JOBS.map(job =>
+            supabase
+                .from('cron_job_runs')
+                .select(RUN_FIELDS)
+                .eq('job_name', job.name)
+                .or(`pharmacy_id.is.null,pharmacy_id.eq.${userPharmacy.pharmacy_id}`)
+                .order('started_at', { ascending: false })
+                .limit(1)
+                .maybeSingle()
+        ))
+
+        const failedLookup = lastRuns.find(({ error }) => error)
+        if (failedLookup?.error) {
+            console.error('Job history fetch error:', failedLookup.error)
+            return NextResponse.json(
+                { error: 'Failed to fetch job history' },
+                { status: 500 }
+            )
+        }
+
+        return NextResponse.json({
+            data: CRON_JOBS.map((job, index) => ({
+                name: job.name,
+                label: job.label,
+                description: job.description,
+                schedule: job.schedule,
+                schedule_label: job.scheduleLabel,
+                last_run: lastRuns[index].data
+            }))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch scheduled jobs' },
+            { status: 500 }
+        )
+    }
+}
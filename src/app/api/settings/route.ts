@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+import { loadPharmacySettings, mergePharmacySettings } from '@/lib/settings/pharmacy-settings'
+
+// Settings for the active pharmacy, with defaults for anything never saved
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const settings = await loadPharmacySettings(supabase, userPharmacy.pharmacy_id)
+
+        return NextResponse.json(settings)
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch pharmacy settings' },
+            { status: 500 }
+        )
+    }
+}
+
+// Update some or all settings for the active pharmacy
+export async function PUT(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'settings.manage')
+
+        const body = await request.json()
+
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            return NextResponse.json(
+                { error: 'Settings must be sent as an object' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Validate the changes against the saved settings
+        const current = await loadPharmacySettings(supabase, userPharmacy.pharmacy_id)
+        const { settings, error: validationError } = mergePharmacySettings(current, body)
+
+        if (validationError) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
+
+        // STEP 2: Save, creating the row for a pharmacy that has none yet
+        const { error: saveError } = await supabase
+            .from('pharmacy_settings')
+            .upsert({
+                pharmacy_id: userPharmacy.pharmacy_id,
+                ...settings,
+                updated_at: new Date().toISOString()
+            }, { onConflict: 'pharmacy_id' })
+
+        if (saveError) {
+            console.error('Pharmacy settings update error:', saveError)
+            return NextResponse.json(
+                { error: 'Failed to save pharmacy settings' },
+                { status: 500 }
+            )
+        }
+
+        console.log('✅ Pharmacy settings updated:', userPharmacy.pharmacy_id)
+
+        return NextResponse.json(settings)
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to update pharmacy settings' },
+            { status: 500 }
+        )
+    }
+}
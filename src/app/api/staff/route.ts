@@ -0,0 +1,383 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+import { isPharmacyRole } from '@/lib/auth/permissions'
+
+// Use service role key to invite users and write memberships (user_pharmacies has no write policies)
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase environment variables')
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+        autoRefreshToken: false,
+        persistSession: false
+    }
+})
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Helper function to list a pharmacy's members with their user details
+async function fetchMembers(pharmacyId: string) {
+    const { data, error } = await supabaseAdmin
+        .from('user_pharmacies')
+        .select(`
+            id, user_id, role, is_active, created_at,
+            users(email, full_name, phone)
+        `)
+        .eq('pharmacy_id', pharmacyId)
+        .order('created_at', { ascending: true })
+
+    if (error) {
+        throw new Error(error.message)
+    }
+
+    return (data || []).map(({ users, ...member }) => {
+        const profile = users as unknown as { email: string; full_name: string; phone: string | null } | null
+        return {
+            ...member,
+            email: profile?.email || '',
+            full_name: profile?.full_name || '',
+            phone: profile?.phone || null
+        }
+    })
+}
+
+// Helper function to count the other active owners of a pharmacy
+async function countOtherOwners(pharmacyId: string, memberId: string) {
+    const { count } = await supabaseAdmin
+        .from('user_pharmacies')
+        .select('id', { count: 'exact', head: true })
+        .eq('pharmacy_id', pharmacyId)
+        .eq('role', 'owner')
+        .eq('is_active', true)
+        .neq('id', memberId)
+
+    return count || 0
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { user, userPharmacy } = await requirePermission(request, 'staff.manage')
+
+        const members = await fetchMembers(userPharmacy.pharmacy_id)
+
+        return NextResponse.json({
+            data: members.map(member => ({ ...member, is_current_user: member.user_id === user.id }))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch staff' },
+            { status: 500 }
+        )
+    }
+}
+
+// Invite a user by email and give them a role in the owner's pharmacy
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { userPharmacy } = await requirePermission(request, 'staff.manage')
+
+        const body = await request.json()
+        const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : ''
+        const fullName = typeof body.full_name === 'string' ? body.full_name.trim() : ''
+        const role = body.role
+
+        // Validate the request body
+        if (!EMAIL_PATTERN.test(email)) {
+            return NextResponse.json(
+                { error: 'A valid email address is required' },
+                { status: 400 }
+            )
+        }
+
+        if (!isPharmacyRole(role)) {
+            return NextResponse.json(
+                { error: 'Role must be one of owner, manager, pharmacist or staff' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Find an existing account for this email
+        const { data: existingUser } = await supabaseAdmin
+            .from('users')
+            .select('id, full_name')
+            .eq('email', email)
+            .maybeSingle()
+
+        let userId = existingUser?.id as string | undefined
+        let invited = false
+
+        if (userId) {
+            // STEP 2a: Existing account - they may already belong to this or another branch
+            const { data: currentMembership } = await supabaseAdmin
+                .from('user_pharmacies')
+                .select('id, is_active')
+                .eq('user_id', userId)
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .maybeSingle()
+
+            if (currentMembership?.is_active) {
+                return NextResponse.json(
+                    { error: `${email} is already a member of this pharmacy` },
+                    { status: 409 }
+                )
+            }
+
+            if (currentMembership) {
+                // Former member - restore access with the new role
+                const { error: reactivateError } = await supabaseAdmin
+                    .from('user_pharmacies')
+                    .update({ role, is_active: true })
+                    .eq('id', currentMembership.id)
+
+                if (reactivateError) {
+                    console.error('Membership reactivation error:', reactivateError)
+                    return NextResponse.json(
+                        { error: 'Failed to restore access', details: reactivateError.message },
+                        { status: 500 }
+                    )
+                }
+
+                console.log(`✅ Restored ${email} as ${role}`)
+
+                return NextResponse.json({
+                    invited: false,
+                    message: `${existingUser?.full_name || email} has access again as ${role}`
+                })
+            }
+        } else {
+            // STEP 2b: New account - send a Supabase invitation email
+            if (!fullName) {
+                return NextResponse.json(
+                    { error: 'Full name is required for a new user' },
+                    { status: 400 }
+                )
+            }
+
+            const { data: invite, error: inviteError } = await supabaseAdmin.auth.admin.inviteUserByEmail(email, {
+                data: { full_name: fullName },
+                redirectTo: `${request.nextUrl.origin}/admin/settings`
+            })
+
+            if (inviteError || !invite.user) {
+                console.error('❌ Invite error:', inviteError)
+                return NextResponse.json(
+                    { error: 'Failed to send invitation', details: inviteError?.message },
+                    { status: 500 }
+                )
+            }
+
+            userId = invite.user.id
+            invited = true
+
+            const { error: profileError } = await supabaseAdmin
+                .from('users')
+                .insert({
+                    id: userId,
+                    email,
+                    full_name: fullName,
+                    role: role === 'staff' ? 'staff' : 'pharmacist'
+                })
+
+            if (profileError) {
+                console.error('User profile creation error:', profileError)
+                return NextResponse.json(
+                    { error: 'Invitation sent but the user profile could not be created', details: profileError.message },
+                    { status: 500 }
+                )
+            }
+        }
+
+        // STEP 3: Add the membership
+        const { error: membershipError } = await supabaseAdmin
+            .from('user_pharmacies')
+            .insert({
+                user_id: userId,
+                pharmacy_id: userPharmacy.pharmacy_id,
+                role,
+                is_active: true
+            })
+
+        if (membershipError) {
+            console.error('Membership creation error:', membershipError)
+            return NextResponse.json(
+                { error: 'Failed to add user to pharmacy', details: membershipError.message },
+                { status: 500 }
+            )
+        }
+
+        console.log(`✅ Added ${email} as ${role}${invited ? ' (invitation sent)' : ''}`)
+
+        return NextResponse.json({
+            invited,
+            message: invited
+                ? `Invitation sent to ${email}`
+                : `${existingUser?.full_name || email} added as ${role}`
+        }, { status: 201 })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to invite user' },
+            { status: 500 }
+        )
+    }
+}
+
+// Change a member's role or deactivate/restore their access
+export async function PUT(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { user, userPharmacy } = await requirePermission(request, 'staff.manage')
+
+        const body = await request.json()
+        const memberId: string | undefined = body.member_id
+        const role = body.role
+        const isActive = body.is_active
+
+        if (!memberId || (role === undefined && isActive === undefined)) {
+            return NextResponse.json(
+                { error: 'member_id and a role or is_active value are required' },
+                { status: 400 }
+            )
+        }
+
+        if (role !== undefined && !isPharmacyRole(role)) {
+            return NextResponse.json(
+                { error: 'Role must be one of owner, manager, pharmacist or staff' },
+                { status: 400 }
+            )
+        }
+
+        if (isActive !== undefined && typeof isActive !== 'boolean') {
+            return NextResponse.json(
+                { error: 'is_active must be true or false' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Check the membership belongs to this pharmacy
+        const { data: member } = await supabaseAdmin
+            .from('user_pharmacies')
+            .select('id, user_id, role, is_active')
+            .eq('id', memberId)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (!member) {
+            return NextResponse.json(
+                { error: 'Member not found' },
+                { status: 404 }
+            )
+        }
+
+        // STEP 2: Owners can't lock themselves out
+        if (member.user_id === user.id) {
+            return NextResponse.json(
+                { error: 'You cannot change your own role or access' },
+                { status: 400 }
+            )
+        }
+
+        const losesOwner = member.role === 'owner' && member.is_active &&
+            ((role !== undefined && role !== 'owner') || isActive === false)
+
+        if (losesOwner && await countOtherOwners(userPharmacy.pharmacy_id, member.id) === 0) {
+            return NextResponse.json(
+                { error: 'A pharmacy must keep at least one active owner' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 3: Update the membership
+        const updateFields: { role?: string; is_active?: boolean } = {}
+        if (role !== undefined) updateFields.role = role
+        if (isActive !== undefined) updateFields.is_active = isActive
+
+        const { error: updateError } = await supabaseAdmin
+            .from('user_pharmacies')
+            .update(updateFields)
+            .eq('id', member.id)
+
+        if (updateError) {
+            console.error('Membership update error:', updateError)
+            return NextResponse.json(
+                { error: 'Failed to update member', details: updateError.message },
+                { status: 500 }
+            )
+        }
+
+        console.log(`✅ Updated member ${member.id}:`, updateFields)
+
+        return NextResponse.json({
+            message: isActive === false
+                ? 'Access removed'
+                : isActive === true
+                    ? 'Access restored'
+                    : `Role changed to ${role}`
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to update member' },
+            { status: 500 }
+        )
+    }
+}
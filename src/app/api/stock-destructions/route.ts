@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+// Helper function to generate a destruction number unique per pharmacy
+function generateDestructionNumber(): string {
+    const datePart = new Date().toISOString().split('T')[0].replace(/-/g, '')
+    const randomSuffix = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
+    return `DS-${datePart}-${Date.now().toString().slice(-5)}${randomSuffix}`
+}
+
+const DESTRUCTION_SELECT = `
+        *,
+        pharmacies(
+          name,
+          address,
+          city,
+          state,
+          phone,
+          gst_number,
+          license_number
+        ),
+        stock_destruction_items(
+          id,
+          inventory_id,
+          medicine_id,
+          batch_number,
+          expiry_date,
+          quantity,
+          rate,
+          mrp,
+          amount,
+          medicines(
+            name,
+            manufacturer
+          )
+        )
+      `
+
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const page = parseInt(searchParams.get('page') || '1')
+        const limit = parseInt(searchParams.get('limit') || '10')
+        const offset = (page - 1) * limit
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const { data: destructions, error, count } = await supabase
+            .from('stock_destructions')
+            .select(DESTRUCTION_SELECT, { count: 'exact' })
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .order('destruction_date', { ascending: false })
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (error) {
+            console.error('Stock destructions fetch error:', error)
+            return NextResponse.json(
+                { error: 'Failed to fetch stock destructions' },
+                { status: 500 }
+            )
+        }
+
+        // Everything written off so far, whatever page is shown
+        const { data: allDestructions } = await supabase
+            .from('stock_destructions')
+            .select('total_quantity, total_loss')
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+
+        return NextResponse.json({
+            data: destructions || [],
+            totals: {
+                quantity: (allDestructions || []).reduce((sum, destruction) => sum + (destruction.total_quantity || 0), 0),
+                loss: (allDestructions || []).reduce((sum, destruction) => sum + Number(destruction.total_loss || 0), 0)
+            },
+            total: count || 0,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil((count || 0) / limit))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch stock destructions' },
+            { status: 500 }
+        )
+    }
+}
+
+// Write off expired batches from the selected pharmacy's stock as one destruction batch
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { user, supabase, userPharmacy } = await requirePermission(request, 'stock_destructions.create')
+
+        const body = await request.json()
+        const inventoryIds: string[] = Array.isArray(body.inventory_ids)
+            ? [...new Set<string>(body.inventory_ids.filter((id: unknown) => typeof id === 'string' && id))]
+            : []
+        const witnessName = typeof body.witness_name === 'string' ? body.witness_name.trim() : ''
+        const today = new Date().toISOString().split('T')[0]
+        const destructionDate: string = body.destruction_date || today
+
+        // Validate the request body
+        if (inventoryIds.length === 0 || !witnessName) {
+            return NextResponse.json(
+                { error: 'Missing required fields: witness_name and at least one batch are required' },
+                { status: 400 }
+            )
+        }
+
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(destructionDate) || destructionDate > today) {
+            return NextResponse.json(
+                { error: 'Destruction date must be a valid date that is not in the future' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Create the destruction batch and write off every batch in one transaction
+        const { data: result, error: writeOffError } = await supabase.rpc('write_off_expired_stock', {
+            p_pharmacy_id: userPharmacy.pharmacy_id,
+            p_user_id: user.id,
+            p_destruction_number: generateDestructionNumber(),
+            p_destruction_date: destructionDate,
+            p_witness_name: witnessName,
+            p_witness_designation: body.witness_designation?.trim() || null,
+            p_method: body.method?.trim() || null,
+            p_notes: body.notes?.trim() || null,
+            p_inventory_ids: inventoryIds
+        })
+
+        if (writeOffError) {
+            console.error('❌ Stock write-off error:', writeOffError)
+            return NextResponse.json(
+                { error: 'Failed to write off expired stock', details: writeOffError.message },
+                { status: writeOffError.code === 'P0001' ? 409 : 500 }
+            )
+        }
+
+        console.log('✅ Expired stock written off:', result.destruction_number, 'with', result.items, 'batches')
+
+        // STEP 2: Fetch the complete destruction with all relations for the certificate
+        const { data: destruction } = await supabase
+            .from('stock_destructions')
+            .select(DESTRUCTION_SELECT)
+            .eq('id', result.destruction_id)
+            .single()
+
+        return NextResponse.json({
+            destruction,
+            message: `${result.items} batches written off on destruction ${result.destruction_number}`
+        }, { status: 201 })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to write off expired stock' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+interface RouteContext {
+    params: Promise<{ id: string }>
+}
+
+// Receive a transfer at the selected branch, or cancel one it sent
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params
+        const body = await request.json()
+        const action = body.action
+
+        if (action !== 'receive' && action !== 'cancel') {
+            return NextResponse.json(
+                { error: 'action must be receive or cancel' },
+                { status: 400 }
+            )
+        }
+
+        // Get authenticated user and check their pharmacy role
+        const { user, supabase, userPharmacy } = await requirePermission(
+            request,
+            action === 'receive' ? 'stock_transfers.receive' : 'stock_transfers.dispatch'
+        )
+
+        // STEP 1: Check the transfer and which side of it this branch is on
+        const { data: transfer } = await supabase
+            .from('stock_transfers')
+            .select('id, transfer_number, from_pharmacy_id, to_pharmacy_id, status')
+            .eq('id', id)
+            .single()
+
+        if (!transfer) {
+            return NextResponse.json(
+                { error: 'Transfer not found' },
+                { status: 404 }
+            )
+        }
+
+        if (transfer.status !== 'in_transit') {
+            return NextResponse.json(
+                { error: `Transfer ${transfer.transfer_number} is already ${transfer.status}` },
+                { status: 409 }
+            )
+        }
+
+        if (action === 'receive' && transfer.to_pharmacy_id !== userPharmacy.pharmacy_id) {
+            return NextResponse.json(
+                { error: 'Switch to the receiving branch to receive this transfer' },
+                { status: 400 }
+            )
+        }
+
+        if (action === 'cancel' && transfer.from_pharmacy_id !== userPharmacy.pharmacy_id) {
+            return NextResponse.json(
+                { error: 'Only the sending branch can cancel this transfer' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 2: Move the stock in a single transaction
+        const { data: result, error: transferError } = await supabase.rpc(
+            action === 'receive' ? 'receive_stock_transfer' : 'cancel_stock_transfer',
+            {
+                p_transfer_id: transfer.id,
+                p_user_id: user.id
+            }
+        )
+
+        if (transferError) {
+            console.error(`❌ Stock transfer ${action} error:`, transferError)
+            return NextResponse.json(
+                { error: `Failed to ${action} stock transfer`, details: transferError.message },
+                { status: transferError.code === 'P0001' ? 409 : 500 }
+            )
+        }
+
+        console.log(`✅ Stock transfer ${transfer.transfer_number} ${result.status}:`, result.items, 'items')
+
+        return NextResponse.json({
+            ...result,
+            message: action === 'receive'
+                ? `Transfer ${transfer.transfer_number} received into stock`
+                : `Transfer ${transfer.transfer_number} cancelled and stock returned`
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to update stock transfer' },
+            { status: 500 }
+        )
+    }
+}
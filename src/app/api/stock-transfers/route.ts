@@ -0,0 +1,293 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy, getUserPharmacies, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+interface TransferLineRequest {
+    medicine_name: string
+    batch_number: string
+    expiry_date: string
+    quantity: number
+}
+
+// Helper function to generate a transfer number
+function generateTransferNumber(): string {
+    const datePart = new Date().toISOString().split('T')[0].replace(/-/g, '')
+    const randomSuffix = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
+    return `TR-${datePart}-${Date.now().toString().slice(-5)}${randomSuffix}`
+}
+
+const TRANSFER_SELECT = `
+        *,
+        from_pharmacy:pharmacies!stock_transfers_from_pharmacy_id_fkey(id, name, city),
+        to_pharmacy:pharmacies!stock_transfers_to_pharmacy_id_fkey(id, name, city),
+        stock_transfer_items(
+          id,
+          medicine_id,
+          batch_number,
+          expiry_date,
+          quantity,
+          rate,
+          mrp,
+          amount,
+          medicines(
+            name,
+            manufacturer
+          )
+        )
+      `
+
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const direction = searchParams.get('direction') // 'incoming' | 'outgoing'
+        const status = searchParams.get('status')
+        const page = parseInt(searchParams.get('page') || '1')
+        const limit = parseInt(searchParams.get('limit') || '10')
+        const offset = (page - 1) * limit
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        const pharmacyId = userPharmacy.pharmacy_id
+
+        let query = supabase
+            .from('stock_transfers')
+            .select(TRANSFER_SELECT, { count: 'exact' })
+
+        if (direction === 'incoming') {
+            query = query.eq('to_pharmacy_id', pharmacyId)
+        } else if (direction === 'outgoing') {
+            query = query.eq('from_pharmacy_id', pharmacyId)
+        } else {
+            query = query.or(`from_pharmacy_id.eq.${pharmacyId},to_pharmacy_id.eq.${pharmacyId}`)
+        }
+
+        if (status) {
+            query = query.eq('status', status)
+        }
+
+        const { data: transfers, error, count } = await query
+            .order('dispatched_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (error) {
+            console.error('Stock transfers fetch error:', error)
+            return NextResponse.json(
+                { error: 'Failed to fetch stock transfers' },
+                { status: 500 }
+            )
+        }
+
+        // Stock on the road in either direction, whatever page is shown
+        const { data: inTransit } = await supabase
+            .from('stock_transfers')
+            .select('from_pharmacy_id, to_pharmacy_id, total_amount')
+            .eq('status', 'in_transit')
+            .or(`from_pharmacy_id.eq.${pharmacyId},to_pharmacy_id.eq.${pharmacyId}`)
+
+        const incoming = (inTransit || []).filter(transfer => transfer.to_pharmacy_id === pharmacyId)
+        const outgoing = (inTransit || []).filter(transfer => transfer.from_pharmacy_id === pharmacyId)
+
+        return NextResponse.json({
+            data: transfers || [],
+            in_transit: {
+                incoming_count: incoming.length,
+                incoming_value: incoming.reduce((sum, transfer) => sum + (transfer.total_amount || 0), 0),
+                outgoing_count: outgoing.length,
+                outgoing_value: outgoing.reduce((sum, transfer) => sum + (transfer.total_amount || 0), 0)
+            },
+            total: count || 0,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil((count || 0) / limit))
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch stock transfers' },
+            { status: 500 }
+        )
+    }
+}
+
+// Dispatch stock from the selected branch to another branch of the same user
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { user, supabase, userPharmacy } = await requirePermission(request, 'stock_transfers.dispatch')
+
+        const body = await request.json()
+        const toPharmacyId: string | undefined = body.to_pharmacy_id
+        const requestedItems: TransferLineRequest[] = Array.isArray(body.items) ? body.items : []
+
+        // Validate the request body
+        if (!toPharmacyId || requestedItems.length === 0) {
+            return NextResponse.json(
+                { error: 'Missing required fields: to_pharmacy_id and at least one item are required' },
+                { status: 400 }
+            )
+        }
+
+        const fromPharmacyId = userPharmacy.pharmacy_id
+
+        if (toPharmacyId === fromPharmacyId) {
+            return NextResponse.json(
+                { error: 'Choose a different branch to send stock to' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Stock can only go to another branch the user belongs to
+        const memberships = await getUserPharmacies(supabase, user.id)
+        if (!memberships.some(membership => membership.pharmacy_id === toPharmacyId)) {
+            return NextResponse.json(
+                { error: 'You do not have access to the receiving branch' },
+                { status: 403 }
+            )
+        }
+
+        // STEP 2: Validate every line against the sending branch's stock
+        const lineErrors: { index: number; error: string }[] = []
+        const transferLines: { medicine_id: string; batch_number: string; expiry_date: string; quantity: number }[] = []
+
+        for (const [index, item] of requestedItems.entries()) {
+            const quantity = parseInt(String(item.quantity)) || 0
+
+            if (!item.medicine_name || !item.batch_number || !item.expiry_date) {
+                lineErrors.push({ index, error: 'Medicine, batch number and expiry date are required' })
+                continue
+            }
+
+            if (quantity <= 0) {
+                lineErrors.push({ index, error: 'Quantity must be greater than zero' })
+                continue
+            }
+
+            const { data: medicine } = await supabase
+                .from('medicines')
+                .select('id, name')
+                .eq('name', item.medicine_name)
+                .single()
+
+            if (!medicine) {
+                lineErrors.push({ index, error: `Medicine "${item.medicine_name}" not found` })
+                continue
+            }
+
+            const { data: inventory } = await supabase
+                .from('current_inventory')
+                .select('id, current_stock, reserved_stock')
+                .eq('pharmacy_id', fromPharmacyId)
+                .eq('medicine_id', medicine.id)
+                .eq('batch_number', item.batch_number)
+                .eq('expiry_date', item.expiry_date)
+                .single()
+
+            const available = inventory ? inventory.current_stock - (inventory.reserved_stock || 0) : 0
+            if (available < quantity) {
+                lineErrors.push({
+                    index,
+                    error: `Only ${Math.max(available, 0)} units of ${medicine.name} batch ${item.batch_number} are available`
+                })
+                continue
+            }
+
+            const duplicate = transferLines.find(line =>
+                line.medicine_id === medicine.id &&
+                line.batch_number === item.batch_number &&
+                line.expiry_date === item.expiry_date
+            )
+            if (duplicate) {
+                lineErrors.push({ index, error: `Batch ${item.batch_number} of ${medicine.name} is listed twice` })
+                continue
+            }
+
+            transferLines.push({
+                medicine_id: medicine.id,
+                batch_number: item.batch_number,
+                expiry_date: item.expiry_date,
+                quantity
+            })
+        }
+
+        if (lineErrors.length > 0) {
+            return NextResponse.json(
+                { error: 'Some items cannot be transferred', details: lineErrors },
+                { status: 400 }
+            )
+        }
+
+        // STEP 3: Create the transfer and take the stock out in one transaction
+        const { data: result, error: dispatchError } = await supabase.rpc('dispatch_stock_transfer', {
+            p_from_pharmacy_id: fromPharmacyId,
+            p_to_pharmacy_id: toPharmacyId,
+            p_user_id: user.id,
+            p_transfer_number: generateTransferNumber(),
+            p_notes: body.notes || null,
+            p_items: transferLines
+        })
+
+        if (dispatchError) {
+            console.error('❌ Stock transfer dispatch error:', dispatchError)
+            return NextResponse.json(
+                { error: 'Failed to dispatch stock transfer', details: dispatchError.message },
+                { status: dispatchError.code === 'P0001' ? 409 : 500 }
+            )
+        }
+
+        console.log('✅ Stock transfer dispatched:', result.transfer_number, 'with', result.items, 'items')
+
+        // Fetch the complete transfer with all relations
+        const { data: transfer } = await supabase
+            .from('stock_transfers')
+            .select(TRANSFER_SELECT)
+            .eq('id', result.transfer_id)
+            .single()
+
+        return NextResponse.json({
+            transfer,
+            message: `Transfer ${result.transfer_number} dispatched`
+        }, { status: 201 })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to dispatch stock transfer' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,434 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser, getUserPharmacy, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+const PAYMENT_MODES = ['cash', 'cheque', 'bank_transfer', 'upi', 'card']
+
+const PURCHASE_PAYMENT_FIELDS = 'id, supplier_id, invoice_number, invoice_date, due_date, total_amount, paid_amount, balance_amount, payment_status, status'
+
+interface LedgerEntry {
+    id: string
+    date: string
+    type: 'purchase' | 'payment' | 'debit_note'
+    reference: string
+    description: string
+    purchase_id: string | null
+    debit: number
+    credit: number
+    balance: number
+}
+
+// Helper function to round money values to paise
+function roundAmount(value: number) {
+    return Math.round(value * 100) / 100
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        // Get authenticated user and supabase client
+        const { user, supabase } = await getAuthenticatedUser(request)
+
+        const { searchParams } = new URL(request.url)
+        const supplierId = searchParams.get('supplier_id')
+        const statusFilter = searchParams.get('status')
+
+        // Get user's pharmacy ID
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+        if (!userPharmacy) {
+            return NextResponse.json(
+                { error: 'No pharmacy found for user' },
+                { status: 400 }
+            )
+        }
+
+        // Without a supplier, return outstanding invoices across all suppliers
+        if (!supplierId) {
+            let outstandingQuery = supabase
+                .from('purchases')
+                .select(`${PURCHASE_PAYMENT_FIELDS}, suppliers(id, name, credit_days)`)
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .not('status', 'in', '(draft,sent,cancelled)')
+                .gt('balance_amount', 0)
+
+            if (statusFilter) {
+                outstandingQuery = outstandingQuery.eq('payment_status', statusFilter)
+            }
+
+            const [{ data: invoices, error: invoicesError }, { data: supplierBalances }] = await Promise.all([
+                outstandingQuery.order('due_date', { ascending: true }),
+                supabase
+                    .from('view_supplier_balances')
+                    .select('*')
+                    .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                    .order('outstanding_balance', { ascending: false })
+            ])
+
+            if (invoicesError) {
+                console.error('Outstanding invoices fetch error:', invoicesError)
+                return NextResponse.json(
+                    { error: 'Failed to fetch outstanding payments' },
+                    { status: 500 }
+                )
+            }
+
+            const totalOutstanding = (invoices || []).reduce((sum, invoice) => sum + (invoice.balance_amount || 0), 0)
+            const totalOverdue = (invoices || [])
+                .filter(invoice => invoice.payment_status === 'overdue')
+                .reduce((sum, invoice) => sum + (invoice.balance_amount || 0), 0)
+
+            return NextResponse.json({
+                invoices: invoices || [],
+                supplier_balances: supplierBalances || [],
+                total_outstanding: roundAmount(totalOutstanding),
+                total_overdue: roundAmount(totalOverdue)
+            })
+        }
+
+        // STEP 1: Load the supplier and everything that moves their balance
+        const { data: supplier } = await supabase
+            .from('suppliers')
+            .select('id, name, contact_person, phone, city, credit_days, credit_limit')
+            .eq('id', supplierId)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (!supplier) {
+            return NextResponse.json(
+                { error: 'Supplier not found' },
+                { status: 404 }
+            )
+        }
+
+        const [purchasesResult, paymentsResult, returnsResult] = await Promise.all([
+            supabase
+                .from('purchases')
+                .select(PURCHASE_PAYMENT_FIELDS)
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .eq('supplier_id', supplierId)
+                .not('status', 'in', '(draft,sent,cancelled)'),
+            supabase
+                .from('supplier_payments')
+                .select('id, purchase_id, payment_date, amount, payment_mode, reference_number, notes, created_at')
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .eq('supplier_id', supplierId),
+            supabase
+                .from('purchase_returns')
+                .select('id, debit_note_number, return_date, total_amount, reason')
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .eq('supplier_id', supplierId)
+                .neq('status', 'cancelled')
+        ])
+
+        if (purchasesResult.error || paymentsResult.error || returnsResult.error) {
+            console.error('Supplier ledger fetch error:', purchasesResult.error || paymentsResult.error || returnsResult.error)
+            return NextResponse.json(
+                { error: 'Failed to fetch supplier ledger' },
+                { status: 500 }
+            )
+        }
+
+        const purchases = purchasesResult.data || []
+        const payments = paymentsResult.data || []
+        const debitNotes = returnsResult.data || []
+        const invoiceNumbers = new Map(purchases.map(purchase => [purchase.id, purchase.invoice_number]))
+
+        // STEP 2: Build ledger entries (purchases are debits, payments and debit notes are credits)
+        const entries: Omit<LedgerEntry, 'balance'>[] = [
+            ...purchases.map(purchase => ({
+                id: purchase.id,
+                date: purchase.invoice_date,
+                type: 'purchase' as const,
+                reference: purchase.invoice_number,
+                description: `Purchase invoice${purchase.due_date ? ` (due ${purchase.due_date})` : ''}`,
+                purchase_id: purchase.id,
+                debit: purchase.total_amount || 0,
+                credit: 0
+            })),
+            ...payments.map(payment => ({
+                id: payment.id,
+                date: payment.payment_date,
+                type: 'payment' as const,
+                reference: payment.reference_number || payment.payment_mode.toUpperCase(),
+                description: `Payment (${payment.payment_mode.replace('_', ' ')}) against ${invoiceNumbers.get(payment.purchase_id) || 'invoice'}${payment.notes ? ` - ${payment.notes}` : ''}`,
+                purchase_id: payment.purchase_id,
+                debit: 0,
+                credit: payment.amount || 0
+            })),
+            ...debitNotes.map(debitNote => ({
+                id: debitNote.id,
+                date: debitNote.return_date,
+                type: 'debit_note' as const,
+                reference: debitNote.debit_note_number,
+                description: `Debit note${debitNote.reason ? ` - ${debitNote.reason}` : ''}`,
+                purchase_id: null,
+                debit: 0,
+                credit: debitNote.total_amount || 0
+            }))
+        ]
+
+        // Oldest first, invoices before the payments made on the same day
+        const typeOrder = { purchase: 0, debit_note: 1, payment: 2 }
+        entries.sort((a, b) => a.date.localeCompare(b.date) || typeOrder[a.type] - typeOrder[b.type])
+
+        // STEP 3: Running balance
+        let runningBalance = 0
+        const ledger: LedgerEntry[] = entries.map(entry => {
+            runningBalance = roundAmount(runningBalance + entry.debit - entry.credit)
+            return { ...entry, balance: runningBalance }
+        })
+
+        const totalPurchases = purchases.reduce((sum, purchase) => sum + (purchase.total_amount || 0), 0)
+        const totalPaid = payments.reduce((sum, payment) => sum + (payment.amount || 0), 0)
+        const totalReturns = debitNotes.reduce((sum, debitNote) => sum + (debitNote.total_amount || 0), 0)
+        const overdueAmount = purchases
+            .filter(purchase => purchase.payment_status === 'overdue')
+            .reduce((sum, purchase) => sum + (purchase.balance_amount || 0), 0)
+
+        return NextResponse.json({
+            supplier,
+            entries: ledger,
+            invoices: purchases
+                .filter(purchase => (purchase.balance_amount || 0) > 0)
+                .sort((a, b) => (a.due_date || '').localeCompare(b.due_date || '')),
+            summary: {
+                total_purchases: roundAmount(totalPurchases),
+                total_paid: roundAmount(totalPaid),
+                total_returns: roundAmount(totalReturns),
+                outstanding_balance: runningBalance,
+                overdue_amount: roundAmount(overdueAmount)
+            }
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to fetch supplier payments' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { user, supabase, userPharmacy } = await requirePermission(request, 'supplier_payments.manage')
+
+        const body = await request.json()
+        const amount = roundAmount(parseFloat(body.amount))
+        const paymentMode = body.payment_mode || 'cash'
+
+        // Validate the request body
+        if (!body.purchase_id || !amount || amount <= 0) {
+            return NextResponse.json(
+                { error: 'Missing required fields: purchase_id and a positive amount are required' },
+                { status: 400 }
+            )
+        }
+
+        if (!PAYMENT_MODES.includes(paymentMode)) {
+            return NextResponse.json(
+                { error: `payment_mode must be one of: ${PAYMENT_MODES.join(', ')}` },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Load the invoice being paid
+        const { data: purchase } = await supabase
+            .from('purchases')
+            .select(PURCHASE_PAYMENT_FIELDS)
+            .eq('id', body.purchase_id)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (!purchase) {
+            return NextResponse.json(
+                { error: 'Purchase not found' },
+                { status: 404 }
+            )
+        }
+
+        if (purchase.status === 'cancelled') {
+            return NextResponse.json(
+                { error: 'Cannot record a payment against a cancelled purchase' },
+                { status: 400 }
+            )
+        }
+
+        if (purchase.status === 'draft' || purchase.status === 'sent') {
+            return NextResponse.json(
+                { error: 'Cannot record a payment before any goods are received against the purchase' },
+                { status: 400 }
+            )
+        }
+
+        // Goods sent back on a debit note are not paid for
+        const { data: returnedItems } = await supabase
+            .from('purchase_return_items')
+            .select('amount, purchase_returns!inner(status)')
+            .eq('purchase_id', purchase.id)
+            .neq('purchase_returns.status', 'cancelled')
+
+        const returnedAmount = (returnedItems || []).reduce((sum, item) => sum + (item.amount || 0), 0)
+        const paidBefore = purchase.paid_amount || 0
+        const balanceBefore = roundAmount(purchase.total_amount - returnedAmount - paidBefore)
+
+        if (amount > balanceBefore) {
+            return NextResponse.json(
+                { error: `Payment of ₹${amount} exceeds the outstanding balance of ₹${balanceBefore} on invoice ${purchase.invoice_number}` },
+                { status: 400 }
+            )
+        }
+
+        // STEP 2: Record the payment (the invoice's paid amount, balance and status are recomputed by trigger)
+        const { data: payment, error: paymentError } = await supabase
+            .from('supplier_payments')
+            .insert({
+                pharmacy_id: userPharmacy.pharmacy_id,
+                supplier_id: purchase.supplier_id,
+                purchase_id: purchase.id,
+                user_id: user.id,
+                payment_date: body.payment_date || new Date().toISOString().split('T')[0],
+                amount,
+                payment_mode: paymentMode,
+                reference_number: body.reference_number || null,
+                notes: body.notes || null
+            })
+            .select()
+            .single()
+
+        if (paymentError) {
+            console.error('Payment creation error:', paymentError)
+
+            // A payment recorded meanwhile already settled part of this balance
+            if (paymentError.code === 'P0001') {
+                return NextResponse.json(
+                    { error: `Payment of ₹${amount} exceeds the outstanding balance on invoice ${purchase.invoice_number}` },
+                    { status: 400 }
+                )
+            }
+
+            return NextResponse.json(
+                { error: 'Failed to record payment' },
+                { status: 500 }
+            )
+        }
+
+        // STEP 3: Fetch the invoice with its new balance
+        const { data: updatedPurchase } = await supabase
+            .from('purchases')
+            .select(PURCHASE_PAYMENT_FIELDS)
+            .eq('id', purchase.id)
+            .single()
+
+        console.log(`✅ Payment of ₹${amount} recorded against ${purchase.invoice_number}, balance ₹${updatedPurchase?.balance_amount}`)
+
+        return NextResponse.json({ payment, purchase: updatedPurchase }, { status: 201 })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to record payment' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'supplier_payments.manage')
+
+        const { searchParams } = new URL(request.url)
+        const paymentId = searchParams.get('payment_id')
+
+        if (!paymentId) {
+            return NextResponse.json(
+                { error: 'Payment ID is required' },
+                { status: 400 }
+            )
+        }
+
+        const { data: payment } = await supabase
+            .from('supplier_payments')
+            .select('id, purchase_id')
+            .eq('id', paymentId)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .single()
+
+        if (!payment) {
+            return NextResponse.json(
+                { error: 'Payment not found' },
+                { status: 404 }
+            )
+        }
+
+        const { error: deleteError } = await supabase
+            .from('supplier_payments')
+            .delete()
+            .eq('id', paymentId)
+
+        if (deleteError) {
+            console.error('Payment delete error:', deleteError)
+            return NextResponse.json(
+                { error: 'Failed to delete payment' },
+                { status: 500 }
+            )
+        }
+
+        // The trigger has already taken the payment off the invoice
+        const { data: updatedPurchase } = await supabase
+            .from('purchases')
+            .select(PURCHASE_PAYMENT_FIELDS)
+            .eq('id', payment.purchase_id)
+            .single()
+
+        return NextResponse.json({ success: true, purchase: updatedPurchase })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to delete payment' },
+            { status: 500 }
+        )
+    }
+}
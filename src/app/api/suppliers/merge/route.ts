@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+
+export async function POST(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'suppliers.merge')
+
+        const body = await request.json()
+        const targetId: string | undefined = body.target_supplier_id
+        const sourceIds: string[] = Array.isArray(body.source_supplier_ids)
+            ? body.source_supplier_ids.filter((id: unknown) => typeof id === 'string' && id !== targetId)
+            : []
+
+        // Validate the request body
+        if (!targetId || sourceIds.length === 0) {
+            return NextResponse.json(
+                { error: 'Missing required fields: target_supplier_id and at least one other source_supplier_ids entry are required' },
+                { status: 400 }
+            )
+        }
+
+        // STEP 1: Make sure every supplier belongs to this pharmacy
+        const { data: suppliers, error: suppliersError } = await supabase
+            .from('suppliers')
+            .select('id, name')
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .in('id', [targetId, ...sourceIds])
+
+        if (suppliersError) {
+            console.error('Suppliers fetch error:', suppliersError)
+            return NextResponse.json(
+                { error: 'Failed to fetch suppliers' },
+                { status: 500 }
+            )
+        }
+
+        if (!suppliers || suppliers.length !== sourceIds.length + 1) {
+            return NextResponse.json(
+                { error: 'One or more suppliers were not found' },
+                { status: 404 }
+            )
+        }
+
+        // STEP 2: Invoice numbers are unique per supplier, so clashes must be resolved first
+        const { data: invoices } = await supabase
+            .from('purchases')
+            .select('supplier_id, invoice_number')
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .in('supplier_id', [targetId, ...sourceIds])
+
+        const seenInvoices = new Set<string>()
+        const clashingInvoices = new Set<string>()
+        for (const invoice of invoices || []) {
+            if (seenInvoices.has(invoice.invoice_number)) {
+                clashingInvoices.add(invoice.invoice_number)
+            }
+            seenInvoices.add(invoice.invoice_number)
+        }
+
+        if (clashingInvoices.size > 0) {
+            return NextResponse.json(
+                {
+                    error: 'These suppliers share invoice numbers. Rename the duplicate invoices before merging.',
+                    details: Array.from(clashingInvoices)
+                },
+                { status: 409 }
+            )
+        }
+
+        // STEP 3: Merge in a single transaction
+        const { data: result, error: mergeError } = await supabase.rpc('merge_suppliers', {
+            p_pharmacy_id: userPharmacy.pharmacy_id,
+            p_target_supplier_id: targetId,
+            p_source_supplier_ids: sourceIds
+        })
+
+        if (mergeError) {
+            console.error('❌ Supplier merge error:', mergeError)
+            return NextResponse.json(
+                { error: 'Failed to merge suppliers', details: mergeError.message },
+                { status: 500 }
+            )
+        }
+
+        const target = suppliers.find(supplier => supplier.id === targetId)
+        const mergedNames = suppliers.filter(supplier => supplier.id !== targetId).map(supplier => supplier.name)
+
+        console.log(`✅ Merged ${mergedNames.join(', ')} into ${target?.name}:`, result)
+
+        return NextResponse.json({
+            ...result,
+            target_supplier_id: targetId,
+            message: `Merged ${mergedNames.join(', ')} into "${target?.name}"`
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to merge suppliers' },
+            { status: 500 }
+        )
+    }
+}
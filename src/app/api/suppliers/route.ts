@@ -1,5 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAuthenticatedUser } from '@/lib/auth/supabase-server'
+import { getAuthenticatedUser, requirePermission, PermissionError } from '@/lib/auth/supabase-server'
+import { GSTIN_PATTERN } from '@/lib/purchases/gst'
+
+const EDITABLE_TEXT_FIELDS = [
+    'name',
+    'contact_person',
+    'phone',
+    'email',
+    'address',
+    'city',
+    'state',
+    'pincode',
+    'gst_number',
+    'drug_license_number'
+]
+
+// Helper function to validate and collect the supplier fields present in a request body
+function buildSupplierUpdate(body: Record<string, unknown>) {
+    const updateFields: Record<string, string | number | boolean | null> = {}
+
+    for (const field of EDITABLE_TEXT_FIELDS) {
+        if (body[field] !== undefined) {
+            const value = body[field] === null ? '' : String(body[field]).trim()
+            updateFields[field] = value || null
+        }
+    }
+
+    if (updateFields.name === null) {
+        return { error: 'Supplier name cannot be empty' }
+    }
+
+    if (typeof updateFields.gst_number === 'string') {
+        updateFields.gst_number = updateFields.gst_number.toUpperCase()
+        if (!GSTIN_PATTERN.test(updateFields.gst_number)) {
+            return { error: 'GSTIN must be a valid 15 character GST number' }
+        }
+    }
+
+    if (body.credit_days !== undefined) {
+        const creditDays = Number(body.credit_days)
+        if (!Number.isInteger(creditDays) || creditDays < 0) {
+            return { error: 'Credit days must be a whole number of 0 or more' }
+        }
+        updateFields.credit_days = creditDays
+    }
+
+    if (body.credit_limit !== undefined) {
+        const creditLimit = Number(body.credit_limit)
+        if (isNaN(creditLimit) || creditLimit < 0) {
+            return { error: 'Credit limit must be 0 or more' }
+        }
+        updateFields.credit_limit = creditLimit
+    }
+
+    if (body.is_active !== undefined) {
+        updateFields.is_active = Boolean(body.is_active)
+    }
+
+    return { updateFields }
+}
 
 export async function GET(request: NextRequest) {
     try {
@@ -8,6 +67,7 @@ export async function GET(request: NextRequest) {
         
         const { searchParams } = new URL(request.url)
         const search = searchParams.get('search')
+        const includeInactive = searchParams.get('include_inactive') === 'true'
         const page = parseInt(searchParams.get('page') || '1')
         const limit = parseInt(searchParams.get('limit') || '50')
         const offset = (page - 1) * limit
@@ -16,7 +76,10 @@ export async function GET(request: NextRequest) {
         let query = supabase
             .from('suppliers')
             .select('*')
-            .eq('is_active', true)
+
+        if (!includeInactive) {
+            query = query.eq('is_active', true)
+        }
 
         // Add search filter (case insensitive)
         if (search) {
@@ -57,51 +120,51 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
     try {
-        // Get authenticated user and supabase client
-        const { user, supabase } = await getAuthenticatedUser(request)
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'suppliers.manage')
         
         const body = await request.json()
 
-        // Get user's pharmacy ID
-        const { data: userPharmacy } = await supabase
-            .from('user_pharmacies')
-            .select('pharmacy_id')
-            .eq('user_id', user.id)
-            .eq('is_active', true)
-            .single()
-
-        if (!userPharmacy) {
+        // Validate required fields
+        if (!body.name) {
             return NextResponse.json(
-                { error: 'No pharmacy found for user' },
+                { error: 'Supplier name is required' },
                 { status: 400 }
             )
         }
 
-        // Validate required fields
-        if (!body.name) {
+        const { updateFields, error: validationError } = buildSupplierUpdate(body)
+
+        if (validationError || !updateFields) {
             return NextResponse.json(
-                { error: 'Supplier name is required' },
+                { error: validationError },
                 { status: 400 }
             )
         }
 
+        // Check if a supplier with this name already exists
+        const { data: duplicateSupplier } = await supabase
+            .from('suppliers')
+            .select('id')
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .eq('name', updateFields.name)
+            .maybeSingle()
+
+        if (duplicateSupplier) {
+            return NextResponse.json(
+                { error: `A supplier named "${updateFields.name}" already exists` },
+                { status: 409 }
+            )
+        }
+
         // Create new supplier
         const { data: supplier, error } = await supabase
             .from('suppliers')
             .insert({
+                credit_days: 0,
+                credit_limit: 0,
+                ...updateFields,
                 pharmacy_id: userPharmacy.pharmacy_id,
-                name: body.name,
-                contact_person: body.contact_person,
-                phone: body.phone,
-                email: body.email,
-                address: body.address,
-                city: body.city,
-                state: body.state,
-                pincode: body.pincode,
-                gst_number: body.gst_number,
-                drug_license_number: body.drug_license_number,
-                credit_days: body.credit_days || 0,
-                credit_limit: body.credit_limit || 0,
                 is_active: true
             })
             .select()
@@ -118,6 +181,22 @@ export async function POST(request: NextRequest) {
         return NextResponse.json(supplier, { status: 201 })
     } catch (error) {
         console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
         return NextResponse.json(
             { error: 'Failed to create supplier' },
             { status: 500 }
@@ -127,30 +206,34 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
     try {
-        // Get authenticated user and supabase client
-        const { user, supabase } = await getAuthenticatedUser(request)
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'suppliers.manage')
         
         const body = await request.json()
         const { supplier_id, new_name } = body
 
-        if (!supplier_id || !new_name) {
+        if (!supplier_id) {
             return NextResponse.json(
-                { error: 'Supplier ID and new name are required' },
+                { error: 'Supplier ID is required' },
                 { status: 400 }
             )
         }
 
-        // Get user's pharmacy ID
-        const { data: userPharmacy } = await supabase
-            .from('user_pharmacies')
-            .select('pharmacy_id')
-            .eq('user_id', user.id)
-            .eq('is_active', true)
-            .single()
+        // Older clients only send a new name
+        const { updateFields, error: validationError } = buildSupplierUpdate(
+            new_name !== undefined ? { ...body, name: new_name } : body
+        )
+
+        if (validationError || !updateFields) {
+            return NextResponse.json(
+                { error: validationError },
+                { status: 400 }
+            )
+        }
 
-        if (!userPharmacy) {
+        if (Object.keys(updateFields).length === 0) {
             return NextResponse.json(
-                { error: 'No pharmacy found for user' },
+                { error: 'No supplier fields provided to update' },
                 { status: 400 }
             )
         }
@@ -172,10 +255,28 @@ export async function PUT(request: NextRequest) {
 
         const oldName = existingSupplier.name
 
-        // Update the supplier name
+        // Renaming onto another supplier's name should be a merge instead
+        if (typeof updateFields.name === 'string' && updateFields.name !== oldName) {
+            const { data: duplicateSupplier } = await supabase
+                .from('suppliers')
+                .select('id')
+                .eq('pharmacy_id', userPharmacy.pharmacy_id)
+                .eq('name', updateFields.name)
+                .neq('id', supplier_id)
+                .maybeSingle()
+
+            if (duplicateSupplier) {
+                return NextResponse.json(
+                    { error: `A supplier named "${updateFields.name}" already exists. Merge the two suppliers instead.` },
+                    { status: 409 }
+                )
+            }
+        }
+
+        // Update the supplier
         const { data: updatedSupplier, error: updateError } = await supabase
             .from('suppliers')
-            .update({ name: new_name })
+            .update(updateFields)
             .eq('id', supplier_id)
             .select()
             .single()
@@ -188,11 +289,14 @@ export async function PUT(request: NextRequest) {
             )
         }
 
-        console.log(`✅ Supplier updated: "${oldName}" → "${new_name}"`)
+        const renamed = typeof updateFields.name === 'string' && updateFields.name !== oldName
+        console.log(renamed ? `✅ Supplier updated: "${oldName}" → "${updatedSupplier.name}"` : `✅ Supplier updated: "${oldName}"`)
 
         return NextResponse.json({
             supplier: updatedSupplier,
-            message: `Supplier name updated from "${oldName}" to "${new_name}"`
+            message: renamed
+                ? `Supplier name updated from "${oldName}" to "${updatedSupplier.name}"`
+                : `Supplier "${updatedSupplier.name}" updated`
         })
 
     } catch (error) {
@@ -205,10 +309,89 @@ export async function PUT(request: NextRequest) {
                 { status: 401 }
             )
         }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
         
         return NextResponse.json(
             { error: 'Failed to update supplier' },
             { status: 500 }
         )
     }
-} 
\ No newline at end of file
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        // Get authenticated user and check their pharmacy role
+        const { supabase, userPharmacy } = await requirePermission(request, 'suppliers.manage')
+
+        const { searchParams } = new URL(request.url)
+        const supplierId = searchParams.get('supplier_id')
+
+        if (!supplierId) {
+            return NextResponse.json(
+                { error: 'Supplier ID is required' },
+                { status: 400 }
+            )
+        }
+
+        // Suppliers are referenced by purchases, so they are deactivated rather than deleted
+        const { data: supplier, error: updateError } = await supabase
+            .from('suppliers')
+            .update({ is_active: false })
+            .eq('id', supplierId)
+            .eq('pharmacy_id', userPharmacy.pharmacy_id)
+            .select()
+            .maybeSingle()
+
+        if (updateError) {
+            console.error('Supplier deactivate error:', updateError)
+            return NextResponse.json(
+                { error: 'Failed to deactivate supplier' },
+                { status: 500 }
+            )
+        }
+
+        if (!supplier) {
+            return NextResponse.json(
+                { error: 'Supplier not found' },
+                { status: 404 }
+            )
+        }
+
+        console.log(`✅ Supplier deactivated: "${supplier.name}"`)
+
+        return NextResponse.json({
+            supplier,
+            message: `Supplier "${supplier.name}" deactivated`
+        })
+    } catch (error) {
+        console.error('API error:', error)
+
+        // Handle authentication errors
+        if (error instanceof Error && error.message.includes('Authentication')) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            )
+        }
+
+        // Handle permission errors
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 403 }
+            )
+        }
+
+        return NextResponse.json(
+            { error: 'Failed to deactivate supplier' },
+            { status: 500 }
+        )
+    }
+}
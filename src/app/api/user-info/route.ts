@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAuthenticatedUser } from '@/lib/auth/supabase-server'
+import { getAuthenticatedUser, getUserPharmacy } from '@/lib/auth/supabase-server'
+import { PERMISSIONS, hasPermission, type Permission } from '@/lib/auth/permissions'
 
 export async function GET(request: NextRequest) {
     try {
@@ -30,22 +31,11 @@ export async function GET(request: NextRequest) {
             )
         }
 
-        // Get the pharmacy associated with this user
-        const { data: userPharmacy, error: userPharmacyError } = await supabase
-            .from('user_pharmacies')
-            .select(`
-                role,
-                is_active,
-                pharmacy_id,
-                created_at
-            `)
-            .eq('user_id', user.id)
-            .eq('is_active', true)
-            .limit(1)
-            .single()
+        // Get the pharmacy this request acts on
+        const userPharmacy = await getUserPharmacy(request, supabase, user.id)
 
-        if (userPharmacyError || !userPharmacy) {
-            console.error('User-pharmacy relationship error:', userPharmacyError)
+        if (!userPharmacy) {
+            console.error('User-pharmacy relationship not found for user:', user.id)
             return NextResponse.json(
                 { error: 'Pharmacy association not found' },
                 { status: 404 }
@@ -111,7 +101,9 @@ export async function GET(request: NextRequest) {
             user: {
                 ...user,
                 tenure_days: tenureInDays,
-                pharmacy_role: userPharmacy.role
+                pharmacy_role: userPharmacy.role,
+                permissions: (Object.keys(PERMISSIONS) as Permission[])
+                    .filter(permission => hasPermission(userPharmacy.role, permission))
             },
             pharmacy: {
                 ...pharmacy,
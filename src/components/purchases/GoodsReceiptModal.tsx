@@ -0,0 +1,261 @@
+'use client'
+
+import { useState } from 'react'
+import { useAppDispatch } from '@/lib/store'
+import { useCreatePurchaseReceiptMutation, PendingPurchase } from '@/lib/store/api/pharmacyApi'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+
+interface ReceiptRow {
+    purchase_item_id: string
+    medicine_name: string
+    outstanding: number
+    received: string
+    damaged: string
+    needs_batch: boolean // batch, expiry and MRP can only be filled in before any units arrive
+    batch_number: string
+    expiry: string // MM/YY as typed
+    mrp: string
+}
+
+interface GoodsReceiptModalProps {
+    purchase: PendingPurchase
+    onClose: () => void
+}
+
+// Helper function to build one editable row per line that still has goods to come
+function buildRows(purchase: PendingPurchase): ReceiptRow[] {
+    return purchase.purchase_items.flatMap(item => {
+        const outstanding = item.total_quantity - (item.received_quantity || 0) - (item.damaged_quantity || 0)
+        if (outstanding <= 0) return []
+
+        return [{
+            purchase_item_id: item.id,
+            medicine_name: item.medicines?.name || '-',
+            outstanding,
+            received: outstanding.toString(),
+            damaged: '',
+            needs_batch: !item.batch_number || !item.expiry_date,
+            batch_number: item.batch_number || '',
+            expiry: item.expiry_date ? `${item.expiry_date.slice(5, 7)}/${item.expiry_date.slice(2, 4)}` : '',
+            mrp: item.mrp ? item.mrp.toString() : ''
+        }]
+    })
+}
+
+export default function GoodsReceiptModal({ purchase, onClose }: GoodsReceiptModalProps) {
+    const dispatch = useAppDispatch()
+    const [createReceipt, { isLoading: isSaving }] = useCreatePurchaseReceiptMutation()
+
+    const [rows, setRows] = useState<ReceiptRow[]>(() => buildRows(purchase))
+    const [receivedDate, setReceivedDate] = useState(new Date().toISOString().split('T')[0])
+    const [notes, setNotes] = useState('')
+    const [rowErrors, setRowErrors] = useState<Record<number, string>>({})
+
+    const updateRow = (index: number, field: keyof ReceiptRow, value: string) => {
+        const next = [...rows]
+        if (field === 'expiry') {
+            // Format expiry date as MM/YY
+            let cleaned = value.replace(/\D/g, '')
+            if (cleaned.length >= 2) {
+                cleaned = cleaned.slice(0, 2) + '/' + cleaned.slice(2, 4)
+            }
+            next[index] = { ...next[index], expiry: cleaned }
+        } else {
+            next[index] = { ...next[index], [field]: value }
+        }
+        setRows(next)
+
+        if (rowErrors[index]) {
+            const remaining = { ...rowErrors }
+            delete remaining[index]
+            setRowErrors(remaining)
+        }
+    }
+
+    const handleSave = async () => {
+        try {
+            const result = await createReceipt({
+                purchase_id: purchase.id,
+                received_date: receivedDate,
+                notes: notes || undefined,
+                items: rows.map(row => {
+                    const [month, year] = row.expiry.split('/')
+                    return {
+                        purchase_item_id: row.purchase_item_id,
+                        received_quantity: parseInt(row.received) || 0,
+                        damaged_quantity: parseInt(row.damaged) || 0,
+                        batch_number: row.needs_batch ? row.batch_number || undefined : undefined,
+                        expiry_date: row.needs_batch && month && year ? `20${year}-${month}` : undefined,
+                        mrp: row.needs_batch && row.mrp ? parseFloat(row.mrp) : undefined
+                    }
+                })
+            }).unwrap()
+
+            dispatch(addNotification({
+                type: 'success',
+                title: `Goods Received (${result.receipt_number})`,
+                message: result.message
+            }))
+            onClose()
+        } catch (error) {
+            const data = (error as { data?: { error?: string; details?: { index: number; error: string }[] | string } })?.data
+
+            // Highlight the rows the API rejected so they can be fixed in place
+            if (Array.isArray(data?.details) && data.details.length > 0) {
+                const errorsByRow: Record<number, string> = {}
+                data.details.forEach(detail => {
+                    errorsByRow[detail.index] = detail.error
+                })
+                setRowErrors(errorsByRow)
+            }
+
+            dispatch(addNotification({
+                type: 'error',
+                title: 'Goods Not Received',
+                message: data?.error || 'Failed to record goods receipt. Please try again.'
+            }))
+        }
+    }
+
+    const needsBatchColumns = rows.some(row => row.needs_batch)
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-lg w-full max-w-4xl max-h-[90vh] overflow-y-auto p-4 sm:p-6">
+                <h3 className="text-base sm:text-lg font-semibold text-gray-900">Receive Goods: {purchase.invoice_number}</h3>
+                <p className="text-xs sm:text-sm text-gray-600 mb-4">
+                    From {purchase.suppliers?.name || 'supplier'}. Received units are added to stock; damaged units are recorded but not stocked. Leave both at 0 for anything still to come.
+                </p>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-4">
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Received Date</label>
+                        <input
+                            type="date"
+                            value={receivedDate}
+                            onChange={(e) => setReceivedDate(e.target.value)}
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Notes</label>
+                        <input
+                            type="text"
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            placeholder="e.g. 2 strips crushed in transit"
+                            className="w-full px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full table-auto">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Medicine</th>
+                                <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Outstanding</th>
+                                <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Received</th>
+                                <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Damaged</th>
+                                {needsBatchColumns && (
+                                    <>
+                                        <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Batch</th>
+                                        <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">Expiry</th>
+                                        <th className="px-2 py-2 text-left text-xs sm:text-sm font-medium text-gray-700">MRP</th>
+                                    </>
+                                )}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((row, index) => (
+                                <tr key={row.purchase_item_id} className={`border-t border-gray-200 ${rowErrors[index] ? 'bg-red-50' : ''}`}>
+                                    <td className="px-2 py-2 text-xs sm:text-sm text-gray-900">
+                                        {row.medicine_name}
+                                        {rowErrors[index] && (
+                                            <span className="block text-xs text-red-600">{rowErrors[index]}</span>
+                                        )}
+                                    </td>
+                                    <td className="px-2 py-2 text-xs sm:text-sm text-gray-900">{row.outstanding}</td>
+                                    <td className="px-2 py-2">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max={row.outstanding}
+                                            value={row.received}
+                                            onChange={(e) => updateRow(index, 'received', e.target.value)}
+                                            className="w-20 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                        />
+                                    </td>
+                                    <td className="px-2 py-2">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max={row.outstanding}
+                                            value={row.damaged}
+                                            onChange={(e) => updateRow(index, 'damaged', e.target.value)}
+                                            className="w-20 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                        />
+                                    </td>
+                                    {needsBatchColumns && (
+                                        row.needs_batch ? (
+                                            <>
+                                                <td className="px-2 py-2">
+                                                    <input
+                                                        type="text"
+                                                        value={row.batch_number}
+                                                        onChange={(e) => updateRow(index, 'batch_number', e.target.value)}
+                                                        className="w-28 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                                    />
+                                                </td>
+                                                <td className="px-2 py-2">
+                                                    <input
+                                                        type="text"
+                                                        value={row.expiry}
+                                                        onChange={(e) => updateRow(index, 'expiry', e.target.value)}
+                                                        placeholder="MM/YY"
+                                                        maxLength={5}
+                                                        className="w-20 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                                    />
+                                                </td>
+                                                <td className="px-2 py-2">
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        step="0.01"
+                                                        value={row.mrp}
+                                                        onChange={(e) => updateRow(index, 'mrp', e.target.value)}
+                                                        className="w-24 px-2 py-1 text-xs sm:text-sm text-gray-900 border border-gray-300 rounded-md"
+                                                    />
+                                                </td>
+                                            </>
+                                        ) : (
+                                            <td colSpan={3} className="px-2 py-2 text-xs sm:text-sm text-gray-500">
+                                                {row.batch_number} · {row.expiry}
+                                            </td>
+                                        )
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="mt-4 flex justify-end gap-2 sm:gap-3 border-t border-gray-200 pt-4">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || rows.length === 0}
+                        className="px-4 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? 'Saving...' : 'Save Receipt'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
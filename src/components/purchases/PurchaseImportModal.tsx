@@ -0,0 +1,593 @@
+'use client'
+
+import { useState } from 'react'
+import AutocompleteDropdown from '@/components/ui/AutocompleteDropdown'
+import { useAppDispatch } from '@/lib/store'
+import {
+    useCreatePurchaseMutation,
+    useLazyGetImportMappingQuery,
+    useMatchMedicinesMutation,
+    useSaveImportMappingMutation,
+    DuplicatePurchaseError,
+    MedicineMatch
+} from '@/lib/store/api/pharmacyApi'
+import { addNotification } from '@/lib/store/slices/uiSlice'
+import {
+    IMPORT_FIELDS,
+    ColumnMapping,
+    ImportedLine,
+    InvoiceImportField,
+    SheetCell,
+    applySavedMapping,
+    columnHeadings,
+    detectHeaderRow,
+    extractLines,
+    guessColumnMapping,
+    parseExpiry,
+    readInvoiceFile
+} from '@/lib/purchases/invoice-import'
+
+// Rows matched this closely are linked to the catalog medicine without asking
+const AUTO_MATCH_SCORE = 0.9
+
+// Choice value for an item that should be added to the catalog as a new medicine
+const NEW_MEDICINE = '__new__'
+
+interface PreviewRow extends ImportedLine {
+    include: boolean
+    choice: string // catalog medicine name, or NEW_MEDICINE
+    expiry_text: string // MM/YY as shown and edited
+    match?: MedicineMatch
+    server_error?: string
+}
+
+interface PurchaseImportModalProps {
+    onClose: () => void
+}
+
+// Helper function to show YYYY-MM as MM/YY
+function toExpiryText(expiry: string) {
+    const [year, month] = expiry.split('-')
+    return year && month ? `${month}/${year.slice(2)}` : ''
+}
+
+// Helper function to re-check the fields that can be corrected in the preview
+function validateRow(row: PreviewRow): string[] {
+    const errors: string[] = []
+    if (!Number.isInteger(row.quantity) || row.quantity <= 0) errors.push('Quantity must be a whole number greater than 0')
+    if (isNaN(row.rate) || row.rate < 0) errors.push('Rate is missing')
+    if (!row.expiry_date) errors.push(row.expiry_text ? `Expiry "${row.expiry_text}" is not a date` : 'Expiry is missing')
+    return errors
+}
+
+export default function PurchaseImportModal({ onClose }: PurchaseImportModalProps) {
+    const dispatch = useAppDispatch()
+
+    const [step, setStep] = useState<'upload' | 'map' | 'preview'>('upload')
+
+    // Invoice header
+    const [supplierName, setSupplierName] = useState('')
+    const [invoiceNumber, setInvoiceNumber] = useState('')
+    const [purchaseDate, setPurchaseDate] = useState(new Date().toISOString().split('T')[0])
+    const [file, setFile] = useState<File | null>(null)
+
+    // File contents and column mapping
+    const [sheetRows, setSheetRows] = useState<SheetCell[][]>([])
+    const [headerRow, setHeaderRow] = useState(0)
+    const [mapping, setMapping] = useState<ColumnMapping>({})
+    const [usingSavedMapping, setUsingSavedMapping] = useState(false)
+    const [saveMapping, setSaveMapping] = useState(true)
+
+    // Preview
+    const [rows, setRows] = useState<PreviewRow[]>([])
+    const [isReading, setIsReading] = useState(false)
+
+    // RTK Query hooks
+    const [getImportMapping] = useLazyGetImportMappingQuery()
+    const [matchMedicines, { isLoading: isMatching }] = useMatchMedicinesMutation()
+    const [saveImportMapping] = useSaveImportMappingMutation()
+    const [createPurchase, { isLoading: isCreating }] = useCreatePurchaseMutation()
+
+    const headings = columnHeadings(sheetRows, headerRow)
+    const includedRows = rows.filter(row => row.include)
+    const missingFields = IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field])
+
+    const showError = (title: string, message: string) => {
+        dispatch(addNotification({ type: 'error', title, message }))
+    }
+
+    // STEP 1: Read the file and pick up the supplier's saved mapping
+    const handleReadFile = async () => {
+        if (!supplierName.trim() || !file) {
+            showError('Missing Details', 'Enter the supplier and choose the invoice file')
+            return
+        }
+
+        setIsReading(true)
+        try {
+            const fileRows = (await readInvoiceFile(file)).filter(row => row.some(cell => cell !== null && String(cell).trim() !== ''))
+
+            if (fileRows.length < 2) {
+                showError('Empty File', 'No invoice lines were found in this file')
+                return
+            }
+
+            const { mapping: saved } = await getImportMapping(supplierName.trim()).unwrap()
+            const startRow = saved && saved.header_row < fileRows.length ? saved.header_row : detectHeaderRow(fileRows)
+            const fileHeadings = columnHeadings(fileRows, startRow)
+            const savedMapping = saved ? applySavedMapping(fileHeadings, saved.column_mapping) : {}
+
+            setSheetRows(fileRows)
+            setHeaderRow(startRow)
+            setUsingSavedMapping(Object.keys(savedMapping).length > 0)
+            setMapping(Object.keys(savedMapping).length > 0 ? savedMapping : guessColumnMapping(fileHeadings))
+            setStep('map')
+        } catch (error) {
+            console.error('Invoice file read error:', error)
+            showError('Could Not Read File', error instanceof Error ? error.message : 'The file could not be read')
+        } finally {
+            setIsReading(false)
+        }
+    }
+
+    const handleHeaderRowChange = (value: number) => {
+        const nextRow = Math.min(Math.max(value, 0), Math.max(sheetRows.length - 2, 0))
+        setHeaderRow(nextRow)
+        setUsingSavedMapping(false)
+        setMapping(guessColumnMapping(columnHeadings(sheetRows, nextRow)))
+    }
+
+    const handleMappingChange = (field: InvoiceImportField, heading: string) => {
+        const nextMapping = { ...mapping }
+        if (heading) {
+            nextMapping[field] = heading
+        } else {
+            delete nextMapping[field]
+        }
+        setMapping(nextMapping)
+    }
+
+    // STEP 2: Convert rows and match item names to the catalog
+    const handlePreview = async () => {
+        if (missingFields.length > 0) {
+            showError('Columns Not Mapped', `Choose a column for ${missingFields.map(field => field.label).join(', ')}`)
+            return
+        }
+
+        const lines = extractLines(sheetRows, headerRow, headings, mapping)
+        if (lines.length === 0) {
+            showError('No Lines Found', 'No invoice lines were found with this mapping. Check the header row and item name column.')
+            return
+        }
+
+        try {
+            const { matches } = await matchMedicines(lines.map(line => line.medicine_name)).unwrap()
+            const matchByName = new Map(matches.map(match => [match.name.toLowerCase(), match]))
+
+            setRows(lines.map(line => {
+                const match = matchByName.get(line.medicine_name.toLowerCase())
+                const best = match?.suggestions[0]
+                const choice = match?.exact
+                    ? match.exact.name
+                    : best && best.score >= AUTO_MATCH_SCORE ? best.name : NEW_MEDICINE
+
+                return {
+                    ...line,
+                    include: line.errors.length === 0,
+                    choice,
+                    expiry_text: toExpiryText(line.expiry_date),
+                    match
+                }
+            }))
+            setStep('preview')
+        } catch (error) {
+            console.error('Medicine match error:', error)
+            const data = (error as { data?: { error?: string } })?.data
+            showError('Matching Failed', data?.error || 'Could not match items to the medicine list')
+        }
+    }
+
+    const updateRow = (index: number, changes: Partial<PreviewRow>) => {
+        setRows(rows.map((row, i) => {
+            if (i !== index) return row
+
+            const updated = { ...row, ...changes, server_error: undefined }
+            if ('expiry_text' in changes) {
+                // Accept MM/YY while typing, like the purchase entry form
+                const cleaned = (changes.expiry_text || '').replace(/\D/g, '')
+                updated.expiry_text = cleaned.length >= 2 ? `${cleaned.slice(0, 2)}/${cleaned.slice(2, 4)}` : cleaned
+                updated.expiry_date = parseExpiry(updated.expiry_text) || ''
+            }
+            if ('quantity' in changes || 'rate' in changes) {
+                updated.amount = Math.round(updated.quantity * updated.rate * 100) / 100
+            }
+            updated.errors = validateRow(updated)
+            if (updated.errors.length > 0 && !('include' in changes)) updated.include = false
+            return updated
+        }))
+    }
+
+    // STEP 3: Save through the same purchase endpoint as manual entry
+    const handleImport = async (allowLikelyDuplicate = false) => {
+        if (includedRows.length === 0) {
+            showError('Nothing To Import', 'Select at least one valid line')
+            return
+        }
+
+        const supplier = supplierName.trim().toUpperCase()
+
+        try {
+            await createPurchase({
+                supplier_name: supplier,
+                invoice_number: invoiceNumber,
+                date: purchaseDate,
+                allow_likely_duplicate: allowLikelyDuplicate || undefined,
+                items: includedRows.map(row => ({
+                    medicine_name: row.choice === NEW_MEDICINE ? row.medicine_name.toUpperCase() : row.choice,
+                    pack: row.pack || undefined,
+                    quantity: row.quantity,
+                    Free: row.free || undefined,
+                    expiry_date: row.expiry_date,
+                    batch_number: row.batch_number || undefined,
+                    mrp: row.mrp ?? undefined,
+                    rate: row.rate,
+                    discount_percentage: row.discount_percentage || undefined,
+                    tax_percentage: row.tax_percentage ?? undefined,
+                    amount: row.amount
+                }))
+            }).unwrap()
+
+            // The supplier exists now, so the mapping can be stored against it
+            if (saveMapping) {
+                try {
+                    await saveImportMapping({ supplier_name: supplier, header_row: headerRow, column_mapping: mapping }).unwrap()
+                } catch (error) {
+                    console.error('Import mapping save error:', error)
+                }
+            }
+
+            dispatch(addNotification({
+                type: 'success',
+                title: 'Invoice Imported',
+                message: `${includedRows.length} lines from ${supplier} saved as a purchase`
+            }))
+            onClose()
+        } catch (error) {
+            const data = (error as { data?: { error?: string; details?: { index: number; error: string }[] | string } & Partial<DuplicatePurchaseError> })?.data
+
+            // The invoice looks like one already entered: import anyway only if the user confirms
+            if (data?.requires_confirmation && data.duplicates) {
+                const reasons = data.duplicates.map(match => `• ${match.reason}`).join('\n')
+                if (confirm(`${data.error}:\n${reasons}\n\nImport this invoice anyway?`)) {
+                    return handleImport(true)
+                }
+                return
+            }
+
+            // Errors are reported by position among the lines that were sent
+            if (Array.isArray(data?.details) && data.details.length > 0) {
+                const sentRows = includedRows.map(row => row.row)
+                const errorsByRow = new Map<number, string>()
+                data.details.forEach(detail => {
+                    const fileRow = sentRows[detail.index]
+                    errorsByRow.set(fileRow, errorsByRow.has(fileRow) ? `${errorsByRow.get(fileRow)}; ${detail.error}` : detail.error)
+                })
+                setRows(rows.map(row => errorsByRow.has(row.row) ? { ...row, server_error: errorsByRow.get(row.row) } : row))
+
+                showError(data.error || 'Purchase not saved', 'Please fix the highlighted lines and try again.')
+                return
+            }
+
+            showError('Error', data?.error || 'Failed to save purchase. Please try again.')
+        }
+    }
+
+    const totalAmount = includedRows.reduce((sum, row) => sum + row.amount, 0)
+
+    return (
+        <div className="fixed inset-0 bg-white/30 backdrop-blur-sm flex items-center justify-center z-50 p-2 sm:p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl max-h-[95vh] sm:max-h-[90vh] overflow-y-auto">
+                {/* Modal Header */}
+                <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+                    <div>
+                        <h2 className="text-lg sm:text-xl font-semibold text-gray-900">Import Invoice File</h2>
+                        <p className="text-xs sm:text-sm text-gray-500">
+                            {step === 'upload' ? 'Step 1 of 3: Choose the file' : step === 'map' ? 'Step 2 of 3: Match the columns' : 'Step 3 of 3: Check the lines'}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 transition-colors flex-shrink-0 ml-2"
+                    >
+                        <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="p-4 sm:p-6">
+                    {/* Upload */}
+                    {step === 'upload' && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 p-3 sm:p-4 bg-gray-50 rounded-lg">
+                            <div>
+                                <label className="block text-xs sm:text-sm font-bold text-black mb-1">Supplier Name *</label>
+                                <AutocompleteDropdown
+                                    fieldType="supplier_name"
+                                    value={supplierName}
+                                    onChange={setSupplierName}
+                                    placeholder="Enter supplier name"
+                                    required
+                                    className="text-black text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs sm:text-sm font-bold text-black mb-1">Invoice Number</label>
+                                <input
+                                    type="text"
+                                    value={invoiceNumber}
+                                    onChange={(e) => setInvoiceNumber(e.target.value)}
+                                    className="w-full text-black px-2 sm:px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    placeholder="Invoice Number"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs sm:text-sm font-bold text-black mb-1">Purchase Date *</label>
+                                <input
+                                    type="date"
+                                    required
+                                    value={purchaseDate}
+                                    onChange={(e) => setPurchaseDate(e.target.value)}
+                                    className="w-full text-black px-2 sm:px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs sm:text-sm font-bold text-black mb-1">Invoice File (.csv or .xlsx) *</label>
+                                <input
+                                    type="file"
+                                    accept=".csv,.txt,.xlsx"
+                                    onChange={(e) => setFile(e.target.files?.[0] || null)}
+                                    className="w-full text-sm text-gray-900 file:mr-3 file:px-3 file:py-1.5 file:border-0 file:rounded-md file:bg-blue-50 file:text-blue-700"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Column Mapping */}
+                    {step === 'map' && (
+                        <div className="space-y-4">
+                            {usingSavedMapping && (
+                                <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-xs sm:text-sm text-green-800">
+                                    Using the column mapping saved for {supplierName.toUpperCase()}. Check it still fits this file.
+                                </div>
+                            )}
+
+                            <div className="flex items-center gap-3">
+                                <label className="text-xs sm:text-sm font-medium text-gray-700">Headings are on row</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={headerRow + 1}
+                                    onChange={(e) => handleHeaderRowChange((parseInt(e.target.value) || 1) - 1)}
+                                    className="w-20 px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-md"
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+                                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                                    <div key={field}>
+                                        <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">{label}{required && ' *'}</label>
+                                        <select
+                                            value={mapping[field] || ''}
+                                            onChange={(e) => handleMappingChange(field, e.target.value)}
+                                            className={`w-full px-2 py-1.5 text-sm text-gray-900 border rounded-md ${required && !mapping[field] ? 'border-red-400' : 'border-gray-300'}`}
+                                        >
+                                            <option value="">Not in file</option>
+                                            {headings.map((heading) => (
+                                                <option key={heading} value={heading}>{heading}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {/* First rows of the file with the mapping applied */}
+                            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                                <table className="min-w-full">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            {headings.map((heading) => {
+                                                const field = IMPORT_FIELDS.find(({ field }) => mapping[field] === heading)
+                                                return (
+                                                    <th key={heading} className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 whitespace-nowrap">
+                                                        {heading}
+                                                        {field && <span className="block text-blue-600 font-normal">→ {field.label}</span>}
+                                                    </th>
+                                                )
+                                            })}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200">
+                                        {sheetRows.slice(headerRow + 1, headerRow + 6).map((row, rowIndex) => (
+                                            <tr key={rowIndex}>
+                                                {headings.map((heading, index) => {
+                                                    const cell = row[index]
+                                                    return (
+                                                        <td key={heading} className="px-2 py-1.5 text-xs text-gray-700 whitespace-nowrap">
+                                                            {cell instanceof Date ? cell.toLocaleDateString('en-IN') : cell === null || cell === undefined ? '' : String(cell)}
+                                                        </td>
+                                                    )
+                                                })}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={saveMapping}
+                                    onChange={(e) => setSaveMapping(e.target.checked)}
+                                />
+                                Remember this mapping for {supplierName.toUpperCase()}
+                            </label>
+                        </div>
+                    )}
+
+                    {/* Preview */}
+                    {step === 'preview' && (
+                        <div className="space-y-3">
+                            <div className="text-xs sm:text-sm text-gray-600">
+                                {rows.length} lines read • {rows.filter(row => row.match?.exact).length} matched •{' '}
+                                {rows.filter(row => !row.match?.exact && row.choice !== NEW_MEDICINE).length} matched by similar name •{' '}
+                                {rows.filter(row => row.choice === NEW_MEDICINE).length} new medicines •{' '}
+                                <span className={rows.some(row => row.errors.length > 0) ? 'text-red-600' : ''}>
+                                    {rows.filter(row => row.errors.length > 0).length} need fixing
+                                </span>
+                            </div>
+
+                            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                                <table className="min-w-full">
+                                    <thead className="bg-gray-50 border-b border-gray-400">
+                                        <tr>
+                                            <th className="px-2 py-2"></th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Row</th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Item in File</th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Medicine</th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Batch</th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Expiry</th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Qty</th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Free</th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">MRP</th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Rate</th>
+                                            <th className="px-2 py-2 text-left text-[10px] sm:text-xs font-semibold text-gray-900 uppercase whitespace-nowrap">Amount</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200">
+                                        {rows.map((row, index) => {
+                                            const problem = row.server_error || row.errors.join('; ')
+                                            return (
+                                                <tr key={row.row} className={problem ? 'bg-red-50' : row.include ? 'bg-white' : 'bg-gray-50 text-gray-400'}>
+                                                    <td className="px-2 py-1.5 text-center">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={row.include}
+                                                            disabled={row.errors.length > 0}
+                                                            onChange={(e) => updateRow(index, { include: e.target.checked })}
+                                                        />
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-xs text-gray-500">
+                                                        {row.row}
+                                                        {problem && <span className="block text-red-600 cursor-help" title={problem}>⚠️</span>}
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-xs text-gray-900">
+                                                        {row.medicine_name}
+                                                        {row.pack && <span className="block text-gray-500">{row.pack}</span>}
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-xs">
+                                                        {row.match?.exact ? (
+                                                            <span className="text-green-700">✓ {row.match.exact.name}</span>
+                                                        ) : (
+                                                            <select
+                                                                value={row.choice}
+                                                                onChange={(e) => updateRow(index, { choice: e.target.value })}
+                                                                className={`w-full min-w-[180px] px-1.5 py-1 text-xs text-gray-900 border rounded ${row.choice === NEW_MEDICINE ? 'border-yellow-400' : 'border-gray-300'}`}
+                                                            >
+                                                                {row.match?.suggestions.map((suggestion) => (
+                                                                    <option key={suggestion.id} value={suggestion.name}>
+                                                                        {suggestion.name}{suggestion.manufacturer ? ` (${suggestion.manufacturer})` : ''} – {Math.round(suggestion.score * 100)}% match
+                                                                    </option>
+                                                                ))}
+                                                                <option value={NEW_MEDICINE}>New medicine: {row.medicine_name.toUpperCase()}</option>
+                                                            </select>
+                                                        )}
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-xs text-gray-900">{row.batch_number || <span className="text-gray-400">Auto</span>}</td>
+                                                    <td className="px-2 py-1.5">
+                                                        <input
+                                                            type="text"
+                                                            value={row.expiry_text}
+                                                            onChange={(e) => updateRow(index, { expiry_text: e.target.value })}
+                                                            className={`w-16 px-1.5 py-1 text-xs text-gray-900 border rounded ${row.expiry_date ? 'border-gray-300' : 'border-red-400'}`}
+                                                            placeholder="MM/YY"
+                                                        />
+                                                    </td>
+                                                    <td className="px-2 py-1.5">
+                                                        <input
+                                                            type="number"
+                                                            value={row.quantity || ''}
+                                                            onChange={(e) => updateRow(index, { quantity: Number(e.target.value) })}
+                                                            className="w-16 px-1.5 py-1 text-xs text-gray-900 border border-gray-300 rounded"
+                                                        />
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-xs text-gray-900">{row.free || '-'}</td>
+                                                    <td className="px-2 py-1.5 text-xs text-gray-900">{row.mrp !== null ? `₹${row.mrp.toFixed(2)}` : '-'}</td>
+                                                    <td className="px-2 py-1.5">
+                                                        <input
+                                                            type="number"
+                                                            step="0.01"
+                                                            value={row.rate}
+                                                            onChange={(e) => updateRow(index, { rate: Number(e.target.value) })}
+                                                            className="w-20 px-1.5 py-1 text-xs text-gray-900 border border-gray-300 rounded"
+                                                        />
+                                                    </td>
+                                                    <td className="px-2 py-1.5 text-xs text-gray-900 whitespace-nowrap">₹{row.amount.toFixed(2)}</td>
+                                                </tr>
+                                            )
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <div className="flex justify-end">
+                                <div className="bg-blue-50 px-3 sm:px-4 py-2 rounded-lg">
+                                    <span className="text-xs sm:text-sm font-medium text-blue-800">
+                                        {includedRows.length} lines • Total Amount: ₹{totalAmount.toFixed(2)}
+                                    </span>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Modal Footer */}
+                <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-end gap-2 sm:gap-3 p-4 sm:p-6 border-t border-gray-200 sticky bottom-0 bg-white">
+                    <button
+                        type="button"
+                        onClick={step === 'upload' ? onClose : () => setStep(step === 'preview' ? 'map' : 'upload')}
+                        className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors order-2 sm:order-1"
+                    >
+                        {step === 'upload' ? 'Cancel' : 'Back'}
+                    </button>
+                    {step === 'upload' && (
+                        <button
+                            onClick={handleReadFile}
+                            disabled={isReading || !file || !supplierName.trim()}
+                            className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                        >
+                            {isReading ? 'Reading...' : 'Next'}
+                        </button>
+                    )}
+                    {step === 'map' && (
+                        <button
+                            onClick={handlePreview}
+                            disabled={isMatching || missingFields.length > 0}
+                            className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                        >
+                            {isMatching ? 'Matching medicines...' : 'Preview Lines'}
+                        </button>
+                    )}
+                    {step === 'preview' && (
+                        <button
+                            onClick={() => handleImport()}
+                            disabled={isCreating || includedRows.length === 0}
+                            className="w-full sm:w-auto px-4 py-2 text-sm sm:text-base bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 order-1 sm:order-2"
+                        >
+                            {isCreating ? 'Saving...' : `Save Purchase (${includedRows.length} lines)`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
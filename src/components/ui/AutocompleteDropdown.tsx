@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { createPortal } from 'react-dom'
 import { supabase } from '@/lib/supabase'
+import { withActivePharmacy } from '@/lib/auth/active-pharmacy'
 
 // Type definitions
 export type FieldType = 'medicine_name' | 'supplier_name' | 'batch_number'
@@ -85,9 +86,9 @@ function useAutocompleteData(fieldType: FieldType, query: string) {
             
             // Get auth token for the request
             const { data: { session } } = await supabase.auth.getSession()
-            const headers: HeadersInit = {
+            const headers: HeadersInit = withActivePharmacy({
                 'Content-Type': 'application/json',
-            }
+            })
             
             if (session?.access_token) {
                 headers['Authorization'] = `Bearer ${session.access_token}`
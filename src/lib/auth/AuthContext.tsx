@@ -3,11 +3,25 @@
 import { createContext, useContext, useEffect, useState } from 'react'
 import { User, Session } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
+import { PharmacyRole, Permission, hasPermission, isPharmacyRole } from './permissions'
+import { getActivePharmacyId, setActivePharmacyId } from './active-pharmacy'
+
+export interface PharmacyMembership {
+    pharmacy_id: string
+    role: PharmacyRole
+    name: string
+    city: string | null
+}
 
 interface AuthContextType {
     user: User | null
     session: Session | null
     loading: boolean
+    pharmacies: PharmacyMembership[]
+    activePharmacyId: string | null
+    switchPharmacy: (pharmacyId: string) => void
+    role: PharmacyRole | null
+    can: (permission: Permission) => boolean
     signOut: () => Promise<void>
 }
 
@@ -15,6 +29,11 @@ const AuthContext = createContext<AuthContextType>({
     user: null,
     session: null,
     loading: true,
+    pharmacies: [],
+    activePharmacyId: null,
+    switchPharmacy: () => {},
+    role: null,
+    can: () => false,
     signOut: async () => {},
 })
 
@@ -34,6 +53,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     const [user, setUser] = useState<User | null>(null)
     const [session, setSession] = useState<Session | null>(null)
     const [loading, setLoading] = useState(true)
+    const [pharmacies, setPharmacies] = useState<PharmacyMembership[]>([])
+    const [activePharmacyId, setActivePharmacyIdState] = useState<string | null>(null)
 
     useEffect(() => {
         // Get initial session
@@ -63,17 +84,78 @@ export function AuthProvider({ children }: AuthProviderProps) {
         return () => subscription.unsubscribe()
     }, [])
 
+    // Load the pharmacies the user belongs to and pick the active one
+    const userId = user?.id
+    useEffect(() => {
+        if (!userId) {
+            setPharmacies([])
+            setActivePharmacyIdState(null)
+            return
+        }
+
+        const getPharmacies = async () => {
+            const { data, error } = await supabase
+                .from('user_pharmacies')
+                .select('pharmacy_id, role, pharmacies(name, city)')
+                .eq('user_id', userId)
+                .eq('is_active', true)
+                .order('created_at', { ascending: true })
+
+            if (error) {
+                console.error('Error getting pharmacies:', error)
+            }
+
+            const memberships = (data || [])
+                .filter(membership => isPharmacyRole(membership.role))
+                .map(membership => {
+                    const pharmacy = membership.pharmacies as unknown as { name: string; city: string | null } | null
+                    return {
+                        pharmacy_id: membership.pharmacy_id,
+                        role: membership.role as PharmacyRole,
+                        name: pharmacy?.name || 'Pharmacy',
+                        city: pharmacy?.city || null
+                    }
+                })
+
+            // Keep this session's choice while the user still has access to it
+            const storedId = getActivePharmacyId()
+            const activeId = memberships.some(membership => membership.pharmacy_id === storedId)
+                ? storedId
+                : memberships[0]?.pharmacy_id || null
+
+            setActivePharmacyId(activeId)
+            setPharmacies(memberships)
+            setActivePharmacyIdState(activeId)
+        }
+
+        getPharmacies()
+    }, [userId])
+
+    const switchPharmacy = (pharmacyId: string) => {
+        setActivePharmacyId(pharmacyId)
+        setActivePharmacyIdState(pharmacyId)
+    }
+
     const signOut = async () => {
         const { error } = await supabase.auth.signOut()
         if (error) {
             console.error('Error signing out:', error)
         }
+        setActivePharmacyId(null)
     }
 
+    const role = pharmacies.find(pharmacy => pharmacy.pharmacy_id === activePharmacyId)?.role || null
+    const can = (permission: Permission) => hasPermission(role, permission)
+
     const value = {
         user,
         session,
         loading,
+        pharmacies,
+        activePharmacyId,
+        switchPharmacy,
+        role,
+        can,
         signOut,
     }
 
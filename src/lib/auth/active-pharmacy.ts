@@ -0,0 +1,30 @@
+/**
+ * Active pharmacy for users who belong to more than one pharmacy
+ * The admin layout stores the choice for the browser session and every API request sends it as a header
+ */
+
+export const ACTIVE_PHARMACY_HEADER = 'x-pharmacy-id'
+
+const STORAGE_KEY = 'activePharmacyId'
+
+export function getActivePharmacyId(): string | null {
+    if (typeof window === 'undefined') return null
+    return window.sessionStorage.getItem(STORAGE_KEY)
+}
+
+export function setActivePharmacyId(pharmacyId: string | null) {
+    if (typeof window === 'undefined') return
+    if (pharmacyId) {
+        window.sessionStorage.setItem(STORAGE_KEY, pharmacyId)
+    } else {
+        window.sessionStorage.removeItem(STORAGE_KEY)
+    }
+}
+
+/**
+ * Adds the active pharmacy header to request headers, if one has been chosen
+ */
+export function withActivePharmacy(headers: Record<string, string>): Record<string, string> {
+    const pharmacyId = getActivePharmacyId()
+    return pharmacyId ? { ...headers, [ACTIVE_PHARMACY_HEADER]: pharmacyId } : headers
+}
@@ -0,0 +1,87 @@
+/**
+ * Role based permissions for a user's pharmacy (user_pharmacies.role)
+ * Shared by API routes (via requirePermission) and the admin UI (via useAuth().can)
+ */
+
+export type PharmacyRole = 'owner' | 'manager' | 'pharmacist' | 'staff'
+
+export const PHARMACY_ROLES: PharmacyRole[] = ['owner', 'manager', 'pharmacist', 'staff']
+
+// Higher rank includes everything a lower rank can do
+const ROLE_RANK: Record<PharmacyRole, number> = {
+    staff: 0,
+    pharmacist: 1,
+    manager: 2,
+    owner: 3
+}
+
+/**
+ * Minimum role for each protected action.
+ * Destructive and financial actions need a manager or owner.
+ */
+export const PERMISSIONS = {
+    'purchases.edit': 'manager',
+    'purchases.delete': 'manager',
+    'purchases.receive': 'pharmacist',
+    'purchases.verify': 'manager',
+    'purchase_orders.manage': 'pharmacist',
+    'purchase_returns.create': 'manager',
+    'supplier_payments.manage': 'manager',
+    'suppliers.manage': 'manager',
+    'suppliers.merge': 'manager',
+    'medicines.edit': 'pharmacist',
+    'medicines.merge': 'manager',
+    'inventory.adjust': 'manager',
+    'stock_transfers.dispatch': 'manager',
+    'stock_transfers.receive': 'pharmacist',
+    'stock_destructions.create': 'manager',
+    'reports.gst': 'manager',
+    'settings.manage': 'manager',
+    'data.cleanup': 'manager',
+    'staff.manage': 'owner'
+} satisfies Record<string, PharmacyRole>
+
+export type Permission = keyof typeof PERMISSIONS
+
+// Short descriptions used in "not allowed" messages
+const PERMISSION_LABELS: Record<Permission, string> = {
+    'purchases.edit': 'edit purchases',
+    'purchases.delete': 'delete purchases',
+    'purchases.receive': 'receive goods against purchases',
+    'purchases.verify': 'verify purchases against supplier invoices',
+    'purchase_orders.manage': 'raise, send or cancel purchase orders',
+    'purchase_returns.create': 'create purchase returns',
+    'supplier_payments.manage': 'record or reverse supplier payments',
+    'suppliers.manage': 'change supplier details',
+    'suppliers.merge': 'merge suppliers',
+    'medicines.edit': 'edit the medicine master',
+    'medicines.merge': 'merge medicines',
+    'inventory.adjust': 'adjust stock',
+    'stock_transfers.dispatch': 'send or cancel stock transfers',
+    'stock_transfers.receive': 'receive stock transfers',
+    'stock_destructions.create': 'write off expired stock',
+    'reports.gst': 'view GST reports',
+    'settings.manage': 'change pharmacy settings',
+    'data.cleanup': 'run the expired data cleanup',
+    'staff.manage': 'invite staff or change their access'
+}
+
+export function isPharmacyRole(role: unknown): role is PharmacyRole {
+    return typeof role === 'string' && role in ROLE_RANK
+}
+
+/**
+ * Whether a role may perform an action. Unknown or missing roles get nothing.
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+    if (!isPharmacyRole(role)) return false
+    return ROLE_RANK[role] >= ROLE_RANK[PERMISSIONS[permission]]
+}
+
+/**
+ * Message shown when a role is missing a permission
+ */
+export function describeMissingPermission(role: string | null | undefined, permission: Permission): string {
+    const required = PERMISSIONS[permission] as PharmacyRole
+    return `Only a ${required}${required === 'owner' ? '' : ' or above'} can ${PERMISSION_LABELS[permission]}${role ? ` (your role: ${role})` : ''}`
+}
@@ -1,11 +1,30 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import { NextRequest } from 'next/server'
+import { describeMissingPermission, hasPermission, type Permission, type PharmacyRole } from './permissions'
+import { ACTIVE_PHARMACY_HEADER } from './active-pharmacy'
+
+export interface UserPharmacy {
+    pharmacy_id: string
+    role: PharmacyRole
+}
+
+/**
+ * Thrown when an authenticated user's pharmacy role does not allow an action.
+ * Routes turn this into a 403 response.
+ */
+export class PermissionError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'PermissionError'
+    }
+}
 
 /**
  * Creates an authenticated Supabase client for server-side API routes
  * This client will respect RLS policies based on the authenticated user
+ * and the active pharmacy (the request's x-pharmacy-id header, or pharmacyId when given)
  */
-export function createAuthenticatedSupabaseClient(request: NextRequest) {
+export function createAuthenticatedSupabaseClient(request: NextRequest, pharmacyId?: string) {
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
     const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
     
@@ -16,11 +35,15 @@ export function createAuthenticatedSupabaseClient(request: NextRequest) {
         throw new Error('No authorization header found')
     }
 
+    // Forward the active pharmacy so get_user_pharmacy_id() scopes RLS to it
+    const activePharmacyId = pharmacyId || request.headers.get(ACTIVE_PHARMACY_HEADER)
+
     // Create Supabase client with the user's session token
     const supabase = createClient(supabaseUrl, supabaseAnonKey, {
         global: {
             headers: {
                 Authorization: authorization,
+                ...(activePharmacyId ? { [ACTIVE_PHARMACY_HEADER]: activePharmacyId } : {}),
             },
         },
     })
@@ -47,19 +70,58 @@ export async function getAuthenticatedUser(request: NextRequest) {
 }
 
 /**
- * Gets the user's pharmacy ID
+ * Gets every pharmacy the user has active access to, oldest membership first
  */
-export async function getUserPharmacyId(supabase: any, userId: string): Promise<string | null> {
+export async function getUserPharmacies(supabase: SupabaseClient, userId: string): Promise<UserPharmacy[]> {
     const { data, error } = await supabase
         .from('user_pharmacies')
-        .select('pharmacy_id')
+        .select('pharmacy_id, role')
         .eq('user_id', userId)
         .eq('is_active', true)
-        .single()
-    
+        .order('created_at', { ascending: true })
+
     if (error || !data) {
-        return null
+        return []
     }
-    
-    return data.pharmacy_id
+
+    return data
+}
+
+/**
+ * Gets the pharmacy a request acts on: the one selected in the x-pharmacy-id header
+ * when the user belongs to it, otherwise the user's first pharmacy
+ */
+export async function getUserPharmacy(request: NextRequest, supabase: SupabaseClient, userId: string): Promise<UserPharmacy | null> {
+    const memberships = await getUserPharmacies(supabase, userId)
+    const requestedId = request.headers.get(ACTIVE_PHARMACY_HEADER)
+
+    return memberships.find(membership => membership.pharmacy_id === requestedId) || memberships[0] || null
+}
+
+/**
+ * Gets the user's active pharmacy ID
+ */
+export async function getUserPharmacyId(request: NextRequest, supabase: SupabaseClient, userId: string): Promise<string | null> {
+    const userPharmacy = await getUserPharmacy(request, supabase, userId)
+    return userPharmacy?.pharmacy_id || null
+}
+
+/**
+ * Gets the authenticated user and checks their pharmacy role allows an action
+ * Returns the user's active pharmacy membership alongside the client
+ */
+export async function requirePermission(request: NextRequest, permission: Permission) {
+    const { user, supabase } = await getAuthenticatedUser(request)
+
+    const userPharmacy = await getUserPharmacy(request, supabase, user.id)
+
+    if (!userPharmacy) {
+        throw new PermissionError('No pharmacy found for user')
+    }
+
+    if (!hasPermission(userPharmacy.role, permission)) {
+        throw new PermissionError(describeMissingPermission(userPharmacy.role, permission))
+    }
+
+    return { user, supabase, userPharmacy }
 }
@@ -0,0 +1,26 @@
+/**
+ * Authentication for scheduled job requests
+ * Vercel Cron sends "Authorization: Bearer <CRON_SECRET>"; any other scheduler must send the same header
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { NextRequest } from 'next/server'
+
+/**
+ * Whether a request carries the cron secret. Always false when CRON_SECRET
+ * is not configured, so scheduled endpoints stay closed until it is set.
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+    const secret = process.env.CRON_SECRET
+
+    if (!secret) {
+        console.error('❌ CRON_SECRET is not set; refusing scheduled job request')
+        return false
+    }
+
+    const expected = Buffer.from(`Bearer ${secret}`)
+    const received = Buffer.from(request.headers.get('authorization') || '')
+
+    // Compare in constant time so the secret cannot be guessed byte by byte
+    return received.length === expected.length && timingSafeEqual(received, expected)
+}
@@ -1,16 +1,38 @@
 /**
  * Shared cleanup logic for expired medicines
  * Used by both the cron job and the API route
+ *
+ * Each pharmacy keeps batches for its own retention period (pharmacy_settings.cleanup_retention_years).
+ * A dry run lists what would be removed; archive mode copies every removed row to archived_records
+ * first (see database/cleanup_archive.sql).
  */
 
 import { SupabaseClient } from '@supabase/supabase-js'
+// Relative import: this file is also compiled by the standalone script in /cron
+import { loadPharmacySettings } from '../settings/pharmacy-settings'
 
+export type CleanupMode = 'dry_run' | 'archive' | 'delete'
+
+export const CLEANUP_MODES: CleanupMode[] = ['dry_run', 'archive', 'delete']
+
+// One purchased batch that the cleanup removes (or would remove, in a dry run)
 export interface ExpiredBatch {
+    purchase_item_id: string
+    purchase_id: string
+    invoice_number: string | null
+    purchase_date: string | null
+    supplier_name: string | null
     medicine_id: string
+    medicine_name: string | null
     batch_number: string
     expiry_date: string
-    medicine_name?: string
-    purchase_id: string
+    quantity: number
+    purchase_value: number
+    current_stock: number
+    stock_value: number
+    inventory_rows: number
+    stock_transaction_rows: number
+    removes_purchase: boolean
 }
 
 export interface DeletionStats {
@@ -20,24 +42,50 @@ export interface DeletionStats {
     purchases: number
 }
 
+export interface PharmacyCleanup {
+    pharmacy_id: string
+    retention_years: number
+    cutoffDate: string
+    batchesProcessed: number
+    stats: DeletionStats
+    purchase_value: number
+    archived: number
+    archive_id: string | null
+}
+
 export interface CleanupResult {
     success: boolean
     message: string
-    cutoffDate: string
+    mode: CleanupMode
+    cutoffDate: string | null // null when pharmacies with different retention periods were cleaned
     batchesProcessed: number
     stats: DeletionStats
+    purchase_value: number
+    archived: number
+    pharmacies: PharmacyCleanup[]
+    batches?: ExpiredBatch[] // dry run only
     error?: string
 }
 
+interface CleanupOptions {
+    mode?: CleanupMode
+    userId?: string // recorded as archived_by
+}
+
+const EMPTY_STATS: DeletionStats = {
+    current_inventory: 0,
+    stock_transactions: 0,
+    purchase_items: 0,
+    purchases: 0
+}
+
 /**
- * Calculate the cutoff date (N years before current year's January 1st)
- * Default is 2 years if not specified in environment
+ * Calculate the cutoff date (January 1st, N years before the current year)
+ * Batches that expired before this date are cleaned up
  */
-export function calculateCutoffDate(): Date {
-    const retentionYears = parseInt(process.env.CLEANUP_RETENTION_YEARS || '4', 10)
-    const currentYear = new Date().getFullYear()
-    const cutoffYear = currentYear - retentionYears
-    return new Date(cutoffYear, 0, 1) // January 1st, N years ago
+export function calculateCutoffDate(retentionYears: number): Date {
+    const cutoffYear = new Date().getFullYear() - retentionYears
+    return new Date(Date.UTC(cutoffYear, 0, 1)) // January 1st, N years ago
 }
 
 /**
@@ -48,258 +96,181 @@ export function formatDate(date: Date): string {
 }
 
 /**
- * Fetch all expired purchase items that are 2+ years old
+ * List the batches a cleanup with this cutoff would remove, with their value
  */
-async function fetchExpiredBatches(supabase: SupabaseClient, cutoffDate: Date): Promise<ExpiredBatch[]> {
-    const { data, error } = await supabase
-        .from('purchase_items')
-        .select(`
-            medicine_id,
-            batch_number,
-            expiry_date,
-            purchase_id,
-            medicines:medicine_id (
-                name
-            )
-        `)
-        .lt('expiry_date', formatDate(cutoffDate))
-        .order('expiry_date', { ascending: true })
-    
+async function previewPharmacy(supabase: SupabaseClient, pharmacyId: string, cutoffDate: string): Promise<ExpiredBatch[]> {
+    const { data, error } = await supabase.rpc('preview_expired_cleanup', {
+        p_pharmacy_id: pharmacyId,
+        p_cutoff: cutoffDate
+    })
+
     if (error) {
-        throw new Error(`Error fetching expired batches: ${error.message}`)
+        throw new Error(`Error listing expired batches: ${error.message}`)
     }
-    
-    const batches: ExpiredBatch[] = (data || []).map((item: any) => ({
-        medicine_id: item.medicine_id,
-        batch_number: item.batch_number,
-        expiry_date: item.expiry_date,
-        purchase_id: item.purchase_id,
-        medicine_name: item.medicines?.name || 'Unknown'
+
+    // DECIMAL columns come back as strings
+    return ((data || []) as ExpiredBatch[]).map(batch => ({
+        ...batch,
+        purchase_value: Number(batch.purchase_value) || 0,
+        stock_value: Number(batch.stock_value) || 0
     }))
-    
-    return batches
 }
 
 /**
- * Delete records from current_inventory table
+ * Preview or clean up one pharmacy using its own retention period
  */
-async function deleteCurrentInventory(supabase: SupabaseClient, batch: ExpiredBatch): Promise<number> {
-    const { count, error } = await supabase
-        .from('current_inventory')
-        .delete({ count: 'exact' })
-        .eq('medicine_id', batch.medicine_id)
-        .eq('batch_number', batch.batch_number)
-        .eq('expiry_date', batch.expiry_date)
-    
-    if (error) {
-        // If table doesn't exist, skip it gracefully
-        if (error.code === 'PGRST205' || error.message.includes('Could not find the table')) {
-            return 0
-        }
-        throw new Error(`Error deleting current_inventory: ${error.message}`)
-    }
-    
-    return count || 0
-}
+async function cleanupPharmacy(
+    supabase: SupabaseClient,
+    pharmacyId: string,
+    mode: CleanupMode,
+    userId?: string
+): Promise<{ summary: PharmacyCleanup; batches: ExpiredBatch[] }> {
+    const { cleanup_retention_years: retentionYears } = await loadPharmacySettings(supabase, pharmacyId)
+    const cutoffDate = formatDate(calculateCutoffDate(retentionYears))
 
-/**
- * Delete records from stock_transactions table
- */
-async function deleteStockTransactions(supabase: SupabaseClient, batch: ExpiredBatch): Promise<number> {
-    const { count, error } = await supabase
-        .from('stock_transactions')
-        .delete({ count: 'exact' })
-        .eq('medicine_id', batch.medicine_id)
-        .eq('batch_number', batch.batch_number)
-        .eq('expiry_date', batch.expiry_date)
-    
-    if (error) {
-        // If table doesn't exist, skip it gracefully
-        if (error.code === 'PGRST205' || error.message.includes('Could not find the table')) {
-            return 0
-        }
-        throw new Error(`Error deleting stock_transactions: ${error.message}`)
-    }
-    
-    return count || 0
-}
+    const batches = await previewPharmacy(supabase, pharmacyId, cutoffDate)
+    const purchaseValue = batches.reduce((sum, batch) => sum + batch.purchase_value, 0)
 
-/**
- * Delete records from purchase_items table
- */
-async function deletePurchaseItems(supabase: SupabaseClient, batch: ExpiredBatch): Promise<number> {
-    const { count, error } = await supabase
-        .from('purchase_items')
-        .delete({ count: 'exact' })
-        .eq('medicine_id', batch.medicine_id)
-        .eq('batch_number', batch.batch_number)
-        .eq('expiry_date', batch.expiry_date)
-    
-    if (error) {
-        throw new Error(`Error deleting purchase_items: ${error.message}`)
+    const summary: PharmacyCleanup = {
+        pharmacy_id: pharmacyId,
+        retention_years: retentionYears,
+        cutoffDate,
+        batchesProcessed: batches.length,
+        stats: {
+            current_inventory: batches.reduce((sum, batch) => sum + batch.inventory_rows, 0),
+            stock_transactions: batches.reduce((sum, batch) => sum + batch.stock_transaction_rows, 0),
+            purchase_items: batches.length,
+            purchases: new Set(batches.filter(batch => batch.removes_purchase).map(batch => batch.purchase_id)).size
+        },
+        purchase_value: Math.round(purchaseValue * 100) / 100,
+        archived: 0,
+        archive_id: null
     }
-    
-    return count || 0
-}
 
-/**
- * Check if a purchase has any remaining items
- */
-async function hasRemainingPurchaseItems(supabase: SupabaseClient, purchaseId: string): Promise<boolean> {
-    const { count, error } = await supabase
-        .from('purchase_items')
-        .select('id', { count: 'exact', head: true })
-        .eq('purchase_id', purchaseId)
-    
-    if (error) {
-        throw new Error(`Error checking remaining purchase items: ${error.message}`)
+    if (mode === 'dry_run') {
+        return { summary, batches }
     }
-    
-    return (count || 0) > 0
-}
 
-/**
- * Delete orphaned purchase records (purchases with no items)
- */
-async function deleteOrphanedPurchase(supabase: SupabaseClient, purchaseId: string): Promise<boolean> {
-    const hasItems = await hasRemainingPurchaseItems(supabase, purchaseId)
-    
-    if (!hasItems) {
-        const { error } = await supabase
-            .from('purchases')
-            .delete()
-            .eq('id', purchaseId)
-        
-        if (error) {
-            throw new Error(`Error deleting orphaned purchase: ${error.message}`)
-        }
-        
-        return true
-    }
-    
-    return false
-}
+    // Runs even when nothing has expired, so last_cleanup_date is still updated
+    const { data, error } = await supabase.rpc('cleanup_expired_batches', {
+        p_pharmacy_id: pharmacyId,
+        p_cutoff: cutoffDate,
+        p_archive: mode === 'archive',
+        p_user_id: userId ?? null
+    })
 
-/**
- * Updates the last_cleanup_date for the specified pharmacy or all pharmacies
- * @param supabase - Supabase client
- * @param pharmacyId - Optional pharmacy ID. If provided, only updates that pharmacy. If not, updates all.
- */
-async function updateLastCleanupDate(supabase: SupabaseClient, pharmacyId?: string): Promise<void> {
-    let query = supabase
-        .from('pharmacies')
-        .update({ last_cleanup_date: new Date().toISOString() })
-    
-    // If pharmacyId is provided, only update that pharmacy
-    if (pharmacyId) {
-        query = query.eq('id', pharmacyId)
-    } else {
-        // Otherwise update all pharmacies (for cron job)
-        query = query.neq('id', '00000000-0000-0000-0000-000000000000')
-    }
-    
-    const { error } = await query
-    
     if (error) {
-        // Log error but don't throw - cleanup was successful even if date update fails
-        console.error('Error updating last cleanup date:', error.message)
+        throw new Error(`Error cleaning up expired batches: ${error.message}`)
     }
-}
 
-/**
- * Process a single expired batch deletion
- */
-async function processBatchDeletion(
-    supabase: SupabaseClient,
-    batch: ExpiredBatch,
-    stats: DeletionStats
-): Promise<void> {
-    // Step 1: Delete current inventory
-    const inventoryDeleted = await deleteCurrentInventory(supabase, batch)
-    stats.current_inventory += inventoryDeleted
-    
-    // Step 2: Delete stock transactions
-    const transactionsDeleted = await deleteStockTransactions(supabase, batch)
-    stats.stock_transactions += transactionsDeleted
-    
-    // Step 3: Delete purchase item
-    const itemsDeleted = await deletePurchaseItems(supabase, batch)
-    stats.purchase_items += itemsDeleted
-    
-    // Step 4: Check and delete orphaned purchase if needed
-    const purchaseDeleted = await deleteOrphanedPurchase(supabase, batch.purchase_id)
-    if (purchaseDeleted) {
-        stats.purchases += 1
+    const removed = data as DeletionStats & { batches: number; archived: number; archive_id: string | null }
+
+    return {
+        summary: {
+            ...summary,
+            batchesProcessed: removed.batches,
+            stats: {
+                current_inventory: removed.current_inventory,
+                stock_transactions: removed.stock_transactions,
+                purchase_items: removed.purchase_items,
+                purchases: removed.purchases
+            },
+            archived: removed.archived,
+            archive_id: removed.archive_id
+        },
+        batches
     }
 }
 
 /**
  * Main cleanup function - can be called from anywhere
  * @param supabase - Supabase client (should use service role key)
- * @param pharmacyId - Optional pharmacy ID. If provided, only cleans up data for that pharmacy.
- * @returns CleanupResult with statistics
+ * @param pharmacyId - Optional pharmacy ID. If provided, only cleans up data for that pharmacy; otherwise every active pharmacy.
+ * @param options - mode (archive by default) and the user starting the cleanup
+ * @returns CleanupResult with statistics, and the batches themselves for a dry run
  */
-export async function cleanupExpiredMedicines(supabase: SupabaseClient, pharmacyId?: string): Promise<CleanupResult> {
+export async function cleanupExpiredMedicines(
+    supabase: SupabaseClient,
+    pharmacyId?: string,
+    options: CleanupOptions = {}
+): Promise<CleanupResult> {
+    const mode = options.mode ?? 'archive'
+
     try {
-        // Calculate cutoff date
-        const cutoffDate = calculateCutoffDate()
-        
-        // Fetch expired batches
-        const expiredBatches = await fetchExpiredBatches(supabase, cutoffDate)
-        
-        if (expiredBatches.length === 0) {
-            // Update last cleanup date even if nothing was deleted
-            await updateLastCleanupDate(supabase, pharmacyId)
-            
-            return {
-                success: true,
-                message: 'No expired medicine batches found to delete',
-                cutoffDate: formatDate(cutoffDate),
-                batchesProcessed: 0,
-                stats: {
-                    current_inventory: 0,
-                    stock_transactions: 0,
-                    purchase_items: 0,
-                    purchases: 0
-                }
+        let pharmacyIds: string[]
+
+        if (pharmacyId) {
+            pharmacyIds = [pharmacyId]
+        } else {
+            const { data, error } = await supabase
+                .from('pharmacies')
+                .select('id')
+                .eq('is_active', true)
+
+            if (error) {
+                throw new Error(`Error fetching pharmacies: ${error.message}`)
             }
+
+            pharmacyIds = (data || []).map(pharmacy => pharmacy.id)
         }
-        
-        // Perform deletions
-        const stats: DeletionStats = {
-            current_inventory: 0,
-            stock_transactions: 0,
-            purchase_items: 0,
-            purchases: 0
+
+        const pharmacies: PharmacyCleanup[] = []
+        const batches: ExpiredBatch[] = []
+
+        // One pharmacy at a time; each cleanup is its own transaction
+        for (const id of pharmacyIds) {
+            const result = await cleanupPharmacy(supabase, id, mode, options.userId)
+            pharmacies.push(result.summary)
+            batches.push(...result.batches)
         }
-        
-        for (const batch of expiredBatches) {
-            await processBatchDeletion(supabase, batch, stats)
+
+        const stats = pharmacies.reduce<DeletionStats>((total, pharmacy) => ({
+            current_inventory: total.current_inventory + pharmacy.stats.current_inventory,
+            stock_transactions: total.stock_transactions + pharmacy.stats.stock_transactions,
+            purchase_items: total.purchase_items + pharmacy.stats.purchase_items,
+            purchases: total.purchases + pharmacy.stats.purchases
+        }), { ...EMPTY_STATS })
+
+        const batchesProcessed = pharmacies.reduce((sum, pharmacy) => sum + pharmacy.batchesProcessed, 0)
+        const purchaseValue = Math.round(pharmacies.reduce((sum, pharmacy) => sum + pharmacy.purchase_value, 0) * 100) / 100
+        const archived = pharmacies.reduce((sum, pharmacy) => sum + pharmacy.archived, 0)
+        const cutoffDates = new Set(pharmacies.map(pharmacy => pharmacy.cutoffDate))
+
+        let message: string
+        if (batchesProcessed === 0) {
+            message = 'No expired medicine batches found to delete'
+        } else if (mode === 'dry_run') {
+            message = `${batchesProcessed} expired batches would be removed`
+        } else if (mode === 'archive') {
+            message = `Cleanup completed successfully; ${archived} records archived`
+        } else {
+            message = 'Cleanup completed successfully'
         }
-        
-        // Update last cleanup date after successful cleanup
-        await updateLastCleanupDate(supabase, pharmacyId)
-        
+
         return {
             success: true,
-            message: 'Cleanup completed successfully',
-            cutoffDate: formatDate(cutoffDate),
-            batchesProcessed: expiredBatches.length,
-            stats
+            message,
+            mode,
+            cutoffDate: cutoffDates.size === 1 ? [...cutoffDates][0] : null,
+            batchesProcessed,
+            stats,
+            purchase_value: purchaseValue,
+            archived,
+            pharmacies,
+            ...(mode === 'dry_run' ? { batches } : {})
         }
-        
+
     } catch (error) {
         return {
             success: false,
             message: 'Cleanup failed',
-            cutoffDate: formatDate(calculateCutoffDate()),
+            mode,
+            cutoffDate: null,
             batchesProcessed: 0,
-            stats: {
-                current_inventory: 0,
-                stock_transactions: 0,
-                purchase_items: 0,
-                purchases: 0
-            },
+            stats: { ...EMPTY_STATS },
+            purchase_value: 0,
+            archived: 0,
+            pharmacies: [],
             error: error instanceof Error ? error.message : 'An error occurred during cleanup'
         }
     }
@@ -0,0 +1,223 @@
+/**
+ * Daily digest email for pharmacy owners and managers
+ * Summarises yesterday's sales and what needs attention today. Pharmacies that have
+ * turned off email notifications in their settings are skipped.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { loadPharmacySettings, formatCurrency } from '../settings/pharmacy-settings'
+
+// Sent through the Resend API; without RESEND_API_KEY the digests are built but not sent
+const EMAIL_API_URL = 'https://api.resend.com/emails'
+
+const DIGEST_ROLES = ['owner', 'manager']
+
+export interface DigestResult {
+    success: boolean
+    message: string
+    pharmacies: number
+    sent: number
+    skipped: number
+    failed: number
+    error?: string
+}
+
+interface DigestFigures {
+    salesCount: number
+    salesTotal: number
+    expiredAlerts: number
+    criticalAlerts: number
+    openAlerts: number
+    overdueCount: number
+    overdueAmount: number
+    awaitingVerification: number
+    pendingDeliveries: number
+}
+
+// Helper function to gather one pharmacy's figures for the digest
+async function loadDigestFigures(supabase: SupabaseClient, pharmacyId: string): Promise<DigestFigures> {
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+
+    const [
+        { data: sales },
+        { data: alerts },
+        { data: overdue },
+        { count: awaitingVerification },
+        { count: pendingDeliveries }
+    ] = await Promise.all([
+        supabase
+            .from('sales')
+            .select('total_amount')
+            .eq('pharmacy_id', pharmacyId)
+            .eq('sale_date', yesterday),
+        supabase
+            .from('expiry_alerts')
+            .select('alert_type')
+            .eq('pharmacy_id', pharmacyId)
+            .neq('status', 'resolved'),
+        supabase
+            .from('purchases')
+            .select('balance_amount')
+            .eq('pharmacy_id', pharmacyId)
+            .eq('payment_status', 'overdue'),
+        supabase
+            .from('purchases')
+            .select('id', { count: 'exact', head: true })
+            .eq('pharmacy_id', pharmacyId)
+            .eq('status', 'received'),
+        supabase
+            .from('purchases')
+            .select('id', { count: 'exact', head: true })
+            .eq('pharmacy_id', pharmacyId)
+            .in('status', ['sent', 'partially_received'])
+    ])
+
+    return {
+        salesCount: sales?.length || 0,
+        salesTotal: (sales || []).reduce((sum, sale) => sum + Number(sale.total_amount || 0), 0),
+        expiredAlerts: (alerts || []).filter(alert => alert.alert_type === 'expired').length,
+        criticalAlerts: (alerts || []).filter(alert => alert.alert_type === '30_days').length,
+        openAlerts: alerts?.length || 0,
+        overdueCount: overdue?.length || 0,
+        overdueAmount: (overdue || []).reduce((sum, purchase) => sum + Number(purchase.balance_amount || 0), 0),
+        awaitingVerification: awaitingVerification || 0,
+        pendingDeliveries: pendingDeliveries || 0
+    }
+}
+
+// Helper function to write the digest as plain text
+function buildDigestText(pharmacyName: string, figures: DigestFigures, currency: string) {
+    return [
+        `Daily summary for ${pharmacyName}`,
+        '',
+        `Yesterday's sales: ${figures.salesCount} bills, ${formatCurrency(figures.salesTotal, currency)}`,
+        '',
+        'Needs attention:',
+        `- Expired batches still in stock: ${figures.expiredAlerts}`,
+        `- Batches close to expiry: ${figures.criticalAlerts}`,
+        `- Open expiry alerts in total: ${figures.openAlerts}`,
+        `- Overdue supplier invoices: ${figures.overdueCount} (${formatCurrency(figures.overdueAmount, currency)})`,
+        `- Purchases awaiting verification: ${figures.awaitingVerification}`,
+        `- Deliveries still expected: ${figures.pendingDeliveries}`
+    ].join('\n')
+}
+
+// Helper function to send one email; returns false when delivery is not configured
+async function sendEmail(to: string[], subject: string, text: string) {
+    const apiKey = process.env.RESEND_API_KEY
+    const from = process.env.DIGEST_FROM_EMAIL
+
+    if (!apiKey || !from) {
+        return false
+    }
+
+    const response = await fetch(EMAIL_API_URL, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ from, to, subject, text })
+    })
+
+    if (!response.ok) {
+        throw new Error(`Email API responded ${response.status}: ${await response.text()}`)
+    }
+
+    return true
+}
+
+/**
+ * Build and send the daily digest
+ * @param supabase - Supabase client (should use service role key)
+ * @param pharmacyId - Optional pharmacy ID. If omitted, every active pharmacy gets its digest.
+ */
+export async function sendDailyDigests(supabase: SupabaseClient, pharmacyId?: string): Promise<DigestResult> {
+    try {
+        let pharmacyQuery = supabase
+            .from('pharmacies')
+            .select('id, name')
+            .eq('is_active', true)
+
+        if (pharmacyId) {
+            pharmacyQuery = pharmacyQuery.eq('id', pharmacyId)
+        }
+
+        const { data: pharmacies, error: pharmacyError } = await pharmacyQuery
+
+        if (pharmacyError) {
+            throw new Error(pharmacyError.message)
+        }
+
+        let sent = 0
+        let skipped = 0
+        let failed = 0
+        const failures: string[] = []
+
+        for (const pharmacy of pharmacies || []) {
+            const settings = await loadPharmacySettings(supabase, pharmacy.id)
+            if (!settings.email_notifications) {
+                skipped++
+                continue
+            }
+
+            const { data: members } = await supabase
+                .from('user_pharmacies')
+                .select('users(email)')
+                .eq('pharmacy_id', pharmacy.id)
+                .eq('is_active', true)
+                .in('role', DIGEST_ROLES)
+
+            const recipients = (members || [])
+                .map(member => (member.users as unknown as { email: string } | null)?.email)
+                .filter((email): email is string => !!email)
+
+            if (recipients.length === 0) {
+                skipped++
+                continue
+            }
+
+            try {
+                const figures = await loadDigestFigures(supabase, pharmacy.id)
+                const delivered = await sendEmail(
+                    recipients,
+                    `Daily summary: ${pharmacy.name}`,
+                    buildDigestText(pharmacy.name, figures, settings.currency)
+                )
+
+                if (delivered) {
+                    sent++
+                } else {
+                    skipped++
+                }
+            } catch (error) {
+                failed++
+                failures.push(`${pharmacy.name}: ${error instanceof Error ? error.message : 'unknown error'}`)
+            }
+        }
+
+        const deliveryConfigured = !!(process.env.RESEND_API_KEY && process.env.DIGEST_FROM_EMAIL)
+
+        return {
+            success: failed === 0,
+            message: deliveryConfigured
+                ? `${sent} digests sent, ${skipped} skipped, ${failed} failed`
+                : 'Email delivery is not configured (RESEND_API_KEY, DIGEST_FROM_EMAIL); no digests sent',
+            pharmacies: pharmacies?.length || 0,
+            sent,
+            skipped,
+            failed,
+            error: failures.length > 0 ? failures.join('; ') : undefined
+        }
+    } catch (error) {
+        return {
+            success: false,
+            message: 'Daily digest failed',
+            pharmacies: 0,
+            sent: 0,
+            skipped: 0,
+            failed: 0,
+            error: error instanceof Error ? error.message : 'An error occurred while sending digests'
+        }
+    }
+}
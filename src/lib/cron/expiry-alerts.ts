@@ -0,0 +1,62 @@
+/**
+ * Shared expiry alert generation
+ * Used by both the daily cron job and the "Refresh" action on the expiry page
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export interface AlertGenerationStats {
+    created: number
+    refreshed: number
+    reopened: number
+    auto_resolved: number
+}
+
+export interface AlertGenerationResult {
+    success: boolean
+    message: string
+    stats: AlertGenerationStats
+    error?: string
+}
+
+const EMPTY_STATS: AlertGenerationStats = {
+    created: 0,
+    refreshed: 0,
+    reopened: 0,
+    auto_resolved: 0
+}
+
+/**
+ * Create, escalate and auto-resolve expiry alerts
+ * @param supabase - Supabase client (service role for the cron job, the user's client otherwise)
+ * @param pharmacyId - Optional pharmacy ID. If omitted, alerts are refreshed for every pharmacy.
+ * @returns AlertGenerationResult with statistics
+ */
+export async function generateExpiryAlerts(supabase: SupabaseClient, pharmacyId?: string): Promise<AlertGenerationResult> {
+    try {
+        const { data, error } = await supabase.rpc('generate_expiry_alerts', {
+            p_pharmacy_id: pharmacyId ?? null,
+            // Each pharmacy's expiry_alert_days, matching the expiry report
+            p_horizon_days: null
+        })
+
+        if (error) {
+            throw new Error(error.message)
+        }
+
+        const stats: AlertGenerationStats = { ...EMPTY_STATS, ...(data as Partial<AlertGenerationStats>) }
+
+        return {
+            success: true,
+            message: `${stats.created} new, ${stats.reopened} re-opened and ${stats.auto_resolved} auto-resolved alerts`,
+            stats
+        }
+    } catch (error) {
+        return {
+            success: false,
+            message: 'Expiry alert generation failed',
+            stats: EMPTY_STATS,
+            error: error instanceof Error ? error.message : 'An error occurred while generating expiry alerts'
+        }
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * Registry of recurring jobs and the runner that records them in cron_job_runs
+ * Scheduled runs come through GET /api/cron/[job]; the schedules below must match vercel.json
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { cleanupExpiredMedicines } from './cleanup-logic'
+import { generateExpiryAlerts } from './expiry-alerts'
+import { markOverduePurchases } from './overdue-invoices'
+import { captureStockSnapshots } from './stock-snapshots'
+import { sendDailyDigests } from './daily-digest'
+
+// What every job returns; anything besides these fields is kept as the run's output
+export interface JobOutcome {
+    success: boolean
+    message: string
+    error?: string
+}
+
+export interface CronJob {
+    name: string
+    label: string
+    description: string
+    schedule: string // cron expression, UTC
+    scheduleLabel: string
+    run: (supabase: SupabaseClient, pharmacyId?: string) => Promise<JobOutcome>
+}
+
+export interface CronJobRunResult extends JobOutcome {
+    run_id: string | null
+    output: Record<string, unknown>
+}
+
+interface RunOptions {
+    trigger: 'schedule' | 'manual'
+    pharmacyId?: string // only this pharmacy; every pharmacy when omitted
+    triggeredBy?: string
+    run?: () => Promise<JobOutcome> // in place of job.run, when a manual run needs job-specific options
+}
+
+export const CRON_JOBS: CronJob[] = [
+    {
+        name: 'expiry-alerts',
+        label: 'Expiry alert generation',
+        description: 'Creates, escalates and auto-resolves expiry alerts for stocked batches',
+        schedule: '30 0 * * *',
+        scheduleLabel: 'Daily at 00:30 UTC',
+        run: generateExpiryAlerts
+    },
+    {
+        name: 'overdue-invoices',
+        label: 'Overdue invoice marking',
+        description: 'Marks unpaid supplier invoices past their due date as overdue',
+        schedule: '0 1 * * *',
+        scheduleLabel: 'Daily at 01:00 UTC',
+        run: markOverduePurchases
+    },
+    {
+        name: 'daily-digest',
+        label: 'Daily digest email',
+        description: "Emails owners and managers yesterday's sales and what needs attention",
+        schedule: '30 2 * * *',
+        scheduleLabel: 'Daily at 02:30 UTC',
+        run: sendDailyDigests
+    },
+    {
+        name: 'stock-snapshots',
+        label: 'Daily stock snapshot',
+        description: 'Records closing stock and value per medicine',
+        schedule: '30 18 * * *',
+        scheduleLabel: 'Daily at 18:30 UTC',
+        run: captureStockSnapshots
+    },
+    {
+        name: 'cleanup-expired',
+        label: 'Expired medicine cleanup',
+        description: "Archives and deletes expired batch records older than each pharmacy's retention period",
+        schedule: '0 12 1 1 *',
+        scheduleLabel: 'Yearly on January 1st at 12:00 UTC',
+        run: cleanupExpiredMedicines
+    }
+]
+
+export function getCronJob(name: string): CronJob | undefined {
+    return CRON_JOBS.find(job => job.name === name)
+}
+
+/**
+ * Run a job and record it in cron_job_runs. A failure to write the history
+ * is logged but never stops the job itself.
+ * @param supabase - Supabase client (should use service role key; job history has no write policies)
+ */
+export async function runCronJob(supabase: SupabaseClient, job: CronJob, options: RunOptions): Promise<CronJobRunResult> {
+    const startedAt = Date.now()
+
+    const { data: run, error: insertError } = await supabase
+        .from('cron_job_runs')
+        .insert({
+            job_name: job.name,
+            trigger: options.trigger,
+            pharmacy_id: options.pharmacyId ?? null,
+            triggered_by: options.triggeredBy ?? null,
+            status: 'running'
+        })
+        .select('id')
+        .single()
+
+    if (insertError) {
+        console.error(`❌ Could not record start of job ${job.name}:`, insertError.message)
+    }
+
+    let outcome: JobOutcome
+    try {
+        outcome = await (options.run ? options.run() : job.run(supabase, options.pharmacyId))
+    } catch (error) {
+        outcome = {
+            success: false,
+            message: `${job.label} failed`,
+            error: error instanceof Error ? error.message : 'An error occurred while running the job'
+        }
+    }
+
+    const { success, message, error, ...output } = outcome
+
+    if (run) {
+        const { error: updateError } = await supabase
+            .from('cron_job_runs')
+            .update({
+                status: success ? 'success' : 'failed',
+                message,
+                output,
+                error: error ?? null,
+                finished_at: new Date().toISOString(),
+                duration_ms: Date.now() - startedAt
+            })
+            .eq('id', run.id)
+
+        if (updateError) {
+            console.error(`❌ Could not record result of job ${job.name}:`, updateError.message)
+        }
+    }
+
+    if (success) {
+        console.log(`✅ Job ${job.name}: ${message}`)
+    } else {
+        console.error(`❌ Job ${job.name} failed:`, error)
+    }
+
+    return { run_id: run?.id ?? null, success, message, error, output }
+}
@@ -0,0 +1,52 @@
+/**
+ * Shared overdue invoice marking
+ * Used by both the daily cron job and the supplier payments screen
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export interface OverdueMarkingResult {
+    success: boolean
+    message: string
+    updated: number
+    error?: string
+}
+
+/**
+ * Flag unpaid invoices whose credit period has run out
+ * @param supabase - Supabase client (service role for the cron job, the user's client otherwise)
+ * @param pharmacyId - Optional pharmacy ID. If omitted, invoices of every pharmacy are checked.
+ * @returns OverdueMarkingResult with the number of invoices marked overdue
+ */
+export async function markOverduePurchases(supabase: SupabaseClient, pharmacyId?: string): Promise<OverdueMarkingResult> {
+    const today = new Date().toISOString().split('T')[0]
+
+    let query = supabase
+        .from('purchases')
+        .update({ payment_status: 'overdue' }, { count: 'exact' })
+        .not('status', 'in', '(draft,sent,cancelled)')
+        .in('payment_status', ['pending', 'partial'])
+        .gt('balance_amount', 0)
+        .lt('due_date', today)
+
+    if (pharmacyId) {
+        query = query.eq('pharmacy_id', pharmacyId)
+    }
+
+    const { count, error } = await query
+
+    if (error) {
+        return {
+            success: false,
+            message: 'Overdue invoice marking failed',
+            updated: 0,
+            error: error.message
+        }
+    }
+
+    return {
+        success: true,
+        message: `${count || 0} invoices marked overdue`,
+        updated: count || 0
+    }
+}
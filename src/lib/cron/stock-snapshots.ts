@@ -0,0 +1,46 @@
+/**
+ * Daily closing stock snapshots (capture_stock_snapshots in database/scheduled_jobs.sql)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export interface SnapshotResult {
+    success: boolean
+    message: string
+    snapshot_date: string
+    pharmacies: number
+    medicines: number
+    error?: string
+}
+
+/**
+ * Record today's stock per medicine
+ * @param supabase - Supabase client (should use service role key)
+ * @param pharmacyId - Optional pharmacy ID. If omitted, every pharmacy is snapshotted.
+ */
+export async function captureStockSnapshots(supabase: SupabaseClient, pharmacyId?: string): Promise<SnapshotResult> {
+    const today = new Date().toISOString().split('T')[0]
+
+    const { data, error } = await supabase.rpc('capture_stock_snapshots', {
+        p_pharmacy_id: pharmacyId ?? null
+    })
+
+    if (error) {
+        return {
+            success: false,
+            message: 'Stock snapshot failed',
+            snapshot_date: today,
+            pharmacies: 0,
+            medicines: 0,
+            error: error.message
+        }
+    }
+
+    const result = data as { snapshot_date: string; pharmacies: number; medicines: number }
+
+    return {
+        success: true,
+        message: `Closing stock recorded for ${result.medicines} medicines across ${result.pharmacies} pharmacies`,
+        ...result
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * Fuzzy matching of medicine names
+ * Used by the duplicate finder on the medicine master and the purchase invoice import
+ */
+
+import type { Medicine } from '@/lib/supabase'
+
+// Words that describe the dosage form rather than the product itself
+const FORM_WORDS = /\b(tab|tabs|tablet|tablets|cap|caps|capsule|capsules|syp|syrup|susp|suspension|inj|injection|oint|ointment|cream|gel|drops?|sr|er|xr)\b/g
+
+// Reduces a medicine to a comparable key, e.g. "DOLO-650 Tab" and "Dolo 650mg" both become "dolo650"
+export function medicineKey(medicine: Pick<Medicine, 'name' | 'strength'>) {
+    const name = medicine.name
+        .toLowerCase()
+        .replace(/(\d)\s*(mg|ml|mcg|gm?)\b/g, '$1')
+        .replace(FORM_WORDS, '')
+        .replace(/[^a-z0-9]/g, '')
+    const strength = (medicine.strength || '').replace(/[^0-9.]/g, '')
+
+    return strength && !name.endsWith(strength) ? `${name}${strength}` : name
+}
+
+// Counts single character edits between two keys, giving up once it passes the limit
+export function withinEditDistance(a: string, b: string, limit: number) {
+    return editDistance(a, b, limit) <= limit
+}
+
+// Single character edits between two keys; stops early and returns limit + 1 once the limit is passed
+function editDistance(a: string, b: string, limit = Infinity) {
+    if (Math.abs(a.length - b.length) > limit) return limit + 1
+
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i]
+        let rowMin = i
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+            rowMin = Math.min(rowMin, current[j])
+        }
+        if (rowMin > limit) return limit + 1
+        previous = current
+    }
+
+    return previous[b.length]
+}
+
+export interface MedicineSuggestion<T> {
+    medicine: T
+    score: number // 1 is an exact key match
+}
+
+/**
+ * Catalog medicines that look like the given name, best first.
+ * A different strength never counts as a match (dolo500 vs dolo650).
+ */
+export function suggestMedicines<T extends Pick<Medicine, 'name' | 'strength'>>(name: string, medicines: T[], limit = 3): MedicineSuggestion<T>[] {
+    const key = medicineKey({ name })
+    if (key.length < 3) return []
+
+    const digits = key.replace(/[^0-9]/g, '')
+    const maxEdits = Math.max(1, Math.floor(key.length / 3))
+
+    return medicines
+        .map(medicine => {
+            const candidate = medicineKey(medicine)
+            if (digits && candidate.replace(/[^0-9]/g, '') !== digits) return null
+
+            // Invoice names are often cut short ("AUGMENTIN 625 D" vs "Augmentin 625 Duo")
+            if (candidate.startsWith(key) || key.startsWith(candidate)) {
+                const shorter = Math.min(candidate.length, key.length)
+                return shorter >= 4 ? { medicine, score: candidate === key ? 1 : 0.9 * shorter / Math.max(candidate.length, key.length) + 0.05 } : null
+            }
+
+            const distance = editDistance(key, candidate, maxEdits)
+            return distance <= maxEdits
+                ? { medicine, score: 1 - distance / Math.max(key.length, candidate.length) }
+                : null
+        })
+        .filter((suggestion): suggestion is MedicineSuggestion<T> => suggestion !== null)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+}
@@ -0,0 +1,148 @@
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import type { PurchaseReturn } from '@/lib/store/api/pharmacyApi'
+import { formatCurrency as formatAmount } from '@/lib/settings/pharmacy-settings'
+
+/**
+ * Generates and downloads a debit note PDF for a purchase return, with amounts in the pharmacy's currency
+ */
+export function downloadDebitNotePDF(debitNote: PurchaseReturn, supplierOutstanding?: number, currency?: string) {
+    const doc = new jsPDF('portrait', 'mm', 'a4')
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pharmacy = debitNote.pharmacies
+    const supplier = debitNote.suppliers
+
+    const formatCurrency = (value: number) => formatAmount(value, currency)
+
+    // Add header with pharmacy details
+    doc.setFontSize(20)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Debit Note', 20, 25)
+
+    doc.setFontSize(12)
+    doc.text(pharmacy?.name || '', pageWidth - 20, 20, { align: 'right' })
+    doc.setFontSize(9)
+    doc.setFont('helvetica', 'normal')
+    let headerY = 25
+    if (pharmacy?.address) {
+        doc.text(`${pharmacy.address}${pharmacy.city ? `, ${pharmacy.city}` : ''}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+    if (pharmacy?.gst_number) {
+        doc.text(`GSTIN: ${pharmacy.gst_number}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+    if (pharmacy?.license_number) {
+        doc.text(`DL No: ${pharmacy.license_number}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+
+    // Add a line under the header
+    const lineY = Math.max(headerY, 32)
+    doc.setLineWidth(0.5)
+    doc.line(20, lineY, pageWidth - 20, lineY)
+
+    // Debit note and supplier details
+    let yPosition = lineY + 10
+    doc.setFontSize(11)
+    doc.text(`Debit Note No: ${debitNote.debit_note_number}`, 20, yPosition)
+    doc.text(`Date: ${new Date(debitNote.return_date).toLocaleDateString('en-IN')}`, pageWidth - 20, yPosition, { align: 'right' })
+    yPosition += 10
+
+    doc.setFont('helvetica', 'bold')
+    doc.text('To:', 20, yPosition)
+    doc.setFont('helvetica', 'normal')
+    doc.text(supplier?.name || '-', 30, yPosition)
+    yPosition += 6
+    doc.setFontSize(10)
+    if (supplier?.address) {
+        doc.text(`${supplier.address}${supplier.city ? `, ${supplier.city}` : ''}`, 30, yPosition)
+        yPosition += 5
+    }
+    if (supplier?.gst_number) {
+        doc.text(`GSTIN: ${supplier.gst_number}`, 30, yPosition)
+        yPosition += 5
+    }
+    if (supplier?.drug_license_number) {
+        doc.text(`DL No: ${supplier.drug_license_number}`, 30, yPosition)
+        yPosition += 5
+    }
+    if (debitNote.reason) {
+        yPosition += 2
+        doc.text(`Reason: ${debitNote.reason}`, 20, yPosition)
+        yPosition += 5
+    }
+
+    // Prepare table data
+    const tableData = debitNote.purchase_return_items.map((item, index) => [
+        (index + 1).toString(),
+        item.medicines?.name || '-',
+        item.batch_number,
+        new Date(item.expiry_date).toLocaleDateString('en-IN'),
+        item.purchases?.invoice_number || '-',
+        item.quantity.toString(),
+        formatCurrency(item.rate),
+        formatCurrency(item.amount),
+        item.reason || '-'
+    ])
+
+    autoTable(doc, {
+        head: [['S.No', 'Medicine', 'Batch No.', 'Expiry', 'Invoice', 'Qty', 'Rate', 'Amount', 'Reason']],
+        body: tableData,
+        startY: yPosition + 4,
+        theme: 'striped',
+        styles: {
+            fontSize: 8,
+            cellPadding: { top: 2, right: 2, bottom: 2, left: 2 },
+            overflow: 'linebreak',
+            valign: 'middle'
+        },
+        headStyles: {
+            fillColor: [41, 128, 185], // Professional blue
+            textColor: 255,
+            fontStyle: 'bold',
+            halign: 'center'
+        },
+        columnStyles: {
+            0: { cellWidth: 12, halign: 'center' }, // S.No
+            5: { halign: 'center' }, // Qty
+            6: { halign: 'right' }, // Rate
+            7: { halign: 'right' } // Amount
+        },
+        alternateRowStyles: {
+            fillColor: [245, 247, 250]
+        },
+        margin: { left: 20, right: 20 }
+    })
+
+    // Totals
+    let totalsY = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10
+    doc.setFontSize(11)
+    doc.setFont('helvetica', 'bold')
+    doc.text(`Total Debit Amount: ${formatCurrency(debitNote.total_amount)}`, pageWidth - 20, totalsY, { align: 'right' })
+
+    if (supplierOutstanding !== undefined) {
+        totalsY += 6
+        doc.setFont('helvetica', 'normal')
+        doc.setFontSize(10)
+        doc.text(`Supplier outstanding balance: ${formatCurrency(supplierOutstanding)}`, pageWidth - 20, totalsY, { align: 'right' })
+    }
+
+    if (debitNote.notes) {
+        totalsY += 10
+        doc.setFont('helvetica', 'normal')
+        doc.setFontSize(10)
+        doc.text(`Notes: ${debitNote.notes}`, 20, totalsY)
+    }
+
+    // Signature lines
+    const signatureY = totalsY + 30
+    doc.setFontSize(9)
+    doc.setFont('helvetica', 'normal')
+    doc.line(20, signatureY, 80, signatureY)
+    doc.text('Received by (Supplier)', 20, signatureY + 5)
+    doc.line(pageWidth - 80, signatureY, pageWidth - 20, signatureY)
+    doc.text('Authorised Signatory', pageWidth - 80, signatureY + 5)
+
+    doc.save(`debit-note-${debitNote.debit_note_number}.pdf`)
+}
@@ -0,0 +1,131 @@
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import type { StockDestruction } from '@/lib/store/api/pharmacyApi'
+import { formatCurrency as formatAmount } from '@/lib/settings/pharmacy-settings'
+
+/**
+ * Generates and downloads the destruction certificate for a batch of written-off expired stock,
+ * with the loss at purchase rate in the pharmacy's currency
+ */
+export function downloadDestructionCertificatePDF(destruction: StockDestruction, currency?: string) {
+    const doc = new jsPDF('portrait', 'mm', 'a4')
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pharmacy = destruction.pharmacies
+
+    const formatCurrency = (value: number) => formatAmount(value, currency)
+    const destructionDate = new Date(destruction.destruction_date).toLocaleDateString('en-IN')
+
+    // Add header with pharmacy details
+    doc.setFontSize(18)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Certificate of Destruction', 20, 25)
+
+    doc.setFontSize(12)
+    doc.text(pharmacy?.name || '', pageWidth - 20, 20, { align: 'right' })
+    doc.setFontSize(9)
+    doc.setFont('helvetica', 'normal')
+    let headerY = 25
+    if (pharmacy?.address) {
+        doc.text(`${pharmacy.address}${pharmacy.city ? `, ${pharmacy.city}` : ''}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+    if (pharmacy?.gst_number) {
+        doc.text(`GSTIN: ${pharmacy.gst_number}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+    if (pharmacy?.license_number) {
+        doc.text(`DL No: ${pharmacy.license_number}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+
+    // Add a line under the header
+    const lineY = Math.max(headerY, 32)
+    doc.setLineWidth(0.5)
+    doc.line(20, lineY, pageWidth - 20, lineY)
+
+    // Destruction details
+    let yPosition = lineY + 10
+    doc.setFontSize(11)
+    doc.text(`Destruction No: ${destruction.destruction_number}`, 20, yPosition)
+    doc.text(`Date: ${destructionDate}`, pageWidth - 20, yPosition, { align: 'right' })
+    yPosition += 8
+
+    doc.setFontSize(10)
+    const statement = doc.splitTextToSize(
+        `This is to certify that the expired medicines listed below were removed from stock and destroyed on ${destructionDate}` +
+        `${destruction.method ? ` by ${destruction.method}` : ''} in the presence of the witness named below.`,
+        pageWidth - 40
+    )
+    doc.text(statement, 20, yPosition)
+    yPosition += statement.length * 5 + 2
+
+    doc.text(`Witness: ${destruction.witness_name}${destruction.witness_designation ? ` (${destruction.witness_designation})` : ''}`, 20, yPosition)
+    yPosition += 5
+    if (destruction.notes) {
+        const notes = doc.splitTextToSize(`Notes: ${destruction.notes}`, pageWidth - 40)
+        doc.text(notes, 20, yPosition)
+        yPosition += notes.length * 5
+    }
+
+    // Prepare table data
+    const tableData = destruction.stock_destruction_items.map((item, index) => [
+        (index + 1).toString(),
+        item.medicines?.name || '-',
+        item.medicines?.manufacturer || '-',
+        item.batch_number,
+        new Date(item.expiry_date).toLocaleDateString('en-IN'),
+        item.quantity.toString(),
+        formatCurrency(item.rate),
+        formatCurrency(item.amount)
+    ])
+
+    autoTable(doc, {
+        head: [['S.No', 'Medicine', 'Manufacturer', 'Batch No.', 'Expiry', 'Qty', 'Rate', 'Loss']],
+        body: tableData,
+        startY: yPosition + 4,
+        theme: 'striped',
+        styles: {
+            fontSize: 8,
+            cellPadding: { top: 2, right: 2, bottom: 2, left: 2 },
+            overflow: 'linebreak',
+            valign: 'middle'
+        },
+        headStyles: {
+            fillColor: [41, 128, 185], // Professional blue
+            textColor: 255,
+            fontStyle: 'bold',
+            halign: 'center'
+        },
+        columnStyles: {
+            0: { cellWidth: 12, halign: 'center' }, // S.No
+            5: { halign: 'center' }, // Qty
+            6: { halign: 'right' }, // Rate
+            7: { halign: 'right' } // Loss
+        },
+        alternateRowStyles: {
+            fillColor: [245, 247, 250]
+        },
+        margin: { left: 20, right: 20 }
+    })
+
+    // Totals
+    let totalsY = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10
+    doc.setFontSize(10)
+    doc.setFont('helvetica', 'normal')
+    doc.text(`Total quantity destroyed: ${destruction.total_quantity}`, pageWidth - 20, totalsY, { align: 'right' })
+    totalsY += 6
+    doc.setFontSize(11)
+    doc.setFont('helvetica', 'bold')
+    doc.text(`Loss at purchase rate: ${formatCurrency(destruction.total_loss)}`, pageWidth - 20, totalsY, { align: 'right' })
+
+    // Signature lines
+    const signatureY = totalsY + 30
+    doc.setFontSize(9)
+    doc.setFont('helvetica', 'normal')
+    doc.line(20, signatureY, 80, signatureY)
+    doc.text(`Witness: ${destruction.witness_name}`, 20, signatureY + 5)
+    doc.line(pageWidth - 80, signatureY, pageWidth - 20, signatureY)
+    doc.text('Authorised Signatory', pageWidth - 80, signatureY + 5)
+
+    doc.save(`destruction-certificate-${destruction.destruction_number}.pdf`)
+}
@@ -0,0 +1,169 @@
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import type { PurchaseOrder } from '@/lib/store/api/pharmacyApi'
+import { formatCurrency as formatAmount } from '@/lib/settings/pharmacy-settings'
+
+// Helper function to describe a medicine on an order line
+function describeMedicine(item: PurchaseOrder['purchase_order_items'][number]) {
+    const medicine = item.medicines
+    if (!medicine) return '-'
+    return [medicine.name, medicine.strength, medicine.pack_size].filter(Boolean).join(' ')
+}
+
+/**
+ * Generates and downloads a purchase order PDF to send to the supplier, with amounts in the pharmacy's currency
+ */
+export function downloadPurchaseOrderPDF(order: PurchaseOrder, currency?: string) {
+    const doc = new jsPDF('portrait', 'mm', 'a4')
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pharmacy = order.pharmacies
+    const supplier = order.suppliers
+
+    const formatCurrency = (value: number) => formatAmount(value, currency)
+
+    // Add header with pharmacy details
+    doc.setFontSize(20)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Purchase Order', 20, 25)
+
+    doc.setFontSize(12)
+    doc.text(pharmacy?.name || '', pageWidth - 20, 20, { align: 'right' })
+    doc.setFontSize(9)
+    doc.setFont('helvetica', 'normal')
+    let headerY = 25
+    if (pharmacy?.address) {
+        doc.text(`${pharmacy.address}${pharmacy.city ? `, ${pharmacy.city}` : ''}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+    if (pharmacy?.phone) {
+        doc.text(`Phone: ${pharmacy.phone}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+    if (pharmacy?.gst_number) {
+        doc.text(`GSTIN: ${pharmacy.gst_number}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+    if (pharmacy?.license_number) {
+        doc.text(`DL No: ${pharmacy.license_number}`, pageWidth - 20, headerY, { align: 'right' })
+        headerY += 5
+    }
+
+    // Add a line under the header
+    const lineY = Math.max(headerY, 32)
+    doc.setLineWidth(0.5)
+    doc.line(20, lineY, pageWidth - 20, lineY)
+
+    // Order and supplier details
+    let yPosition = lineY + 10
+    doc.setFontSize(11)
+    doc.text(`PO No: ${order.po_number}`, 20, yPosition)
+    doc.text(`Date: ${new Date(order.order_date).toLocaleDateString('en-IN')}`, pageWidth - 20, yPosition, { align: 'right' })
+    if (order.expected_date) {
+        yPosition += 6
+        doc.text(`Deliver by: ${new Date(order.expected_date).toLocaleDateString('en-IN')}`, pageWidth - 20, yPosition, { align: 'right' })
+    }
+    yPosition += 10
+
+    doc.setFont('helvetica', 'bold')
+    doc.text('To:', 20, yPosition)
+    doc.setFont('helvetica', 'normal')
+    doc.text(supplier?.name || '-', 30, yPosition)
+    yPosition += 6
+    doc.setFontSize(10)
+    if (supplier?.address) {
+        doc.text(`${supplier.address}${supplier.city ? `, ${supplier.city}` : ''}`, 30, yPosition)
+        yPosition += 5
+    }
+    if (supplier?.gst_number) {
+        doc.text(`GSTIN: ${supplier.gst_number}`, 30, yPosition)
+        yPosition += 5
+    }
+    if (supplier?.drug_license_number) {
+        doc.text(`DL No: ${supplier.drug_license_number}`, 30, yPosition)
+        yPosition += 5
+    }
+
+    // Prepare table data
+    const tableData = order.purchase_order_items.map((item, index) => [
+        (index + 1).toString(),
+        describeMedicine(item),
+        item.medicines?.manufacturer || '-',
+        item.quantity.toString(),
+        item.rate > 0 ? formatCurrency(item.rate) : '-',
+        item.amount > 0 ? formatCurrency(item.amount) : '-'
+    ])
+
+    autoTable(doc, {
+        head: [['S.No', 'Medicine', 'Manufacturer', 'Qty', 'Last Rate', 'Est. Amount']],
+        body: tableData,
+        startY: yPosition + 4,
+        theme: 'striped',
+        styles: {
+            fontSize: 8,
+            cellPadding: { top: 2, right: 2, bottom: 2, left: 2 },
+            overflow: 'linebreak',
+            valign: 'middle'
+        },
+        headStyles: {
+            fillColor: [41, 128, 185], // Professional blue
+            textColor: 255,
+            fontStyle: 'bold',
+            halign: 'center'
+        },
+        columnStyles: {
+            0: { cellWidth: 12, halign: 'center' }, // S.No
+            3: { halign: 'center' }, // Qty
+            4: { halign: 'right' }, // Rate
+            5: { halign: 'right' } // Amount
+        },
+        alternateRowStyles: {
+            fillColor: [245, 247, 250]
+        },
+        margin: { left: 20, right: 20 }
+    })
+
+    // Totals
+    let totalsY = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10
+    doc.setFontSize(11)
+    doc.setFont('helvetica', 'bold')
+    doc.text(`Estimated Total: ${formatCurrency(order.total_amount)}`, pageWidth - 20, totalsY, { align: 'right' })
+    totalsY += 6
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(9)
+    doc.text('Rates are from our last purchase; please invoice at your current rates.', pageWidth - 20, totalsY, { align: 'right' })
+
+    if (order.notes) {
+        totalsY += 10
+        doc.setFontSize(10)
+        doc.text(`Notes: ${order.notes}`, 20, totalsY)
+    }
+
+    // Signature line
+    const signatureY = totalsY + 30
+    doc.setFontSize(9)
+    doc.line(pageWidth - 80, signatureY, pageWidth - 20, signatureY)
+    doc.text('Authorised Signatory', pageWidth - 80, signatureY + 5)
+
+    doc.save(`purchase-order-${order.po_number}.pdf`)
+}
+
+/**
+ * Plain-text version of a purchase order for sharing over WhatsApp or email
+ */
+export function purchaseOrderShareText(order: PurchaseOrder) {
+    const lines = [
+        `Purchase Order ${order.po_number}${order.pharmacies?.name ? ` from ${order.pharmacies.name}` : ''}`,
+        `Date: ${new Date(order.order_date).toLocaleDateString('en-IN')}`
+    ]
+    if (order.expected_date) {
+        lines.push(`Deliver by: ${new Date(order.expected_date).toLocaleDateString('en-IN')}`)
+    }
+    lines.push('')
+    order.purchase_order_items.forEach((item, index) => {
+        lines.push(`${index + 1}. ${describeMedicine(item)} - ${item.quantity}`)
+    })
+    if (order.notes) {
+        lines.push('', `Notes: ${order.notes}`)
+    }
+    return lines.join('\n')
+}
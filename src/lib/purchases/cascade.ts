@@ -0,0 +1,167 @@
+/**
+ * Shared cascade logic for purchase items
+ * Used by the purchases collection route and the single purchase route
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export interface PurchaseItemBatch {
+    medicine_id: string
+    batch_number: string | null
+    expiry_date: string | null
+    received_quantity: number | null
+}
+
+// Helper function to check if a medicine is still referenced in any table
+export async function checkMedicineReferences(supabaseClient: SupabaseClient, medicine_id: string): Promise<boolean> {
+    try {
+        // Check purchase_items table
+        const { data: purchaseItems, error: purchaseError } = await supabaseClient
+            .from('purchase_items')
+            .select('id')
+            .eq('medicine_id', medicine_id)
+            .limit(1)
+
+        if (purchaseError) {
+            console.error('Error checking purchase_items references:', purchaseError)
+            return true // Assume referenced if error
+        }
+
+        if (purchaseItems && purchaseItems.length > 0) {
+            return true // Still referenced in purchase_items
+        }
+
+        // Check current_inventory table
+        const { data: inventoryItems, error: inventoryError } = await supabaseClient
+            .from('current_inventory')
+            .select('id')
+            .eq('medicine_id', medicine_id)
+            .limit(1)
+
+        if (inventoryError) {
+            console.error('Error checking current_inventory references:', inventoryError)
+            return true // Assume referenced if error
+        }
+
+        if (inventoryItems && inventoryItems.length > 0) {
+            return true // Still referenced in current_inventory
+        }
+
+        // Check stock_transactions table
+        const { data: transactionItems, error: transactionError } = await supabaseClient
+            .from('stock_transactions')
+            .select('id')
+            .eq('medicine_id', medicine_id)
+            .limit(1)
+
+        if (transactionError) {
+            console.error('Error checking stock_transactions references:', transactionError)
+            return true // Assume referenced if error
+        }
+
+        if (transactionItems && transactionItems.length > 0) {
+            return true // Still referenced in stock_transactions
+        }
+
+        // expiry_alerts table removed - no longer needed for reference checking
+
+        // No references found - safe to delete
+        return false
+
+    } catch (error) {
+        console.error('Error checking medicine references:', error)
+        return true // Assume referenced if any error occurs
+    }
+}
+
+// Helper function to cascade deletes to related tables
+export async function cascadeDeleteFromRelatedTables(
+    supabaseClient: SupabaseClient,
+    itemToDelete: PurchaseItemBatch
+) {
+    const { medicine_id, batch_number, expiry_date } = itemToDelete
+
+    // A line that was never received put nothing into stock
+    if (!itemToDelete.received_quantity || !batch_number || !expiry_date) return
+
+    try {
+        // Delete from current_inventory table
+        const { error: inventoryDeleteError } = await supabaseClient
+            .from('current_inventory')
+            .delete()
+            .eq('medicine_id', medicine_id)
+            .eq('batch_number', batch_number)
+            .eq('expiry_date', expiry_date)
+
+        if (inventoryDeleteError) {
+            console.error('Current inventory cascade delete error:', inventoryDeleteError)
+        }
+
+        // Delete from stock_transactions table
+        const { error: transactionDeleteError } = await supabaseClient
+            .from('stock_transactions')
+            .delete()
+            .eq('medicine_id', medicine_id)
+            .eq('batch_number', batch_number)
+            .eq('expiry_date', expiry_date)
+
+        if (transactionDeleteError) {
+            console.error('Stock transactions cascade delete error:', transactionDeleteError)
+        }
+
+        // expiry_alerts table removed - cascade delete no longer needed
+
+        // Check if this medicine is still referenced anywhere else
+        const isStillReferenced = await checkMedicineReferences(supabaseClient, medicine_id)
+
+
+        if (!isStillReferenced) {
+            // Safe to delete the medicine record as no other records reference it
+            const { error: medicineDeleteError } = await supabaseClient
+                .from('medicines')
+                .delete()
+                .eq('id', medicine_id)
+
+            if (medicineDeleteError) {
+                console.error('Medicine delete error:', medicineDeleteError)
+            }
+        }
+
+    } catch (error) {
+        console.error('❌ Error during cascade deletion:', error)
+        throw error
+    }
+}
+
+// Helper function to count the supplier payments recorded against a purchase
+// (a purchase with payments cannot be deleted)
+export async function countPurchasePayments(supabaseClient: SupabaseClient, purchase_id: string): Promise<number> {
+    const { count, error } = await supabaseClient
+        .from('supplier_payments')
+        .select('id', { count: 'exact', head: true })
+        .eq('purchase_id', purchase_id)
+
+    if (error) {
+        console.error('Error counting supplier payments:', error)
+        throw error
+    }
+
+    return count || 0
+}
+
+// Helper function to check if deleting a purchase item would delete a purchase that has payments
+// (the last item takes the purchase with it)
+export async function isLastItemOfPaidPurchase(supabaseClient: SupabaseClient, purchase_id: string, purchase_item_id: string): Promise<boolean> {
+    const { count: otherItems, error } = await supabaseClient
+        .from('purchase_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('purchase_id', purchase_id)
+        .neq('id', purchase_item_id)
+
+    if (error) {
+        console.error('Error counting remaining purchase items:', error)
+        throw error
+    }
+
+    return !otherItems && await countPurchasePayments(supabaseClient, purchase_id) > 0
+}
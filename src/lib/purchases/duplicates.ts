@@ -0,0 +1,136 @@
+/**
+ * Duplicate invoice detection for purchase entry and verification
+ * An exact duplicate (same supplier and invoice number, or same supplier, date and total)
+ * is blocked when saving; a likely duplicate is shown as a warning to confirm or verify past
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// Purchases this many days apart with the same total are flagged as likely duplicates
+export const LIKELY_DUPLICATE_DAYS = 7
+
+// Purchases saved before duplicates were blocked had "-<epoch ms>" appended to a repeated invoice number
+const AUTO_SUFFIX_PATTERN = /-\d{13}$/
+
+export interface DuplicateCheckTarget {
+    id?: string // the purchase itself when checking one that is already saved
+    invoice_number: string | null
+    purchase_date: string
+    total_amount: number
+}
+
+export interface DuplicateMatch {
+    purchase_id: string
+    invoice_number: string
+    purchase_date: string
+    total_amount: number
+    status: string
+    exact: boolean
+    reason: string
+}
+
+interface CandidatePurchase {
+    id: string
+    invoice_number: string
+    purchase_date: string
+    total_amount: number
+    status: string
+}
+
+/**
+ * Invoice number compared without case, spaces or punctuation, and without
+ * the timestamp suffix older entries were given when repeated
+ */
+export function normalizeInvoiceNumber(invoiceNumber: string | null | undefined) {
+    return (invoiceNumber || '').trim().replace(AUTO_SUFFIX_PATTERN, '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+// Helper function to count whole days between two YYYY-MM-DD dates
+function daysBetween(a: string, b: string) {
+    return Math.round(Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (24 * 60 * 60 * 1000))
+}
+
+/**
+ * Compares a purchase against others from the same supplier, exact matches first
+ */
+export function findDuplicateMatches(target: DuplicateCheckTarget, candidates: CandidatePurchase[]): DuplicateMatch[] {
+    const invoiceKey = normalizeInvoiceNumber(target.invoice_number)
+    const matches: DuplicateMatch[] = []
+
+    for (const candidate of candidates) {
+        if (candidate.id === target.id) continue
+
+        const sameTotal = Math.abs((candidate.total_amount || 0) - target.total_amount) < 0.01
+        const sameDate = candidate.purchase_date === target.purchase_date
+        let match: Pick<DuplicateMatch, 'exact' | 'reason'> | null = null
+
+        if (target.invoice_number && candidate.invoice_number === target.invoice_number) {
+            match = { exact: true, reason: `Invoice ${candidate.invoice_number} is already entered for this supplier` }
+        } else if (sameDate && sameTotal) {
+            match = { exact: true, reason: `A purchase of the same total on ${candidate.purchase_date} is already entered for this supplier` }
+        } else if (invoiceKey && normalizeInvoiceNumber(candidate.invoice_number) === invoiceKey) {
+            match = { exact: false, reason: `Invoice ${candidate.invoice_number} looks like the same invoice number` }
+        } else if (sameTotal && daysBetween(candidate.purchase_date, target.purchase_date) <= LIKELY_DUPLICATE_DAYS) {
+            match = { exact: false, reason: `Same total as invoice ${candidate.invoice_number} on ${candidate.purchase_date}` }
+        }
+
+        if (match) {
+            matches.push({
+                purchase_id: candidate.id,
+                invoice_number: candidate.invoice_number,
+                purchase_date: candidate.purchase_date,
+                total_amount: candidate.total_amount,
+                status: candidate.status,
+                ...match
+            })
+        }
+    }
+
+    return matches.sort((a, b) => Number(b.exact) - Number(a.exact))
+}
+
+/**
+ * Loads the supplier's other purchases that could be the same invoice and
+ * compares them. Cancelled purchases never count.
+ */
+export async function loadDuplicateMatches(
+    supabaseClient: SupabaseClient,
+    pharmacyId: string,
+    supplierId: string,
+    target: DuplicateCheckTarget
+): Promise<DuplicateMatch[]> {
+    // Anything near the date could share the total; the invoice number can match at any date
+    const windowStart = new Date(target.purchase_date)
+    windowStart.setDate(windowStart.getDate() - LIKELY_DUPLICATE_DAYS)
+    const windowEnd = new Date(target.purchase_date)
+    windowEnd.setDate(windowEnd.getDate() + LIKELY_DUPLICATE_DAYS)
+
+    const invoicePrefix = (target.invoice_number || '').trim().replace(AUTO_SUFFIX_PATTERN, '')
+
+    const [{ data: nearby }, { data: sameInvoice }] = await Promise.all([
+        supabaseClient
+            .from('purchases')
+            .select('id, invoice_number, purchase_date, total_amount, status')
+            .eq('pharmacy_id', pharmacyId)
+            .eq('supplier_id', supplierId)
+            .neq('status', 'cancelled')
+            .gte('purchase_date', windowStart.toISOString().split('T')[0])
+            .lte('purchase_date', windowEnd.toISOString().split('T')[0]),
+        invoicePrefix
+            ? supabaseClient
+                .from('purchases')
+                .select('id, invoice_number, purchase_date, total_amount, status')
+                .eq('pharmacy_id', pharmacyId)
+                .eq('supplier_id', supplierId)
+                .neq('status', 'cancelled')
+                .ilike('invoice_number', `${invoicePrefix.replace(/[%_]/g, '')}%`)
+            : Promise.resolve({ data: [] })
+    ])
+
+    const candidates = new Map<string, CandidatePurchase>()
+    for (const purchase of [...(nearby || []), ...(sameInvoice || [])] as CandidatePurchase[]) {
+        candidates.set(purchase.id, purchase)
+    }
+
+    return findDuplicateMatches(target, [...candidates.values()])
+}
@@ -0,0 +1,285 @@
+/**
+ * Monthly inward supplies (input tax credit) report in a GSTR-2B comparable layout
+ * Built by the GST purchases report route and downloaded as CSV or JSON from the reports page
+ */
+
+import { GSTIN_PATTERN } from '@/lib/purchases/gst'
+
+// Purchase as loaded by the report route
+export interface GstReportPurchase {
+    id: string
+    invoice_number: string
+    invoice_date: string
+    total_amount: number
+    is_interstate: boolean | null
+    suppliers: { id: string; name: string; gst_number: string | null; state: string | null } | null
+    purchase_items: {
+        tax_percentage: number | null
+        taxable_amount: number | null
+        cgst_amount: number | null
+        sgst_amount: number | null
+        igst_amount: number | null
+        medicines: { hsn_code: string | null } | null
+    }[]
+}
+
+export interface GstTaxFigures {
+    taxable_value: number
+    igst: number
+    cgst: number
+    sgst: number
+    cess: number
+}
+
+export interface GstReportLine extends GstTaxFigures {
+    hsn_code: string // blank when the medicine has no HSN code
+    rate: number
+}
+
+export interface GstReportInvoice extends GstTaxFigures {
+    purchase_id: string
+    invoice_number: string
+    invoice_date: string
+    invoice_type: 'R' // regular B2B invoice
+    invoice_value: number
+    place_of_supply: string
+    reverse_charge: 'N'
+    lines: GstReportLine[]
+}
+
+export interface GstReportSupplier extends GstTaxFigures {
+    gstin: string | null
+    supplier_name: string
+    gstin_missing: boolean
+    invoices: GstReportInvoice[]
+}
+
+export interface GstReportIssue {
+    purchase_id: string
+    supplier_name: string
+    invoice_number: string
+    issue: string
+}
+
+export interface GstPurchaseReport {
+    period: { month: string; from: string; to: string }
+    recipient: { name: string; gstin: string | null; state: string | null }
+    summary: GstTaxFigures & {
+        suppliers: number
+        invoices: number
+        invoice_value: number
+        total_tax: number
+        // ITC can only be claimed on invoices carrying a valid supplier GSTIN
+        eligible_tax: number
+        invoices_missing_gstin: number
+    }
+    suppliers: GstReportSupplier[]
+    issues: GstReportIssue[]
+}
+
+// Helper function to round to paise
+function round2(value: number) {
+    return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
+// Helper function to start a set of zero tax figures
+function emptyFigures(): GstTaxFigures {
+    return { taxable_value: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 }
+}
+
+// Helper function to add one set of tax figures onto another
+function addFigures(target: GstTaxFigures, source: GstTaxFigures) {
+    target.taxable_value = round2(target.taxable_value + source.taxable_value)
+    target.igst = round2(target.igst + source.igst)
+    target.cgst = round2(target.cgst + source.cgst)
+    target.sgst = round2(target.sgst + source.sgst)
+    target.cess = round2(target.cess + source.cess)
+}
+
+/**
+ * First and last day of a YYYY-MM month, or null for anything else
+ */
+export function monthRange(month: string): { from: string; to: string } | null {
+    const match = month.match(/^(\d{4})-(\d{2})$/)
+    if (!match || parseInt(match[2]) < 1 || parseInt(match[2]) > 12) return null
+
+    const lastDay = new Date(parseInt(match[1]), parseInt(match[2]), 0).getDate()
+    return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` }
+}
+
+/**
+ * Groups a month's purchases by supplier GSTIN, then invoice, then HSN code and
+ * GST rate. Suppliers without a GSTIN are kept (grouped by name) but flagged,
+ * and their tax is left out of the claimable total.
+ */
+export function buildGstPurchaseReport(
+    purchases: GstReportPurchase[],
+    month: string,
+    recipient: { name: string; gst_number: string | null; state: string | null }
+): GstPurchaseReport {
+    const range = monthRange(month) || { from: '', to: '' }
+    const placeOfSupply = [recipient.gst_number?.slice(0, 2), recipient.state].filter(Boolean).join('-')
+    const suppliers = new Map<string, GstReportSupplier>()
+    const issues: GstReportIssue[] = []
+
+    for (const purchase of purchases) {
+        const supplierName = purchase.suppliers?.name || 'Unknown supplier'
+        const gstin = purchase.suppliers?.gst_number?.trim().toUpperCase() || null
+        const validGstin = gstin !== null && GSTIN_PATTERN.test(gstin)
+        const addIssue = (issue: string) => issues.push({ purchase_id: purchase.id, supplier_name: supplierName, invoice_number: purchase.invoice_number, issue })
+
+        if (!gstin) {
+            addIssue('Supplier has no GSTIN - input tax credit cannot be claimed')
+        } else if (!validGstin) {
+            addIssue(`Supplier GSTIN ${gstin} is not a valid GST number`)
+        }
+
+        const supplierKey = validGstin ? gstin : `name:${supplierName}`
+        let supplier = suppliers.get(supplierKey)
+        if (!supplier) {
+            supplier = { gstin: validGstin ? gstin : null, supplier_name: supplierName, gstin_missing: !validGstin, invoices: [], ...emptyFigures() }
+            suppliers.set(supplierKey, supplier)
+        }
+
+        // One line per HSN code and rate, as on the GST portal
+        const lines = new Map<string, GstReportLine>()
+        let missingHsn = false
+
+        for (const item of purchase.purchase_items || []) {
+            const hsnCode = item.medicines?.hsn_code?.trim() || ''
+            const rate = Number(item.tax_percentage || 0)
+            if (!hsnCode) missingHsn = true
+
+            const key = `${hsnCode}|${rate}`
+            let line = lines.get(key)
+            if (!line) {
+                line = { hsn_code: hsnCode, rate, ...emptyFigures() }
+                lines.set(key, line)
+            }
+
+            addFigures(line, {
+                taxable_value: Number(item.taxable_amount || 0),
+                igst: Number(item.igst_amount || 0),
+                cgst: Number(item.cgst_amount || 0),
+                sgst: Number(item.sgst_amount || 0),
+                cess: 0
+            })
+        }
+
+        if (missingHsn) {
+            addIssue('Some items have no HSN code')
+        }
+
+        const invoice: GstReportInvoice = {
+            purchase_id: purchase.id,
+            invoice_number: purchase.invoice_number,
+            invoice_date: purchase.invoice_date,
+            invoice_type: 'R',
+            invoice_value: round2(Number(purchase.total_amount || 0)),
+            place_of_supply: placeOfSupply,
+            reverse_charge: 'N',
+            lines: [...lines.values()].sort((a, b) => a.hsn_code.localeCompare(b.hsn_code) || a.rate - b.rate),
+            ...emptyFigures()
+        }
+        invoice.lines.forEach(line => addFigures(invoice, line))
+
+        supplier.invoices.push(invoice)
+        addFigures(supplier, invoice)
+    }
+
+    const supplierList = [...suppliers.values()].sort((a, b) =>
+        Number(a.gstin_missing) - Number(b.gstin_missing) || (a.gstin || a.supplier_name).localeCompare(b.gstin || b.supplier_name)
+    )
+    supplierList.forEach(supplier => supplier.invoices.sort((a, b) => a.invoice_date.localeCompare(b.invoice_date) || a.invoice_number.localeCompare(b.invoice_number)))
+
+    const totals = emptyFigures()
+    const eligible = emptyFigures()
+    supplierList.forEach(supplier => {
+        addFigures(totals, supplier)
+        if (!supplier.gstin_missing) addFigures(eligible, supplier)
+    })
+
+    const allInvoices = supplierList.flatMap(supplier => supplier.invoices)
+
+    return {
+        period: { month, ...range },
+        recipient: { name: recipient.name, gstin: recipient.gst_number, state: recipient.state },
+        summary: {
+            ...totals,
+            suppliers: supplierList.length,
+            invoices: allInvoices.length,
+            invoice_value: round2(allInvoices.reduce((sum, invoice) => sum + invoice.invoice_value, 0)),
+            total_tax: round2(totals.igst + totals.cgst + totals.sgst + totals.cess),
+            eligible_tax: round2(eligible.igst + eligible.cgst + eligible.sgst + eligible.cess),
+            invoices_missing_gstin: supplierList.filter(supplier => supplier.gstin_missing).reduce((sum, supplier) => sum + supplier.invoices.length, 0)
+        },
+        suppliers: supplierList,
+        issues
+    }
+}
+
+// Helper function to quote a CSV value when it needs it
+function csvValue(value: string | number | null) {
+    const text = value === null ? '' : String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const CSV_HEADINGS = [
+    'GSTIN of supplier',
+    'Trade/Legal name',
+    'Invoice number',
+    'Invoice type',
+    'Invoice date',
+    'Invoice value (₹)',
+    'Place of supply',
+    'Supply attract reverse charge',
+    'HSN',
+    'Rate (%)',
+    'Taxable value (₹)',
+    'Integrated tax (₹)',
+    'Central tax (₹)',
+    'State/UT tax (₹)',
+    'Cess (₹)',
+    'ITC availability',
+    'Remarks'
+]
+
+/**
+ * One CSV row per invoice, HSN code and rate, with the columns in the order
+ * of the GSTR-2B B2B sheet so the two can be matched side by side
+ */
+export function gstPurchaseReportToCsv(report: GstPurchaseReport): string {
+    const rows: (string | number | null)[][] = [CSV_HEADINGS]
+
+    for (const supplier of report.suppliers) {
+        for (const invoice of supplier.invoices) {
+            // DD-MM-YYYY, as on the GST portal
+            const invoiceDate = invoice.invoice_date.split('-').reverse().join('-')
+            const lines = invoice.lines.length > 0 ? invoice.lines : [{ hsn_code: '', rate: 0, ...emptyFigures() }]
+
+            for (const line of lines) {
+                rows.push([
+                    supplier.gstin,
+                    supplier.supplier_name,
+                    invoice.invoice_number,
+                    invoice.invoice_type,
+                    invoiceDate,
+                    invoice.invoice_value.toFixed(2),
+                    invoice.place_of_supply,
+                    invoice.reverse_charge,
+                    line.hsn_code,
+                    line.rate,
+                    line.taxable_value.toFixed(2),
+                    line.igst.toFixed(2),
+                    line.cgst.toFixed(2),
+                    line.sgst.toFixed(2),
+                    line.cess.toFixed(2),
+                    supplier.gstin_missing ? 'No' : 'Yes',
+                    supplier.gstin_missing ? 'Supplier GSTIN missing or invalid' : ''
+                ])
+            }
+        }
+    }
+
+    return rows.map(row => row.map(csvValue).join(',')).join('\n')
+}
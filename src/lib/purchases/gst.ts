@@ -0,0 +1,118 @@
+/**
+ * GST on purchase invoices
+ * Shared by the purchase form (live totals) and the purchases API (saved values) so both round the same way
+ */
+
+// GSTIN: 2 digit state code, 10 character PAN, entity code, 'Z', checksum
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/
+
+export interface GstParty {
+    state?: string | null
+    gst_number?: string | null
+}
+
+export interface PurchaseLineAmounts {
+    gross_amount: number
+    discount_amount: number
+    taxable_amount: number
+    cgst_amount: number
+    sgst_amount: number
+    igst_amount: number
+    tax_amount: number
+    net_amount: number
+}
+
+export interface PurchaseTotals {
+    subtotal: number
+    discount_amount: number
+    taxable_amount: number
+    cgst_amount: number
+    sgst_amount: number
+    igst_amount: number
+    tax_amount: number
+    transport_charges: number
+    other_charges: number
+    total_amount: number
+}
+
+// Helper function to round to paise
+function round2(value: number) {
+    return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
+// Helper function to compare state names ("Tamil Nadu", "TAMILNADU" and "tamil  nadu" are the same state)
+function normalizeState(state: string) {
+    return state.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+/**
+ * Whether a purchase is inter-state (IGST) rather than intra-state (CGST + SGST).
+ * The state code in both GSTINs is used when available, otherwise the state names.
+ * Returns false when either side is unknown, which matches a local purchase.
+ */
+export function isInterstateSupply(supplier: GstParty | null | undefined, pharmacy: GstParty | null | undefined) {
+    const supplierCode = supplier?.gst_number?.slice(0, 2)
+    const pharmacyCode = pharmacy?.gst_number?.slice(0, 2)
+
+    if (supplierCode && pharmacyCode && /^\d{2}$/.test(supplierCode) && /^\d{2}$/.test(pharmacyCode)) {
+        return supplierCode !== pharmacyCode
+    }
+
+    if (supplier?.state && pharmacy?.state) {
+        return normalizeState(supplier.state) !== normalizeState(pharmacy.state)
+    }
+
+    return false
+}
+
+/**
+ * Amounts for one purchase line. Matches the calculate_purchase_item_amounts
+ * trigger: discount on quantity x rate, GST on what is left. Intra-state tax is
+ * split evenly with any odd paisa going to SGST.
+ */
+export function calculateLineAmounts(
+    line: { quantity: number; rate: number; discount_percentage?: number; tax_percentage?: number },
+    interstate: boolean
+): PurchaseLineAmounts {
+    const grossAmount = round2((line.quantity || 0) * (line.rate || 0))
+    const discountAmount = round2(grossAmount * (line.discount_percentage || 0) / 100)
+    const taxableAmount = round2(grossAmount - discountAmount)
+    const taxAmount = round2(taxableAmount * (line.tax_percentage || 0) / 100)
+    const cgstAmount = interstate ? 0 : round2(taxAmount / 2)
+
+    return {
+        gross_amount: grossAmount,
+        discount_amount: discountAmount,
+        taxable_amount: taxableAmount,
+        cgst_amount: cgstAmount,
+        sgst_amount: interstate ? 0 : round2(taxAmount - cgstAmount),
+        igst_amount: interstate ? taxAmount : 0,
+        tax_amount: taxAmount,
+        net_amount: round2(taxableAmount + taxAmount)
+    }
+}
+
+/**
+ * Invoice totals from its lines plus freight and other charges
+ */
+export function calculatePurchaseTotals(
+    lines: PurchaseLineAmounts[],
+    charges: { transport_charges?: number; other_charges?: number } = {}
+): PurchaseTotals {
+    const sum = (field: keyof PurchaseLineAmounts) => round2(lines.reduce((total, line) => total + line[field], 0))
+    const transportCharges = round2(charges.transport_charges || 0)
+    const otherCharges = round2(charges.other_charges || 0)
+
+    return {
+        subtotal: sum('gross_amount'),
+        discount_amount: sum('discount_amount'),
+        taxable_amount: sum('taxable_amount'),
+        cgst_amount: sum('cgst_amount'),
+        sgst_amount: sum('sgst_amount'),
+        igst_amount: sum('igst_amount'),
+        tax_amount: sum('tax_amount'),
+        transport_charges: transportCharges,
+        other_charges: otherCharges,
+        total_amount: round2(sum('net_amount') + transportCharges + otherCharges)
+    }
+}
@@ -0,0 +1,299 @@
+/**
+ * Reading distributor invoice files (CSV or Excel) for the purchase import
+ * Turns the file into rows, maps its columns to purchase fields and converts each row to a purchase line
+ */
+
+import readXlsxFile from 'read-excel-file'
+
+export type InvoiceImportField = 'medicine_name' | 'pack' | 'batch_number' | 'expiry_date' | 'quantity' | 'free' | 'mrp' | 'rate' | 'discount_percentage' | 'tax_percentage' | 'amount'
+
+// Import field -> column heading in the supplier's file
+export type ColumnMapping = Partial<Record<InvoiceImportField, string>>
+
+export type SheetCell = string | number | boolean | Date | null
+
+export const IMPORT_FIELDS: { field: InvoiceImportField; label: string; required: boolean; aliases: string[] }[] = [
+    { field: 'medicine_name', label: 'Item Name', required: true, aliases: ['item name', 'item', 'product', 'product name', 'description', 'particulars', 'medicine', 'name'] },
+    { field: 'pack', label: 'Pack', required: false, aliases: ['pack', 'packing', 'pack size', 'pkg', 'unit'] },
+    { field: 'batch_number', label: 'Batch', required: false, aliases: ['batch', 'batch no', 'batch number', 'b no', 'lot'] },
+    { field: 'expiry_date', label: 'Expiry', required: true, aliases: ['expiry', 'exp', 'exp date', 'expiry date', 'exp dt'] },
+    { field: 'quantity', label: 'Qty', required: true, aliases: ['qty', 'quantity', 'billed qty', 'sale qty'] },
+    { field: 'free', label: 'Free', required: false, aliases: ['free', 'free qty', 'fqty', 'scheme', 'bonus'] },
+    { field: 'mrp', label: 'MRP', required: false, aliases: ['mrp', 'm r p'] },
+    { field: 'rate', label: 'Rate', required: true, aliases: ['rate', 'purchase rate', 'ptr', 'net rate', 'price'] },
+    { field: 'discount_percentage', label: 'Disc %', required: false, aliases: ['disc', 'discount', 'disc per', 'discount per', 'dis'] },
+    { field: 'tax_percentage', label: 'GST %', required: false, aliases: ['gst', 'gst per', 'gst rate', 'tax', 'tax per', 'tax rate'] },
+    { field: 'amount', label: 'Amount', required: false, aliases: ['amount', 'amt', 'value', 'net amount', 'total'] }
+]
+
+export interface ImportedLine {
+    row: number // 1 based row number in the file, for messages
+    medicine_name: string
+    pack: string
+    batch_number: string
+    expiry_date: string // YYYY-MM, empty when it could not be read
+    quantity: number
+    free: number
+    mrp: number | null
+    rate: number
+    discount_percentage: number
+    tax_percentage: number | null // null when the file has no GST column
+    amount: number
+    errors: string[]
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+// Helper function to make a heading comparable ("Batch No." -> "batch no")
+function normalizeHeading(value: string) {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * Splits CSV text into rows, honouring quoted values. The delimiter
+ * (comma, semicolon or tab) is taken from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+    const firstLine = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'))
+    const delimiter = [',', ';', '\t']
+        .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+        .sort((a, b) => b.count - a.count)[0].candidate
+
+    const rows: string[][] = []
+    let row: string[] = []
+    let value = ''
+    let inQuotes = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                value += '"'
+                i++
+            } else if (char === '"') {
+                inQuotes = false
+            } else {
+                value += char
+            }
+        } else if (char === '"') {
+            inQuotes = true
+        } else if (char === delimiter) {
+            row.push(value.trim())
+            value = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++
+            row.push(value.trim())
+            rows.push(row)
+            row = []
+            value = ''
+        } else {
+            value += char
+        }
+    }
+
+    if (value || row.length > 0) {
+        row.push(value.trim())
+        rows.push(row)
+    }
+
+    return rows
+}
+
+/**
+ * Reads the first sheet of an .xlsx file or a .csv file into rows of cells
+ */
+export async function readInvoiceFile(file: File): Promise<SheetCell[][]> {
+    const name = file.name.toLowerCase()
+
+    if (name.endsWith('.xlsx')) {
+        const rows = await readXlsxFile(file)
+        return rows.map(row => row.map(cell => (cell ?? null) as SheetCell))
+    }
+
+    if (name.endsWith('.csv') || name.endsWith('.txt')) {
+        return parseCsv(await file.text())
+    }
+
+    throw new Error('Upload a .csv or .xlsx file. Older .xls files need to be saved as .xlsx first.')
+}
+
+/**
+ * Guesses which row holds the column headings: the first of the top rows
+ * naming at least three known columns. Invoice exports often start with the
+ * distributor's name and address.
+ */
+export function detectHeaderRow(rows: SheetCell[][]): number {
+    const aliases = new Set(IMPORT_FIELDS.flatMap(field => field.aliases))
+
+    for (let i = 0; i < Math.min(rows.length, 20); i++) {
+        const hits = rows[i].filter(cell => typeof cell === 'string' && aliases.has(normalizeHeading(cell))).length
+        if (hits >= 3) return i
+    }
+
+    return 0
+}
+
+/**
+ * Column headings from the header row. Blank or repeated headings get a
+ * "Column N" name so every column can still be picked.
+ */
+export function columnHeadings(rows: SheetCell[][], headerRow: number): string[] {
+    const width = Math.max(0, ...rows.slice(headerRow, headerRow + 50).map(row => row.length))
+    const seen = new Set<string>()
+
+    return Array.from({ length: width }, (_, index) => {
+        const cell = rows[headerRow]?.[index]
+        let heading = cell === null || cell === undefined ? '' : String(cell).trim()
+        if (!heading || seen.has(heading)) heading = `Column ${index + 1}`
+        seen.add(heading)
+        return heading
+    })
+}
+
+/**
+ * Picks a column for each field from the headings, by known heading names
+ */
+export function guessColumnMapping(headings: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {}
+    const used = new Set<string>()
+
+    for (const { field, aliases } of IMPORT_FIELDS) {
+        const heading = headings.find(candidate => !used.has(candidate) && aliases.includes(normalizeHeading(candidate)))
+        if (heading) {
+            mapping[field] = heading
+            used.add(heading)
+        }
+    }
+
+    return mapping
+}
+
+/**
+ * A saved mapping, keeping only the columns this file still has
+ */
+export function applySavedMapping(headings: string[], saved: ColumnMapping): ColumnMapping {
+    const mapping: ColumnMapping = {}
+
+    for (const { field } of IMPORT_FIELDS) {
+        const heading = saved[field]
+        const match = heading && headings.find(candidate => normalizeHeading(candidate) === normalizeHeading(heading))
+        if (match) mapping[field] = match
+    }
+
+    return mapping
+}
+
+// Helper function to read a number, allowing currency symbols and thousands separators
+function parseNumber(cell: SheetCell): number | null {
+    if (typeof cell === 'number') return cell
+    if (typeof cell !== 'string') return null
+
+    const cleaned = cell.replace(/[₹,%\s]/g, '').replace(/^rs\.?/i, '')
+    if (!cleaned) return null
+
+    const value = Number(cleaned)
+    return isNaN(value) ? null : value
+}
+
+// Helper function to turn a two digit year into a four digit one
+function fullYear(year: string) {
+    return year.length === 2 ? `20${year}` : year
+}
+
+/**
+ * Reads an expiry cell as YYYY-MM. Understands spreadsheet dates, MM/YY,
+ * MM-YYYY, MMM-YY, DD/MM/YYYY and YYYY-MM(-DD).
+ */
+export function parseExpiry(cell: SheetCell): string | null {
+    if (cell instanceof Date) {
+        return isNaN(cell.getTime()) ? null : `${cell.getUTCFullYear()}-${String(cell.getUTCMonth() + 1).padStart(2, '0')}`
+    }
+
+    // Spreadsheet date serial number (days since 1899-12-30)
+    if (typeof cell === 'number') {
+        if (cell < 20000 || cell > 80000) return null
+        const date = new Date(Date.UTC(1899, 11, 30) + cell * 86400000)
+        return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+    }
+
+    if (typeof cell !== 'string') return null
+    const value = cell.trim().toLowerCase()
+
+    let match = value.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?$/)
+    if (match) return validMonth(match[1], match[2])
+
+    match = value.match(/^\d{1,2}[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/)
+    if (match) return validMonth(fullYear(match[2]), match[1])
+
+    match = value.match(/^(\d{1,2})[-/.](\d{2}|\d{4})$/)
+    if (match) return validMonth(fullYear(match[2]), match[1])
+
+    match = value.match(/^([a-z]{3})[a-z]*[-/.\s']*(\d{2}|\d{4})$/)
+    if (match && MONTHS.includes(match[1])) return validMonth(fullYear(match[2]), String(MONTHS.indexOf(match[1]) + 1))
+
+    return null
+}
+
+// Helper function to build YYYY-MM when the month is real
+function validMonth(year: string, month: string) {
+    const monthNumber = parseInt(month)
+    return monthNumber >= 1 && monthNumber <= 12 ? `${year}-${String(monthNumber).padStart(2, '0')}` : null
+}
+
+/**
+ * Converts the rows below the header into purchase lines using the mapping.
+ * Blank rows and rows without an item name (sub-totals, tax summaries) are skipped.
+ */
+export function extractLines(rows: SheetCell[][], headerRow: number, headings: string[], mapping: ColumnMapping): ImportedLine[] {
+    const columnOf = (field: InvoiceImportField) => mapping[field] ? headings.indexOf(mapping[field] as string) : -1
+    const columns = Object.fromEntries(IMPORT_FIELDS.map(({ field }) => [field, columnOf(field)])) as Record<InvoiceImportField, number>
+    const cellAt = (row: SheetCell[], field: InvoiceImportField) => columns[field] >= 0 ? row[columns[field]] ?? null : null
+    const text = (cell: SheetCell) => cell === null || cell === undefined ? '' : String(cell).trim()
+
+    const lines: ImportedLine[] = []
+
+    rows.slice(headerRow + 1).forEach((row, offset) => {
+        const medicineName = text(cellAt(row, 'medicine_name'))
+        const quantity = parseNumber(cellAt(row, 'quantity'))
+
+        if (!medicineName || /^(sub\s*)?total\b/i.test(medicineName)) return
+        if (quantity === null && parseNumber(cellAt(row, 'rate')) === null) return
+
+        const errors: string[] = []
+        const rate = parseNumber(cellAt(row, 'rate'))
+        const mrp = parseNumber(cellAt(row, 'mrp'))
+        const discount = parseNumber(cellAt(row, 'discount_percentage'))
+        const tax = parseNumber(cellAt(row, 'tax_percentage'))
+        const expiryCell = cellAt(row, 'expiry_date')
+        const expiry = parseExpiry(expiryCell)
+
+        if (quantity === null || !Number.isInteger(quantity) || quantity <= 0) {
+            errors.push('Quantity must be a whole number greater than 0')
+        }
+        if (rate === null || rate < 0) {
+            errors.push('Rate is missing')
+        }
+        if (!expiry) {
+            errors.push(text(expiryCell) ? `Expiry "${text(expiryCell)}" is not a date` : 'Expiry is missing')
+        }
+
+        lines.push({
+            row: headerRow + offset + 2,
+            medicine_name: medicineName,
+            pack: text(cellAt(row, 'pack')),
+            batch_number: text(cellAt(row, 'batch_number')),
+            expiry_date: expiry || '',
+            quantity: quantity || 0,
+            free: Math.max(0, Math.floor(parseNumber(cellAt(row, 'free')) || 0)),
+            mrp,
+            rate: rate || 0,
+            discount_percentage: discount !== null && discount >= 0 && discount <= 100 ? discount : 0,
+            tax_percentage: tax !== null && tax >= 0 && tax <= 100 ? tax : null,
+            amount: parseNumber(cellAt(row, 'amount')) ?? Math.round((quantity || 0) * (rate || 0) * 100) / 100,
+            errors
+        })
+    })
+
+    return lines
+}
@@ -0,0 +1,129 @@
+/**
+ * Reorder quantities from recent sales and current stock
+ * Used by the reorder route, which feeds the reorder screen that raises purchase orders
+ */
+
+// Row returned by the reorder_candidates() function
+export interface ReorderCandidate {
+    medicine_id: string
+    medicine_name: string
+    manufacturer: string | null
+    strength: string | null
+    pack_size: string | null
+    current_stock: number
+    consumed: number
+    minimum_stock: number | null
+    reorder_level: number | null
+    maximum_stock: number | null
+    on_order: number
+    last_rate: number | null
+    last_supplier_id: string | null
+    last_supplier_name: string | null
+}
+
+export interface ReorderOptions {
+    // Sales history used to estimate daily consumption
+    days: number
+    // Days it usually takes a supplier to deliver
+    lead_time_days: number
+    // Days of sales each order should cover once it arrives
+    cover_days: number
+}
+
+export interface ReorderSuggestion extends ReorderCandidate {
+    daily_consumption: number
+    reorder_point: number
+    target_stock: number
+    suggested_quantity: number
+    estimated_amount: number
+    // Days the sellable stock lasts at the current rate of sale, null when nothing sells
+    days_of_stock: number | null
+}
+
+export interface ReorderSupplierGroup {
+    supplier_id: string | null
+    supplier_name: string
+    items: ReorderSuggestion[]
+    estimated_amount: number
+}
+
+export const DEFAULT_REORDER_OPTIONS: ReorderOptions = {
+    days: 30,
+    lead_time_days: 7,
+    cover_days: 30
+}
+
+// Helper function to round to paise
+function round2(value: number) {
+    return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
+/**
+ * Works out whether a medicine needs reordering and how much to order.
+ * Stock is reordered once it falls to the reorder point - the larger of the
+ * reorder level and what sells during the supplier's lead time - and is
+ * topped up to cover the lead time plus cover_days of sales, never above
+ * maximum_stock. Quantity already on open orders counts towards stock.
+ */
+export function calculateReorderSuggestion(candidate: ReorderCandidate, options: ReorderOptions): ReorderSuggestion {
+    const dailyConsumption = options.days > 0 ? candidate.consumed / options.days : 0
+    const reorderLevel = candidate.reorder_level ?? 0
+    const minimumStock = candidate.minimum_stock ?? 0
+    const projectedStock = candidate.current_stock + candidate.on_order
+
+    const reorderPoint = Math.max(reorderLevel, minimumStock, Math.ceil(dailyConsumption * options.lead_time_days))
+    let targetStock = Math.max(reorderPoint + minimumStock, Math.ceil(dailyConsumption * (options.lead_time_days + options.cover_days)))
+    if (candidate.maximum_stock && candidate.maximum_stock > 0) {
+        targetStock = Math.min(targetStock, candidate.maximum_stock)
+    }
+
+    const suggestedQuantity = projectedStock <= reorderPoint ? Math.max(targetStock - projectedStock, 0) : 0
+
+    return {
+        ...candidate,
+        daily_consumption: round2(dailyConsumption),
+        reorder_point: reorderPoint,
+        target_stock: targetStock,
+        suggested_quantity: suggestedQuantity,
+        estimated_amount: round2(suggestedQuantity * (candidate.last_rate || 0)),
+        days_of_stock: dailyConsumption > 0 ? Math.floor(candidate.current_stock / dailyConsumption) : null
+    }
+}
+
+/**
+ * Medicines that need reordering, grouped by the supplier they were last
+ * bought from. Medicines never bought through a purchase are grouped under
+ * "No previous supplier". Most urgent (fewest days of stock) first.
+ */
+export function buildReorderSuggestions(candidates: ReorderCandidate[], options: ReorderOptions): ReorderSupplierGroup[] {
+    const groups = new Map<string, ReorderSupplierGroup>()
+
+    for (const candidate of candidates) {
+        const suggestion = calculateReorderSuggestion(candidate, options)
+        if (suggestion.suggested_quantity <= 0) continue
+
+        const key = suggestion.last_supplier_id || 'none'
+        let group = groups.get(key)
+        if (!group) {
+            group = {
+                supplier_id: suggestion.last_supplier_id,
+                supplier_name: suggestion.last_supplier_name || 'No previous supplier',
+                items: [],
+                estimated_amount: 0
+            }
+            groups.set(key, group)
+        }
+
+        group.items.push(suggestion)
+        group.estimated_amount = round2(group.estimated_amount + suggestion.estimated_amount)
+    }
+
+    const urgency = (item: ReorderSuggestion) => item.days_of_stock ?? Number.MAX_SAFE_INTEGER
+    const groupList = [...groups.values()]
+    groupList.forEach(group => group.items.sort((a, b) => urgency(a) - urgency(b) || a.medicine_name.localeCompare(b.medicine_name)))
+
+    // Known suppliers first, alphabetically
+    return groupList.sort((a, b) =>
+        Number(a.supplier_id === null) - Number(b.supplier_id === null) || a.supplier_name.localeCompare(b.supplier_name)
+    )
+}
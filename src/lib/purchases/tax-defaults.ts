@@ -0,0 +1,86 @@
+/**
+ * Server-side GST lookups for purchase entry
+ * Used by the purchases route when saving and by the tax defaults route that feeds the purchase form
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { isInterstateSupply } from '@/lib/purchases/gst'
+import { loadPharmacySettings } from '@/lib/settings/pharmacy-settings'
+
+export interface PurchaseTaxContext {
+    interstate: boolean
+    pharmacy_state: string | null
+    supplier_state: string | null
+    default_tax_percentage: number
+}
+
+export interface MedicineTaxDefault {
+    medicine_name: string
+    hsn_code: string | null
+    tax_percentage: number
+    source: 'medicine' | 'hsn' | 'default'
+}
+
+/**
+ * Whether a purchase from this supplier is inter-state, and the pharmacy's
+ * default GST rate. A supplier that does not exist yet is treated as local.
+ */
+export async function loadPurchaseTaxContext(
+    supabaseClient: SupabaseClient,
+    pharmacyId: string,
+    supplierName: string | null
+): Promise<PurchaseTaxContext> {
+    const [{ data: pharmacy }, settings, { data: supplier }] = await Promise.all([
+        supabaseClient
+            .from('pharmacies')
+            .select('state, gst_number')
+            .eq('id', pharmacyId)
+            .single(),
+        loadPharmacySettings(supabaseClient, pharmacyId),
+        supplierName
+            ? supabaseClient
+                .from('suppliers')
+                .select('state, gst_number')
+                .eq('pharmacy_id', pharmacyId)
+                .eq('name', supplierName)
+                .limit(1)
+                .maybeSingle()
+            : Promise.resolve({ data: null })
+    ])
+
+    return {
+        interstate: isInterstateSupply(supplier, pharmacy),
+        pharmacy_state: pharmacy?.state || null,
+        supplier_state: supplier?.state || null,
+        default_tax_percentage: settings.default_tax_percentage
+    }
+}
+
+/**
+ * Suggested GST rate for each medicine name (last rate used for the medicine,
+ * then for its HSN code, then the pharmacy default)
+ */
+export async function loadMedicineTaxDefaults(
+    supabaseClient: SupabaseClient,
+    pharmacyId: string,
+    medicineNames: string[]
+): Promise<Map<string, MedicineTaxDefault>> {
+    const defaults = new Map<string, MedicineTaxDefault>()
+    if (medicineNames.length === 0) return defaults
+
+    const { data, error } = await supabaseClient.rpc('purchase_tax_defaults', {
+        p_pharmacy_id: pharmacyId,
+        p_medicine_names: medicineNames
+    })
+
+    if (error) {
+        console.error('❌ GST default lookup error:', error)
+        throw new Error('Failed to look up GST rates')
+    }
+
+    for (const row of (data || []) as MedicineTaxDefault[]) {
+        defaults.set(row.medicine_name, { ...row, tax_percentage: Number(row.tax_percentage) })
+    }
+
+    return defaults
+}
@@ -0,0 +1,147 @@
+/**
+ * Per-pharmacy preferences stored in pharmacy_settings
+ * Edited on the settings page and read by the routes that apply stock and expiry thresholds
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface PharmacySettings {
+    low_stock_threshold: number
+    expiry_critical_days: number
+    expiry_warning_days: number
+    expiry_alert_days: number
+    auto_reorder: boolean
+    default_markup_percentage: number
+    default_tax_percentage: number
+    currency: string
+    email_notifications: boolean
+    sms_notifications: boolean
+    cleanup_retention_years: number
+}
+
+// Column defaults in supabase_schema.sql and pharmacy_settings.sql
+export const DEFAULT_PHARMACY_SETTINGS: PharmacySettings = {
+    low_stock_threshold: 10,
+    expiry_critical_days: 30,
+    expiry_warning_days: 60,
+    expiry_alert_days: 90,
+    auto_reorder: false,
+    default_markup_percentage: 20,
+    default_tax_percentage: 12,
+    currency: 'INR',
+    email_notifications: true,
+    sms_notifications: false,
+    cleanup_retention_years: 4
+}
+
+export const SUPPORTED_CURRENCIES = ['INR', 'USD', 'EUR', 'GBP', 'AED', 'NPR', 'LKR', 'BDT']
+
+const SETTINGS_COLUMNS = Object.keys(DEFAULT_PHARMACY_SETTINGS) as (keyof PharmacySettings)[]
+
+const INTEGER_FIELDS: (keyof PharmacySettings)[] = ['low_stock_threshold', 'expiry_critical_days', 'expiry_warning_days', 'expiry_alert_days', 'cleanup_retention_years']
+const PERCENTAGE_FIELDS: (keyof PharmacySettings)[] = ['default_markup_percentage', 'default_tax_percentage']
+const BOOLEAN_FIELDS: (keyof PharmacySettings)[] = ['auto_reorder', 'email_notifications', 'sms_notifications']
+
+/**
+ * Settings for a pharmacy, with defaults filled in for a pharmacy that has
+ * never saved any (or for columns left null)
+ */
+export async function loadPharmacySettings(supabaseClient: SupabaseClient, pharmacyId: string): Promise<PharmacySettings> {
+    const { data, error } = await supabaseClient
+        .from('pharmacy_settings')
+        .select(SETTINGS_COLUMNS.join(', '))
+        .eq('pharmacy_id', pharmacyId)
+        .maybeSingle()
+
+    if (error) {
+        console.error('Pharmacy settings fetch error:', error)
+    }
+
+    const row = (data || {}) as Partial<Record<keyof PharmacySettings, unknown>>
+    const settings = { ...DEFAULT_PHARMACY_SETTINGS }
+
+    for (const column of SETTINGS_COLUMNS) {
+        const value = row[column]
+        if (value === null || value === undefined) continue
+        // DECIMAL columns come back as strings
+        Object.assign(settings, { [column]: typeof DEFAULT_PHARMACY_SETTINGS[column] === 'number' ? Number(value) : value })
+    }
+
+    return settings
+}
+
+/**
+ * Checks a settings update against the current values. Returns the merged
+ * settings, or an error message for the first field that is not valid.
+ */
+export function mergePharmacySettings(
+    current: PharmacySettings,
+    changes: Record<string, unknown>
+): { settings: PharmacySettings; error: string | null } {
+    const settings = { ...current }
+    const fail = (error: string) => ({ settings: current, error })
+
+    for (const field of INTEGER_FIELDS) {
+        if (changes[field] === undefined) continue
+        const value = Number(changes[field])
+        if (!Number.isInteger(value) || value < 0 || value > 3650) {
+            return fail(`${field} must be a whole number between 0 and 3650`)
+        }
+        Object.assign(settings, { [field]: value })
+    }
+
+    for (const field of PERCENTAGE_FIELDS) {
+        if (changes[field] === undefined) continue
+        const value = Number(changes[field])
+        if (!Number.isFinite(value) || value < 0 || (field === 'default_tax_percentage' && value > 100)) {
+            return fail(`${field} must be a valid percentage`)
+        }
+        Object.assign(settings, { [field]: value })
+    }
+
+    for (const field of BOOLEAN_FIELDS) {
+        if (changes[field] === undefined) continue
+        if (typeof changes[field] !== 'boolean') {
+            return fail(`${field} must be true or false`)
+        }
+        Object.assign(settings, { [field]: changes[field] })
+    }
+
+    if (changes.currency !== undefined) {
+        const currency = String(changes.currency).trim().toUpperCase()
+        if (!SUPPORTED_CURRENCIES.includes(currency)) {
+            return fail(`currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}`)
+        }
+        settings.currency = currency
+    }
+
+    if (settings.expiry_critical_days < 1) {
+        return fail('Critical expiry window must be at least 1 day')
+    }
+
+    if (settings.expiry_critical_days >= settings.expiry_warning_days || settings.expiry_warning_days > settings.expiry_alert_days) {
+        return fail('Expiry windows must increase: critical < warning ≤ alert days')
+    }
+
+    if (settings.cleanup_retention_years < 1 || settings.cleanup_retention_years > 50) {
+        return fail('Data retention must be between 1 and 50 years')
+    }
+
+    return { settings, error: null }
+}
+
+/**
+ * Amount in the pharmacy's currency, e.g. ₹1,234.50 for INR
+ */
+export function formatCurrency(
+    amount: number,
+    currency: string = DEFAULT_PHARMACY_SETTINGS.currency,
+    fractionDigits: number = 2
+) {
+    return new Intl.NumberFormat('en-IN', {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits
+    }).format(amount || 0)
+}
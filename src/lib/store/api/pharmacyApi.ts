@@ -1,20 +1,36 @@
 import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react'
 import { Medicine, Purchase, Supplier } from '@/lib/supabase'
 import { supabase } from '@/lib/supabase'
+import type { PharmacyRole } from '@/lib/auth/permissions'
+import { ACTIVE_PHARMACY_HEADER, getActivePharmacyId } from '@/lib/auth/active-pharmacy'
+import type { ColumnMapping } from '@/lib/purchases/invoice-import'
+import type { MedicineTaxDefault, PurchaseTaxContext } from '@/lib/purchases/tax-defaults'
+import type { GstPurchaseReport } from '@/lib/purchases/gst-report'
+import type { PharmacySettings } from '@/lib/settings/pharmacy-settings'
+import type { ReorderOptions, ReorderSupplierGroup } from '@/lib/purchases/reorder'
+import type { DuplicateMatch } from '@/lib/purchases/duplicates'
 
 // Enhanced interfaces for API operations
 export interface CreatePurchaseRequest {
     supplier_name: string
     invoice_number: string
     date: string
+    transport_charges?: number
+    other_charges?: number
+    purchase_order_id?: string // the open purchase order this invoice receives
+    status?: 'draft' | 'received' // a draft adds no stock until goods are received against it
+    allow_likely_duplicate?: boolean // save even though it looks like an invoice already entered
     items: {
         medicine_name: string
         pack?: string
         quantity: number
-        expiry_date: string
+        Free?: number | string
+        expiry_date: string // may be left empty on a draft
         batch_number?: string
         mrp?: number
         rate: number
+        discount_percentage?: number
+        tax_percentage?: number // left out to use the medicine's default GST rate
         amount: number
     }[]
 }
@@ -27,14 +43,30 @@ export interface PurchaseResponse extends Purchase {
 export interface PurchaseItem {
     id: string
     purchase_id: string
+    medicine_id?: string
     medicine_name: string
+    generic_name?: string
     pack?: string
     quantity: number
+    free_quantity?: number
     expiry_date: string
     batch_number?: string
     mrp?: number
     rate: number
+    discount_percentage?: number
+    tax_percentage?: number
+    taxable_amount?: number
+    tax_amount?: number
     amount: number
+    received_quantity?: number
+    damaged_quantity?: number
+    outstanding_quantity?: number
+}
+
+export interface UpdatePurchaseRequest {
+    invoice_number?: string
+    date?: string
+    notes?: string | null
 }
 
 export interface PurchaseSearchResult {
@@ -52,21 +84,41 @@ export interface PurchaseSearchResult {
     expiry_date: string | null
     purchase_date: string
     invoice_number: string
+    status?: string
     total_amount: number
     manufacturer?: string
     strength?: string
     unit_type?: string
 }
 
+export type PurchaseSearchSort = 'created_at' | 'purchase_date' | 'expiry_date' | 'medicine_name' | 'supplier_name' | 'batch_number' | 'total_amount' | 'net_amount'
+
 export interface PurchaseSearchFilters {
     medicine_name?: string
     supplier_name?: string
     batch_number?: string
     date?: string
+    date_from?: string
+    date_to?: string
+    min_amount?: number // invoice total
+    max_amount?: number
+    expiry_from?: string
+    expiry_to?: string
+    status?: string
+    sort_by?: PurchaseSearchSort
+    sort_order?: 'asc' | 'desc'
     page?: number
     limit?: number
 }
 
+export interface PurchaseSearchResponse {
+    data: PurchaseSearchResult[]
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+}
+
 export interface InventoryItem {
     medicine_name: string
     total_quantity: number
@@ -76,17 +128,47 @@ export interface InventoryItem {
     last_purchase_date: string
 }
 
+export interface StockAdjustmentRequest {
+    medicine_name: string
+    batch_number: string
+    expiry_date?: string
+    quantity: number
+    operation: 'add' | 'subtract'
+    adjustment_type?: 'adjustment' | 'damaged'
+    reason: string
+    notes?: string
+}
+
+export interface StockAdjustmentResponse {
+    message: string
+    medicine_name: string
+    batch_number: string
+    expiry_date: string
+    stock_before: number
+    stock_after: number
+    transaction_id: string
+}
+
 export interface ExpiryAlert {
+    id: string // current_inventory row of the batch
     medicine_name: string
     supplier_name?: string
     batch_number?: string
     quantity: number
+    current_stock: number
     expiry_date: string
     days_to_expiry: number
     estimated_loss: number
     mrp?: number
 }
 
+// Expiry bands from the pharmacy's settings
+export interface ExpiryThresholds {
+    critical_days: number
+    warning_days: number
+    alert_days: number
+}
+
 export interface ExpiryAlertsResponse {
     data: ExpiryAlert[]
     total: number
@@ -94,13 +176,16 @@ export interface ExpiryAlertsResponse {
     limit: number
     totalPages: number
     totalValueAtRisk: number
+    thresholds?: ExpiryThresholds
 }
 
 export interface ExpiryStats {
     expiredThisWeek: number
-    expiringIn30Days: number
-    expiringIn90Days: number
+    expiringCritical: number
+    expiringInAlertWindow: number
     valueAtRisk: number
+    thresholds?: ExpiryThresholds
+    currency?: string
     recentExpiries: Array<{
         medicine_name: string
         batch_number?: string
@@ -112,6 +197,686 @@ export interface ExpiryStats {
     }>
 }
 
+export type ExpiryAlertStatus = 'active' | 'acknowledged' | 'resolved'
+
+export interface ExpiryAlertRecord {
+    id: string
+    medicine_id: string
+    medicine_name: string
+    batch_number: string
+    expiry_date: string
+    alert_date: string
+    alert_type: 'expired' | '30_days' | '60_days' | '90_days'
+    days_to_expiry: number
+    current_stock: number
+    estimated_loss: number
+    status: ExpiryAlertStatus
+    notes: string | null
+    acknowledged_by: string | null
+    acknowledged_at: string | null
+    resolved_by: string | null
+    resolved_at: string | null
+    updated_at: string
+}
+
+export interface ExpiryAlertWorklistResponse {
+    data: ExpiryAlertRecord[]
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+    counts: Record<ExpiryAlertStatus, number>
+}
+
+export interface RefreshExpiryAlertsResponse {
+    success: boolean
+    message: string
+    stats: {
+        created: number
+        refreshed: number
+        reopened: number
+        auto_resolved: number
+    }
+}
+
+export interface CreateSaleRequest {
+    customer_name?: string
+    customer_phone?: string
+    doctor_name?: string
+    payment_mode?: 'cash' | 'card' | 'upi' | 'credit'
+    discount_percentage?: number
+    notes?: string
+    items: {
+        medicine_name: string
+        quantity: number
+    }[]
+}
+
+export interface SaleItem {
+    id: string
+    medicine_id: string
+    batch_number: string
+    expiry_date: string
+    quantity: number
+    mrp: number
+    amount: number
+    medicines?: {
+        name: string
+        manufacturer?: string
+    }
+}
+
+export interface Sale {
+    id: string
+    bill_number: string
+    sale_date: string
+    customer_name?: string
+    customer_phone?: string
+    doctor_name?: string
+    subtotal: number
+    discount_percentage: number
+    discount_amount: number
+    total_amount: number
+    payment_mode: string
+    notes?: string
+    created_at: string
+    sale_items: SaleItem[]
+}
+
+export interface SalesResponse {
+    data: Sale[]
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+}
+
+export interface SaleBatchAvailability {
+    medicine_name: string
+    total_available: number
+    batches: {
+        batch_number: string
+        expiry_date: string
+        available_stock: number
+        mrp: number
+    }[]
+}
+
+export interface CreatePurchaseReturnRequest {
+    reason?: string
+    notes?: string
+    return_date?: string
+    items: {
+        purchase_item_id: string
+        quantity: number
+        reason?: string
+    }[]
+}
+
+export interface PurchaseReturnItem {
+    id: string
+    purchase_item_id: string
+    purchase_id: string
+    batch_number: string
+    expiry_date: string
+    quantity: number
+    rate: number
+    amount: number
+    reason?: string
+    medicines?: {
+        name: string
+        manufacturer?: string
+    }
+    purchases?: {
+        invoice_number: string
+        invoice_date: string
+    }
+}
+
+export interface PurchaseReturn {
+    id: string
+    supplier_id: string
+    debit_note_number: string
+    return_date: string
+    reason?: string
+    total_amount: number
+    status: 'issued' | 'adjusted' | 'cancelled'
+    notes?: string
+    created_at: string
+    suppliers?: Pick<Supplier, 'id' | 'name' | 'address' | 'city' | 'state' | 'gst_number' | 'drug_license_number'>
+    pharmacies?: {
+        name: string
+        address?: string
+        city?: string
+        state?: string
+        phone?: string
+        gst_number?: string
+        license_number?: string
+    }
+    purchase_return_items: PurchaseReturnItem[]
+    supplier_balance?: SupplierBalance | null
+}
+
+export interface SupplierBalance {
+    supplier_id: string
+    supplier_name: string
+    total_purchases: number
+    total_paid: number
+    total_returns: number
+    outstanding_balance: number
+}
+
+export interface PurchaseReturnsResponse {
+    data: PurchaseReturn[]
+    supplier_balances: SupplierBalance[]
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+}
+
+export interface PurchasePaymentInfo {
+    id: string
+    supplier_id: string
+    invoice_number: string
+    invoice_date: string
+    due_date: string | null
+    total_amount: number
+    paid_amount: number
+    balance_amount: number
+    payment_status: 'pending' | 'partial' | 'paid' | 'overdue'
+    status: string
+    suppliers?: Pick<Supplier, 'id' | 'name' | 'credit_days'>
+}
+
+export interface SupplierPayment {
+    id: string
+    purchase_id: string
+    supplier_id: string
+    payment_date: string
+    amount: number
+    payment_mode: 'cash' | 'cheque' | 'bank_transfer' | 'upi' | 'card'
+    reference_number?: string
+    notes?: string
+    created_at: string
+}
+
+export interface CreateSupplierPaymentRequest {
+    purchase_id: string
+    amount: number
+    payment_mode: SupplierPayment['payment_mode']
+    payment_date?: string
+    reference_number?: string
+    notes?: string
+}
+
+export interface SupplierLedgerEntry {
+    id: string
+    date: string
+    type: 'purchase' | 'payment' | 'debit_note'
+    reference: string
+    description: string
+    purchase_id: string | null
+    debit: number
+    credit: number
+    balance: number
+}
+
+export interface SupplierLedgerResponse {
+    supplier: Pick<Supplier, 'id' | 'name' | 'contact_person' | 'phone' | 'city' | 'credit_days' | 'credit_limit'>
+    entries: SupplierLedgerEntry[]
+    invoices: PurchasePaymentInfo[]
+    summary: {
+        total_purchases: number
+        total_paid: number
+        total_returns: number
+        outstanding_balance: number
+        overdue_amount: number
+    }
+}
+
+export interface OutstandingPaymentsResponse {
+    invoices: PurchasePaymentInfo[]
+    supplier_balances: SupplierBalance[]
+    total_outstanding: number
+    total_overdue: number
+}
+
+export interface SupplierFormData {
+    name: string
+    contact_person?: string
+    phone?: string
+    email?: string
+    address?: string
+    city?: string
+    state?: string
+    pincode?: string
+    gst_number?: string
+    drug_license_number?: string
+    credit_days?: number
+    credit_limit?: number
+    is_active?: boolean
+}
+
+export interface MergeSuppliersResponse {
+    target_supplier_id: string
+    purchases_moved: number
+    orders_moved: number
+    returns_moved: number
+    payments_moved: number
+    suppliers_removed: number
+    message: string
+}
+
+export type MedicineFormData = Pick<Medicine,
+    'name' | 'generic_name' | 'brand_name' | 'manufacturer' | 'composition' | 'strength' | 'dosage_form' |
+    'pack_size' | 'unit_type' | 'hsn_code' | 'schedule' | 'prescription_required' | 'storage_conditions'
+>
+
+export interface DuplicateMedicineCandidate extends Pick<Medicine,
+    'id' | 'name' | 'generic_name' | 'manufacturer' | 'strength' | 'dosage_form' | 'pack_size' | 'hsn_code' | 'schedule'
+> {
+    purchase_lines: number
+    current_stock: number
+}
+
+export interface DuplicateMedicineGroup {
+    key: string
+    medicines: DuplicateMedicineCandidate[]
+}
+
+export interface MergeMedicinesResponse {
+    target_medicine_id: string
+    purchase_items_moved: number
+    inventory_moved: number
+    inventory_combined: number
+    transactions_moved: number
+    medicines_removed: number
+    medicines_kept: number // still used by other pharmacies
+    message: string
+}
+
+export interface StaffMember {
+    id: string
+    user_id: string
+    role: PharmacyRole
+    is_active: boolean
+    created_at: string
+    email: string
+    full_name: string
+    phone: string | null
+    is_current_user: boolean
+}
+
+export interface InviteStaffRequest {
+    email: string
+    full_name?: string
+    role: PharmacyRole
+}
+
+export interface UpdateStaffMemberRequest {
+    member_id: string
+    role?: PharmacyRole
+    is_active?: boolean
+}
+
+export interface CronJobRun {
+    id: string
+    job_name: string
+    trigger: 'schedule' | 'manual'
+    pharmacy_id: string | null // null when the run covered every pharmacy
+    status: 'running' | 'success' | 'failed'
+    message: string | null
+    output: Record<string, unknown> | null
+    error: string | null
+    started_at: string
+    finished_at: string | null
+    duration_ms: number | null
+}
+
+export interface ScheduledJob {
+    name: string
+    label: string
+    description: string
+    schedule: string
+    schedule_label: string
+    last_run: CronJobRun | null
+}
+
+export interface PurchaseTaxDefaults extends PurchaseTaxContext {
+    rates: MedicineTaxDefault[]
+}
+
+export interface SupplierImportMapping {
+    supplier_id: string
+    header_row: number
+    column_mapping: ColumnMapping
+    updated_at: string
+}
+
+export type MedicineMatchCandidate = Pick<Medicine, 'id' | 'name' | 'manufacturer' | 'strength' | 'pack_size'>
+
+export interface MedicineMatch {
+    name: string
+    exact: MedicineMatchCandidate | null
+    suggestions: (MedicineMatchCandidate & { score: number })[]
+}
+
+export interface StockTransferItem {
+    id: string
+    medicine_id: string
+    batch_number: string
+    expiry_date: string
+    quantity: number
+    rate: number
+    mrp: number | null
+    amount: number
+    medicines?: {
+        name: string
+        manufacturer: string
+    }
+}
+
+export interface StockTransfer {
+    id: string
+    transfer_number: string
+    from_pharmacy_id: string
+    to_pharmacy_id: string
+    status: 'in_transit' | 'received' | 'cancelled'
+    total_amount: number
+    notes?: string | null
+    dispatched_at: string
+    received_at?: string | null
+    cancelled_at?: string | null
+    from_pharmacy?: { id: string; name: string; city: string | null }
+    to_pharmacy?: { id: string; name: string; city: string | null }
+    stock_transfer_items: StockTransferItem[]
+}
+
+export interface StockTransfersResponse {
+    data: StockTransfer[]
+    in_transit: {
+        incoming_count: number
+        incoming_value: number
+        outgoing_count: number
+        outgoing_value: number
+    }
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+}
+
+export interface CreateStockTransferRequest {
+    to_pharmacy_id: string
+    notes?: string
+    items: {
+        medicine_name: string
+        batch_number: string
+        expiry_date: string
+        quantity: number
+    }[]
+}
+
+export interface StockDestructionItem {
+    id: string
+    inventory_id: string | null
+    medicine_id: string
+    batch_number: string
+    expiry_date: string
+    quantity: number
+    rate: number // purchase rate
+    mrp: number | null
+    amount: number
+    medicines?: {
+        name: string
+        manufacturer: string
+    }
+}
+
+export interface StockDestruction {
+    id: string
+    destruction_number: string
+    destruction_date: string
+    witness_name: string
+    witness_designation?: string | null
+    method?: string | null
+    notes?: string | null
+    total_quantity: number
+    total_loss: number
+    created_at: string
+    pharmacies?: PurchaseReturn['pharmacies']
+    stock_destruction_items: StockDestructionItem[]
+}
+
+export interface StockDestructionsResponse {
+    data: StockDestruction[]
+    totals: {
+        quantity: number
+        loss: number
+    }
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+}
+
+export interface CreateStockDestructionRequest {
+    inventory_ids: string[]
+    destruction_date: string
+    witness_name: string
+    witness_designation?: string
+    method?: string
+    notes?: string
+}
+
+export interface BranchFigures {
+    stock_value: number
+    stocked_batches: number
+    expiring_soon: number
+    todays_purchases: number
+    month_purchases: number
+    todays_sales: number
+    month_sales: number
+}
+
+export interface BranchSummary extends BranchFigures {
+    pharmacy_id: string
+    name: string
+    city: string | null
+    role: PharmacyRole
+    expiring_soon_days: number
+    currency: string
+}
+
+export interface BranchSummaryResponse {
+    branches: BranchSummary[]
+    totals: BranchFigures
+}
+
+export interface ReorderSuggestionsResponse {
+    options: ReorderOptions
+    groups: ReorderSupplierGroup[]
+    summary: {
+        medicines_checked: number
+        medicines_to_reorder: number
+        suppliers: number
+        estimated_amount: number
+    }
+}
+
+export interface PurchaseOrderItem {
+    id: string
+    medicine_id: string
+    quantity: number
+    suggested_quantity: number | null
+    rate: number
+    amount: number
+    medicines?: {
+        name: string
+        manufacturer: string | null
+        strength: string | null
+        pack_size: string | null
+    }
+}
+
+export interface PurchaseOrder {
+    id: string
+    po_number: string
+    supplier_id: string
+    status: 'draft' | 'sent' | 'received' | 'cancelled'
+    order_date: string
+    expected_date?: string | null
+    total_amount: number
+    notes?: string | null
+    purchase_id?: string | null
+    sent_at?: string | null
+    received_at?: string | null
+    cancelled_at?: string | null
+    created_at: string
+    suppliers?: {
+        id: string
+        name: string
+        contact_person: string | null
+        phone: string | null
+        email: string | null
+        address?: string | null
+        city?: string | null
+        gst_number?: string | null
+        drug_license_number?: string | null
+    }
+    pharmacies?: {
+        name: string
+        address: string | null
+        city: string | null
+        state: string | null
+        phone: string | null
+        email: string | null
+        gst_number: string | null
+        license_number: string | null
+    }
+    purchase_order_items: PurchaseOrderItem[]
+}
+
+export interface PurchaseOrdersResponse {
+    data: PurchaseOrder[]
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+}
+
+export interface CreatePurchaseOrderRequest {
+    supplier_id: string
+    expected_date?: string
+    notes?: string
+    items: {
+        medicine_id: string
+        quantity: number
+        rate?: number
+        suggested_quantity?: number | null
+    }[]
+}
+
+export interface PendingPurchaseItem {
+    id: string
+    medicine_id: string
+    batch_number: string | null
+    expiry_date: string | null
+    quantity: number
+    free_quantity: number | null
+    total_quantity: number
+    received_quantity: number | null
+    damaged_quantity: number | null
+    mrp: number | null
+    purchase_rate: number
+    medicines?: { name: string }
+}
+
+export interface PendingPurchase {
+    id: string
+    invoice_number: string
+    purchase_date: string
+    status: 'draft' | 'sent' | 'partially_received'
+    total_amount: number
+    sent_at: string | null
+    notes: string | null
+    suppliers?: { id: string; name: string }
+    purchase_items: PendingPurchaseItem[]
+}
+
+export interface PendingPurchasesResponse {
+    data: PendingPurchase[]
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+}
+
+export interface PurchaseReceipt {
+    id: string
+    receipt_number: string
+    received_date: string
+    notes: string | null
+    created_at: string
+    users?: { full_name: string | null }
+    purchase_receipt_items: {
+        id: string
+        purchase_item_id: string
+        received_quantity: number
+        damaged_quantity: number
+        notes: string | null
+        purchase_items?: {
+            batch_number: string | null
+            expiry_date: string | null
+            medicines?: { name: string }
+        }
+    }[]
+}
+
+export interface UnverifiedPurchase {
+    id: string
+    supplier_id: string
+    invoice_number: string
+    purchase_date: string
+    total_amount: number
+    status: 'received'
+    received_at: string | null
+    suppliers?: { name: string }
+    items_count: number
+    duplicates: DuplicateMatch[]
+}
+
+export interface UnverifiedPurchasesResponse {
+    data: UnverifiedPurchase[]
+    total: number
+    page: number
+    limit: number
+    totalPages: number
+}
+
+// Body of a 409 from saving or verifying a purchase that may already be entered
+export interface DuplicatePurchaseError {
+    error: string
+    duplicates: DuplicateMatch[]
+    requires_confirmation?: boolean
+}
+
+export interface CreatePurchaseReceiptRequest {
+    purchase_id: string
+    received_date?: string
+    notes?: string
+    items: {
+        purchase_item_id: string
+        received_quantity: number
+        damaged_quantity?: number
+        batch_number?: string
+        expiry_date?: string
+        mrp?: number
+        notes?: string
+    }[]
+}
+
 export const pharmacyApi = createApi({
     reducerPath: 'pharmacyApi',
     baseQuery: fetchBaseQuery({
@@ -122,24 +887,38 @@ export const pharmacyApi = createApi({
             if (session?.access_token) {
                 headers.set('authorization', `Bearer ${session.access_token}`)
             }
+            // Scope every request to the pharmacy selected in the admin layout
+            const pharmacyId = getActivePharmacyId()
+            if (pharmacyId) {
+                headers.set(ACTIVE_PHARMACY_HEADER, pharmacyId)
+            }
             return headers
         },
     }),
-    tagTypes: ['Purchase', 'Medicine', 'Supplier', 'Inventory', 'Expiry', 'PurchaseStats'],
+    tagTypes: ['Purchase', 'Medicine', 'Supplier', 'Inventory', 'Expiry', 'PurchaseStats', 'Sale', 'PurchaseReturn', 'SupplierPayment', 'Staff', 'StockTransfer', 'ImportMapping', 'Settings', 'PurchaseOrder', 'ScheduledJob', 'StockDestruction'],
     endpoints: (builder) => ({
         // Purchase endpoints
-        getPurchases: builder.query<PurchaseResponse[], { page?: number; limit?: number }>({
+        getPurchases: builder.query<PurchaseSearchResponse, { page?: number; limit?: number }>({
             query: ({ page = 1, limit = 10 } = {}) => `purchases?page=${page}&limit=${limit}`,
             providesTags: ['Purchase'],
         }),
 
-        searchPurchases: builder.query<PurchaseSearchResult[], PurchaseSearchFilters>({
+        searchPurchases: builder.query<PurchaseSearchResponse, PurchaseSearchFilters>({
             query: (filters) => {
                 const params = new URLSearchParams()
                 if (filters.medicine_name) params.append('medicine_name', filters.medicine_name)
                 if (filters.supplier_name) params.append('supplier_name', filters.supplier_name)
                 if (filters.batch_number) params.append('batch_number', filters.batch_number)
                 if (filters.date) params.append('date', filters.date)
+                if (filters.date_from) params.append('date_from', filters.date_from)
+                if (filters.date_to) params.append('date_to', filters.date_to)
+                if (filters.min_amount !== undefined) params.append('min_amount', filters.min_amount.toString())
+                if (filters.max_amount !== undefined) params.append('max_amount', filters.max_amount.toString())
+                if (filters.expiry_from) params.append('expiry_from', filters.expiry_from)
+                if (filters.expiry_to) params.append('expiry_to', filters.expiry_to)
+                if (filters.status) params.append('status', filters.status)
+                if (filters.sort_by) params.append('sort_by', filters.sort_by)
+                if (filters.sort_order) params.append('sort_order', filters.sort_order)
                 params.append('page', (filters.page || 1).toString())
                 params.append('limit', (filters.limit || 50).toString())
 
@@ -159,10 +938,105 @@ export const pharmacyApi = createApi({
                 method: 'POST',
                 body: purchase,
             }),
-            invalidatesTags: ['Purchase', 'PurchaseStats', 'Inventory', 'Expiry'],
+            invalidatesTags: ['Purchase', 'PurchaseStats', 'Inventory', 'Expiry', 'PurchaseOrder'],
+        }),
+
+        // Purchase lifecycle: drafts and orders sent to suppliers, and goods received against them
+        getPendingPurchases: builder.query<PendingPurchasesResponse, { page?: number; limit?: number } | void>({
+            query: (params) => {
+                const searchParams = new URLSearchParams()
+                searchParams.append('page', (params?.page || 1).toString())
+                searchParams.append('limit', (params?.limit || 10).toString())
+
+                return `purchases/pending?${searchParams.toString()}`
+            },
+            providesTags: ['Purchase'],
+        }),
+
+        getPurchaseReceipts: builder.query<PurchaseReceipt[], string>({
+            query: (purchaseId) => `purchases/${purchaseId}/receipts`,
+            providesTags: (result, error, purchaseId) => [{ type: 'Purchase', id: purchaseId }],
+        }),
+
+        createPurchaseReceipt: builder.mutation<{ receipt_id: string; receipt_number: string; status: string; message: string }, CreatePurchaseReceiptRequest>({
+            query: ({ purchase_id, ...receipt }) => ({
+                url: `purchases/${purchase_id}/receipts`,
+                method: 'POST',
+                body: receipt,
+            }),
+            invalidatesTags: ['Purchase', 'PurchaseStats', 'Inventory', 'Expiry', 'SupplierPayment'],
+        }),
+
+        updatePurchaseStatus: builder.mutation<PurchaseResponse, { id: string; action: 'send' | 'cancel' }>({
+            query: ({ id, action }) => ({
+                url: `purchases/${id}`,
+                method: 'PUT',
+                body: { action },
+            }),
+            invalidatesTags: ['Purchase'],
+        }),
+
+        // Verification of received purchases against the supplier's invoice
+        getUnverifiedPurchases: builder.query<UnverifiedPurchasesResponse, { page?: number; limit?: number } | void>({
+            query: (params) => {
+                const searchParams = new URLSearchParams()
+                searchParams.append('page', (params?.page || 1).toString())
+                searchParams.append('limit', (params?.limit || 10).toString())
+
+                return `purchases/verification?${searchParams.toString()}`
+            },
+            providesTags: ['Purchase'],
+        }),
+
+        verifyPurchase: builder.mutation<PurchaseResponse, { id: string; allow_likely_duplicate?: boolean }>({
+            query: ({ id, allow_likely_duplicate }) => ({
+                url: `purchases/${id}`,
+                method: 'PUT',
+                body: { action: 'verify', allow_likely_duplicate },
+            }),
+            invalidatesTags: ['Purchase', 'PurchaseStats'],
+        }),
+
+        // Invoice file import: saved column mapping per supplier
+        getPurchaseTaxDefaults: builder.query<PurchaseTaxDefaults, { supplier_name?: string; medicine_names?: string[] }>({
+            query: ({ supplier_name, medicine_names = [] }) => {
+                const params = new URLSearchParams()
+                if (supplier_name) params.append('supplier_name', supplier_name)
+                medicine_names.forEach(name => params.append('medicine_name', name))
+                return `purchases/tax-defaults?${params.toString()}`
+            },
+            providesTags: ['Purchase'],
+        }),
+
+        // GST purchases (ITC) report for a month, and the same report as a GSTR-2B style CSV
+        getGstPurchaseReport: builder.query<GstPurchaseReport, string>({
+            query: (month) => `reports/gst-purchases?month=${month}`,
+            providesTags: ['Purchase', 'Supplier'],
         }),
 
-        updatePurchase: builder.mutation<PurchaseResponse, { id: string; data: Partial<CreatePurchaseRequest> }>({
+        getGstPurchaseReportCsv: builder.query<string, string>({
+            query: (month) => ({
+                url: `reports/gst-purchases?month=${month}&format=csv`,
+                responseHandler: 'text',
+            }),
+            providesTags: ['Purchase', 'Supplier'],
+        }),
+
+        getImportMapping: builder.query<{ mapping: SupplierImportMapping | null }, string>({
+            query: (supplier_name) => `purchases/import-mappings?supplier_name=${encodeURIComponent(supplier_name)}`,
+            providesTags: ['ImportMapping'],
+        }),
+
+        saveImportMapping: builder.mutation<{ mapping: SupplierImportMapping }, { supplier_name: string; header_row: number; column_mapping: ColumnMapping }>({
+            query: (mapping) => ({
+                url: 'purchases/import-mappings',
+                method: 'PUT',
+                body: mapping,
+            }),
+            invalidatesTags: ['ImportMapping'],
+        }),
+
+        updatePurchase: builder.mutation<PurchaseResponse, { id: string; data: UpdatePurchaseRequest }>({
             query: ({ id, data }) => ({
                 url: `purchases/${id}`,
                 method: 'PUT',
@@ -170,6 +1044,8 @@ export const pharmacyApi = createApi({
             }),
             invalidatesTags: (result, error, { id }) => [
                 { type: 'Purchase', id },
+                'Purchase',
+                'PurchaseStats',
                 'Inventory',
                 'Expiry',
             ],
@@ -180,7 +1056,7 @@ export const pharmacyApi = createApi({
                 url: `purchases/${id}`,
                 method: 'DELETE',
             }),
-            invalidatesTags: ['Purchase', 'Inventory', 'Expiry'],
+            invalidatesTags: ['Purchase', 'PurchaseStats', 'Inventory', 'Expiry'],
         }),
 
         updatePurchaseItem: builder.mutation<PurchaseSearchResult, { purchase_item_id: string; data: Partial<PurchaseSearchResult> }>({
@@ -200,12 +1076,86 @@ export const pharmacyApi = createApi({
             invalidatesTags: ['Purchase', 'PurchaseStats', 'Inventory', 'Expiry'],
         }),
 
+        // Purchase return (debit note) endpoints
+        getPurchaseReturns: builder.query<PurchaseReturnsResponse, { supplier_id?: string; page?: number; limit?: number } | void>({
+            query: (params) => {
+                const searchParams = new URLSearchParams()
+                if (params?.supplier_id) searchParams.append('supplier_id', params.supplier_id)
+                searchParams.append('page', (params?.page || 1).toString())
+                searchParams.append('limit', (params?.limit || 10).toString())
+
+                return `purchase-returns?${searchParams.toString()}`
+            },
+            providesTags: ['PurchaseReturn'],
+        }),
+
+        createPurchaseReturn: builder.mutation<PurchaseReturn, CreatePurchaseReturnRequest>({
+            query: (purchaseReturn) => ({
+                url: 'purchase-returns',
+                method: 'POST',
+                body: purchaseReturn,
+            }),
+            invalidatesTags: ['PurchaseReturn', 'Supplier', 'SupplierPayment', 'Inventory', 'Expiry'],
+        }),
+
+        // Supplier payment endpoints
+        getOutstandingPayments: builder.query<OutstandingPaymentsResponse, { status?: string } | void>({
+            query: (params) => params?.status ? `supplier-payments?status=${params.status}` : 'supplier-payments',
+            providesTags: ['SupplierPayment', 'Purchase'],
+        }),
+
+        getSupplierLedger: builder.query<SupplierLedgerResponse, string>({
+            query: (supplierId) => `supplier-payments?supplier_id=${supplierId}`,
+            providesTags: ['SupplierPayment', 'Purchase', 'PurchaseReturn'],
+        }),
+
+        createSupplierPayment: builder.mutation<{ payment: SupplierPayment; purchase: PurchasePaymentInfo }, CreateSupplierPaymentRequest>({
+            query: (payment) => ({
+                url: 'supplier-payments',
+                method: 'POST',
+                body: payment,
+            }),
+            invalidatesTags: ['SupplierPayment', 'PurchaseReturn'],
+        }),
+
+        deleteSupplierPayment: builder.mutation<{ success: boolean; purchase: PurchasePaymentInfo }, string>({
+            query: (paymentId) => ({
+                url: `supplier-payments?payment_id=${paymentId}`,
+                method: 'DELETE',
+            }),
+            invalidatesTags: ['SupplierPayment', 'PurchaseReturn'],
+        }),
+
         // Medicine endpoints
-        getMedicines: builder.query<Medicine[], void>({
-            query: () => 'medicines',
+        getMedicines: builder.query<Medicine[], { search?: string; page?: number; limit?: number; include_inactive?: boolean } | void>({
+            query: (params) => {
+                if (!params) return 'medicines'
+
+                const searchParams = new URLSearchParams()
+                if (params.search) searchParams.append('search', params.search)
+                if (params.page) searchParams.append('page', params.page.toString())
+                if (params.limit) searchParams.append('limit', params.limit.toString())
+                if (params.include_inactive) searchParams.append('include_inactive', 'true')
+
+                return `medicines?${searchParams.toString()}`
+            },
             providesTags: ['Medicine'],
         }),
 
+        getDuplicateMedicines: builder.query<{ groups: DuplicateMedicineGroup[] }, void>({
+            query: () => 'medicines/duplicates',
+            providesTags: ['Medicine'],
+        }),
+
+        // Catalog matches for item names read from an invoice file
+        matchMedicines: builder.mutation<{ matches: MedicineMatch[] }, string[]>({
+            query: (names) => ({
+                url: 'medicines/match',
+                method: 'POST',
+                body: { names },
+            }),
+        }),
+
         createMedicine: builder.mutation<Medicine, Omit<Medicine, 'id' | 'created_at'>>({
             query: (medicine) => ({
                 url: 'medicines',
@@ -215,8 +1165,26 @@ export const pharmacyApi = createApi({
             invalidatesTags: ['Medicine'],
         }),
 
+        updateMedicine: builder.mutation<{ medicine: Medicine; message: string }, { medicine_id: string; is_active?: boolean } & Partial<MedicineFormData>>({
+            query: ({ medicine_id, ...data }) => ({
+                url: 'medicines',
+                method: 'PUT',
+                body: { medicine_id, ...data },
+            }),
+            invalidatesTags: ['Medicine', 'Inventory', 'Expiry'],
+        }),
+
+        mergeMedicines: builder.mutation<MergeMedicinesResponse, { target_medicine_id: string; source_medicine_ids: string[] }>({
+            query: (body) => ({
+                url: 'medicines/merge',
+                method: 'POST',
+                body,
+            }),
+            invalidatesTags: ['Medicine', 'Inventory', 'Expiry', 'Purchase', 'Sale', 'PurchaseReturn'],
+        }),
+
         // Supplier endpoints
-        getSuppliers: builder.query<Supplier[], { search?: string; page?: number; limit?: number } | void>({
+        getSuppliers: builder.query<Supplier[], { search?: string; page?: number; limit?: number; include_inactive?: boolean } | void>({
             query: (params) => {
                 if (!params) return 'suppliers'
 
@@ -224,13 +1192,14 @@ export const pharmacyApi = createApi({
                 if (params.search) searchParams.append('search', params.search)
                 if (params.page) searchParams.append('page', params.page.toString())
                 if (params.limit) searchParams.append('limit', params.limit.toString())
+                if (params.include_inactive) searchParams.append('include_inactive', 'true')
 
                 return `suppliers?${searchParams.toString()}`
             },
             providesTags: ['Supplier'],
         }),
 
-        createSupplier: builder.mutation<Supplier, Omit<Supplier, 'id' | 'created_at'>>({
+        createSupplier: builder.mutation<Supplier, SupplierFormData>({
             query: (supplier) => ({
                 url: 'suppliers',
                 method: 'POST',
@@ -239,13 +1208,30 @@ export const pharmacyApi = createApi({
             invalidatesTags: ['Supplier'],
         }),
 
-        updateSupplier: builder.mutation<{ supplier: Supplier; message: string }, { supplier_id: string; new_name: string }>({
-            query: ({ supplier_id, new_name }) => ({
+        updateSupplier: builder.mutation<{ supplier: Supplier; message: string }, { supplier_id: string; new_name?: string } & Partial<SupplierFormData>>({
+            query: ({ supplier_id, ...data }) => ({
                 url: 'suppliers',
                 method: 'PUT',
-                body: { supplier_id, new_name },
+                body: { supplier_id, ...data },
+            }),
+            invalidatesTags: ['Supplier', 'Purchase', 'PurchaseStats', 'SupplierPayment'],
+        }),
+
+        deactivateSupplier: builder.mutation<{ supplier: Supplier; message: string }, string>({
+            query: (supplierId) => ({
+                url: `suppliers?supplier_id=${supplierId}`,
+                method: 'DELETE',
+            }),
+            invalidatesTags: ['Supplier'],
+        }),
+
+        mergeSuppliers: builder.mutation<MergeSuppliersResponse, { target_supplier_id: string; source_supplier_ids: string[] }>({
+            query: (body) => ({
+                url: 'suppliers/merge',
+                method: 'POST',
+                body,
             }),
-            invalidatesTags: ['Supplier', 'Purchase', 'PurchaseStats'],
+            invalidatesTags: ['Supplier', 'Purchase', 'PurchaseStats', 'PurchaseReturn', 'SupplierPayment'],
         }),
 
         // Inventory endpoints
@@ -254,13 +1240,149 @@ export const pharmacyApi = createApi({
             providesTags: ['Inventory'],
         }),
 
-        updateStock: builder.mutation<void, { medicine_name: string; quantity: number; operation: 'add' | 'subtract' }>({
+        updateStock: builder.mutation<StockAdjustmentResponse, StockAdjustmentRequest>({
             query: (data) => ({
                 url: 'inventory/update-stock',
                 method: 'POST',
                 body: data,
             }),
-            invalidatesTags: ['Inventory'],
+            invalidatesTags: ['Inventory', 'Expiry'],
+        }),
+
+        // Inter-branch stock transfer endpoints
+        getStockTransfers: builder.query<StockTransfersResponse, {
+            direction?: 'incoming' | 'outgoing'
+            status?: StockTransfer['status']
+            page?: number
+            limit?: number
+        } | void>({
+            query: (params) => {
+                const searchParams = new URLSearchParams()
+                if (params?.direction) searchParams.append('direction', params.direction)
+                if (params?.status) searchParams.append('status', params.status)
+                searchParams.append('page', (params?.page || 1).toString())
+                searchParams.append('limit', (params?.limit || 10).toString())
+
+                return `stock-transfers?${searchParams.toString()}`
+            },
+            providesTags: ['StockTransfer'],
+        }),
+
+        createStockTransfer: builder.mutation<{ transfer: StockTransfer; message: string }, CreateStockTransferRequest>({
+            query: (transfer) => ({
+                url: 'stock-transfers',
+                method: 'POST',
+                body: transfer,
+            }),
+            invalidatesTags: ['StockTransfer', 'Inventory', 'Expiry'],
+        }),
+
+        updateStockTransfer: builder.mutation<{ transfer_id: string; status: StockTransfer['status']; message: string }, { id: string; action: 'receive' | 'cancel' }>({
+            query: ({ id, action }) => ({
+                url: `stock-transfers/${id}`,
+                method: 'PUT',
+                body: { action },
+            }),
+            invalidatesTags: ['StockTransfer', 'Inventory', 'Expiry'],
+        }),
+
+        // Expired stock write-off and destruction register endpoints
+        getStockDestructions: builder.query<StockDestructionsResponse, { page?: number; limit?: number } | void>({
+            query: (params) => {
+                const searchParams = new URLSearchParams()
+                searchParams.append('page', (params?.page || 1).toString())
+                searchParams.append('limit', (params?.limit || 10).toString())
+
+                return `stock-destructions?${searchParams.toString()}`
+            },
+            providesTags: ['StockDestruction'],
+        }),
+
+        createStockDestruction: builder.mutation<{ destruction: StockDestruction; message: string }, CreateStockDestructionRequest>({
+            query: (destruction) => ({
+                url: 'stock-destructions',
+                method: 'POST',
+                body: destruction,
+            }),
+            invalidatesTags: ['StockDestruction', 'Inventory', 'Expiry'],
+        }),
+
+        // Reorder suggestions and purchase order endpoints
+        getReorderSuggestions: builder.query<ReorderSuggestionsResponse, Partial<ReorderOptions> | void>({
+            query: (params) => {
+                const searchParams = new URLSearchParams()
+                if (params?.days !== undefined) searchParams.append('days', params.days.toString())
+                if (params?.lead_time_days !== undefined) searchParams.append('lead_time_days', params.lead_time_days.toString())
+                if (params?.cover_days !== undefined) searchParams.append('cover_days', params.cover_days.toString())
+
+                return `reorder?${searchParams.toString()}`
+            },
+            providesTags: ['PurchaseOrder', 'Inventory'],
+        }),
+
+        getPurchaseOrders: builder.query<PurchaseOrdersResponse, {
+            status?: PurchaseOrder['status'] | 'open'
+            page?: number
+            limit?: number
+        } | void>({
+            query: (params) => {
+                const searchParams = new URLSearchParams()
+                if (params?.status) searchParams.append('status', params.status)
+                searchParams.append('page', (params?.page || 1).toString())
+                searchParams.append('limit', (params?.limit || 10).toString())
+
+                return `purchase-orders?${searchParams.toString()}`
+            },
+            providesTags: ['PurchaseOrder'],
+        }),
+
+        getPurchaseOrderById: builder.query<PurchaseOrder, string>({
+            query: (id) => `purchase-orders/${id}`,
+            providesTags: (result, error, id) => [{ type: 'PurchaseOrder', id }],
+        }),
+
+        createPurchaseOrder: builder.mutation<{ order: PurchaseOrder; message: string }, CreatePurchaseOrderRequest>({
+            query: (order) => ({
+                url: 'purchase-orders',
+                method: 'POST',
+                body: order,
+            }),
+            invalidatesTags: ['PurchaseOrder'],
+        }),
+
+        updatePurchaseOrder: builder.mutation<{ id: string; status: PurchaseOrder['status']; message: string }, { id: string; action: 'send' | 'cancel' }>({
+            query: ({ id, action }) => ({
+                url: `purchase-orders/${id}`,
+                method: 'PUT',
+                body: { action },
+            }),
+            invalidatesTags: ['PurchaseOrder'],
+        }),
+
+        // Sales (billing) endpoints
+        getSales: builder.query<SalesResponse, { page?: number; limit?: number } | void>({
+            query: (params) => {
+                const searchParams = new URLSearchParams()
+                searchParams.append('page', (params?.page || 1).toString())
+                searchParams.append('limit', (params?.limit || 10).toString())
+
+                return `sales?${searchParams.toString()}`
+            },
+            providesTags: ['Sale'],
+        }),
+
+        getSaleBatches: builder.query<SaleBatchAvailability, string>({
+            query: (medicine_name) => `sales?type=batches&medicine_name=${encodeURIComponent(medicine_name)}`,
+            providesTags: ['Inventory'],
+        }),
+
+        createSale: builder.mutation<Sale, CreateSaleRequest>({
+            query: (sale) => ({
+                url: 'sales',
+                method: 'POST',
+                body: sale,
+            }),
+            invalidatesTags: ['Sale', 'Inventory', 'Expiry'],
         }),
 
         // Expiry tracking endpoints
@@ -302,6 +1424,92 @@ export const pharmacyApi = createApi({
             providesTags: ['Expiry'],
         }),
 
+        getExpiryAlertWorklist: builder.query<ExpiryAlertWorklistResponse, {
+            status?: ExpiryAlertStatus | 'open';
+            alert_type?: string;
+            page?: number;
+            limit?: number;
+        }>({
+            query: (params = {}) => {
+                const searchParams = new URLSearchParams()
+                if (params.status) searchParams.append('status', params.status)
+                if (params.alert_type) searchParams.append('alert_type', params.alert_type)
+                if (params.page) searchParams.append('page', params.page.toString())
+                if (params.limit) searchParams.append('limit', params.limit.toString())
+
+                return `expiry-alerts?${searchParams.toString()}`
+            },
+            providesTags: ['Expiry'],
+        }),
+
+        refreshExpiryAlerts: builder.mutation<RefreshExpiryAlertsResponse, void>({
+            query: () => ({
+                url: 'expiry-alerts',
+                method: 'POST',
+            }),
+            invalidatesTags: ['Expiry'],
+        }),
+
+        updateExpiryAlerts: builder.mutation<{ updated: number; message: string }, {
+            alert_ids: string[];
+            action: 'acknowledge' | 'resolve' | 'reopen';
+            notes?: string;
+        }>({
+            query: (body) => ({
+                url: 'expiry-alerts',
+                method: 'PUT',
+                body,
+            }),
+            invalidatesTags: ['Expiry'],
+        }),
+
+        // Staff endpoints
+        getStaff: builder.query<{ data: StaffMember[] }, void>({
+            query: () => 'staff',
+            providesTags: ['Staff'],
+        }),
+        inviteStaff: builder.mutation<{ invited: boolean; message: string }, InviteStaffRequest>({
+            query: (body) => ({
+                url: 'staff',
+                method: 'POST',
+                body,
+            }),
+            invalidatesTags: ['Staff'],
+        }),
+        updateStaffMember: builder.mutation<{ message: string }, UpdateStaffMemberRequest>({
+            query: (body) => ({
+                url: 'staff',
+                method: 'PUT',
+                body,
+            }),
+            invalidatesTags: ['Staff'],
+        }),
+
+        // Pharmacy settings endpoints
+        getPharmacySettings: builder.query<PharmacySettings, void>({
+            query: () => 'settings',
+            providesTags: ['Settings'],
+        }),
+        updatePharmacySettings: builder.mutation<PharmacySettings, Partial<PharmacySettings>>({
+            query: (body) => ({
+                url: 'settings',
+                method: 'PUT',
+                body,
+            }),
+            // Thresholds change what the inventory, expiry and dashboard figures include
+            invalidatesTags: ['Settings', 'Inventory', 'Expiry'],
+        }),
+        getScheduledJobs: builder.query<{ data: ScheduledJob[] }, void>({
+            query: () => 'settings/jobs',
+            providesTags: ['ScheduledJob'],
+        }),
+
+        // Consolidated figures across every branch the user belongs to
+        getBranchSummary: builder.query<BranchSummaryResponse, void>({
+            query: () => 'dashboard/branches',
+            providesTags: ['Purchase', 'Inventory', 'Sale'],
+        }),
+
         // Dashboard stats
         getDashboardStats: builder.query<{
             total_medicines: number
@@ -313,6 +1521,8 @@ export const pharmacyApi = createApi({
             expiring_soon: number
             expiring_soon_change: number
             expiring_soon_trend: 'up' | 'down' | 'neutral'
+            expiring_soon_days: number
+            currency: string
             stock_value: number
             stock_value_change: number
             stock_value_trend: 'up' | 'down' | 'neutral'
@@ -358,20 +1568,66 @@ export const {
     useSearchPurchasesQuery,
     useGetPurchaseByIdQuery,
     useCreatePurchaseMutation,
+    useGetPendingPurchasesQuery,
+    useGetPurchaseReceiptsQuery,
+    useCreatePurchaseReceiptMutation,
+    useUpdatePurchaseStatusMutation,
+    useGetUnverifiedPurchasesQuery,
+    useVerifyPurchaseMutation,
+    useLazyGetPurchaseTaxDefaultsQuery,
+    useGetGstPurchaseReportQuery,
+    useLazyGetGstPurchaseReportCsvQuery,
+    useLazyGetImportMappingQuery,
+    useSaveImportMappingMutation,
     useUpdatePurchaseMutation,
     useDeletePurchaseMutation,
     useUpdatePurchaseItemMutation,
     useDeletePurchaseItemMutation,
+    useGetPurchaseReturnsQuery,
+    useCreatePurchaseReturnMutation,
+    useGetOutstandingPaymentsQuery,
+    useGetSupplierLedgerQuery,
+    useCreateSupplierPaymentMutation,
+    useDeleteSupplierPaymentMutation,
     useGetMedicinesQuery,
     useCreateMedicineMutation,
+    useGetDuplicateMedicinesQuery,
+    useMatchMedicinesMutation,
+    useUpdateMedicineMutation,
+    useMergeMedicinesMutation,
     useGetSuppliersQuery,
     useCreateSupplierMutation,
     useUpdateSupplierMutation,
+    useDeactivateSupplierMutation,
+    useMergeSuppliersMutation,
     useGetInventoryQuery,
     useUpdateStockMutation,
+    useGetSalesQuery,
+    useGetSaleBatchesQuery,
+    useCreateSaleMutation,
     useGetExpiryAlertsQuery,
     useGetExpiredMedicinesQuery,
     useGetExpiryStatsQuery,
+    useGetExpiryAlertWorklistQuery,
+    useRefreshExpiryAlertsMutation,
+    useUpdateExpiryAlertsMutation,
+    useGetStaffQuery,
+    useInviteStaffMutation,
+    useUpdateStaffMemberMutation,
+    useGetPharmacySettingsQuery,
+    useUpdatePharmacySettingsMutation,
+    useGetScheduledJobsQuery,
+    useGetStockTransfersQuery,
+    useCreateStockTransferMutation,
+    useUpdateStockTransferMutation,
+    useGetStockDestructionsQuery,
+    useCreateStockDestructionMutation,
+    useGetReorderSuggestionsQuery,
+    useGetPurchaseOrdersQuery,
+    useLazyGetPurchaseOrderByIdQuery,
+    useCreatePurchaseOrderMutation,
+    useUpdatePurchaseOrderMutation,
+    useGetBranchSummaryQuery,
     useGetDashboardStatsQuery,
     useGetPurchasesStatsQuery,
 } = pharmacyApi 
\ No newline at end of file
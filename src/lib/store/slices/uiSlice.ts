@@ -12,6 +12,7 @@ interface UiState {
     // Modal states
     modals: {
         purchaseEntry: boolean
+        purchaseImport: boolean
         medicineEntry: boolean
         supplierEntry: boolean
         confirmDialog: boolean
@@ -54,6 +55,7 @@ interface UiState {
 const initialState: UiState = {
     modals: {
         purchaseEntry: false,
+        purchaseImport: false,
         medicineEntry: false,
         supplierEntry: false,
         confirmDialog: false,
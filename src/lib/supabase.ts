@@ -23,6 +23,7 @@ export interface Medicine {
     pack_size?: string
     unit_type: string
     hsn_code?: string
+    schedule?: string
     prescription_required: boolean
     storage_conditions?: string
     is_active: boolean
@@ -38,6 +39,15 @@ export interface Purchase {
     invoice_number: string
     invoice_date: string
     purchase_date: string
+    subtotal?: number
+    discount_amount?: number
+    tax_amount?: number
+    cgst_amount?: number
+    sgst_amount?: number
+    igst_amount?: number
+    is_interstate?: boolean
+    transport_charges?: number
+    other_charges?: number
     total_amount: number
     payment_status: string
     payment_due_date?: string